@@ -0,0 +1,55 @@
+/**
+ * Appointment Management Page
+ *
+ * Lets parents review, reschedule or cancel an appointment after booking.
+ *
+ * Route: /onboarding/[sessionId]/appointment
+ *
+ * Flow:
+ * - Previous: /onboarding/[sessionId]/confirmation (after booking)
+ * - Next: /onboarding/[sessionId]/schedule (when booking a new appointment)
+ *
+ * Features:
+ * - Appointment details with confirmation number
+ * - Reschedule with calendar and time slot selection
+ * - Cancel with cancellation-policy confirmation and reason
+ * - Updated calendar links after a reschedule
+ */
+"use client";
+
+import { use } from "react";
+import { useRouter } from "next/navigation";
+
+import { AppointmentManagement } from "@/features/scheduling";
+
+/**
+ * Props for Appointment page
+ * Receives sessionId from dynamic route parameter
+ */
+interface AppointmentPageProps {
+  params: Promise<{
+    sessionId: string;
+  }>;
+}
+
+/**
+ * Appointment Management page component
+ *
+ * @example
+ * Route: /onboarding/sess_abc123/appointment
+ */
+export default function AppointmentPage({ params }: AppointmentPageProps) {
+  const { sessionId } = use(params);
+  const router = useRouter();
+
+  /**
+   * Sends the parent back to scheduling to book a new appointment
+   */
+  function handleBookNew() {
+    router.push(`/onboarding/${sessionId}/schedule`);
+  }
+
+  return (
+    <AppointmentManagement sessionId={sessionId} onBookNew={handleBookNew} />
+  );
+}
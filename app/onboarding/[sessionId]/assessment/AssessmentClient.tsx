@@ -10,8 +10,15 @@
 import * as React from "react";
 import { useRouter } from "next/navigation";
 import { ChatWindow, useAssessmentChat } from "@/features/assessment";
-import { ResourcePanel } from "@/features/support";
+import {
+  CrisisResourcesPanel,
+  EscalationPanel,
+  ResourcePanel,
+  useRiskScreening,
+  type EscalationSource,
+} from "@/features/support";
 import { getAuthToken } from "@/lib/apollo/client";
+import { useLiveSessionProgress } from "@/lib/completion";
 
 /**
  * Props for AssessmentClient component
@@ -30,11 +37,15 @@ interface AssessmentClientProps {
 export function AssessmentClient({ sessionId }: AssessmentClientProps) {
   const router = useRouter();
   const [isResourcePanelOpen, setIsResourcePanelOpen] = React.useState(false);
+  const [escalationSource, setEscalationSource] =
+    React.useState<EscalationSource | null>(null);
   const {
     messages,
     sendMessage,
     retryLastMessage,
+    cancelResponse,
     isAiResponding,
+    isStreaming,
     suggestedReplies,
     error,
     assessmentMode,
@@ -46,6 +57,17 @@ export function AssessmentClient({ sessionId }: AssessmentClientProps) {
     crisisDetected,
     handleConfirmSummary,
   } = useAssessmentChat(sessionId);
+  const liveProgress = useLiveSessionProgress(sessionId);
+  const {
+    isPanelOpen: isCrisisPanelOpen,
+    hasAcknowledged: hasAcknowledgedCrisis,
+    screen: screenForRisk,
+    acknowledge: acknowledgeCrisis,
+  } = useRiskScreening({
+    sessionId,
+    source: "chat",
+    riskFlags: liveProgress.assessment?.riskFlags,
+  });
 
   /**
    * Check for auth token and redirect if missing.
@@ -103,6 +125,27 @@ export function AssessmentClient({ sessionId }: AssessmentClientProps) {
     router.push(`/onboarding/${sessionId}/demographics`);
   }, [handleConfirmSummary, router, sessionId]);
 
+  /**
+   * Screens outgoing messages for crisis language before sending
+   * On a hit, the message is sent once crisis resources are acknowledged
+   */
+  const handleSend = React.useCallback(
+    (content: string, isQuickReply?: boolean) => {
+      screenForRisk(content, () => {
+        void sendMessage(content, isQuickReply);
+      });
+    },
+    [screenForRisk, sendMessage]
+  );
+
+  /**
+   * Opens the "Talk to a person" panel, closing resources if open
+   */
+  const openEscalation = React.useCallback((source: EscalationSource) => {
+    setIsResourcePanelOpen(false);
+    setEscalationSource(source);
+  }, []);
+
   // Show chat interface (Continue button shown when complete)
   return (
     <main className="flex flex-col h-full flex-1 bg-background overflow-hidden">
@@ -120,8 +163,8 @@ export function AssessmentClient({ sessionId }: AssessmentClientProps) {
         </div>
       )}
 
-      {/* Crisis detection banner */}
-      {crisisDetected && (
+      {/* Crisis detection banner (stays visible after the crisis panel is acknowledged) */}
+      {(crisisDetected || hasAcknowledgedCrisis) && (
         <div className="bg-red-50 border-b border-red-200 px-4 py-3">
           <div className="max-w-2xl mx-auto">
             <p className="text-sm text-red-800 font-medium">
@@ -149,16 +192,19 @@ export function AssessmentClient({ sessionId }: AssessmentClientProps) {
           messages={messages}
           sessionId={sessionId}
           onMessageUpdate={handleMessageUpdate}
-          onSend={sendMessage}
+          onSend={handleSend}
           onRetry={retryLastMessage}
           suggestedReplies={suggestedReplies}
           isAiResponding={isAiResponding}
+          isStreaming={isStreaming}
+          onCancel={cancelResponse}
           mode={assessmentMode}
           structuredQuestion={structuredQuestion || undefined}
           structuredProgress={structuredProgress || undefined}
           onStructuredAnswer={selectOption}
           onStructuredBack={goBack}
           onOpenResources={() => setIsResourcePanelOpen(true)}
+          onTalkToHuman={() => openEscalation("chat")}
         />
       </div>
 
@@ -181,6 +227,23 @@ export function AssessmentClient({ sessionId }: AssessmentClientProps) {
         isOpen={isResourcePanelOpen}
         onOpenChange={setIsResourcePanelOpen}
         source="chat"
+        onTalkToHuman={() => openEscalation("resources")}
+      />
+
+      {/* Talk to a person panel */}
+      <EscalationPanel
+        isOpen={escalationSource !== null}
+        onOpenChange={(open) => {
+          if (!open) setEscalationSource(null);
+        }}
+        sessionId={sessionId}
+        source={escalationSource ?? "chat"}
+      />
+
+      {/* Crisis safety interstitial */}
+      <CrisisResourcesPanel
+        isOpen={isCrisisPanelOpen}
+        onAcknowledge={acknowledgeCrisis}
       />
     </main>
   );
@@ -27,6 +27,7 @@ import { AlertCircle, Loader2 } from "lucide-react";
 
 import { Confirmation, type BookingRequest } from "@/features/scheduling";
 import { Button } from "@/components/ui/button";
+import { readSessionData } from "@/lib/storage";
 
 /**
  * Props for Confirmation page
@@ -60,8 +61,7 @@ export default function ConfirmationPage({ params }: ConfirmationPageProps) {
    */
   useEffect(() => {
     try {
-      const storageKey = `onboarding_session_${sessionId}`;
-      const stored = localStorage.getItem(storageKey);
+      const stored = readSessionData(sessionId);
 
       if (!stored) {
         setError("No booking data found. Please select a time slot first.");
@@ -16,7 +16,9 @@
  * - All cost fields: perSessionCost, coverage, copay, coinsurance
  * - Deductible and out-of-pocket maximum tracking
  * - Package options for self-pay
+ * - Payment plan options for the estimated total
  * - Personalized recommendation banner
+ * - Itemized per-session estimator with discount codes
  * - Insurance card thumbnail preview
  * - Graceful error handling with support contact
  * - Loading state with comparison calculation message
@@ -28,11 +30,14 @@
  */
 "use client";
 
-import { use } from "react";
+import { use, useState } from "react";
 import { useRouter } from "next/navigation";
 import { EnhancedCostComparisonView } from "@/features/cost/EnhancedCostComparisonView";
+import { CostCalculator } from "@/features/cost/CostCalculator";
+import { PaymentPlanModal } from "@/features/cost/PaymentPlanModal";
 import { useCostComparison } from "@/features/cost/hooks/useCostComparison";
 import { Button } from "@/components/ui/button";
+import { readSessionData, writeSessionData } from "@/lib/storage";
 
 /**
  * Props for Cost page
@@ -82,14 +87,19 @@ export default function CostPage({ params }: CostPageProps) {
     selfPayEstimate,
     deductibleStatus,
     insuranceDetails,
+    comparisonTable,
     recommendation,
     savingsIfSelfPay,
     highlightSelfPay,
+    estimatedCost,
+    perSessionCost,
     loading,
     error,
     refetch,
   } = useCostComparison(sessionId);
 
+  const [isPaymentPlanModalOpen, setIsPaymentPlanModalOpen] = useState(false);
+
   /**
    * Handles back navigation to insurance page
    */
@@ -111,10 +121,10 @@ export default function CostPage({ params }: CostPageProps) {
   function handleSelectInsurance() {
     try {
       // Store payment preference in localStorage
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
+      const stored = readSessionData(sessionId);
       const data = stored ? JSON.parse(stored) : { data: {} };
       data.data.paymentPreference = "insurance";
-      localStorage.setItem(`onboarding_session_${sessionId}`, JSON.stringify(data));
+      writeSessionData(sessionId, JSON.stringify(data));
 
       // Continue to matching
       router.push(`/onboarding/${sessionId}/matching`);
@@ -132,10 +142,10 @@ export default function CostPage({ params }: CostPageProps) {
   function handleSelectSelfPay() {
     try {
       // Store payment preference in localStorage
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
+      const stored = readSessionData(sessionId);
       const data = stored ? JSON.parse(stored) : { data: {} };
       data.data.paymentPreference = "self_pay";
-      localStorage.setItem(`onboarding_session_${sessionId}`, JSON.stringify(data));
+      writeSessionData(sessionId, JSON.stringify(data));
 
       // Continue to matching
       router.push(`/onboarding/${sessionId}/matching`);
@@ -185,6 +195,7 @@ export default function CostPage({ params }: CostPageProps) {
         selfPayEstimate={selfPayEstimate}
         deductibleStatus={deductibleStatus}
         insuranceDetails={insuranceDetails}
+        comparisonTable={comparisonTable}
         recommendation={recommendation}
         savingsIfSelfPay={savingsIfSelfPay}
         highlightSelfPay={highlightSelfPay}
@@ -195,6 +206,32 @@ export default function CostPage({ params }: CostPageProps) {
         onRetry={handleRetry}
       />
 
+      {/* Payment plans */}
+      {!loading && !error && estimatedCost != null && (
+        <div className="text-center max-w-4xl mx-auto">
+          <p className="text-sm text-muted-foreground">
+            Prefer to spread out payments?{" "}
+            <button
+              onClick={() => setIsPaymentPlanModalOpen(true)}
+              className="text-daybreak-teal hover:text-daybreak-teal/80 underline"
+            >
+              View payment plans
+            </button>
+          </p>
+        </div>
+      )}
+
+      <PaymentPlanModal
+        sessionId={sessionId}
+        estimatedCost={estimatedCost}
+        perSessionCost={perSessionCost}
+        open={isPaymentPlanModalOpen}
+        onOpenChange={setIsPaymentPlanModalOpen}
+      />
+
+      {/* Per-session estimator */}
+      <CostCalculator sessionId={sessionId} className="max-w-4xl mx-auto" />
+
       {/* Navigation Buttons */}
       <div className="flex flex-col-reverse sm:flex-row gap-3 max-w-4xl mx-auto">
         <Button
@@ -31,6 +31,7 @@ import type {
   ChildInfoInput,
   ClinicalIntakeInput,
 } from "@/lib/validations/demographics";
+import { readSessionData } from "@/lib/storage";
 
 /**
  * Props for Demographics page
@@ -125,7 +126,7 @@ export default function DemographicsPage({ params }: DemographicsPageProps) {
   useEffect(() => {
     try {
       // Load session data
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
+      const stored = readSessionData(sessionId);
       if (stored) {
         const parsed = JSON.parse(stored);
         if (parsed?.data) {
@@ -29,7 +29,8 @@ import {
   loadChatDataFromStorage,
   type AssessmentSummary,
 } from "@/features/assessment/form";
-import { notifyCompletionUpdate } from "@/lib/completion";
+import { notifyCompletionUpdate, useLiveSessionProgress } from "@/lib/completion";
+import { CrisisResourcesPanel, useRiskScreening } from "@/features/support";
 import {
   page1Schema,
   page1Defaults,
@@ -70,6 +71,16 @@ interface FormAssessmentClientProps {
  */
 export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
   const router = useRouter();
+  const liveProgress = useLiveSessionProgress(sessionId);
+  const {
+    isPanelOpen: isCrisisPanelOpen,
+    screen: screenForRisk,
+    acknowledge: acknowledgeCrisis,
+  } = useRiskScreening({
+    sessionId,
+    source: "form",
+    riskFlags: liveProgress.assessment?.riskFlags,
+  });
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [submitError, setSubmitError] = React.useState<string | null>(null);
   const [summary, setSummary] = React.useState<AssessmentSummary | null>(null);
@@ -237,9 +248,29 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
     [goToPage]
   );
 
+  /**
+   * Saves the form and moves past a page, showing the error if the save fails
+   */
+  const saveAndAdvance = React.useCallback(
+    async (page: number) => {
+      setSubmitError(null);
+      try {
+        await saveAll(getAllFormData());
+        markPageComplete(page);
+        goNext();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to save your answers. Please try again.";
+        setSubmitError(message);
+      }
+    },
+    [saveAll, getAllFormData, markPageComplete, goNext]
+  );
+
   /**
    * Handle next button click
-   * Validates current page, scrolls to first error if invalid, and advances
+   * Validates current page, scrolls to first error if invalid, and advances.
+   * Free-text answers are screened for crisis language first; on a hit,
+   * the page advances once crisis resources are acknowledged.
    */
   const handleNext = React.useCallback(async () => {
     let isValid = false;
@@ -247,9 +278,9 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
     if (currentPage === 1) {
       isValid = await page1Form.trigger();
       if (isValid) {
-        await saveAll(getAllFormData());
-        markPageComplete(1);
-        goNext();
+        screenForRisk(page1Form.getValues("primaryConcerns"), () => {
+          void saveAndAdvance(1);
+        });
       } else {
         // Scroll to first validation error
         scrollToFirstError();
@@ -257,14 +288,15 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
     } else if (currentPage === 2) {
       // Page 2 is all optional, always valid
       isValid = true;
-      await saveAll(getAllFormData());
-      markPageComplete(2);
-      goNext();
+      await saveAndAdvance(2);
     } else if (currentPage === 3) {
       isValid = await page3Form.trigger();
       if (isValid) {
         // Final page - submit
-        await handleSubmit();
+        const { recentEvents, therapyGoals } = page3Form.getValues();
+        screenForRisk([recentEvents, therapyGoals], () => {
+          void handleSubmit();
+        });
       } else {
         // Scroll to first validation error
         scrollToFirstError();
@@ -272,7 +304,7 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
     }
     // Note: handleSubmit is defined below but referenced here - React handles this correctly
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPage, page1Form, page3Form, saveAll, getAllFormData, markPageComplete, goNext]);
+  }, [currentPage, page1Form, page3Form, saveAndAdvance, screenForRisk]);
 
   /**
    * Handle back button click
@@ -302,30 +334,16 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
 
       // Generate summary (AC-3.4.8)
       const generatedSummary = formToSummary(formData);
+      // Shown from memory only; the answers are already saved encrypted
       setSummary(generatedSummary);
       setShowSummary(true);
-
-      // Store summary in localStorage for session continuity
-      try {
-        localStorage.setItem(
-          `assessment_summary_${sessionId}`,
-          JSON.stringify({
-            summary: generatedSummary,
-            formData,
-            generatedAt: new Date().toISOString(),
-          })
-        );
-      } catch {
-        // Non-critical error - summary is still generated
-        console.warn("Failed to persist summary to browser storage");
-      }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to submit assessment. Please try again.";
       setSubmitError(message);
     } finally {
       setIsSubmitting(false);
     }
-  }, [getAllFormData, saveAll, markPageComplete, sessionId]);
+  }, [getAllFormData, saveAll, markPageComplete]);
 
   /**
    * Handle summary confirmation
@@ -497,6 +515,12 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
             Confirm & Continue
           </Button>
         </div>
+
+        {/* Crisis safety interstitial */}
+        <CrisisResourcesPanel
+          isOpen={isCrisisPanelOpen}
+          onAcknowledge={acknowledgeCrisis}
+        />
       </div>
     );
   }
@@ -519,6 +543,7 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
             currentPage={currentPage}
             completedPages={completedPages}
             onPageClick={goToPage}
+            percentComplete={liveProgress.assessment?.progressPercentage}
           />
         </div>
 
@@ -589,6 +614,12 @@ export function FormAssessmentClient({ sessionId }: FormAssessmentClientProps) {
         </div>
         </div>
       </div>
+
+      {/* Crisis safety interstitial */}
+      <CrisisResourcesPanel
+        isOpen={isCrisisPanelOpen}
+        onAcknowledge={acknowledgeCrisis}
+      />
     </div>
   );
 }
@@ -3,20 +3,27 @@
  *
  * Collects insurance information at `/onboarding/[sessionId]/insurance`.
  * This is step 3 of the onboarding flow, after demographics/clinical.
- * Users can enter insurance details or choose self-pay option.
+ * Users can enter insurance details or choose self-pay option. Once the
+ * details are saved, a confirmation lets them verify their coverage
+ * before moving on.
  *
  * Flow:
  * - Previous: /onboarding/[sessionId]/demographics?section=clinical
- * - Next: /onboarding/[sessionId]/availability (after submission)
+ * - Next: /onboarding/[sessionId]/availability (after confirmation)
  */
 "use client";
 
 import { use, useCallback, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 
-import { InsuranceForm } from "@/features/insurance";
+import {
+  InsuranceConfirmation,
+  InsuranceForm,
+  type InsuranceInformation,
+} from "@/features/insurance";
 import { useStorageSync } from "@/hooks";
 import type { InsuranceFormData } from "@/lib/validations/insurance";
+import { readSessionData } from "@/lib/storage";
 
 /**
  * Props for Insurance page
@@ -36,6 +43,7 @@ interface InsurancePageProps {
  * - Member ID and group number fields
  * - Subscriber relationship and name
  * - Self-pay option modal
+ * - Confirmation with the "Verify my coverage" step after submission
  *
  * Route flow:
  * - From: /onboarding/[sessionId]/demographics?section=clinical
@@ -51,6 +59,7 @@ export default function InsurancePage({ params }: InsurancePageProps) {
   const router = useRouter();
   const [initialData, setInitialData] = useState<Partial<InsuranceFormData> | undefined>(undefined);
   const [parentName, setParentName] = useState("");
+  const [savedInsurance, setSavedInsurance] = useState<InsuranceInformation | null>(null);
 
   // Use storage sync for reactive updates
   const { extractedData } = useStorageSync({
@@ -63,7 +72,7 @@ export default function InsurancePage({ params }: InsurancePageProps) {
    */
   useEffect(() => {
     try {
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
+      const stored = readSessionData(sessionId);
       if (stored) {
         const parsed = JSON.parse(stored);
 
@@ -103,14 +112,28 @@ export default function InsurancePage({ params }: InsurancePageProps) {
 
   /**
    * Handles insurance form submission
-   * Navigates to availability selection
+   * Shows the confirmation so coverage can be verified
    * @param data - Validated insurance form data
+   * @param insurance - Saved insurance record (null if the backend didn't return one)
    */
-  function handleContinue(data: InsuranceFormData): void {
+  function handleSubmitted(data: InsuranceFormData, insurance: InsuranceInformation | null): void {
     console.info("Insurance submitted:", { sessionId });
     // PHI Protection: Do not log member ID
 
-    // Navigate to availability selection
+    if (!insurance) {
+      handleContinue();
+      return;
+    }
+
+    setInitialData(data);
+    setSavedInsurance(insurance);
+  }
+
+  /**
+   * Handles continuing from the confirmation
+   * Navigates to availability selection
+   */
+  function handleContinue(): void {
     router.push(`/onboarding/${sessionId}/availability`);
   }
 
@@ -132,6 +155,28 @@ export default function InsurancePage({ params }: InsurancePageProps) {
     router.push(`/onboarding/${sessionId}/availability`);
   }
 
+  if (savedInsurance) {
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold font-serif text-foreground">
+            Confirm Your Coverage
+          </h1>
+          <p className="text-muted-foreground">
+            Check your details, then verify your coverage so you know what to expect.
+          </p>
+        </div>
+
+        <InsuranceConfirmation
+          insuranceInfo={savedInsurance}
+          sessionId={sessionId}
+          onEdit={() => setSavedInsurance(null)}
+          onContinue={handleContinue}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="space-y-2 text-center">
@@ -148,7 +193,7 @@ export default function InsurancePage({ params }: InsurancePageProps) {
         sessionId={sessionId}
         parentName={parentName}
         initialData={initialData}
-        onContinue={handleContinue}
+        onContinue={handleSubmitted}
         onBack={handleBack}
         onSelfPay={handleSelfPay}
       />
@@ -10,22 +10,29 @@
  * - Error boundary for graceful error handling
  * - Responsive design following Daybreak specs
  * - Save & Exit modal with session URL and email reminder
+ * - "Start over" from the Save & Exit modal abandons the session and
+ *   wipes its encrypted data from this device
+ * - "Talk to a person" escalation panel from the header
  * - Dynamic progress bar based on current route
+ * - Waits for encrypted session data to decrypt before rendering pages
  */
 "use client";
 
 import { useState, use, useMemo, useCallback, useEffect, useRef } from "react";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Loader2 } from "lucide-react";
 import { Header } from "@/components/layout/Header";
 import { SaveExitModal } from "@/components/layout/SaveExitModal";
 import { OnboardingProgress, type StepId } from "@/components/layout/OnboardingProgress";
 import { Footer } from "@/components/layout/Footer";
 import { ErrorBoundary } from "@/components/shared/ErrorBoundary";
 import { useOnboardingSession } from "@/hooks/useOnboardingSession";
+import { useAbandonSession } from "@/hooks/useAbandonSession";
 import { useIntercomContext } from "@/features/support-chat";
-import { useIntercom } from "@/features/support";
+import { useIntercom, EscalationPanel } from "@/features/support";
 import { DevToolbar } from "@/components/dev";
-import { useCompletionStatus } from "@/lib/completion";
+import { useCompletionStatus, useLiveSessionProgress } from "@/lib/completion";
+import { useSessionDataReady } from "@/lib/storage";
 import { cn } from "@/lib/utils";
 
 /**
@@ -45,11 +52,13 @@ interface OnboardingLayoutProps {
  */
 const ROUTE_TO_STEP: Record<string, StepId> = {
   assessment: "assessment",
+  questionnaire: "assessment", // Standardized PHQ-A / GAD-7 mode
   demographics: "info",
   insurance: "insurance",
   matching: "match",
   schedule: "book",
   confirmation: "book", // Confirmation is part of the booking step
+  appointment: "book", // Managing a booked appointment is part of the booking step
 };
 
 /**
@@ -77,13 +86,14 @@ function getStepFromPathname(pathname: string): StepId {
 }
 
 /**
- * Checks if the current route is the confirmation page
+ * Checks if the current route is the confirmation page or a post-booking
+ * page (appointment management), where every step is already complete
  * @param pathname - Current route pathname
- * @returns True if on confirmation page
+ * @returns True if on confirmation or appointment management page
  */
 function isConfirmationPage(pathname: string): boolean {
   const segments = pathname.split("/");
-  return segments[3] === "confirmation";
+  return segments[3] === "confirmation" || segments[3] === "appointment";
 }
 
 /**
@@ -132,23 +142,40 @@ function OnboardingLayout({ children, params }: OnboardingLayoutProps) {
     [currentStep, isOnConfirmation]
   );
 
+  // Pages read saved data synchronously, so wait until it's decrypted
+  const isSessionDataReady = useSessionDataReady(sessionId);
+
   // Get real completion status from localStorage data
   const completionStatus = useCompletionStatus({ sessionId });
 
+  // Live backend progress (subscriptions, or polling while the socket is down)
+  // so other tabs and server-side changes move the stepper without a refetch
+  const liveProgress = useLiveSessionProgress(sessionId);
+  const liveAssessmentPercent =
+    liveProgress.assessment?.status === "complete"
+      ? 100
+      : liveProgress.assessment?.progressPercentage ?? 0;
+
   // Map completion percentages to step IDs
   const stepPercentages = useMemo(() => ({
-    assessment: completionStatus.sections.assessment?.percentComplete ?? 0,
+    assessment: Math.max(
+      completionStatus.sections.assessment?.percentComplete ?? 0,
+      liveAssessmentPercent
+    ),
     info: completionStatus.sections.info?.percentComplete ?? 0,
     insurance: completionStatus.sections.insurance?.percentComplete ?? 0,
     match: completionStatus.sections.match?.percentComplete ?? 0,
     book: completionStatus.sections.book?.percentComplete ?? 0,
-  }), [completionStatus.sections]);
+  }), [completionStatus.sections, liveAssessmentPercent]);
 
   const [isSaveExitModalOpen, setIsSaveExitModalOpen] = useState(false);
+  const [isEscalationOpen, setIsEscalationOpen] = useState(false);
 
   // Load session for parent email pre-fill
   const { session } = useOnboardingSession(sessionId);
 
+  const { abandonSession, isAbandoning } = useAbandonSession(sessionId);
+
   // Story 7.1: Intercom identity verification
   // Initialize Intercom with HMAC identity hash from backend
   const { initializeWithIdentity } = useIntercom();
@@ -198,10 +225,27 @@ function OnboardingLayout({ children, params }: OnboardingLayoutProps) {
     setIsSaveExitModalOpen(true);
   }
 
+  /**
+   * Handle start over from the Save & Exit modal
+   * Local data is wiped even if the server request fails
+   */
+  async function handleStartOver(): Promise<void> {
+    try {
+      await abandonSession();
+    } catch (error) {
+      console.warn("[OnboardingLayout] Failed to abandon session:", error);
+    }
+    setIsSaveExitModalOpen(false);
+    router.push("/");
+  }
+
   return (
     <div className="h-dvh flex flex-col bg-background">
-      {/* Header with logo and Save & Exit */}
-      <Header onSaveExit={handleSaveExit} />
+      {/* Header with logo, Talk to a person and Save & Exit */}
+      <Header
+        onSaveExit={handleSaveExit}
+        onTalkToHuman={() => setIsEscalationOpen(true)}
+      />
 
       {/* Progress stepper - clickable in dev mode for testing */}
       <OnboardingProgress
@@ -223,7 +267,14 @@ function OnboardingLayout({ children, params }: OnboardingLayoutProps) {
             "w-full max-w-4xl mx-auto",
             isAssessmentPage ? "h-full flex flex-col" : "px-4 py-6"
           )}>
-            {children}
+            {isSessionDataReady ? (
+              children
+            ) : (
+              <div role="status" className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-daybreak-teal" aria-hidden="true" />
+                <span className="sr-only">Loading your progress...</span>
+              </div>
+            )}
           </div>
         </ErrorBoundary>
       </main>
@@ -237,6 +288,16 @@ function OnboardingLayout({ children, params }: OnboardingLayoutProps) {
         onClose={() => setIsSaveExitModalOpen(false)}
         sessionId={sessionId}
         parentEmail={session?.parent?.email}
+        onStartOver={() => void handleStartOver()}
+        isStartingOver={isAbandoning}
+      />
+
+      {/* Talk to a person panel */}
+      <EscalationPanel
+        isOpen={isEscalationOpen}
+        onOpenChange={setIsEscalationOpen}
+        sessionId={sessionId}
+        source="header"
       />
 
       {/* Dev toolbar for testing (development only) */}
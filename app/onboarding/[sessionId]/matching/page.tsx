@@ -37,6 +37,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { useCompletionStatus } from "@/lib/completion";
 import { detectSyncNeeds, syncLocalStorageToBackend, type SyncResult } from "@/lib/utils/data-sync";
+import { readSessionData } from "@/lib/storage";
 
 /**
  * Props for Matching page
@@ -249,7 +250,7 @@ export default function MatchingPage({ params }: MatchingPageProps) {
   useEffect(() => {
     try {
       // Try localStorage first for quick display
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
+      const stored = readSessionData(sessionId);
       if (stored) {
         const parsed = JSON.parse(stored);
         setChildName(parsed?.data?.child?.firstName);
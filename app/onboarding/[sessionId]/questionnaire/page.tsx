@@ -0,0 +1,47 @@
+/**
+ * Standardized Questionnaire page - PHQ-A / GAD-7 assessment mode
+ *
+ * Item-by-item screening at `/onboarding/[sessionId]/questionnaire`.
+ * Third alternative to the AI chat and the traditional form.
+ *
+ * Features:
+ * - Standard 0-3 Likert scale for each item
+ * - Resumes where the parent left off
+ * - Per-instrument progress
+ * - Mode switching back to chat
+ */
+"use client";
+
+import { use } from "react";
+import { useRouter } from "next/navigation";
+
+import { ScreeningQuestionnaire } from "@/features/assessment/questionnaire";
+
+/**
+ * Props for Questionnaire page
+ * Receives sessionId from dynamic route parameter
+ */
+interface QuestionnairePageProps {
+  params: Promise<{
+    sessionId: string;
+  }>;
+}
+
+/**
+ * Standardized Questionnaire page component
+ *
+ * @example
+ * Route: /onboarding/sess_abc123/questionnaire
+ */
+export default function QuestionnairePage({ params }: QuestionnairePageProps) {
+  const { sessionId } = use(params);
+  const router = useRouter();
+
+  return (
+    <ScreeningQuestionnaire
+      sessionId={sessionId}
+      onComplete={() => router.push(`/onboarding/${sessionId}/demographics`)}
+      onSwitchToChat={() => router.push(`/onboarding/${sessionId}/assessment`)}
+    />
+  );
+}
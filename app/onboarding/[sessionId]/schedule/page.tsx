@@ -11,6 +11,7 @@
  * - Next: /onboarding/[sessionId]/confirmation (after booking)
  *
  * Features:
+ * - Therapist selection read from the server (recorded via selectTherapist)
  * - Calendar view with available dates highlighted
  * - Time slot picker showing available times
  * - Timezone selection and display
@@ -30,6 +31,7 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { AlertCircle } from "lucide-react";
 
 import { ScheduleContainer, type TimeSlot } from "@/features/scheduling";
+import { useTherapistSelection, useTherapistProfile } from "@/features/matching";
 import { Button } from "@/components/ui/button";
 import { useAutoSave } from "@/hooks/useAutoSave";
 
@@ -55,7 +57,7 @@ interface SchedulePageProps {
  * - Mobile: Stacked layout with session details at top
  *
  * States:
- * - Loading: Shows while fetching therapist availability
+ * - Loading: Shows while fetching the therapist selection and availability
  * - Success: Shows calendar and time slot picker
  * - Error: Shows error message with retry option
  *
@@ -71,7 +73,8 @@ interface SchedulePageProps {
  * - Minimum 44x44px touch targets
  *
  * @example
- * Route: /onboarding/sess_abc123/schedule?therapistId=therapist_123
+ * Route: /onboarding/sess_abc123/schedule
+ * Route: /onboarding/sess_abc123/schedule?slotStart=2025-01-06T15:00:00Z
  */
 export default function SchedulePage({ params }: SchedulePageProps) {
   const { sessionId } = use(params);
@@ -79,10 +82,27 @@ export default function SchedulePage({ params }: SchedulePageProps) {
   const searchParams = useSearchParams();
 
   /**
-   * Get therapist ID from query params or localStorage
-   * Therapist should be selected from matching page
+   * Therapist selection recorded on the server by the matching page
    */
-  const therapistId = searchParams.get("therapistId");
+  const {
+    selection,
+    loading: isLoadingSelection,
+    error: selectionError,
+    refetch: refetchSelection,
+  } = useTherapistSelection(sessionId);
+  const therapistId = selection?.therapistId ?? null;
+
+  /**
+   * Therapist details (name, photo) from the server
+   */
+  const { profile } = useTherapistProfile({ sessionId, therapistId });
+  const therapistName = profile?.name || selection?.therapistName || "Your Therapist";
+  const therapistPhotoUrl = profile?.photoUrl ?? undefined;
+
+  /**
+   * Slot picked from the therapist profile sheet, preselected on arrival
+   */
+  const slotStart = searchParams.get("slotStart") ?? undefined;
 
   /**
    * Auto-save hook for persisting selected date/time
@@ -99,38 +119,6 @@ export default function SchedulePage({ params }: SchedulePageProps) {
     },
   });
 
-  /**
-   * Get therapist details from localStorage (set during matching)
-   * In production, this could come from GraphQL query or session context
-   */
-  function getTherapistDetails(): {
-    name: string;
-    photoUrl?: string;
-  } {
-    try {
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        const selectedTherapist = parsed?.data?.selectedTherapist;
-
-        if (selectedTherapist) {
-          return {
-            name: selectedTherapist.name || "Your Therapist",
-            photoUrl: selectedTherapist.photoUrl,
-          };
-        }
-      }
-    } catch (error) {
-      console.error("Failed to get therapist details:", error);
-    }
-
-    // Fallback if not found in localStorage
-    return {
-      name: "Your Therapist",
-      photoUrl: undefined,
-    };
-  }
-
   /**
    * Handles back navigation to matching page
    * Preserves session state and selections
@@ -155,6 +143,12 @@ export default function SchedulePage({ params }: SchedulePageProps) {
         },
         selectedTimezone: timezone,
         therapistId,
+        // Shown on the confirmation page
+        selectedTherapist: {
+          id: therapistId,
+          name: therapistName,
+          photoUrl: therapistPhotoUrl,
+        },
       });
 
       // Navigate to confirmation page
@@ -167,6 +161,50 @@ export default function SchedulePage({ params }: SchedulePageProps) {
     }
   }
 
+  /**
+   * Loading state - waiting for the recorded selection
+   */
+  if (isLoadingSelection) {
+    return (
+      <div className="min-h-screen bg-cream/50 flex items-center justify-center">
+        <p className="text-muted-foreground" role="status">
+          Loading your therapist selection...
+        </p>
+      </div>
+    );
+  }
+
+  /**
+   * Error state - the selection couldn't be loaded
+   */
+  if (selectionError && !selection) {
+    return (
+      <div className="min-h-screen bg-cream/50 flex items-center justify-center">
+        <div className="flex flex-col items-center justify-center space-y-6 py-12 px-4 max-w-md">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-amber-50">
+            <AlertCircle className="h-8 w-8 text-amber-600" />
+          </div>
+
+          <div className="space-y-2 text-center" role="alert">
+            <h2 className="text-2xl font-semibold font-serif text-deep-text">
+              We Couldn&apos;t Load Your Therapist
+            </h2>
+            <p className="text-muted-foreground">
+              Something went wrong loading your therapist selection. Please try again.
+            </p>
+          </div>
+
+          <Button
+            onClick={refetchSelection}
+            className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+          >
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   /**
    * Error state - missing therapist ID
    * User should select a therapist from matching page first
@@ -200,22 +238,18 @@ export default function SchedulePage({ params }: SchedulePageProps) {
     );
   }
 
-  /**
-   * Get therapist details for display
-   */
-  const therapist = getTherapistDetails();
-
   /**
    * Success state - show scheduling interface
    */
   return (
     <ScheduleContainer
       therapistId={therapistId}
-      therapistName={therapist.name}
-      therapistPhotoUrl={therapist.photoUrl}
+      therapistName={therapistName}
+      therapistPhotoUrl={therapistPhotoUrl}
       onBack={handleBack}
       onConfirmBooking={handleConfirmBooking}
       sessionId={sessionId}
+      initialSlotStart={slotStart}
     />
   );
 }
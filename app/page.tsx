@@ -10,7 +10,7 @@
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { useCreateSessionMutation } from "@/types/graphql";
-import { setAuthToken } from "@/lib/apollo/client";
+import { setAuthToken, setRefreshToken } from "@/lib/apollo/client";
 
 /**
  * Renders the home page with a "Start Onboarding" button.
@@ -30,10 +30,12 @@ export default function Home() {
       const result = await createSession();
 
       if (result.data?.createSession) {
-        const { session, token } = result.data.createSession;
+        const { session, token, refreshToken } = result.data.createSession;
 
         // Store the JWT token for authenticated requests
         setAuthToken(token);
+        // Store the refresh token so expired JWTs can be renewed
+        setRefreshToken(refreshToken ?? null);
 
         // Navigate to the assessment page with the real session ID
         router.push(`/onboarding/${session.id}/assessment`);
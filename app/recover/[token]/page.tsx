@@ -0,0 +1,47 @@
+/**
+ * Session Recovery Page
+ *
+ * Landing page for the magic link emailed to parents who saved their
+ * progress. Exchanges the recovery token for a new session JWT, restores
+ * saved answers on this device and continues onboarding at the furthest
+ * incomplete step.
+ *
+ * Route: /recover/[token]
+ *
+ * Flow:
+ * - Next: /onboarding/[sessionId]/{assessment|demographics|insurance|matching|appointment}
+ * - Expired or used links offer a form to email a new one
+ */
+"use client";
+
+import { use } from "react";
+import Image from "next/image";
+
+import { SessionRecovery } from "@/features/session-recovery";
+
+/**
+ * Props for Recover page
+ * Receives the recovery token from the dynamic route parameter
+ */
+interface RecoverPageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * Session recovery page component
+ *
+ * @example
+ * Route: /recover/rt_abc123
+ */
+export default function RecoverPage({ params }: RecoverPageProps) {
+  const { token } = use(params);
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center gap-8 bg-cream p-4">
+      <Image src="/daybreak_logo.svg" alt="Daybreak Health" width={200} height={40} priority />
+      <SessionRecovery token={token} />
+    </main>
+  );
+}
@@ -16,6 +16,7 @@ import { Button } from "@/components/ui/button";
 import { Wrench, Check, X, ChevronDown, ChevronUp, Trash2, Zap, Loader2, AlertTriangle } from "lucide-react";
 import { useDevAutofill } from "@/hooks/useDevAutofill";
 import { getAuthToken } from "@/lib/apollo/client";
+import { wipeSessionData, writeSessionData } from "@/lib/storage";
 import { DevTestCardButton } from "@/features/insurance/DevTestCardButton";
 
 /**
@@ -147,24 +148,13 @@ export function DevToolbar({ sessionId }: DevToolbarProps) {
    */
   function handleFillDemoData(): void {
     try {
-      const storageKey = `onboarding_session_${sessionId}`;
       const dataToSave = {
         data: DEMO_DATA,
         savedAt: new Date().toISOString(),
       };
 
-      const jsonData = JSON.stringify(dataToSave);
-      localStorage.setItem(storageKey, jsonData);
-
-      // Dispatch storage event for same-tab detection
-      // (native storage events only fire for cross-tab changes)
-      window.dispatchEvent(
-        new StorageEvent("storage", {
-          key: storageKey,
-          newValue: jsonData,
-          storageArea: localStorage,
-        })
-      );
+      // Subscribers (completion status, form sync) are notified by the store
+      writeSessionData(sessionId, JSON.stringify(dataToSave));
 
       setStatus("success");
 
@@ -185,7 +175,7 @@ export function DevToolbar({ sessionId }: DevToolbarProps) {
    */
   function handleClearData(): void {
     try {
-      localStorage.removeItem(`onboarding_session_${sessionId}`);
+      void wipeSessionData(sessionId);
       setStatus("success");
       router.refresh();
       setTimeout(() => setStatus("idle"), 2000);
@@ -1,11 +1,13 @@
 /**
  * Header component for onboarding flow
  *
- * Displays Daybreak logo and optional Save & Exit action button.
+ * Displays Daybreak logo, optional "Talk to a person" link and
+ * optional Save & Exit action button.
  * Follows Daybreak brand guidelines with responsive sizing.
  */
 "use client";
 
+import { UserRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
@@ -13,11 +15,13 @@ import { cn } from "@/lib/utils";
  * Props for the Header component
  * @param showSaveExit - Whether to show the Save & Exit button (default: true)
  * @param onSaveExit - Callback fired when Save & Exit button is clicked
+ * @param onTalkToHuman - Callback to open the escalation panel (button hidden when omitted)
  * @param className - Additional CSS classes for customization
  */
 interface HeaderProps {
   showSaveExit?: boolean;
   onSaveExit?: () => void;
+  onTalkToHuman?: () => void;
   className?: string;
 }
 
@@ -25,7 +29,12 @@ interface HeaderProps {
  * Renders the header with Daybreak logo and optional Save & Exit button
  * Logo height: 56px on mobile, responsive on larger screens
  */
-function Header({ showSaveExit = true, onSaveExit, className }: HeaderProps) {
+function Header({
+  showSaveExit = true,
+  onSaveExit,
+  onTalkToHuman,
+  className,
+}: HeaderProps) {
   return (
     <header
       className={cn(
@@ -70,16 +79,30 @@ function Header({ showSaveExit = true, onSaveExit, className }: HeaderProps) {
         </div>
       </div>
 
-      {showSaveExit && (
-        <Button
-          variant="ghost"
-          onClick={onSaveExit}
-          className="text-muted-foreground hover:text-foreground"
-          aria-label="Save progress and exit"
-        >
-          Save & Exit
-        </Button>
-      )}
+      <div className="flex items-center gap-1">
+        {onTalkToHuman && (
+          <Button
+            variant="ghost"
+            onClick={onTalkToHuman}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="Talk to a person"
+          >
+            <UserRound className="h-4 w-4" aria-hidden="true" />
+            <span className="hidden sm:inline">Talk to a person</span>
+          </Button>
+        )}
+
+        {showSaveExit && (
+          <Button
+            variant="ghost"
+            onClick={onSaveExit}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="Save progress and exit"
+          >
+            Save & Exit
+          </Button>
+        )}
+      </div>
     </header>
   );
 }
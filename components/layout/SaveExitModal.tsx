@@ -6,6 +6,7 @@
  * - Session URL for returning
  * - Copy link button
  * - Optional email reminder input
+ * - Optional "start over" that clears the session from this device
  *
  * Follows Daybreak design system with warm, supportive messaging.
  */
@@ -31,12 +32,16 @@ import { cn } from "@/lib/utils";
  * @param onClose - Callback when modal is closed
  * @param sessionId - Current session ID for generating URL
  * @param parentEmail - Pre-filled parent email if already collected
+ * @param onStartOver - Callback to abandon the session and clear this device
+ * @param isStartingOver - Whether the session is being abandoned
  */
 export interface SaveExitModalProps {
   isOpen: boolean;
   onClose: () => void;
   sessionId: string;
   parentEmail?: string;
+  onStartOver?: () => void;
+  isStartingOver?: boolean;
 }
 
 /**
@@ -47,6 +52,7 @@ export interface SaveExitModalProps {
  * - Email reminder input (pre-filled if available)
  * - Send reminder button with loading state
  * - Success feedback on copy and send
+ * - "Start over" with confirmation, for parents not coming back
  * - Accessible keyboard navigation
  *
  * @param props - Component props
@@ -56,12 +62,15 @@ export function SaveExitModal({
   onClose,
   sessionId,
   parentEmail = "",
+  onStartOver,
+  isStartingOver = false,
 }: SaveExitModalProps) {
   const [email, setEmail] = React.useState(parentEmail);
   const [isCopied, setIsCopied] = React.useState(false);
   const [isSendingReminder, setIsSendingReminder] = React.useState(false);
   const [reminderSent, setReminderSent] = React.useState(false);
   const [emailError, setEmailError] = React.useState<string | null>(null);
+  const [isConfirmingStartOver, setIsConfirmingStartOver] = React.useState(false);
 
   // Generate session URL using configured public URL or fallback to window origin
   const sessionUrl = React.useMemo(() => {
@@ -154,6 +163,7 @@ export function SaveExitModal({
       setIsCopied(false);
       setReminderSent(false);
       setEmailError(null);
+      setIsConfirmingStartOver(false);
     }
   }, [isOpen, parentEmail]);
 
@@ -306,6 +316,44 @@ export function SaveExitModal({
                 </Button>
               </div>
             </div>
+
+            {/* Start over: abandons the session and clears this device */}
+            {onStartOver && (
+              <div className="pt-6 border-t border-gray-100 text-center">
+                {isConfirmingStartOver ? (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                      This removes your answers from this device. You&apos;ll need to begin
+                      again to continue.
+                    </p>
+                    <div className="flex justify-center gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => setIsConfirmingStartOver(false)}
+                        disabled={isStartingOver}
+                      >
+                        Keep my progress
+                      </Button>
+                      <Button
+                        onClick={onStartOver}
+                        disabled={isStartingOver}
+                        className="bg-red-600 text-white hover:bg-red-700"
+                      >
+                        {isStartingOver ? "Clearing..." : "Clear and start over"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setIsConfirmingStartOver(true)}
+                    className="text-sm text-gray-500 underline hover:text-gray-700"
+                  >
+                    Not coming back? Start over and clear this device
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </DialogContent>
@@ -25,6 +25,13 @@ export interface Message {
   content: string;
   timestamp: string; // ISO 8601 format
   suggestedReplies?: string[];
+  /**
+   * Delivery state for streamed AI replies (absent once complete):
+   * streaming - text still arriving
+   * stopped - parent cancelled the reply
+   * interrupted - connection dropped or tab closed mid-reply
+   */
+  status?: "streaming" | "stopped" | "interrupted";
 }
 
 /**
@@ -32,12 +39,14 @@ export interface Message {
  * @param message - The message object containing content and metadata
  * @param variant - Visual variant matching sender type (ai, user, or system)
  * @param showAvatar - Whether to display the avatar (default: true for AI, false for others)
+ * @param onRetry - Optional callback shown as "Try again" on an interrupted reply
  * @param className - Additional CSS classes for customization
  */
 export interface ChatBubbleProps {
   message: Message;
   variant?: "ai" | "user" | "system";
   showAvatar?: boolean;
+  onRetry?: () => void;
   className?: string;
 }
 
@@ -52,6 +61,8 @@ export interface ChatBubbleProps {
  * - Border radius: xl (24px) for warm, friendly feel
  * - Fade-in animation on mount
  * - Relative timestamp below message
+ * - Streaming replies show a blinking cursor; stopped or interrupted
+ *   replies keep their partial text with a short note
  *
  * @example
  * <ChatBubble
@@ -63,12 +74,14 @@ export const ChatBubble = React.memo(function ChatBubble({
   message,
   variant = "ai",
   showAvatar = variant === "ai",
+  onRetry,
   className,
 }: ChatBubbleProps) {
   // Determine styling based on variant
   const isAI = variant === "ai";
   const isUser = variant === "user";
   const isSystem = variant === "system";
+  const isStreaming = message.status === "streaming";
 
   return (
     <div
@@ -79,6 +92,7 @@ export const ChatBubble = React.memo(function ChatBubble({
         className
       )}
       role="article"
+      aria-busy={isStreaming || undefined}
       aria-label={`${variant} message: ${message.content.substring(0, 50)}${message.content.length > 50 ? '...' : ''}`}
     >
       {/* Avatar - only shown for AI messages */}
@@ -132,6 +146,12 @@ export const ChatBubble = React.memo(function ChatBubble({
               >
                 {message.content}
               </ReactMarkdown>
+              {isStreaming && (
+                <span
+                  className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-daybreak-teal/60 animate-pulse"
+                  aria-hidden="true"
+                />
+              )}
             </div>
           ) : (
             <p className="text-sm leading-relaxed whitespace-pre-wrap">
@@ -140,6 +160,24 @@ export const ChatBubble = React.memo(function ChatBubble({
           )}
         </div>
 
+        {/* Partial reply note */}
+        {(message.status === "stopped" || message.status === "interrupted") && (
+          <span className="text-xs text-muted-foreground mt-1 px-2 italic">
+            {message.status === "stopped"
+              ? "Reply stopped"
+              : "Reply interrupted - connection lost"}
+            {message.status === "interrupted" && onRetry && (
+              <button
+                type="button"
+                onClick={onRetry}
+                className="ml-2 not-italic font-medium text-daybreak-teal hover:underline"
+              >
+                Try again
+              </button>
+            )}
+          </span>
+        )}
+
         {/* Timestamp */}
         {!isSystem && (
           <span
@@ -9,7 +9,7 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { FileText, BookOpen } from "lucide-react";
+import { FileText, BookOpen, ClipboardList, UserRound, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ChatBubble, type Message } from "./ChatBubble";
 import { MessageInput } from "./MessageInput";
@@ -32,12 +32,15 @@ export type AssessmentMode = "chat" | "structured";
  * @param suggestedReplies - Quick reply options to display
  * @param isSuggestionsLoading - Whether suggestions are being fetched
  * @param isAiResponding - Whether AI is currently responding
+ * @param isStreaming - Whether reply text has started arriving (hides the typing indicator)
+ * @param onCancel - Optional callback to stop the in-flight reply
  * @param mode - Display mode: 'chat' or 'structured'
  * @param structuredQuestion - Current structured question (when mode is 'structured')
  * @param structuredProgress - Progress tracking for structured section
  * @param onStructuredAnswer - Callback for structured question answers
  * @param onStructuredBack - Callback for back navigation in structured mode
  * @param onOpenResources - Callback to open resources panel
+ * @param onTalkToHuman - Callback to open the "Talk to a person" panel
  * @param className - Additional CSS classes for customization
  */
 export interface ChatWindowProps {
@@ -49,12 +52,15 @@ export interface ChatWindowProps {
   suggestedReplies?: QuickReplyOption[];
   isSuggestionsLoading?: boolean;
   isAiResponding?: boolean;
+  isStreaming?: boolean;
+  onCancel?: () => void;
   mode?: AssessmentMode;
   structuredQuestion?: StructuredQuestion;
   structuredProgress?: { current: number; total: number };
   onStructuredAnswer?: (answer: string) => void;
   onStructuredBack?: () => void;
   onOpenResources?: () => void;
+  onTalkToHuman?: () => void;
   className?: string;
 }
 
@@ -94,12 +100,15 @@ export function ChatWindow({
   suggestedReplies = [],
   isSuggestionsLoading = false,
   isAiResponding = false,
+  isStreaming = false,
+  onCancel,
   mode = "chat",
   structuredQuestion,
   structuredProgress,
   onStructuredAnswer,
   onStructuredBack,
   onOpenResources,
+  onTalkToHuman,
   className,
 }: ChatWindowProps) {
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
@@ -186,7 +195,7 @@ export function ChatWindow({
             {/* Messages list */}
             {messages.length > 0 ? (
               <div className="space-y-4">
-                {messages.map((message) => (
+                {messages.map((message, index) => (
                   <ChatBubble
                     key={message.id}
                     message={message}
@@ -197,6 +206,11 @@ export function ChatWindow({
                           ? "user"
                           : "system"
                     }
+                    onRetry={
+                      index === messages.length - 1 && !isAiResponding
+                        ? onRetry
+                        : undefined
+                    }
                   />
                 ))}
               </div>
@@ -210,8 +224,11 @@ export function ChatWindow({
               </div>
             )}
 
-            {/* Typing indicator - shows when AI is responding */}
-            <TypingIndicator isVisible={isAiResponding} onRetry={onRetry} />
+            {/* Typing indicator - shows until the first reply text arrives */}
+            <TypingIndicator
+              isVisible={isAiResponding && !isStreaming}
+              onRetry={onRetry}
+            />
 
             {/* Scroll anchor - invisible element at bottom for auto-scroll target */}
             <div aria-hidden="true" />
@@ -239,6 +256,20 @@ export function ChatWindow({
               </div>
             )}
 
+            {/* Stop the in-flight reply */}
+            {isAiResponding && onCancel && (
+              <div className="flex justify-center pt-2 px-4">
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="text-xs text-muted-foreground hover:text-foreground inline-flex items-center gap-1 rounded-full border border-border px-3 py-1 transition-colors"
+                >
+                  <Square className="h-3 w-3" aria-hidden="true" />
+                  Stop responding
+                </button>
+              </div>
+            )}
+
             {/* Quick reply chips */}
             <QuickReplyChips
               options={suggestedReplies}
@@ -254,7 +285,7 @@ export function ChatWindow({
 
             {/* Footer links - resources and form fallback */}
             {sessionId && (
-              <div className="px-4 pb-3 pt-1 text-center border-t border-border/50 flex justify-center gap-4">
+              <div className="px-4 pb-3 pt-1 text-center border-t border-border/50 flex flex-wrap justify-center gap-x-4 gap-y-1">
                 {/* Resources button */}
                 {onOpenResources && (
                   <button
@@ -266,6 +297,17 @@ export function ChatWindow({
                     Browse helpful resources
                   </button>
                 )}
+                {/* Human escalation */}
+                {onTalkToHuman && (
+                  <button
+                    type="button"
+                    onClick={onTalkToHuman}
+                    className="text-xs text-muted-foreground hover:text-foreground inline-flex items-center gap-1 transition-colors"
+                  >
+                    <UserRound className="h-3 w-3" />
+                    Talk to a person
+                  </button>
+                )}
                 {/* Form fallback link (AC-3.4.1) */}
                 <Link
                   href={`/onboarding/${sessionId}/form/assessment`}
@@ -274,6 +316,14 @@ export function ChatWindow({
                   <FileText className="h-3 w-3" />
                   Prefer a traditional form?
                 </Link>
+                {/* Standardized questionnaire mode */}
+                <Link
+                  href={`/onboarding/${sessionId}/questionnaire`}
+                  className="text-xs text-muted-foreground hover:text-foreground inline-flex items-center gap-1 transition-colors"
+                >
+                  <ClipboardList className="h-3 w-3" />
+                  Standard questionnaire
+                </Link>
               </div>
             )}
           </div>
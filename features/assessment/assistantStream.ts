@@ -0,0 +1,310 @@
+/**
+ * Assistant reply streaming for the assessment chat
+ *
+ * A transport sends the parent's message and reports the assistant reply
+ * as it is generated. Each chunk carries the full reply text received so
+ * far (not a delta), so a missed or repeated chunk never corrupts the
+ * bubble. The promise resolves with the final message once the backend
+ * has finished, and rejects if the request fails or is aborted.
+ *
+ * Transports:
+ * - createSubscriptionStreamTransport: SendMessage mutation plus the
+ *   messageReceived subscription over ActionCable
+ * - createMockStreamTransport: local, timer-driven stream for tests and
+ *   offline development
+ *
+ * Partial replies are mirrored to encrypted session storage while
+ * streaming so a reply cut off by closing the tab can be restored as an
+ * interrupted message.
+ */
+import { gql, type ApolloClient } from "@apollo/client";
+import { clearSessionRecord, readSessionRecord, writeSessionRecord } from "@/lib/storage";
+import {
+  MessageReceivedDocument,
+  type MessageReceivedSubscription,
+  type MessageReceivedSubscriptionVariables,
+} from "@/types/graphql";
+
+/**
+ * GraphQL mutation for sending messages to AI backend
+ */
+const SEND_MESSAGE_MUTATION = gql`
+  mutation SendMessage($sessionId: ID!, $content: String!) {
+    sendMessage(sessionId: $sessionId, content: $content) {
+      userMessage {
+        id
+        role
+        content
+        createdAt
+      }
+      assistantMessage {
+        id
+        role
+        content
+        createdAt
+      }
+      assessmentComplete
+      errors
+    }
+  }
+`;
+
+/**
+ * Message returned by the backend
+ */
+export interface AssistantReply {
+  id: string;
+  role: string;
+  content: string;
+  createdAt: string;
+}
+
+/**
+ * Type for SendMessage mutation response
+ */
+interface SendMessageResponse {
+  sendMessage: {
+    userMessage: AssistantReply | null;
+    assistantMessage: AssistantReply | null;
+    assessmentComplete: boolean;
+    errors: string[];
+  } | null;
+}
+
+/**
+ * Reply text received so far
+ */
+export interface AssistantStreamChunk {
+  messageId: string;
+  content: string;
+}
+
+/**
+ * Outcome of a completed stream
+ */
+export interface AssistantStreamResult {
+  message: AssistantReply | null;
+  assessmentComplete: boolean;
+}
+
+/**
+ * Request passed to a transport
+ * @param sessionId - Onboarding session ID
+ * @param content - Parent's message
+ * @param signal - Aborts the request when the parent cancels
+ * @param onChunk - Called each time more reply text arrives
+ */
+export interface AssistantStreamRequest {
+  sessionId: string;
+  content: string;
+  signal: AbortSignal;
+  onChunk: (chunk: AssistantStreamChunk) => void;
+}
+
+/**
+ * Sends a message and streams the assistant reply
+ */
+export type AssistantStreamTransport = (
+  request: AssistantStreamRequest
+) => Promise<AssistantStreamResult>;
+
+/**
+ * Creates an error matching what fetch throws for an aborted request
+ */
+function createAbortError(): Error {
+  const error = new Error("The reply was cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Streams replies through the messageReceived subscription
+ *
+ * The backend broadcasts the assistant message on messageReceived while it
+ * is generated; the SendMessage mutation resolves with the final message.
+ * A dropped socket only stops the incremental updates - the mutation
+ * still delivers the full reply.
+ *
+ * @param client - Apollo Client with the ActionCable split link
+ */
+export function createSubscriptionStreamTransport(
+  client: ApolloClient
+): AssistantStreamTransport {
+  return async ({ sessionId, content, signal, onChunk }) => {
+    const subscription = client
+      .subscribe<MessageReceivedSubscription, MessageReceivedSubscriptionVariables>({
+        query: MessageReceivedDocument,
+        variables: { sessionId },
+      })
+      .subscribe({
+        next: ({ data }) => {
+          const message = data?.messageReceived;
+          if (message?.role !== "assistant" || signal.aborted) return;
+          onChunk({ messageId: message.id, content: message.content });
+        },
+        error: (err) => {
+          console.warn("Reply stream disconnected, waiting for full reply:", err);
+        },
+      });
+
+    try {
+      const { data } = await client.mutate<SendMessageResponse>({
+        mutation: SEND_MESSAGE_MUTATION,
+        variables: { sessionId, content },
+        context: { fetchOptions: { signal } },
+      });
+
+      if (signal.aborted) throw createAbortError();
+
+      // Check for errors from backend
+      const errors = data?.sendMessage?.errors;
+      if (errors && errors.length > 0) {
+        throw new Error(errors.join(", "));
+      }
+
+      return {
+        message: data?.sendMessage?.assistantMessage ?? null,
+        assessmentComplete: data?.sendMessage?.assessmentComplete ?? false,
+      };
+    } finally {
+      subscription.unsubscribe();
+    }
+  };
+}
+
+/**
+ * Options for the mock stream
+ * @param reply - Full reply text to stream
+ * @param messageId - ID of the streamed message
+ * @param chunkDelayMs - Delay between chunks
+ * @param dropAfterChunks - Fail with a network error after this many chunks
+ * @param assessmentComplete - Value reported when the stream completes
+ */
+export interface MockStreamOptions {
+  reply: string;
+  messageId?: string;
+  chunkDelayMs?: number;
+  dropAfterChunks?: number;
+  assessmentComplete?: boolean;
+}
+
+/**
+ * Streams a fixed reply word by word using timers
+ *
+ * Used by unit tests (with fake timers) and for working on the chat UI
+ * without a backend.
+ *
+ * @example
+ * const transport = createMockStreamTransport({
+ *   reply: "Thanks for sharing that.",
+ *   dropAfterChunks: 2,
+ * });
+ */
+export function createMockStreamTransport({
+  reply,
+  messageId = "msg_mock_reply",
+  chunkDelayMs = 50,
+  dropAfterChunks,
+  assessmentComplete = false,
+}: MockStreamOptions): AssistantStreamTransport {
+  // Words keep their trailing whitespace so joined prefixes match the reply
+  const tokens = reply.match(/\s+|\S+\s*/g) ?? [];
+
+  return ({ signal, onChunk }) =>
+    new Promise((resolve, reject) => {
+      let sent = 0;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const handleAbort = () => {
+        if (timer) clearTimeout(timer);
+        reject(createAbortError());
+      };
+
+      if (signal.aborted) {
+        handleAbort();
+        return;
+      }
+      signal.addEventListener("abort", handleAbort, { once: true });
+
+      const tick = () => {
+        if (dropAfterChunks !== undefined && sent >= dropAfterChunks) {
+          signal.removeEventListener("abort", handleAbort);
+          reject(new Error("Network error: reply stream dropped"));
+          return;
+        }
+
+        sent += 1;
+        onChunk({ messageId, content: tokens.slice(0, sent).join("") });
+
+        if (sent >= tokens.length) {
+          signal.removeEventListener("abort", handleAbort);
+          resolve({
+            message: {
+              id: messageId,
+              role: "assistant",
+              content: reply,
+              createdAt: new Date().toISOString(),
+            },
+            assessmentComplete,
+          });
+          return;
+        }
+
+        timer = setTimeout(tick, chunkDelayMs);
+      };
+
+      timer = setTimeout(tick, chunkDelayMs);
+    });
+}
+
+/**
+ * Partial reply persisted while streaming
+ */
+export interface PartialReply {
+  id: string;
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * Saves the reply text received so far
+ */
+export function savePartialReply(sessionId: string, reply: PartialReply): void {
+  try {
+    writeSessionRecord("assistantPartial", sessionId, JSON.stringify(reply));
+  } catch (err) {
+    console.warn("Failed to save partial reply:", err);
+  }
+}
+
+/**
+ * Loads a reply left behind by a closed tab, if any
+ */
+export function loadPartialReply(sessionId: string): PartialReply | null {
+  try {
+    const stored = readSessionRecord("assistantPartial", sessionId);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored) as Partial<PartialReply>;
+    if (
+      typeof parsed.id !== "string" ||
+      typeof parsed.content !== "string" ||
+      typeof parsed.timestamp !== "string"
+    ) {
+      return null;
+    }
+    return { id: parsed.id, content: parsed.content, timestamp: parsed.timestamp };
+  } catch (err) {
+    console.warn("Failed to load partial reply:", err);
+    return null;
+  }
+}
+
+/**
+ * Removes the persisted partial reply
+ */
+export function clearPartialReply(sessionId: string): void {
+  clearSessionRecord("assistantPartial", sessionId).catch((err) => {
+    console.warn("Failed to clear partial reply:", err);
+  });
+}
@@ -4,23 +4,28 @@
  * Displays progress through the 3-page assessment form with visual indicators
  * for completed, current, and upcoming pages. Supports click navigation to
  * previously completed pages per AC-3.4.7.
+ * Optionally shows the backend's live assessment percentage, which moves
+ * when answers are saved from another tab or on the server.
  */
 "use client";
 
 import * as React from "react";
 import { Check } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { Progress } from "@/components/ui/progress";
 
 /**
  * Props for FormProgress component
  * @param currentPage - Current page number (1-3)
  * @param completedPages - Set of page numbers that have been completed
  * @param onPageClick - Optional callback for navigating to a page
+ * @param percentComplete - Optional live assessment completion (0-100)
  */
 export interface FormProgressProps {
   currentPage: number;
   completedPages: Set<number>;
   onPageClick?: (page: number) => void;
+  percentComplete?: number;
 }
 
 /**
@@ -58,6 +63,7 @@ export function FormProgress({
   currentPage,
   completedPages,
   onPageClick,
+  percentComplete,
 }: FormProgressProps) {
   return (
     <nav
@@ -83,6 +89,20 @@ export function FormProgress({
         </p>
       </div>
 
+      {/* Live assessment percentage from the backend */}
+      {percentComplete !== undefined && (
+        <div className="mb-6 space-y-1">
+          <p className="text-xs text-muted-foreground" aria-live="polite">
+            {Math.round(percentComplete)}% of assessment complete
+          </p>
+          <Progress
+            value={percentComplete}
+            aria-label="Assessment completion"
+            indicatorClassName="bg-daybreak-teal"
+          />
+        </div>
+      )}
+
       {/* Visual progress bar */}
       <div className="relative pl-4 lg:pl-0">
         {/* Vertical Line Background */}
@@ -9,6 +9,7 @@
 
 import * as React from "react";
 import type { FormAssessmentInput } from "@/lib/validations/assessment";
+import { flushSessionData, readSessionData, writeSessionData } from "@/lib/storage";
 
 /**
  * Save status states
@@ -96,12 +97,11 @@ export function useFormAutoSave({
         await new Promise((resolve) => setTimeout(resolve, 300));
 
         // Use unified storage key for consistency with other forms
-        const storageKey = `onboarding_session_${sessionId}`;
         let existingSession: Record<string, unknown> = { data: {} };
         let existingFormData: Partial<FormAssessmentInput> = {};
 
         try {
-          const stored = localStorage.getItem(storageKey);
+          const stored = readSessionData(sessionId);
           if (stored) {
             existingSession = JSON.parse(stored);
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -115,8 +115,8 @@ export function useFormAutoSave({
 
         try {
           // Store under formAssessment key within unified storage
-          localStorage.setItem(
-            storageKey,
+          writeSessionData(
+            sessionId,
             JSON.stringify({
               ...existingSession,
               data: {
@@ -126,6 +126,7 @@ export function useFormAutoSave({
               savedAt: new Date().toISOString(),
             })
           );
+          await flushSessionData(sessionId);
         } catch (storageError) {
           if (
             storageError instanceof Error &&
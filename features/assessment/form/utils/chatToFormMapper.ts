@@ -7,6 +7,7 @@
  */
 
 import type { FormAssessmentInput } from "@/lib/validations/assessment";
+import { readSessionData, writeSessionData } from "@/lib/storage";
 
 /**
  * Chat message structure from AI assessment
@@ -571,8 +572,7 @@ export function loadFormDataFromStorage(
 ): Partial<FormAssessmentInput> & { currentPage?: number } {
   try {
     // First, check unified storage key
-    const unifiedKey = `onboarding_session_${sessionId}`;
-    const stored = localStorage.getItem(unifiedKey);
+    const stored = readSessionData(sessionId);
 
     if (stored) {
       const parsed = JSON.parse(stored);
@@ -607,7 +607,7 @@ export function loadFormDataFromStorage(
 
       // Migrate legacy data to unified storage
       try {
-        const existingUnified = localStorage.getItem(unifiedKey);
+        const existingUnified = readSessionData(sessionId);
         const unifiedData = existingUnified ? JSON.parse(existingUnified) : { data: {} };
 
         unifiedData.data = {
@@ -616,7 +616,7 @@ export function loadFormDataFromStorage(
         };
         unifiedData.savedAt = new Date().toISOString();
 
-        localStorage.setItem(unifiedKey, JSON.stringify(unifiedData));
+        writeSessionData(sessionId, JSON.stringify(unifiedData));
         localStorage.removeItem(legacyKey); // Clean up legacy key
 
         console.info("[migration] Moved form_assessment data to unified key");
@@ -641,7 +641,7 @@ export function loadFormDataFromStorage(
  */
 export function loadChatDataFromStorage(sessionId: string): ChatAssessmentData {
   try {
-    const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
+    const stored = readSessionData(sessionId);
     if (stored) {
       const parsed = JSON.parse(stored);
       return {
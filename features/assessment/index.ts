@@ -33,4 +33,19 @@ export {
 } from "./AssessmentSummary";
 
 // Hooks
-export { useAssessmentChat, type UseAssessmentChatReturn } from "./useAssessmentChat";
+export {
+  useAssessmentChat,
+  type UseAssessmentChatOptions,
+  type UseAssessmentChatReturn,
+} from "./useAssessmentChat";
+
+// Reply streaming
+export {
+  createSubscriptionStreamTransport,
+  createMockStreamTransport,
+  type AssistantStreamTransport,
+  type AssistantStreamRequest,
+  type AssistantStreamChunk,
+  type AssistantStreamResult,
+  type MockStreamOptions,
+} from "./assistantStream";
@@ -0,0 +1,76 @@
+/**
+ * InstrumentProgressList component for screening progress
+ *
+ * Shows progress through each standardized instrument (PHQ-A, GAD-7)
+ * so parents can see how many questions remain in each section.
+ */
+"use client";
+
+import * as React from "react";
+import { Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Progress } from "@/components/ui/progress";
+import type { InstrumentProgress } from "../utils/screening";
+
+/**
+ * Props for InstrumentProgressList component
+ * @param instruments - Per-instrument progress in administration order
+ * @param className - Additional CSS classes for customization
+ */
+export interface InstrumentProgressListProps {
+  instruments: InstrumentProgress[];
+  className?: string;
+}
+
+/**
+ * Renders one progress row per instrument
+ *
+ * Accessibility:
+ * - Each bar is a labelled progressbar
+ * - Active instrument marked with aria-current="step"
+ *
+ * @example
+ * <InstrumentProgressList instruments={instruments} />
+ */
+export function InstrumentProgressList({
+  instruments,
+  className,
+}: InstrumentProgressListProps) {
+  return (
+    <ol aria-label="Questionnaire progress" className={cn("grid gap-3 sm:grid-cols-2", className)}>
+      {instruments.map((instrument) => (
+        <li
+          key={instrument.key}
+          aria-current={instrument.active ? "step" : undefined}
+          className={cn(
+            "rounded-lg border p-3",
+            instrument.active ? "border-daybreak-teal" : "border-gray-200"
+          )}
+        >
+          <div className="mb-2 flex items-center justify-between text-sm">
+            <span className="font-medium text-deep-text">
+              {instrument.description}
+              <span className="ml-1 text-xs font-normal text-muted-foreground">
+                ({instrument.label})
+              </span>
+            </span>
+            {instrument.complete ? (
+              <Check className="h-4 w-4 text-daybreak-teal" aria-label="Complete" />
+            ) : (
+              <span className="text-xs text-muted-foreground">
+                {instrument.answered}/{instrument.total}
+              </span>
+            )}
+          </div>
+          <Progress
+            value={(instrument.answered / instrument.total) * 100}
+            aria-label={`${instrument.label} progress`}
+            indicatorClassName="bg-daybreak-teal"
+          />
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+InstrumentProgressList.displayName = "InstrumentProgressList";
@@ -0,0 +1,128 @@
+/**
+ * LikertQuestion component for standardized screening items
+ *
+ * Renders a single PHQ-A or GAD-7 item with the standard 0-3 response
+ * scale. Selecting a response submits it immediately, matching the
+ * one-question-at-a-time flow of AssessmentCard.
+ */
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { LIKERT_OPTIONS, type LikertValue } from "../utils/screening";
+
+/**
+ * Props for LikertQuestion component
+ * @param questionId - Item ID (e.g., phq_a_1), used for element IDs
+ * @param text - Item text
+ * @param itemNumber - Item number within its instrument (1-indexed)
+ * @param itemCount - Number of items in the instrument
+ * @param instrumentLabel - Instrument display name (e.g., "PHQ-A")
+ * @param onAnswer - Callback fired with the selected Likert value
+ * @param isSubmitting - Disables options while an answer is saving
+ * @param className - Additional CSS classes for customization
+ */
+export interface LikertQuestionProps {
+  questionId: string;
+  text: string;
+  itemNumber: number;
+  itemCount: number;
+  instrumentLabel: string;
+  onAnswer: (value: LikertValue) => void;
+  isSubmitting?: boolean;
+  className?: string;
+}
+
+/**
+ * Renders a Likert-scale screening item
+ *
+ * Visual specs:
+ * - Standard stem ("Over the last 2 weeks...") above the item text
+ * - Four full-width options from "Not at all" to "Nearly every day"
+ *
+ * Accessibility:
+ * - role="radiogroup" labelled by the item text
+ * - Each option is a role="radio" button with aria-checked
+ *
+ * @example
+ * <LikertQuestion
+ *   questionId="phq_a_1"
+ *   text="Little interest or pleasure in doing things"
+ *   itemNumber={1}
+ *   itemCount={9}
+ *   instrumentLabel="PHQ-A"
+ *   onAnswer={submitAnswer}
+ * />
+ */
+export function LikertQuestion({
+  questionId,
+  text,
+  itemNumber,
+  itemCount,
+  instrumentLabel,
+  onAnswer,
+  isSubmitting = false,
+  className,
+}: LikertQuestionProps) {
+  const [selected, setSelected] = React.useState<LikertValue | null>(null);
+  const labelId = `${questionId}-label`;
+
+  /**
+   * Clear the highlighted option when the item changes
+   */
+  React.useEffect(() => {
+    setSelected(null);
+  }, [questionId]);
+
+  /**
+   * Handles option selection
+   */
+  function handleSelect(value: LikertValue) {
+    setSelected(value);
+    onAnswer(value);
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="space-y-2">
+        <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          {instrumentLabel} · Question {itemNumber} of {itemCount}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Over the last 2 weeks, how often has your child been bothered by:
+        </p>
+        <h2 id={labelId} className="text-xl font-medium text-deep-text">
+          {text}
+        </h2>
+      </div>
+
+      <div role="radiogroup" aria-labelledby={labelId} className="grid gap-3">
+        {LIKERT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={selected === option.value}
+            disabled={isSubmitting}
+            onClick={() => handleSelect(option.value)}
+            className={cn(
+              "flex items-center justify-between rounded-lg border px-4 py-3 text-left transition-colors",
+              "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-daybreak-teal",
+              "disabled:cursor-not-allowed disabled:opacity-60",
+              selected === option.value
+                ? "border-daybreak-teal bg-daybreak-teal/10"
+                : "border-gray-200 hover:bg-gray-50"
+            )}
+          >
+            <span className="font-medium text-deep-text">{option.label}</span>
+            <span className="text-xs text-muted-foreground" aria-hidden="true">
+              {option.value}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+LikertQuestion.displayName = "LikertQuestion";
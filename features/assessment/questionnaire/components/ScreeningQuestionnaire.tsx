@@ -0,0 +1,229 @@
+/**
+ * ScreeningQuestionnaire component for standardized assessment mode
+ *
+ * Third assessment mode alongside the AI chat and the 3-page form.
+ * Administers the PHQ-A and GAD-7 item by item with the standard 0-3
+ * Likert scale so clinicians receive scored instruments rather than
+ * answers inferred from conversation.
+ *
+ * Flow:
+ * 1. Child's age (only if the session doesn't have it yet)
+ * 2. PHQ-A items, then GAD-7 items, resuming at nextQuestionId
+ * 3. Completion screen with Continue
+ *
+ * Backend riskFlags (e.g. PHQ-A item 9) open the crisis resources panel.
+ */
+"use client";
+
+import * as React from "react";
+import { CheckCircle2, Loader2, MessageCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { CrisisResourcesPanel, useRiskScreening } from "@/features/support";
+import { useScreeningQuestionnaire } from "../hooks/useScreeningQuestionnaire";
+import { INSTRUMENTS, toInstrumentKey, type LikertValue } from "../utils/screening";
+import { LikertQuestion } from "./LikertQuestion";
+import { InstrumentProgressList } from "./InstrumentProgressList";
+
+/**
+ * Ages served by Daybreak (see lib/utils/age-validation)
+ */
+const CHILD_AGES = Array.from({ length: 10 }, (_, i) => 10 + i);
+
+/**
+ * Props for ScreeningQuestionnaire component
+ * @param sessionId - Onboarding session ID
+ * @param onComplete - Callback when both instruments are complete
+ * @param onSwitchToChat - Optional callback to return to the AI chat
+ * @param className - Additional CSS classes for customization
+ */
+export interface ScreeningQuestionnaireProps {
+  sessionId: string;
+  onComplete: () => void;
+  onSwitchToChat?: () => void;
+  className?: string;
+}
+
+/**
+ * Renders the standardized questionnaire
+ *
+ * Accessibility:
+ * - Save errors announced via role="alert"
+ * - Completion announced via role="status"
+ * - Per-instrument progressbars with labels
+ *
+ * @example
+ * <ScreeningQuestionnaire
+ *   sessionId={sessionId}
+ *   onComplete={() => router.push(`/onboarding/${sessionId}/demographics`)}
+ * />
+ */
+export function ScreeningQuestionnaire({
+  sessionId,
+  onComplete,
+  onSwitchToChat,
+  className,
+}: ScreeningQuestionnaireProps) {
+  const [enteredAge, setEnteredAge] = React.useState<number | null>(null);
+
+  const {
+    childAge,
+    questions,
+    currentQuestion,
+    instruments,
+    isComplete,
+    riskFlags,
+    loading,
+    error,
+    submitAnswer,
+    isSubmitting,
+    submitError,
+  } = useScreeningQuestionnaire(sessionId, enteredAge);
+
+  const { isPanelOpen: isCrisisPanelOpen, acknowledge: acknowledgeCrisis } =
+    useRiskScreening({ sessionId, source: "questionnaire", riskFlags });
+
+  /**
+   * Submits an answer; failures are surfaced via submitError
+   */
+  async function handleAnswer(value: LikertValue) {
+    try {
+      await submitAnswer(value);
+    } catch {
+      // Error surfaced via submitError
+    }
+  }
+
+  const currentKey = toInstrumentKey(currentQuestion?.instrument);
+  const itemCount = currentKey
+    ? questions.filter((q) => toInstrumentKey(q.instrument) === currentKey).length
+    : 0;
+
+  let content: React.ReactNode;
+
+  if (loading && questions.length === 0) {
+    content = (
+      <div className="flex flex-col items-center gap-4 py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-daybreak-teal" />
+        <p className="text-muted-foreground">Loading questions...</p>
+      </div>
+    );
+  } else if (childAge === null) {
+    content = (
+      <fieldset className="space-y-4">
+        <legend className="text-xl font-medium text-deep-text mb-2">
+          How old is your child?
+        </legend>
+        <p className="text-sm text-muted-foreground">
+          Questions are worded for your child&apos;s age.
+        </p>
+        <div className="grid grid-cols-5 gap-2">
+          {CHILD_AGES.map((age) => (
+            <Button
+              key={age}
+              type="button"
+              variant="outline"
+              onClick={() => setEnteredAge(age)}
+            >
+              {age}
+            </Button>
+          ))}
+        </div>
+      </fieldset>
+    );
+  } else if (error && questions.length === 0) {
+    content = (
+      <div
+        className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800"
+        role="alert"
+      >
+        We couldn&apos;t load the questionnaire. Please try again shortly.
+      </div>
+    );
+  } else if (isComplete) {
+    content = (
+      <div className="flex flex-col items-center space-y-6 py-8 text-center" role="status">
+        <CheckCircle2 className="h-12 w-12 text-daybreak-teal" aria-hidden="true" />
+        <div className="space-y-2">
+          <h2 className="text-2xl font-serif font-semibold text-deep-text">
+            Questionnaire complete
+          </h2>
+          <p className="text-muted-foreground">
+            Thank you. Your answers will help your child&apos;s clinician
+            understand how they&apos;ve been feeling.
+          </p>
+        </div>
+        <Button
+          onClick={onComplete}
+          size="lg"
+          className="w-full bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+        >
+          Continue
+        </Button>
+      </div>
+    );
+  } else if (currentQuestion && currentKey) {
+    content = (
+      <LikertQuestion
+        questionId={currentQuestion.id}
+        text={currentQuestion.text}
+        itemNumber={currentQuestion.item}
+        itemCount={itemCount || INSTRUMENTS[currentKey].itemCount}
+        instrumentLabel={INSTRUMENTS[currentKey].label}
+        onAnswer={handleAnswer}
+        isSubmitting={isSubmitting}
+      />
+    );
+  } else {
+    content = null;
+  }
+
+  return (
+    <div className={cn("w-full max-w-2xl mx-auto space-y-6", className)}>
+      <div className="space-y-2">
+        <h1 className="text-2xl font-serif font-bold text-deep-text">
+          Standard Questionnaire
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Two short, widely used check-ins about mood and worry.
+        </p>
+      </div>
+
+      {childAge !== null && questions.length > 0 && (
+        <InstrumentProgressList instruments={instruments} />
+      )}
+
+      {submitError && (
+        <div
+          className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800"
+          role="alert"
+        >
+          {submitError.message}. Please try again.
+        </div>
+      )}
+
+      {content}
+
+      {onSwitchToChat && !isComplete && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={onSwitchToChat}
+            className="text-xs text-muted-foreground hover:text-foreground inline-flex items-center gap-1 transition-colors"
+          >
+            <MessageCircle className="h-3 w-3" />
+            Prefer to chat instead?
+          </button>
+        </div>
+      )}
+
+      {/* Crisis safety interstitial */}
+      <CrisisResourcesPanel
+        isOpen={isCrisisPanelOpen}
+        onAcknowledge={acknowledgeCrisis}
+      />
+    </div>
+  );
+}
+
+ScreeningQuestionnaire.displayName = "ScreeningQuestionnaire";
@@ -0,0 +1,255 @@
+/**
+ * useScreeningQuestionnaire Hook
+ *
+ * Drives the standardized PHQ-A / GAD-7 questionnaire mode. Loads the
+ * age-appropriate items from assessmentQuestions, resumes at the
+ * assessment's nextQuestionId and submits each 0-3 Likert answer through
+ * submitAssessmentResponse so the backend can score the instruments.
+ *
+ * @module features/assessment/questionnaire/hooks/useScreeningQuestionnaire
+ */
+
+"use client";
+
+import * as React from "react";
+import type { ErrorLike } from "@apollo/client";
+import {
+  useGetScreeningQuestionsQuery,
+  useGetScreeningStateQuery,
+  useSubmitAssessmentResponseMutation,
+  type GetScreeningQuestionsQuery,
+} from "@/types/graphql";
+import {
+  INSTRUMENT_ORDER,
+  getInstrumentProgress,
+  getLikertLabel,
+  toInstrumentKey,
+  type InstrumentProgress,
+  type LikertValue,
+} from "../utils/screening";
+
+/**
+ * Screening item returned by the assessmentQuestions query
+ */
+export type ScreeningQuestion =
+  GetScreeningQuestionsQuery["assessmentQuestions"][number];
+
+/**
+ * Resume point and completion state, seeded from the session query and
+ * replaced by each submitAssessmentResponse result
+ */
+interface ScreeningState {
+  nextQuestionId: string | null;
+  phqAComplete: boolean;
+  gad7Complete: boolean;
+  completedQuestions: number;
+  totalQuestions: number;
+  percentage: number;
+  riskFlags: string[];
+}
+
+/**
+ * Hook return type
+ */
+export interface UseScreeningQuestionnaireResult {
+  /** Child's age used to select item wording (null until known) */
+  childAge: number | null;
+  /** All items for both instruments, in administration order */
+  questions: ScreeningQuestion[];
+  /** Item to answer now (null when finished) */
+  currentQuestion: ScreeningQuestion | null;
+  /** Per-instrument progress */
+  instruments: InstrumentProgress[];
+  /** Overall completion percentage (0-100) */
+  percentage: number;
+  /** Whether both instruments are complete */
+  isComplete: boolean;
+  /** Risk flags identified by the backend */
+  riskFlags: string[];
+  /** Whether session state or items are loading */
+  loading: boolean;
+  /** Query error */
+  error: ErrorLike | undefined;
+  /** Submits a Likert answer for the current item */
+  submitAnswer: (value: LikertValue) => Promise<void>;
+  /** Whether an answer is being submitted */
+  isSubmitting: boolean;
+  /** Error from the most recent submission */
+  submitError: Error | null;
+}
+
+/**
+ * Sorts items PHQ-A first, then GAD-7, each by item number
+ */
+function sortQuestions(questions: ScreeningQuestion[]): ScreeningQuestion[] {
+  const rank = (q: ScreeningQuestion) => {
+    const key = toInstrumentKey(q.instrument);
+    return key ? INSTRUMENT_ORDER.indexOf(key) : INSTRUMENT_ORDER.length;
+  };
+  return [...questions].sort((a, b) => rank(a) - rank(b) || a.item - b.item);
+}
+
+/**
+ * Custom hook for the PHQ-A / GAD-7 questionnaire
+ *
+ * @param sessionId - Onboarding session ID
+ * @param childAgeOverride - Age entered by the parent when the session has none yet
+ * @returns Questionnaire state and submit action
+ *
+ * @example
+ * const { currentQuestion, instruments, submitAnswer } =
+ *   useScreeningQuestionnaire(sessionId);
+ *
+ * await submitAnswer(2); // "More than half the days"
+ */
+export function useScreeningQuestionnaire(
+  sessionId: string,
+  childAgeOverride?: number | null
+): UseScreeningQuestionnaireResult {
+  const [submitted, setSubmitted] = React.useState<ScreeningState | null>(null);
+  const [submitError, setSubmitError] = React.useState<Error | null>(null);
+
+  const {
+    data: stateData,
+    loading: stateLoading,
+    error: stateError,
+  } = useGetScreeningStateQuery({
+    variables: { sessionId },
+    skip: !sessionId,
+  });
+
+  const childAge = childAgeOverride ?? stateData?.session?.child?.age ?? null;
+
+  const {
+    data: questionsData,
+    loading: questionsLoading,
+    error: questionsError,
+  } = useGetScreeningQuestionsQuery({
+    variables: { childAge: childAge ?? 0 },
+    skip: childAge === null,
+  });
+
+  const [submitMutation, { loading: isSubmitting }] =
+    useSubmitAssessmentResponseMutation();
+
+  const questions = React.useMemo(
+    () => sortQuestions(questionsData?.assessmentQuestions ?? []),
+    [questionsData]
+  );
+
+  /**
+   * Current resume state: latest submission result, otherwise the
+   * assessment stored on the session, otherwise a fresh start
+   */
+  const state = React.useMemo<ScreeningState>(() => {
+    if (submitted) return submitted;
+    const assessment = stateData?.session?.assessment;
+    return {
+      nextQuestionId: assessment
+        ? assessment.nextQuestionId
+        : questions[0]?.id ?? null,
+      phqAComplete: assessment?.phqAComplete ?? false,
+      gad7Complete: assessment?.gad7Complete ?? false,
+      completedQuestions: assessment?.completedQuestionsCount ?? 0,
+      totalQuestions: assessment?.totalQuestionsCount ?? questions.length,
+      percentage: assessment?.progressPercentage ?? 0,
+      riskFlags: assessment?.riskFlags ?? [],
+    };
+  }, [submitted, stateData, questions]);
+
+  const isComplete = state.phqAComplete && state.gad7Complete;
+
+  /**
+   * A started assessment with no next item but incomplete instruments
+   * (e.g. legacy chat answers) resumes at the first unanswered instrument
+   */
+  const currentQuestion = React.useMemo(() => {
+    if (isComplete || questions.length === 0) return null;
+    const next = questions.find((q) => q.id === state.nextQuestionId);
+    if (next) return next;
+    const pending = state.phqAComplete ? "gad_7" : "phq_a";
+    return questions.find((q) => toInstrumentKey(q.instrument) === pending) ?? null;
+  }, [isComplete, questions, state]);
+
+  const instruments = React.useMemo(
+    () =>
+      getInstrumentProgress(questions, currentQuestion?.id ?? null, {
+        phqAComplete: state.phqAComplete,
+        gad7Complete: state.gad7Complete,
+      }),
+    [questions, currentQuestion, state.phqAComplete, state.gad7Complete]
+  );
+
+  /**
+   * Submits a Likert answer for the current item
+   *
+   * @param value - Likert value (0-3)
+   * @throws Error if the backend rejects the response
+   */
+  const submitAnswer = React.useCallback(
+    async (value: LikertValue): Promise<void> => {
+      if (!currentQuestion) return;
+      setSubmitError(null);
+
+      try {
+        const result = await submitMutation({
+          variables: {
+            sessionId,
+            questionId: currentQuestion.id,
+            responseText: getLikertLabel(value),
+            responseValue: value,
+          },
+        });
+
+        const payload = result.data?.submitAssessmentResponse;
+        if (!payload || payload.errors.length > 0) {
+          throw new Error(payload?.errors[0] || "Unable to save your answer");
+        }
+
+        const { assessment, progress, nextQuestion } = payload;
+        setSubmitted({
+          nextQuestionId:
+            nextQuestion?.id ?? assessment?.nextQuestionId ?? null,
+          phqAComplete:
+            progress?.phqAComplete ?? assessment?.phqAComplete ?? false,
+          gad7Complete:
+            progress?.gad7Complete ?? assessment?.gad7Complete ?? false,
+          completedQuestions:
+            progress?.completedQuestions ??
+            assessment?.completedQuestionsCount ??
+            state.completedQuestions + 1,
+          totalQuestions:
+            progress?.totalQuestions ??
+            assessment?.totalQuestionsCount ??
+            state.totalQuestions,
+          percentage:
+            progress?.percentage ??
+            assessment?.progressPercentage ??
+            state.percentage,
+          riskFlags: assessment?.riskFlags ?? state.riskFlags,
+        });
+      } catch (err) {
+        const error =
+          err instanceof Error ? err : new Error("Unable to save your answer");
+        setSubmitError(error);
+        throw error;
+      }
+    },
+    [currentQuestion, submitMutation, sessionId, state]
+  );
+
+  return {
+    childAge,
+    questions,
+    currentQuestion,
+    instruments,
+    percentage: state.percentage,
+    isComplete,
+    riskFlags: state.riskFlags,
+    loading: stateLoading || questionsLoading,
+    error: stateError || questionsError,
+    submitAnswer,
+    isSubmitting,
+    submitError,
+  };
+}
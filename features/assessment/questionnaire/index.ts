@@ -0,0 +1,38 @@
+/**
+ * Standardized questionnaire module exports
+ *
+ * Provides components, hooks, and utilities for the PHQ-A / GAD-7
+ * questionnaire mode, administered with the standard 0-3 Likert scale.
+ */
+
+// Components
+export { ScreeningQuestionnaire } from "./components/ScreeningQuestionnaire";
+export { LikertQuestion } from "./components/LikertQuestion";
+export { InstrumentProgressList } from "./components/InstrumentProgressList";
+
+// Component prop types
+export type { ScreeningQuestionnaireProps } from "./components/ScreeningQuestionnaire";
+export type { LikertQuestionProps } from "./components/LikertQuestion";
+export type { InstrumentProgressListProps } from "./components/InstrumentProgressList";
+
+// Hooks
+export { useScreeningQuestionnaire } from "./hooks/useScreeningQuestionnaire";
+export type {
+  UseScreeningQuestionnaireResult,
+  ScreeningQuestion,
+} from "./hooks/useScreeningQuestionnaire";
+
+// Utilities
+export {
+  LIKERT_OPTIONS,
+  INSTRUMENTS,
+  INSTRUMENT_ORDER,
+  toInstrumentKey,
+  getLikertLabel,
+  getInstrumentProgress,
+} from "./utils/screening";
+export type {
+  LikertValue,
+  InstrumentKey,
+  InstrumentProgress,
+} from "./utils/screening";
@@ -0,0 +1,150 @@
+/**
+ * Standardized screening helpers
+ *
+ * Likert scale, instrument metadata and progress calculations for the
+ * PHQ-A (depression) and GAD-7 (anxiety) questionnaire mode.
+ *
+ * @module features/assessment/questionnaire/utils/screening
+ */
+
+/**
+ * Standard 0-3 response scale shared by PHQ-A and GAD-7
+ * ("Over the last 2 weeks, how often have you been bothered by...")
+ */
+export const LIKERT_OPTIONS = [
+  { value: 0, label: "Not at all" },
+  { value: 1, label: "Several days" },
+  { value: 2, label: "More than half the days" },
+  { value: 3, label: "Nearly every day" },
+] as const;
+
+export type LikertValue = (typeof LIKERT_OPTIONS)[number]["value"];
+
+/**
+ * Instrument keys as accepted by the assessmentQuestions query
+ */
+export type InstrumentKey = "phq_a" | "gad_7";
+
+/**
+ * Display metadata for each instrument, in administration order
+ */
+export const INSTRUMENTS: Record<
+  InstrumentKey,
+  { label: string; description: string; itemCount: number }
+> = {
+  phq_a: {
+    label: "PHQ-A",
+    description: "Mood",
+    itemCount: 9,
+  },
+  gad_7: {
+    label: "GAD-7",
+    description: "Worry & anxiety",
+    itemCount: 7,
+  },
+};
+
+export const INSTRUMENT_ORDER: InstrumentKey[] = ["phq_a", "gad_7"];
+
+/**
+ * Normalizes an instrument name from the backend to its key
+ *
+ * The backend uses both display names ("PHQ-A") and keys ("phq_a").
+ *
+ * @param instrument - Instrument name or key
+ * @returns Instrument key, or null if unrecognized
+ *
+ * @example
+ * toInstrumentKey("GAD-7"); // "gad_7"
+ */
+export function toInstrumentKey(
+  instrument: string | null | undefined
+): InstrumentKey | null {
+  if (!instrument) return null;
+  const key = instrument.toLowerCase().replace(/-/g, "_");
+  return key === "phq_a" || key === "gad_7" ? key : null;
+}
+
+/**
+ * Gets the label for a Likert value
+ *
+ * @param value - Likert value (0-3)
+ * @returns Response label sent as responseText
+ */
+export function getLikertLabel(value: LikertValue): string {
+  return LIKERT_OPTIONS.find((option) => option.value === value)?.label ?? "";
+}
+
+/**
+ * Minimal question shape needed for progress calculations
+ */
+interface ScreeningItem {
+  id: string;
+  instrument: string;
+}
+
+/**
+ * Progress through a single instrument
+ */
+export interface InstrumentProgress {
+  key: InstrumentKey;
+  label: string;
+  description: string;
+  /** Items answered in this instrument */
+  answered: number;
+  /** Total items in this instrument */
+  total: number;
+  /** Whether the backend marked this instrument complete */
+  complete: boolean;
+  /** Whether the current question belongs to this instrument */
+  active: boolean;
+}
+
+/**
+ * Calculates per-instrument progress from the ordered item list and
+ * the backend's resume point
+ *
+ * Items before `nextQuestionId` within an instrument count as answered.
+ * Completion flags from AssessmentProgress take precedence so a finished
+ * instrument always shows as complete.
+ *
+ * @param questions - Ordered questions for both instruments
+ * @param nextQuestionId - Question to resume at (null when finished)
+ * @param completion - Backend completion flags
+ * @returns Progress for each instrument in administration order
+ */
+export function getInstrumentProgress(
+  questions: ScreeningItem[],
+  nextQuestionId: string | null,
+  completion: { phqAComplete: boolean; gad7Complete: boolean }
+): InstrumentProgress[] {
+  const nextIndex = nextQuestionId
+    ? questions.findIndex((q) => q.id === nextQuestionId)
+    : questions.length;
+  const currentKey =
+    nextIndex >= 0 && nextIndex < questions.length
+      ? toInstrumentKey(questions[nextIndex].instrument)
+      : null;
+
+  return INSTRUMENT_ORDER.map((key) => {
+    const items = questions.filter((q) => toInstrumentKey(q.instrument) === key);
+    const total = items.length || INSTRUMENTS[key].itemCount;
+    const complete =
+      key === "phq_a" ? completion.phqAComplete : completion.gad7Complete;
+    const answered = complete
+      ? total
+      : nextIndex < 0
+        ? 0
+        : items.filter((q) => questions.indexOf(q) < nextIndex).length;
+
+    return {
+      key,
+      label: INSTRUMENTS[key].label,
+      description: INSTRUMENTS[key].description,
+      answered,
+      total,
+      complete,
+      active: key === currentKey,
+    };
+  });
+}
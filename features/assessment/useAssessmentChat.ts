@@ -1,70 +1,32 @@
 /**
  * useAssessmentChat hook for managing chat message state and sending
  *
- * Handles message sending with optimistic UI updates, AI response state,
+ * Handles message sending with optimistic UI updates, streamed AI replies,
  * session storage persistence, mode switching, and structured question flow.
  * Integrates with Apollo Client for GraphQL mutations.
  */
 "use client";
 
 import * as React from "react";
-import { gql } from "@apollo/client";
-import { useMutation } from "@apollo/client/react";
+import { useApolloClient } from "@apollo/client/react";
 import type { Message } from "./ChatBubble";
 import type { QuickReplyOption } from "./types";
 import type { StructuredQuestion } from "./AssessmentCard";
 import { useAutoSave } from "@/hooks/useAutoSave";
 import { useSuggestedReplies } from "./useSuggestedReplies";
 import { useOnboardingSession } from "@/hooks/useOnboardingSession";
+import { readSessionData, wipeSessionData, writeSessionData } from "@/lib/storage";
 import { chatToFormMapper, type ChatMessage } from "./form/utils/chatToFormMapper";
 import type { FormAssessmentInput } from "@/lib/validations/assessment";
 import { useCompleteAssessmentMutation as useCompleteAssessmentMutationGenerated } from "@/types/graphql";
-
-/**
- * GraphQL mutation for sending messages to AI backend
- */
-const SEND_MESSAGE_MUTATION = gql`
-  mutation SendMessage($sessionId: ID!, $content: String!) {
-    sendMessage(sessionId: $sessionId, content: $content) {
-      userMessage {
-        id
-        role
-        content
-        createdAt
-      }
-      assistantMessage {
-        id
-        role
-        content
-        createdAt
-      }
-      assessmentComplete
-      errors
-    }
-  }
-`;
-
-/**
- * Type for SendMessage mutation response
- */
-interface SendMessageResponse {
-  sendMessage: {
-    userMessage: {
-      id: string;
-      role: string;
-      content: string;
-      createdAt: string;
-    } | null;
-    assistantMessage: {
-      id: string;
-      role: string;
-      content: string;
-      createdAt: string;
-    } | null;
-    assessmentComplete: boolean;
-    errors: string[];
-  } | null;
-}
+import {
+  clearPartialReply,
+  createSubscriptionStreamTransport,
+  loadPartialReply,
+  savePartialReply,
+  type AssistantStreamChunk,
+  type AssistantStreamTransport,
+} from "./assistantStream";
 
 /**
  * Assessment summary data structure
@@ -177,6 +139,14 @@ export interface AnswerHistory {
   timestamp: string;
 }
 
+/**
+ * Hook options
+ * @param transport - Reply stream transport (defaults to the messageReceived subscription)
+ */
+export interface UseAssessmentChatOptions {
+  transport?: AssistantStreamTransport;
+}
+
 /**
  * Hook return type
  */
@@ -184,7 +154,9 @@ export interface UseAssessmentChatReturn {
   messages: Message[];
   sendMessage: (content: string, isQuickReply?: boolean) => Promise<void>;
   retryLastMessage: () => Promise<void>;
+  cancelResponse: () => void;
   isAiResponding: boolean;
+  isStreaming: boolean;
   suggestedReplies: QuickReplyOption[];
   isSuggestionsLoading: boolean;
   error: Error | null;
@@ -210,7 +182,9 @@ export interface UseAssessmentChatReturn {
  *
  * Features:
  * - Optimistic UI updates for user messages
- * - AI response simulation (mock until backend ready)
+ * - AI replies streamed into the chat as they are generated
+ * - Cancel in-flight replies, keeping the partial text
+ * - Partial replies restored as interrupted after the tab closes
  * - Session storage persistence for draft messages
  * - Quick reply handling
  * - Mode switching between chat and structured questions
@@ -220,6 +194,7 @@ export interface UseAssessmentChatReturn {
  * - Error state management
  *
  * @param sessionId - Current onboarding session ID
+ * @param options - Optional reply stream transport (e.g. a mock stream in tests)
  * @returns Chat state and message sending function
  *
  * @example
@@ -231,9 +206,13 @@ export interface UseAssessmentChatReturn {
  *   isComplete,
  * } = useAssessmentChat(sessionId);
  */
-export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
+export function useAssessmentChat(
+  sessionId: string,
+  options: UseAssessmentChatOptions = {}
+): UseAssessmentChatReturn {
   const [messages, setMessages] = React.useState<Message[]>([]);
   const [isAiResponding, setIsAiResponding] = React.useState(false);
+  const [streamingMessageId, setStreamingMessageId] = React.useState<string | null>(null);
   const [error, setError] = React.useState<Error | null>(null);
 
   // Dynamic AI-generated suggestions (fetched after AI response)
@@ -253,14 +232,20 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
   const [summary, setSummary] = React.useState<AssessmentSummary | null>(null);
   const aiResponseTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastUserMessageRef = React.useRef<{ content: string; isQuickReply: boolean } | null>(null);
+  const replyControllerRef = React.useRef<AbortController | null>(null);
 
   // GraphQL mutations for summary flow
   const [completeAssessment] = useCompleteAssessmentMutation();
   const [confirmAssessmentSummary] = useConfirmAssessmentSummaryMutation();
   const [resetAssessment] = useResetAssessmentMutation();
 
-  // GraphQL mutation for sending messages to AI backend
-  const [sendMessageMutation] = useMutation<SendMessageResponse>(SEND_MESSAGE_MUTATION);
+  // Reply stream: SendMessage mutation plus messageReceived subscription
+  const client = useApolloClient();
+  const { transport: transportOverride } = options;
+  const transport = React.useMemo(
+    () => transportOverride ?? createSubscriptionStreamTransport(client),
+    [transportOverride, client]
+  );
 
   // Session restoration integration
   const { session, isReturningUser } = useOnboardingSession(sessionId);
@@ -288,13 +273,44 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
 
   /**
    * Sends a message with optimistic UI update
-   * Handles both chat and structured question responses
+   * Streams the AI reply into the conversation as it arrives
    *
    * @param content - Message content to send
    * @param isQuickReply - Whether this is a quick reply selection
    */
   const sendMessage = React.useCallback(
     async (content: string, isQuickReply = false): Promise<void> => {
+      // Only one reply may be in flight; a new send supersedes the previous one
+      replyControllerRef.current?.abort();
+      const controller = new AbortController();
+      replyControllerRef.current = controller;
+      let streamedId: string | null = null;
+
+      /**
+       * Shows the reply text received so far and mirrors it to storage
+       */
+      const handleChunk = ({ messageId, content: partial }: AssistantStreamChunk) => {
+        if (controller.signal.aborted) return;
+        if (streamedId === null) {
+          streamedId = messageId;
+          setStreamingMessageId(messageId);
+        }
+        if (messageId !== streamedId) return;
+
+        const timestamp = new Date().toISOString();
+        setMessages((prev) => {
+          const existing = prev.find((m) => m.id === messageId);
+          if (existing) {
+            return prev.map((m) => (m.id === messageId ? { ...m, content: partial } : m));
+          }
+          return [
+            ...prev,
+            { id: messageId, sender: "AI", content: partial, timestamp, status: "streaming" },
+          ];
+        });
+        savePartialReply(sessionId, { id: messageId, content: partial, timestamp });
+      };
+
       try {
         // Clear previous error on new send attempt
         setError(null);
@@ -319,21 +335,17 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
         // Set AI responding state
         setIsAiResponding(true);
 
-        // Call the real backend mutation
-        const { data } = await sendMessageMutation({
-          variables: {
-            sessionId,
-            content,
-          },
+        const result = await transport({
+          sessionId,
+          content,
+          signal: controller.signal,
+          onChunk: handleChunk,
         });
 
-        // Check for errors from backend
-        const errors = data?.sendMessage?.errors;
-        if (errors && errors.length > 0) {
-          throw new Error(errors.join(", "));
-        }
+        // Cancelled after the backend had already finished
+        if (controller.signal.aborted) return;
 
-        const assistantMessage = data?.sendMessage?.assistantMessage;
+        const assistantMessage = result.message;
 
         if (assistantMessage) {
           // Map backend role to frontend sender format
@@ -342,7 +354,7 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
             assistant: "AI",
           };
 
-          // Add AI message from backend response
+          // Final AI message from backend replaces the streamed text
           const aiMessage: Message = {
             id: assistantMessage.id,
             sender: senderMap[assistantMessage.role] || "AI",
@@ -350,7 +362,10 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
             timestamp: assistantMessage.createdAt,
           };
 
-          setMessages((prev) => [...prev, aiMessage]);
+          setMessages((prev) => [
+            ...prev.filter((m) => m.id !== aiMessage.id && m.id !== streamedId),
+            aiMessage,
+          ]);
 
           // Fetch dynamic suggestions based on the AI response
           // This is a separate call that runs in the background
@@ -358,8 +373,7 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
         }
 
         // Check if assessment is complete (backend signals this)
-        const isAssessmentComplete = data?.sendMessage?.assessmentComplete ?? false;
-        if (isAssessmentComplete) {
+        if (result.assessmentComplete) {
           setIsComplete(true);
         }
 
@@ -372,19 +386,50 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
           autoSave({ messages: prev, sessionId });
           return prev;
         });
-
-        setIsAiResponding(false);
-        aiResponseTimerRef.current = null;
       } catch (err) {
+        // cancelResponse already settled the UI
+        if (controller.signal.aborted) return;
+
+        if (streamedId !== null) {
+          // Stream dropped mid-reply: keep the partial text
+          const interruptedId = streamedId;
+          setMessages((prev) =>
+            prev.map((m) => (m.id === interruptedId ? { ...m, status: "interrupted" } : m))
+          );
+        }
         setError(err instanceof Error ? err : new Error("Failed to send message"));
-        setIsAiResponding(false);
-        aiResponseTimerRef.current = null;
         console.error("Error sending message:", err);
+      } finally {
+        if (replyControllerRef.current === controller) {
+          replyControllerRef.current = null;
+          clearPartialReply(sessionId);
+          setStreamingMessageId(null);
+          setIsAiResponding(false);
+          aiResponseTimerRef.current = null;
+        }
       }
     },
-    [sessionId, autoSave, sendMessageMutation, clearSuggestions, fetchSuggestions]
+    [sessionId, autoSave, transport, clearSuggestions, fetchSuggestions]
   );
 
+  /**
+   * Stops the in-flight reply, keeping any text already received
+   */
+  const cancelResponse = React.useCallback((): void => {
+    const controller = replyControllerRef.current;
+    if (!controller) return;
+
+    controller.abort();
+    replyControllerRef.current = null;
+
+    setMessages((prev) =>
+      prev.map((m) => (m.status === "streaming" ? { ...m, status: "stopped" } : m))
+    );
+    clearPartialReply(sessionId);
+    setStreamingMessageId(null);
+    setIsAiResponding(false);
+  }, [sessionId]);
+
   /**
    * Handles selection of an option in structured question mode
    * Adds answer to history and sends to backend
@@ -436,7 +481,7 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
   React.useEffect(() => {
     if (messages.length === 0 && session) {
       // Try to restore messages from session
-      const storedData = localStorage.getItem(`onboarding_session_${sessionId}`);
+      const storedData = readSessionData(sessionId);
       let restoredMessages: Message[] | null = null;
 
       if (storedData) {
@@ -450,7 +495,19 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
         }
       }
 
+      // Reply that was still streaming when the tab closed
+      const partialReply = loadPartialReply(sessionId);
+      clearPartialReply(sessionId);
+
       if (restoredMessages && restoredMessages.length > 0) {
+        // A reply saved mid-stream can no longer complete
+        restoredMessages = restoredMessages.map((msg) =>
+          msg.status === "streaming" ? { ...msg, status: "interrupted" } : msg
+        );
+        if (partialReply && !restoredMessages.some((msg) => msg.id === partialReply.id)) {
+          restoredMessages.push({ ...partialReply, sender: "AI", status: "interrupted" });
+        }
+
         // Restore messages for returning user
         setMessages(restoredMessages);
 
@@ -504,13 +561,18 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
   }, [messages.length, session, sessionId, isReturningUser, setSuggestions]);
 
   /**
-   * Cleanup timers on unmount to prevent memory leaks
+   * Cleanup timers and in-flight replies on unmount to prevent memory leaks
+   * The partial reply stays in storage so it is restored as interrupted
    */
   React.useEffect(() => {
     return () => {
       if (aiResponseTimerRef.current) {
         clearTimeout(aiResponseTimerRef.current);
       }
+      // Release the reply first so sendMessage's cleanup leaves the partial reply saved
+      const controller = replyControllerRef.current;
+      replyControllerRef.current = null;
+      controller?.abort();
     };
   }, []);
 
@@ -558,7 +620,8 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
 
     const { content, isQuickReply } = lastUserMessageRef.current;
 
-    // Reset AI responding state to clear timeout indicator
+    // Stop any reply still in flight and clear the timeout indicator
+    cancelResponse();
     setIsAiResponding(false);
 
     // Give a brief moment for UI to reset
@@ -566,7 +629,7 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
 
     // Resend the message
     await sendMessage(content, isQuickReply);
-  }, [sendMessage]);
+  }, [sendMessage, cancelResponse]);
 
   /**
    * Persist draft message to sessionStorage
@@ -602,8 +665,7 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
 
     // Save extracted data to unified localStorage
     try {
-      const storageKey = `onboarding_session_${sessionId}`;
-      const existingData = localStorage.getItem(storageKey);
+      const existingData = readSessionData(sessionId);
       const parsed = existingData ? JSON.parse(existingData) : { data: {} };
 
       parsed.data = {
@@ -613,7 +675,7 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
       };
       parsed.savedAt = new Date().toISOString();
 
-      localStorage.setItem(storageKey, JSON.stringify(parsed));
+      writeSessionData(sessionId, JSON.stringify(parsed));
 
       if (process.env.NODE_ENV === 'development') {
         console.log("Extracted form data from chat:", Object.keys(extractedData));
@@ -628,12 +690,15 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
    * This enables real-time form pre-population as the user chats
    */
   React.useEffect(() => {
+    // Skip while a reply streams in; it is saved separately and extracted once complete
+    if (streamingMessageId) return;
+
     // Only extract if we have user messages (skip initial AI greeting)
     const hasUserMessages = messages.some(m => m.sender === "USER");
     if (hasUserMessages && messages.length > 1) {
       extractAndSaveFormFields(messages);
     }
-  }, [messages, extractAndSaveFormFields]);
+  }, [messages, streamingMessageId, extractAndSaveFormFields]);
 
   /**
    * When assessment is complete, show a continue prompt
@@ -728,7 +793,7 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
       setAnswerHistory([]);
 
       // Clear localStorage
-      localStorage.removeItem(`onboarding_session_${sessionId}`);
+      void wipeSessionData(sessionId);
       sessionStorage.removeItem(`draft_message_${sessionId}`);
 
       // The useEffect will re-initialize with welcome message
@@ -743,7 +808,9 @@ export function useAssessmentChat(sessionId: string): UseAssessmentChatReturn {
     messages,
     sendMessage,
     retryLastMessage,
+    cancelResponse,
     isAiResponding,
+    isStreaming: streamingMessageId !== null,
     suggestedReplies,
     isSuggestionsLoading,
     error,
@@ -19,6 +19,7 @@ import * as React from "react";
 import { gql } from "@apollo/client";
 import { useMutation, useQuery } from "@apollo/client/react";
 import type { TimeBlock } from "@/lib/validations/availability";
+import { getOnboardingState, saveOnboardingData } from "@/lib/onboarding-store";
 
 /**
  * GraphQL mutation for submitting patient availability
@@ -196,7 +197,7 @@ export function usePatientAvailability({
         const response = result.data?.submitPatientAvailability;
 
         if (response?.success) {
-          // Save to localStorage as backup
+          // Save a local copy as backup
           saveToLocalStorage(sessionId, availabilities, timezone);
           onSuccess?.();
           return { success: true, errors: [] };
@@ -224,7 +225,7 @@ export function usePatientAvailability({
 }
 
 /**
- * Save availability to localStorage for recovery
+ * Save availability to the onboarding store for recovery
  */
 function saveToLocalStorage(
   sessionId: string,
@@ -232,33 +233,23 @@ function saveToLocalStorage(
   timezone: string
 ): void {
   try {
-    const key = `onboarding_session_${sessionId}`;
-    const existingStr = localStorage.getItem(key);
-    const existing = existingStr ? JSON.parse(existingStr) : { data: {} };
-
-    existing.data.availability = { availabilities, timezone };
-    existing.savedAt = new Date().toISOString();
-
-    localStorage.setItem(key, JSON.stringify(existing));
+    saveOnboardingData(sessionId, { availability: { availabilities, timezone } });
   } catch {
     console.warn("Failed to save availability to localStorage");
   }
 }
 
 /**
- * Load availability from localStorage
+ * Load availability from the onboarding store
  */
 export function loadFromLocalStorage(
   sessionId: string
 ): { availabilities: TimeBlock[]; timezone: string } | null {
   try {
-    const key = `onboarding_session_${sessionId}`;
-    const stored = localStorage.getItem(key);
-
-    if (!stored) return null;
+    const saved = getOnboardingState(sessionId).data.availability;
+    if (!saved?.availabilities || !saved.timezone) return null;
 
-    const parsed = JSON.parse(stored);
-    return parsed?.data?.availability || null;
+    return { availabilities: saved.availabilities, timezone: saved.timezone };
   } catch {
     return null;
   }
@@ -27,7 +27,7 @@ import { cn } from "@/lib/utils";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { formatCurrency } from "@/lib/utils/currency";
+import { formatMoney, type Money } from "@/lib/utils/money";
 import type { PackageOptionData } from "./hooks/useCostComparison";
 
 /**
@@ -50,8 +50,8 @@ export interface ComparisonDetailCardProps {
   insuranceCarrier?: string | null;
   /** Coverage percentage (0-100) */
   coveragePercentage?: number | null;
-  /** Copay amount in dollars */
-  copayAmount?: number | null;
+  /** Copay amount */
+  copayAmount?: Money | null;
   /** Coinsurance percentage (0-100) */
   coinsurancePercentage?: number | null;
   /** Insurance card thumbnail element */
@@ -124,7 +124,7 @@ function PackageOptionItem({ pkg }: { pkg: PackageOptionData }) {
  *   isRecommended={true}
  *   insuranceCarrier="Blue Cross Blue Shield"
  *   coveragePercentage={80}
- *   copayAmount={25}
+ *   copayAmount={moneyFromDollars(25)}
  *   coinsurancePercentage={20}
  *   onSelect={() => handleSelectInsurance()}
  * />
@@ -257,7 +257,7 @@ export function ComparisonDetailCard({
                 <div className="flex justify-between items-center py-1.5 border-b border-border">
                   <span className="text-sm text-muted-foreground">Copay</span>
                   <span className="text-sm font-medium">
-                    {formatCurrency(copayAmount * 100)}
+                    {formatMoney(copayAmount)}
                   </span>
                 </div>
               )}
@@ -0,0 +1,323 @@
+/**
+ * CostCalculator Component
+ *
+ * Interactive per-session cost estimator for the cost page. Parents pick
+ * the kind of session, its length and any add-ons, and can enter a
+ * discount or hardship code. The breakdown (base cost, each adjustment,
+ * estimated total) updates as they change options.
+ *
+ * Visual Design:
+ * - Toggle chips for service type and session length
+ * - Checkboxes for add-on services
+ * - Itemized breakdown with discounts in green and the total in teal
+ *
+ * Accessibility:
+ * - Option groups are labelled; chips use aria-pressed
+ * - Invalid codes are flagged inline with aria-invalid and described by the message
+ * - Estimated total announced politely when it changes
+ *
+ * @module features/cost/CostCalculator
+ */
+
+"use client";
+
+import * as React from "react";
+import { AlertCircle, Calculator, CheckCircle2, Loader2, Tag } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { formatPercentage } from "@/lib/utils/currency";
+import { formatMoney, isNegativeMoney } from "@/lib/utils/money";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_COST_SELECTION,
+  useCostCalculator,
+  type CostCalculatorSelection,
+  type CostLineItem,
+  type CostServiceType,
+} from "./hooks/useCostCalculator";
+
+/**
+ * Props for CostCalculator component
+ */
+export interface CostCalculatorProps {
+  /** Onboarding session ID */
+  sessionId: string;
+  /** Therapist tier to price for, once a therapist is chosen */
+  therapistTier?: string | null;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Service types parents can price
+ */
+const SERVICE_TYPE_OPTIONS: { value: CostServiceType; label: string }[] = [
+  { value: "intake", label: "Intake" },
+  { value: "individual_therapy", label: "Individual" },
+  { value: "family_therapy", label: "Family" },
+];
+
+/**
+ * Session lengths in minutes
+ */
+const DURATION_OPTIONS = [30, 45, 50, 60, 90];
+
+/**
+ * Add-on services and their codes
+ */
+const SPECIAL_SERVICE_OPTIONS = [
+  { value: "translation", label: "Translation services" },
+  { value: "telehealth_setup", label: "Telehealth setup help" },
+];
+
+/**
+ * Toggle chip for the option groups
+ */
+function OptionChip({
+  pressed,
+  onClick,
+  children,
+}: {
+  pressed: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={pressed}
+      onClick={onClick}
+      className={cn(
+        "rounded-full border px-3 py-1.5 text-sm transition-colors min-h-[36px]",
+        pressed
+          ? "border-daybreak-teal bg-daybreak-teal text-white"
+          : "border-gray-200 bg-white text-deep-text hover:border-daybreak-teal hover:bg-daybreak-teal/10"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Formats an adjustment as a signed amount (e.g., "+$15.00", "-$30.00")
+ */
+function formatAdjustment(item: CostLineItem): string {
+  return formatMoney(item.amount, { signDisplay: "always" });
+}
+
+/**
+ * Renders the interactive cost estimator
+ *
+ * @example
+ * <CostCalculator sessionId={sessionId} />
+ */
+export function CostCalculator({ sessionId, therapistTier, className }: CostCalculatorProps) {
+  const serviceLabelId = React.useId();
+  const durationLabelId = React.useId();
+  const codeInputId = React.useId();
+  const codeMessageId = React.useId();
+
+  const [selection, setSelection] = React.useState<CostCalculatorSelection>(
+    DEFAULT_COST_SELECTION
+  );
+  const [codeInput, setCodeInput] = React.useState("");
+
+  const { calculation, discountCodeInvalid, loading, error } = useCostCalculator(sessionId, {
+    ...selection,
+    therapistTier,
+  });
+
+  const appliedCode = selection.discountCode;
+  const codeAccepted = Boolean(appliedCode) && !loading && !error && !discountCodeInvalid;
+
+  function update(changes: Partial<CostCalculatorSelection>) {
+    setSelection((current) => ({ ...current, ...changes }));
+  }
+
+  function toggleSpecialService(code: string, checked: boolean) {
+    setSelection((current) => ({
+      ...current,
+      specialServices: checked
+        ? [...current.specialServices, code]
+        : current.specialServices.filter((service) => service !== code),
+    }));
+  }
+
+  function handleApplyCode(event: React.FormEvent) {
+    event.preventDefault();
+    update({ discountCode: codeInput.trim().toUpperCase() || null });
+  }
+
+  function handleRemoveCode() {
+    setCodeInput("");
+    update({ discountCode: null });
+  }
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg text-deep-text">
+          <Calculator className="h-5 w-5 text-daybreak-teal" aria-hidden="true" />
+          Estimate a session
+        </CardTitle>
+        <CardDescription>
+          Choose the kind of session and any extras to see an itemized estimate.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* Service type */}
+        <div className="space-y-2">
+          <p id={serviceLabelId} className="text-sm font-medium text-deep-text">
+            Type of session
+          </p>
+          <div role="group" aria-labelledby={serviceLabelId} className="flex flex-wrap gap-2">
+            {SERVICE_TYPE_OPTIONS.map((option) => (
+              <OptionChip
+                key={option.value}
+                pressed={selection.serviceType === option.value}
+                onClick={() => update({ serviceType: option.value })}
+              >
+                {option.label}
+              </OptionChip>
+            ))}
+          </div>
+        </div>
+
+        {/* Session length */}
+        <div className="space-y-2">
+          <p id={durationLabelId} className="text-sm font-medium text-deep-text">
+            Session length
+          </p>
+          <div role="group" aria-labelledby={durationLabelId} className="flex flex-wrap gap-2">
+            {DURATION_OPTIONS.map((minutes) => (
+              <OptionChip
+                key={minutes}
+                pressed={selection.duration === minutes}
+                onClick={() => update({ duration: minutes })}
+              >
+                {minutes} min
+              </OptionChip>
+            ))}
+          </div>
+        </div>
+
+        {/* Add-ons */}
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-deep-text">Add-ons</legend>
+          {SPECIAL_SERVICE_OPTIONS.map((option) => {
+            const id = `cost-special-service-${option.value}`;
+            return (
+              <div key={option.value} className="flex items-center gap-3">
+                <Checkbox
+                  id={id}
+                  checked={selection.specialServices.includes(option.value)}
+                  onCheckedChange={(value) => toggleSpecialService(option.value, value === true)}
+                />
+                <Label htmlFor={id} className="text-sm font-normal text-muted-foreground">
+                  {option.label}
+                </Label>
+              </div>
+            );
+          })}
+        </fieldset>
+
+        {/* Discount or hardship code */}
+        <form onSubmit={handleApplyCode} className="space-y-2">
+          <Label htmlFor={codeInputId} className="text-sm font-medium text-deep-text">
+            Discount or hardship code
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={codeInputId}
+              value={codeInput}
+              onChange={(event) => setCodeInput(event.target.value)}
+              placeholder="Enter code"
+              autoComplete="off"
+              aria-invalid={discountCodeInvalid || undefined}
+              aria-describedby={appliedCode ? codeMessageId : undefined}
+              className="uppercase"
+            />
+            {codeAccepted ? (
+              <Button type="button" variant="outline" onClick={handleRemoveCode}>
+                Remove
+              </Button>
+            ) : (
+              <Button type="submit" variant="outline" disabled={!codeInput.trim()}>
+                Apply
+              </Button>
+            )}
+          </div>
+          {discountCodeInvalid && (
+            <p id={codeMessageId} className="flex items-center gap-1.5 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" aria-hidden="true" />
+              That code isn&apos;t valid. Check it and try again.
+            </p>
+          )}
+          {codeAccepted && (
+            <p id={codeMessageId} className="flex items-center gap-1.5 text-sm text-green-700">
+              <CheckCircle2 className="h-4 w-4" aria-hidden="true" />
+              Code {appliedCode} applied
+            </p>
+          )}
+        </form>
+
+        {/* Breakdown */}
+        <div className="rounded-lg bg-cream/50 p-4">
+          {error && !calculation ? (
+            <p className="flex items-center gap-2 text-sm text-red-600" role="alert">
+              <AlertCircle className="h-4 w-4" aria-hidden="true" />
+              We couldn&apos;t calculate this estimate. Please try again.
+            </p>
+          ) : !calculation ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground" role="status">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              Calculating your estimate...
+            </p>
+          ) : (
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">Base cost</dt>
+                <dd className="text-deep-text">{formatMoney(calculation.grossCost)}</dd>
+              </div>
+
+              {calculation.adjustments.map((item, index) => (
+                <div key={`${item.type}-${index}`} className="flex justify-between gap-4">
+                  <dt className="flex items-center gap-1.5 text-muted-foreground">
+                    {item.type === "discount" && (
+                      <Tag className="h-3.5 w-3.5 text-green-700" aria-hidden="true" />
+                    )}
+                    {item.description}
+                    {item.percentage != null && ` (${formatPercentage(item.percentage)})`}
+                  </dt>
+                  <dd className={cn(isNegativeMoney(item.amount) ? "text-green-700" : "text-deep-text")}>
+                    {formatAdjustment(item)}
+                  </dd>
+                </div>
+              ))}
+
+              <div className="flex justify-between border-t border-gray-200 pt-2 text-base font-semibold">
+                <dt className="text-deep-text">Estimated cost per session</dt>
+                <dd className="flex items-center gap-2 text-daybreak-teal" aria-live="polite">
+                  {loading && (
+                    <Loader2 className="h-4 w-4 animate-spin" aria-label="Updating estimate" />
+                  )}
+                  {formatMoney(calculation.netCost)}
+                </dd>
+              </div>
+            </dl>
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Estimates are before insurance and may change based on your care plan.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -39,7 +39,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { formatCurrency } from "@/lib/utils/currency";
+import { compareMoney, formatMoney, type Money } from "@/lib/utils/money";
 import type { CostEstimate } from "@/lib/validations/cost";
 import type { SelfPayRate } from "@/lib/validations/cost";
 
@@ -65,16 +65,17 @@ export interface CostComparisonViewProps {
  * Compares insurance per-session cost with self-pay base rate
  * and returns which option costs less for the user.
  *
- * @param insuranceCost - Per-session cost with insurance (in cents)
- * @param selfPayCost - Per-session self-pay rate (in cents)
+ * @param insuranceCost - Per-session cost with insurance
+ * @param selfPayCost - Per-session self-pay rate
  * @returns "insurance" | "self_pay" | "equal"
  */
 function determineMoreAffordable(
-  insuranceCost: number,
-  selfPayCost: number
+  insuranceCost: Money,
+  selfPayCost: Money
 ): "insurance" | "self_pay" | "equal" {
-  if (insuranceCost < selfPayCost) return "insurance";
-  if (selfPayCost < insuranceCost) return "self_pay";
+  const difference = compareMoney(insuranceCost, selfPayCost);
+  if (difference < 0) return "insurance";
+  if (difference > 0) return "self_pay";
   return "equal";
 }
 
@@ -97,7 +98,7 @@ function ComparisonCard({
   type: "insurance" | "self_pay";
   title: string;
   description: string;
-  perSessionCost: number;
+  perSessionCost: Money;
   isRecommended: boolean;
   features: string[];
   tradeOffs?: string[];
@@ -162,7 +163,7 @@ function ComparisonCard({
               isRecommended ? "text-daybreak-teal" : "text-foreground"
             )}
           >
-            {formatCurrency(perSessionCost)}
+            {formatMoney(perSessionCost)}
           </p>
         </div>
 
@@ -286,7 +287,7 @@ export function CostComparisonView({
           features={[
             "Leverages your existing coverage",
             costEstimate.copay
-              ? `${formatCurrency(costEstimate.copay)} copay per session`
+              ? `${formatMoney(costEstimate.copay)} copay per session`
               : "Coverage applies to deductible",
             "May reduce out-of-pocket maximum",
           ]}
@@ -37,7 +37,8 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { formatCurrency, formatPerSessionRate, formatPercentage } from "@/lib/utils/currency";
+import { formatPerSessionRate, formatPercentage } from "@/lib/utils/currency";
+import { formatMoney } from "@/lib/utils/money";
 import { maskMemberId } from "@/features/insurance/utils";
 import type { CostEstimate } from "@/lib/validations/cost";
 import { DeductibleTracker } from "./DeductibleTracker";
@@ -246,7 +247,7 @@ export function CostEstimationCard({
                 {costEstimate.insuranceCoverage.amount != null && (
                   <CoverageRow
                     label="Coverage Amount"
-                    value={formatCurrency(costEstimate.insuranceCoverage.amount)}
+                    value={formatMoney(costEstimate.insuranceCoverage.amount)}
                   />
                 )}
                 {costEstimate.insuranceCoverage.description && (
@@ -261,7 +262,7 @@ export function CostEstimationCard({
             {costEstimate.copay != null && (
               <CoverageRow
                 label="Copay"
-                value={formatCurrency(costEstimate.copay)}
+                value={formatMoney(costEstimate.copay)}
               />
             )}
 
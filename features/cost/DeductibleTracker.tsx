@@ -35,7 +35,7 @@ import * as React from "react";
 import { TrendingDown, AlertCircle, ExternalLink, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
-import { formatCurrency } from "@/lib/utils/currency";
+import { formatMoney, isZeroMoney, type Money } from "@/lib/utils/money";
 import type { DeductibleInfo } from "@/lib/validations/cost";
 
 /**
@@ -112,13 +112,13 @@ function UnavailableState({ onContactInsurance }: { onContactInsurance?: () => v
 /**
  * Calculates progress percentage for deductible
  *
- * @param met - Amount of deductible met in cents
- * @param total - Total annual deductible in cents
+ * @param met - Amount of deductible met
+ * @param total - Total annual deductible
  * @returns Progress percentage (0-100)
  */
-function calculateProgress(met: number, total: number): number {
-  if (total === 0) return 0;
-  return Math.min(Math.round((met / total) * 100), 100);
+function calculateProgress(met: Money, total: Money): number {
+  if (isZeroMoney(total)) return 0;
+  return Math.min(Math.round((met.cents / total.cents) * 100), 100);
 }
 
 /**
@@ -134,7 +134,11 @@ function calculateProgress(met: number, total: number): number {
  *
  * @example
  * <DeductibleTracker
- *   deductibleInfo={{ total: 150000, met: 50000, remaining: 100000 }}
+ *   deductibleInfo={{
+ *     total: moneyFromCents(150000),
+ *     met: moneyFromCents(50000),
+ *     remaining: moneyFromCents(100000),
+ *   }}
  *   isAvailable={true}
  * />
  */
@@ -165,7 +169,7 @@ export function DeductibleTracker({
 
   // Calculate progress percentage
   const progress = calculateProgress(deductibleInfo.met, deductibleInfo.total);
-  const isDeductibleMet = deductibleInfo.remaining === 0;
+  const isDeductibleMet = isZeroMoney(deductibleInfo.remaining);
 
   return (
     <div className={cn("w-full space-y-4", className)}>
@@ -194,8 +198,8 @@ export function DeductibleTracker({
           className="h-3"
         />
         <div className="flex items-center justify-between text-xs text-muted-foreground">
-          <span>{formatCurrency(deductibleInfo.met)} met</span>
-          <span>{formatCurrency(deductibleInfo.total)} total</span>
+          <span>{formatMoney(deductibleInfo.met)} met</span>
+          <span>{formatMoney(deductibleInfo.total)} total</span>
         </div>
       </div>
 
@@ -205,7 +209,7 @@ export function DeductibleTracker({
           <div className="flex items-baseline justify-between">
             <span className="text-sm text-blue-900">Remaining Deductible</span>
             <span className="text-lg font-semibold text-blue-900">
-              {formatCurrency(deductibleInfo.remaining)}
+              {formatMoney(deductibleInfo.remaining)}
             </span>
           </div>
           {!isDeductibleMet && (
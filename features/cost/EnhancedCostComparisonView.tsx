@@ -11,6 +11,7 @@
  * - Deductible progress tracking with visual bar
  * - Out-of-pocket maximum tracking
  * - Recommendation banner with savings info
+ * - Line-by-line comparison table
  * - Insurance card thumbnail with modal preview
  * - Loading and error states
  * - Responsive mobile-first layout
@@ -32,6 +33,7 @@ import * as React from "react";
 import { useState } from "react";
 import { AlertCircle, Loader2, Info } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { zeroMoney, type Money } from "@/lib/utils/money";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ComparisonDetailCard } from "./ComparisonDetailCard";
@@ -45,6 +47,7 @@ import type {
   SelfPayEstimateData,
   DeductibleStatusData,
   InsuranceDetailsData,
+  ComparisonRowData,
 } from "./hooks/useCostComparison";
 
 /**
@@ -59,10 +62,12 @@ export interface EnhancedCostComparisonViewProps {
   deductibleStatus: DeductibleStatusData | null;
   /** Insurance details including card images */
   insuranceDetails: InsuranceDetailsData | null;
+  /** Pre-built comparison table rows */
+  comparisonTable?: ComparisonRowData[];
   /** Personalized recommendation text */
   recommendation: string | null;
-  /** Amount saved if choosing self-pay (in cents) */
-  savingsIfSelfPay: number | null;
+  /** Amount saved per session if choosing self-pay */
+  savingsIfSelfPay: Money | null;
   /** Whether self-pay is the recommended option */
   highlightSelfPay: boolean;
   /** Loading state */
@@ -143,6 +148,57 @@ function ErrorDisplay({
   );
 }
 
+/**
+ * Line-by-line comparison of insurance and self-pay
+ */
+function ComparisonTable({ rows }: { rows: ComparisonRowData[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-serif">Side-by-Side Details</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th scope="col" className="py-2 pr-4 font-medium">
+                <span className="sr-only">Cost item</span>
+              </th>
+              <th scope="col" className="py-2 pr-4 font-medium">
+                With Insurance
+              </th>
+              <th scope="col" className="py-2 font-medium">
+                Self-Pay
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-b last:border-0">
+                <th scope="row" className="py-2 pr-4 text-left font-medium text-foreground">
+                  {row.label}
+                </th>
+                <td className="py-2 pr-4 text-muted-foreground">{row.insuranceValue ?? "—"}</td>
+                <td
+                  className={cn(
+                    "py-2",
+                    row.highlightSelfPay
+                      ? "font-semibold text-daybreak-teal"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  {row.selfPayValue}
+                  {row.highlightSelfPay && <span className="sr-only"> (better value)</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
 /**
  * No insurance state - shows only self-pay
  */
@@ -196,6 +252,7 @@ function NoInsuranceState({
  *   selfPayEstimate={selfPayEstimate}
  *   deductibleStatus={deductibleStatus}
  *   insuranceDetails={insuranceDetails}
+ *   comparisonTable={comparisonTable}
  *   recommendation={recommendation}
  *   highlightSelfPay={highlightSelfPay}
  *   onSelectInsurance={handleSelectInsurance}
@@ -207,6 +264,7 @@ export function EnhancedCostComparisonView({
   selfPayEstimate,
   deductibleStatus,
   insuranceDetails,
+  comparisonTable = [],
   recommendation,
   savingsIfSelfPay,
   highlightSelfPay,
@@ -304,6 +362,9 @@ export function EnhancedCostComparisonView({
         />
       </div>
 
+      {/* Comparison table */}
+      {comparisonTable.length > 0 && <ComparisonTable rows={comparisonTable} />}
+
       {/* Deductible and OOP trackers */}
       {deductibleStatus && (
         <Card>
@@ -316,9 +377,9 @@ export function EnhancedCostComparisonView({
             {/* Deductible tracker */}
             <DeductibleTracker
               deductibleInfo={{
-                total: Math.round(deductibleStatus.amount * 100), // Convert to cents
-                met: Math.round(deductibleStatus.met * 100),
-                remaining: Math.round(deductibleStatus.remaining * 100),
+                total: deductibleStatus.amount,
+                met: deductibleStatus.met,
+                remaining: deductibleStatus.remaining,
               }}
               isAvailable
             />
@@ -327,9 +388,9 @@ export function EnhancedCostComparisonView({
             {deductibleStatus.oopMaxAmount !== null && (
               <OutOfPocketTracker
                 outOfPocketInfo={{
-                  max: Math.round((deductibleStatus.oopMaxAmount || 0) * 100),
-                  met: Math.round((deductibleStatus.oopMet || 0) * 100),
-                  remaining: Math.round((deductibleStatus.oopRemaining || 0) * 100),
+                  max: deductibleStatus.oopMaxAmount,
+                  met: deductibleStatus.oopMet ?? zeroMoney(),
+                  remaining: deductibleStatus.oopRemaining ?? zeroMoney(),
                 }}
                 isAvailable
               />
@@ -36,7 +36,7 @@ import * as React from "react";
 import { Shield, AlertCircle, ExternalLink, Loader2, CheckCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
-import { formatCurrency } from "@/lib/utils/currency";
+import { compareMoney, formatMoney, isZeroMoney, type Money } from "@/lib/utils/money";
 import type { OutOfPocketInfo } from "@/lib/validations/cost";
 
 /**
@@ -113,13 +113,13 @@ function UnavailableState({ onContactInsurance }: { onContactInsurance?: () => v
 /**
  * Calculates progress percentage for out-of-pocket maximum
  *
- * @param met - Amount applied toward OOP maximum in cents
- * @param max - Annual out-of-pocket maximum in cents
+ * @param met - Amount applied toward OOP maximum
+ * @param max - Annual out-of-pocket maximum
  * @returns Progress percentage (0-100)
  */
-function calculateProgress(met: number, max: number): number {
-  if (max === 0) return 0;
-  return Math.min(Math.round((met / max) * 100), 100);
+function calculateProgress(met: Money, max: Money): number {
+  if (isZeroMoney(max)) return 0;
+  return Math.min(Math.round((met.cents / max.cents) * 100), 100);
 }
 
 /**
@@ -135,7 +135,11 @@ function calculateProgress(met: number, max: number): number {
  *
  * @example
  * <OutOfPocketTracker
- *   outOfPocketInfo={{ max: 500000, met: 320000, remaining: 180000 }}
+ *   outOfPocketInfo={{
+ *     max: moneyFromCents(500000),
+ *     met: moneyFromCents(320000),
+ *     remaining: moneyFromCents(180000),
+ *   }}
  *   isAvailable={true}
  * />
  */
@@ -166,7 +170,9 @@ export function OutOfPocketTracker({
 
   // Calculate progress percentage
   const progress = calculateProgress(outOfPocketInfo.met, outOfPocketInfo.max);
-  const isMaxReached = outOfPocketInfo.remaining === 0 || outOfPocketInfo.met >= outOfPocketInfo.max;
+  const isMaxReached =
+    isZeroMoney(outOfPocketInfo.remaining) ||
+    compareMoney(outOfPocketInfo.met, outOfPocketInfo.max) >= 0;
 
   return (
     <div className={cn("w-full space-y-4", className)}>
@@ -203,8 +209,8 @@ export function OutOfPocketTracker({
           indicatorClassName={cn(isMaxReached && "bg-green-500")}
         />
         <div className="flex items-center justify-between text-xs text-muted-foreground">
-          <span>{formatCurrency(outOfPocketInfo.met)} applied</span>
-          <span>{formatCurrency(outOfPocketInfo.max)} maximum</span>
+          <span>{formatMoney(outOfPocketInfo.met)} applied</span>
+          <span>{formatMoney(outOfPocketInfo.max)} maximum</span>
         </div>
       </div>
 
@@ -231,7 +237,7 @@ export function OutOfPocketTracker({
             <div className="flex items-baseline justify-between">
               <span className="text-sm text-blue-900">Remaining Until Max</span>
               <span className="text-lg font-semibold text-blue-900">
-                {formatCurrency(outOfPocketInfo.remaining)}
+                {formatMoney(outOfPocketInfo.remaining)}
               </span>
             </div>
             <p className="text-xs text-blue-800">
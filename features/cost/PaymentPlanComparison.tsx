@@ -0,0 +1,279 @@
+/**
+ * PaymentPlanComparison Component
+ *
+ * Side-by-side comparison of the payment plans (monthly payment, number
+ * of payments, interest and fees, upfront discount and total), with a
+ * "what if" control for the number of sessions. Changing the session
+ * count re-runs every plan's schedule for the new cost so parents can see
+ * what their monthly payment would be.
+ *
+ * Visual Design:
+ * - One column per plan, lowest total marked in teal
+ * - Stepper for the session count with a reset back to the quote
+ *
+ * Accessibility:
+ * - Table has a caption with plan names as column headers
+ * - Session count is a labelled number input with labelled step buttons
+ * - What-if summary announced politely when it changes
+ *
+ * @module features/cost/PaymentPlanComparison
+ */
+
+"use client";
+
+import * as React from "react";
+import { Minus, Plus } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { formatMoney, moneyEquals, type Money } from "@/lib/utils/money";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { PaymentPlan } from "@/lib/validations/cost";
+import {
+  buildAmortizationSchedule,
+  estimateCostForSessions,
+  findLowestTotal,
+  getFinanceCharges,
+  scaleTermsToCost,
+  type AmortizationSchedule,
+  type PaymentPlanTerms,
+} from "./utils/amortization";
+
+/**
+ * Props for PaymentPlanComparison component
+ * @param plans - Plans to compare
+ * @param planTerms - Terms for each plan, keyed by plan ID
+ * @param estimatedCost - Cost the plans were quoted for
+ * @param perSessionCost - Cost of one session (enables the what-if)
+ * @param className - Optional additional CSS classes
+ */
+export interface PaymentPlanComparisonProps {
+  plans: PaymentPlan[];
+  planTerms: Record<string, PaymentPlanTerms>;
+  estimatedCost: Money;
+  perSessionCost?: Money | null;
+  className?: string;
+}
+
+/**
+ * Session counts the what-if allows
+ */
+const MIN_SESSIONS = 1;
+const MAX_SESSIONS = 52;
+
+function clampSessions(sessions: number): number {
+  return Math.min(MAX_SESSIONS, Math.max(MIN_SESSIONS, Math.round(sessions)));
+}
+
+/**
+ * Renders the plan comparison table with the session what-if
+ *
+ * @example
+ * <PaymentPlanComparison
+ *   plans={paymentPlans}
+ *   planTerms={planTerms}
+ *   estimatedCost={estimatedCost}
+ *   perSessionCost={perSessionCost}
+ * />
+ */
+export function PaymentPlanComparison({
+  plans,
+  planTerms,
+  estimatedCost,
+  perSessionCost,
+  className,
+}: PaymentPlanComparisonProps) {
+  const sessionsInputId = React.useId();
+  const headingId = React.useId();
+
+  const quotedSessions =
+    perSessionCost && perSessionCost.cents > 0
+      ? clampSessions(estimatedCost.cents / perSessionCost.cents)
+      : null;
+  const [sessions, setSessions] = React.useState<number | null>(null);
+  const currentSessions = sessions ?? quotedSessions;
+
+  const cost =
+    perSessionCost && currentSessions !== null && currentSessions !== quotedSessions
+      ? estimateCostForSessions(perSessionCost, currentSessions)
+      : estimatedCost;
+  const isWhatIf = !moneyEquals(cost, estimatedCost);
+
+  const comparedPlans = plans.filter((plan) => planTerms[plan.id]);
+
+  const schedules: Record<string, AmortizationSchedule> = {};
+  for (const plan of comparedPlans) {
+    const terms = planTerms[plan.id];
+    schedules[plan.id] = buildAmortizationSchedule(
+      cost,
+      isWhatIf ? scaleTermsToCost(terms, estimatedCost, cost) : terms
+    );
+  }
+
+  const lowestPlanId = findLowestTotal(schedules);
+
+  if (comparedPlans.length < 2) {
+    return null;
+  }
+
+  function updateSessions(value: number) {
+    if (Number.isFinite(value)) {
+      setSessions(clampSessions(value));
+    }
+  }
+
+  return (
+    <section className={cn("space-y-4", className)} aria-labelledby={headingId}>
+      <div>
+        <h3 id={headingId} className="font-semibold text-foreground">
+          Compare plans
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Plans are based on an estimated cost of {formatMoney(estimatedCost)}.
+        </p>
+      </div>
+
+      {/* Session what-if */}
+      {perSessionCost && currentSessions !== null && (
+        <div className="space-y-2 rounded-lg bg-cream/30 p-4">
+          <Label htmlFor={sessionsInputId} className="text-sm font-medium text-foreground">
+            Number of sessions
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Try a different number of sessions to see how each plan changes.
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => updateSessions(currentSessions - 1)}
+              disabled={currentSessions <= MIN_SESSIONS}
+              aria-label="Fewer sessions"
+            >
+              <Minus className="h-4 w-4" aria-hidden="true" />
+            </Button>
+            <Input
+              id={sessionsInputId}
+              type="number"
+              inputMode="numeric"
+              min={MIN_SESSIONS}
+              max={MAX_SESSIONS}
+              value={currentSessions}
+              onChange={(event) => updateSessions(event.target.valueAsNumber)}
+              className="w-20 text-center"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => updateSessions(currentSessions + 1)}
+              disabled={currentSessions >= MAX_SESSIONS}
+              aria-label="More sessions"
+            >
+              <Plus className="h-4 w-4" aria-hidden="true" />
+            </Button>
+            <span className="text-sm text-muted-foreground">sessions</span>
+            {isWhatIf && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSessions(null)}
+                className="ml-auto text-daybreak-teal"
+              >
+                Reset
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            {currentSessions} {currentSessions === 1 ? "session" : "sessions"} at{" "}
+            {formatMoney(perSessionCost)} each comes to about {formatMoney(cost)}.
+            {isWhatIf && " What-if amounts are estimates, not quotes."}
+          </p>
+        </div>
+      )}
+
+      {/* Side-by-side plans */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <caption className="sr-only">Payment plans compared</caption>
+          <thead>
+            <tr className="border-b text-left">
+              <td />
+              {comparedPlans.map((plan) => (
+                <th key={plan.id} scope="col" className="py-2 pl-3 text-right font-semibold">
+                  {plan.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-border/60">
+              <th scope="row" className="py-2 text-left font-normal text-muted-foreground">
+                Each payment
+              </th>
+              {comparedPlans.map((plan) => (
+                <td key={plan.id} className="py-2 pl-3 text-right font-medium">
+                  {formatMoney(schedules[plan.id].monthlyPayment)}
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b border-border/60">
+              <th scope="row" className="py-2 text-left font-normal text-muted-foreground">
+                Payments
+              </th>
+              {comparedPlans.map((plan) => (
+                <td key={plan.id} className="py-2 pl-3 text-right">
+                  {schedules[plan.id].rows.length}
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b border-border/60">
+              <th scope="row" className="py-2 text-left font-normal text-muted-foreground">
+                Interest &amp; fees
+              </th>
+              {comparedPlans.map((plan) => (
+                <td key={plan.id} className="py-2 pl-3 text-right">
+                  {formatMoney(getFinanceCharges(schedules[plan.id]))}
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b border-border/60">
+              <th scope="row" className="py-2 text-left font-normal text-muted-foreground">
+                Upfront discount
+              </th>
+              {comparedPlans.map((plan) => (
+                <td key={plan.id} className="py-2 pl-3 text-right text-green-700">
+                  {schedules[plan.id].discount.cents > 0
+                    ? `-${formatMoney(schedules[plan.id].discount)}`
+                    : "—"}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <th scope="row" className="py-2 text-left font-semibold">
+                Total cost
+              </th>
+              {comparedPlans.map((plan) => (
+                <td
+                  key={plan.id}
+                  className={cn(
+                    "py-2 pl-3 text-right font-semibold",
+                    plan.id === lowestPlanId && "text-daybreak-teal"
+                  )}
+                >
+                  {formatMoney(schedules[plan.id].totalPaid)}
+                  {plan.id === lowestPlanId && (
+                    <span className="block text-xs font-normal">Lowest total</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
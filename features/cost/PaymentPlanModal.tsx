@@ -7,6 +7,9 @@
  * Features:
  * - Displays all available payment plans with details
  * - Shows payment frequency, amounts, and terms
+ * - Month-by-month schedule for each plan, checked against the quote
+ * - Side-by-side plan comparison with a session-count what-if
+ * - Payment method choice (card, bank transfer, HSA/FSA) saved with the plan
  * - "Select this plan" action for each option
  * - Financial assistance link to open support chat
  * - Keyboard navigation and screen reader support
@@ -27,7 +30,7 @@
  * AC-6.4.1: "Payment options" click opens accessible modal
  * AC-6.4.2: Display all available payment plans with frequency and amounts
  * AC-6.4.3: Show terms link for each plan
- * AC-6.4.4: "Select this plan" triggers setPaymentPreference mutation
+ * AC-6.4.4: "Select this plan" triggers savePaymentPlanSelection mutation
  * AC-6.4.5: "Financial assistance" link opens support chat (Intercom)
  * AC-6.4.6: Modal keyboard navigable and screen reader accessible
  */
@@ -42,6 +45,7 @@ import {
   Loader2,
   AlertCircle,
   Check,
+  ChevronDown,
   HeartHandshake,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -53,13 +57,24 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { formatCurrency } from "@/lib/utils/currency";
+import { formatMoney, isZeroMoney, type Money } from "@/lib/utils/money";
 import type { PaymentPlan, PaymentFrequency } from "@/lib/validations/cost";
+import type { PaymentMethodEnum } from "@/types/graphql";
 import { usePaymentPlans } from "./hooks/usePaymentPlans";
+import { PaymentPlanComparison } from "./PaymentPlanComparison";
+import { PaymentSchedule } from "./PaymentSchedule";
+import {
+  buildAmortizationSchedule,
+  checkScheduleAgainstQuote,
+  type AmortizationSchedule,
+  type ScheduleQuoteCheck,
+} from "./utils/amortization";
 
 /**
  * Props for PaymentPlanModal component
  * @param sessionId - Onboarding session ID for fetching plans
+ * @param estimatedCost - Estimated total cost the plans spread out
+ * @param perSessionCost - Cost of one session, for the session what-if
  * @param open - Whether modal is open
  * @param onOpenChange - Callback when modal open state changes
  * @param onPlanSelected - Callback when a plan is successfully selected
@@ -67,6 +82,8 @@ import { usePaymentPlans } from "./hooks/usePaymentPlans";
  */
 export interface PaymentPlanModalProps {
   sessionId: string;
+  estimatedCost?: Money | null;
+  perSessionCost?: Money | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onPlanSelected?: (planId: string) => void;
@@ -82,6 +99,15 @@ const FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
   prepaid: "Prepaid Package",
 };
 
+/**
+ * Payment methods a plan can be paid with
+ */
+const PAYMENT_METHOD_OPTIONS: { value: PaymentMethodEnum; label: string }[] = [
+  { value: "CARD", label: "Card" },
+  { value: "BANK_TRANSFER", label: "Bank transfer" },
+  { value: "HSA_FSA", label: "HSA/FSA" },
+];
+
 /**
  * Map payment frequency to icon
  */
@@ -159,15 +185,22 @@ function ErrorState({ error }: { error: Error }) {
  */
 function PaymentPlanCard({
   plan,
+  schedule,
+  quoteCheck,
   isSelected,
   onSelect,
   isSelecting,
 }: {
   plan: PaymentPlan;
+  schedule?: AmortizationSchedule;
+  quoteCheck?: ScheduleQuoteCheck;
   isSelected: boolean;
   onSelect: () => void;
   isSelecting: boolean;
 }) {
+  const [showSchedule, setShowSchedule] = React.useState(false);
+  const scheduleId = `plan-${plan.id}-schedule`;
+
   return (
     <div
       className={cn(
@@ -215,7 +248,7 @@ function PaymentPlanCard({
 
         {/* Pricing information - AC-6.4.2 */}
         <div className="bg-cream/30 rounded-lg p-4">
-          {plan.installmentAmount && (
+          {plan.installmentAmount && !isZeroMoney(plan.installmentAmount) && (
             <div className="mb-2">
               <p className="text-xs text-muted-foreground mb-1">
                 {plan.frequency === "per_session"
@@ -225,17 +258,45 @@ function PaymentPlanCard({
                   : "Total Prepaid"}
               </p>
               <p className="text-2xl font-bold text-daybreak-teal font-serif">
-                {formatCurrency(plan.installmentAmount)}
+                {formatMoney(plan.installmentAmount)}
               </p>
             </div>
           )}
-          {plan.totalAmount && plan.frequency === "prepaid" && (
+          {plan.totalAmount && !isZeroMoney(plan.totalAmount) && plan.frequency !== "per_session" && (
             <p className="text-xs text-muted-foreground">
-              Total: {formatCurrency(plan.totalAmount)}
+              Total: {formatMoney(plan.totalAmount)}
             </p>
           )}
         </div>
 
+        {/* Month-by-month schedule */}
+        {schedule && (
+          <div>
+            <button
+              type="button"
+              className="flex items-center gap-1 text-sm text-daybreak-teal transition-colors hover:text-daybreak-teal/80"
+              onClick={() => setShowSchedule((current) => !current)}
+              aria-expanded={showSchedule}
+              aria-controls={scheduleId}
+            >
+              {showSchedule ? "Hide payment schedule" : "View payment schedule"}
+              <ChevronDown
+                className={cn("h-4 w-4 transition-transform", showSchedule && "rotate-180")}
+                aria-hidden="true"
+              />
+            </button>
+            {showSchedule && (
+              <PaymentSchedule
+                id={scheduleId}
+                planName={plan.name}
+                schedule={schedule}
+                quoteCheck={quoteCheck}
+                className="mt-3"
+              />
+            )}
+          </div>
+        )}
+
         {/* Terms link - AC-6.4.3 */}
         {plan.terms && (
           <div className="border-t pt-3">
@@ -320,13 +381,14 @@ function openFinancialAssistanceChat() {
  * AC-6.4.1: "Payment options" click opens accessible modal
  * AC-6.4.2: Display all available payment plans with frequency and amounts
  * AC-6.4.3: Show terms link for each plan
- * AC-6.4.4: "Select this plan" triggers setPaymentPreference mutation
+ * AC-6.4.4: "Select this plan" triggers savePaymentPlanSelection mutation
  * AC-6.4.5: "Financial assistance" link opens support chat (Intercom)
  * AC-6.4.6: Modal keyboard navigable and screen reader accessible
  *
  * @example
  * <PaymentPlanModal
  *   sessionId="session_123"
+ *   estimatedCost={moneyFromDollars(1800)}
  *   open={isOpen}
  *   onOpenChange={setIsOpen}
  *   onPlanSelected={(planId) => console.log("Selected plan:", planId)}
@@ -334,15 +396,42 @@ function openFinancialAssistanceChat() {
  */
 export function PaymentPlanModal({
   sessionId,
+  estimatedCost,
+  perSessionCost,
   open,
   onOpenChange,
   onPlanSelected,
   className,
 }: PaymentPlanModalProps) {
-  const { paymentPlans, loading, error, selectPlan, selecting } =
-    usePaymentPlans(sessionId);
+  const {
+    paymentPlans,
+    planTerms,
+    financialAssistance,
+    loading,
+    error,
+    selectPlan,
+    selecting,
+    selectError,
+  } = usePaymentPlans(sessionId, estimatedCost);
 
   const [selectedPlanId, setSelectedPlanId] = React.useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = React.useState<PaymentMethodEnum>("CARD");
+  const paymentMethodLabelId = React.useId();
+
+  /**
+   * Schedules for the quoted cost, checked against each plan's quote
+   */
+  const schedules = React.useMemo(() => {
+    const result: Record<string, { schedule: AmortizationSchedule; quoteCheck: ScheduleQuoteCheck }> =
+      {};
+    if (!estimatedCost) return result;
+
+    for (const [planId, terms] of Object.entries(planTerms)) {
+      const schedule = buildAmortizationSchedule(estimatedCost, terms);
+      result[planId] = { schedule, quoteCheck: checkScheduleAgainstQuote(schedule, terms) };
+    }
+    return result;
+  }, [estimatedCost, planTerms]);
 
   /**
    * Handle plan selection
@@ -351,7 +440,7 @@ export function PaymentPlanModal({
     setSelectedPlanId(planId);
 
     try {
-      await selectPlan(planId);
+      await selectPlan(planId, paymentMethod);
       onPlanSelected?.(planId);
 
       // Announce selection to screen readers
@@ -392,6 +481,60 @@ export function PaymentPlanModal({
           {/* Error state */}
           {error && <ErrorState error={error} />}
 
+          {/* Payment method */}
+          {!loading && !error && paymentPlans && paymentPlans.length > 0 && (
+            <div className="space-y-2">
+              <p id={paymentMethodLabelId} className="text-sm font-medium text-foreground">
+                How would you like to pay?
+              </p>
+              <div
+                role="radiogroup"
+                aria-labelledby={paymentMethodLabelId}
+                className="flex flex-wrap gap-2"
+              >
+                {PAYMENT_METHOD_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={paymentMethod === option.value}
+                    onClick={() => setPaymentMethod(option.value)}
+                    disabled={selecting}
+                    className={cn(
+                      "rounded-full border px-3 py-1.5 text-sm transition-colors min-h-[36px] disabled:opacity-50",
+                      paymentMethod === option.value
+                        ? "border-daybreak-teal bg-daybreak-teal text-white"
+                        : "border-gray-200 bg-white text-foreground hover:border-daybreak-teal hover:bg-daybreak-teal/10"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Selection error */}
+          {selectError && (
+            <p
+              className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800"
+              role="alert"
+            >
+              <AlertCircle className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+              We couldn&apos;t save your payment plan. Please try again.
+            </p>
+          )}
+
+          {/* Plan comparison and what-if */}
+          {!loading && !error && paymentPlans && estimatedCost && (
+            <PaymentPlanComparison
+              plans={paymentPlans}
+              planTerms={planTerms}
+              estimatedCost={estimatedCost}
+              perSessionCost={perSessionCost}
+            />
+          )}
+
           {/* Payment plans list - AC-6.4.2 */}
           {!loading && !error && paymentPlans && paymentPlans.length > 0 && (
             <div className="space-y-4" role="list" aria-label="Payment plan options">
@@ -399,6 +542,8 @@ export function PaymentPlanModal({
                 <div key={plan.id} role="listitem">
                   <PaymentPlanCard
                     plan={plan}
+                    schedule={schedules[plan.id]?.schedule}
+                    quoteCheck={schedules[plan.id]?.quoteCheck}
                     isSelected={selectedPlanId === plan.id}
                     onSelect={() => handleSelectPlan(plan.id)}
                     isSelecting={selecting && selectedPlanId === plan.id}
@@ -430,9 +575,20 @@ export function PaymentPlanModal({
                       Need Financial Assistance?
                     </h4>
                     <p className="text-sm text-blue-800 mb-3">
-                      We offer sliding scale options for families who need support.
-                      Our team is here to help you find an affordable solution.
+                      {financialAssistance?.description ||
+                        "We offer sliding scale options for families who need support. Our team is here to help you find an affordable solution."}
                     </p>
+                    {financialAssistance?.applicationUrl && (
+                      <a
+                        href={financialAssistance.applicationUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="mb-3 flex w-fit items-center gap-1 text-sm text-blue-700 underline hover:text-blue-900"
+                      >
+                        Apply for financial assistance
+                        <ExternalLink className="h-3 w-3" aria-hidden="true" />
+                      </a>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -0,0 +1,173 @@
+/**
+ * PaymentSchedule Component
+ *
+ * Month-by-month breakdown of a payment plan: what each payment is,
+ * how much of it pays down the balance, what goes to interest and fees,
+ * and what's left afterwards. A bar chart shows the balance coming down
+ * and the table carries the detail.
+ *
+ * Visual Design:
+ * - Teal bars for the remaining balance after each payment
+ * - Compact table with the totals in the footer
+ * - Amber note when the estimate doesn't match the plan's quote
+ *
+ * Accessibility:
+ * - Chart is summarized in its accessible name; the table has the full data
+ * - Table has a caption and column/row headers
+ *
+ * @module features/cost/PaymentSchedule
+ */
+
+"use client";
+
+import * as React from "react";
+import { AlertCircle } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { addMoney, formatMoney, subtractMoney } from "@/lib/utils/money";
+import type { AmortizationSchedule, ScheduleQuoteCheck } from "./utils/amortization";
+
+/**
+ * Props for PaymentSchedule component
+ * @param id - Optional element ID (e.g., for aria-controls)
+ * @param planName - Plan name used in the caption (e.g., "6-Month Plan")
+ * @param schedule - Schedule to show
+ * @param quoteCheck - How the schedule compares with the plan's quote
+ * @param className - Optional additional CSS classes
+ */
+export interface PaymentScheduleProps {
+  id?: string;
+  planName: string;
+  schedule: AmortizationSchedule;
+  quoteCheck?: ScheduleQuoteCheck | null;
+  className?: string;
+}
+
+/**
+ * Bar chart of the balance left after each payment
+ */
+function BalanceChart({ schedule }: { schedule: AmortizationSchedule }) {
+  const { amountFinanced, rows } = schedule;
+  const last = rows[rows.length - 1];
+
+  return (
+    <div
+      role="img"
+      aria-label={`Balance goes from ${formatMoney(amountFinanced)} to ${formatMoney(
+        last.remainingBalance
+      )} over ${rows.length} ${rows.length === 1 ? "payment" : "payments"}`}
+      className="flex h-24 items-end gap-1 rounded-lg bg-cream/30 p-3"
+    >
+      {rows.map((row) => {
+        const share =
+          amountFinanced.cents > 0 ? row.remainingBalance.cents / amountFinanced.cents : 0;
+        return (
+          <div key={row.month} className="flex h-full flex-1 flex-col justify-end">
+            <div
+              className="w-full rounded-t bg-daybreak-teal/70"
+              // A sliver for zero so the last month still shows
+              style={{ height: `${Math.max(share * 100, 2)}%` }}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Renders the month-by-month schedule for a plan
+ *
+ * @example
+ * <PaymentSchedule
+ *   planName="6-Month Plan"
+ *   schedule={buildAmortizationSchedule(cost, terms)}
+ *   quoteCheck={checkScheduleAgainstQuote(schedule, terms)}
+ * />
+ */
+export function PaymentSchedule({
+  id,
+  planName,
+  schedule,
+  quoteCheck,
+  className,
+}: PaymentScheduleProps) {
+  const hasInterest = schedule.totalInterest.cents > 0;
+
+  return (
+    <div id={id} className={cn("space-y-3", className)}>
+      <BalanceChart schedule={schedule} />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <caption className="sr-only">Payment schedule for {planName}</caption>
+          <thead>
+            <tr className="border-b text-left text-xs text-muted-foreground">
+              <th scope="col" className="py-2 pr-3 font-medium">
+                Month
+              </th>
+              <th scope="col" className="py-2 pr-3 text-right font-medium">
+                Payment
+              </th>
+              <th scope="col" className="py-2 pr-3 text-right font-medium">
+                Principal
+              </th>
+              <th scope="col" className="py-2 pr-3 text-right font-medium">
+                {hasInterest ? "Interest & fees" : "Fees"}
+              </th>
+              <th scope="col" className="py-2 text-right font-medium">
+                Remaining balance
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.rows.map((row) => (
+              <tr key={row.month} className="border-b border-border/60">
+                <th scope="row" className="py-1.5 pr-3 text-left font-normal">
+                  {row.month}
+                </th>
+                <td className="py-1.5 pr-3 text-right font-medium">{formatMoney(row.payment)}</td>
+                <td className="py-1.5 pr-3 text-right">{formatMoney(row.principal)}</td>
+                <td className="py-1.5 pr-3 text-right">
+                  {formatMoney(addMoney(row.interest, row.fees))}
+                </td>
+                <td className="py-1.5 text-right">{formatMoney(row.remainingBalance)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold">
+              <th scope="row" className="py-2 pr-3 text-left">
+                Total
+              </th>
+              <td className="py-2 pr-3 text-right">{formatMoney(schedule.totalPaid)}</td>
+              <td className="py-2 pr-3 text-right">{formatMoney(schedule.amountFinanced)}</td>
+              <td className="py-2 pr-3 text-right">
+                {formatMoney(addMoney(schedule.totalInterest, schedule.totalFees))}
+              </td>
+              <td className="py-2" />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {schedule.discount.cents > 0 && (
+        <p className="text-xs text-green-700">
+          Includes {formatMoney(schedule.discount)} off for paying upfront.
+        </p>
+      )}
+
+      {quoteCheck && !quoteCheck.matchesQuote && (
+        <p className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+          <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+          <span>
+            This schedule is an estimate and doesn&apos;t match the plan&apos;s quote of{" "}
+            {formatMoney(subtractMoney(schedule.monthlyPayment, quoteCheck.monthlyDifference))} a
+            month ({formatMoney(subtractMoney(schedule.totalPaid, quoteCheck.totalDifference))}{" "}
+            total). You&apos;ll be billed the quoted amounts.
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -23,18 +23,18 @@
 import * as React from "react";
 import { CheckCircle2, Lightbulb, TrendingDown } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { formatCurrency } from "@/lib/utils/currency";
+import { formatMoney, type Money } from "@/lib/utils/money";
 
 /**
  * Props for RecommendationBanner component
  * @param recommendation - Personalized recommendation text from API
- * @param savingsIfSelfPay - Amount saved per session if choosing self-pay (in cents)
+ * @param savingsIfSelfPay - Amount saved per session if choosing self-pay
  * @param highlightSelfPay - Whether self-pay is the recommended option
  * @param className - Optional additional CSS classes
  */
 export interface RecommendationBannerProps {
   recommendation: string | null | undefined;
-  savingsIfSelfPay?: number | null;
+  savingsIfSelfPay?: Money | null;
   highlightSelfPay?: boolean;
   className?: string;
 }
@@ -55,7 +55,7 @@ export interface RecommendationBannerProps {
  * @example
  * <RecommendationBanner
  *   recommendation="Self-pay offers simpler billing and potentially lower costs."
- *   savingsIfSelfPay={2500}
+ *   savingsIfSelfPay={moneyFromCents(2500)}
  *   highlightSelfPay={true}
  * />
  */
@@ -71,7 +71,7 @@ export function RecommendationBanner({
   }
 
   // Determine if there are meaningful savings to display
-  const hasSavings = savingsIfSelfPay && savingsIfSelfPay > 0;
+  const hasSavings = savingsIfSelfPay != null && savingsIfSelfPay.cents > 0;
 
   return (
     <div
@@ -143,10 +143,10 @@ export function RecommendationBanner({
           </p>
 
           {/* Savings indicator (when self-pay is cheaper) */}
-          {hasSavings && highlightSelfPay && (
+          {hasSavings && highlightSelfPay && savingsIfSelfPay && (
             <div className="flex items-center gap-1.5 pt-1">
               <span className="text-xs font-medium text-green-700 bg-green-100 px-2 py-0.5 rounded-full">
-                Save {formatCurrency(savingsIfSelfPay)} per session
+                Save {formatMoney(savingsIfSelfPay)} per session
               </span>
             </div>
           )}
@@ -42,7 +42,8 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { formatCurrency, formatPercentage } from "@/lib/utils/currency";
+import { formatPercentage } from "@/lib/utils/currency";
+import { formatMoney } from "@/lib/utils/money";
 import type { SelfPayRate, SelfPayPackage } from "@/lib/validations/cost";
 
 /**
@@ -177,10 +178,10 @@ function PackageCard({
         <div className="flex items-baseline justify-between">
           <div>
             <p className="text-2xl font-bold text-daybreak-teal font-serif">
-              {formatCurrency(pkg.totalPrice)}
+              {formatMoney(pkg.totalPrice)}
             </p>
             <p className="text-xs text-muted-foreground">
-              {formatCurrency(pkg.pricePerSession)} per session
+              {formatMoney(pkg.pricePerSession)} per session
             </p>
           </div>
 
@@ -291,7 +292,7 @@ export function SelfPayRateCard({
             Per Session Rate
           </p>
           <p className="text-4xl font-bold text-daybreak-teal font-serif">
-            {formatCurrency(selfPayRates.perSessionRate)}
+            {formatMoney(selfPayRates.perSessionRate)}
           </p>
           <p className="text-xs text-muted-foreground mt-2">
             No insurance needed
@@ -0,0 +1,142 @@
+/**
+ * useCostCalculator Hook
+ *
+ * Calculates an itemized per-session cost for the options a parent picks
+ * (service type, session length, add-ons and a discount or hardship code).
+ * Each change re-runs the calculation; the previous breakdown stays on
+ * screen while the new one loads so the totals don't flash.
+ *
+ * @module features/cost/hooks/useCostCalculator
+ */
+
+"use client";
+
+import * as React from "react";
+import type { ErrorLike } from "@apollo/client";
+
+import { useCalculateCostQuery } from "@/types/graphql";
+import { moneyFromDollars, type Money } from "@/lib/utils/money";
+
+/**
+ * Service types supported by calculateCost
+ */
+export type CostServiceType = "intake" | "individual_therapy" | "family_therapy";
+
+/**
+ * Options the estimate is calculated for
+ * @param serviceType - Kind of session
+ * @param duration - Session length in minutes
+ * @param specialServices - Add-on service codes (e.g., "translation")
+ * @param discountCode - Discount or hardship code, if entered
+ * @param therapistTier - Therapist tier (standard, senior, lead, specialist), if known
+ */
+export interface CostCalculatorSelection {
+  serviceType: CostServiceType;
+  duration: number;
+  specialServices: string[];
+  discountCode?: string | null;
+  therapistTier?: string | null;
+}
+
+/**
+ * One adjustment between the gross and net cost
+ * @param type - Adjustment type (duration_modifier, therapist_tier, special_service, tax, discount)
+ * @param description - Human-readable description
+ * @param amount - Amount (positive for fees, negative for discounts)
+ * @param percentage - Percentage for percentage-based adjustments
+ */
+export interface CostLineItem {
+  type: string;
+  description: string;
+  amount: Money;
+  percentage: number | null;
+}
+
+/**
+ * Itemized cost for one session
+ */
+export interface CostCalculation {
+  grossCost: Money;
+  adjustments: CostLineItem[];
+  netCost: Money;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseCostCalculatorResult {
+  /** Latest breakdown (the previous one while recalculating) */
+  calculation: CostCalculation | null;
+  /** Whether the entered discount code was rejected */
+  discountCodeInvalid: boolean;
+  /** Whether a calculation is in flight */
+  loading: boolean;
+  /** Error from the last calculation */
+  error: ErrorLike | undefined;
+}
+
+/**
+ * Default estimator selection (a standard 50-minute individual session)
+ */
+export const DEFAULT_COST_SELECTION: CostCalculatorSelection = {
+  serviceType: "individual_therapy",
+  duration: 50,
+  specialServices: [],
+  discountCode: null,
+};
+
+/**
+ * Calculates the itemized cost for a selection
+ *
+ * @param sessionId - Onboarding session ID
+ * @param selection - Options to price
+ * @returns Breakdown with loading/error states and discount code feedback
+ *
+ * @example
+ * const [selection, setSelection] = useState(DEFAULT_COST_SELECTION);
+ * const { calculation, discountCodeInvalid } = useCostCalculator(sessionId, selection);
+ */
+export function useCostCalculator(
+  sessionId: string,
+  selection: CostCalculatorSelection
+): UseCostCalculatorResult {
+  const discountCode = selection.discountCode?.trim() || null;
+
+  const { data, previousData, loading, error } = useCalculateCostQuery({
+    variables: {
+      sessionId,
+      serviceType: selection.serviceType,
+      duration: selection.duration,
+      therapistTier: selection.therapistTier || null,
+      specialServices: selection.specialServices,
+      discountCode,
+    },
+    skip: !sessionId,
+    fetchPolicy: "cache-first",
+  });
+
+  const result = data?.calculateCost ?? previousData?.calculateCost;
+
+  const calculation = React.useMemo<CostCalculation | null>(() => {
+    if (!result) return null;
+    // calculateCost returns USD floats
+    return {
+      grossCost: moneyFromDollars(result.grossCost),
+      adjustments: result.adjustments.map(({ type, description, amount, percentage }) => ({
+        type,
+        description,
+        amount: moneyFromDollars(amount),
+        percentage,
+      })),
+      netCost: moneyFromDollars(result.netCost),
+    };
+  }, [result]);
+
+  return {
+    calculation,
+    // Only the current response says whether this code was accepted
+    discountCodeInvalid: Boolean(discountCode && data?.calculateCost.discountCodeInvalid),
+    loading,
+    error,
+  };
+}
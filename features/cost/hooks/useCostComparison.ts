@@ -7,6 +7,8 @@
  *
  * Features:
  * - Combined query for cost comparison and session insurance data
+ * - Comparison table rows and package options mapped for the views
+ * - Estimated total and per-session cost for payment plan options
  * - Deductible and out-of-pocket tracking integration
  * - Insurance card image URLs for display
  * - Recommendation and savings data
@@ -19,14 +21,12 @@
  * - Presigned URLs for card images (15-min expiry)
  */
 
-import { useQuery } from "@apollo/client/react";
 import { useMemo } from "react";
-
-// Note: These imports will be auto-generated by GraphQL Code Generator
-// For now, this is a placeholder until codegen runs
-// The actual import will be:
-// import { GetEnhancedCostComparisonDocument } from '@/types/graphql';
-const GET_ENHANCED_COST_COMPARISON = null as unknown as any; // Placeholder until codegen runs
+import {
+  useGetEnhancedCostComparisonQuery,
+  type GetEnhancedCostComparisonQuery,
+} from "@/types/graphql";
+import { moneyFromDollars, parseMoney, type Money } from "@/lib/utils/money";
 
 /**
  * Insurance estimate data structure
@@ -76,14 +76,14 @@ export interface ComparisonRowData {
  * Deductible and out-of-pocket tracking data
  */
 export interface DeductibleStatusData {
-  amount: number;
-  met: number;
-  remaining: number;
+  amount: Money;
+  met: Money;
+  remaining: Money;
   progressPercentage: number;
   isMet: boolean;
-  oopMaxAmount: number | null;
-  oopMet: number | null;
-  oopRemaining: number | null;
+  oopMaxAmount: Money | null;
+  oopMet: Money | null;
+  oopRemaining: Money | null;
   oopProgressPercentage: number | null;
 }
 
@@ -95,10 +95,10 @@ export interface InsuranceDetailsData {
   cardImageBackUrl: string | null;
   payerName: string | null;
   memberId: string | null;
-  copayAmount: number | null;
+  copayAmount: Money | null;
   coinsurancePercentage: number | null;
-  deductibleAmount: number | null;
-  deductibleMet: number | null;
+  deductibleAmount: Money | null;
+  deductibleMet: Money | null;
 }
 
 /**
@@ -117,10 +117,14 @@ export interface UseCostComparisonResult {
   insuranceDetails: InsuranceDetailsData | null;
   /** Personalized recommendation text */
   recommendation: string | null;
-  /** Amount saved if choosing self-pay (in cents) */
-  savingsIfSelfPay: number | null;
+  /** Amount saved per session if choosing self-pay */
+  savingsIfSelfPay: Money | null;
   /** Whether self-pay is the recommended option */
   highlightSelfPay: boolean;
+  /** Estimated total for the recommended option (for payment plans) */
+  estimatedCost: Money | null;
+  /** Per-session cost of the recommended option (for payment plan what-ifs) */
+  perSessionCost: Money | null;
   /** Loading state */
   loading: boolean;
   /** Error state */
@@ -129,6 +133,109 @@ export interface UseCostComparisonResult {
   refetch: () => void;
 }
 
+/**
+ * Converts an optional USD float from the API
+ */
+function optionalMoney(dollars: number | null | undefined): Money | null {
+  return dollars != null ? moneyFromDollars(dollars) : null;
+}
+
+/**
+ * Maps the query response onto the view data
+ *
+ * @param data - GetEnhancedCostComparison response
+ * @returns Cost comparison data for the views
+ */
+export function toCostComparison(
+  data: GetEnhancedCostComparisonQuery | undefined
+): Omit<UseCostComparisonResult, "loading" | "error" | "refetch"> {
+  const costComparison = data?.costComparison;
+  const deductible = data?.deductibleStatus;
+  const insurance = data?.session?.insurance;
+
+  const insuranceEstimate: InsuranceEstimateData | null = costComparison?.insuranceEstimate
+    ? {
+        perSessionCost: costComparison.insuranceEstimate.perSessionCost,
+        totalEstimatedCost: costComparison.insuranceEstimate.totalEstimatedCost,
+        explanation: costComparison.insuranceEstimate.explanation,
+        assumptionNotes: costComparison.insuranceEstimate.assumptionNotes,
+      }
+    : null;
+
+  const selfPayEstimate: SelfPayEstimateData | null = costComparison?.selfPayEstimate
+    ? {
+        baseRate: costComparison.selfPayEstimate.baseRate,
+        totalForTypicalTreatment: costComparison.selfPayEstimate.totalForTypicalTreatment,
+        slidingScaleInfo: costComparison.selfPayEstimate.slidingScaleInfo,
+        transparentPricingMessage: costComparison.selfPayEstimate.transparentPricingMessage,
+        whatIsIncluded: costComparison.selfPayEstimate.whatIsIncluded,
+        whatIsNotIncluded: costComparison.selfPayEstimate.whatIsNotIncluded,
+        packageOptions: costComparison.selfPayEstimate.packageOptions.map(
+          (option): PackageOptionData => ({
+            sessions: option.sessions,
+            totalPrice: option.totalPrice,
+            perSessionCost: option.perSessionCost,
+            savings: option.savings,
+            description: option.description,
+          })
+        ),
+      }
+    : null;
+
+  const highlightSelfPay = costComparison?.highlightSelfPay ?? false;
+  const estimateFromSelfPay = highlightSelfPay || !insuranceEstimate;
+
+  return {
+    insuranceEstimate,
+    selfPayEstimate,
+    comparisonTable: (costComparison?.comparisonTable ?? []).map(
+      (row): ComparisonRowData => ({
+        label: row.label,
+        insuranceValue: row.insuranceValue,
+        selfPayValue: row.selfPayValue,
+        highlightSelfPay: row.highlightSelfPay,
+      })
+    ),
+    deductibleStatus: deductible
+      ? {
+          amount: moneyFromDollars(deductible.amount),
+          met: moneyFromDollars(deductible.met),
+          remaining: moneyFromDollars(deductible.remaining),
+          progressPercentage: deductible.progressPercentage ?? 0,
+          isMet: deductible.isMet,
+          oopMaxAmount: optionalMoney(deductible.oopMaxAmount),
+          oopMet: optionalMoney(deductible.oopMet),
+          oopRemaining: optionalMoney(deductible.oopRemaining),
+          oopProgressPercentage: deductible.oopProgressPercentage,
+        }
+      : null,
+    insuranceDetails: insurance
+      ? {
+          cardImageFrontUrl: insurance.cardImageFrontUrl,
+          cardImageBackUrl: insurance.cardImageBackUrl,
+          payerName: insurance.payerName,
+          memberId: insurance.memberId,
+          copayAmount: optionalMoney(insurance.copayAmount),
+          coinsurancePercentage: insurance.coinsurancePercentage,
+          deductibleAmount: optionalMoney(insurance.deductibleAmount),
+          deductibleMet: optionalMoney(insurance.deductibleMet),
+        }
+      : null,
+    recommendation: costComparison?.recommendation ?? null,
+    savingsIfSelfPay: optionalMoney(costComparison?.savingsIfSelfPay),
+    highlightSelfPay,
+    // Estimates only come as display strings (e.g., "$1,800 - $2,400")
+    estimatedCost: parseMoney(
+      estimateFromSelfPay
+        ? selfPayEstimate?.totalForTypicalTreatment
+        : insuranceEstimate?.totalEstimatedCost
+    ),
+    perSessionCost: parseMoney(
+      estimateFromSelfPay ? selfPayEstimate?.baseRate : insuranceEstimate?.perSessionCost
+    ),
+  };
+}
+
 /**
  * Fetches comprehensive cost comparison data for a session
  *
@@ -164,41 +271,21 @@ export interface UseCostComparisonResult {
  * }
  */
 export function useCostComparison(sessionId: string): UseCostComparisonResult {
-  // Execute GraphQL query
-  // Note: This will error until GraphQL schema is implemented
-  const { data, loading, error, refetch } = useQuery(
-    GET_ENHANCED_COST_COMPARISON || {},
-    {
-      variables: { sessionId },
-      skip: !sessionId || !GET_ENHANCED_COST_COMPARISON,
-      fetchPolicy: "cache-and-network", // Show cached data while fetching fresh
-      errorPolicy: "all", // Return partial data on error
-    }
-  );
+  const { data, loading, error, refetch } = useGetEnhancedCostComparisonQuery({
+    variables: { sessionId },
+    skip: !sessionId,
+    fetchPolicy: "cache-and-network", // Show cached data while fetching fresh
+    errorPolicy: "all", // Return partial data on error
+  });
 
   /**
    * Extract and transform data from query response
    * Ensures type safety and handles missing data gracefully
    */
-  const result = useMemo<Omit<UseCostComparisonResult, "loading" | "error" | "refetch">>(() => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const costComparison = (data as any)?.costComparison;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const deductibleStatusData = (data as any)?.deductibleStatus;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const sessionData = (data as any)?.session;
-
-    return {
-      insuranceEstimate: costComparison?.insuranceEstimate ?? null,
-      selfPayEstimate: costComparison?.selfPayEstimate ?? null,
-      comparisonTable: costComparison?.comparisonTable ?? [],
-      deductibleStatus: deductibleStatusData ?? null,
-      insuranceDetails: sessionData?.insurance ?? null,
-      recommendation: costComparison?.recommendation ?? null,
-      savingsIfSelfPay: costComparison?.savingsIfSelfPay ?? null,
-      highlightSelfPay: costComparison?.highlightSelfPay ?? false,
-    };
-  }, [data]);
+  const result = useMemo<Omit<UseCostComparisonResult, "loading" | "error" | "refetch">>(
+    () => toCostComparison(data),
+    [data]
+  );
 
   /**
    * Wrap refetch to handle potential errors
@@ -214,7 +301,7 @@ export function useCostComparison(sessionId: string): UseCostComparisonResult {
 
   return {
     ...result,
-    loading,
+    loading: loading && !data,
     error: error ?? null,
     refetch: handleRefetch,
   };
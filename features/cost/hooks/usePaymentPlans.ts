@@ -6,53 +6,136 @@
  * Integrates with Apollo Client caching for optimal performance.
  *
  * Features:
- * - Automatic query execution on mount
+ * - paymentPlanOptions query for the family's estimated cost
+ * - Options mapped to PaymentPlan (Money amounts) for display
+ * - Plan terms (rate, fees, discount) for schedules and what-ifs
+ * - Financial assistance details from the same query
+ * - savePaymentPlanSelection mutation with the chosen payment method
  * - Loading and error state management
- * - Apollo cache integration with cache-first policy
- * - Type-safe data access
- * - Payment plan selection mutation
  *
  * Security:
  * - Session-scoped data (only session ID exposed)
  * - No PHI concerns (payment plans are configuration)
  */
 
-import { useQuery, useMutation } from "@apollo/client/react";
 import { useMemo } from "react";
+import {
+  useGetPaymentPlansQuery,
+  useSavePaymentPlanSelectionMutation,
+  type GetPaymentPlansQuery,
+  type PaymentMethodEnum,
+} from "@/types/graphql";
+import {
+  formatMoney,
+  moneyFromDollars,
+  percentOfMoney,
+  toDollars,
+  type Money,
+} from "@/lib/utils/money";
 import type { PaymentPlan } from "@/lib/validations/cost";
+import type { PaymentPlanTerms } from "../utils/amortization";
 
-// Note: These imports will be auto-generated by GraphQL Code Generator
-// For now, these are placeholders until codegen runs
-// The actual imports will be:
-// import { GetPaymentPlansDocument, SetPaymentPreferenceDocument } from '@/types/graphql';
-const GET_PAYMENT_PLANS = null as any; // Placeholder until codegen runs
-const SET_PAYMENT_PREFERENCE = null as any; // Placeholder until codegen runs
+/**
+ * Payment plan option as returned by paymentPlanOptions (dollar amounts)
+ */
+export type PaymentPlanOptionData = GetPaymentPlansQuery["paymentPlanOptions"][number];
+
+/**
+ * Financial assistance details
+ */
+export type FinancialAssistanceData = GetPaymentPlansQuery["financialAssistanceInfo"];
 
 /**
  * Hook return type
  */
 export interface UsePaymentPlansResult {
   paymentPlans: PaymentPlan[] | null;
+  /** Terms for each plan, keyed by plan ID */
+  planTerms: Record<string, PaymentPlanTerms>;
+  financialAssistance: FinancialAssistanceData | null;
   loading: boolean;
   error: Error | null;
   refetch: () => void;
-  selectPlan: (planId: string) => Promise<void>;
+  selectPlan: (planId: string, paymentMethod?: PaymentMethodEnum) => Promise<void>;
   selecting: boolean;
   selectError: Error | null;
 }
 
+/**
+ * Stable ID for a plan option (options have no ID of their own)
+ */
+function getPlanId(option: PaymentPlanOptionData): string {
+  return `plan_${option.durationMonths}_months`;
+}
+
+/**
+ * Describes a plan's interest, fees and upfront discount
+ */
+function describeTerms(option: PaymentPlanOptionData): string {
+  const terms = [
+    option.interestRate > 0 ? `${option.interestRate}% interest` : "No interest",
+    option.hasFees && option.feeAmount > 0
+      ? `${formatMoney(moneyFromDollars(option.feeAmount))} in fees`
+      : "no fees",
+  ];
+  if (option.upfrontDiscount) {
+    terms.push(`${option.upfrontDiscount}% off when paid upfront`);
+  }
+  return `${terms.join(", ")}.`;
+}
+
+/**
+ * Maps a backend plan option onto the PaymentPlan shown in the modal
+ *
+ * @param option - Plan option from paymentPlanOptions
+ * @returns Payment plan with Money amounts
+ */
+export function toPaymentPlan(option: PaymentPlanOptionData): PaymentPlan {
+  const isPaidInFull = option.durationMonths <= 1;
+
+  return {
+    id: getPlanId(option),
+    name: isPaidInFull ? "Pay in Full" : `${option.durationMonths}-Month Plan`,
+    description: option.description,
+    frequency: isPaidInFull ? "prepaid" : "monthly",
+    installmentAmount: moneyFromDollars(option.monthlyAmount),
+    totalAmount: moneyFromDollars(option.totalAmount),
+    terms: describeTerms(option),
+  };
+}
+
+/**
+ * Maps a backend plan option onto the terms the amortization engine uses
+ *
+ * @param option - Plan option from paymentPlanOptions
+ * @returns Plan terms with Money amounts
+ */
+export function toPaymentPlanTerms(option: PaymentPlanOptionData): PaymentPlanTerms {
+  return {
+    durationMonths: option.durationMonths,
+    interestRate: option.interestRate,
+    feeAmount: moneyFromDollars(option.feeAmount),
+    upfrontDiscount: option.upfrontDiscount,
+    monthlyAmount: moneyFromDollars(option.monthlyAmount),
+    totalAmount: moneyFromDollars(option.totalAmount),
+  };
+}
+
 /**
  * Fetches payment plan options and provides selection functionality
  *
  * Executes GraphQL query to retrieve available payment plan options for
- * the given session. Also provides a mutation function to select a plan.
+ * the given session and estimated cost. Also provides a mutation function
+ * to save the selected plan with the family's payment method.
  *
  * @param sessionId - Onboarding session ID
+ * @param estimatedCost - Estimated total cost (skips the query until known)
  * @returns Payment plan data with loading/error states and selection function
  *
  * @example
- * function PaymentPlanSelector({ sessionId }) {
- *   const { paymentPlans, loading, error, selectPlan, selecting } = usePaymentPlans(sessionId);
+ * function PaymentPlanSelector({ sessionId, estimatedCost }) {
+ *   const { paymentPlans, loading, error, selectPlan, selecting } =
+ *     usePaymentPlans(sessionId, estimatedCost);
  *
  *   if (loading) return <LoadingState />;
  *   if (error) return <ErrorState error={error} />;
@@ -64,7 +147,7 @@ export interface UsePaymentPlansResult {
  *         <PlanCard
  *           key={plan.id}
  *           plan={plan}
- *           onSelect={() => selectPlan(plan.id)}
+ *           onSelect={() => selectPlan(plan.id, "CARD")}
  *           selecting={selecting}
  *         />
  *       ))}
@@ -72,38 +155,43 @@ export interface UsePaymentPlansResult {
  *   );
  * }
  */
-export function usePaymentPlans(sessionId: string): UsePaymentPlansResult {
-  // Execute GraphQL query for payment plans
-  // Note: This will error until GraphQL schema is implemented
-  // Uncomment when backend is ready:
-  // const { data, loading, error, refetch } = useQuery(GET_PAYMENT_PLANS, {
-
-  // Temporary mock structure for development
-  const { data, loading, error, refetch } = useQuery(GET_PAYMENT_PLANS || {}, {
-    skip: !GET_PAYMENT_PLANS || !sessionId, // Skip if query not available or no session ID
-    variables: { sessionId },
+export function usePaymentPlans(
+  sessionId: string,
+  estimatedCost?: Money | null
+): UsePaymentPlansResult {
+  const { data, loading, error, refetch } = useGetPaymentPlansQuery({
+    // paymentPlanOptions takes the cost as a USD float
+    variables: { sessionId, estimatedCost: estimatedCost ? toDollars(estimatedCost) : 0 },
+    skip: !sessionId || !estimatedCost || estimatedCost.cents <= 0,
     fetchPolicy: "cache-first", // Use cache for better performance
     errorPolicy: "all", // Return partial data on error
   });
 
-  // Execute GraphQL mutation for selecting a payment plan
-  const [setPaymentPreferenceMutation, { loading: selecting, error: selectError }] =
-    useMutation(SET_PAYMENT_PREFERENCE || {});
+  const [savePaymentPlanSelection, { loading: selecting, error: selectError }] =
+    useSavePaymentPlanSelectionMutation();
 
   /**
-   * Extract and transform payment plans from query response
+   * Map plan options to display plans
    * Ensures type safety and handles missing data gracefully
    */
   const paymentPlans = useMemo<PaymentPlan[] | null>(() => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(data as any)?.getPaymentPlans) {
+    if (!data?.paymentPlanOptions) {
       return null;
     }
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return (data as any).getPaymentPlans as PaymentPlan[];
+    return data.paymentPlanOptions.map(toPaymentPlan);
   }, [data]);
 
+  const planTerms = useMemo<Record<string, PaymentPlanTerms>>(
+    () =>
+      Object.fromEntries(
+        (data?.paymentPlanOptions ?? []).map((option) => [
+          getPlanId(option),
+          toPaymentPlanTerms(option),
+        ])
+      ),
+    [data]
+  );
+
   /**
    * Wrap refetch to handle potential errors
    */
@@ -118,40 +206,38 @@ export function usePaymentPlans(sessionId: string): UsePaymentPlansResult {
 
   /**
    * Select a payment plan by ID
-   * Triggers mutation to update session with payment preference
+   * Saves the plan's amounts and the chosen payment method for the session
    */
-  const selectPlan = async (planId: string): Promise<void> => {
-    if (!SET_PAYMENT_PREFERENCE) {
-      console.warn("SetPaymentPreference mutation not available");
-      return;
+  const selectPlan = async (
+    planId: string,
+    paymentMethod: PaymentMethodEnum = "CARD"
+  ): Promise<void> => {
+    const option = data?.paymentPlanOptions.find((candidate) => getPlanId(candidate) === planId);
+    if (!option) {
+      throw new Error("This payment plan is no longer available.");
     }
 
     try {
-      await setPaymentPreferenceMutation({
+      const result = await savePaymentPlanSelection({
         variables: {
-          sessionId,
           input: {
-            preferenceType: "self_pay", // Payment plans are for self-pay
-            paymentPlanId: planId,
-          },
-        },
-        // Optimistically update cache
-        optimisticResponse: {
-          setPaymentPreference: {
-            __typename: "SetPaymentPreferencePayload",
-            success: true,
-            session: {
-              __typename: "OnboardingSession",
-              id: sessionId,
-              paymentPreference: {
-                __typename: "PaymentPreference",
-                preferenceType: "self_pay",
-                paymentPlanId: planId,
-              },
-            },
+            sessionId,
+            planDurationMonths: option.durationMonths,
+            monthlyAmount: option.monthlyAmount,
+            totalAmount: option.totalAmount,
+            // upfrontDiscount is a percentage; the selection records dollars
+            discountApplied:
+              option.upfrontDiscount && estimatedCost
+                ? toDollars(percentOfMoney(estimatedCost, option.upfrontDiscount))
+                : 0,
+            paymentMethodPreference: paymentMethod,
           },
         },
       });
+
+      if (!result.data?.savePaymentPlanSelection?.success) {
+        throw new Error("We couldn't save your payment plan. Please try again.");
+      }
     } catch (err) {
       // Error will be captured in selectError state
       console.error("Failed to select payment plan:", err);
@@ -161,6 +247,8 @@ export function usePaymentPlans(sessionId: string): UsePaymentPlansResult {
 
   return {
     paymentPlans,
+    planTerms,
+    financialAssistance: data?.financialAssistanceInfo ?? null,
     loading,
     error: error || null,
     refetch: handleRefetch,
@@ -17,6 +17,15 @@ export type { CostComparisonViewProps } from "./CostComparisonView";
 export { PaymentPlanModal } from "./PaymentPlanModal";
 export type { PaymentPlanModalProps } from "./PaymentPlanModal";
 
+export { CostCalculator } from "./CostCalculator";
+export type { CostCalculatorProps } from "./CostCalculator";
+
+export { PaymentSchedule } from "./PaymentSchedule";
+export type { PaymentScheduleProps } from "./PaymentSchedule";
+
+export { PaymentPlanComparison } from "./PaymentPlanComparison";
+export type { PaymentPlanComparisonProps } from "./PaymentPlanComparison";
+
 // Enhanced cost comparison components
 export { EnhancedCostComparisonView } from "./EnhancedCostComparisonView";
 export type { EnhancedCostComparisonViewProps } from "./EnhancedCostComparisonView";
@@ -46,10 +55,37 @@ export type { UseCostEstimateResult } from "./useCostEstimate";
 export { useSelfPayRates } from "./useSelfPayRates";
 export type { UseSelfPayRatesResult } from "./useSelfPayRates";
 
-export { usePaymentPlans } from "./hooks/usePaymentPlans";
-export type { UsePaymentPlansResult } from "./hooks/usePaymentPlans";
+export { useCostCalculator, DEFAULT_COST_SELECTION } from "./hooks/useCostCalculator";
+export type {
+  UseCostCalculatorResult,
+  CostCalculatorSelection,
+  CostCalculation,
+  CostLineItem,
+  CostServiceType,
+} from "./hooks/useCostCalculator";
+
+export { usePaymentPlans, toPaymentPlan, toPaymentPlanTerms } from "./hooks/usePaymentPlans";
+export type {
+  UsePaymentPlansResult,
+  PaymentPlanOptionData,
+  FinancialAssistanceData,
+} from "./hooks/usePaymentPlans";
 
 export { useCostComparison } from "./hooks/useCostComparison";
+
+// Utils
+export {
+  buildAmortizationSchedule,
+  checkScheduleAgainstQuote,
+  scaleTermsToCost,
+  estimateCostForSessions,
+} from "./utils/amortization";
+export type {
+  PaymentPlanTerms,
+  AmortizationRow,
+  AmortizationSchedule,
+  ScheduleQuoteCheck,
+} from "./utils/amortization";
 export type {
   UseCostComparisonResult,
   InsuranceEstimateData,
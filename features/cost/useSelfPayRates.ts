@@ -55,7 +55,7 @@ export interface UseSelfPayRatesResult {
  *
  *   return (
  *     <div>
- *       <p>Base rate: ${selfPayRates.perSessionRate / 100}</p>
+ *       <p>Base rate: {formatMoney(selfPayRates.perSessionRate)}</p>
  *       {selfPayRates.packages.map(pkg => (
  *         <PackageCard key={pkg.id} package={pkg} />
  *       ))}
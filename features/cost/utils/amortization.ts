@@ -0,0 +1,301 @@
+/**
+ * Payment Plan Amortization
+ *
+ * Builds month-by-month payment schedules for the payment plan options so
+ * families can see where each payment goes, compare plans, and try
+ * "what if" session counts. The backend quote (`monthlyAmount`,
+ * `totalAmount`) stays the source of truth; schedules are checked against
+ * it so the UI can say when an estimate doesn't line up.
+ *
+ * Interest is amortized on the declining balance at the plan's annual
+ * rate. Whatever part of the plan's `feeAmount` (fees and interest
+ * combined) isn't interest is treated as service fees and spread evenly.
+ * All amounts are Money, so every schedule sums exactly to its totals.
+ *
+ * @module features/cost/utils/amortization
+ */
+
+import {
+  absMoney,
+  addMoney,
+  allocateMoney,
+  compareMoney,
+  moneyFromCents,
+  multiplyMoney,
+  percentOfMoney,
+  roundHalfEven,
+  subtractMoney,
+  sumMoney,
+  zeroMoney,
+  type Money,
+} from "@/lib/utils/money";
+
+/**
+ * Terms of a payment plan option
+ * @param durationMonths - Number of monthly payments (0 or 1 for paying upfront)
+ * @param interestRate - Annual interest rate as a percentage (e.g., 5 for 5%)
+ * @param feeAmount - Total fees and interest the plan adds
+ * @param upfrontDiscount - Percentage off for paying upfront, if offered
+ * @param monthlyAmount - Monthly payment quoted by the backend
+ * @param totalAmount - Total quoted by the backend
+ */
+export interface PaymentPlanTerms {
+  durationMonths: number;
+  interestRate: number;
+  feeAmount: Money;
+  upfrontDiscount: number | null;
+  monthlyAmount: Money;
+  totalAmount: Money;
+}
+
+/**
+ * One payment in a schedule
+ * @param month - Payment number (1-based)
+ * @param payment - Amount due this month
+ * @param principal - Part of the payment that reduces the balance
+ * @param interest - Interest charged this month
+ * @param fees - Service fees charged this month
+ * @param remainingBalance - Principal still owed after this payment
+ */
+export interface AmortizationRow {
+  month: number;
+  payment: Money;
+  principal: Money;
+  interest: Money;
+  fees: Money;
+  remainingBalance: Money;
+}
+
+/**
+ * Month-by-month schedule for one plan
+ * @param rows - One row per payment
+ * @param cost - Cost of care before any discount
+ * @param discount - Upfront discount taken off the cost
+ * @param amountFinanced - Cost after the discount
+ * @param totalInterest - Interest over the life of the plan
+ * @param totalFees - Service fees over the life of the plan
+ * @param totalPaid - Sum of every payment
+ * @param monthlyPayment - Regular monthly payment (the first payment)
+ */
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  cost: Money;
+  discount: Money;
+  amountFinanced: Money;
+  totalInterest: Money;
+  totalFees: Money;
+  totalPaid: Money;
+  monthlyPayment: Money;
+}
+
+/**
+ * How a schedule lines up with the backend quote
+ * @param matchesQuote - Whether both differences are within rounding
+ * @param monthlyDifference - Schedule monthly payment minus the quoted one
+ * @param totalDifference - Schedule total minus the quoted total
+ */
+export interface ScheduleQuoteCheck {
+  matchesQuote: boolean;
+  monthlyDifference: Money;
+  totalDifference: Money;
+}
+
+type ScheduleTerms = Pick<
+  PaymentPlanTerms,
+  "durationMonths" | "interestRate" | "feeAmount" | "upfrontDiscount"
+>;
+
+/**
+ * Number of payments for a plan (upfront plans are a single payment)
+ */
+export function getPaymentCount(terms: Pick<PaymentPlanTerms, "durationMonths">): number {
+  return Math.max(1, Math.floor(terms.durationMonths));
+}
+
+/**
+ * Splits the amount financed into monthly principal and interest
+ *
+ * Uses a level payment at the monthly rate, with the last payment
+ * clearing whatever balance rounding left behind.
+ */
+function amortizePrincipal(
+  amountFinanced: Money,
+  payments: number,
+  annualRate: number
+): { principal: Money[]; interest: Money[] } {
+  const monthlyRate = annualRate / 100 / 12;
+
+  if (monthlyRate <= 0 || payments === 1) {
+    return {
+      principal: allocateMoney(amountFinanced, payments),
+      interest: Array.from({ length: payments }, () => zeroMoney(amountFinanced.currency)),
+    };
+  }
+
+  const levelPayment = roundHalfEven(
+    (amountFinanced.cents * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -payments))
+  );
+  const principal: Money[] = [];
+  const interest: Money[] = [];
+  let balance = amountFinanced.cents;
+
+  for (let month = 1; month <= payments; month++) {
+    const monthInterest = roundHalfEven(balance * monthlyRate);
+    const monthPrincipal =
+      month === payments ? balance : Math.min(balance, levelPayment - monthInterest);
+
+    interest.push(moneyFromCents(monthInterest, amountFinanced.currency));
+    principal.push(moneyFromCents(monthPrincipal, amountFinanced.currency));
+    balance -= monthPrincipal;
+  }
+
+  return { principal, interest };
+}
+
+/**
+ * Builds the month-by-month schedule for a plan
+ *
+ * @param cost - Cost of care the plan spreads out
+ * @param terms - Plan terms (duration, rate, fees, upfront discount)
+ * @returns Schedule whose rows sum exactly to its totals
+ *
+ * @example
+ * const schedule = buildAmortizationSchedule(moneyFromDollars(1800), {
+ *   durationMonths: 6,
+ *   interestRate: 0,
+ *   feeAmount: moneyFromDollars(30),
+ *   upfrontDiscount: null,
+ * });
+ * schedule.monthlyPayment // $305.00
+ * schedule.totalPaid      // $1,830.00
+ */
+export function buildAmortizationSchedule(
+  cost: Money,
+  terms: ScheduleTerms
+): AmortizationSchedule {
+  const payments = getPaymentCount(terms);
+  const discount = terms.upfrontDiscount
+    ? percentOfMoney(cost, terms.upfrontDiscount)
+    : zeroMoney(cost.currency);
+  const amountFinanced = subtractMoney(cost, discount);
+
+  const { principal, interest } = amortizePrincipal(amountFinanced, payments, terms.interestRate);
+  const totalInterest = sumMoney(interest, cost.currency);
+
+  // feeAmount covers interest too; the rest is service fees
+  const serviceFees = subtractMoney(terms.feeAmount, totalInterest);
+  const totalFees = serviceFees.cents > 0 ? serviceFees : zeroMoney(cost.currency);
+  const fees = allocateMoney(totalFees, payments);
+
+  let remainingBalance = amountFinanced;
+  const rows = principal.map((monthPrincipal, index): AmortizationRow => {
+    remainingBalance = subtractMoney(remainingBalance, monthPrincipal);
+    return {
+      month: index + 1,
+      payment: sumMoney([monthPrincipal, interest[index], fees[index]]),
+      principal: monthPrincipal,
+      interest: interest[index],
+      fees: fees[index],
+      remainingBalance,
+    };
+  });
+
+  return {
+    rows,
+    cost,
+    discount,
+    amountFinanced,
+    totalInterest,
+    totalFees,
+    totalPaid: sumMoney(
+      rows.map((row) => row.payment),
+      cost.currency
+    ),
+    monthlyPayment: rows[0].payment,
+  };
+}
+
+/**
+ * Checks a schedule against the backend's quote for the plan
+ *
+ * Allows a cent per payment on the total and a cent on the monthly
+ * payment, since the backend rounds its own split.
+ *
+ * @param schedule - Schedule built for the quoted cost
+ * @param terms - Plan terms with the quoted amounts
+ * @returns Differences and whether they are within rounding
+ */
+export function checkScheduleAgainstQuote(
+  schedule: AmortizationSchedule,
+  terms: PaymentPlanTerms
+): ScheduleQuoteCheck {
+  const monthlyDifference = subtractMoney(schedule.monthlyPayment, terms.monthlyAmount);
+  const totalDifference = subtractMoney(schedule.totalPaid, terms.totalAmount);
+
+  return {
+    matchesQuote:
+      absMoney(monthlyDifference).cents <= 1 &&
+      absMoney(totalDifference).cents <= schedule.rows.length,
+    monthlyDifference,
+    totalDifference,
+  };
+}
+
+/**
+ * Rescales plan terms to a different cost of care
+ *
+ * Rate, discount and duration carry over; fees are assumed to grow with
+ * the cost, so they keep the same share of it. Used for what-ifs, where
+ * the backend hasn't quoted the new cost.
+ *
+ * @param terms - Terms quoted for quotedCost
+ * @param quotedCost - Cost the backend quoted
+ * @param cost - Cost to estimate for
+ * @returns Terms for the new cost (without a backend quote to check against)
+ */
+export function scaleTermsToCost(
+  terms: PaymentPlanTerms,
+  quotedCost: Money,
+  cost: Money
+): ScheduleTerms {
+  const ratio = quotedCost.cents > 0 ? cost.cents / quotedCost.cents : 0;
+  return {
+    durationMonths: terms.durationMonths,
+    interestRate: terms.interestRate,
+    feeAmount: multiplyMoney(terms.feeAmount, ratio),
+    upfrontDiscount: terms.upfrontDiscount,
+  };
+}
+
+/**
+ * Cost of care for a number of sessions
+ *
+ * @example
+ * estimateCostForSessions(moneyFromDollars(150), 12) // $1,800.00
+ */
+export function estimateCostForSessions(perSessionCost: Money, sessions: number): Money {
+  return multiplyMoney(perSessionCost, Math.max(0, Math.floor(sessions)));
+}
+
+/**
+ * Picks the schedule with the lowest total, earliest first on ties
+ *
+ * @param schedules - Schedules keyed by plan ID
+ * @returns ID of the cheapest plan, or null if there are none
+ */
+export function findLowestTotal(schedules: Record<string, AmortizationSchedule>): string | null {
+  let lowest: string | null = null;
+  for (const [planId, schedule] of Object.entries(schedules)) {
+    if (lowest === null || compareMoney(schedule.totalPaid, schedules[lowest].totalPaid) < 0) {
+      lowest = planId;
+    }
+  }
+  return lowest;
+}
+
+/**
+ * Sum of interest and fees for a schedule
+ */
+export function getFinanceCharges(schedule: AmortizationSchedule): Money {
+  return addMoney(schedule.totalInterest, schedule.totalFees);
+}
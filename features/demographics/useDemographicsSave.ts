@@ -10,6 +10,7 @@
 import * as React from "react";
 import { gql } from "@apollo/client";
 import { useMutation } from "@apollo/client/react";
+import { saveOnboardingData } from "@/lib/onboarding-store";
 
 /**
  * GraphQL mutation for submitting parent/guardian information
@@ -263,7 +264,7 @@ export function useDemographicsSave({
         setParentSaveStatus("saved");
         onParentSaveSuccess?.();
 
-        // Also save to localStorage for backup
+        // Also save a local copy for backup
         saveToLocalStorage("parent", data);
 
         // Reset status after brief success indication
@@ -322,7 +323,7 @@ export function useDemographicsSave({
         setChildSaveStatus("saved");
         onChildSaveSuccess?.();
 
-        // Also save to localStorage for backup
+        // Also save a local copy for backup
         saveToLocalStorage("child", data);
 
         // Reset status after brief success indication
@@ -341,17 +342,12 @@ export function useDemographicsSave({
   );
 
   /**
-   * Save data to localStorage for backup/resume functionality
+   * Save data to the onboarding store for backup/resume functionality
    */
   const saveToLocalStorage = React.useCallback(
     (type: "parent" | "child", data: ParentInfoData | ChildInfoData) => {
       try {
-        const storageKey = `onboarding_session_${sessionId}`;
-        const existing = localStorage.getItem(storageKey);
-        const parsed = existing ? JSON.parse(existing) : { data: {} };
-        parsed.data[type] = data;
-        parsed.savedAt = new Date().toISOString();
-        localStorage.setItem(storageKey, JSON.stringify(parsed));
+        saveOnboardingData(sessionId, { [type]: data });
       } catch (storageError) {
         console.warn("Failed to save to localStorage:", storageError);
       }
@@ -11,6 +11,8 @@
  * - Permission state handling with helpful messaging
  * - Retake/confirm flow before submission
  * - High-resolution capture for OCR quality
+ * - Live quality guidance (framing, lighting, glare, blur) while aiming
+ * - Quality gate, perspective crop and recompression before confirming
  * - Responsive design for various screen sizes
  */
 "use client";
@@ -28,6 +30,12 @@ import {
   DialogDescription,
   DialogClose,
 } from "@/components/ui/dialog";
+import {
+  CARD_QUALITY_GUIDANCE,
+  analyzeCardFrame,
+  prepareCardImage,
+  type CardQualityReport,
+} from "./cardImageQuality";
 
 /**
  * Camera permission states
@@ -57,8 +65,15 @@ const COLORS = {
   teal: "#4A9B9B",
   tealLight: "#E8F4F4",
   error: "#E85D5D",
+  success: "#10B981",
+  warning: "#B45309",
 };
 
+/**
+ * How often the live video frame is checked for quality (ms)
+ */
+const LIVE_ANALYSIS_INTERVAL_MS = 500;
+
 /**
  * Checks if the browser supports getUserMedia
  */
@@ -98,9 +113,11 @@ async function canvasToFile(canvas: HTMLCanvasElement, filename: string): Promis
  * Flow:
  * 1. User opens modal → camera permission requested
  * 2. Live video preview displayed with card guide
- * 3. User clicks capture → frame frozen for review
- * 4. User confirms → image returned as File
- * 5. User can retake if needed
+ * 3. Live guidance tells the user how to fix framing, lighting or glare
+ * 4. User clicks capture → frame checked, cropped to the card and frozen
+ * 5. If the photo fails the quality check, guidance is shown and the user
+ *    retakes (or chooses to use it anyway)
+ * 6. User confirms → cropped, recompressed image returned as File
  *
  * Accessibility:
  * - Keyboard navigable controls
@@ -129,6 +146,10 @@ export function CameraCapture({
   const [permission, setPermission] = React.useState<PermissionState>("checking");
   const [isCapturing, setIsCapturing] = React.useState(false);
   const [capturedImage, setCapturedImage] = React.useState<string | null>(null);
+  const [capturedFile, setCapturedFile] = React.useState<File | null>(null);
+  const [captureReport, setCaptureReport] = React.useState<CardQualityReport | null>(null);
+  const [liveReport, setLiveReport] = React.useState<CardQualityReport | null>(null);
+  const [acceptedAnyway, setAcceptedAnyway] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
 
   /**
@@ -223,51 +244,82 @@ export function CameraCapture({
     // Draw the video frame (not mirrored for document capture)
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-    // Convert to data URL for preview
-    const dataUrl = canvas.toDataURL("image/jpeg", 0.92);
-    setCapturedImage(dataUrl);
-    setIsCapturing(false);
-
     // Stop the camera after capture
     stopCamera();
-  }, [stopCamera]);
-
-  /**
-   * Confirms the captured image and returns it
-   */
-  const confirmCapture = React.useCallback(async () => {
-    if (!canvasRef.current) return;
+    setLiveReport(null);
+    setAcceptedAnyway(false);
 
     try {
-      const file = await canvasToFile(
-        canvasRef.current,
+      // Check quality, crop to the card and recompress before review
+      const prepared = await prepareCardImage(
+        { source: canvas, width: canvas.width, height: canvas.height },
         `insurance-${captureLabel.replace(/\s+/g, "-")}-${Date.now()}.jpg`
       );
-      onCapture(file);
-      handleClose();
+      setCapturedFile(prepared.file);
+      setCaptureReport(prepared.report);
+      setCapturedImage(URL.createObjectURL(prepared.file));
     } catch {
-      setError("Failed to process image. Please try again.");
+      // Fall back to the raw frame if processing isn't available
+      setCapturedFile(null);
+      setCaptureReport(null);
+      setCapturedImage(canvas.toDataURL("image/jpeg", 0.92));
     }
-  }, [captureLabel, onCapture]);
+
+    setIsCapturing(false);
+  }, [captureLabel, stopCamera]);
+
+  /**
+   * Clears the captured photo and its preview URL
+   */
+  const clearCapture = React.useCallback(() => {
+    setCapturedImage((previous) => {
+      if (previous?.startsWith("blob:")) URL.revokeObjectURL(previous);
+      return null;
+    });
+    setCapturedFile(null);
+    setCaptureReport(null);
+    setAcceptedAnyway(false);
+  }, []);
 
   /**
    * Retakes the photo
    */
   const retakePhoto = React.useCallback(() => {
-    setCapturedImage(null);
+    clearCapture();
     startCamera();
-  }, [startCamera]);
+  }, [clearCapture, startCamera]);
 
   /**
    * Handles modal close with cleanup
    */
   const handleClose = React.useCallback(() => {
     stopCamera();
-    setCapturedImage(null);
+    clearCapture();
+    setLiveReport(null);
     setError(null);
     setPermission("checking");
     onClose();
-  }, [stopCamera, onClose]);
+  }, [stopCamera, clearCapture, onClose]);
+
+  /**
+   * Confirms the captured image and returns it
+   */
+  const confirmCapture = React.useCallback(async () => {
+    if (!canvasRef.current) return;
+
+    try {
+      const file =
+        capturedFile ??
+        (await canvasToFile(
+          canvasRef.current,
+          `insurance-${captureLabel.replace(/\s+/g, "-")}-${Date.now()}.jpg`
+        ));
+      onCapture(file);
+      handleClose();
+    } catch {
+      setError("Failed to process image. Please try again.");
+    }
+  }, [captureLabel, capturedFile, onCapture, handleClose]);
 
   // Start camera when modal opens
   React.useEffect(() => {
@@ -275,13 +327,43 @@ export function CameraCapture({
       startCamera();
     } else {
       stopCamera();
-      setCapturedImage(null);
+      clearCapture();
     }
 
     return () => {
       stopCamera();
     };
-  }, [open, startCamera, stopCamera]);
+  }, [open, startCamera, stopCamera, clearCapture]);
+
+  // Check the live frame periodically for guidance while aiming
+  React.useEffect(() => {
+    if (!open || permission !== "granted" || capturedImage) return;
+
+    const intervalId = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+
+      setLiveReport(
+        analyzeCardFrame({
+          source: video,
+          width: video.videoWidth,
+          height: video.videoHeight,
+        })
+      );
+    }, LIVE_ANALYSIS_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [open, permission, capturedImage]);
+
+  const liveIssue = liveReport?.issues[0];
+  const guideColor = liveReport?.isAcceptable ? COLORS.success : COLORS.teal;
+  const guideText = !liveReport
+    ? "Align card within the frame"
+    : liveIssue
+      ? CARD_QUALITY_GUIDANCE[liveIssue]
+      : "Looks good - hold steady";
+  const captureIssues = captureReport?.issues ?? [];
+  const needsRetake = captureIssues.length > 0 && !acceptedAnyway;
 
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
@@ -387,31 +469,34 @@ export function CameraCapture({
                           {/* Card outline */}
                           <div
                             className="absolute inset-0 rounded-xl border-2 border-dashed"
-                            style={{ borderColor: COLORS.teal }}
+                            style={{ borderColor: guideColor }}
                           />
                           {/* Corner markers */}
                           <div
                             className="absolute top-0 left-0 w-6 h-6 border-t-4 border-l-4 rounded-tl-xl"
-                            style={{ borderColor: COLORS.teal }}
+                            style={{ borderColor: guideColor }}
                           />
                           <div
                             className="absolute top-0 right-0 w-6 h-6 border-t-4 border-r-4 rounded-tr-xl"
-                            style={{ borderColor: COLORS.teal }}
+                            style={{ borderColor: guideColor }}
                           />
                           <div
                             className="absolute bottom-0 left-0 w-6 h-6 border-b-4 border-l-4 rounded-bl-xl"
-                            style={{ borderColor: COLORS.teal }}
+                            style={{ borderColor: guideColor }}
                           />
                           <div
                             className="absolute bottom-0 right-0 w-6 h-6 border-b-4 border-r-4 rounded-br-xl"
-                            style={{ borderColor: COLORS.teal }}
+                            style={{ borderColor: guideColor }}
                           />
                         </div>
                       </div>
                       {/* Guide text */}
                       <div className="absolute bottom-4 left-0 right-0 text-center">
-                        <p className="text-white text-sm font-medium drop-shadow-lg bg-black/30 inline-block px-3 py-1 rounded-full">
-                          Align card within the frame
+                        <p
+                          className="text-white text-sm font-medium drop-shadow-lg bg-black/30 inline-block px-3 py-1 rounded-full"
+                          aria-live="polite"
+                        >
+                          {guideText}
                         </p>
                       </div>
                     </div>
@@ -420,6 +505,29 @@ export function CameraCapture({
               )}
             </div>
 
+            {/* Quality check result for the captured photo */}
+            {capturedImage && needsRetake && (
+              <div
+                className="space-y-1 p-3 rounded-lg text-sm"
+                style={{ backgroundColor: "#FEF3C7", color: COLORS.warning }}
+                role="alert"
+              >
+                <p className="font-medium">This photo may not scan well:</p>
+                <ul className="list-disc pl-5">
+                  {captureIssues.map((issue) => (
+                    <li key={issue}>{CARD_QUALITY_GUIDANCE[issue]}</li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={() => setAcceptedAnyway(true)}
+                  className="underline underline-offset-2 hover:opacity-80"
+                >
+                  Use it anyway
+                </button>
+              </div>
+            )}
+
             {/* Action buttons */}
             <div className="flex gap-3 pt-2">
               {capturedImage ? (
@@ -438,6 +546,7 @@ export function CameraCapture({
                     type="button"
                     className="flex-1 h-11 bg-daybreak-teal hover:bg-daybreak-teal/90 text-white shadow-lg shadow-teal-900/10"
                     onClick={confirmCapture}
+                    disabled={needsRetake}
                   >
                     <Check className="w-4 h-4 mr-2" />
                     Use This Photo
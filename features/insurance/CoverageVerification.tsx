@@ -0,0 +1,258 @@
+/**
+ * CoverageVerification component for the "Verify my coverage" step
+ *
+ * Lets parents check their coverage with the payer right after saving
+ * their insurance details:
+ * - Explicit "Verify my coverage" button to start the check
+ * - Live progress streamed from the backend while the payer is contacted
+ * - Verified result, noting when it came from a recent check
+ * - On failure: why it happened, next steps and who to contact
+ * - Limited retries with a growing wait between them
+ *
+ * Security: Only verification results are shown; no PHI is logged.
+ */
+"use client";
+
+import * as React from "react";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  Loader2,
+  Mail,
+  Phone,
+  RefreshCw,
+  ShieldCheck,
+} from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  useEligibilityVerification,
+  type EligibilityResult,
+  type UseEligibilityVerificationReturn,
+  type VerificationSupportContact,
+} from "./useEligibilityVerification";
+
+/**
+ * Props for CoverageVerification component
+ * @param sessionId - Current onboarding session ID
+ * @param insuranceId - Saved insurance record to verify
+ * @param carrierName - Carrier display name for the prompt
+ * @param onComplete - Callback fired when a check finishes
+ * @param className - Optional additional CSS classes
+ */
+export interface CoverageVerificationProps {
+  sessionId: string;
+  insuranceId: string;
+  carrierName?: string;
+  onComplete?: (result: EligibilityResult) => void;
+  className?: string;
+}
+
+/**
+ * Support contact details for failed checks
+ */
+function SupportContactDetails({ contact }: { contact: VerificationSupportContact }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-foreground">
+        {contact.type === "specialist" ? "Talk to an insurance specialist" : "Need help?"}
+      </h4>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <a
+          href={`tel:${contact.phone}`}
+          className="flex items-center gap-2 rounded-lg border border-border bg-white px-3 py-2 text-sm hover:bg-gray-50"
+        >
+          <Phone className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+          <span>{contact.phone}</span>
+        </a>
+        <a
+          href={`mailto:${contact.email}`}
+          className="flex items-center gap-2 rounded-lg border border-border bg-white px-3 py-2 text-sm hover:bg-gray-50"
+        >
+          <Mail className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+          <span>{contact.email}</span>
+        </a>
+      </div>
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Clock className="h-3 w-3" aria-hidden="true" />
+        {contact.hours}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Retry button with the backoff countdown and remaining attempts
+ */
+function RetryControls({
+  canRetry,
+  retriesLeft,
+  retryInSeconds,
+  onRetry,
+}: Pick<UseEligibilityVerificationReturn, "canRetry" | "retriesLeft" | "retryInSeconds"> & {
+  onRetry: () => void;
+}) {
+  if (!canRetry) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        We can&apos;t check again right now. You can continue and our team will follow up
+        about your coverage.
+      </p>
+    );
+  }
+
+  const waiting = retryInSeconds > 0;
+
+  return (
+    <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:gap-3">
+      <Button variant="outline" onClick={onRetry} disabled={waiting} className="gap-2">
+        <RefreshCw className="h-4 w-4" aria-hidden="true" />
+        {waiting ? `Try again in ${retryInSeconds}s` : "Try again"}
+      </Button>
+      <span className="text-xs text-muted-foreground">
+        {retriesLeft === 1 ? "1 try left" : `${retriesLeft} tries left`}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Renders the coverage verification step
+ *
+ * Visual specs:
+ * - Teal progress bar while verifying
+ * - Green panel for verified coverage
+ * - Amber panel with explanation, next steps and support for failures
+ *
+ * Accessibility:
+ * - Progress announced politely via role="status"
+ * - Failure details announced via role="alert"
+ * - Retry button shows the countdown in its label
+ *
+ * @example
+ * <CoverageVerification
+ *   sessionId={sessionId}
+ *   insuranceId={insuranceInfo.id}
+ *   carrierName="Aetna"
+ *   onComplete={(result) => setStatus(result.status)}
+ * />
+ */
+export function CoverageVerification({
+  sessionId,
+  insuranceId,
+  carrierName,
+  onComplete,
+  className,
+}: CoverageVerificationProps) {
+  const verification = useEligibilityVerification({ sessionId, insuranceId, onComplete });
+  const { state, progress, cached, result, error } = verification;
+
+  if (state === "idle") {
+    return (
+      <div className={cn("rounded-lg border border-border p-4 space-y-3", className)}>
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Verify your coverage</h3>
+          <p className="text-sm text-muted-foreground">
+            We&apos;ll check your plan with {carrierName || "your insurance company"}. This usually
+            takes less than a minute.
+          </p>
+        </div>
+        <Button
+          onClick={() => void verification.verify()}
+          className="gap-2 bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+        >
+          <ShieldCheck className="h-4 w-4" aria-hidden="true" />
+          Verify my coverage
+        </Button>
+      </div>
+    );
+  }
+
+  if (state === "verifying") {
+    const percentage = progress?.percentage ?? 0;
+    return (
+      <div className={cn("rounded-lg border border-border p-4 space-y-3", className)}>
+        <div role="status" aria-live="polite" className="flex items-center gap-2 text-sm">
+          <Loader2 className="h-4 w-4 text-daybreak-teal animate-spin" aria-hidden="true" />
+          <span>{progress?.message || "Starting verification..."}</span>
+        </div>
+        <Progress
+          value={percentage}
+          aria-label="Coverage verification progress"
+          indicatorClassName="bg-daybreak-teal"
+        />
+      </div>
+    );
+  }
+
+  if (state === "verified" && result) {
+    return (
+      <div
+        className={cn("rounded-lg border border-emerald-200 bg-emerald-50 p-4 space-y-1", className)}
+        role="status"
+      >
+        <p className="flex items-center gap-2 text-sm font-semibold text-emerald-800">
+          <CheckCircle2 className="h-4 w-4" aria-hidden="true" />
+          {result.statusLabel || "Coverage verified"}
+        </p>
+        {result.message && <p className="text-sm text-emerald-800">{result.message}</p>}
+        {cached && (
+          <p className="text-xs text-emerald-700">Based on a check from the last 24 hours.</p>
+        )}
+      </div>
+    );
+  }
+
+  // Failed check, or a check that couldn't be run
+  const failedResult = state === "failed" ? result : null;
+
+  return (
+    <div
+      className={cn("rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-4", className)}
+    >
+      <div role="alert" className="space-y-1">
+        <p className="flex items-center gap-2 text-sm font-semibold text-amber-900">
+          <AlertCircle className="h-4 w-4" aria-hidden="true" />
+          {failedResult?.statusLabel || "We couldn't verify your coverage"}
+        </p>
+        <p className="text-sm text-amber-900">
+          {failedResult ? failedResult.message : error?.message}
+        </p>
+      </div>
+
+      {failedResult?.whyExplanation && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-foreground">Why this happened</h4>
+          <p className="text-sm text-muted-foreground">{failedResult.whyExplanation}</p>
+        </div>
+      )}
+
+      {failedResult && failedResult.nextSteps.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-foreground">What you can do</h4>
+          <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+            {failedResult.nextSteps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {failedResult?.supportContact && (
+        <SupportContactDetails contact={failedResult.supportContact} />
+      )}
+
+      <RetryControls
+        canRetry={verification.canRetry}
+        retriesLeft={verification.retriesLeft}
+        retryInSeconds={verification.retryInSeconds}
+        onRetry={() => void verification.retry()}
+      />
+    </div>
+  );
+}
+
+CoverageVerification.displayName = "CoverageVerification";
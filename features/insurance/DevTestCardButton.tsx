@@ -25,6 +25,7 @@ import { useState } from "react";
 import { CreditCard, Loader2, Check, Camera } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { readSessionData, writeSessionData } from "@/lib/storage";
 
 /**
  * Test card configuration type
@@ -155,8 +156,7 @@ export function DevTestCardButton({
 
       // Update localStorage with test insurance data
       try {
-        const storageKey = `onboarding_session_${sessionId}`;
-        const stored = localStorage.getItem(storageKey);
+        const stored = readSessionData(sessionId);
         const sessionData = stored ? JSON.parse(stored) : { data: {} };
 
         // Update insurance data
@@ -179,16 +179,8 @@ export function DevTestCardButton({
         };
         sessionData.savedAt = new Date().toISOString();
 
-        localStorage.setItem(storageKey, JSON.stringify(sessionData));
-
-        // Dispatch storage event for same-tab detection
-        window.dispatchEvent(
-          new StorageEvent("storage", {
-            key: storageKey,
-            newValue: JSON.stringify(sessionData),
-            storageArea: localStorage,
-          })
-        );
+        // Subscribers are notified by the store
+        writeSessionData(sessionId, JSON.stringify(sessionData));
       } catch (err) {
         console.error("Failed to update localStorage:", err);
       }
@@ -3,7 +3,8 @@
  *
  * Renders a drag-and-drop upload area for front (required) and back (optional)
  * insurance card images. Supports camera capture on mobile devices and OCR
- * auto-extraction to pre-fill form fields.
+ * auto-extraction to pre-fill form fields. Photos are quality-checked and
+ * cropped to the card before they can be scanned.
  */
 "use client";
 
@@ -15,10 +16,12 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import {
   useInsuranceCardUpload,
+  type CardSide,
   type OcrExtractedData,
   type OcrConfidenceData,
 } from "./useInsuranceCardUpload";
 import { CameraCapture } from "./CameraCapture";
+import { CARD_QUALITY_GUIDANCE, type CardQualityIssue } from "./cardImageQuality";
 import { DevTestCardButton } from "./DevTestCardButton";
 
 // Re-export types for external consumers
@@ -48,8 +51,50 @@ const COLORS = {
   success: "#10B981",
   border: "#E5E7EB",
   borderHover: "#4A9B9B",
+  warning: "#B45309",
+  warningLight: "#FEF3C7",
 };
 
+/**
+ * Quality guidance shown under a card photo that may not scan well
+ */
+function QualityNotice({
+  side,
+  issues,
+  onAccept,
+}: {
+  side: CardSide;
+  issues: CardQualityIssue[];
+  onAccept: (side: CardSide) => void;
+}) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div
+      className="space-y-1 p-3 rounded-lg text-sm"
+      style={{ backgroundColor: COLORS.warningLight, color: COLORS.warning }}
+      role="alert"
+    >
+      <p className="font-medium">This photo may not scan well:</p>
+      <ul className="list-disc pl-5">
+        {issues.map((issue) => (
+          <li key={issue}>{CARD_QUALITY_GUIDANCE[issue]}</li>
+        ))}
+      </ul>
+      <p>
+        Remove it to retake, or{" "}
+        <button
+          type="button"
+          onClick={() => onAccept(side)}
+          className="underline underline-offset-2 hover:opacity-80"
+        >
+          use it anyway
+        </button>
+      </p>
+    </div>
+  );
+}
+
 /**
  * Renders insurance card upload interface with OCR support
  *
@@ -144,8 +189,12 @@ export function InsuranceCardUpload({
     backPreviewUrl,
     ocrData,
     error,
+    frontQualityIssues,
+    backQualityIssues,
+    isCheckingQuality,
     setFrontImage,
     setBackImage,
+    acceptImageQuality,
     uploadImages,
     reset,
     clearError,
@@ -219,7 +268,9 @@ export function InsuranceCardUpload({
   const isProcessing = status === "processing";
   const isComplete = status === "complete" || status === "needs_review";
   const hasError = status === "error";
-  const canUpload = frontImage && !isUploading && !isProcessing;
+  const hasQualityIssues = frontQualityIssues.length > 0 || backQualityIssues.length > 0;
+  const canUpload =
+    frontImage && !isUploading && !isProcessing && !isCheckingQuality && !hasQualityIssues;
 
   return (
     <div className={cn("space-y-4", className)}>
@@ -394,6 +445,7 @@ export function InsuranceCardUpload({
               </div>
             )}
           </div>
+          <QualityNotice side="front" issues={frontQualityIssues} onAccept={acceptImageQuality} />
         </div>
 
         {/* Back card upload (optional) */}
@@ -515,6 +567,7 @@ export function InsuranceCardUpload({
               </div>
             )}
           </div>
+          <QualityNotice side="back" issues={backQualityIssues} onAccept={acceptImageQuality} />
         </div>
       </div>
 
@@ -552,6 +605,11 @@ export function InsuranceCardUpload({
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
               {isUploading ? "Uploading..." : "Scanning..."}
             </>
+          ) : isCheckingQuality ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Checking photo...
+            </>
           ) : isComplete ? (
             <>
               <Check className="w-4 h-4 mr-2" />
@@ -619,10 +677,11 @@ export function InsuranceCardUpload({
         open={cameraModalTarget !== null}
         onClose={() => setCameraModalTarget(null)}
         onCapture={(file) => {
+          // Camera photos were already checked and cropped in the capture modal
           if (cameraModalTarget === "front") {
-            setFrontImage(file);
+            setFrontImage(file, { skipQualityCheck: true });
           } else if (cameraModalTarget === "back") {
-            setBackImage(file);
+            setBackImage(file, { skipQualityCheck: true });
           }
           setCameraModalTarget(null);
         }}
@@ -6,6 +6,7 @@
  * - Masked member ID for PHI protection (****XXXX format)
  * - Edit functionality to return to form with preserved data
  * - Error handling with retry option
+ * - "Verify my coverage" step with live eligibility verification
  *
  * Security: Member IDs are masked and never logged to console.
  */
@@ -26,11 +27,14 @@ import {
 } from "@/components/ui/card";
 import { getCarrierById } from "@/lib/data/insurance-carriers";
 import { maskMemberId, formatVerificationStatus } from "./utils";
+import { CoverageVerification } from "./CoverageVerification";
 import type { InsuranceInformation } from "./useInsurance";
+import type { EligibilityResult } from "./useEligibilityVerification";
 
 /**
  * Props for InsuranceConfirmation component
  * @param insuranceInfo - Insurance information to display
+ * @param sessionId - Session ID; enables the coverage verification step
  * @param isLoading - Whether initial data is loading
  * @param isSaving - Whether a save/submit operation is in progress
  * @param error - Error object if submission failed
@@ -40,6 +44,7 @@ import type { InsuranceInformation } from "./useInsurance";
  */
 export interface InsuranceConfirmationProps {
   insuranceInfo: InsuranceInformation | null;
+  sessionId?: string;
   isLoading?: boolean;
   isSaving?: boolean;
   error?: Error | null;
@@ -172,6 +177,7 @@ function ConfirmationRow({
  * @example
  * <InsuranceConfirmation
  *   insuranceInfo={insuranceData}
+ *   sessionId={sessionId}
  *   isSaving={false}
  *   onEdit={() => setShowForm(true)}
  *   onContinue={() => router.push('/matching')}
@@ -179,6 +185,7 @@ function ConfirmationRow({
  */
 export function InsuranceConfirmation({
   insuranceInfo,
+  sessionId,
   isLoading = false,
   isSaving = false,
   error = null,
@@ -186,6 +193,9 @@ export function InsuranceConfirmation({
   onRetry,
   onContinue,
 }: InsuranceConfirmationProps) {
+  // Result of the verification step, once it has run
+  const [verification, setVerification] = React.useState<EligibilityResult | null>(null);
+
   // Show loading state during initial load or submission
   if (isLoading) {
     return <LoadingState message="Loading insurance information..." />;
@@ -218,7 +228,9 @@ export function InsuranceConfirmation({
   const carrierName = carrier?.name || insuranceInfo.payerName;
 
   // Get verification status display
-  const status = formatVerificationStatus(insuranceInfo.verificationStatus);
+  const status = formatVerificationStatus(
+    verification?.status ?? insuranceInfo.verificationStatus
+  );
 
   // Check if this is self-pay
   const isSelfPay = insuranceInfo.verificationStatus === "self_pay";
@@ -307,6 +319,18 @@ export function InsuranceConfirmation({
           </div>
         )}
 
+        {/* Verify my coverage step */}
+        {!isSelfPay && sessionId && (
+          <CoverageVerification
+            key={insuranceInfo.id}
+            sessionId={sessionId}
+            insuranceId={insuranceInfo.id}
+            carrierName={carrierName}
+            onComplete={setVerification}
+            className="mt-6"
+          />
+        )}
+
         {/* Self-pay message */}
         {isSelfPay && (
           <div className="bg-blue-50 rounded-lg p-4">
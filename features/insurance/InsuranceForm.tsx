@@ -31,6 +31,7 @@ import {
   RELATIONSHIP_TO_SUBSCRIBER_LABELS,
   type InsuranceFormData,
 } from "@/lib/validations/insurance";
+import { normalizeMemberId, validateMemberId } from "@/lib/validations/member-id";
 import {
   INSURANCE_CARRIERS,
   filterCarriers,
@@ -38,7 +39,7 @@ import {
   findCarrierByName,
 } from "@/lib/data/insurance-carriers";
 import { SelfPayModal } from "./SelfPayModal";
-import { useInsurance } from "./useInsurance";
+import { useInsurance, type InsuranceInformation } from "./useInsurance";
 import { InsuranceCardUpload } from "./InsuranceCardUpload";
 import type { OcrExtractedData, OcrConfidenceData } from "./useInsuranceCardUpload";
 
@@ -47,7 +48,7 @@ import type { OcrExtractedData, OcrConfidenceData } from "./useInsuranceCardUplo
  * @param sessionId - Current onboarding session ID
  * @param parentName - Parent's full name for auto-population (AC-4.1.4)
  * @param initialData - Optional pre-filled form data
- * @param onContinue - Callback fired when form is submitted successfully
+ * @param onContinue - Callback fired when form is submitted successfully, with the saved record
  * @param onBack - Callback fired when back button is clicked
  * @param onSelfPay - Callback fired when self-pay is selected
  */
@@ -55,7 +56,7 @@ export interface InsuranceFormProps {
   sessionId: string;
   parentName?: string;
   initialData?: Partial<InsuranceFormData>;
-  onContinue?: (data: InsuranceFormData) => void;
+  onContinue?: (data: InsuranceFormData, insurance: InsuranceInformation | null) => void;
   onBack?: () => void;
   onSelfPay?: () => void;
 }
@@ -83,7 +84,9 @@ const SUCCESS_COLOR = "#10B981";
  *
  * Validation behavior:
  * - Triggers on blur, not keystroke (AC-4.1.5)
- * - Member ID: 5-30 alphanumeric with hyphens (AC-4.1.2)
+ * - Member ID: 5-30 alphanumeric with hyphens (AC-4.1.2), checked against
+ *   the selected carrier's format with a live "looks right" indicator
+ * - Member ID is normalized (spacing, case) on blur and carrier change
  * - Group number: optional, max 30 alphanumeric (AC-4.1.3)
  * - Submit disabled until all fields valid (AC-4.1.7)
  *
@@ -150,6 +153,7 @@ export function InsuranceForm({
     watch,
     trigger,
     setValue,
+    getValues,
     getFieldState,
     reset,
     formState: { errors, isValid, touchedFields, dirtyFields },
@@ -188,8 +192,8 @@ export function InsuranceForm({
   // Insurance hook for submission
   const { submitInsurance, setSelfPay, isSaving } = useInsurance({
     sessionId,
-    onSubmitSuccess: () => {
-      onContinue?.(formValues);
+    onSubmitSuccess: (insurance) => {
+      onContinue?.(formValues, insurance);
     },
     onSelfPaySuccess: () => {
       setIsSelfPayOpen(false);
@@ -285,21 +289,45 @@ export function InsuranceForm({
 
       // Debounce auto-save by 500ms (AC-4.1.8)
       debounceTimerRef.current = setTimeout(() => {
+        // Read latest values so normalization applied on blur is saved
+        const values = getValues();
         // Save the actual form data (PHI protection is handled at logging level, not storage)
         // Data is saved nested under 'insurance' key to match useStorageSync expectations
         save({
           insurance: {
-            carrier: formValues.carrier,
-            memberId: formValues.memberId,
-            groupNumber: formValues.groupNumber || "",
-            subscriberName: formValues.subscriberName,
-            relationshipToSubscriber: formValues.relationshipToSubscriber,
+            carrier: values.carrier,
+            memberId: values.memberId,
+            groupNumber: values.groupNumber || "",
+            subscriberName: values.subscriberName,
+            relationshipToSubscriber: values.relationshipToSubscriber,
           },
         });
         debounceTimerRef.current = null;
       }, 500);
     },
-    [trigger, save, formValues]
+    [trigger, save, getValues]
+  );
+
+  /**
+   * Normalizes the member ID for a carrier and revalidates it
+   * (e.g. "xyz 1234 5678 9" becomes "XYZ123456789" for BCBS)
+   */
+  const normalizeMemberIdField = React.useCallback(
+    (carrierId: string) => {
+      const memberId = getValues("memberId");
+      if (!memberId) return;
+
+      setValue("memberId", normalizeMemberId(memberId, carrierId), {
+        shouldValidate: true,
+      });
+    },
+    [getValues, setValue]
+  );
+
+  // Live carrier format check for the "looks right" indicator
+  const memberIdCheck = React.useMemo(
+    () => validateMemberId(formValues.memberId ?? "", formValues.carrier),
+    [formValues.memberId, formValues.carrier]
   );
 
   /**
@@ -387,6 +415,7 @@ export function InsuranceForm({
                   onValueChange={(value) => {
                     field.onChange(value);
                     setCarrierSearch(""); // Clear search on selection
+                    normalizeMemberIdField(value);
                     setTimeout(() => handleFieldBlur("carrier"), 0);
                   }}
                 >
@@ -469,7 +498,10 @@ export function InsuranceForm({
               aria-describedby={errors.memberId ? "memberId-error" : undefined}
               className={cn("pr-10", errors.memberId && "border-destructive")}
               {...register("memberId", {
-                onBlur: () => handleFieldBlur("memberId"),
+                onBlur: () => {
+                  normalizeMemberIdField(getValues("carrier"));
+                  handleFieldBlur("memberId");
+                },
               })}
             />
             {isFieldValid("memberId") && (
@@ -490,6 +522,16 @@ export function InsuranceForm({
               {errors.memberId.message}
             </p>
           )}
+          {!errors.memberId && selectedCarrier && memberIdCheck.isValid && (
+            <p
+              className="flex items-center gap-1 text-xs"
+              style={{ color: SUCCESS_COLOR }}
+              role="status"
+            >
+              <Check className="h-3 w-3" aria-hidden="true" />
+              Looks right for {selectedCarrier.name}
+            </p>
+          )}
         </div>
 
         {/* Group Number Field (AC-4.1.3 - Optional) */}
@@ -0,0 +1,708 @@
+/**
+ * Client-side image quality pipeline for insurance card photos
+ *
+ * Runs before anything is uploaded so blurry, dark or glare-heavy photos
+ * can be retaken instead of coming back from OCR as needs_review.
+ *
+ * Pipeline:
+ * 1. Downscale the frame to a fixed analysis width
+ * 2. Detect the card's corners from edge pixels
+ * 3. Measure sharpness (Laplacian variance), exposure and glare on the card
+ * 4. Perspective-crop the full-resolution image to the card
+ * 5. Downscale and recompress to a target file size
+ *
+ * The analysis functions are pure and operate on ImageData-like objects.
+ * The canvas functions at the bottom of this file wire them to video
+ * frames and files in the browser.
+ */
+
+/**
+ * Minimal ImageData shape (RGBA, row-major)
+ */
+export interface ImageDataLike {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Point in image coordinates
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Detected card corners
+ */
+export interface CardQuad {
+  topLeft: Point;
+  topRight: Point;
+  bottomRight: Point;
+  bottomLeft: Point;
+}
+
+/**
+ * Problems that should prompt a retake
+ */
+export type CardQualityIssue =
+  | "card_not_found"
+  | "too_dark"
+  | "too_bright"
+  | "glare"
+  | "blurry";
+
+/**
+ * Quality thresholds, measured at the analysis width
+ * @param minSharpness - Minimum Laplacian variance
+ * @param minBrightness - Minimum mean luminance (0-255)
+ * @param maxBrightness - Maximum mean luminance (0-255)
+ * @param maxGlareRatio - Maximum share of blown-out pixels on the card
+ * @param minCardAreaRatio - Minimum share of the frame the card must fill
+ */
+export interface CardQualityThresholds {
+  minSharpness: number;
+  minBrightness: number;
+  maxBrightness: number;
+  maxGlareRatio: number;
+  minCardAreaRatio: number;
+}
+
+/**
+ * Result of assessing a card photo
+ * @param sharpness - Laplacian variance (higher is sharper)
+ * @param brightness - Mean luminance (0-255)
+ * @param glareRatio - Share of pixels at or above the glare level
+ * @param corners - Detected card corners, or null if no card was found
+ * @param issues - Problems found, most important first
+ * @param isAcceptable - True when there are no issues
+ */
+export interface CardQualityReport {
+  sharpness: number;
+  brightness: number;
+  glareRatio: number;
+  corners: CardQuad | null;
+  issues: CardQualityIssue[];
+  isAcceptable: boolean;
+}
+
+/**
+ * Options for assessing a card photo
+ * @param thresholds - Overrides for DEFAULT_QUALITY_THRESHOLDS
+ * @param requireCard - Report card_not_found when no card edges are detected.
+ *   Disable for photos that may already be cropped to the card.
+ */
+export interface AssessCardImageOptions {
+  thresholds?: Partial<CardQualityThresholds>;
+  requireCard?: boolean;
+}
+
+/**
+ * Default quality thresholds
+ */
+export const DEFAULT_QUALITY_THRESHOLDS: CardQualityThresholds = {
+  minSharpness: 100,
+  minBrightness: 60,
+  maxBrightness: 215,
+  maxGlareRatio: 0.03,
+  minCardAreaRatio: 0.2,
+};
+
+/**
+ * Guidance shown for each issue
+ */
+export const CARD_QUALITY_GUIDANCE: Record<CardQualityIssue, string> = {
+  card_not_found: "Fit the whole card inside the frame",
+  too_dark: "Too dark - move somewhere brighter",
+  too_bright: "Too bright - move out of direct light",
+  glare: "Tilt the card slightly to remove glare",
+  blurry: "Hold steady - the photo is blurry",
+};
+
+/**
+ * Width frames are downscaled to before analysis
+ */
+export const ANALYSIS_WIDTH = 480;
+
+/**
+ * ID-1 card aspect ratio (85.60 x 53.98 mm)
+ */
+export const CARD_ASPECT_RATIO = 1.586;
+
+/**
+ * Luminance at or above which a pixel counts as glare
+ */
+const GLARE_LEVEL = 250;
+
+/**
+ * Edge strength (Sobel magnitude) for a pixel to count as a card edge
+ */
+const EDGE_THRESHOLD = 120;
+
+/**
+ * Most extreme edge pixels skipped per corner (isolated sensor noise)
+ */
+const CORNER_OUTLIER_POINTS = 2;
+
+/**
+ * Frame margin ignored by edge detection (sensor noise, vignetting)
+ */
+const EDGE_MARGIN_RATIO = 0.01;
+
+/**
+ * Accepted range for the detected card's aspect ratio
+ */
+const MIN_CARD_ASPECT = 1.25;
+const MAX_CARD_ASPECT = 2.0;
+
+/**
+ * Converts RGBA pixels to luminance (Rec. 601)
+ */
+export function toGrayscale(image: ImageDataLike): Float32Array {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+  return gray;
+}
+
+/**
+ * Axis-aligned bounds used to limit measurements to the card
+ */
+interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Bounding box of a quad, clamped to the image
+ */
+function quadBounds(quad: CardQuad, width: number, height: number): Bounds {
+  const xs = [quad.topLeft.x, quad.topRight.x, quad.bottomRight.x, quad.bottomLeft.x];
+  const ys = [quad.topLeft.y, quad.topRight.y, quad.bottomRight.y, quad.bottomLeft.y];
+  return {
+    left: Math.max(0, Math.floor(Math.min(...xs))),
+    top: Math.max(0, Math.floor(Math.min(...ys))),
+    right: Math.min(width - 1, Math.ceil(Math.max(...xs))),
+    bottom: Math.min(height - 1, Math.ceil(Math.max(...ys))),
+  };
+}
+
+/**
+ * Sharpness as the variance of the Laplacian
+ *
+ * Sharp text and edges produce strong second derivatives; blur flattens
+ * them, so the variance drops.
+ *
+ * @param gray - Luminance values
+ * @param width - Image width
+ * @param height - Image height
+ * @param bounds - Region to measure (defaults to the whole image)
+ */
+export function measureSharpness(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  bounds: Bounds = { left: 0, top: 0, right: width - 1, bottom: height - 1 }
+): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = Math.max(1, bounds.top); y < Math.min(height - 1, bounds.bottom); y++) {
+    for (let x = Math.max(1, bounds.left); x < Math.min(width - 1, bounds.right); x++) {
+      const i = y * width + x;
+      const laplacian =
+        gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Mean luminance and share of glare pixels within bounds
+ */
+export function measureExposure(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  bounds: Bounds = { left: 0, top: 0, right: width - 1, bottom: height - 1 }
+): { brightness: number; glareRatio: number } {
+  let sum = 0;
+  let glare = 0;
+  let count = 0;
+
+  for (let y = bounds.top; y <= bounds.bottom; y++) {
+    for (let x = bounds.left; x <= bounds.right; x++) {
+      const value = gray[y * width + x];
+      sum += value;
+      if (value >= GLARE_LEVEL) glare++;
+      count++;
+    }
+  }
+
+  return count === 0
+    ? { brightness: 0, glareRatio: 0 }
+    : { brightness: sum / count, glareRatio: glare / count };
+}
+
+/**
+ * Area of a quad (shoelace formula)
+ */
+export function quadArea(quad: CardQuad): number {
+  const points = [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft];
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Distance between two points
+ */
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Finds the card's corners from strong edges
+ *
+ * Computes Sobel edges, then takes the edge pixels furthest toward each
+ * corner of the frame (extremes of x+y and x-y), ignoring a couple of
+ * isolated outliers. Works for a card on a contrasting background held
+ * roughly level, which is what the capture guide asks for.
+ *
+ * @returns Corners, or null if no card-shaped region is large enough
+ */
+export function detectCardEdges(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  minAreaRatio = DEFAULT_QUALITY_THRESHOLDS.minCardAreaRatio
+): CardQuad | null {
+  const margin = Math.max(1, Math.round(Math.min(width, height) * EDGE_MARGIN_RATIO));
+  const sums: number[] = [];
+  const diffs: number[] = [];
+  const points: Point[] = [];
+
+  for (let y = margin; y < height - margin; y++) {
+    for (let x = margin; x < width - margin; x++) {
+      const i = y * width + x;
+      const gx =
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1];
+      const gy =
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1];
+      if (Math.hypot(gx, gy) >= EDGE_THRESHOLD) {
+        points.push({ x, y });
+        sums.push(x + y);
+        diffs.push(x - y);
+      }
+    }
+  }
+
+  if (points.length < 4) return null;
+
+  const skip = Math.min(CORNER_OUTLIER_POINTS, points.length - 1);
+  const pick = (scores: number[], fromHighest: boolean): Point => {
+    const order = points.map((_, index) => index).sort((a, b) => scores[a] - scores[b]);
+    return points[fromHighest ? order[order.length - 1 - skip] : order[skip]];
+  };
+
+  const quad: CardQuad = {
+    topLeft: pick(sums, false),
+    topRight: pick(diffs, true),
+    bottomRight: pick(sums, true),
+    bottomLeft: pick(diffs, false),
+  };
+
+  if (quadArea(quad) < width * height * minAreaRatio) return null;
+
+  const quadWidth = (distance(quad.topLeft, quad.topRight) + distance(quad.bottomLeft, quad.bottomRight)) / 2;
+  const quadHeight = (distance(quad.topLeft, quad.bottomLeft) + distance(quad.topRight, quad.bottomRight)) / 2;
+  if (quadHeight === 0) return null;
+
+  const aspect = quadWidth / quadHeight;
+  if (aspect < MIN_CARD_ASPECT || aspect > MAX_CARD_ASPECT) return null;
+
+  return quad;
+}
+
+/**
+ * Assesses a card photo for sharpness, exposure, glare and framing
+ *
+ * Measurements are taken on the detected card when one is found, so a
+ * plain background doesn't make a sharp card look blurry.
+ *
+ * @param image - Frame, ideally downscaled to ANALYSIS_WIDTH
+ * @param options - Threshold overrides and whether a card must be found
+ * @returns Quality report with issues in display priority order
+ */
+export function assessCardImage(
+  image: ImageDataLike,
+  options: AssessCardImageOptions = {}
+): CardQualityReport {
+  const thresholds = { ...DEFAULT_QUALITY_THRESHOLDS, ...options.thresholds };
+  const requireCard = options.requireCard ?? true;
+  const { width, height } = image;
+  const gray = toGrayscale(image);
+
+  const corners = detectCardEdges(gray, width, height, thresholds.minCardAreaRatio);
+  const bounds = corners ? quadBounds(corners, width, height) : undefined;
+  const sharpness = measureSharpness(gray, width, height, bounds);
+  const { brightness, glareRatio } = measureExposure(gray, width, height, bounds);
+
+  const issues: CardQualityIssue[] = [];
+  if (!corners && requireCard) issues.push("card_not_found");
+  if (brightness < thresholds.minBrightness) issues.push("too_dark");
+  if (brightness > thresholds.maxBrightness) issues.push("too_bright");
+  if (glareRatio > thresholds.maxGlareRatio) issues.push("glare");
+  if (sharpness < thresholds.minSharpness) issues.push("blurry");
+
+  return {
+    sharpness,
+    brightness,
+    glareRatio,
+    corners,
+    issues,
+    isAcceptable: issues.length === 0,
+  };
+}
+
+/**
+ * Solves a linear system with Gaussian elimination (partial pivoting)
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * result[k];
+    result[row] = sum / a[row][row];
+  }
+  return result;
+}
+
+/**
+ * Homography mapping output rectangle coordinates to points in the quad
+ *
+ * @returns 3x3 matrix as 9 numbers (row-major), or null if degenerate
+ */
+export function computePerspectiveTransform(
+  quad: CardQuad,
+  outputWidth: number,
+  outputHeight: number
+): number[] | null {
+  const from: Point[] = [
+    { x: 0, y: 0 },
+    { x: outputWidth, y: 0 },
+    { x: outputWidth, y: outputHeight },
+    { x: 0, y: outputHeight },
+  ];
+  const to = [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft];
+
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    vector.push(v);
+  }
+
+  const h = solveLinearSystem(matrix, vector);
+  return h ? [...h, 1] : null;
+}
+
+/**
+ * Crops and straightens the card using a perspective transform
+ *
+ * Samples the source with bilinear interpolation for OCR-friendly edges.
+ *
+ * @param image - Full-resolution source
+ * @param quad - Card corners in source coordinates
+ * @param outputWidth - Width of the cropped card
+ * @param outputHeight - Height of the cropped card
+ * @returns Cropped card, or null if the quad is degenerate
+ */
+export function warpPerspective(
+  image: ImageDataLike,
+  quad: CardQuad,
+  outputWidth: number,
+  outputHeight: number
+): ImageDataLike | null {
+  const h = computePerspectiveTransform(quad, outputWidth, outputHeight);
+  if (!h) return null;
+
+  const { width, height, data } = image;
+  const output = new Uint8ClampedArray(outputWidth * outputHeight * 4);
+
+  for (let y = 0; y < outputHeight; y++) {
+    for (let x = 0; x < outputWidth; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = Math.min(width - 1, Math.max(0, (h[0] * x + h[1] * y + h[2]) / w));
+      const sy = Math.min(height - 1, Math.max(0, (h[3] * x + h[4] * y + h[5]) / w));
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const o = (y * outputWidth + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = data[(y0 * width + x0) * 4 + c] * (1 - fx) + data[(y0 * width + x1) * 4 + c] * fx;
+        const bottom = data[(y1 * width + x0) * 4 + c] * (1 - fx) + data[(y1 * width + x1) * 4 + c] * fx;
+        output[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  return { width: outputWidth, height: outputHeight, data: output };
+}
+
+/**
+ * Scales dimensions down to fit within a maximum size (never up)
+ */
+export function fitWithin(
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/**
+ * Scales a quad by a factor (analysis coordinates to source coordinates)
+ */
+export function scaleQuad(quad: CardQuad, factor: number): CardQuad {
+  const scale = (point: Point): Point => ({ x: point.x * factor, y: point.y * factor });
+  return {
+    topLeft: scale(quad.topLeft),
+    topRight: scale(quad.topRight),
+    bottomRight: scale(quad.bottomRight),
+    bottomLeft: scale(quad.bottomLeft),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Browser canvas helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Maximum width of the cropped card sent for OCR
+ */
+const OUTPUT_CARD_WIDTH = 1600;
+
+/**
+ * Largest frame dimension read at full resolution (limits memory use)
+ */
+const MAX_SOURCE_DIMENSION = 2400;
+
+/**
+ * Target upload size and JPEG qualities tried in order to meet it
+ */
+const TARGET_FILE_BYTES = 1_000_000;
+const JPEG_QUALITIES = [0.92, 0.85, 0.78, 0.7, 0.6];
+
+/**
+ * Image source with known pixel dimensions
+ * @param source - Video frame, bitmap or canvas to read
+ * @param width - Source width in pixels (e.g. video.videoWidth)
+ * @param height - Source height in pixels
+ */
+export interface CardImageSource {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/**
+ * Card photo ready for upload
+ * @param file - Cropped, downscaled and recompressed JPEG
+ * @param report - Quality report, or null if the image couldn't be analyzed
+ */
+export interface PreparedCardImage {
+  file: File;
+  report: CardQualityReport | null;
+}
+
+/**
+ * Draws a source to a canvas at the given size and reads its pixels
+ */
+function readPixels(
+  { source }: CardImageSource,
+  width: number,
+  height: number
+): ImageDataLike | null {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+/**
+ * Assesses a frame in the browser at the analysis width
+ *
+ * Suitable for running on live video every few hundred milliseconds.
+ * Corners in the report are in source coordinates.
+ *
+ * @returns Quality report, or null if the canvas is unavailable
+ */
+export function analyzeCardFrame(
+  image: CardImageSource,
+  options: AssessCardImageOptions = {}
+): CardQualityReport | null {
+  if (!image.width || !image.height) return null;
+
+  const size = fitWithin(image.width, image.height, ANALYSIS_WIDTH);
+  const pixels = readPixels(image, size.width, size.height);
+  if (!pixels) return null;
+
+  const report = assessCardImage(pixels, options);
+  return report.corners
+    ? { ...report, corners: scaleQuad(report.corners, image.width / size.width) }
+    : report;
+}
+
+/**
+ * Encodes a canvas as JPEG, lowering quality until it meets the target size
+ */
+async function encodeJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  let smallest: Blob | null = null;
+  for (const quality of JPEG_QUALITIES) {
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", quality)
+    );
+    if (!blob) continue;
+    smallest = blob;
+    if (blob.size <= TARGET_FILE_BYTES) break;
+  }
+  if (!smallest) throw new Error("Failed to create image blob");
+  return smallest;
+}
+
+/**
+ * Assesses, crops, downscales and recompresses a card photo
+ *
+ * @param image - Source frame with dimensions
+ * @param filename - Name for the resulting file
+ * @param options - Assessment options
+ * @returns Prepared JPEG file and its quality report
+ */
+export async function prepareCardImage(
+  image: CardImageSource,
+  filename: string,
+  options: AssessCardImageOptions = {}
+): Promise<PreparedCardImage> {
+  const report = analyzeCardFrame(image, options);
+
+  const sourceSize = fitWithin(image.width, image.height, MAX_SOURCE_DIMENSION);
+  const pixels = readPixels(image, sourceSize.width, sourceSize.height);
+  if (!pixels) throw new Error("Could not process image");
+
+  let output: ImageDataLike = pixels;
+  if (report?.corners) {
+    const corners = scaleQuad(report.corners, sourceSize.width / image.width);
+    const outputWidth = Math.min(OUTPUT_CARD_WIDTH, sourceSize.width);
+    const cropped = warpPerspective(
+      pixels,
+      corners,
+      outputWidth,
+      Math.round(outputWidth / CARD_ASPECT_RATIO)
+    );
+    if (cropped) output = cropped;
+  }
+
+  const outputSize = fitWithin(output.width, output.height, OUTPUT_CARD_WIDTH);
+  const sourceCanvas = document.createElement("canvas");
+  sourceCanvas.width = output.width;
+  sourceCanvas.height = output.height;
+  sourceCanvas
+    .getContext("2d")
+    ?.putImageData(new ImageData(new Uint8ClampedArray(output.data), output.width, output.height), 0, 0);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = outputSize.width;
+  canvas.height = outputSize.height;
+  canvas.getContext("2d")?.drawImage(sourceCanvas, 0, 0, outputSize.width, outputSize.height);
+
+  const blob = await encodeJpeg(canvas);
+  return {
+    file: new File([blob], filename.replace(/\.\w+$/, "") + ".jpg", { type: "image/jpeg" }),
+    report,
+  };
+}
+
+/**
+ * Prepares an uploaded or natively captured card photo
+ *
+ * Falls back to the original file with no report when the browser can't
+ * decode the image (e.g. HEIC outside Safari).
+ *
+ * @param file - Image file chosen by the user
+ * @returns Prepared file and report
+ */
+export async function prepareCardImageFile(file: File): Promise<PreparedCardImage> {
+  if (typeof createImageBitmap !== "function") {
+    return { file, report: null };
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return { file, report: null };
+  }
+
+  try {
+    // Chosen photos may already be cropped to the card, so edges are optional
+    return await prepareCardImage(
+      { source: bitmap, width: bitmap.width, height: bitmap.height },
+      file.name,
+      { requireCard: false }
+    );
+  } catch {
+    return { file, report: null };
+  } finally {
+    bitmap.close();
+  }
+}
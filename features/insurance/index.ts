@@ -2,7 +2,7 @@
  * Insurance feature exports
  *
  * Provides components and hooks for insurance information collection,
- * card upload with OCR, and confirmation display.
+ * card upload with OCR, confirmation display, and eligibility verification.
  */
 
 export { InsuranceForm } from "./InsuranceForm";
@@ -17,6 +17,9 @@ export type { CameraCaptureProps } from "./CameraCapture";
 export { InsuranceConfirmation } from "./InsuranceConfirmation";
 export type { InsuranceConfirmationProps } from "./InsuranceConfirmation";
 
+export { CoverageVerification } from "./CoverageVerification";
+export type { CoverageVerificationProps } from "./CoverageVerification";
+
 export { SelfPayModal } from "./SelfPayModal";
 export type { SelfPayModalProps } from "./SelfPayModal";
 
@@ -27,6 +30,21 @@ export type {
   InsuranceInformation,
 } from "./useInsurance";
 
+export {
+  useEligibilityVerification,
+  getVerificationRetryDelay,
+  MAX_VERIFICATION_RETRIES,
+  VERIFICATION_TIMEOUT_MS,
+} from "./useEligibilityVerification";
+export type {
+  UseEligibilityVerificationReturn,
+  UseEligibilityVerificationOptions,
+  EligibilityResult,
+  VerificationState,
+  VerificationProgressUpdate,
+  VerificationSupportContact,
+} from "./useEligibilityVerification";
+
 export { useInsuranceCardUpload } from "./useInsuranceCardUpload";
 export type {
   UseInsuranceCardUploadReturn,
@@ -34,8 +52,24 @@ export type {
   OcrExtractedData,
   OcrConfidenceData,
   UploadStatus,
+  CardSide,
+  SetCardImageOptions,
 } from "./useInsuranceCardUpload";
 
+export {
+  assessCardImage,
+  prepareCardImage,
+  prepareCardImageFile,
+  CARD_QUALITY_GUIDANCE,
+  DEFAULT_QUALITY_THRESHOLDS,
+} from "./cardImageQuality";
+export type {
+  CardQualityIssue,
+  CardQualityReport,
+  CardQualityThresholds,
+  PreparedCardImage,
+} from "./cardImageQuality";
+
 export { maskMemberId, formatVerificationStatus } from "./utils";
 
 // Development-only components
@@ -0,0 +1,354 @@
+/**
+ * useEligibilityVerification hook for real-time coverage verification
+ *
+ * Runs verifyEligibility for a submitted insurance record and follows the
+ * check through the insuranceStatusChanged subscription, which streams
+ * VerificationProgress (0, 33, 66, 100) while the payer is contacted.
+ * Results the backend checked within the last 24 hours come back from the
+ * mutation directly and are flagged as cached.
+ *
+ * Failed checks can be retried a limited number of times, with a longer
+ * wait before each retry.
+ */
+"use client";
+
+import * as React from "react";
+
+import {
+  useEligibilityStatusChangedSubscription,
+  useVerifyEligibilityMutation,
+  type VerifyEligibilityMutation,
+} from "@/types/graphql";
+import { saveOnboardingData } from "@/lib/onboarding-store";
+
+/** Maximum retries after the first check */
+export const MAX_VERIFICATION_RETRIES = 3;
+/** Wait before the first retry (5 seconds), doubled for each retry after */
+const RETRY_BASE_DELAY_MS = 5000;
+/** Longest wait between retries (30 seconds) */
+const RETRY_MAX_DELAY_MS = 30000;
+/** How long to wait for a result before giving up on a check (60 seconds) */
+export const VERIFICATION_TIMEOUT_MS = 60000;
+
+/**
+ * Statuses the backend reports while a check is still running
+ */
+const IN_PROGRESS_STATUSES = new Set(["pending", "in_progress"]);
+
+type VerificationInsurance = NonNullable<
+  NonNullable<VerifyEligibilityMutation["verifyEligibility"]>["insurance"]
+>;
+
+/**
+ * Who to contact when coverage can't be verified
+ */
+export type VerificationSupportContact = Omit<
+  NonNullable<VerificationInsurance["supportContact"]>,
+  "__typename"
+>;
+
+/**
+ * Verification progress streamed from the backend
+ */
+export interface VerificationProgressUpdate {
+  /** Progress percentage (0, 33, 66, or 100) */
+  percentage: number;
+  /** User-friendly progress message */
+  message: string;
+}
+
+/**
+ * Outcome of a finished check
+ */
+export interface EligibilityResult {
+  /** Whether coverage was verified */
+  status: "verified" | "failed";
+  /** User-friendly status (e.g., "Needs Attention") */
+  statusLabel: string | null;
+  /** Plain language summary of the result */
+  message: string | null;
+  /** Why the check ended this way */
+  whyExplanation: string | null;
+  /** What the parent can do next */
+  nextSteps: string[];
+  /** Support contact for complex issues */
+  supportContact: VerificationSupportContact | null;
+  /** Whether the backend allows another check */
+  canRetryVerification: boolean;
+  /** Retries the backend has recorded */
+  retryAttempts: number;
+}
+
+/**
+ * Verification states
+ */
+export type VerificationState = "idle" | "verifying" | "verified" | "failed" | "error";
+
+/**
+ * Options for useEligibilityVerification hook
+ */
+export interface UseEligibilityVerificationOptions {
+  /** Session the insurance belongs to (for the subscription) */
+  sessionId: string;
+  /** Insurance record to verify */
+  insuranceId: string | null;
+  /** Callback when a check finishes */
+  onComplete?: (result: EligibilityResult) => void;
+}
+
+/**
+ * Return type for useEligibilityVerification hook
+ */
+export interface UseEligibilityVerificationReturn {
+  /** Current verification state */
+  state: VerificationState;
+  /** Latest progress update while verifying */
+  progress: VerificationProgressUpdate | null;
+  /** Whether the result came from the backend's 24-hour cache */
+  cached: boolean;
+  /** Result of the last finished check */
+  result: EligibilityResult | null;
+  /** Error if the check couldn't be run */
+  error: Error | null;
+  /** Whether a retry is allowed (may still be waiting on the backoff) */
+  canRetry: boolean;
+  /** Retries left before the limit */
+  retriesLeft: number;
+  /** Seconds until the next retry is allowed */
+  retryInSeconds: number;
+  /** Start the first check */
+  verify: () => Promise<void>;
+  /** Check again after a failure */
+  retry: () => Promise<void>;
+}
+
+/**
+ * Gets the wait before the next retry
+ *
+ * @param retriesUsed - Retries already made
+ * @returns Delay in milliseconds (5s, 10s, 20s, capped at 30s)
+ */
+export function getVerificationRetryDelay(retriesUsed: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** retriesUsed, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Maps an insurance record to a finished result
+ *
+ * @returns Result, or null while the check is still running
+ */
+function toEligibilityResult(insurance: VerificationInsurance): EligibilityResult | null {
+  if (IN_PROGRESS_STATUSES.has(insurance.verificationStatus)) {
+    return null;
+  }
+
+  return {
+    status: insurance.verificationStatus === "verified" ? "verified" : "failed",
+    statusLabel: insurance.verificationStatusDisplay,
+    message: insurance.verificationMessage,
+    whyExplanation: insurance.whyExplanation,
+    nextSteps: insurance.nextSteps,
+    supportContact: insurance.supportContact
+      ? {
+          type: insurance.supportContact.type,
+          phone: insurance.supportContact.phone,
+          email: insurance.supportContact.email,
+          hours: insurance.supportContact.hours,
+        }
+      : null,
+    canRetryVerification: insurance.canRetryVerification,
+    retryAttempts: insurance.retryAttempts,
+  };
+}
+
+/**
+ * Hook for verifying insurance eligibility with live progress
+ *
+ * Features:
+ * - verifyEligibility mutation with cached results
+ * - Progress streamed over insuranceStatusChanged
+ * - Timeout when no result arrives
+ * - Bounded retries with exponential backoff
+ *
+ * @param options - Configuration options
+ * @returns Verification state and control functions
+ *
+ * @example
+ * const { state, progress, verify } = useEligibilityVerification({
+ *   sessionId,
+ *   insuranceId: insuranceInfo.id,
+ * });
+ */
+export function useEligibilityVerification({
+  sessionId,
+  insuranceId,
+  onComplete,
+}: UseEligibilityVerificationOptions): UseEligibilityVerificationReturn {
+  const [state, setState] = React.useState<VerificationState>("idle");
+  const [progress, setProgress] = React.useState<VerificationProgressUpdate | null>(null);
+  const [cached, setCached] = React.useState(false);
+  const [result, setResult] = React.useState<EligibilityResult | null>(null);
+  const [error, setError] = React.useState<Error | null>(null);
+  const [retryCount, setRetryCount] = React.useState(0);
+  const [retryInSeconds, setRetryInSeconds] = React.useState(0);
+
+  const [verifyEligibilityMutation] = useVerifyEligibilityMutation();
+
+  const retriesUsed = Math.max(retryCount, result?.retryAttempts ?? 0);
+  const retriesLeft = Math.max(0, MAX_VERIFICATION_RETRIES - retriesUsed);
+  const canRetry =
+    (state === "failed" || state === "error") &&
+    retriesLeft > 0 &&
+    (result?.canRetryVerification ?? true);
+
+  /**
+   * Records a finished check and starts the backoff for a retry
+   */
+  const finish = React.useCallback(
+    (finished: EligibilityResult, retriesMade: number) => {
+      setResult(finished);
+      setState(finished.status);
+
+      if (finished.status === "failed") {
+        const used = Math.max(retriesMade, finished.retryAttempts);
+        setRetryInSeconds(getVerificationRetryDelay(used) / 1000);
+      }
+
+      // Keep the status with the saved insurance for later steps
+      try {
+        saveOnboardingData(sessionId, {
+          insurance: { verificationStatus: finished.status },
+        });
+      } catch (storageError) {
+        console.warn("Failed to save verification status:", storageError);
+      }
+
+      onComplete?.(finished);
+    },
+    [sessionId, onComplete]
+  );
+
+  /**
+   * Records a check that couldn't be run
+   */
+  const fail = React.useCallback((failure: Error, retriesMade: number) => {
+    setError(failure);
+    setState("error");
+    setRetryInSeconds(getVerificationRetryDelay(retriesMade) / 1000);
+  }, []);
+
+  // Live progress and result while verifying
+  useEligibilityStatusChangedSubscription({
+    variables: { sessionId },
+    skip: state !== "verifying",
+    onData: ({ data: subscriptionResult }) => {
+      const payload = subscriptionResult.data?.insuranceStatusChanged;
+      if (!payload || payload.insurance.id !== insuranceId) return;
+
+      if (payload.progress) {
+        setProgress({
+          percentage: payload.progress.percentage,
+          message: payload.progress.message,
+        });
+      }
+
+      const finished = toEligibilityResult(payload.insurance);
+      if (finished) finish(finished, retryCount);
+    },
+  });
+
+  /**
+   * Gives up on a check when no result arrives in time
+   */
+  React.useEffect(() => {
+    if (state !== "verifying") return;
+
+    const timeout = setTimeout(() => {
+      fail(
+        new Error("Verification is taking longer than expected. Please try again."),
+        retryCount
+      );
+    }, VERIFICATION_TIMEOUT_MS);
+
+    return () => clearTimeout(timeout);
+  }, [state, retryCount, fail]);
+
+  /**
+   * Counts down the wait before a retry is allowed
+   */
+  React.useEffect(() => {
+    if (retryInSeconds <= 0) return;
+
+    const timer = setTimeout(() => setRetryInSeconds((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryInSeconds]);
+
+  /**
+   * Runs a check and handles an immediate (e.g., cached) result
+   * @param retriesMade - Retries made including this one
+   */
+  const runCheck = React.useCallback(
+    async (retriesMade: number): Promise<void> => {
+      if (!insuranceId) return;
+
+      setState("verifying");
+      setProgress(null);
+      setCached(false);
+      setError(null);
+
+      try {
+        const response = await verifyEligibilityMutation({ variables: { insuranceId } });
+        const payload = response.data?.verifyEligibility;
+
+        const errors = payload?.errors;
+        if (errors && errors.length > 0) {
+          throw new Error(errors[0].message || "We couldn't start verification");
+        }
+        if (!payload?.insurance) {
+          throw new Error("We couldn't start verification");
+        }
+
+        setCached(payload.cached);
+
+        const finished = toEligibilityResult(payload.insurance);
+        if (finished) finish(finished, retriesMade);
+      } catch (err) {
+        const failure =
+          err instanceof Error ? err : new Error("We couldn't start verification");
+        fail(failure, retriesMade);
+      }
+    },
+    [insuranceId, verifyEligibilityMutation, finish, fail]
+  );
+
+  /**
+   * Starts the first check
+   */
+  const verify = React.useCallback(async (): Promise<void> => {
+    if (state !== "idle") return;
+    await runCheck(0);
+  }, [state, runCheck]);
+
+  /**
+   * Checks again once the backoff has passed
+   */
+  const retry = React.useCallback(async (): Promise<void> => {
+    if (!canRetry || retryInSeconds > 0) return;
+    const retriesMade = retriesUsed + 1;
+    setRetryCount(retriesMade);
+    await runCheck(retriesMade);
+  }, [canRetry, retryInSeconds, retriesUsed, runCheck]);
+
+  return {
+    state,
+    progress,
+    cached,
+    result,
+    error,
+    canRetry,
+    retriesLeft,
+    retryInSeconds,
+    verify,
+    retry,
+  };
+}
@@ -11,6 +11,7 @@ import * as React from "react";
 import type { InsuranceFormData } from "@/lib/validations/insurance";
 import { useSubmitInsuranceInfoMutation, useSelectSelfPayMutation } from "@/types/graphql";
 import { getCarrierById } from "@/lib/data/insurance-carriers";
+import { getOnboardingState, saveOnboardingData, updateOnboardingData } from "@/lib/onboarding-store";
 
 /**
  * Insurance information returned from API
@@ -42,7 +43,7 @@ export interface UseInsuranceReturn {
  */
 export interface UseInsuranceOptions {
   sessionId: string;
-  onSubmitSuccess?: () => void;
+  onSubmitSuccess?: (insurance: InsuranceInformation | null) => void;
   onSelfPaySuccess?: () => void;
   onError?: (error: Error) => void;
 }
@@ -114,36 +115,36 @@ export function useInsurance({
 
         const insurance = result.data?.submitInsuranceInfo?.insurance;
 
-        // Also store in localStorage as backup for offline resilience
+        // Also keep a local copy as backup for offline resilience
         try {
-          const existing = localStorage.getItem(`onboarding_session_${sessionId}`);
-          const parsed = existing ? JSON.parse(existing) : { data: {} };
-          parsed.data.insurance = {
-            ...data,
-            verificationStatus: insurance?.verificationStatus || "pending",
-            savedAt: new Date().toISOString(),
-          };
-          localStorage.setItem(
-            `onboarding_session_${sessionId}`,
-            JSON.stringify(parsed)
-          );
+          saveOnboardingData(sessionId, {
+            insurance: {
+              ...data,
+              id: insurance?.id,
+              isSelfPay: false,
+              verificationStatus: insurance?.verificationStatus || "pending",
+            },
+          });
         } catch (storageError) {
           console.warn("Failed to save insurance to localStorage:", storageError);
         }
 
         // Update local state with response from backend
-        if (insurance) {
-          setInsuranceInfo({
-            id: insurance.id,
-            payerName: insurance.payerName || data.carrier,
-            subscriberName: insurance.subscriberName || data.subscriberName,
-            memberId: insurance.memberId || data.memberId,
-            groupNumber: insurance.groupNumber || null,
-            verificationStatus: insurance.verificationStatus as InsuranceInformation["verificationStatus"] || "pending",
-          });
+        const savedInsurance: InsuranceInformation | null = insurance
+          ? {
+              id: insurance.id,
+              payerName: insurance.payerName || data.carrier,
+              subscriberName: insurance.subscriberName || data.subscriberName,
+              memberId: insurance.memberId || data.memberId,
+              groupNumber: insurance.groupNumber || null,
+              verificationStatus: insurance.verificationStatus as InsuranceInformation["verificationStatus"] || "pending",
+            }
+          : null;
+        if (savedInsurance) {
+          setInsuranceInfo(savedInsurance);
         }
 
-        onSubmitSuccess?.();
+        onSubmitSuccess?.(savedInsurance);
       } catch (err) {
         const submitError =
           err instanceof Error ? err : new Error("Failed to submit insurance");
@@ -179,19 +180,12 @@ export function useInsurance({
 
       const session = result.data.selectSelfPay.session;
 
-      // Also store in localStorage as backup
+      // Also keep a local copy as backup, replacing any saved plan details
       try {
-        const existing = localStorage.getItem(`onboarding_session_${sessionId}`);
-        const parsed = existing ? JSON.parse(existing) : { data: {} };
-        parsed.data.insurance = {
-          isSelfPay: true,
-          verificationStatus: "self_pay",
-          savedAt: new Date().toISOString(),
-        };
-        localStorage.setItem(
-          `onboarding_session_${sessionId}`,
-          JSON.stringify(parsed)
-        );
+        updateOnboardingData(sessionId, (current) => ({
+          ...current,
+          insurance: { isSelfPay: true, verificationStatus: "self_pay" },
+        }));
       } catch (storageError) {
         console.warn("Failed to save self-pay to localStorage:", storageError);
       }
@@ -230,20 +224,17 @@ export function useInsurance({
   React.useEffect(() => {
     setIsLoading(true);
     try {
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        if (parsed?.data?.insurance && !parsed.data.insurance.isSelfPay) {
-          setInsuranceInfo({
-            id: parsed.data.insurance.id || `ins_${Date.now()}`,
-            payerName: parsed.data.insurance.carrier || "",
-            subscriberName: parsed.data.insurance.subscriberName || "",
-            memberId: parsed.data.insurance.memberId || "",
-            groupNumber: parsed.data.insurance.groupNumber || null,
-            verificationStatus:
-              parsed.data.insurance.verificationStatus || "pending",
-          });
-        }
+      const saved = getOnboardingState(sessionId).data.insurance;
+      if (saved && !saved.isSelfPay) {
+        setInsuranceInfo({
+          id: typeof saved.id === "string" ? saved.id : `ins_${Date.now()}`,
+          payerName: saved.carrier || "",
+          subscriberName: saved.subscriberName || "",
+          memberId: saved.memberId || "",
+          groupNumber: saved.groupNumber || null,
+          verificationStatus: (saved.verificationStatus ||
+            "pending") as InsuranceInformation["verificationStatus"],
+        });
       }
     } catch (e) {
       console.warn("Failed to load insurance from storage:", e);
@@ -6,12 +6,19 @@
  *
  * Includes polling fallback for production environments where WebSocket
  * subscriptions may not work reliably (ActionCable origin restrictions, etc.)
+ *
+ * Selected images go through the card quality pipeline (crop, recompress,
+ * blur/exposure/glare checks) before they can be uploaded.
  */
 "use client";
 
 import * as React from "react";
 import { gql } from "@apollo/client";
 import { useMutation, useSubscription, useLazyQuery } from "@apollo/client/react";
+import { findCarrierByName } from "@/lib/data/insurance-carriers";
+import { normalizeMemberId } from "@/lib/validations/member-id";
+import { readSessionData, writeSessionData } from "@/lib/storage";
+import { prepareCardImageFile, type CardQualityIssue } from "./cardImageQuality";
 
 /**
  * GraphQL mutation for uploading insurance card images
@@ -201,10 +208,18 @@ export interface UseInsuranceCardUploadReturn {
   lowConfidenceFields: string[];
   /** Error message if upload failed */
   error: string | null;
+  /** Quality issues found in the front image */
+  frontQualityIssues: CardQualityIssue[];
+  /** Quality issues found in the back image */
+  backQualityIssues: CardQualityIssue[];
+  /** Whether a selected image is still being checked and prepared */
+  isCheckingQuality: boolean;
   /** Set front image file */
-  setFrontImage: (file: File | null) => void;
+  setFrontImage: (file: File | null, options?: SetCardImageOptions) => void;
   /** Set back image file */
-  setBackImage: (file: File | null) => void;
+  setBackImage: (file: File | null, options?: SetCardImageOptions) => void;
+  /** Keep images despite quality issues (user chose "use anyway") */
+  acceptImageQuality: (side: CardSide) => void;
   /** Upload images and start OCR processing */
   uploadImages: () => Promise<void>;
   /** Reset upload state */
@@ -213,6 +228,19 @@ export interface UseInsuranceCardUploadReturn {
   clearError: () => void;
 }
 
+/**
+ * Side of the insurance card
+ */
+export type CardSide = "front" | "back";
+
+/**
+ * Options for setting a card image
+ */
+export interface SetCardImageOptions {
+  /** Skip the quality pipeline (image was already checked, e.g. camera capture) */
+  skipQualityCheck?: boolean;
+}
+
 /**
  * Options for useInsuranceCardUpload hook
  */
@@ -240,11 +268,25 @@ const ALLOWED_MIME_TYPES = [
  */
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
+/**
+ * Normalizes OCR-extracted fields before they populate the form
+ *
+ * The member ID goes through the same carrier normalizer as typed input,
+ * using the carrier matched from the extracted payer name.
+ */
+function normalizeOcrData(data: OcrExtractedData): OcrExtractedData {
+  if (!data.member_id) return data;
+
+  const carrier = data.payer_name ? findCarrierByName(data.payer_name) : undefined;
+  return { ...data, member_id: normalizeMemberId(data.member_id, carrier?.id) };
+}
+
 /**
  * Hook for managing insurance card image upload and OCR processing
  *
  * Features:
  * - File validation (type, size)
+ * - Image quality check, auto-crop and recompression
  * - Image preview generation
  * - GraphQL mutation for upload
  * - Subscription to OCR status changes
@@ -283,6 +325,11 @@ export function useInsuranceCardUpload({
   const [ocrData, setOcrData] = React.useState<OcrExtractedData | null>(null);
   const [ocrConfidence, setOcrConfidence] = React.useState<OcrConfidenceData | null>(null);
   const [lowConfidenceFields, setLowConfidenceFields] = React.useState<string[]>([]);
+  const [frontQualityIssues, setFrontQualityIssues] = React.useState<CardQualityIssue[]>([]);
+  const [backQualityIssues, setBackQualityIssues] = React.useState<CardQualityIssue[]>([]);
+  const [pendingQualityChecks, setPendingQualityChecks] = React.useState(0);
+  // Latest selection per side, so a slow check can't overwrite a newer image
+  const qualityCheckIds = React.useRef<Record<CardSide, number>>({ front: 0, back: 0 });
   const [error, setError] = React.useState<string | null>(null);
   const [insuranceId, setInsuranceId] = React.useState<string | null>(null);
 
@@ -315,17 +362,14 @@ export function useInsuranceCardUpload({
   const saveToLocalStorage = React.useCallback(
     (extractedData: OcrExtractedData, confidence: OcrConfidenceData | null) => {
       try {
-        const existing = localStorage.getItem(`onboarding_session_${sessionId}`);
+        const existing = readSessionData(sessionId);
         const parsed = existing ? JSON.parse(existing) : { data: {} };
         parsed.data.insuranceOcr = {
           extractedData,
           confidence,
           processedAt: new Date().toISOString(),
         };
-        localStorage.setItem(
-          `onboarding_session_${sessionId}`,
-          JSON.stringify(parsed)
-        );
+        writeSessionData(sessionId, JSON.stringify(parsed));
       } catch (storageError) {
         console.warn("Failed to save OCR data to localStorage:", storageError);
       }
@@ -355,17 +399,15 @@ export function useInsuranceCardUpload({
           setStatus("error");
           onError?.(insurance.ocrError);
         } else if (insurance.ocrExtracted) {
-          setOcrData(insurance.ocrExtracted);
+          const extracted = normalizeOcrData(insurance.ocrExtracted);
+          setOcrData(extracted);
           setOcrConfidence(insurance.ocrConfidence);
           setLowConfidenceFields(insurance.ocrLowConfidenceFields || []);
           setStatus(insurance.needsReview ? "needs_review" : "complete");
           setProcessingMessage(null);
 
-          onOcrComplete?.(
-            insurance.ocrExtracted,
-            insurance.ocrConfidence || {}
-          );
-          saveToLocalStorage(insurance.ocrExtracted, insurance.ocrConfidence);
+          onOcrComplete?.(extracted, insurance.ocrConfidence || {});
+          saveToLocalStorage(extracted, insurance.ocrConfidence);
         }
       }
     } catch (err) {
@@ -456,20 +498,18 @@ export function useInsuranceCardUpload({
           setStatus("error");
           onError?.(insurance.ocrError);
         } else if (insurance.ocrExtracted) {
-          setOcrData(insurance.ocrExtracted);
+          const extracted = normalizeOcrData(insurance.ocrExtracted);
+          setOcrData(extracted);
           setOcrConfidence(insurance.ocrConfidence);
           setLowConfidenceFields(insurance.ocrLowConfidenceFields || []);
           setStatus(insurance.needsReview ? "needs_review" : "complete");
           setProcessingMessage(null);
 
           // Notify parent component
-          onOcrComplete?.(
-            insurance.ocrExtracted,
-            insurance.ocrConfidence || {}
-          );
+          onOcrComplete?.(extracted, insurance.ocrConfidence || {});
 
           // Store in localStorage as backup
-          saveToLocalStorage(insurance.ocrExtracted, insurance.ocrConfidence);
+          saveToLocalStorage(extracted, insurance.ocrConfidence);
         }
       }
     },
@@ -500,11 +540,45 @@ export function useInsuranceCardUpload({
     return URL.createObjectURL(file);
   }, []);
 
+  /**
+   * Runs the quality pipeline on a selected image
+   *
+   * Replaces the image (and preview) with the cropped, recompressed version
+   * and records any quality issues for the user to fix or accept.
+   */
+  const checkImageQuality = React.useCallback(
+    async (side: CardSide, file: File) => {
+      const checkId = qualityCheckIds.current[side];
+      setPendingQualityChecks((count) => count + 1);
+
+      try {
+        const prepared = await prepareCardImageFile(file);
+        if (checkId !== qualityCheckIds.current[side]) return;
+
+        const setImage = side === "front" ? setFrontImageState : setBackImageState;
+        const setPreviewUrl = side === "front" ? setFrontPreviewUrl : setBackPreviewUrl;
+        const setIssues = side === "front" ? setFrontQualityIssues : setBackQualityIssues;
+
+        if (prepared.file !== file) {
+          setImage(prepared.file);
+          setPreviewUrl(createPreviewUrl(prepared.file));
+        }
+        setIssues(prepared.report?.issues ?? []);
+      } finally {
+        setPendingQualityChecks((count) => count - 1);
+      }
+    },
+    [createPreviewUrl]
+  );
+
   /**
    * Sets front image with validation and preview
    */
   const setFrontImage = React.useCallback(
-    (file: File | null) => {
+    (file: File | null, options: SetCardImageOptions = {}) => {
+      qualityCheckIds.current.front += 1;
+      setFrontQualityIssues([]);
+
       // Revoke previous preview URL
       if (frontPreviewUrl) {
         URL.revokeObjectURL(frontPreviewUrl);
@@ -520,18 +594,22 @@ export function useInsuranceCardUpload({
         setFrontImageState(file);
         setFrontPreviewUrl(createPreviewUrl(file));
         setError(null);
+        if (!options.skipQualityCheck) void checkImageQuality("front", file);
       } else {
         setFrontImageState(null);
       }
     },
-    [frontPreviewUrl, validateFile, createPreviewUrl]
+    [frontPreviewUrl, validateFile, createPreviewUrl, checkImageQuality]
   );
 
   /**
    * Sets back image with validation and preview
    */
   const setBackImage = React.useCallback(
-    (file: File | null) => {
+    (file: File | null, options: SetCardImageOptions = {}) => {
+      qualityCheckIds.current.back += 1;
+      setBackQualityIssues([]);
+
       // Revoke previous preview URL
       if (backPreviewUrl) {
         URL.revokeObjectURL(backPreviewUrl);
@@ -547,13 +625,25 @@ export function useInsuranceCardUpload({
         setBackImageState(file);
         setBackPreviewUrl(createPreviewUrl(file));
         setError(null);
+        if (!options.skipQualityCheck) void checkImageQuality("back", file);
       } else {
         setBackImageState(null);
       }
     },
-    [backPreviewUrl, validateFile, createPreviewUrl]
+    [backPreviewUrl, validateFile, createPreviewUrl, checkImageQuality]
   );
 
+  /**
+   * Keeps an image despite its quality issues
+   */
+  const acceptImageQuality = React.useCallback((side: CardSide) => {
+    if (side === "front") {
+      setFrontQualityIssues([]);
+    } else {
+      setBackQualityIssues([]);
+    }
+  }, []);
+
   /**
    * Uploads images and initiates OCR processing
    */
@@ -562,6 +652,13 @@ export function useInsuranceCardUpload({
       setError("Front image is required");
       return;
     }
+    if (pendingQualityChecks > 0) {
+      return;
+    }
+    if (frontQualityIssues.length > 0 || backQualityIssues.length > 0) {
+      setError("Please retake the photo, or choose to use it anyway");
+      return;
+    }
 
     setStatus("uploading");
     setError(null);
@@ -610,18 +707,16 @@ export function useInsuranceCardUpload({
       // Check if OCR is already complete (fast processing)
       if (insurance.ocrProcessed) {
         if (insurance.ocrExtracted) {
-          setOcrData(insurance.ocrExtracted);
+          const extracted = normalizeOcrData(insurance.ocrExtracted);
+          setOcrData(extracted);
           setOcrConfidence(insurance.ocrConfidence);
           setLowConfidenceFields(insurance.ocrLowConfidenceFields || []);
           setStatus(insurance.needsReview ? "needs_review" : "complete");
 
           // Notify parent component
-          onOcrComplete?.(
-            insurance.ocrExtracted,
-            insurance.ocrConfidence || {}
-          );
+          onOcrComplete?.(extracted, insurance.ocrConfidence || {});
 
-          saveToLocalStorage(insurance.ocrExtracted, insurance.ocrConfidence);
+          saveToLocalStorage(extracted, insurance.ocrConfidence);
         }
       } else {
         // OCR processing in progress, wait for subscription
@@ -638,6 +733,9 @@ export function useInsuranceCardUpload({
   }, [
     frontImage,
     backImage,
+    pendingQualityChecks,
+    frontQualityIssues,
+    backQualityIssues,
     sessionId,
     uploadMutation,
     onOcrComplete,
@@ -659,6 +757,8 @@ export function useInsuranceCardUpload({
     }
     subscriptionReceivedData.current = false;
     pollStartTime.current = null;
+    qualityCheckIds.current.front += 1;
+    qualityCheckIds.current.back += 1;
 
     setStatus("idle");
     setUploadProgress(0);
@@ -670,6 +770,8 @@ export function useInsuranceCardUpload({
     setOcrData(null);
     setOcrConfidence(null);
     setLowConfidenceFields([]);
+    setFrontQualityIssues([]);
+    setBackQualityIssues([]);
     setError(null);
     setInsuranceId(null);
   }, [frontPreviewUrl, backPreviewUrl]);
@@ -703,8 +805,12 @@ export function useInsuranceCardUpload({
     ocrConfidence,
     lowConfidenceFields,
     error,
+    frontQualityIssues,
+    backQualityIssues,
+    isCheckingQuality: pendingQualityChecks > 0,
     setFrontImage,
     setBackImage,
+    acceptImageQuality,
     uploadImages,
     reset,
     clearError,
@@ -0,0 +1,228 @@
+/**
+ * MatchFilterBar component for narrowing and re-sorting matched therapists
+ *
+ * Sits above the match results and lets families filter by specialty,
+ * language, availability this week and years of experience, and re-sort
+ * the list. Filtering happens locally; the bar only edits MatchFilters.
+ *
+ * Visual Design:
+ * - Rows of toggle chips grouped by facet
+ * - Sort options as a segmented row
+ * - Result count with "Clear filters" once any filter is active
+ *
+ * Accessibility:
+ * - Region labelled "Filter and sort matches"
+ * - Each facet is a labelled group of toggle buttons with aria-pressed
+ * - Result count announced politely as filters change
+ */
+"use client";
+
+import * as React from "react";
+import { SlidersHorizontal } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  MATCH_SORT_OPTIONS,
+  MIN_YEARS_OPTIONS,
+  hasActiveFilters,
+  type MatchFilters,
+} from "./matchFilters";
+
+/**
+ * Props for MatchFilterBar component
+ * @param filters - Current filters
+ * @param onFiltersChange - Callback with the updated filters
+ * @param onClearFilters - Callback when "Clear filters" is clicked
+ * @param specialtyOptions - Specialties offered by the matched therapists
+ * @param languageOptions - Languages spoken by the matched therapists
+ * @param resultCount - Number of therapists shown with the current filters
+ * @param totalCount - Number of matched therapists
+ * @param className - Optional additional CSS classes
+ */
+export interface MatchFilterBarProps {
+  filters: MatchFilters;
+  onFiltersChange: (filters: MatchFilters) => void;
+  onClearFilters: () => void;
+  specialtyOptions: string[];
+  languageOptions: string[];
+  resultCount: number;
+  totalCount: number;
+  className?: string;
+}
+
+/**
+ * Toggle chip used for every filter option
+ */
+function FilterChip({
+  pressed,
+  onClick,
+  children,
+}: {
+  pressed: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={pressed}
+      onClick={onClick}
+      className={cn(
+        "rounded-full border px-3 py-1.5 text-sm transition-colors min-h-[36px]",
+        pressed
+          ? "border-daybreak-teal bg-daybreak-teal text-white"
+          : "border-gray-200 text-deep-text hover:border-daybreak-teal hover:bg-daybreak-teal/10"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Labelled group of chips for one facet
+ */
+function FilterGroup({ label, children }: { label: string; children: React.ReactNode }) {
+  const labelId = React.useId();
+  return (
+    <div role="group" aria-labelledby={labelId} className="space-y-2">
+      <p id={labelId} className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+        {label}
+      </p>
+      <div className="flex flex-wrap gap-2">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * Adds or removes a value from a list
+ */
+function toggleValue(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+/**
+ * Renders the filter and sort bar
+ *
+ * Language filters are only offered when the matches speak more than one
+ * language between them; otherwise the facet can't narrow anything.
+ *
+ * @example
+ * <MatchFilterBar
+ *   filters={filters}
+ *   onFiltersChange={setFilters}
+ *   onClearFilters={clearFilters}
+ *   specialtyOptions={["Anxiety", "ADHD"]}
+ *   languageOptions={["English", "Spanish"]}
+ *   resultCount={2}
+ *   totalCount={3}
+ * />
+ */
+export function MatchFilterBar({
+  filters,
+  onFiltersChange,
+  onClearFilters,
+  specialtyOptions,
+  languageOptions,
+  resultCount,
+  totalCount,
+  className,
+}: MatchFilterBarProps) {
+  const isFiltered = hasActiveFilters(filters);
+
+  function update(changes: Partial<MatchFilters>) {
+    onFiltersChange({ ...filters, ...changes });
+  }
+
+  return (
+    <section
+      aria-label="Filter and sort matches"
+      className={cn("max-w-[640px] mx-auto rounded-lg border border-gray-200 p-4 space-y-4", className)}
+    >
+      <h3 className="flex items-center gap-2 text-sm font-medium text-deep-text">
+        <SlidersHorizontal className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+        Narrow your matches
+      </h3>
+
+      {specialtyOptions.length > 0 && (
+        <FilterGroup label="Specialty">
+          {specialtyOptions.map((specialty) => (
+            <FilterChip
+              key={specialty}
+              pressed={filters.specialties.includes(specialty)}
+              onClick={() => update({ specialties: toggleValue(filters.specialties, specialty) })}
+            >
+              {specialty}
+            </FilterChip>
+          ))}
+        </FilterGroup>
+      )}
+
+      {languageOptions.length > 1 && (
+        <FilterGroup label="Language">
+          {languageOptions.map((language) => (
+            <FilterChip
+              key={language}
+              pressed={filters.languages.includes(language)}
+              onClick={() => update({ languages: toggleValue(filters.languages, language) })}
+            >
+              {language}
+            </FilterChip>
+          ))}
+        </FilterGroup>
+      )}
+
+      <div className="flex flex-wrap gap-x-8 gap-y-4">
+        <FilterGroup label="Availability">
+          <FilterChip
+            pressed={filters.availableThisWeek}
+            onClick={() => update({ availableThisWeek: !filters.availableThisWeek })}
+          >
+            Available this week
+          </FilterChip>
+        </FilterGroup>
+
+        <FilterGroup label="Experience">
+          <FilterChip pressed={filters.minYears === null} onClick={() => update({ minYears: null })}>
+            Any
+          </FilterChip>
+          {MIN_YEARS_OPTIONS.map((years) => (
+            <FilterChip
+              key={years}
+              pressed={filters.minYears === years}
+              onClick={() => update({ minYears: years })}
+            >
+              {years}+ years
+            </FilterChip>
+          ))}
+        </FilterGroup>
+      </div>
+
+      <FilterGroup label="Sort by">
+        {MATCH_SORT_OPTIONS.map((option) => (
+          <FilterChip
+            key={option.value}
+            pressed={filters.sort === option.value}
+            onClick={() => update({ sort: option.value })}
+          >
+            {option.label}
+          </FilterChip>
+        ))}
+      </FilterGroup>
+
+      <div className="flex items-center justify-between gap-3 border-t border-gray-100 pt-3">
+        <p className="text-sm text-muted-foreground" aria-live="polite">
+          Showing {resultCount} of {totalCount} {totalCount === 1 ? "match" : "matches"}
+        </p>
+        {isFiltered && (
+          <Button variant="ghost" size="sm" onClick={onClearFilters}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+}
+
+MatchFilterBar.displayName = "MatchFilterBar";
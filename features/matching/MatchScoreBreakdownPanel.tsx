@@ -0,0 +1,148 @@
+/**
+ * MatchScoreBreakdownPanel component for explaining a match score
+ *
+ * Shows how a therapist's overall match score is built from the four
+ * weighted components the backend scores (specialization, age range,
+ * availability, treatment approach), so parents can see what drove a
+ * match rather than a single number.
+ *
+ * Visual Design:
+ * - Stacked bar showing each component's share of the overall score
+ * - One row per component with weight, bar and points contributed
+ * - Teal palette, one shade per component
+ *
+ * Accessibility:
+ * - Stacked bar has a text summary for screen readers
+ * - Each row bar is a labelled progressbar
+ */
+"use client";
+
+import * as React from "react";
+
+import { cn } from "@/lib/utils";
+import { Progress } from "@/components/ui/progress";
+import {
+  getWeightedContributions,
+  getWeightedTotal,
+  type ScoreBreakdown,
+  type ScoreComponentKey,
+} from "./matchScoreBreakdown";
+
+/**
+ * Props for MatchScoreBreakdownPanel component
+ * @param breakdown - Component scores from the backend
+ * @param therapistName - Therapist name for accessible labels
+ * @param matchScore - Overall score reported by the backend (defaults to the weighted total)
+ * @param className - Optional additional CSS classes
+ */
+export interface MatchScoreBreakdownPanelProps {
+  breakdown: ScoreBreakdown;
+  therapistName: string;
+  matchScore?: number;
+  className?: string;
+}
+
+/**
+ * Bar color per score component (shared with the compare view)
+ */
+export const SCORE_COMPONENT_COLORS: Record<ScoreComponentKey, string> = {
+  specializationScore: "bg-daybreak-teal",
+  ageRangeScore: "bg-daybreak-teal/75",
+  availabilityScore: "bg-daybreak-teal/50",
+  modalityScore: "bg-daybreak-teal/30",
+};
+
+/**
+ * Formats points for display (drops trailing ".0")
+ */
+export function formatPoints(points: number): string {
+  return Number.isInteger(points) ? String(points) : points.toFixed(1);
+}
+
+/**
+ * Renders the weighted contribution of each score component
+ *
+ * Features:
+ * - Overall score with stacked contribution bar
+ * - Per-component score, weight and points contributed
+ *
+ * @example
+ * <MatchScoreBreakdownPanel
+ *   therapistName="Dr. Sarah Chen"
+ *   matchScore={86}
+ *   breakdown={{ specializationScore: 90, ageRangeScore: 85, availabilityScore: 80, modalityScore: 85 }}
+ * />
+ */
+export function MatchScoreBreakdownPanel({
+  breakdown,
+  therapistName,
+  matchScore,
+  className,
+}: MatchScoreBreakdownPanelProps) {
+  const contributions = getWeightedContributions(breakdown);
+  const total = matchScore ?? Math.round(getWeightedTotal(breakdown));
+
+  const summary = contributions
+    .map((item) => `${item.label} ${formatPoints(item.contribution)} of ${formatPoints(item.maxContribution)} points`)
+    .join(", ");
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* Overall score with stacked contributions */}
+      <div className="space-y-2">
+        <div className="flex items-baseline justify-between">
+          <p className="text-sm font-medium text-deep-text">Match score</p>
+          <p className="text-sm font-semibold text-deep-text">
+            {total}
+            <span className="text-muted-foreground font-normal">/100</span>
+          </p>
+        </div>
+        <div
+          role="img"
+          aria-label={`${therapistName}'s match score of ${total}: ${summary}`}
+          className="flex h-3 w-full overflow-hidden rounded-full bg-gray-200"
+        >
+          {contributions.map((item) => (
+            <div
+              key={item.key}
+              className={cn("h-full", SCORE_COMPONENT_COLORS[item.key])}
+              style={{ width: `${item.contribution}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Per-component rows */}
+      <ul className="space-y-3">
+        {contributions.map((item) => (
+          <li key={item.key} className="space-y-1">
+            <div className="flex items-baseline justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span
+                  className={cn("h-2.5 w-2.5 shrink-0 rounded-full", SCORE_COMPONENT_COLORS[item.key])}
+                  aria-hidden="true"
+                />
+                <span className="text-sm text-deep-text">{item.label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {Math.round(item.weight * 100)}% of score
+                </span>
+              </div>
+              <span className="text-sm font-medium text-deep-text shrink-0">
+                +{formatPoints(item.contribution)} pts
+              </span>
+            </div>
+            <Progress
+              value={item.score}
+              aria-label={`${item.label}: scored ${item.score} out of 100`}
+              className="h-1.5"
+              indicatorClassName={SCORE_COMPONENT_COLORS[item.key]}
+            />
+            <p className="text-xs text-muted-foreground">{item.description}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+MatchScoreBreakdownPanel.displayName = "MatchScoreBreakdownPanel";
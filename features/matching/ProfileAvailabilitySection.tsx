@@ -7,6 +7,7 @@
  *
  * Features:
  * - Shows next 3 available time slots
+ * - Selecting a slot goes straight to booking that time
  * - Responsive day/date/time formatting
  * - "View full calendar" CTA button
  * - Loading and empty states
@@ -47,6 +48,8 @@ export interface ProfileAvailabilitySectionProps {
   availableSlots?: AvailabilitySlot[];
   /** Callback when "View full calendar" is clicked */
   onViewCalendar?: (therapistId: string) => void;
+  /** Callback when a slot is selected for booking (slots are static when omitted) */
+  onSelectSlot?: (therapistId: string, slot: AvailabilitySlot) => void;
   /** Loading state */
   isLoading?: boolean;
   /** Optional additional CSS classes */
@@ -86,6 +89,7 @@ function formatSlot(datetimeString: string) {
  * Accessibility:
  * - Semantic HTML with proper heading hierarchy
  * - List structure for time slots
+ * - Bookable slots are buttons labelled with the full date and time
  * - Clear button labels for screen readers
  *
  * @example
@@ -94,6 +98,7 @@ function formatSlot(datetimeString: string) {
  *   therapistName="Dr. Sarah Johnson"
  *   availableSlots={slots}
  *   onViewCalendar={(id) => router.push(`/calendar/${id}`)}
+ *   onSelectSlot={(id, slot) => router.push(`/schedule?therapistId=${id}&slotStart=${slot.datetime}`)}
  * />
  */
 export function ProfileAvailabilitySection({
@@ -101,6 +106,7 @@ export function ProfileAvailabilitySection({
   therapistName,
   availableSlots = [],
   onViewCalendar,
+  onSelectSlot,
   isLoading = false,
   className,
 }: ProfileAvailabilitySectionProps) {
@@ -164,16 +170,8 @@ export function ProfileAvailabilitySection({
         <ul className="space-y-2" role="list">
           {nextSlots.map((slot, index) => {
             const formatted = formatSlot(slot.datetime);
-
-            return (
-              <li
-                key={slot.id || index}
-                className={cn(
-                  "flex items-center justify-between rounded-lg",
-                  "border border-muted bg-card px-4 py-3",
-                  "transition-colors hover:bg-muted/50"
-                )}
-              >
+            const slotDetails = (
+              <>
                 {/* Date and Time */}
                 <div className="flex items-center gap-3">
                   <div className="flex h-12 w-12 flex-col items-center justify-center rounded-md bg-daybreak-teal/10">
@@ -195,8 +193,34 @@ export function ProfileAvailabilitySection({
                   </div>
                 </div>
 
-                {/* Select Button (Optional - for future implementation) */}
-                {/* Could add a "Select" button here for quick booking */}
+                {onSelectSlot && (
+                  <ChevronRight className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+                )}
+              </>
+            );
+            const slotClassName = cn(
+              "flex w-full items-center justify-between rounded-lg",
+              "border border-muted bg-card px-4 py-3 text-left",
+              "transition-colors hover:bg-muted/50"
+            );
+
+            return (
+              <li key={slot.id || index}>
+                {onSelectSlot ? (
+                  <button
+                    type="button"
+                    className={cn(
+                      slotClassName,
+                      "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-daybreak-teal"
+                    )}
+                    onClick={() => onSelectSlot(therapistId, slot)}
+                    aria-label={`Book ${formatted.dayOfWeek}, ${formatted.date} at ${formatted.time} with ${therapistName}`}
+                  >
+                    {slotDetails}
+                  </button>
+                ) : (
+                  <div className={slotClassName}>{slotDetails}</div>
+                )}
               </li>
             );
           })}
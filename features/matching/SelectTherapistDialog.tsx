@@ -0,0 +1,188 @@
+/**
+ * SelectTherapistDialog component for confirming the family's choice
+ *
+ * Shown when a family books with a therapist. Asks them to confirm the
+ * choice and tick what made them choose this therapist; the ticked reasons
+ * are saved with the selection as its rationale.
+ *
+ * Accessibility:
+ * - Uses Dialog component with proper ARIA attributes
+ * - Reasons are labelled checkboxes in a fieldset
+ * - Save errors are announced via role="alert"
+ */
+"use client";
+
+import * as React from "react";
+import { AlertCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+/**
+ * Therapist being confirmed
+ */
+export interface SelectTherapistDialogTherapist {
+  id: string;
+  name: string;
+  matchReasons?: Array<{ id: string; text: string }> | null;
+}
+
+/**
+ * Props for SelectTherapistDialog component
+ * @param open - Whether the dialog is open
+ * @param onOpenChange - Callback when open state changes
+ * @param therapist - Therapist being chosen
+ * @param onConfirm - Callback with the ticked reasons when the choice is confirmed
+ * @param isLoading - Whether the selection is being saved
+ * @param error - Error message from saving the selection
+ */
+export interface SelectTherapistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  therapist: SelectTherapistDialogTherapist | null;
+  onConfirm: (reasons: string[]) => void;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Reasons offered alongside the therapist's own match reasons
+ */
+const GENERAL_REASONS = [
+  "Their availability works for our schedule",
+  "Their background and approach feel right for us",
+];
+
+/**
+ * Reason list for a therapist: match reasons (ticked by default) then general reasons
+ */
+function getReasonOptions(therapist: SelectTherapistDialogTherapist) {
+  const matchReasons = (therapist.matchReasons ?? []).map((reason) => reason.text);
+  const general = GENERAL_REASONS.filter((reason) => !matchReasons.includes(reason));
+  return {
+    options: [...matchReasons, ...general],
+    defaults: matchReasons,
+  };
+}
+
+/**
+ * Renders the therapist selection confirmation dialog
+ *
+ * @example
+ * <SelectTherapistDialog
+ *   key={pendingTherapist?.id}
+ *   open={isSelectOpen}
+ *   onOpenChange={setIsSelectOpen}
+ *   therapist={pendingTherapist}
+ *   onConfirm={(reasons) => handleConfirmSelection(reasons)}
+ *   isLoading={loading}
+ * />
+ */
+export function SelectTherapistDialog({
+  open,
+  onOpenChange,
+  therapist,
+  onConfirm,
+  isLoading = false,
+  error,
+}: SelectTherapistDialogProps) {
+  const reasonOptions = React.useMemo(
+    () => (therapist ? getReasonOptions(therapist) : { options: [], defaults: [] }),
+    [therapist]
+  );
+  // Ticked reasons start from the match reasons; key the dialog by
+  // therapist ID so they reset when a different therapist is confirmed
+  const [checked, setChecked] = React.useState<string[]>(reasonOptions.defaults);
+
+  if (!therapist) {
+    return null;
+  }
+
+  const firstName = therapist.name.split(" ")[0];
+
+  function handleCheckedChange(reason: string, isChecked: boolean) {
+    setChecked((current) =>
+      isChecked ? [...current, reason] : current.filter((item) => item !== reason)
+    );
+  }
+
+  function handleConfirm() {
+    // Keep the reasons in display order
+    onConfirm(reasonOptions.options.filter((reason) => checked.includes(reason)));
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl text-deep-text">
+            Choose {therapist.name}?
+          </DialogTitle>
+          <DialogDescription>
+            We&apos;ll let our care team know you&apos;d like to work with {firstName}. You can
+            still change therapists later.
+          </DialogDescription>
+        </DialogHeader>
+
+        {reasonOptions.options.length > 0 && (
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-medium text-deep-text mb-3">
+              What made you choose {firstName}? <span className="font-normal text-muted-foreground">(optional)</span>
+            </legend>
+            {reasonOptions.options.map((reason, index) => {
+              const id = `selection-reason-${index}`;
+              return (
+                <div key={reason} className="flex items-start gap-3">
+                  <Checkbox
+                    id={id}
+                    checked={checked.includes(reason)}
+                    onCheckedChange={(value) => handleCheckedChange(reason, value === true)}
+                    disabled={isLoading}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={id} className="text-sm font-normal text-muted-foreground leading-snug">
+                    {reason}
+                  </Label>
+                </div>
+              );
+            })}
+          </fieldset>
+        )}
+
+        {error && (
+          <div
+            className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800"
+            role="alert"
+          >
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p>{error}</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Keep looking
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isLoading}
+            className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+          >
+            {isLoading ? "Saving..." : `Choose ${firstName}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+SelectTherapistDialog.displayName = "SelectTherapistDialog";
@@ -0,0 +1,131 @@
+/**
+ * ShortlistTray component for saved therapists
+ *
+ * Sticky tray at the bottom of the match results listing the therapists
+ * the family has shortlisted (up to three), with actions to remove them
+ * or open the side-by-side comparison.
+ *
+ * Visual Design:
+ * - Sticky bottom bar with a chip per saved therapist
+ * - "Compare" primary action once two or more are saved
+ *
+ * Accessibility:
+ * - Region labelled "Therapist shortlist"
+ * - Count announced politely as therapists are added or removed
+ * - Remove buttons labelled with the therapist's name
+ */
+"use client";
+
+import * as React from "react";
+import { Bookmark, X } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Therapist shown in the shortlist tray
+ */
+export interface ShortlistTrayTherapist {
+  id: string;
+  name: string;
+}
+
+/**
+ * Props for ShortlistTray component
+ * @param therapists - Shortlisted therapists, in the order they were saved
+ * @param maxSize - Most therapists that can be saved
+ * @param onRemove - Callback when a therapist is removed
+ * @param onCompare - Callback when "Compare" is clicked
+ * @param onClear - Callback when "Clear" is clicked
+ * @param className - Optional additional CSS classes
+ */
+export interface ShortlistTrayProps {
+  therapists: ShortlistTrayTherapist[];
+  maxSize: number;
+  onRemove: (therapistId: string) => void;
+  onCompare: () => void;
+  onClear: () => void;
+  className?: string;
+}
+
+/**
+ * Renders the shortlist tray (nothing when the shortlist is empty)
+ *
+ * @example
+ * <ShortlistTray
+ *   therapists={[{ id: "1", name: "Dr. Sarah Chen" }]}
+ *   maxSize={3}
+ *   onRemove={remove}
+ *   onCompare={() => setIsCompareOpen(true)}
+ *   onClear={clear}
+ * />
+ */
+export function ShortlistTray({
+  therapists,
+  maxSize,
+  onRemove,
+  onCompare,
+  onClear,
+  className,
+}: ShortlistTrayProps) {
+  if (therapists.length === 0) {
+    return null;
+  }
+
+  const canCompare = therapists.length >= 2;
+
+  return (
+    <section
+      aria-label="Therapist shortlist"
+      className={cn(
+        "sticky bottom-4 z-10 max-w-[640px] mx-auto rounded-lg border border-daybreak-teal/30 bg-background px-4 py-3 shadow-lg space-y-3",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <p className="flex items-center gap-2 text-sm font-medium text-deep-text" aria-live="polite">
+          <Bookmark className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+          Your shortlist ({therapists.length} of {maxSize})
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            onClick={onCompare}
+            disabled={!canCompare}
+            className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+          >
+            Compare
+          </Button>
+        </div>
+      </div>
+
+      <ul className="flex flex-wrap gap-2">
+        {therapists.map((therapist) => (
+          <li
+            key={therapist.id}
+            className="flex items-center gap-1 rounded-full bg-daybreak-teal/10 pl-3 pr-1 py-1 text-sm text-deep-text"
+          >
+            {therapist.name}
+            <button
+              type="button"
+              onClick={() => onRemove(therapist.id)}
+              aria-label={`Remove ${therapist.name} from shortlist`}
+              className="rounded-full p-1 text-muted-foreground hover:bg-daybreak-teal/20 hover:text-deep-text transition-colors"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {!canCompare && (
+        <p className="text-xs text-muted-foreground">Save one more therapist to compare them side by side.</p>
+      )}
+    </section>
+  );
+}
+
+ShortlistTray.displayName = "ShortlistTray";
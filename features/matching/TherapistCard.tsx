@@ -11,7 +11,9 @@
  * - Specialty tags as badges
  * - Match reasons with icons
  * - Availability preview
+ * - Expandable match score breakdown (when available)
  * - Primary "Book Now" button and secondary "View Profile" link
+ * - "Save" toggle for the shortlist (when enabled)
  *
  * Responsive:
  * - Mobile: Full width, stacked layout
@@ -21,7 +23,7 @@
 
 import * as React from "react";
 import Image from "next/image";
-import { CheckCircle, Clock, Star } from "lucide-react";
+import { BarChart3, Bookmark, BookmarkCheck, CheckCircle, ChevronDown, Clock, Star } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -33,12 +35,20 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import type { Therapist } from "@/types/graphql";
+import { MatchScoreBreakdownPanel } from "./MatchScoreBreakdownPanel";
+import type { ScoreBreakdown } from "./matchScoreBreakdown";
 
 /**
  * Props for TherapistCard component
  * @param therapist - Therapist data from GraphQL query
  * @param onBookNow - Callback when "Book Now" button is clicked
  * @param onViewProfile - Callback when "View Profile" link is clicked
+ * @param onPrefetchProfile - Callback when the card is hovered or focused,
+ *   used to start loading the full profile before it's opened
+ * @param scoreBreakdown - Weighted score components behind the match score
+ * @param isShortlisted - Whether the therapist is on the shortlist
+ * @param onToggleShortlist - Callback when "Save" is toggled (hidden when omitted)
+ * @param isShortlistFull - Whether the shortlist can't take more therapists
  * @param className - Optional additional CSS classes
  */
 export interface TherapistCardProps {
@@ -46,6 +56,11 @@ export interface TherapistCardProps {
   therapist: any;
   onBookNow?: (therapistId: string) => void;
   onViewProfile?: (therapistId: string) => void;
+  onPrefetchProfile?: (therapistId: string) => void;
+  scoreBreakdown?: ScoreBreakdown;
+  isShortlisted?: boolean;
+  onToggleShortlist?: (therapistId: string) => void;
+  isShortlistFull?: boolean;
   className?: string;
 }
 
@@ -82,8 +97,16 @@ export function TherapistCard({
   therapist,
   onBookNow,
   onViewProfile,
+  onPrefetchProfile,
+  scoreBreakdown,
+  isShortlisted = false,
+  onToggleShortlist,
+  isShortlistFull = false,
   className,
 }: TherapistCardProps) {
+  const [isBreakdownOpen, setIsBreakdownOpen] = React.useState(false);
+  const breakdownId = React.useId();
+
   /**
    * Handles Book Now button click
    * Invokes the onBookNow callback with therapist ID if provided
@@ -101,6 +124,22 @@ export function TherapistCard({
     onViewProfile?.(therapist.id);
   }
 
+  /**
+   * Handles hover/focus on the card
+   * Lets the parent prefetch the full profile before it's opened
+   */
+  function handlePrefetchProfile() {
+    onPrefetchProfile?.(therapist.id);
+  }
+
+  /**
+   * Handles Save toggle click
+   * Adds or removes the therapist from the shortlist
+   */
+  function handleToggleShortlist() {
+    onToggleShortlist?.(therapist.id);
+  }
+
   return (
     <Card
       className={cn(
@@ -108,6 +147,8 @@ export function TherapistCard({
         "border-[var(--daybreak-teal-light,#E8F5F4)]",
         className
       )}
+      onMouseEnter={handlePrefetchProfile}
+      onFocus={handlePrefetchProfile}
     >
       {/* Best Match Badge */}
       {(therapist as any).isBestMatch && (
@@ -210,6 +251,37 @@ export function TherapistCard({
             </span>
           </div>
         )}
+
+        {/* Match Score Breakdown */}
+        {scoreBreakdown && (
+          <div className="rounded-lg border border-daybreak-teal/20">
+            <button
+              type="button"
+              onClick={() => setIsBreakdownOpen((open) => !open)}
+              aria-expanded={isBreakdownOpen}
+              aria-controls={breakdownId}
+              className="flex w-full min-h-[44px] items-center justify-between gap-2 px-3 py-2 text-sm font-medium text-deep-text hover:text-daybreak-teal transition-colors"
+            >
+              <span className="flex items-center gap-2">
+                <BarChart3 className="h-4 w-4 text-daybreak-teal" />
+                How this match was scored
+              </span>
+              <ChevronDown
+                className={cn("h-4 w-4 transition-transform", isBreakdownOpen && "rotate-180")}
+                aria-hidden="true"
+              />
+            </button>
+            {isBreakdownOpen && (
+              <div id={breakdownId} className="border-t border-daybreak-teal/20 px-3 py-3">
+                <MatchScoreBreakdownPanel
+                  breakdown={scoreBreakdown}
+                  therapistName={therapist.name}
+                  matchScore={therapist.matchScore}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
 
       <CardFooter className="flex flex-col gap-3">
@@ -232,6 +304,29 @@ export function TherapistCard({
         >
           View Full Profile
         </Button>
+
+        {/* Shortlist Toggle - shown when the shortlist is enabled */}
+        {onToggleShortlist && (
+          <Button
+            onClick={handleToggleShortlist}
+            variant="outline"
+            size="sm"
+            disabled={isShortlistFull && !isShortlisted}
+            aria-pressed={isShortlisted}
+            aria-label={
+              isShortlisted
+                ? `Remove ${therapist.name} from shortlist`
+                : `Save ${therapist.name} to shortlist`
+            }
+            className={cn(
+              "gap-2",
+              isShortlisted && "border-daybreak-teal bg-daybreak-teal/10 text-daybreak-teal"
+            )}
+          >
+            {isShortlisted ? <BookmarkCheck className="h-4 w-4" /> : <Bookmark className="h-4 w-4" />}
+            {isShortlisted ? "Saved" : isShortlistFull ? "Shortlist full" : "Save to shortlist"}
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
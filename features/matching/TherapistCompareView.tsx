@@ -0,0 +1,369 @@
+/**
+ * TherapistCompareView Component
+ *
+ * Side-by-side comparison of two or three shortlisted therapists: match
+ * score, specialties, languages, experience and availability, followed by
+ * the weighted score breakdown answering "why did therapist A rank above
+ * therapist B?". Breakdown rows where the therapists differ meaningfully
+ * are highlighted and the leading therapist is marked.
+ *
+ * Visual Design:
+ * - Bottom sheet with a comparison table (one column per therapist)
+ * - Specialties and languages not shared by everyone are emphasized
+ * - Highlighted rows for score components that differ
+ * - Summary of the biggest difference above the table
+ * - "Choose" action per therapist
+ *
+ * Accessibility:
+ * - Semantic table with column and row headers
+ * - "Differs" and "Leads" markers have screen reader text
+ * - Focus trap and Escape-to-close via Radix Sheet
+ */
+"use client";
+
+import * as React from "react";
+import { Clock, Trophy } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { compareBreakdowns, getWeightedTotal, type ScoreBreakdown } from "./matchScoreBreakdown";
+import { SCORE_COMPONENT_COLORS, formatPoints } from "./MatchScoreBreakdownPanel";
+
+/**
+ * Therapist entry in the comparison
+ * @param id - Therapist ID
+ * @param name - Therapist name
+ * @param credentials - Professional credentials
+ * @param matchScore - Overall score from the backend
+ * @param specialties - Specialty areas
+ * @param languages - Languages spoken (unknown when null)
+ * @param yearsOfExperience - Years of professional experience
+ * @param availabilityText - Human-readable availability
+ * @param breakdown - Component scores from the backend, if loaded
+ */
+export interface CompareTherapist {
+  id: string;
+  name: string;
+  credentials?: string | null;
+  matchScore?: number | null;
+  specialties?: string[] | null;
+  languages?: string[] | null;
+  yearsOfExperience?: number | null;
+  availabilityText?: string | null;
+  breakdown?: ScoreBreakdown | null;
+}
+
+/**
+ * Props for TherapistCompareView component
+ * @param open - Whether the compare sheet is open
+ * @param onOpenChange - Callback when sheet open state changes
+ * @param therapists - Two or three therapists to compare
+ * @param onChooseTherapist - Callback when "Choose" is clicked for a therapist
+ * @param className - Optional additional CSS classes
+ */
+export interface TherapistCompareViewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  therapists: CompareTherapist[];
+  onChooseTherapist?: (therapistId: string) => void;
+  className?: string;
+}
+
+/**
+ * Most therapists the compare view shows side by side
+ */
+export const MAX_COMPARE_THERAPISTS = 3;
+
+/**
+ * Renders a list of tags, emphasizing ones not every therapist shares
+ */
+function TagList({ items, shared }: { items: string[]; shared: Set<string> }) {
+  if (items.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  return (
+    <ul className="flex flex-wrap gap-1">
+      {items.map((item) => {
+        const isShared = shared.has(item);
+        return (
+          <li key={item}>
+            <Badge
+              variant="outline"
+              className={cn(
+                "text-xs font-normal",
+                !isShared && "border-daybreak-teal/50 bg-daybreak-teal/10 text-daybreak-teal"
+              )}
+            >
+              {item}
+              {!isShared && <span className="sr-only"> (not shared by all)</span>}
+            </Badge>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Values every list contains
+ */
+function intersect(lists: string[][]): Set<string> {
+  if (lists.length === 0) return new Set();
+  return new Set(lists[0].filter((item) => lists.every((list) => list.includes(item))));
+}
+
+/**
+ * Renders a side-by-side score comparison for matched therapists
+ *
+ * Features:
+ * - Match score, specialties, languages, experience and availability
+ * - Weighted contribution per component (when every breakdown is loaded)
+ * - Highlighting of components that differ, with the leader marked
+ *
+ * @example
+ * <TherapistCompareView
+ *   open={isCompareOpen}
+ *   onOpenChange={setIsCompareOpen}
+ *   therapists={[
+ *     { id: "1", name: "Dr. Sarah Chen", matchScore: 92, breakdown: { ... } },
+ *     { id: "2", name: "Michael Torres", matchScore: 84, breakdown: { ... } },
+ *   ]}
+ * />
+ */
+export function TherapistCompareView({
+  open,
+  onOpenChange,
+  therapists,
+  onChooseTherapist,
+  className,
+}: TherapistCompareViewProps) {
+  const compared = therapists.slice(0, MAX_COMPARE_THERAPISTS);
+
+  const breakdownEntries = compared.flatMap((therapist) =>
+    therapist.breakdown ? [{ therapistId: therapist.id, breakdown: therapist.breakdown }] : []
+  );
+  // Only compare breakdowns when every therapist has one
+  const comparisons =
+    breakdownEntries.length === compared.length ? compareBreakdowns(breakdownEntries) : [];
+
+  const sharedSpecialties = intersect(compared.map((therapist) => therapist.specialties ?? []));
+  const sharedLanguages = intersect(
+    compared.flatMap((therapist) => (therapist.languages ? [therapist.languages] : []))
+  );
+
+  const biggestDifference = comparisons
+    .filter((comparison) => comparison.differs)
+    .sort((a, b) => b.spread - a.spread)[0];
+
+  const nameById = new Map(compared.map((therapist) => [therapist.id, therapist.name]));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className={cn("max-h-[85vh] overflow-y-auto p-0", className)}>
+        <SheetHeader className="px-6 pt-8 pb-4 border-b">
+          <SheetTitle className="text-2xl">Compare matches</SheetTitle>
+          <SheetDescription className="text-base">
+            {biggestDifference
+              ? `The biggest difference is ${biggestDifference.label.toLowerCase()}, where ${biggestDifference.leaderIds
+                  .map((id) => nameById.get(id))
+                  .join(" and ")} scored higher.`
+              : comparisons.length > 0
+                ? "These therapists scored similarly on every part of the match."
+                : "See how your shortlisted therapists compare."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-6 py-6 overflow-x-auto">
+          <table className="w-full min-w-[480px] text-sm">
+            <caption className="sr-only">
+              Therapist comparison. Score breakdown rows show the points each part of the match
+              adds to the overall score.
+            </caption>
+            <thead>
+              <tr className="border-b">
+                <th scope="col" className="py-3 pr-4 text-left font-medium text-muted-foreground">
+                  <span className="sr-only">Score component</span>
+                </th>
+                {compared.map((therapist) => (
+                  <th key={therapist.id} scope="col" className="py-3 px-2 text-left align-bottom">
+                    <span className="block font-semibold font-serif text-deep-text">
+                      {therapist.name}
+                    </span>
+                    {therapist.credentials && (
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        {therapist.credentials}
+                      </span>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <th scope="row" className="py-3 pr-4 text-left font-medium text-deep-text">
+                  Overall match
+                </th>
+                {compared.map((therapist) => {
+                  const score =
+                    therapist.matchScore ??
+                    (therapist.breakdown ? Math.round(getWeightedTotal(therapist.breakdown)) : null);
+                  return (
+                    <td key={therapist.id} className="py-3 px-2 text-lg font-semibold text-deep-text">
+                      {score ?? "—"}
+                      {score !== null && (
+                        <span className="text-xs font-normal text-muted-foreground">/100</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+
+              <tr className="border-b">
+                <th scope="row" className="py-3 pr-4 text-left font-medium text-deep-text align-top">
+                  Specialties
+                </th>
+                {compared.map((therapist) => (
+                  <td key={therapist.id} className="py-3 px-2 align-top">
+                    <TagList items={therapist.specialties ?? []} shared={sharedSpecialties} />
+                  </td>
+                ))}
+              </tr>
+
+              <tr className="border-b">
+                <th scope="row" className="py-3 pr-4 text-left font-medium text-deep-text align-top">
+                  Languages
+                </th>
+                {compared.map((therapist) => (
+                  <td key={therapist.id} className="py-3 px-2 align-top">
+                    {therapist.languages ? (
+                      <TagList items={therapist.languages} shared={sharedLanguages} />
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+
+              <tr className="border-b">
+                <th scope="row" className="py-3 pr-4 text-left font-medium text-deep-text">
+                  Experience
+                </th>
+                {compared.map((therapist) => (
+                  <td key={therapist.id} className="py-3 px-2 text-deep-text">
+                    {therapist.yearsOfExperience
+                      ? `${therapist.yearsOfExperience} ${therapist.yearsOfExperience === 1 ? "year" : "years"}`
+                      : "—"}
+                  </td>
+                ))}
+              </tr>
+
+              <tr className="border-b">
+                <th scope="row" className="py-3 pr-4 text-left font-medium text-deep-text">
+                  Availability
+                </th>
+                {compared.map((therapist) => (
+                  <td key={therapist.id} className="py-3 px-2 text-deep-text">
+                    {therapist.availabilityText ? (
+                      <span className="inline-flex items-center gap-1">
+                        <Clock className="h-3.5 w-3.5 text-green-700" aria-hidden="true" />
+                        {therapist.availabilityText}
+                      </span>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                ))}
+              </tr>
+
+              {comparisons.length > 0 && (
+                <tr className="border-b">
+                  <th
+                    scope="rowgroup"
+                    colSpan={compared.length + 1}
+                    className="pt-5 pb-2 text-left text-xs font-semibold uppercase tracking-wide text-muted-foreground"
+                  >
+                    Score breakdown
+                  </th>
+                </tr>
+              )}
+
+              {comparisons.map((comparison) => (
+                <tr
+                  key={comparison.key}
+                  className={cn("border-b last:border-b-0", comparison.differs && "bg-warm-orange/10")}
+                >
+                  <th scope="row" className="py-3 pr-4 text-left font-normal align-top">
+                    <span className="flex items-center gap-2 text-deep-text">
+                      <span
+                        className={cn("h-2.5 w-2.5 shrink-0 rounded-full", SCORE_COMPONENT_COLORS[comparison.key])}
+                        aria-hidden="true"
+                      />
+                      {comparison.label}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {Math.round(comparison.weight * 100)}% of score
+                    </span>
+                    {comparison.differs && (
+                      <Badge variant="outline" className="mt-1 text-xs border-warm-orange/50">
+                        Differs by {formatPoints(comparison.spread)} pts
+                      </Badge>
+                    )}
+                  </th>
+                  {comparison.contributions.map((entry) => {
+                    const leads = comparison.differs && comparison.leaderIds.includes(entry.therapistId);
+                    return (
+                      <td key={entry.therapistId} className="py-3 px-2 align-top">
+                        <span
+                          className={cn(
+                            "inline-flex items-center gap-1",
+                            leads ? "font-semibold text-daybreak-teal" : "text-deep-text"
+                          )}
+                        >
+                          {leads && <Trophy className="h-3.5 w-3.5" aria-hidden="true" />}
+                          {formatPoints(entry.contribution)}
+                          <span className="text-xs font-normal text-muted-foreground">
+                            /{formatPoints(comparison.weight * 100)} pts
+                          </span>
+                          {leads && <span className="sr-only">(leads)</span>}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            {onChooseTherapist && (
+              <tfoot>
+                <tr>
+                  <td />
+                  {compared.map((therapist) => (
+                    <td key={therapist.id} className="pt-4 px-2">
+                      <Button
+                        size="sm"
+                        onClick={() => onChooseTherapist(therapist.id)}
+                        className="w-full bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+                        aria-label={`Choose ${therapist.name}`}
+                      >
+                        Choose {therapist.name.split(" ")[0]}
+                      </Button>
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+TherapistCompareView.displayName = "TherapistCompareView";
@@ -3,20 +3,26 @@
  *
  * Orchestrates the display of matched therapists including:
  * - List of therapist cards (2-3 typically)
- * - Therapist profile detail sheet (Story 4.2)
+ * - Filter/sort bar that re-ranks the list locally (state kept in the URL)
+ * - Therapist profile detail sheet (Story 4.2), lazy-loaded via GetTherapistProfile
+ * - Match score breakdown per therapist
+ * - Shortlist tray (up to three) and side-by-side compare view
+ * - Selection confirmation that records the choice via selectTherapist
  * - Match rationale expandable section
  * - Alternative options link
  * - Empty state handling
  *
  * Features:
- * - Cards ordered by match quality (best first)
+ * - Cards ordered by match quality (best first) unless re-sorted
+ * - Notice when filters hide the best match or match nobody
  * - "Best Match" badge on top recommendation
  * - Responsive profile sheet (right on desktop, bottom on mobile)
  * - Smooth fade-in animation
  * - Responsive layout
  *
  * Navigation:
- * - Book Now → /onboarding/[sessionId]/schedule?therapistId=[therapistId]
+ * - Book Now → Confirm selection → /onboarding/[sessionId]/schedule
+ * - Profile slot → Confirm selection → /onboarding/[sessionId]/schedule?slotStart=[ISO datetime]
  * - View Profile → Opens TherapistProfileSheet
  * - None feel right → Contact support or view more
  */
@@ -24,14 +30,30 @@
 
 import * as React from "react";
 import { useRouter } from "next/navigation";
-import { AlertCircle, MessageCircle } from "lucide-react";
+import { AlertCircle, Info, MessageCircle } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { TherapistCard } from "./TherapistCard";
 import { TherapistProfileSheet, type TherapistProfileData } from "./TherapistProfileSheet";
+import type { AvailabilitySlot } from "./ProfileAvailabilitySection";
 import { MatchRationale } from "./MatchRationale";
+import { TherapistCompareView, type CompareTherapist } from "./TherapistCompareView";
+import { ShortlistTray } from "./ShortlistTray";
+import { SelectTherapistDialog } from "./SelectTherapistDialog";
+import { MatchFilterBar } from "./MatchFilterBar";
+import {
+  DEFAULT_MATCH_FILTERS,
+  applyMatchFilters,
+  collectFilterOptions,
+  type FilterableTherapist,
+} from "./matchFilters";
+import { useMatchFilters } from "./useMatchFilters";
 import { createFallbackResults } from "./fallbackTherapists";
+import { useTherapistProfile, usePrefetchTherapistProfile } from "./useTherapistProfile";
+import { useMatchScoreBreakdowns } from "./useMatchScoreBreakdowns";
+import { useTherapistShortlist, MAX_SHORTLIST_SIZE } from "./useTherapistShortlist";
+import { useSelectTherapist } from "./useSelectTherapist";
 // import type { TherapistMatchResults as TherapistMatchResultsType } from "@/types/graphql";
 
 /**
@@ -69,6 +91,7 @@ export interface TherapistMatchResultsProps {
  * Performance:
  * - Fade-in animation on mount
  * - Optimized image loading via TherapistCard
+ * - Profiles prefetched on card hover and cached per therapist
  * - Minimal re-renders
  *
  * @example
@@ -87,7 +110,16 @@ export function TherapistMatchResults({
 
   // Sheet state management
   const [isProfileOpen, setIsProfileOpen] = React.useState(false);
-  const [selectedTherapist, setSelectedTherapist] = React.useState<TherapistProfileData | null>(null);
+  const [selectedTherapistId, setSelectedTherapistId] = React.useState<string | null>(null);
+
+  // Compare and selection state management
+  const [isCompareOpen, setIsCompareOpen] = React.useState(false);
+  const [pendingSelection, setPendingSelection] = React.useState<{
+    therapistId: string;
+    slotStart?: string;
+  } | null>(null);
+  const [selectionError, setSelectionError] = React.useState<string | null>(null);
+  const { selectTherapist, loading: isSelecting } = useSelectTherapist(sessionId);
 
   /**
    * Determine if we should show fallback data
@@ -103,89 +135,182 @@ export function TherapistMatchResults({
 
   const isFallbackMode = displayResults.isFallbackData;
 
+  const therapistIds = React.useMemo<string[]>(
+    () => displayResults.therapists.map((t: { id: string }) => t.id),
+    [displayResults]
+  );
+  const shortlist = useTherapistShortlist(sessionId, therapistIds);
+
+  /**
+   * Full profile for the selected therapist
+   * Sample therapists in fallback mode have no backend profile
+   */
+  const {
+    profile,
+    loading: isLoadingProfile,
+    error: profileError,
+    refetch: refetchProfile,
+  } = useTherapistProfile({
+    sessionId,
+    therapistId: selectedTherapistId,
+    skip: isFallbackMode,
+  });
+  const prefetchProfile = usePrefetchTherapistProfile(sessionId);
+
+  /**
+   * Weighted score components behind each match score
+   */
+  const { breakdowns, languages } = useMatchScoreBreakdowns({ sessionId, skip: isFallbackMode });
+
+  /**
+   * Family's filters and sort order (from the URL)
+   * Sample therapists in fallback mode aren't filtered
+   */
+  const { filters, setFilters, clearFilters } = useMatchFilters();
+  const showFilters = !isFallbackMode && displayResults.therapists.length > 1;
+
+  const specialtyOptions = React.useMemo(
+    () => collectFilterOptions(displayResults.therapists.map((t: { specialties?: string[] | null }) => t.specialties)),
+    [displayResults]
+  );
+  const languageOptions = React.useMemo(() => collectFilterOptions(Object.values(languages)), [languages]);
+
+  /**
+   * Therapists to display, filtered and re-ranked locally
+   */
+  const filterResult = React.useMemo(
+    () =>
+      applyMatchFilters<FilterableTherapist & { name: string }>(
+        displayResults.therapists,
+        showFilters ? filters : DEFAULT_MATCH_FILTERS,
+        languages
+      ),
+    [showFilters, displayResults, filters, languages]
+  );
+
+  /**
+   * Shortlisted therapists for the tray and compare view, in the order saved
+   */
+  const compareTherapists = React.useMemo<CompareTherapist[]>(
+    () =>
+      shortlist.shortlist.flatMap((id) => {
+        const therapist = displayResults.therapists.find((t: { id: string }) => t.id === id);
+        if (!therapist) return [];
+        return [
+          {
+            id,
+            name: therapist.name,
+            credentials: therapist.credentials,
+            matchScore: therapist.matchScore,
+            specialties: therapist.specialties,
+            languages: languages[id] ?? null,
+            yearsOfExperience: therapist.yearsOfExperience,
+            availabilityText: therapist.availabilityText,
+            breakdown: breakdowns[id] ?? null,
+          },
+        ];
+      }),
+    [shortlist.shortlist, displayResults, breakdowns, languages]
+  );
+
+  /**
+   * Therapist awaiting selection confirmation
+   */
+  const pendingTherapist = React.useMemo(
+    () =>
+      pendingSelection
+        ? displayResults.therapists.find((t: { id: string }) => t.id === pendingSelection.therapistId) ?? null
+        : null,
+    [displayResults, pendingSelection]
+  );
+
+  /**
+   * Profile sheet data: card data overlaid with the loaded profile
+   */
+  const selectedTherapist = React.useMemo<TherapistProfileData | null>(() => {
+    const therapist = displayResults.therapists.find((t: { id: string }) => t.id === selectedTherapistId);
+    if (!therapist) return null;
+    if (!profile) return therapist;
+    return {
+      ...therapist,
+      ...profile,
+      // Keep the card's match reasons if the profile has none
+      matchReasons: profile.matchReasons?.length ? profile.matchReasons : therapist.matchReasons,
+    };
+  }, [displayResults, selectedTherapistId, profile]);
+
   /**
    * Handles "Book Now" button click
-   * Saves selected therapist to localStorage and navigates to scheduling page
+   * Opens the selection confirmation; the choice is recorded before scheduling
    *
    * @param therapistId - ID of the therapist to book
+   * @param slotStart - Optional ISO start time to preselect on the schedule page
+   */
+  function handleBookNow(therapistId: string, slotStart?: string) {
+    setSelectionError(null);
+    setPendingSelection({ therapistId, slotStart });
+  }
+
+  /**
+   * Handles selection confirmation
+   * Records the choice and rationale, then navigates to scheduling
+   *
+   * @param reasons - Reasons the family ticked for choosing the therapist
    */
-  function handleBookNow(therapistId: string) {
-    // Find therapist details and save to localStorage for schedule page
-    const therapist = displayResults.therapists.find((t: any) => t.id === therapistId);
-    if (therapist) {
-      try {
-        const storageKey = `onboarding_session_${sessionId}`;
-        const stored = localStorage.getItem(storageKey);
-        const sessionData = stored ? JSON.parse(stored) : { data: {} };
-
-        // Save selected therapist details
-        sessionData.data.selectedTherapist = {
-          id: therapist.id,
-          name: therapist.name,
-          photoUrl: therapist.photoUrl,
-          credentials: therapist.credentials,
-        };
-
-        localStorage.setItem(storageKey, JSON.stringify(sessionData));
-      } catch (error) {
-        console.error("Failed to save selected therapist:", error);
-      }
+  async function handleConfirmSelection(reasons: string[]) {
+    if (!pendingSelection || !pendingTherapist) return;
+
+    try {
+      await selectTherapist({
+        therapistId: pendingTherapist.id,
+        therapistName: pendingTherapist.name,
+        reasons,
+        matchScore: pendingTherapist.matchScore,
+        comparedTherapistIds: shortlist.shortlist,
+      });
+
+      // The schedule page reads the therapist from the recorded selection
+      const query = pendingSelection.slotStart
+        ? `?${new URLSearchParams({ slotStart: pendingSelection.slotStart }).toString()}`
+        : "";
+      router.push(`/onboarding/${sessionId}/schedule${query}`);
+    } catch (error) {
+      console.error("[handleConfirmSelection] Failed to select therapist:", error);
+      setSelectionError("We couldn't save your choice. Please try again.");
     }
+  }
 
-    router.push(`/onboarding/${sessionId}/schedule?therapistId=${therapistId}`);
+  /**
+   * Handles selection dialog open state changes
+   * Closing the dialog cancels the pending selection
+   */
+  function handleSelectionOpenChange(open: boolean) {
+    if (!open && !isSelecting) {
+      setPendingSelection(null);
+      setSelectionError(null);
+    }
   }
 
   /**
    * Handles "View Profile" link click
-   * Opens the therapist profile sheet with full details
+   * Opens the therapist profile sheet; full details load (or come from the
+   * prefetch cache) while card details are shown
    *
    * @param therapistId - ID of the therapist whose profile to view
    */
   function handleViewProfile(therapistId: string) {
-    console.log('[handleViewProfile] Called with therapistId:', therapistId);
-    console.log('[handleViewProfile] displayResults.therapists:', displayResults.therapists.map((t: any) => ({ id: t.id, name: t.name })));
-
-    // Find the therapist in displayResults (handles both real and fallback)
-    const therapist = displayResults.therapists.find((t: any) => t.id === therapistId);
-    console.log('[handleViewProfile] Found therapist:', therapist ? therapist.name : 'NOT FOUND');
-
-    if (therapist) {
-      // Extend therapist data with mock profile details
-      // In production, this could fetch additional data or use existing data
-      const profileData: TherapistProfileData = {
-        ...therapist,
-        // Mock extended data - in production, fetch from API or GraphQL
-        approach: "CBT-focused with a warm, collaborative approach. I believe in meeting clients where they are and building therapeutic relationships based on trust and mutual respect.",
-        languages: ["English", "Spanish"],
-        education: [
-          "Ph.D. in Clinical Psychology, UCLA (2015)",
-          "M.A. in Counseling Psychology, Boston University (2012)",
-          "B.A. in Psychology, UC Berkeley (2010)",
-        ],
-        certifications: [
-          "Licensed Marriage and Family Therapist (LMFT)",
-          "Certified Child and Adolescent Therapist",
-          "Trauma-Focused CBT Certification",
-        ],
-        // Mock availability slots - in production, fetch from calendar API
-        availableSlots: [
-          { id: "slot1", datetime: "2024-12-05T14:00:00Z" },
-          { id: "slot2", datetime: "2024-12-06T10:00:00Z" },
-          { id: "slot3", datetime: "2024-12-07T15:30:00Z" },
-        ],
-      };
-
-      console.log('[handleViewProfile] Setting selectedTherapist and opening sheet');
-      setSelectedTherapist(profileData);
-      setIsProfileOpen(true);
-    } else {
-      console.error('[handleViewProfile] Therapist not found! Check if IDs match.');
+    if (!displayResults.therapists.some((t: { id: string }) => t.id === therapistId)) {
+      console.error("[handleViewProfile] Therapist not found in results");
+      return;
     }
+
+    setSelectedTherapistId(therapistId);
+    setIsProfileOpen(true);
   }
 
   /**
    * Handles booking from within the profile sheet
-   * Closes sheet and navigates to scheduling
+   * Closes sheet and confirms the selection before scheduling
    *
    * @param therapistId - ID of the therapist to book
    */
@@ -194,6 +319,28 @@ export function TherapistMatchResults({
     handleBookNow(therapistId);
   }
 
+  /**
+   * Handles selecting one of the next available slots in the profile sheet
+   * Navigates to scheduling with that slot preselected
+   *
+   * @param therapistId - ID of the therapist
+   * @param slot - Selected availability slot
+   */
+  function handleSelectSlot(therapistId: string, slot: AvailabilitySlot) {
+    setIsProfileOpen(false);
+    handleBookNow(therapistId, slot.datetime);
+  }
+
+  /**
+   * Handles choosing a therapist from the compare view
+   *
+   * @param therapistId - ID of the chosen therapist
+   */
+  function handleChooseFromCompare(therapistId: string) {
+    setIsCompareOpen(false);
+    handleBookNow(therapistId);
+  }
+
   /**
    * Handles viewing calendar from profile sheet
    * Navigate to calendar view or scheduling page
@@ -202,7 +349,7 @@ export function TherapistMatchResults({
    */
   function handleViewCalendar(therapistId: string) {
     setIsProfileOpen(false);
-    // Save therapist and navigate to scheduling (reuse handleBookNow logic)
+    // Confirm the selection, then navigate to scheduling (reuse handleBookNow logic)
     handleBookNow(therapistId);
   }
 
@@ -216,13 +363,6 @@ export function TherapistMatchResults({
     }
   }
 
-  // Sort therapists by match score (already sorted by backend, but ensure best match is first)
-  // Uses displayResults which includes fallback data when no real matches exist
-  const sortedTherapists = [...displayResults.therapists].sort((a: any, b: any) => {
-    if (a.isBestMatch) return -1;
-    if (b.isBestMatch) return 1;
-    return b.matchScore - a.matchScore;
-  });
 
   return (
     <>
@@ -270,9 +410,45 @@ export function TherapistMatchResults({
           </p>
         </div>
 
+        {/* Filter and Sort Bar - re-ranks the matches locally */}
+        {showFilters && (
+          <MatchFilterBar
+            filters={filters}
+            onFiltersChange={setFilters}
+            onClearFilters={clearFilters}
+            specialtyOptions={specialtyOptions}
+            languageOptions={languageOptions}
+            resultCount={filterResult.therapists.length}
+            totalCount={displayResults.therapists.length}
+          />
+        )}
+
+        {/* Filter Notices - explain hidden best match or empty filters */}
+        {(filterResult.isEmpty || filterResult.hiddenBestMatch) && (
+          <div
+            className="max-w-[640px] mx-auto flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-daybreak-teal/30 bg-daybreak-teal/5 p-4"
+            role="status"
+          >
+            <Info className="h-5 w-5 text-daybreak-teal shrink-0" aria-hidden="true" />
+            <p className="flex-1 text-sm text-deep-text">
+              {filterResult.isEmpty
+                ? "No therapists match all of your filters, so we're showing all of your matches instead."
+                : `Your filters are hiding ${filterResult.hiddenBestMatch?.name}, your best match.`}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={clearFilters}
+              className="border-daybreak-teal text-daybreak-teal hover:bg-daybreak-teal/10"
+            >
+              {filterResult.isEmpty ? "Clear filters" : "Show all matches"}
+            </Button>
+          </div>
+        )}
+
         {/* Therapist Cards */}
         <div className="space-y-4 max-w-[640px] mx-auto">
-          {sortedTherapists.map((therapist: any, index: number) => (
+          {filterResult.therapists.map((therapist, index) => (
             <div
               key={therapist.id}
               className="animate-in fade-in slide-in-from-bottom-4"
@@ -285,11 +461,25 @@ export function TherapistMatchResults({
                 therapist={therapist}
                 onBookNow={handleBookNow}
                 onViewProfile={handleViewProfile}
+                onPrefetchProfile={isFallbackMode ? undefined : prefetchProfile}
+                scoreBreakdown={breakdowns[therapist.id]}
+                isShortlisted={shortlist.isShortlisted(therapist.id)}
+                onToggleShortlist={shortlist.toggle}
+                isShortlistFull={shortlist.isFull}
               />
             </div>
           ))}
         </div>
 
+        {/* Shortlist Tray - shown once therapists are saved */}
+        <ShortlistTray
+          therapists={compareTherapists}
+          maxSize={MAX_SHORTLIST_SIZE}
+          onRemove={shortlist.remove}
+          onClear={shortlist.clear}
+          onCompare={() => setIsCompareOpen(true)}
+        />
+
         {/* Match Rationale - hide in fallback mode since criteria don't apply */}
         {!isFallbackMode && displayResults.matchingCriteria && (
           <MatchRationale matchingCriteria={displayResults.matchingCriteria} />
@@ -322,6 +512,33 @@ export function TherapistMatchResults({
         childName={childName}
         onBookAppointment={handleBookFromProfile}
         onViewCalendar={handleViewCalendar}
+        onSelectSlot={handleSelectSlot}
+        isLoadingProfile={isLoadingProfile && !profile}
+        profileError={
+          profileError && !profile
+            ? "We couldn't load the full profile right now. Basic details are shown below."
+            : null
+        }
+        onRetryProfile={refetchProfile}
+      />
+
+      {/* Side-by-side Match Comparison */}
+      <TherapistCompareView
+        open={isCompareOpen && compareTherapists.length >= 2}
+        onOpenChange={setIsCompareOpen}
+        therapists={compareTherapists}
+        onChooseTherapist={handleChooseFromCompare}
+      />
+
+      {/* Selection Confirmation */}
+      <SelectTherapistDialog
+        key={pendingTherapist?.id}
+        open={Boolean(pendingTherapist)}
+        onOpenChange={handleSelectionOpenChange}
+        therapist={pendingTherapist}
+        onConfirm={handleConfirmSelection}
+        isLoading={isSelecting}
+        error={selectionError}
       />
     </>
   );
@@ -10,7 +10,8 @@
  * - Larger therapist photo (120x120)
  * - Full profile information
  * - Personalized match section
- * - Availability preview with calendar link
+ * - Availability preview with calendar link and bookable slots
+ * - Skeleton and error states while the full profile loads
  * - Sticky "Book with [therapist]" button
  * - Accessible with proper focus management
  *
@@ -29,6 +30,7 @@ import {
   Sparkles,
   Award,
   Heart,
+  AlertCircle,
 } from "lucide-react";
 
 import {
@@ -54,22 +56,22 @@ export interface TherapistProfileData {
   name: string;
   credentials: string;
   photoUrl?: string | null;
-  bio?: string;
-  yearsOfExperience?: number;
+  bio?: string | null;
+  yearsOfExperience?: number | null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  matchReasons?: any[];
+  matchReasons?: any[] | null;
   /** Detailed approach to therapy (e.g., "CBT-focused, warm and collaborative") */
-  approach?: string;
+  approach?: string | null;
   /** Languages spoken by therapist */
-  languages?: string[];
+  languages?: string[] | null;
   /** Education background (degree, institution, year) */
-  education?: string[];
+  education?: string[] | null;
   /** Professional certifications */
-  certifications?: string[];
+  certifications?: string[] | null;
   /** Next available appointment slots */
-  availableSlots?: AvailabilitySlot[];
+  availableSlots?: AvailabilitySlot[] | null;
   /** Therapist specialties */
-  specialties?: string[];
+  specialties?: string[] | null;
 }
 
 /**
@@ -88,8 +90,33 @@ export interface TherapistProfileSheetProps {
   onBookAppointment?: (therapistId: string) => void;
   /** Callback when "View full calendar" is clicked */
   onViewCalendar?: (therapistId: string) => void;
+  /** Callback when one of the next available slots is selected */
+  onSelectSlot?: (therapistId: string, slot: AvailabilitySlot) => void;
   /** Loading state for availability */
   isLoadingAvailability?: boolean;
+  /** Loading state for the full profile (shows skeletons for details) */
+  isLoadingProfile?: boolean;
+  /** Error message when the full profile failed to load */
+  profileError?: string | null;
+  /** Callback to retry loading the full profile */
+  onRetryProfile?: () => void;
+}
+
+/**
+ * Skeleton shown in place of profile details while they load
+ */
+function ProfileDetailsSkeleton() {
+  return (
+    <div className="space-y-6" aria-busy="true" aria-label="Loading profile details">
+      {[1, 2, 3].map((section) => (
+        <div key={section} className="space-y-3">
+          <div className="h-5 w-32 animate-pulse rounded bg-muted" />
+          <div className="h-4 w-full animate-pulse rounded bg-muted" />
+          <div className="h-4 w-5/6 animate-pulse rounded bg-muted" />
+        </div>
+      ))}
+    </div>
+  );
 }
 
 /**
@@ -118,6 +145,7 @@ export interface TherapistProfileSheetProps {
  *   childName="Emma"
  *   onBookAppointment={(id) => router.push(`/book/${id}`)}
  *   onViewCalendar={(id) => router.push(`/calendar/${id}`)}
+ *   isLoadingProfile={loading}
  * />
  */
 export function TherapistProfileSheet({
@@ -127,7 +155,11 @@ export function TherapistProfileSheet({
   childName,
   onBookAppointment,
   onViewCalendar,
+  onSelectSlot,
   isLoadingAvailability = false,
+  isLoadingProfile = false,
+  profileError = null,
+  onRetryProfile,
 }: TherapistProfileSheetProps) {
   /**
    * Handles booking button click
@@ -196,8 +228,32 @@ export function TherapistProfileSheet({
 
         {/* Scrollable Content */}
         <div className="px-6 py-6 space-y-6">
+          {/* Profile Load Error */}
+          {profileError && !isLoadingProfile && (
+            <div
+              className="flex items-start gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4"
+              role="alert"
+            >
+              <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5 shrink-0" aria-hidden="true" />
+              <div className="flex-1 text-sm text-amber-800">
+                <p>{profileError}</p>
+                {onRetryProfile && (
+                  <Button
+                    variant="link"
+                    onClick={onRetryProfile}
+                    className="text-amber-800 hover:text-amber-900 p-0 h-auto mt-1 underline text-sm"
+                  >
+                    Try again
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {isLoadingProfile && <ProfileDetailsSkeleton />}
+
           {/* Bio Section */}
-          {therapist.bio && (
+          {!isLoadingProfile && therapist.bio && (
             <section>
               <h3 className="text-lg font-serif font-semibold text-deep-text mb-3 flex items-center gap-2">
                 <Heart className="h-5 w-5 text-warm-orange" aria-hidden="true" />
@@ -231,7 +287,7 @@ export function TherapistProfileSheet({
           )}
 
           {/* Approach Section */}
-          {therapist.approach && (
+          {!isLoadingProfile && therapist.approach && (
             <section>
               <h3 className="text-lg font-serif font-semibold text-deep-text mb-3">
                 Therapeutic Approach
@@ -243,7 +299,7 @@ export function TherapistProfileSheet({
           )}
 
           {/* Languages Section */}
-          {therapist.languages && therapist.languages.length > 0 && (
+          {!isLoadingProfile && therapist.languages && therapist.languages.length > 0 && (
             <section>
               <h3 className="text-lg font-serif font-semibold text-deep-text mb-3 flex items-center gap-2">
                 <Languages className="h-5 w-5 text-warm-orange" aria-hidden="true" />
@@ -256,7 +312,7 @@ export function TherapistProfileSheet({
           )}
 
           {/* Education Section */}
-          {therapist.education && therapist.education.length > 0 && (
+          {!isLoadingProfile && therapist.education && therapist.education.length > 0 && (
             <section>
               <h3 className="text-lg font-serif font-semibold text-deep-text mb-3 flex items-center gap-2">
                 <GraduationCap className="h-5 w-5 text-warm-orange" aria-hidden="true" />
@@ -277,7 +333,7 @@ export function TherapistProfileSheet({
           )}
 
           {/* Certifications Section */}
-          {therapist.certifications && therapist.certifications.length > 0 && (
+          {!isLoadingProfile && therapist.certifications && therapist.certifications.length > 0 && (
             <section>
               <h3 className="text-lg font-serif font-semibold text-deep-text mb-3 flex items-center gap-2">
                 <Award className="h-5 w-5 text-warm-orange" aria-hidden="true" />
@@ -310,9 +366,10 @@ export function TherapistProfileSheet({
           <ProfileAvailabilitySection
             therapistId={therapist.id}
             therapistName={therapist.name}
-            availableSlots={therapist.availableSlots}
+            availableSlots={therapist.availableSlots ?? undefined}
             onViewCalendar={onViewCalendar}
-            isLoading={isLoadingAvailability}
+            onSelectSlot={onSelectSlot}
+            isLoading={isLoadingAvailability || isLoadingProfile}
           />
 
           {/* Bottom padding for sticky footer */}
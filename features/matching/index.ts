@@ -31,6 +31,97 @@ export type {
   AvailabilitySlot
 } from "./ProfileAvailabilitySection";
 
+export {
+  useTherapistProfile,
+  usePrefetchTherapistProfile,
+  toTherapistProfileData
+} from "./useTherapistProfile";
+export type {
+  UseTherapistProfileOptions,
+  UseTherapistProfileResult
+} from "./useTherapistProfile";
+
+export { MatchScoreBreakdownPanel } from "./MatchScoreBreakdownPanel";
+export type { MatchScoreBreakdownPanelProps } from "./MatchScoreBreakdownPanel";
+
+export { TherapistCompareView, MAX_COMPARE_THERAPISTS } from "./TherapistCompareView";
+export type {
+  TherapistCompareViewProps,
+  CompareTherapist
+} from "./TherapistCompareView";
+
+export { useMatchScoreBreakdowns } from "./useMatchScoreBreakdowns";
+export type {
+  UseMatchScoreBreakdownsOptions,
+  UseMatchScoreBreakdownsResult
+} from "./useMatchScoreBreakdowns";
+
+export {
+  MATCH_SCORE_COMPONENTS,
+  getWeightedContributions,
+  getWeightedTotal,
+  compareBreakdowns
+} from "./matchScoreBreakdown";
+export type {
+  ScoreBreakdown,
+  ScoreComponent,
+  WeightedContribution,
+  ComponentComparison
+} from "./matchScoreBreakdown";
+
+export { ShortlistTray } from "./ShortlistTray";
+export type { ShortlistTrayProps, ShortlistTrayTherapist } from "./ShortlistTray";
+
+export { SelectTherapistDialog } from "./SelectTherapistDialog";
+export type {
+  SelectTherapistDialogProps,
+  SelectTherapistDialogTherapist
+} from "./SelectTherapistDialog";
+
+export {
+  useTherapistShortlist,
+  getShortlistStorageKey,
+  MAX_SHORTLIST_SIZE
+} from "./useTherapistShortlist";
+export type { UseTherapistShortlistResult } from "./useTherapistShortlist";
+
+export {
+  useSelectTherapist,
+  useTherapistSelection,
+  parseTherapistSelection,
+  THERAPIST_SELECTION_KEY
+} from "./useSelectTherapist";
+export type {
+  TherapistSelection,
+  SelectTherapistInput,
+  UseSelectTherapistResult,
+  UseTherapistSelectionResult
+} from "./useSelectTherapist";
+
+export { MatchFilterBar } from "./MatchFilterBar";
+export type { MatchFilterBarProps } from "./MatchFilterBar";
+
+export { useMatchFilters } from "./useMatchFilters";
+export type { UseMatchFiltersResult } from "./useMatchFilters";
+
+export {
+  DEFAULT_MATCH_FILTERS,
+  MATCH_SORT_OPTIONS,
+  MIN_YEARS_OPTIONS,
+  parseMatchFilters,
+  toMatchFilterParams,
+  hasActiveFilters,
+  applyMatchFilters,
+  sortMatches,
+  collectFilterOptions
+} from "./matchFilters";
+export type {
+  MatchFilters,
+  MatchSortOrder,
+  FilterableTherapist,
+  MatchFilterResult
+} from "./matchFilters";
+
 export {
   FALLBACK_THERAPISTS,
   createFallbackResults,
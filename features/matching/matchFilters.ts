@@ -0,0 +1,287 @@
+/**
+ * Client-side filtering and re-ranking of matched therapists
+ *
+ * The backend returns a fixed, ranked list of matches. Families can narrow
+ * it by preferences the assessment didn't capture (specialty, language,
+ * availability this week, years of experience) and re-sort it locally.
+ * Filter state is kept in the URL query so support can reproduce exactly
+ * what a parent saw.
+ *
+ * Within a facet, options are alternatives (any selected specialty);
+ * across facets, every active filter must match.
+ */
+
+/**
+ * Sort orders offered to families
+ * - best: backend ranking (best match first, then match score)
+ * - availability: soonest availability first
+ * - experience: most years of experience first
+ */
+export type MatchSortOrder = "best" | "availability" | "experience";
+
+/**
+ * Filter and sort state for the match results
+ * @param specialties - Specialties to include (any of)
+ * @param languages - Languages to include (any of)
+ * @param availableThisWeek - Only therapists with availability this week
+ * @param minYears - Minimum years of experience, or null for any
+ * @param sort - Sort order
+ */
+export interface MatchFilters {
+  specialties: string[];
+  languages: string[];
+  availableThisWeek: boolean;
+  minYears: number | null;
+  sort: MatchSortOrder;
+}
+
+/**
+ * Therapist fields used for filtering and sorting
+ */
+export interface FilterableTherapist {
+  id: string;
+  specialties?: string[] | null;
+  availabilityStatus?: string | null;
+  yearsOfExperience?: number | null;
+  matchScore: number;
+  isBestMatch?: boolean;
+}
+
+/**
+ * Result of applying filters to the match list
+ * @param therapists - Therapists to display, in display order
+ * @param hiddenBestMatch - Best match removed by the filters, if any
+ * @param isEmpty - Whether the filters removed every therapist; the full
+ *   list is returned in `therapists` so families are never left with nothing
+ */
+export interface MatchFilterResult<T extends FilterableTherapist> {
+  therapists: T[];
+  hiddenBestMatch: T | null;
+  isEmpty: boolean;
+}
+
+/**
+ * Filters applied when the URL has none
+ */
+export const DEFAULT_MATCH_FILTERS: MatchFilters = {
+  specialties: [],
+  languages: [],
+  availableThisWeek: false,
+  minYears: null,
+  sort: "best",
+};
+
+/**
+ * Minimum years of experience options
+ */
+export const MIN_YEARS_OPTIONS = [5, 10] as const;
+
+/**
+ * Sort order labels, in display order
+ */
+export const MATCH_SORT_OPTIONS: ReadonlyArray<{ value: MatchSortOrder; label: string }> = [
+  { value: "best", label: "Best match" },
+  { value: "availability", label: "Soonest available" },
+  { value: "experience", label: "Most experienced" },
+];
+
+/**
+ * URL query parameter names
+ */
+export const MATCH_FILTER_PARAMS = {
+  specialties: "specialty",
+  languages: "language",
+  availableThisWeek: "available",
+  minYears: "minYears",
+  sort: "sort",
+} as const;
+
+/**
+ * availabilityStatus ranks for the "availability" sort (lower is sooner)
+ */
+const AVAILABILITY_RANK: Record<string, number> = {
+  available: 0,
+  limited: 1,
+  unavailable: 2,
+};
+
+/**
+ * Reads a comma-separated list parameter
+ */
+function readList(params: URLSearchParams, name: string): string[] {
+  const value = params.get(name);
+  if (!value) return [];
+  return Array.from(new Set(value.split(",").map((item) => item.trim()).filter(Boolean)));
+}
+
+/**
+ * Reads filter state from URL query parameters, ignoring unknown values
+ *
+ * @param params - Current URL search params
+ * @returns Filters (defaults for anything missing or invalid)
+ *
+ * @example
+ * parseMatchFilters(new URLSearchParams("specialty=Anxiety&sort=experience"))
+ * // { specialties: ["Anxiety"], sort: "experience", ... }
+ */
+export function parseMatchFilters(params: URLSearchParams): MatchFilters {
+  const sort = params.get(MATCH_FILTER_PARAMS.sort);
+  const minYears = Number(params.get(MATCH_FILTER_PARAMS.minYears));
+
+  return {
+    specialties: readList(params, MATCH_FILTER_PARAMS.specialties),
+    languages: readList(params, MATCH_FILTER_PARAMS.languages),
+    availableThisWeek: params.get(MATCH_FILTER_PARAMS.availableThisWeek) === "week",
+    minYears: Number.isInteger(minYears) && minYears > 0 ? minYears : null,
+    sort: MATCH_SORT_OPTIONS.some((option) => option.value === sort)
+      ? (sort as MatchSortOrder)
+      : DEFAULT_MATCH_FILTERS.sort,
+  };
+}
+
+/**
+ * Writes filter state into URL query parameters
+ *
+ * Default values are omitted so an unfiltered page keeps a clean URL.
+ * Parameters not owned by the filters are preserved.
+ *
+ * @param filters - Filters to write
+ * @param base - Current URL search params
+ * @returns New search params
+ */
+export function toMatchFilterParams(
+  filters: MatchFilters,
+  base: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  const params = new URLSearchParams(base);
+  const set = (name: string, value: string | null) => {
+    if (value) params.set(name, value);
+    else params.delete(name);
+  };
+
+  set(MATCH_FILTER_PARAMS.specialties, filters.specialties.join(","));
+  set(MATCH_FILTER_PARAMS.languages, filters.languages.join(","));
+  set(MATCH_FILTER_PARAMS.availableThisWeek, filters.availableThisWeek ? "week" : null);
+  set(MATCH_FILTER_PARAMS.minYears, filters.minYears ? String(filters.minYears) : null);
+  set(MATCH_FILTER_PARAMS.sort, filters.sort === DEFAULT_MATCH_FILTERS.sort ? null : filters.sort);
+
+  return params;
+}
+
+/**
+ * Whether any filter (not counting sort order) is active
+ */
+export function hasActiveFilters(filters: MatchFilters): boolean {
+  return (
+    filters.specialties.length > 0 ||
+    filters.languages.length > 0 ||
+    filters.availableThisWeek ||
+    filters.minYears !== null
+  );
+}
+
+/**
+ * Checks a therapist against the active filters
+ */
+function matchesFilters(
+  therapist: FilterableTherapist,
+  filters: MatchFilters,
+  languagesById: Record<string, string[]>
+): boolean {
+  if (
+    filters.specialties.length > 0 &&
+    !filters.specialties.some((specialty) => therapist.specialties?.includes(specialty))
+  ) {
+    return false;
+  }
+  if (
+    filters.languages.length > 0 &&
+    !filters.languages.some((language) => languagesById[therapist.id]?.includes(language))
+  ) {
+    return false;
+  }
+  if (filters.availableThisWeek && therapist.availabilityStatus !== "available") {
+    return false;
+  }
+  if (filters.minYears !== null && (therapist.yearsOfExperience ?? 0) < filters.minYears) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Backend ranking: best match first, then match score
+ */
+function compareBest(a: FilterableTherapist, b: FilterableTherapist): number {
+  if (a.isBestMatch !== b.isBestMatch) return a.isBestMatch ? -1 : 1;
+  return b.matchScore - a.matchScore;
+}
+
+/**
+ * Orders therapists for a sort order, falling back to backend ranking on ties
+ *
+ * @param therapists - Therapists to sort (not mutated)
+ * @param sort - Sort order
+ * @returns Sorted copy
+ */
+export function sortMatches<T extends FilterableTherapist>(therapists: T[], sort: MatchSortOrder): T[] {
+  return [...therapists].sort((a, b) => {
+    if (sort === "availability") {
+      const rank = (t: FilterableTherapist) => AVAILABILITY_RANK[t.availabilityStatus ?? ""] ?? 3;
+      const difference = rank(a) - rank(b);
+      if (difference !== 0) return difference;
+    }
+    if (sort === "experience") {
+      const difference = (b.yearsOfExperience ?? -1) - (a.yearsOfExperience ?? -1);
+      if (difference !== 0) return difference;
+    }
+    return compareBest(a, b);
+  });
+}
+
+/**
+ * Filters and re-ranks the match list
+ *
+ * @param therapists - Matched therapists from the backend
+ * @param filters - Active filters and sort order
+ * @param languagesById - Languages spoken by therapist ID
+ * @returns Therapists to display, the hidden best match and whether the
+ *   filters matched nobody
+ *
+ * @example
+ * const { therapists, hiddenBestMatch, isEmpty } = applyMatchFilters(matches, filters, languages);
+ */
+export function applyMatchFilters<T extends FilterableTherapist>(
+  therapists: T[],
+  filters: MatchFilters,
+  languagesById: Record<string, string[]> = {}
+): MatchFilterResult<T> {
+  const filtered = therapists.filter((therapist) => matchesFilters(therapist, filters, languagesById));
+
+  if (filtered.length === 0 && therapists.length > 0) {
+    return { therapists: sortMatches(therapists, filters.sort), hiddenBestMatch: null, isEmpty: true };
+  }
+
+  const [bestMatch] = sortMatches(therapists, "best");
+  const hiddenBestMatch = bestMatch && !filtered.includes(bestMatch) ? bestMatch : null;
+
+  return { therapists: sortMatches(filtered, filters.sort), hiddenBestMatch, isEmpty: false };
+}
+
+/**
+ * Collects the options a filter facet can offer, most common first
+ *
+ * @param lists - Values per therapist
+ * @returns Distinct values ordered by how many therapists share them
+ */
+export function collectFilterOptions(lists: Array<string[] | null | undefined>): string[] {
+  const counts = new Map<string, number>();
+  for (const list of lists) {
+    for (const value of new Set(list ?? [])) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value]) => value);
+}
@@ -0,0 +1,182 @@
+/**
+ * Match score breakdown helpers
+ *
+ * The backend scores each match from four components (0-100 each) and
+ * combines them with fixed weights: specialization 40%, age range 30%,
+ * availability 20%, modality 10%. These helpers turn a MatchScoreBreakdown
+ * into per-component weighted contributions and find where two or three
+ * therapists differ, so parents can see why one match ranked above another.
+ */
+import type { MatchScoreBreakdown } from "@/types/graphql";
+
+/**
+ * Score breakdown without GraphQL metadata
+ */
+export type ScoreBreakdown = Omit<MatchScoreBreakdown, "__typename">;
+
+/**
+ * Key of a score component in MatchScoreBreakdown
+ */
+export type ScoreComponentKey = keyof ScoreBreakdown;
+
+/**
+ * Score component definition
+ * @param key - Field in MatchScoreBreakdown
+ * @param label - Parent-friendly component name
+ * @param weight - Share of the overall score (0-1)
+ * @param description - What the component measures
+ */
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  label: string;
+  weight: number;
+  description: string;
+}
+
+/**
+ * Score components in order of weight (mirrors backend weighting)
+ */
+export const MATCH_SCORE_COMPONENTS: readonly ScoreComponent[] = [
+  {
+    key: "specializationScore",
+    label: "Specialization",
+    weight: 0.4,
+    description: "Experience with your child's specific concerns",
+  },
+  {
+    key: "ageRangeScore",
+    label: "Age range",
+    weight: 0.3,
+    description: "Experience working with children your child's age",
+  },
+  {
+    key: "availabilityScore",
+    label: "Availability",
+    weight: 0.2,
+    description: "Openings that fit the times you shared",
+  },
+  {
+    key: "modalityScore",
+    label: "Treatment approach",
+    weight: 0.1,
+    description: "Therapy methods suited to your child's needs",
+  },
+];
+
+/**
+ * Weighted contribution of one component to the overall score
+ * @param score - Raw component score (0-100)
+ * @param contribution - Points added to the overall score (score x weight)
+ * @param maxContribution - Most points the component can add (100 x weight)
+ */
+export interface WeightedContribution extends ScoreComponent {
+  score: number;
+  contribution: number;
+  maxContribution: number;
+}
+
+/**
+ * How one component compares across therapists
+ * @param contributions - Contribution per therapist, in input order
+ * @param spread - Gap in points between the highest and lowest contribution
+ * @param leaderIds - Therapists with the highest contribution
+ * @param differs - Whether the gap is large enough to highlight
+ */
+export interface ComponentComparison extends ScoreComponent {
+  contributions: Array<{ therapistId: string; contribution: number }>;
+  spread: number;
+  leaderIds: string[];
+  differs: boolean;
+}
+
+/**
+ * Smallest gap in points (of the overall 100) worth highlighting
+ */
+export const DIFFERENCE_THRESHOLD_POINTS = 3;
+
+/**
+ * Rounds to one decimal place for display
+ */
+function roundPoints(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Clamps a component score to the 0-100 range
+ */
+function clampScore(score: number): number {
+  return Math.min(100, Math.max(0, score));
+}
+
+/**
+ * Calculates each component's weighted contribution to the overall score
+ *
+ * @param breakdown - Component scores from the backend
+ * @returns Contributions in order of weight
+ *
+ * @example
+ * getWeightedContributions({ specializationScore: 90, ageRangeScore: 80, availabilityScore: 50, modalityScore: 100 })
+ * // [{ key: "specializationScore", contribution: 36, maxContribution: 40, ... }, ...]
+ */
+export function getWeightedContributions(breakdown: ScoreBreakdown): WeightedContribution[] {
+  return MATCH_SCORE_COMPONENTS.map((component) => {
+    const score = clampScore(breakdown[component.key]);
+    return {
+      ...component,
+      score,
+      contribution: roundPoints(score * component.weight),
+      maxContribution: roundPoints(100 * component.weight),
+    };
+  });
+}
+
+/**
+ * Calculates the overall score implied by a breakdown
+ *
+ * @param breakdown - Component scores from the backend
+ * @returns Weighted total (0-100)
+ */
+export function getWeightedTotal(breakdown: ScoreBreakdown): number {
+  return roundPoints(
+    MATCH_SCORE_COMPONENTS.reduce(
+      (total, component) => total + clampScore(breakdown[component.key]) * component.weight,
+      0
+    )
+  );
+}
+
+/**
+ * Compares therapists component by component
+ *
+ * A component "differs" when the gap between the best and worst
+ * contribution is at least DIFFERENCE_THRESHOLD_POINTS.
+ *
+ * @param entries - Therapists with their breakdowns (two or three)
+ * @returns One comparison per component, in order of weight
+ */
+export function compareBreakdowns(
+  entries: Array<{ therapistId: string; breakdown: ScoreBreakdown }>
+): ComponentComparison[] {
+  return MATCH_SCORE_COMPONENTS.map((component) => {
+    const contributions = entries.map(({ therapistId, breakdown }) => ({
+      therapistId,
+      contribution: roundPoints(clampScore(breakdown[component.key]) * component.weight),
+    }));
+
+    const values = contributions.map((entry) => entry.contribution);
+    const highest = values.length > 0 ? Math.max(...values) : 0;
+    const lowest = values.length > 0 ? Math.min(...values) : 0;
+    const spread = roundPoints(highest - lowest);
+
+    return {
+      ...component,
+      contributions,
+      spread,
+      leaderIds:
+        spread > 0
+          ? contributions.filter((entry) => entry.contribution === highest).map((entry) => entry.therapistId)
+          : [],
+      differs: entries.length > 1 && spread >= DIFFERENCE_THRESHOLD_POINTS,
+    };
+  });
+}
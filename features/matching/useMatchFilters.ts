@@ -0,0 +1,63 @@
+/**
+ * Custom hook for match filter state kept in the URL
+ *
+ * Reads filters from the query string and writes changes back with
+ * router.replace, so the current view can be shared with support and
+ * survives a refresh without adding a history entry per click.
+ */
+"use client";
+
+import * as React from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+import {
+  DEFAULT_MATCH_FILTERS,
+  parseMatchFilters,
+  toMatchFilterParams,
+  type MatchFilters,
+} from "./matchFilters";
+
+/**
+ * Return type for useMatchFilters hook
+ */
+export interface UseMatchFiltersResult {
+  /** Current filters from the URL */
+  filters: MatchFilters;
+  /** Replaces the filters in the URL */
+  setFilters: (filters: MatchFilters) => void;
+  /** Removes every filter, keeping the sort order */
+  clearFilters: () => void;
+}
+
+/**
+ * Manages match filters in the URL query
+ *
+ * @returns Filters with update actions
+ *
+ * @example
+ * const { filters, setFilters } = useMatchFilters();
+ * <MatchFilterBar filters={filters} onFiltersChange={setFilters} ... />
+ */
+export function useMatchFilters(): UseMatchFiltersResult {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const query = searchParams.toString();
+  const filters = React.useMemo(() => parseMatchFilters(new URLSearchParams(query)), [query]);
+
+  const setFilters = React.useCallback(
+    (next: MatchFilters) => {
+      const params = toMatchFilterParams(next, new URLSearchParams(query));
+      const search = params.toString();
+      router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false });
+    },
+    [router, pathname, query]
+  );
+
+  const clearFilters = React.useCallback(() => {
+    setFilters({ ...DEFAULT_MATCH_FILTERS, sort: filters.sort });
+  }, [setFilters, filters.sort]);
+
+  return { filters, setFilters, clearFilters };
+}
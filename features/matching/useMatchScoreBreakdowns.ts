@@ -0,0 +1,91 @@
+/**
+ * Custom hook for loading match score breakdowns
+ *
+ * Wraps the GetMatchScoreBreakdowns query and indexes the weighted score
+ * components by therapist ID, so cards and the compare view can explain
+ * how each overall match score was reached. The same query supplies each
+ * therapist's languages, which the compare view needs and the matched
+ * therapists list doesn't include.
+ *
+ * Security:
+ * - No PHI logging
+ * - Backend only returns matches for the user's own session
+ */
+"use client";
+
+import * as React from "react";
+
+import { useGetMatchScoreBreakdownsQuery } from "@/types/graphql";
+import type { ScoreBreakdown } from "./matchScoreBreakdown";
+
+/**
+ * Options for useMatchScoreBreakdowns hook
+ */
+export interface UseMatchScoreBreakdownsOptions {
+  /** Current onboarding session ID */
+  sessionId: string;
+  /** Skip loading (e.g., sample therapists in fallback mode) */
+  skip?: boolean;
+}
+
+/**
+ * Return type for useMatchScoreBreakdowns hook
+ */
+export interface UseMatchScoreBreakdownsResult {
+  /** Score breakdowns by therapist ID */
+  breakdowns: Record<string, ScoreBreakdown>;
+  /** Languages spoken by therapist ID */
+  languages: Record<string, string[]>;
+  /** Whether breakdowns are loading */
+  loading: boolean;
+  /** Error from loading breakdowns */
+  error: Error | null;
+}
+
+/**
+ * Loads score breakdowns for every match in the session
+ *
+ * Breakdowns are supplementary, so a failed load leaves the results page
+ * working with overall scores only.
+ *
+ * @param options - Session and skip configuration
+ * @returns Breakdowns by therapist ID with loading/error states
+ *
+ * @example
+ * const { breakdowns } = useMatchScoreBreakdowns({ sessionId });
+ * <TherapistCard scoreBreakdown={breakdowns[therapist.id]} ... />
+ */
+export function useMatchScoreBreakdowns({
+  sessionId,
+  skip = false,
+}: UseMatchScoreBreakdownsOptions): UseMatchScoreBreakdownsResult {
+  const { data, loading, error } = useGetMatchScoreBreakdownsQuery({
+    variables: { sessionId },
+    skip: skip || !sessionId,
+    fetchPolicy: "cache-first",
+  });
+
+  const { breakdowns, languages } = React.useMemo(() => {
+    const breakdownsById: Record<string, ScoreBreakdown> = {};
+    const languagesById: Record<string, string[]> = {};
+    for (const match of data?.therapistMatches ?? []) {
+      const { specializationScore, ageRangeScore, availabilityScore, modalityScore } =
+        match.scoreBreakdown;
+      breakdownsById[match.therapist.id] = {
+        specializationScore,
+        ageRangeScore,
+        availabilityScore,
+        modalityScore,
+      };
+      languagesById[match.therapist.id] = match.therapist.languages;
+    }
+    return { breakdowns: breakdownsById, languages: languagesById };
+  }, [data]);
+
+  return {
+    breakdowns,
+    languages,
+    loading,
+    error: error ?? null,
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Custom hooks for committing and reading the family's therapist choice
+ *
+ * Selecting a therapist calls the selectTherapist mutation so the backend
+ * records which clinician the family chose, then merges the selection and
+ * the family's rationale into session progress. The schedule page reads
+ * the selection back from the server instead of localStorage.
+ *
+ * Security:
+ * - No PHI logging
+ * - Backend only accepts selections from the session's own matches
+ */
+"use client";
+
+import * as React from "react";
+import type { ErrorLike } from "@apollo/client";
+
+import {
+  useGetTherapistSelectionQuery,
+  useSelectTherapistMutation,
+  useUpdateSessionProgressMutation,
+} from "@/types/graphql";
+
+/**
+ * Key of the selection in session progress data
+ */
+export const THERAPIST_SELECTION_KEY = "therapistSelection";
+
+/**
+ * Attempts at saving the selection to session progress
+ */
+const SELECTION_SAVE_ATTEMPTS = 2;
+
+/**
+ * Therapist selection recorded in session progress
+ * @param therapistId - Selected therapist ID
+ * @param therapistName - Selected therapist's name (for display)
+ * @param reasons - Reasons the family gave for choosing this therapist
+ * @param matchScore - Match score at the time of selection
+ * @param comparedTherapistIds - Other shortlisted therapists considered
+ * @param selectedAt - When the selection was made (ISO datetime)
+ */
+export interface TherapistSelection {
+  therapistId: string;
+  therapistName: string;
+  reasons: string[];
+  matchScore: number | null;
+  comparedTherapistIds: string[];
+  selectedAt: string;
+}
+
+/**
+ * Input for selectTherapist
+ */
+export interface SelectTherapistInput {
+  /** Therapist being chosen */
+  therapistId: string;
+  /** Therapist's name (for display on later steps) */
+  therapistName: string;
+  /** Reasons the family gave for the choice */
+  reasons: string[];
+  /** Match score shown to the family */
+  matchScore?: number | null;
+  /** Other shortlisted therapists the family compared */
+  comparedTherapistIds?: string[];
+}
+
+/**
+ * Return type for useSelectTherapist hook
+ */
+export interface UseSelectTherapistResult {
+  /** Records the selection; rejects if the backend doesn't accept or save it */
+  selectTherapist: (input: SelectTherapistInput) => Promise<TherapistSelection>;
+  /** Whether the selection is being saved */
+  loading: boolean;
+  /** Error from the selectTherapist mutation */
+  error: ErrorLike | undefined;
+}
+
+/**
+ * Return type for useTherapistSelection hook
+ */
+export interface UseTherapistSelectionResult {
+  /** Selection recorded on the server, or null if none */
+  selection: TherapistSelection | null;
+  /** Whether the selection is loading */
+  loading: boolean;
+  /** Error from loading the session */
+  error: ErrorLike | undefined;
+  /** Loads the selection again */
+  refetch: () => void;
+}
+
+/**
+ * Reads a therapist selection from session progress data
+ *
+ * @param progressData - Session progress JSON from the backend
+ * @returns Selection, or null if missing or malformed
+ */
+export function parseTherapistSelection(
+  progressData: Record<string, unknown> | null | undefined
+): TherapistSelection | null {
+  const value = progressData?.[THERAPIST_SELECTION_KEY];
+  if (!value || typeof value !== "object") return null;
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.therapistId !== "string" || !raw.therapistId) return null;
+
+  const toStrings = (list: unknown): string[] =>
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === "string") : [];
+
+  return {
+    therapistId: raw.therapistId,
+    therapistName: typeof raw.therapistName === "string" ? raw.therapistName : "",
+    reasons: toStrings(raw.reasons),
+    matchScore: typeof raw.matchScore === "number" ? raw.matchScore : null,
+    comparedTherapistIds: toStrings(raw.comparedTherapistIds),
+    selectedAt: typeof raw.selectedAt === "string" ? raw.selectedAt : "",
+  };
+}
+
+/**
+ * Commits the family's therapist choice to the backend
+ *
+ * The selectTherapist mutation records the choice, and the selection is
+ * then saved to session progress for the schedule page. That save is
+ * retried once; if it still fails the call rejects so the family can try
+ * again, rather than reaching the schedule page without a selection.
+ *
+ * @param sessionId - Current onboarding session ID
+ * @returns Select function with loading/error states
+ *
+ * @example
+ * const { selectTherapist, loading } = useSelectTherapist(sessionId);
+ * await selectTherapist({ therapistId, therapistName, reasons });
+ * router.push(`/onboarding/${sessionId}/schedule`);
+ */
+export function useSelectTherapist(sessionId: string): UseSelectTherapistResult {
+  const [selectMutation, { loading: selecting, error }] = useSelectTherapistMutation();
+  const [updateProgress, { loading: savingRationale }] = useUpdateSessionProgressMutation();
+
+  const selectTherapist = React.useCallback(
+    async (input: SelectTherapistInput): Promise<TherapistSelection> => {
+      const { data } = await selectMutation({
+        variables: { input: { sessionId, therapistId: input.therapistId } },
+      });
+
+      const payload = data?.selectTherapist;
+      if (!payload?.success) {
+        throw new Error(
+          payload?.errors?.[0] ?? "We couldn't save your choice. Please try again."
+        );
+      }
+
+      const selection: TherapistSelection = {
+        therapistId: payload.therapistMatch?.selectedTherapistId ?? input.therapistId,
+        therapistName: input.therapistName,
+        reasons: input.reasons,
+        matchScore: input.matchScore ?? null,
+        comparedTherapistIds: (input.comparedTherapistIds ?? []).filter(
+          (id) => id !== input.therapistId
+        ),
+        selectedAt: new Date().toISOString(),
+      };
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const result = await updateProgress({
+            variables: {
+              input: {
+                sessionId,
+                progress: { [THERAPIST_SELECTION_KEY]: selection },
+              },
+            },
+          });
+          // GraphQL errors resolve (errorPolicy "all"), so treat them like a failed request
+          if (result.error) throw result.error;
+          if (!result.data?.updateSessionProgress) {
+            throw new Error("Session progress wasn't saved");
+          }
+          return selection;
+        } catch (err) {
+          console.warn("[useSelectTherapist] Failed to save selection:", err);
+          if (attempt >= SELECTION_SAVE_ATTEMPTS) {
+            throw new Error("We couldn't save your choice. Please try again.");
+          }
+        }
+      }
+    },
+    [sessionId, selectMutation, updateProgress]
+  );
+
+  return {
+    selectTherapist,
+    loading: selecting || savingRationale,
+    error,
+  };
+}
+
+/**
+ * Loads the therapist selection recorded for the session
+ *
+ * Uses cache-and-network so a selection made moments ago on the matching
+ * page is picked up even if the session was cached earlier; a cached
+ * session without a selection keeps loading until the server answers.
+ *
+ * @param sessionId - Current onboarding session ID
+ * @returns Selection with loading/error states
+ *
+ * @example
+ * const { selection, loading } = useTherapistSelection(sessionId);
+ */
+export function useTherapistSelection(sessionId: string): UseTherapistSelectionResult {
+  const { data, loading, error, refetch } = useGetTherapistSelectionQuery({
+    variables: { sessionId },
+    skip: !sessionId,
+    fetchPolicy: "cache-and-network",
+  });
+
+  const selection = React.useMemo(
+    () => parseTherapistSelection(data?.session?.progressData),
+    [data]
+  );
+
+  return {
+    selection,
+    loading: loading && !selection,
+    error,
+    refetch: () => {
+      // Failures are reported through error
+      refetch().catch(() => undefined);
+    },
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Custom hooks for loading full therapist profiles
+ *
+ * Wraps the GetTherapistProfile query so the profile sheet can lazy-load
+ * a therapist's real bio, education, languages, match reasons and next
+ * available slots when it opens, and so therapist cards can prefetch the
+ * profile on hover.
+ *
+ * Features:
+ * - Lazy loading (query runs only once a therapist is selected)
+ * - Prefetch on card hover/focus into the Apollo cache
+ * - Per-therapist caching (cache-first, keyed by therapist and session)
+ * - Mapping from GraphQL shape to TherapistProfileData
+ *
+ * Security:
+ * - No PHI logging
+ * - Backend only returns profiles for the session's matches
+ */
+"use client";
+
+import * as React from "react";
+import { useApolloClient } from "@apollo/client/react";
+
+import {
+  GetTherapistProfileDocument,
+  useGetTherapistProfileQuery,
+  type GetTherapistProfileQuery,
+  type GetTherapistProfileQueryVariables,
+} from "@/types/graphql";
+import type { TherapistProfileData } from "./TherapistProfileSheet";
+
+/**
+ * Therapist profile as returned by GetTherapistProfile
+ */
+type TherapistProfileResult = NonNullable<GetTherapistProfileQuery["therapistProfile"]>;
+
+/**
+ * Options for useTherapistProfile hook
+ */
+export interface UseTherapistProfileOptions {
+  /** Current onboarding session ID */
+  sessionId: string;
+  /** Therapist to load, or null when no profile is open */
+  therapistId: string | null;
+  /** Skip loading (e.g., sample therapists in fallback mode) */
+  skip?: boolean;
+}
+
+/**
+ * Return type for useTherapistProfile hook
+ */
+export interface UseTherapistProfileResult {
+  /** Loaded profile mapped for the profile sheet */
+  profile: TherapistProfileData | null;
+  /** Whether the profile is loading */
+  loading: boolean;
+  /** Error from the last load attempt */
+  error: Error | null;
+  /** Retries loading the profile */
+  refetch: () => void;
+}
+
+/**
+ * Formats an education entry for display
+ *
+ * @example
+ * formatEducation({ degree: "Ph.D. in Clinical Psychology", institution: "Stanford", year: 2015 })
+ * // "Ph.D. in Clinical Psychology, Stanford (2015)"
+ */
+function formatEducation(education: TherapistProfileResult["education"][number]): string {
+  const base = `${education.degree}, ${education.institution}`;
+  return education.year ? `${base} (${education.year})` : base;
+}
+
+/**
+ * Maps a GetTherapistProfile result to profile sheet data
+ *
+ * Slots that have already started are dropped, since a cached profile
+ * can outlive its first slots.
+ *
+ * @param profile - Therapist profile from the query
+ * @param now - Current time (for filtering past slots)
+ * @returns Profile data for TherapistProfileSheet
+ */
+export function toTherapistProfileData(
+  profile: TherapistProfileResult,
+  now: Date = new Date()
+): TherapistProfileData {
+  return {
+    id: profile.id,
+    name: profile.name,
+    credentials: profile.credentials,
+    photoUrl: profile.photoUrl,
+    bio: profile.bio,
+    specialties: profile.specialties,
+    yearsOfExperience: profile.yearsOfExperience,
+    approach: profile.approach,
+    languages: profile.languages,
+    education: profile.education.map(formatEducation),
+    certifications: profile.certifications,
+    matchReasons: profile.matchReasons,
+    availableSlots: profile.availableSlots
+      .filter((slot) => new Date(slot.startTime).getTime() > now.getTime())
+      .map((slot) => ({
+        id: `${slot.therapistId}-${slot.startTime}`,
+        datetime: slot.startTime,
+      })),
+  };
+}
+
+/**
+ * Loads the full profile for the selected therapist
+ *
+ * Results are cached per therapist, so reopening a profile (or opening
+ * one that was prefetched on hover) renders instantly.
+ *
+ * @param options - Session, therapist and skip configuration
+ * @returns Mapped profile with loading/error states
+ *
+ * @example
+ * const { profile, loading, error, refetch } = useTherapistProfile({
+ *   sessionId,
+ *   therapistId: selectedTherapistId,
+ * });
+ */
+export function useTherapistProfile({
+  sessionId,
+  therapistId,
+  skip = false,
+}: UseTherapistProfileOptions): UseTherapistProfileResult {
+  const { data, loading, error, refetch } = useGetTherapistProfileQuery({
+    variables: { sessionId, therapistId: therapistId ?? "" },
+    skip: skip || !therapistId || !sessionId,
+    fetchPolicy: "cache-first",
+  });
+
+  const profile = React.useMemo(() => {
+    const result = data?.therapistProfile;
+    // Ignore cached data for a different therapist while the next one loads
+    if (!result || result.id !== therapistId) return null;
+    return toTherapistProfileData(result);
+  }, [data, therapistId]);
+
+  const handleRefetch = React.useCallback(() => {
+    refetch().catch(() => {
+      // Error is surfaced through the query error state
+    });
+  }, [refetch]);
+
+  return {
+    profile,
+    loading,
+    error: error ?? null,
+    refetch: handleRefetch,
+  };
+}
+
+/**
+ * Returns a function that prefetches a therapist profile into the cache
+ *
+ * Each therapist is prefetched at most once per mount; failures are
+ * ignored since the sheet loads (and reports errors) on open anyway.
+ *
+ * @param sessionId - Current onboarding session ID
+ * @returns Prefetch function taking a therapist ID
+ *
+ * @example
+ * const prefetchProfile = usePrefetchTherapistProfile(sessionId);
+ * <TherapistCard onPrefetchProfile={prefetchProfile} ... />
+ */
+export function usePrefetchTherapistProfile(sessionId: string): (therapistId: string) => void {
+  const client = useApolloClient();
+  const prefetched = React.useRef(new Set<string>());
+
+  return React.useCallback(
+    (therapistId: string) => {
+      if (!sessionId || prefetched.current.has(therapistId)) return;
+      prefetched.current.add(therapistId);
+
+      client
+        .query<GetTherapistProfileQuery, GetTherapistProfileQueryVariables>({
+          query: GetTherapistProfileDocument,
+          variables: { sessionId, therapistId },
+          fetchPolicy: "cache-first",
+        })
+        .then(
+          ({ error }) => {
+            // Allow another attempt on the next hover
+            if (error) prefetched.current.delete(therapistId);
+          },
+          () => prefetched.current.delete(therapistId)
+        );
+    },
+    [client, sessionId]
+  );
+}
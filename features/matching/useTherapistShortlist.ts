@@ -0,0 +1,132 @@
+/**
+ * Custom hook for the therapist shortlist
+ *
+ * Lets families save up to three matched therapists while they decide,
+ * then compare the saved therapists side by side. The shortlist is kept
+ * per session in localStorage so it survives a refresh; it only holds
+ * therapist IDs.
+ */
+"use client";
+
+import * as React from "react";
+
+/**
+ * Most therapists that can be shortlisted
+ */
+export const MAX_SHORTLIST_SIZE = 3;
+
+/**
+ * Builds the localStorage key for a session's shortlist
+ */
+export function getShortlistStorageKey(sessionId: string): string {
+  return `daybreak_shortlist_${sessionId}`;
+}
+
+/**
+ * Return type for useTherapistShortlist hook
+ */
+export interface UseTherapistShortlistResult {
+  /** Shortlisted therapist IDs, in the order they were saved */
+  shortlist: string[];
+  /** Whether the shortlist has reached MAX_SHORTLIST_SIZE */
+  isFull: boolean;
+  /** Checks whether a therapist is shortlisted */
+  isShortlisted: (therapistId: string) => boolean;
+  /** Adds or removes a therapist (adding is ignored when full) */
+  toggle: (therapistId: string) => void;
+  /** Removes a therapist */
+  remove: (therapistId: string) => void;
+  /** Removes all therapists */
+  clear: () => void;
+}
+
+/**
+ * Reads a stored shortlist, ignoring malformed data
+ */
+function readShortlist(sessionId: string): string[] {
+  if (typeof window === "undefined" || !sessionId) return [];
+  try {
+    const stored = localStorage.getItem(getShortlistStorageKey(sessionId));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((id): id is string => typeof id === "string").slice(0, MAX_SHORTLIST_SIZE)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Manages the session's therapist shortlist
+ *
+ * @param sessionId - Current onboarding session ID
+ * @param availableIds - Therapist IDs currently matched; saved IDs for
+ *   therapists no longer in the results are dropped
+ * @returns Shortlist state and actions
+ *
+ * @example
+ * const { shortlist, isShortlisted, toggle, isFull } = useTherapistShortlist(sessionId);
+ * <TherapistCard isShortlisted={isShortlisted(id)} onToggleShortlist={toggle} isShortlistFull={isFull} />
+ */
+export function useTherapistShortlist(
+  sessionId: string,
+  availableIds?: string[]
+): UseTherapistShortlistResult {
+  const [saved, setSaved] = React.useState<string[]>(() => readShortlist(sessionId));
+
+  // Persist on change
+  React.useEffect(() => {
+    if (!sessionId) return;
+    try {
+      const key = getShortlistStorageKey(sessionId);
+      if (saved.length > 0) {
+        localStorage.setItem(key, JSON.stringify(saved));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn("[useTherapistShortlist] Failed to persist shortlist:", error);
+    }
+  }, [sessionId, saved]);
+
+  const shortlist = React.useMemo(
+    () => (availableIds ? saved.filter((id) => availableIds.includes(id)) : saved),
+    [saved, availableIds]
+  );
+
+  const isShortlisted = React.useCallback(
+    (therapistId: string) => shortlist.includes(therapistId),
+    [shortlist]
+  );
+
+  const toggle = React.useCallback(
+    (therapistId: string) => {
+      setSaved((current) => {
+        if (current.includes(therapistId)) {
+          return current.filter((id) => id !== therapistId);
+        }
+        const active = availableIds ? current.filter((id) => availableIds.includes(id)) : current;
+        if (active.length >= MAX_SHORTLIST_SIZE) return current;
+        return [...active, therapistId];
+      });
+    },
+    [availableIds]
+  );
+
+  const remove = React.useCallback((therapistId: string) => {
+    setSaved((current) => current.filter((id) => id !== therapistId));
+  }, []);
+
+  const clear = React.useCallback(() => {
+    setSaved([]);
+  }, []);
+
+  return {
+    shortlist,
+    isFull: shortlist.length >= MAX_SHORTLIST_SIZE,
+    isShortlisted,
+    toggle,
+    remove,
+    clear,
+  };
+}
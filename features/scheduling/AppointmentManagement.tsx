@@ -0,0 +1,294 @@
+/**
+ * AppointmentManagement Component
+ *
+ * Post-booking screen where a parent can review, reschedule or cancel
+ * their appointment. Orchestrates useAppointmentManagement with the
+ * existing AppointmentDetailsCard, CalendarLinks and the reschedule /
+ * cancel sub-flows.
+ *
+ * Flow:
+ * 1. View: appointment details, calendar links, Reschedule / Cancel actions
+ * 2. Reschedule: pick a new date and time → appointment moves in place
+ * 3. Cancel: cancellation-policy dialog with reason → cancelled state
+ *
+ * Calendar files share the appointment's UID and carry an increasing
+ * SEQUENCE, so after a reschedule the parent can update the existing
+ * calendar entry, and after a cancellation remove it.
+ *
+ * @module features/scheduling/AppointmentManagement
+ */
+
+"use client";
+
+import * as React from "react";
+import { CalendarClock, CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { getAppointmentUid } from "@/lib/utils/calendar-links";
+import { AppointmentDetailsCard } from "./AppointmentDetailsCard";
+import { CalendarLinks } from "./CalendarLinks";
+import { CancelAppointmentDialog } from "./CancelAppointmentDialog";
+import { RescheduleAppointmentPanel } from "./RescheduleAppointmentPanel";
+import { useDetectedTimezone } from "./TimezoneSelector";
+import { useAppointmentManagement } from "./useAppointmentManagement";
+import type { TimeSlot } from "./TimeSlotPicker";
+
+/**
+ * Props for AppointmentManagement component
+ */
+export interface AppointmentManagementProps {
+  /** Onboarding session ID that owns the appointment */
+  sessionId: string;
+  /** Callback to start a fresh booking (no appointment or after cancelling) */
+  onBookNew: () => void;
+}
+
+/**
+ * Result of the most recent change, shown as a status banner
+ */
+type LastChange = "rescheduled" | "cancelled" | null;
+
+/**
+ * Renders the appointment management screen
+ *
+ * Accessibility:
+ * - Status changes announced via role="status"
+ * - Errors announced via role="alert"
+ * - Proper heading hierarchy
+ *
+ * @example
+ * <AppointmentManagement
+ *   sessionId="sess_abc123"
+ *   onBookNew={() => router.push(`/onboarding/${sessionId}/schedule`)}
+ * />
+ */
+export function AppointmentManagement({
+  sessionId,
+  onBookNew,
+}: AppointmentManagementProps) {
+  const timezone = useDetectedTimezone();
+  const [mode, setMode] = React.useState<"view" | "reschedule">("view");
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = React.useState(false);
+  const [lastChange, setLastChange] = React.useState<LastChange>(null);
+
+  const {
+    appointment,
+    loading,
+    error,
+    cancelAppointment,
+    rescheduleAppointment,
+    isCancelling,
+    isRescheduling,
+    mutationError,
+  } = useAppointmentManagement(sessionId);
+
+  /**
+   * Handles a confirmed new slot
+   */
+  async function handleReschedule(slot: TimeSlot) {
+    try {
+      await rescheduleAppointment(slot.startTime);
+      setLastChange("rescheduled");
+      setMode("view");
+    } catch {
+      // Error surfaced via mutationError
+    }
+  }
+
+  /**
+   * Handles a confirmed cancellation
+   */
+  async function handleCancel(reason: string) {
+    try {
+      await cancelAppointment(reason);
+      setLastChange("cancelled");
+      setIsCancelDialogOpen(false);
+    } catch {
+      setIsCancelDialogOpen(false);
+    }
+  }
+
+  if (loading && !appointment) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-daybreak-teal" />
+        <p className="text-muted-foreground">Loading your appointment...</p>
+      </div>
+    );
+  }
+
+  if (!appointment) {
+    return (
+      <div className="flex flex-col items-center space-y-6 py-12 text-center">
+        <div className="flex h-16 w-16 items-center justify-center rounded-full bg-amber-50">
+          <CalendarClock className="h-8 w-8 text-amber-600" />
+        </div>
+        <div className="space-y-2">
+          <h1 className="text-2xl font-semibold font-serif text-deep-text">
+            No Appointment Found
+          </h1>
+          <p className="text-muted-foreground">
+            {error
+              ? "We couldn't load your appointment. Please try again shortly."
+              : "You don't have an upcoming appointment yet."}
+          </p>
+        </div>
+        <Button
+          onClick={onBookNew}
+          className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+        >
+          Schedule an Appointment
+        </Button>
+      </div>
+    );
+  }
+
+  const isCancelled = appointment.status === "cancelled";
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center space-y-2">
+        <h1 className="text-3xl font-serif font-bold text-deep-text">
+          {mode === "reschedule" ? "Choose a New Time" : "Your Appointment"}
+        </h1>
+        <p className="text-muted-foreground">
+          Confirmation #{appointment.confirmationNumber}
+        </p>
+      </div>
+
+      {/* Status banners */}
+      {lastChange === "rescheduled" && !isCancelled && (
+        <div
+          className="flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4"
+          role="status"
+        >
+          <CheckCircle2 className="h-5 w-5 shrink-0 text-green-600" aria-hidden="true" />
+          <p className="text-sm text-green-800">
+            Your appointment has been moved. Update your calendar using the
+            links below so you have the new time.
+          </p>
+        </div>
+      )}
+
+      {isCancelled && (
+        <div
+          className="flex items-start gap-3 rounded-lg border border-gray-200 bg-gray-50 p-4"
+          role="status"
+        >
+          <XCircle className="h-5 w-5 shrink-0 text-gray-500" aria-hidden="true" />
+          <p className="text-sm text-muted-foreground">
+            {lastChange === "cancelled"
+              ? "Your appointment has been cancelled. Use the links below to remove it from your calendar."
+              : "This appointment was cancelled."}
+          </p>
+        </div>
+      )}
+
+      {mutationError && (
+        <div
+          className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800"
+          role="alert"
+        >
+          {mutationError.message}
+        </div>
+      )}
+
+      {mode === "reschedule" ? (
+        <RescheduleAppointmentPanel
+          therapistId={appointment.therapist.id}
+          currentStartTime={appointment.startTime}
+          timezone={timezone}
+          sessionId={sessionId}
+          onConfirm={handleReschedule}
+          onCancel={() => setMode("view")}
+          isSubmitting={isRescheduling}
+        />
+      ) : (
+        <>
+          <AppointmentDetailsCard
+            therapist={appointment.therapist}
+            startTime={appointment.startTime}
+            endTime={appointment.endTime}
+            duration={appointment.duration}
+            className={isCancelled ? "opacity-60" : undefined}
+          />
+
+          {isCancelled ? (
+            <>
+              {lastChange === "cancelled" && (
+                <CalendarLinks
+                  therapistName={appointment.therapist.name}
+                  startTime={appointment.startTime}
+                  endTime={appointment.endTime}
+                  meetingUrl={appointment.meetingUrl}
+                  uid={getAppointmentUid(appointment.id)}
+                  sequence={appointment.calendarSequence}
+                  timezone={timezone}
+                  cancelled
+                />
+              )}
+              <Button
+                onClick={onBookNew}
+                className="w-full bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+                size="lg"
+              >
+                Book a New Appointment
+              </Button>
+            </>
+          ) : (
+            <>
+              <CalendarLinks
+                key={appointment.startTime}
+                therapistName={appointment.therapist.name}
+                startTime={appointment.startTime}
+                endTime={appointment.endTime}
+                meetingUrl={appointment.meetingUrl}
+                uid={getAppointmentUid(appointment.id)}
+                sequence={appointment.calendarSequence}
+                timezone={timezone}
+              />
+
+              <div className="flex flex-col gap-3 sm:flex-row">
+                <Button
+                  onClick={() => setMode("reschedule")}
+                  disabled={!appointment.reschedulable}
+                  className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white flex-1"
+                  size="lg"
+                >
+                  Reschedule
+                </Button>
+                <Button
+                  onClick={() => setIsCancelDialogOpen(true)}
+                  disabled={!appointment.cancellable}
+                  variant="outline"
+                  size="lg"
+                  className="flex-1 text-destructive hover:text-destructive"
+                >
+                  Cancel Appointment
+                </Button>
+              </div>
+
+              {(!appointment.reschedulable || !appointment.cancellable) && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Some changes are no longer available online for this
+                  appointment. Please contact support for help.
+                </p>
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      <CancelAppointmentDialog
+        open={isCancelDialogOpen}
+        onOpenChange={setIsCancelDialogOpen}
+        startTime={appointment.startTime}
+        onConfirm={handleCancel}
+        isCancelling={isCancelling}
+      />
+    </div>
+  );
+}
+
+AppointmentManagement.displayName = "AppointmentManagement";
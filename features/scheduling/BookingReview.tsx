@@ -2,7 +2,8 @@
  * BookingReview Component
  *
  * Displays appointment details for user review before confirming the booking.
- * Shows therapist info, date/time, and duration with a confirm button.
+ * Shows therapist info, date/time, and duration with a confirm button, plus
+ * optional repeat options and a series summary for recurring bookings.
  *
  * Visual Design:
  * - Clean review card with appointment details
@@ -21,7 +22,9 @@ import { ArrowLeft, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { celebrateBooking, clearConfetti } from "@/lib/utils/confetti";
 import { AppointmentDetailsCard } from "./AppointmentDetailsCard";
+import { SeriesSummary } from "./SeriesSummary";
 import type { TherapistInfo } from "./AppointmentDetailsCard";
+import type { BookedSeries } from "./utils/seriesPlanner";
 
 /**
  * Props for BookingReview component
@@ -45,6 +48,16 @@ export interface BookingReviewProps {
   isSuccess?: boolean;
   /** Callback when user clicks Done after successful booking */
   onDone?: () => void;
+  /** Callback to open appointment management (reschedule/cancel) after booking */
+  onManageAppointment?: () => void;
+  /** Repeat options shown before confirming (e.g., SeriesPlanner) */
+  seriesOptions?: React.ReactNode;
+  /** Booked series to summarize after a recurring booking */
+  bookedSeries?: BookedSeries | null;
+  /** Confirm button label (defaults to "Confirm Booking") */
+  confirmLabel?: string;
+  /** Booking error message */
+  error?: string | null;
 }
 
 /**
@@ -81,6 +94,11 @@ export function BookingReview({
   isConfirming = false,
   isSuccess = false,
   onDone,
+  onManageAppointment,
+  seriesOptions,
+  bookedSeries,
+  confirmLabel = "Confirm Booking",
+  error,
 }: BookingReviewProps) {
   /**
    * Trigger confetti celebration when booking succeeds
@@ -112,7 +130,9 @@ export function BookingReview({
         </h1>
         <p className="text-muted-foreground">
           {isSuccess
-            ? "Your appointment has been confirmed"
+            ? bookedSeries
+              ? "Your sessions have been confirmed"
+              : "Your appointment has been confirmed"
             : "Please confirm your appointment details below"}
         </p>
       </div>
@@ -125,6 +145,21 @@ export function BookingReview({
         duration={duration}
       />
 
+      {/* Repeat Options - shown only before confirmation */}
+      {!isSuccess && seriesOptions}
+
+      {/* Series Summary - shown after a recurring booking */}
+      {isSuccess && bookedSeries && (
+        <SeriesSummary series={bookedSeries} therapistName={therapist.name} />
+      )}
+
+      {/* Booking Error */}
+      {error && !isSuccess && (
+        <div className="rounded-lg bg-red-50 border border-red-200 p-4" role="alert">
+          <p className="text-sm text-red-700 text-center">{error}</p>
+        </div>
+      )}
+
       {/* Confirmation Note - shown only before confirmation */}
       {!isSuccess && (
         <div className="rounded-lg bg-daybreak-teal/5 border border-daybreak-teal/20 p-4">
@@ -164,7 +199,7 @@ export function BookingReview({
               className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white flex-1"
               size="lg"
             >
-              {isConfirming ? "Confirming..." : "Confirm Booking"}
+              {isConfirming ? "Confirming..." : confirmLabel}
             </Button>
             <Button
               onClick={onBack}
@@ -179,6 +214,19 @@ export function BookingReview({
           </>
         )}
       </div>
+
+      {/* Manage Appointment Link - shown after confirmation */}
+      {isSuccess && onManageAppointment && (
+        <div className="text-center">
+          <Button
+            variant="link"
+            onClick={onManageAppointment}
+            className="text-daybreak-teal"
+          >
+            Need to reschedule or cancel?
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -19,13 +19,17 @@
 
 import * as React from "react";
 import { CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getAppointmentUid } from "@/lib/utils/calendar-links";
 import { celebrateBooking, clearConfetti } from "@/lib/utils/confetti";
 import { AppointmentDetailsCard } from "./AppointmentDetailsCard";
 import { CalendarLinks } from "./CalendarLinks";
+import { SeriesSummary } from "./SeriesSummary";
 import { WhatsNext } from "./WhatsNext";
 import { EmailConfirmationMessage } from "./EmailConfirmationMessage";
 import type { TherapistInfo } from "./AppointmentDetailsCard";
 import type { EmailConfirmationStatus } from "./EmailConfirmationMessage";
+import type { BookedSeries } from "./utils/seriesPlanner";
 
 /**
  * Appointment data for success display
@@ -47,6 +51,10 @@ export interface BookingSuccessProps {
   appointment: AppointmentData;
   /** Email confirmation status from booking mutation */
   emailConfirmation?: EmailConfirmationStatus | null;
+  /** Callback to open appointment management (reschedule/cancel) */
+  onManageAppointment?: () => void;
+  /** Booked series when the appointment is the first of a recurring series */
+  series?: BookedSeries | null;
 }
 
 /**
@@ -87,6 +95,8 @@ export interface BookingSuccessProps {
 export function BookingSuccess({
   appointment,
   emailConfirmation,
+  onManageAppointment,
+  series,
 }: BookingSuccessProps) {
   /**
    * Trigger confetti celebration on mount
@@ -145,13 +155,22 @@ export function BookingSuccess({
         emailConfirmation={emailConfirmation ?? null}
       />
 
-      {/* Calendar Links */}
-      <CalendarLinks
-        therapistName={appointment.therapist.name}
-        startTime={appointment.startTime}
-        endTime={appointment.endTime}
-        meetingUrl={appointment.meetingUrl}
-      />
+      {/* Calendar Links - a series is added as one recurring event */}
+      {series ? (
+        <SeriesSummary
+          series={series}
+          therapistName={appointment.therapist.name}
+          meetingUrl={appointment.meetingUrl}
+        />
+      ) : (
+        <CalendarLinks
+          therapistName={appointment.therapist.name}
+          startTime={appointment.startTime}
+          endTime={appointment.endTime}
+          meetingUrl={appointment.meetingUrl}
+          uid={getAppointmentUid(appointment.id)}
+        />
+      )}
 
       {/* What's Next Section */}
       <WhatsNext />
@@ -164,6 +183,15 @@ export function BookingSuccess({
         <p className="text-sm text-muted-foreground">
           We&apos;re excited to support your family on this journey
         </p>
+        {onManageAppointment && (
+          <Button
+            variant="link"
+            onClick={onManageAppointment}
+            className="text-daybreak-teal"
+          >
+            Need to reschedule or cancel?
+          </Button>
+        )}
       </div>
     </div>
   );
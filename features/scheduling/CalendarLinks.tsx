@@ -2,7 +2,12 @@
  * CalendarLinks Component
  *
  * Provides "Add to Calendar" buttons for Google Calendar, Apple Calendar (iCal),
- * and Outlook. Generates appropriate links/downloads for each platform.
+ * and Outlook. Generates appropriate links/downloads for each platform from
+ * one set of event details, so every platform gets the same event.
+ *
+ * With a stable `uid` and increasing `sequence`, downloading again after a
+ * reschedule updates the existing entry; a `cancelled` event offers a
+ * download that removes it (Google Calendar links can't, so they're hidden).
  *
  * Visual Design:
  * - Three button options in a column
@@ -23,6 +28,7 @@ import {
   generateGoogleCalendarUrl,
   downloadICSFile,
   type CalendarEventDetails,
+  type CalendarRecurrence,
 } from "@/lib/utils/calendar-links";
 
 /**
@@ -37,6 +43,16 @@ export interface CalendarLinksProps {
   endTime: string;
   /** Video call meeting URL */
   meetingUrl?: string;
+  /** Recurrence when adding a whole appointment series as one event */
+  recurrence?: CalendarRecurrence;
+  /** Stable event UID (see getAppointmentUid) */
+  uid?: string;
+  /** Event revision (see getAppointmentSequence) */
+  sequence?: number;
+  /** IANA timezone for the event's local times */
+  timezone?: string;
+  /** Whether the appointment was cancelled (offers removal instead) */
+  cancelled?: boolean;
   /** Optional additional CSS classes */
   className?: string;
 }
@@ -67,6 +83,11 @@ export function CalendarLinks({
   startTime,
   endTime,
   meetingUrl = "",
+  recurrence,
+  uid,
+  sequence,
+  timezone,
+  cancelled = false,
   className,
 }: CalendarLinksProps) {
   /**
@@ -85,8 +106,17 @@ export function CalendarLinks({
     location: meetingUrl,
     startTime,
     endTime,
+    recurrence,
+    uid,
+    sequence,
+    timezone,
+    cancelled,
   };
 
+  const filename = cancelled
+    ? "daybreak-appointment-cancellation.ics"
+    : "daybreak-appointment.ics";
+
   /**
    * Handles Google Calendar button click
    * Opens Google Calendar in a new tab
@@ -101,7 +131,7 @@ export function CalendarLinks({
    * Downloads ICS file for Apple Calendar
    */
   function handleAppleCalendar() {
-    downloadICSFile(eventDetails, "daybreak-appointment.ics");
+    downloadICSFile(eventDetails, filename);
   }
 
   /**
@@ -109,25 +139,27 @@ export function CalendarLinks({
    * Downloads ICS file for Outlook
    */
   function handleOutlook() {
-    downloadICSFile(eventDetails, "daybreak-appointment.ics");
+    downloadICSFile(eventDetails, filename);
   }
 
   return (
     <div className={className}>
       <h3 className="text-sm font-medium text-deep-text mb-3">
-        Add to your calendar
+        {cancelled ? "Remove from your calendar" : "Add to your calendar"}
       </h3>
 
       <div className="flex flex-col gap-2">
-        {/* Google Calendar Button */}
-        <Button
-          variant="outline"
-          onClick={handleGoogleCalendar}
-          className="w-full justify-start gap-2 hover:bg-gray-50"
-        >
-          <Calendar className="h-4 w-4" aria-hidden="true" />
-          <span>Google Calendar</span>
-        </Button>
+        {/* Google Calendar Button - links can only add events */}
+        {!cancelled && (
+          <Button
+            variant="outline"
+            onClick={handleGoogleCalendar}
+            className="w-full justify-start gap-2 hover:bg-gray-50"
+          >
+            <Calendar className="h-4 w-4" aria-hidden="true" />
+            <span>Google Calendar</span>
+          </Button>
+        )}
 
         {/* Apple Calendar Button */}
         <Button
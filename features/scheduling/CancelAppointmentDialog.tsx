@@ -0,0 +1,197 @@
+/**
+ * CancelAppointmentDialog Component
+ *
+ * Confirmation dialog shown before an appointment is cancelled.
+ * Explains the cancellation policy, warns about late cancellations
+ * and collects a reason that is sent with the cancelAppointment mutation.
+ *
+ * Visual Design:
+ * - Alert dialog with policy summary
+ * - Amber warning when inside the 24-hour notice window
+ * - Radio list of preset reasons with optional free-text "Other"
+ * - Destructive confirm button
+ *
+ * @module features/scheduling/CancelAppointmentDialog
+ */
+
+"use client";
+
+import * as React from "react";
+import { AlertTriangle } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  CANCELLATION_NOTICE_HOURS,
+  CANCELLATION_REASONS,
+  formatCancellationReason,
+  isLateCancellation,
+  type CancellationReasonValue,
+} from "./utils/cancellationPolicy";
+
+/**
+ * Props for CancelAppointmentDialog component
+ */
+export interface CancelAppointmentDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Appointment start time (ISO string), used for the late-cancel warning */
+  startTime: string;
+  /** Callback with the formatted reason when the parent confirms */
+  onConfirm: (reason: string) => void;
+  /** Whether the cancellation is in progress */
+  isCancelling?: boolean;
+}
+
+/**
+ * Renders the cancellation-policy confirmation dialog
+ *
+ * Accessibility:
+ * - Radix AlertDialog traps focus and requires an explicit choice
+ * - Reasons are a native radio group with a legend
+ * - Late-cancellation warning uses role="alert"
+ *
+ * @example
+ * <CancelAppointmentDialog
+ *   open={isCancelOpen}
+ *   onOpenChange={setIsCancelOpen}
+ *   startTime={appointment.startTime}
+ *   onConfirm={(reason) => cancelAppointment(reason)}
+ * />
+ */
+export function CancelAppointmentDialog({
+  open,
+  onOpenChange,
+  startTime,
+  onConfirm,
+  isCancelling = false,
+}: CancelAppointmentDialogProps) {
+  const [reason, setReason] = React.useState<CancellationReasonValue | null>(
+    null
+  );
+  const [otherText, setOtherText] = React.useState("");
+
+  /**
+   * Reset selection whenever the dialog is reopened
+   */
+  React.useEffect(() => {
+    if (open) {
+      setReason(null);
+      setOtherText("");
+    }
+  }, [open]);
+
+  const isLate = isLateCancellation(startTime);
+  const canConfirm =
+    reason !== null && (reason !== "other" || otherText.trim().length > 0);
+
+  /**
+   * Handles confirm button click
+   */
+  function handleConfirm() {
+    if (!reason) return;
+    onConfirm(formatCancellationReason(reason, otherText));
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this appointment?</AlertDialogTitle>
+          <AlertDialogDescription>
+            We ask for at least {CANCELLATION_NOTICE_HOURS} hours&apos; notice
+            when cancelling so another family can use the time. If you just
+            need a different time, you can reschedule instead.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isLate && (
+          <div
+            className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800"
+            role="alert"
+          >
+            <AlertTriangle
+              className="h-4 w-4 shrink-0 mt-0.5"
+              aria-hidden="true"
+            />
+            <p>
+              Your appointment is less than {CANCELLATION_NOTICE_HOURS} hours
+              away, so this will be recorded as a late cancellation.
+            </p>
+          </div>
+        )}
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-deep-text mb-2">
+            Why are you cancelling?
+          </legend>
+          {CANCELLATION_REASONS.map((option) => (
+            <label
+              key={option.value}
+              className={cn(
+                "flex items-center gap-3 rounded-md border px-3 py-2 text-sm cursor-pointer transition-colors",
+                reason === option.value
+                  ? "border-daybreak-teal bg-daybreak-teal/5"
+                  : "border-gray-200 hover:bg-gray-50"
+              )}
+            >
+              <input
+                type="radio"
+                name="cancellation-reason"
+                value={option.value}
+                checked={reason === option.value}
+                onChange={() => setReason(option.value)}
+                className="accent-daybreak-teal"
+              />
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+
+        {reason === "other" && (
+          <div className="space-y-1">
+            <Label htmlFor="cancellation-other">Tell us more</Label>
+            <Textarea
+              id="cancellation-other"
+              value={otherText}
+              onChange={(e) => setOtherText(e.target.value)}
+              maxLength={200}
+              placeholder="Please don't include medical details"
+            />
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isCancelling}
+          >
+            Keep Appointment
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!canConfirm || isCancelling}
+            className="bg-destructive text-white hover:bg-destructive/90"
+          >
+            {isCancelling ? "Cancelling..." : "Cancel Appointment"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+CancelAppointmentDialog.displayName = "CancelAppointmentDialog";
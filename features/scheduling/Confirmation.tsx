@@ -8,6 +8,15 @@
  * 1. Shows appointment details with "Confirm Booking" button
  * 2. User clicks confirm → shows success with confetti + "Done" button
  * 3. User clicks Done → redirects to daybreakhealth.com
+ * 4. Optional: user opens appointment management to reschedule or cancel
+ *
+ * Saved onboarding data is wiped once the family leaves the page after
+ * booking, not when the booking completes, so a refresh of the success
+ * screen still finds the booking details.
+ *
+ * Families can also repeat the appointment weekly or every other week.
+ * The series is planned against the therapist's availability and booked
+ * one session at a time; the success screen summarizes the series.
  *
  * @module features/scheduling/Confirmation
  */
@@ -17,7 +26,17 @@
 import * as React from "react";
 import { useRouter } from "next/navigation";
 
+import { wipeSessionData } from "@/lib/storage";
 import { BookingReview } from "./BookingReview";
+import { SeriesPlanner } from "./SeriesPlanner";
+import { useBookingSeries } from "./useBookingSeries";
+import { useSeriesPlan } from "./useSeriesPlan";
+import {
+  resolveSeriesBookings,
+  type AlternateChoices,
+  type BookedSeries,
+  type SeriesRecurrence,
+} from "./utils/seriesPlanner";
 
 /**
  * Booking request details from previous scheduling step
@@ -81,16 +100,84 @@ export function Confirmation({
   const [isSuccess, setIsSuccess] = React.useState(false);
 
   /**
-   * Handles confirm button click - immediately show success
+   * Repeat pattern (null = single session) and alternates chosen for
+   * conflicting weeks
+   */
+  const [recurrence, setRecurrence] = React.useState<SeriesRecurrence | null>(null);
+  const [choices, setChoices] = React.useState<AlternateChoices>({});
+  const [bookedSeries, setBookedSeries] = React.useState<BookedSeries | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const timezone = bookingRequest.timezone ?? "UTC";
+  const { plan, loading: planLoading, error: planError } = useSeriesPlan({
+    therapistId: bookingRequest.therapistId,
+    startTime: bookingRequest.startTime,
+    endTime: bookingRequest.endTime,
+    timezone,
+    recurrence,
+  });
+  const { bookSeries, loading: isBookingSeries } = useBookingSeries();
+
+  const bookingCount = plan ? resolveSeriesBookings(plan, choices).length : 0;
+
+  /**
+   * Wipes the locally saved onboarding data when the page is left after
+   * booking; the server has everything from here on
+   */
+  React.useEffect(() => {
+    if (!isSuccess) return;
+    const sessionId = bookingRequest.sessionId;
+    return () => {
+      void wipeSessionData(sessionId);
+    };
+  }, [isSuccess, bookingRequest.sessionId]);
+
+  /**
+   * Handles repeat pattern changes; alternates are tied to the old plan
    */
-  function handleConfirm() {
-    setIsSuccess(true);
+  function handleRecurrenceChange(next: SeriesRecurrence | null) {
+    setRecurrence(next);
+    setChoices({});
+    setError(null);
   }
 
   /**
-   * Handles Done button click - redirect to Daybreak website
+   * Handles confirm button click - books the series if one is planned,
+   * otherwise immediately shows success
    */
-  function handleDone() {
+  async function handleConfirm() {
+    if (!recurrence) {
+      setIsSuccess(true);
+      return;
+    }
+    if (!plan) {
+      setError("We're still checking availability for your sessions.");
+      return;
+    }
+
+    setError(null);
+    try {
+      const { series } = await bookSeries({
+        sessionId: bookingRequest.sessionId,
+        therapistId: bookingRequest.therapistId,
+        plan,
+        bookings: resolveSeriesBookings(plan, choices),
+        duration: bookingRequest.duration,
+      });
+      setBookedSeries(series);
+      setIsSuccess(true);
+    } catch (err) {
+      console.error("[Confirmation] Series booking failed:", err);
+      setError("We couldn't book your sessions. Please try again.");
+    }
+  }
+
+  /**
+   * Handles Done button click - wipes saved data, then redirects to the
+   * Daybreak website (a full page load skips the unmount cleanup)
+   */
+  async function handleDone() {
+    await wipeSessionData(bookingRequest.sessionId);
     window.location.href = "https://www.daybreakhealth.com/";
   }
 
@@ -101,6 +188,13 @@ export function Confirmation({
     router.back();
   }
 
+  /**
+   * Handles manage appointment click - opens reschedule/cancel page
+   */
+  function handleManageAppointment() {
+    router.push(`/onboarding/${bookingRequest.sessionId}/appointment`);
+  }
+
   // Single-screen flow: BookingReview handles review and success states
   return (
     <BookingReview
@@ -115,9 +209,33 @@ export function Confirmation({
       duration={bookingRequest.duration}
       onConfirm={handleConfirm}
       onBack={handleCancel}
-      isConfirming={false}
+      isConfirming={isBookingSeries}
       isSuccess={isSuccess}
-      onDone={handleDone}
+      onDone={() => void handleDone()}
+      onManageAppointment={handleManageAppointment}
+      seriesOptions={
+        <SeriesPlanner
+          recurrence={recurrence}
+          onRecurrenceChange={handleRecurrenceChange}
+          startTime={bookingRequest.startTime}
+          timezone={timezone}
+          plan={plan}
+          choices={choices}
+          onChoiceChange={(index, slotId) =>
+            setChoices((current) => ({ ...current, [index]: slotId }))
+          }
+          isLoading={planLoading}
+          error={planError ? "We couldn't check availability for later weeks." : null}
+          disabled={isBookingSeries}
+        />
+      }
+      bookedSeries={bookedSeries}
+      confirmLabel={
+        recurrence && plan
+          ? `Book ${bookingCount} ${bookingCount === 1 ? "session" : "sessions"}`
+          : undefined
+      }
+      error={error}
     />
   );
 }
@@ -288,7 +288,7 @@ function SlotCard({
           : "bg-white border-gray-200 hover:border-daybreak-teal/50 hover:bg-daybreak-teal/5"
       )}
       aria-pressed={isSelected}
-      aria-label={`${formattedDateTime} - ${slot.matchReason}${isBestMatch ? " - Best match" : ""}`}
+      aria-label={`${formattedDateTime} - ${slot.explanation.summary}${isBestMatch ? " - Best match" : ""}`}
     >
       <div className="flex items-start justify-between gap-3">
         <div className="flex-1 min-w-0">
@@ -312,7 +312,7 @@ function SlotCard({
 
           {/* Match Reason */}
           <p className="text-sm text-muted-foreground mt-0.5">
-            {slot.matchReason}
+            {slot.explanation.summary}
           </p>
         </div>
 
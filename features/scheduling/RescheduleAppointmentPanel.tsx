@@ -0,0 +1,207 @@
+/**
+ * RescheduleAppointmentPanel Component
+ *
+ * Lets a parent pick a new date and time for an existing appointment
+ * with the same therapist. Reuses AppointmentCalendar for date selection
+ * and TimeSlotPicker for time selection.
+ *
+ * Features:
+ * - Fetches therapist availability for the next 3 months
+ * - Highlights dates that have open slots
+ * - Hides the slot the appointment currently occupies
+ * - Confirm button enabled once a new slot is selected
+ *
+ * @module features/scheduling/RescheduleAppointmentPanel
+ */
+
+"use client";
+
+import * as React from "react";
+import { format, parseISO } from "date-fns";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useGetTherapistAvailabilityQuery } from "@/types/graphql";
+import { AppointmentCalendar } from "./AppointmentCalendar";
+import { TimeSlotPicker, type TimeSlot } from "./TimeSlotPicker";
+
+/**
+ * Props for RescheduleAppointmentPanel component
+ */
+export interface RescheduleAppointmentPanelProps {
+  /** Therapist whose availability should be shown */
+  therapistId: string;
+  /** Current appointment start time (ISO string), excluded from choices */
+  currentStartTime: string;
+  /** Display timezone (IANA name) */
+  timezone: string;
+  /** Onboarding session ID, used to filter by patient availability */
+  sessionId?: string;
+  /** Callback with the chosen slot */
+  onConfirm: (slot: TimeSlot) => void;
+  /** Callback when the parent backs out of rescheduling */
+  onCancel: () => void;
+  /** Whether the reschedule mutation is in progress */
+  isSubmitting?: boolean;
+}
+
+/**
+ * Renders date + time selection for moving an appointment
+ *
+ * @example
+ * <RescheduleAppointmentPanel
+ *   therapistId={appointment.therapist.id}
+ *   currentStartTime={appointment.startTime}
+ *   timezone={timezone}
+ *   onConfirm={(slot) => rescheduleAppointment(slot.startTime)}
+ *   onCancel={() => setMode("view")}
+ * />
+ */
+export function RescheduleAppointmentPanel({
+  therapistId,
+  currentStartTime,
+  timezone,
+  sessionId,
+  onConfirm,
+  onCancel,
+  isSubmitting = false,
+}: RescheduleAppointmentPanelProps) {
+  const [selectedDate, setSelectedDate] = React.useState<Date | undefined>();
+  const [selectedSlot, setSelectedSlot] = React.useState<TimeSlot | undefined>();
+
+  /**
+   * Date range for availability query (today → 3 months out)
+   */
+  const dateRange = React.useMemo(() => {
+    const startDate = new Date();
+    const endDate = new Date();
+    endDate.setMonth(endDate.getMonth() + 3);
+
+    return {
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+    };
+  }, []);
+
+  const { data, loading, error } = useGetTherapistAvailabilityQuery({
+    variables: {
+      therapistId,
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate,
+      timezone,
+      sessionId: sessionId || undefined,
+    },
+    skip: !therapistId,
+    fetchPolicy: "cache-and-network",
+  });
+
+  /**
+   * Open slots grouped by calendar date (yyyy-MM-dd),
+   * excluding the slot the appointment already occupies
+   */
+  const slotsByDate = React.useMemo(() => {
+    const currentStart = new Date(currentStartTime).getTime();
+    const grouped = new Map<string, TimeSlot[]>();
+
+    for (const day of data?.therapistAvailability?.availableDates ?? []) {
+      const slots = (day.slots || []).filter(
+        (slot) =>
+          slot.isAvailable &&
+          new Date(slot.startTime).getTime() !== currentStart
+      );
+      if (slots.length > 0) {
+        grouped.set(day.date, slots);
+      }
+    }
+
+    return grouped;
+  }, [data, currentStartTime]);
+
+  const availableDates = React.useMemo(
+    () => Array.from(slotsByDate.keys()).map((date) => parseISO(date)),
+    [slotsByDate]
+  );
+
+  const slotsForSelectedDate = selectedDate
+    ? slotsByDate.get(format(selectedDate, "yyyy-MM-dd")) ?? []
+    : [];
+
+  /**
+   * Handle date selection - clears any previously selected time
+   */
+  const handleDateSelect = React.useCallback((date: Date | undefined) => {
+    setSelectedDate(date);
+    setSelectedSlot(undefined);
+  }, []);
+
+  /**
+   * Handle confirm button click
+   */
+  function handleConfirm() {
+    if (selectedSlot) {
+      onConfirm(selectedSlot);
+    }
+  }
+
+  if (loading && !data) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" aria-hidden="true" />
+        <span>Loading available times...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div
+          className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800"
+          role="alert"
+        >
+          <p className="font-medium">Unable to load availability</p>
+          <p className="mt-1 text-xs">
+            Please try again or contact support if the problem persists.
+          </p>
+        </div>
+      )}
+
+      <AppointmentCalendar
+        availableDates={availableDates}
+        selectedDate={selectedDate}
+        onDateSelect={handleDateSelect}
+      />
+
+      {selectedDate && (
+        <TimeSlotPicker
+          slots={slotsForSelectedDate}
+          selectedSlot={selectedSlot}
+          onSlotSelect={setSelectedSlot}
+          timezone={timezone}
+        />
+      )}
+
+      <div className="flex flex-col gap-3 sm:flex-row-reverse">
+        <Button
+          onClick={handleConfirm}
+          disabled={!selectedSlot || isSubmitting}
+          className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white flex-1"
+          size="lg"
+        >
+          {isSubmitting ? "Rescheduling..." : "Confirm New Time"}
+        </Button>
+        <Button
+          onClick={onCancel}
+          variant="outline"
+          size="lg"
+          disabled={isSubmitting}
+          className="flex-1"
+        >
+          Keep Current Time
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+RescheduleAppointmentPanel.displayName = "RescheduleAppointmentPanel";
@@ -48,6 +48,7 @@ import { usePatientAvailability } from "../availability/usePatientAvailability";
  * @param onBack - Callback when "Back to Matching" is clicked
  * @param onConfirmBooking - Callback when booking is confirmed with selected slot
  * @param sessionId - Current onboarding session ID
+ * @param initialSlotStart - ISO start time of a slot to preselect (e.g., chosen from the therapist profile)
  * @param className - Optional additional CSS classes
  */
 export interface ScheduleContainerProps {
@@ -57,6 +58,7 @@ export interface ScheduleContainerProps {
   onBack: () => void;
   onConfirmBooking: (slot: TimeSlot, timezone: string) => void;
   sessionId?: string;
+  initialSlotStart?: string;
   className?: string;
 }
 
@@ -88,6 +90,7 @@ export function ScheduleContainer({
   onBack,
   onConfirmBooking,
   sessionId,
+  initialSlotStart,
   className,
 }: ScheduleContainerProps) {
   // State
@@ -155,6 +158,22 @@ export function ScheduleContainer({
       .filter((slot) => slot.isAvailable);
   }, [data]);
 
+  /**
+   * Preselect the slot chosen before arriving (once, when slots first load)
+   * Compared by instant since the timezone refetch can reformat start times
+   */
+  const hasAppliedInitialSlot = React.useRef(false);
+  React.useEffect(() => {
+    if (hasAppliedInitialSlot.current || !initialSlotStart || allSlots.length === 0) return;
+    hasAppliedInitialSlot.current = true;
+
+    const initialTime = new Date(initialSlotStart).getTime();
+    const match = allSlots.find((slot) => new Date(slot.startTime).getTime() === initialTime);
+    if (match) {
+      setSelectedSlot(match);
+    }
+  }, [initialSlotStart, allSlots]);
+
   /**
    * Handle time slot selection
    */
@@ -0,0 +1,287 @@
+/**
+ * SeriesPlanner Component
+ *
+ * Lets families repeat their appointment weekly or every other week and
+ * shows each planned session. Weeks where the therapist is away or the
+ * time isn't open are flagged with nearby alternates to pick from, or the
+ * week can be skipped.
+ *
+ * Visual Design:
+ * - Toggle chips for frequency and number of sessions
+ * - Session list with a check for open weeks and an amber flag for conflicts
+ *
+ * Accessibility:
+ * - Frequency and length are labelled groups of toggle buttons (aria-pressed)
+ * - Conflicts describe the reason in text, not just color
+ * - Loading and conflict counts announced politely
+ *
+ * @module features/scheduling/SeriesPlanner
+ */
+
+"use client";
+
+import * as React from "react";
+import { AlertTriangle, CheckCircle2, Loader2, Repeat } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { formatSlotForDisplay } from "./utils/slotScoring";
+import {
+  DEFAULT_SERIES_RECURRENCE,
+  SERIES_LENGTH_OPTIONS,
+  describeRecurrence,
+  type AlternateChoices,
+  type OccurrenceConflict,
+  type SeriesPlan,
+  type SeriesRecurrence,
+} from "./utils/seriesPlanner";
+
+/**
+ * Props for SeriesPlanner component
+ */
+export interface SeriesPlannerProps {
+  /** Selected pattern, or null for a single session */
+  recurrence: SeriesRecurrence | null;
+  /** Callback when the pattern changes (null = single session) */
+  onRecurrenceChange: (recurrence: SeriesRecurrence | null) => void;
+  /** First session start (ISO string) */
+  startTime: string;
+  /** Family's timezone for display */
+  timezone: string;
+  /** Planned series (null while loading or for a single session) */
+  plan: SeriesPlan | null;
+  /** Chosen alternate per conflicting occurrence */
+  choices: AlternateChoices;
+  /** Callback when an alternate is chosen (null = skip the week) */
+  onChoiceChange: (index: number, slotId: string | null) => void;
+  /** Whether the plan is loading */
+  isLoading?: boolean;
+  /** Error message from loading availability */
+  error?: string | null;
+  /** Disables changes (e.g., while booking) */
+  disabled?: boolean;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Parent-friendly conflict descriptions
+ */
+const CONFLICT_LABELS: Record<OccurrenceConflict, string> = {
+  time_off: "Your therapist is away this week",
+  unavailable: "This time isn't open this week",
+};
+
+/**
+ * Toggle chip shared by the option groups
+ */
+function OptionChip({
+  pressed,
+  onClick,
+  disabled,
+  children,
+}: {
+  pressed: boolean;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={pressed}
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "rounded-full border px-3 py-1.5 text-sm transition-colors min-h-[36px] disabled:opacity-50",
+        pressed
+          ? "border-daybreak-teal bg-daybreak-teal text-white"
+          : "border-gray-200 bg-white text-deep-text hover:border-daybreak-teal hover:bg-daybreak-teal/10"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Renders the recurring series options and planned sessions
+ *
+ * @example
+ * <SeriesPlanner
+ *   recurrence={recurrence}
+ *   onRecurrenceChange={setRecurrence}
+ *   startTime={slot.startTime}
+ *   timezone="America/New_York"
+ *   plan={plan}
+ *   choices={choices}
+ *   onChoiceChange={(index, slotId) => setChoices({ ...choices, [index]: slotId })}
+ * />
+ */
+export function SeriesPlanner({
+  recurrence,
+  onRecurrenceChange,
+  startTime,
+  timezone,
+  plan,
+  choices,
+  onChoiceChange,
+  isLoading = false,
+  error,
+  disabled = false,
+  className,
+}: SeriesPlannerProps) {
+  const frequencyLabelId = React.useId();
+  const lengthLabelId = React.useId();
+
+  const frequencyOptions = [
+    { label: "Just this session", value: null },
+    { label: "Every week", value: "weekly" },
+    { label: "Every other week", value: "biweekly" },
+  ] as const;
+
+  return (
+    <section
+      aria-label="Repeat appointment"
+      className={cn("rounded-lg border border-gray-200 bg-white p-4 space-y-4", className)}
+    >
+      <h2 className="flex items-center gap-2 text-base font-medium text-deep-text">
+        <Repeat className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+        Make it a regular session
+      </h2>
+
+      <div role="group" aria-labelledby={frequencyLabelId} className="space-y-2">
+        <p id={frequencyLabelId} className="text-sm text-muted-foreground">
+          Most families meet weekly. Booking ahead keeps the same time each week.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {frequencyOptions.map((option) => (
+            <OptionChip
+              key={option.label}
+              pressed={(recurrence?.frequency ?? null) === option.value}
+              disabled={disabled}
+              onClick={() =>
+                onRecurrenceChange(
+                  option.value
+                    ? { count: recurrence?.count ?? DEFAULT_SERIES_RECURRENCE.count, frequency: option.value }
+                    : null
+                )
+              }
+            >
+              {option.label}
+            </OptionChip>
+          ))}
+        </div>
+      </div>
+
+      {recurrence && (
+        <>
+          <div role="group" aria-labelledby={lengthLabelId} className="space-y-2">
+            <p id={lengthLabelId} className="text-sm font-medium text-deep-text">
+              Number of sessions
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {SERIES_LENGTH_OPTIONS.map((count) => (
+                <OptionChip
+                  key={count}
+                  pressed={recurrence.count === count}
+                  disabled={disabled}
+                  onClick={() => onRecurrenceChange({ ...recurrence, count })}
+                >
+                  {count} sessions
+                </OptionChip>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3 border-t border-gray-100 pt-4">
+            <p className="text-sm font-medium text-deep-text">
+              {describeRecurrence(recurrence, startTime, timezone)}
+            </p>
+
+            {isLoading && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground" role="status">
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+                Checking your therapist&apos;s availability...
+              </p>
+            )}
+
+            {error && !isLoading && (
+              <p className="text-sm text-red-700" role="alert">
+                {error}
+              </p>
+            )}
+
+            {plan && !isLoading && (
+              <>
+                <p className="text-sm text-muted-foreground" aria-live="polite">
+                  {plan.conflictCount === 0
+                    ? "Every session is available."
+                    : `${plan.conflictCount} ${plan.conflictCount === 1 ? "week needs" : "weeks need"} a different time. Pick one below or skip the week.`}
+                </p>
+                <ol className="space-y-2" aria-label="Planned sessions">
+                  {plan.occurrences.map((occurrence) => (
+                    <li
+                      key={occurrence.index}
+                      className={cn(
+                        "rounded-md border p-3 text-sm",
+                        occurrence.conflict ? "border-amber-200 bg-amber-50" : "border-gray-100"
+                      )}
+                    >
+                      <div className="flex items-start gap-2">
+                        {occurrence.conflict ? (
+                          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" aria-hidden="true" />
+                        ) : (
+                          <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" aria-hidden="true" />
+                        )}
+                        <div className="flex-1 space-y-2">
+                          <p className={cn("text-deep-text", occurrence.conflict && "line-through")}>
+                            {formatSlotForDisplay(occurrence.startTime, timezone)}
+                          </p>
+                          {occurrence.conflict && (
+                            <>
+                              <p className="text-amber-800">{CONFLICT_LABELS[occurrence.conflict]}</p>
+                              <div
+                                role="group"
+                                aria-label={`Options for session ${occurrence.index + 1}`}
+                                className="flex flex-wrap gap-2"
+                              >
+                                {occurrence.alternates.map((slot) => (
+                                  <OptionChip
+                                    key={slot.id}
+                                    pressed={choices[occurrence.index] === slot.id}
+                                    disabled={disabled}
+                                    onClick={() => onChoiceChange(occurrence.index, slot.id)}
+                                  >
+                                    {formatSlotForDisplay(slot.startTime, timezone)}
+                                  </OptionChip>
+                                ))}
+                                <OptionChip
+                                  pressed={!choices[occurrence.index]}
+                                  disabled={disabled}
+                                  onClick={() => onChoiceChange(occurrence.index, null)}
+                                >
+                                  Skip this week
+                                </OptionChip>
+                              </div>
+                              {occurrence.alternates.length === 0 && (
+                                <p className="text-muted-foreground">
+                                  No other times are open nearby, so this week will be skipped.
+                                </p>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+SeriesPlanner.displayName = "SeriesPlanner";
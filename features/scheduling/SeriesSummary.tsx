@@ -0,0 +1,141 @@
+/**
+ * SeriesSummary Component
+ *
+ * Summarizes a booked appointment series on the success screen: the
+ * pattern, each session's outcome, and calendar buttons that add the
+ * whole series as one recurring event.
+ *
+ * Visual Design:
+ * - Pattern heading with booked session count
+ * - Session list with moved, skipped and failed weeks called out
+ * - Add to calendar buttons for the series
+ *
+ * Accessibility:
+ * - Session outcomes are described in text, not just color
+ * - Failed sessions are highlighted with guidance to rebook
+ *
+ * @module features/scheduling/SeriesSummary
+ */
+
+"use client";
+
+import * as React from "react";
+import { Repeat } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { getAppointmentSeriesUid } from "@/lib/utils/calendar-links";
+import { CalendarLinks } from "./CalendarLinks";
+import { formatSlotForDisplay } from "./utils/slotScoring";
+import {
+  describeRecurrence,
+  toSeriesCalendarRecurrence,
+  type BookedOccurrenceStatus,
+  type BookedSeries,
+} from "./utils/seriesPlanner";
+
+/**
+ * Props for SeriesSummary component
+ */
+export interface SeriesSummaryProps {
+  /** Booked series */
+  series: BookedSeries;
+  /** Therapist name for the calendar event */
+  therapistName: string;
+  /** Video call meeting URL */
+  meetingUrl?: string;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Parent-friendly outcome labels (booked sessions need no label)
+ */
+const STATUS_LABELS: Record<Exclude<BookedOccurrenceStatus, "booked">, string> = {
+  rescheduled: "Moved to a nearby time",
+  skipped: "Skipped",
+  failed: "Couldn't be booked",
+};
+
+/**
+ * Renders the booked series summary with recurring calendar links
+ *
+ * @example
+ * <SeriesSummary
+ *   series={bookedSeries}
+ *   therapistName="Dr. Sarah Johnson"
+ *   meetingUrl="https://daybreak.health/meet/abc123"
+ * />
+ */
+export function SeriesSummary({
+  series,
+  therapistName,
+  meetingUrl,
+  className,
+}: SeriesSummaryProps) {
+  const first = series.occurrences[0];
+  const bookedCount = series.occurrences.filter(
+    (occurrence) => occurrence.status === "booked" || occurrence.status === "rescheduled"
+  ).length;
+  const hasFailures = series.occurrences.some((occurrence) => occurrence.status === "failed");
+
+  return (
+    <section
+      aria-label="Your recurring sessions"
+      className={cn("rounded-lg border border-gray-200 bg-white p-4 space-y-4", className)}
+    >
+      <div className="space-y-1">
+        <h2 className="flex items-center gap-2 text-base font-medium text-deep-text">
+          <Repeat className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+          {describeRecurrence(series.recurrence, first.originalStartTime, series.timezone)}
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          {bookedCount} of {series.occurrences.length} sessions booked
+        </p>
+      </div>
+
+      <ol className="space-y-1 text-sm" aria-label="Booked sessions">
+        {series.occurrences.map((occurrence) => (
+          <li key={occurrence.index} className="flex flex-wrap justify-between gap-x-3">
+            <span
+              className={cn(
+                "text-deep-text",
+                (occurrence.status === "skipped" || occurrence.status === "failed") &&
+                  "line-through text-muted-foreground"
+              )}
+            >
+              {formatSlotForDisplay(occurrence.startTime, series.timezone)}
+            </span>
+            {occurrence.status !== "booked" && (
+              <span
+                className={cn(
+                  occurrence.status === "failed" ? "text-red-700" : "text-muted-foreground"
+                )}
+              >
+                {STATUS_LABELS[occurrence.status]}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {hasFailures && (
+        <p className="rounded-md bg-red-50 p-3 text-sm text-red-700" role="alert">
+          Some sessions couldn&apos;t be booked. You can book them from your
+          appointment page.
+        </p>
+      )}
+
+      <CalendarLinks
+        therapistName={therapistName}
+        startTime={first.startTime}
+        endTime={first.endTime}
+        meetingUrl={meetingUrl}
+        recurrence={toSeriesCalendarRecurrence(series)}
+        uid={first.appointmentId ? getAppointmentSeriesUid(first.appointmentId) : undefined}
+        timezone={series.timezone}
+      />
+    </section>
+  );
+}
+
+SeriesSummary.displayName = "SeriesSummary";
@@ -19,6 +19,13 @@
  * - CalendarLinks: Add to calendar buttons
  * - WhatsNext: Next steps information
  * - EmailConfirmationMessage: Email confirmation status display
+ * - SeriesPlanner: Weekly/every-other-week repeat options with conflict handling
+ * - SeriesSummary: Booked series summary with recurring calendar links
+ *
+ * Appointment Management Components:
+ * - AppointmentManagement: Review, reschedule or cancel a booked appointment
+ * - RescheduleAppointmentPanel: Date/time selection for moving an appointment
+ * - CancelAppointmentDialog: Cancellation-policy confirmation with reason
  *
  * @module features/scheduling
  */
@@ -59,12 +66,37 @@ export { CalendarLinks } from "./CalendarLinks";
 export type { CalendarLinksProps } from "./CalendarLinks";
 export { WhatsNext } from "./WhatsNext";
 export type { WhatsNextProps } from "./WhatsNext";
+export { SeriesPlanner } from "./SeriesPlanner";
+export type { SeriesPlannerProps } from "./SeriesPlanner";
+export { SeriesSummary } from "./SeriesSummary";
+export type { SeriesSummaryProps } from "./SeriesSummary";
 export { EmailConfirmationMessage } from "./EmailConfirmationMessage";
 export type {
   EmailConfirmationMessageProps,
   EmailConfirmationStatus,
 } from "./EmailConfirmationMessage";
 
+// Appointment Management Components
+export { AppointmentManagement } from "./AppointmentManagement";
+export type { AppointmentManagementProps } from "./AppointmentManagement";
+export { RescheduleAppointmentPanel } from "./RescheduleAppointmentPanel";
+export type { RescheduleAppointmentPanelProps } from "./RescheduleAppointmentPanel";
+export { CancelAppointmentDialog } from "./CancelAppointmentDialog";
+export type { CancelAppointmentDialogProps } from "./CancelAppointmentDialog";
+
 // Hooks
 export { useBooking } from "./useBooking";
 export type { UseBookingResult, BookAppointmentInput } from "./useBooking";
+export { useSeriesPlan } from "./useSeriesPlan";
+export type { UseSeriesPlanOptions, UseSeriesPlanResult } from "./useSeriesPlan";
+export { useBookingSeries } from "./useBookingSeries";
+export type {
+  UseBookingSeriesResult,
+  BookSeriesInput,
+  BookSeriesResult,
+} from "./useBookingSeries";
+export { useAppointmentManagement } from "./useAppointmentManagement";
+export type {
+  UseAppointmentManagementResult,
+  ManagedAppointment,
+} from "./useAppointmentManagement";
@@ -0,0 +1,317 @@
+/**
+ * useAppointmentManagement Hook
+ *
+ * Custom hook for viewing, rescheduling and cancelling a booked appointment.
+ * Wraps the GetSessionAppointment query and the cancelAppointment /
+ * rescheduleAppointment mutations with optimistic cache updates so the
+ * management page reflects a change immediately.
+ *
+ * Field Mapping (GraphQL → component):
+ * - `scheduledAt` → `startTime`
+ * - `durationMinutes` → `duration`
+ * - `virtualLink` → `meetingUrl`
+ * - `therapist.fullName` → `therapist.name`
+ * - `therapist.licenseType` → `therapist.credentials`
+ *
+ * @module features/scheduling/useAppointmentManagement
+ */
+
+"use client";
+
+import * as React from "react";
+import type { ApolloCache, ErrorLike } from "@apollo/client";
+import {
+  GetSessionAppointmentDocument,
+  useCancelAppointmentMutation,
+  useGetSessionAppointmentQuery,
+  useRescheduleAppointmentMutation,
+  type GetSessionAppointmentQuery,
+} from "@/types/graphql";
+import { getAppointmentSequence } from "@/lib/utils/calendar-links";
+import type { AppointmentData } from "./BookingSuccess";
+
+/**
+ * Appointment shape returned by the GetSessionAppointment query
+ */
+type SessionAppointment = NonNullable<
+  GetSessionAppointmentQuery["session"]["appointment"]
+>;
+
+/**
+ * Booked appointment with management metadata
+ */
+export interface ManagedAppointment extends AppointmentData {
+  /** Appointment status (scheduled, confirmed, cancelled, completed, no_show) */
+  status: string;
+  /** Confirmation number shown to the parent */
+  confirmationNumber: string;
+  /** Whether the backend allows cancelling this appointment */
+  cancellable: boolean;
+  /** Whether the backend allows rescheduling this appointment */
+  reschedulable: boolean;
+  /** When the appointment was cancelled (ISO string) */
+  cancelledAt?: string;
+  /** Reason given for cancellation */
+  cancellationReason?: string;
+  /** Calendar revision for updated/cancelled calendar files */
+  calendarSequence: number;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseAppointmentManagementResult {
+  /** Current appointment (null if none booked) */
+  appointment: ManagedAppointment | null;
+  /** Initial query loading state */
+  loading: boolean;
+  /** Query error */
+  error: ErrorLike | undefined;
+  /** Cancels the appointment with a reason */
+  cancelAppointment: (reason: string) => Promise<void>;
+  /** Moves the appointment to a new start time */
+  rescheduleAppointment: (newStartTime: string) => Promise<void>;
+  /** Whether a cancellation is in flight */
+  isCancelling: boolean;
+  /** Whether a reschedule is in flight */
+  isRescheduling: boolean;
+  /** Error from the most recent cancel/reschedule attempt */
+  mutationError: Error | null;
+  /** Refetches the appointment from the server */
+  refetch: () => void;
+}
+
+/**
+ * Calculates end time from start time and duration
+ *
+ * @param startTime - ISO date string for start time
+ * @param durationMinutes - Duration in minutes
+ * @returns ISO date string for end time
+ */
+function calculateEndTime(startTime: string, durationMinutes: number): string {
+  const start = new Date(startTime);
+  const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+  return end.toISOString();
+}
+
+/**
+ * Maps a GraphQL appointment to the component-facing shape
+ *
+ * @param appointment - Appointment from GraphQL
+ * @returns ManagedAppointment for display
+ */
+export function toManagedAppointment(
+  appointment: SessionAppointment
+): ManagedAppointment {
+  return {
+    id: appointment.id,
+    therapist: {
+      id: appointment.therapist.id,
+      name: appointment.therapist.fullName,
+      credentials: appointment.therapist.licenseType || "",
+      photoUrl: appointment.therapist.photoUrl,
+    },
+    startTime: appointment.scheduledAt,
+    endTime: calculateEndTime(
+      appointment.scheduledAt,
+      appointment.durationMinutes
+    ),
+    duration: appointment.durationMinutes,
+    meetingUrl: appointment.virtualLink || undefined,
+    status: appointment.status,
+    confirmationNumber: appointment.confirmationNumber,
+    cancellable: appointment.cancellable,
+    reschedulable: appointment.reschedulable,
+    cancelledAt: appointment.cancelledAt || undefined,
+    cancellationReason: appointment.cancellationReason || undefined,
+    calendarSequence: getAppointmentSequence(appointment.createdAt, appointment.updatedAt),
+  };
+}
+
+/**
+ * Custom hook for managing a booked appointment
+ *
+ * Optimistic Updates:
+ * - Cancel: marks the cached appointment as cancelled immediately
+ * - Reschedule: moves the cached appointment to the new time immediately
+ * - Both revert automatically if the mutation fails
+ *
+ * @param sessionId - Onboarding session ID that owns the appointment
+ * @returns Appointment state and management actions
+ *
+ * @example
+ * const { appointment, rescheduleAppointment, cancelAppointment } =
+ *   useAppointmentManagement(sessionId);
+ *
+ * await rescheduleAppointment(slot.startTime);
+ */
+export function useAppointmentManagement(
+  sessionId: string
+): UseAppointmentManagementResult {
+  const [mutationError, setMutationError] = React.useState<Error | null>(null);
+
+  const { data, loading, error, refetch } = useGetSessionAppointmentQuery({
+    variables: { sessionId },
+    skip: !sessionId,
+  });
+
+  const [cancelMutation, { loading: isCancelling }] =
+    useCancelAppointmentMutation();
+  const [rescheduleMutation, { loading: isRescheduling }] =
+    useRescheduleAppointmentMutation();
+
+  const current = data?.session?.appointment ?? null;
+
+  /**
+   * Writes an appointment back onto the session in the cache.
+   * Needed because the backend may return a new appointment record
+   * (different ID) when rescheduling.
+   */
+  const writeSessionAppointment = React.useCallback(
+    (cache: ApolloCache, appointment: SessionAppointment) => {
+      cache.writeQuery({
+        query: GetSessionAppointmentDocument,
+        variables: { sessionId },
+        data: {
+          __typename: "Query",
+          session: {
+            __typename: "OnboardingSession",
+            id: sessionId,
+            appointment,
+          },
+        },
+      });
+    },
+    [sessionId]
+  );
+
+  /**
+   * Cancels the current appointment
+   *
+   * @param reason - Cancellation reason sent to the backend
+   * @throws Error if the backend rejects the cancellation
+   */
+  const cancelAppointment = React.useCallback(
+    async (reason: string): Promise<void> => {
+      if (!current) return;
+      setMutationError(null);
+
+      try {
+        const result = await cancelMutation({
+          variables: {
+            input: { appointmentId: current.id, reason },
+          },
+          optimisticResponse: {
+            cancelAppointment: {
+              __typename: "CancelAppointmentPayload",
+              appointment: {
+                ...current,
+                __typename: "Appointment",
+                status: "cancelled",
+                cancellable: false,
+                reschedulable: false,
+                cancelledAt: new Date().toISOString(),
+                cancellationReason: reason,
+                updatedAt: new Date().toISOString(),
+              },
+              success: true,
+              errors: [],
+            },
+          },
+          update(cache, { data: result }) {
+            const appointment = result?.cancelAppointment?.appointment;
+            if (appointment) writeSessionAppointment(cache, appointment);
+          },
+        });
+
+        const payload = result.data?.cancelAppointment;
+        if (!payload?.success) {
+          throw new Error(
+            payload?.errors?.[0] || "Unable to cancel appointment"
+          );
+        }
+      } catch (err) {
+        const cancelError =
+          err instanceof Error ? err : new Error("Unable to cancel appointment");
+        setMutationError(cancelError);
+        throw cancelError;
+      }
+    },
+    [current, cancelMutation, writeSessionAppointment]
+  );
+
+  /**
+   * Moves the current appointment to a new start time
+   *
+   * @param newStartTime - New start time (ISO string)
+   * @throws Error if the backend rejects the reschedule
+   */
+  const rescheduleAppointment = React.useCallback(
+    async (newStartTime: string): Promise<void> => {
+      if (!current) return;
+      setMutationError(null);
+
+      try {
+        const result = await rescheduleMutation({
+          variables: {
+            input: {
+              appointmentId: current.id,
+              newScheduledAt: newStartTime,
+            },
+          },
+          optimisticResponse: {
+            rescheduleAppointment: {
+              __typename: "RescheduleAppointmentPayload",
+              appointment: {
+                ...current,
+                __typename: "Appointment",
+                scheduledAt: newStartTime,
+                updatedAt: new Date().toISOString(),
+              },
+              success: true,
+              errors: [],
+            },
+          },
+          update(cache, { data: result }) {
+            const appointment = result?.rescheduleAppointment?.appointment;
+            if (appointment) writeSessionAppointment(cache, appointment);
+          },
+        });
+
+        const payload = result.data?.rescheduleAppointment;
+        if (!payload?.success) {
+          throw new Error(
+            payload?.errors?.[0] || "Unable to reschedule appointment"
+          );
+        }
+      } catch (err) {
+        const rescheduleError =
+          err instanceof Error
+            ? err
+            : new Error("Unable to reschedule appointment");
+        setMutationError(rescheduleError);
+        throw rescheduleError;
+      }
+    },
+    [current, rescheduleMutation, writeSessionAppointment]
+  );
+
+  const appointment = React.useMemo(
+    () => (current ? toManagedAppointment(current) : null),
+    [current]
+  );
+
+  return {
+    appointment,
+    loading,
+    error,
+    cancelAppointment,
+    rescheduleAppointment,
+    isCancelling,
+    isRescheduling,
+    mutationError,
+    refetch: () => {
+      void refetch();
+    },
+  };
+}
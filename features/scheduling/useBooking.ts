@@ -19,7 +19,10 @@
 
 import type { ErrorLike } from "@apollo/client";
 import type { AppointmentData } from "./BookingSuccess";
-import { useBookAppointmentMutation } from "@/types/graphql";
+import {
+  useBookAppointmentMutation,
+  type BookAppointmentMutation,
+} from "@/types/graphql";
 
 /**
  * Input variables for booking (component interface)
@@ -81,6 +84,35 @@ function calculateEndTime(startTime: string, durationMinutes: number): string {
   return end.toISOString();
 }
 
+/**
+ * Booked appointment as returned by the BookAppointment mutation
+ */
+export type BookedAppointmentResult = NonNullable<
+  NonNullable<BookAppointmentMutation["bookAppointment"]>["appointment"]
+>;
+
+/**
+ * Maps a booked appointment from GraphQL field names to AppointmentData
+ *
+ * @param appointment - Appointment from the BookAppointment payload
+ * @returns Appointment in component format
+ */
+export function toAppointmentData(appointment: BookedAppointmentResult): AppointmentData {
+  return {
+    id: appointment.id,
+    therapist: {
+      id: appointment.therapist.id,
+      name: appointment.therapist.fullName,
+      credentials: appointment.therapist.licenseType || "",
+      photoUrl: appointment.therapist.photoUrl,
+    },
+    startTime: appointment.scheduledAt,
+    endTime: calculateEndTime(appointment.scheduledAt, appointment.durationMinutes),
+    duration: appointment.durationMinutes,
+    meetingUrl: appointment.virtualLink || undefined,
+  };
+}
+
 /**
  * Custom hook for booking appointments
  *
@@ -175,22 +207,7 @@ export function useBooking(): UseBookingResult {
    * Maps GraphQL field names to component field names
    */
   const appointment: AppointmentData | null = data?.bookAppointment?.appointment
-    ? {
-        id: data.bookAppointment.appointment.id,
-        therapist: {
-          id: data.bookAppointment.appointment.therapist.id,
-          name: data.bookAppointment.appointment.therapist.fullName,
-          credentials: data.bookAppointment.appointment.therapist.licenseType || "",
-          photoUrl: data.bookAppointment.appointment.therapist.photoUrl,
-        },
-        startTime: data.bookAppointment.appointment.scheduledAt,
-        endTime: calculateEndTime(
-          data.bookAppointment.appointment.scheduledAt,
-          data.bookAppointment.appointment.durationMinutes
-        ),
-        duration: data.bookAppointment.appointment.durationMinutes,
-        meetingUrl: data.bookAppointment.appointment.virtualLink || undefined,
-      }
+    ? toAppointmentData(data.bookAppointment.appointment)
     : null;
 
   /**
@@ -0,0 +1,160 @@
+/**
+ * useBookingSeries Hook
+ *
+ * Books a recurring appointment series one session at a time with the
+ * BookAppointment mutation (the backend books single appointments).
+ * The first session must succeed; later sessions that fail are reported
+ * on the booked series rather than failing the whole booking, so a family
+ * never loses the sessions that did go through.
+ *
+ * @module features/scheduling/useBookingSeries
+ */
+
+"use client";
+
+import * as React from "react";
+
+import { useBookAppointmentMutation } from "@/types/graphql";
+import type { AppointmentData } from "./BookingSuccess";
+import { toAppointmentData } from "./useBooking";
+import type {
+  BookedSeries,
+  SeriesBooking,
+  SeriesPlan,
+} from "./utils/seriesPlanner";
+
+/**
+ * Input for booking a series
+ */
+export interface BookSeriesInput {
+  /** Session ID from matching flow */
+  sessionId: string;
+  /** Selected therapist ID */
+  therapistId: string;
+  /** Planned series */
+  plan: SeriesPlan;
+  /** Sessions to book, from resolveSeriesBookings */
+  bookings: SeriesBooking[];
+  /** Appointment duration in minutes (defaults to 50) */
+  duration?: number;
+}
+
+/**
+ * Result of booking a series
+ */
+export interface BookSeriesResult {
+  /** Series outcome per occurrence */
+  series: BookedSeries;
+  /** Appointments that were booked, in order */
+  appointments: AppointmentData[];
+}
+
+/**
+ * Hook return type
+ */
+export interface UseBookingSeriesResult {
+  /** Books every session; rejects only if the first session fails */
+  bookSeries: (input: BookSeriesInput) => Promise<BookSeriesResult>;
+  /** Whether sessions are being booked */
+  loading: boolean;
+  /** Sessions booked so far while loading */
+  bookedCount: number;
+}
+
+/**
+ * Custom hook for booking a recurring appointment series
+ *
+ * @example
+ * const { bookSeries, loading } = useBookingSeries();
+ * const { series } = await bookSeries({
+ *   sessionId,
+ *   therapistId,
+ *   plan,
+ *   bookings: resolveSeriesBookings(plan, choices),
+ * });
+ */
+export function useBookingSeries(): UseBookingSeriesResult {
+  const [mutate] = useBookAppointmentMutation();
+  const [loading, setLoading] = React.useState(false);
+  const [bookedCount, setBookedCount] = React.useState(0);
+
+  const bookSeries = React.useCallback(
+    async ({
+      sessionId,
+      therapistId,
+      plan,
+      bookings,
+      duration = 50,
+    }: BookSeriesInput): Promise<BookSeriesResult> => {
+      setLoading(true);
+      setBookedCount(0);
+
+      const appointments: AppointmentData[] = [];
+      const outcomes = new Map<number, "booked" | "failed">();
+      const appointmentIds = new Map<number, string>();
+
+      try {
+        for (const [position, booking] of bookings.entries()) {
+          try {
+            const { data } = await mutate({
+              variables: {
+                input: {
+                  sessionId,
+                  therapistId,
+                  scheduledAt: booking.startTime,
+                  durationMinutes: duration,
+                },
+              },
+            });
+
+            const payload = data?.bookAppointment;
+            if (!payload?.success || !payload.appointment) {
+              throw new Error(payload?.errors?.[0] ?? "Booking failed");
+            }
+
+            appointments.push(toAppointmentData(payload.appointment));
+            outcomes.set(booking.index, "booked");
+            appointmentIds.set(booking.index, payload.appointment.id);
+            setBookedCount(appointments.length);
+          } catch (err) {
+            // Nothing is booked yet, so fail the series like a single booking
+            if (position === 0) throw err;
+            console.warn("[useBookingSeries] Failed to book session", booking.index + 1, err);
+            outcomes.set(booking.index, "failed");
+          }
+        }
+      } finally {
+        setLoading(false);
+      }
+
+      const bookingByIndex = new Map(bookings.map((booking) => [booking.index, booking]));
+      const series: BookedSeries = {
+        recurrence: plan.recurrence,
+        timezone: plan.timezone,
+        occurrences: plan.occurrences.map((occurrence) => {
+          const booking = bookingByIndex.get(occurrence.index);
+          const outcome = outcomes.get(occurrence.index);
+          return {
+            index: occurrence.index,
+            startTime: booking?.startTime ?? occurrence.startTime,
+            endTime: booking?.endTime ?? occurrence.endTime,
+            originalStartTime: occurrence.startTime,
+            status: !booking
+              ? "skipped"
+              : outcome === "failed"
+                ? "failed"
+                : booking.startTime === occurrence.startTime
+                  ? "booked"
+                  : "rescheduled",
+            appointmentId: appointmentIds.get(occurrence.index),
+          };
+        }),
+      };
+
+      return { series, appointments };
+    },
+    [mutate]
+  );
+
+  return { bookSeries, loading, bookedCount };
+}
@@ -0,0 +1,121 @@
+/**
+ * useSeriesPlan Hook
+ *
+ * Loads the therapist's availability and time off for the span of a
+ * recurring series and plans each occurrence with the series planner.
+ * Availability is loaded without the family's preference filter so every
+ * open slot counts when checking later weeks and offering alternates.
+ *
+ * Time off is supplementary (availability already excludes most of it),
+ * so a failed time-off load doesn't block planning.
+ *
+ * @module features/scheduling/useSeriesPlan
+ */
+
+"use client";
+
+import * as React from "react";
+import type { ErrorLike } from "@apollo/client";
+
+import {
+  useGetTherapistAvailabilityQuery,
+  useGetTherapistTimeOffsQuery,
+} from "@/types/graphql";
+import {
+  getSeriesRange,
+  planSeries,
+  type SeriesPlan,
+  type SeriesRecurrence,
+} from "./utils/seriesPlanner";
+
+/**
+ * Options for useSeriesPlan hook
+ */
+export interface UseSeriesPlanOptions {
+  /** Therapist being booked */
+  therapistId: string;
+  /** First session start (ISO string) */
+  startTime: string;
+  /** First session end (ISO string) */
+  endTime: string;
+  /** Family's timezone */
+  timezone: string;
+  /** Series pattern, or null for a single session (skips loading) */
+  recurrence: SeriesRecurrence | null;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseSeriesPlanResult {
+  /** Planned series (null for a single session or while loading) */
+  plan: SeriesPlan | null;
+  /** Whether availability is loading */
+  loading: boolean;
+  /** Error from loading availability */
+  error: ErrorLike | undefined;
+}
+
+/**
+ * Plans a recurring series against the therapist's availability
+ *
+ * @param options - First session, timezone and pattern
+ * @returns Series plan with loading/error states
+ *
+ * @example
+ * const { plan, loading } = useSeriesPlan({
+ *   therapistId,
+ *   startTime,
+ *   endTime,
+ *   timezone,
+ *   recurrence: { frequency: "weekly", count: 8 },
+ * });
+ */
+export function useSeriesPlan({
+  therapistId,
+  startTime,
+  endTime,
+  timezone,
+  recurrence,
+}: UseSeriesPlanOptions): UseSeriesPlanResult {
+  const range = React.useMemo(
+    () => (recurrence ? getSeriesRange(startTime, endTime, recurrence, timezone) : null),
+    [startTime, endTime, recurrence, timezone]
+  );
+  const skip = !range || !therapistId;
+
+  const { data, loading, error } = useGetTherapistAvailabilityQuery({
+    variables: {
+      therapistId,
+      startDate: range?.startDate ?? startTime,
+      endDate: range?.endDate ?? endTime,
+      timezone,
+    },
+    skip,
+    fetchPolicy: "cache-and-network",
+  });
+
+  const { data: timeOffData } = useGetTherapistTimeOffsQuery({
+    variables: { therapistId },
+    skip,
+    errorPolicy: "ignore",
+  });
+
+  const plan = React.useMemo(() => {
+    if (!recurrence || !data?.therapistAvailability) return null;
+    return planSeries({
+      startTime,
+      endTime,
+      recurrence,
+      timezone,
+      slots: data.therapistAvailability.availableDates.flatMap((date) => date.slots ?? []),
+      timeOffs: timeOffData?.therapist?.timeOffs ?? [],
+    });
+  }, [recurrence, data, timeOffData, startTime, endTime, timezone]);
+
+  return {
+    plan,
+    loading: loading && !data,
+    error,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Cancellation Policy Utilities
+ *
+ * Encodes Daybreak's appointment change policy so the appointment
+ * management flow can warn parents before a late cancellation or
+ * reschedule. The backend remains the source of truth via the
+ * `cancellable` / `reschedulable` flags on Appointment.
+ *
+ * @module features/scheduling/utils/cancellationPolicy
+ */
+
+/**
+ * Minimum notice (in hours) required to change an appointment
+ * without it counting as a late cancellation
+ */
+export const CANCELLATION_NOTICE_HOURS = 24;
+
+/**
+ * Preset cancellation reasons offered in the cancellation dialog.
+ * Kept generic so no clinical detail is sent with the request.
+ */
+export const CANCELLATION_REASONS = [
+  { value: "schedule_conflict", label: "Schedule conflict" },
+  { value: "found_other_care", label: "Found care elsewhere" },
+  { value: "no_longer_needed", label: "No longer need services" },
+  { value: "cost_concerns", label: "Cost concerns" },
+  { value: "other", label: "Other" },
+] as const;
+
+/**
+ * Cancellation reason option value
+ */
+export type CancellationReasonValue =
+  (typeof CANCELLATION_REASONS)[number]["value"];
+
+/**
+ * Calculates the number of hours between now and the appointment start
+ *
+ * @param startTime - Appointment start time (ISO string)
+ * @param now - Reference time (defaults to current time)
+ * @returns Hours until appointment (negative if in the past)
+ */
+export function getHoursUntilAppointment(
+  startTime: string,
+  now: Date = new Date()
+): number {
+  const start = new Date(startTime).getTime();
+  return (start - now.getTime()) / (60 * 60 * 1000);
+}
+
+/**
+ * Whether a change made now falls inside the late-cancellation window
+ *
+ * @param startTime - Appointment start time (ISO string)
+ * @param now - Reference time (defaults to current time)
+ * @returns true if less than CANCELLATION_NOTICE_HOURS remain
+ *
+ * @example
+ * isLateCancellation("2024-01-15T14:00:00Z", new Date("2024-01-15T08:00:00Z"));
+ * // => true (6 hours notice)
+ */
+export function isLateCancellation(
+  startTime: string,
+  now: Date = new Date()
+): boolean {
+  return getHoursUntilAppointment(startTime, now) < CANCELLATION_NOTICE_HOURS;
+}
+
+/**
+ * Builds the reason string sent with the cancelAppointment mutation
+ *
+ * @param reason - Selected preset reason
+ * @param otherText - Free-text reason when "other" is selected
+ * @returns Human-readable reason for the backend
+ */
+export function formatCancellationReason(
+  reason: CancellationReasonValue,
+  otherText?: string
+): string {
+  if (reason === "other") {
+    const trimmed = otherText?.trim();
+    return trimmed ? trimmed : "Other";
+  }
+
+  const option = CANCELLATION_REASONS.find((r) => r.value === reason);
+  return option?.label ?? "Other";
+}
@@ -0,0 +1,395 @@
+/**
+ * Recurring Series Planner
+ *
+ * Plans a weekly or every-other-week appointment series from the first
+ * booked slot. Each occurrence keeps the same local wall-clock time in the
+ * family's timezone (so a 4 PM session stays at 4 PM across DST changes)
+ * and is checked against the therapist's availability and time off.
+ * Conflicting weeks get up to three nearby alternates; the family can pick
+ * one or skip the week.
+ *
+ * The booked series is exported to calendars as one recurring event:
+ * RRULE for the pattern, EXDATE for skipped weeks and RDATE for weeks
+ * moved to an alternate time.
+ *
+ * @module features/scheduling/utils/seriesPlanner
+ */
+
+import type { TimeSlot } from "../TimeSlotPicker";
+import { addCalendarDays, getZonedParts, zonedTimeToInstant } from "@/lib/utils/zoned-time";
+
+/**
+ * How often the series repeats
+ */
+export type RecurrenceFrequency = "weekly" | "biweekly";
+
+/**
+ * Series pattern chosen by the family
+ * @param frequency - Every week or every other week
+ * @param count - Number of sessions, including the first
+ */
+export interface SeriesRecurrence {
+  frequency: RecurrenceFrequency;
+  count: number;
+}
+
+/**
+ * Series lengths offered to families
+ */
+export const SERIES_LENGTH_OPTIONS = [4, 6, 8, 12] as const;
+
+/**
+ * Pattern preselected when a family opts into a series
+ */
+export const DEFAULT_SERIES_RECURRENCE: SeriesRecurrence = { frequency: "weekly", count: 8 };
+
+/**
+ * Days either side of a conflicting occurrence searched for alternates
+ */
+export const ALTERNATE_SEARCH_DAYS = 3;
+
+/**
+ * Most alternates offered per conflicting occurrence
+ */
+export const MAX_ALTERNATES = 3;
+
+/**
+ * Therapist time off (inclusive calendar dates, YYYY-MM-DD)
+ */
+export interface TimeOffPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Why an occurrence can't be booked as planned
+ * - time_off: the therapist is away that day
+ * - unavailable: the time isn't open in the therapist's availability
+ */
+export type OccurrenceConflict = "time_off" | "unavailable";
+
+/**
+ * Single planned session in a series
+ * @param index - Position in the series (0 = first session)
+ * @param startTime - Planned start (ISO string)
+ * @param endTime - Planned end (ISO string)
+ * @param conflict - Why the time can't be booked, or null if it can
+ * @param alternates - Nearby open slots for conflicting occurrences
+ */
+export interface SeriesOccurrence {
+  index: number;
+  startTime: string;
+  endTime: string;
+  conflict: OccurrenceConflict | null;
+  alternates: TimeSlot[];
+}
+
+/**
+ * Planned series with conflicts flagged
+ */
+export interface SeriesPlan {
+  recurrence: SeriesRecurrence;
+  timezone: string;
+  occurrences: SeriesOccurrence[];
+  /** Number of occurrences with a conflict */
+  conflictCount: number;
+}
+
+/**
+ * Family's choice per conflicting occurrence: an alternate slot ID, or
+ * null/absent to skip that week
+ */
+export type AlternateChoices = Record<number, string | null>;
+
+/**
+ * Session to book after resolving conflicts
+ * @param index - Occurrence index
+ * @param startTime - Start to book (ISO string)
+ * @param endTime - End to book (ISO string)
+ * @param originalStartTime - Planned start before any alternate was chosen
+ */
+export interface SeriesBooking {
+  index: number;
+  startTime: string;
+  endTime: string;
+  originalStartTime: string;
+}
+
+/**
+ * Outcome of one occurrence after booking
+ * - booked: booked at the planned time
+ * - rescheduled: booked at an alternate time
+ * - skipped: not booked because of a conflict
+ * - failed: booking was attempted and failed
+ */
+export type BookedOccurrenceStatus = "booked" | "rescheduled" | "skipped" | "failed";
+
+/**
+ * Booked series for the success screen and calendar export
+ */
+export interface BookedSeries {
+  recurrence: SeriesRecurrence;
+  timezone: string;
+  occurrences: Array<{
+    index: number;
+    startTime: string;
+    endTime: string;
+    originalStartTime: string;
+    status: BookedOccurrenceStatus;
+    /** Booked appointment ID (booked and rescheduled occurrences) */
+    appointmentId?: string;
+  }>;
+}
+
+/**
+ * Recurrence lines for a calendar event (values without property names)
+ * @param rrule - RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;COUNT=8"
+ * @param exdates - Instances removed from the pattern (ISO strings)
+ * @param rdates - Extra instances added to the pattern (ISO strings)
+ */
+export interface SeriesCalendarRecurrence {
+  rrule: string;
+  exdates: string[];
+  rdates: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weeks between occurrences
+ */
+function getIntervalWeeks(frequency: RecurrenceFrequency): number {
+  return frequency === "biweekly" ? 2 : 1;
+}
+
+/**
+ * Calendar date of an instant in a timezone as YYYY-MM-DD
+ */
+function toLocalDateKey(instant: number, timezone: string): string {
+  const { year, month, day } = getZonedParts(instant, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Computes the start and end of every occurrence
+ *
+ * Occurrences keep the first session's local wall-clock start time; the
+ * duration is kept in real minutes.
+ *
+ * @param startTime - First session start (ISO string)
+ * @param endTime - First session end (ISO string)
+ * @param recurrence - Series pattern
+ * @param timezone - Family's timezone
+ * @returns Occurrence times in order
+ */
+export function getOccurrenceTimes(
+  startTime: string,
+  endTime: string,
+  recurrence: SeriesRecurrence,
+  timezone: string
+): Array<{ startTime: string; endTime: string }> {
+  const start = new Date(startTime).getTime();
+  const duration = new Date(endTime).getTime() - start;
+  const local = getZonedParts(start, timezone);
+  const minutesOfDay = local.hour * 60 + local.minute;
+  const intervalDays = getIntervalWeeks(recurrence.frequency) * 7;
+
+  return Array.from({ length: recurrence.count }, (_, index) => {
+    const occurrenceStart =
+      index === 0
+        ? start
+        : zonedTimeToInstant(addCalendarDays(local, index * intervalDays), minutesOfDay, timezone);
+    return {
+      startTime: new Date(occurrenceStart).toISOString(),
+      endTime: new Date(occurrenceStart + duration).toISOString(),
+    };
+  });
+}
+
+/**
+ * Date range to load availability for, covering every occurrence and the
+ * alternate search window around it
+ *
+ * @returns ISO start and end datetimes
+ */
+export function getSeriesRange(
+  startTime: string,
+  endTime: string,
+  recurrence: SeriesRecurrence,
+  timezone: string
+): { startDate: string; endDate: string } {
+  const occurrences = getOccurrenceTimes(startTime, endTime, recurrence, timezone);
+  const first = new Date(occurrences[0].startTime).getTime();
+  const last = new Date(occurrences[occurrences.length - 1].endTime).getTime();
+  return {
+    startDate: new Date(first - ALTERNATE_SEARCH_DAYS * DAY_MS).toISOString(),
+    endDate: new Date(last + ALTERNATE_SEARCH_DAYS * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Whether an instant falls on a time-off day (in the family's timezone)
+ */
+function isDuringTimeOff(instant: number, timeOffs: TimeOffPeriod[], timezone: string): boolean {
+  const date = toLocalDateKey(instant, timezone);
+  return timeOffs.some((timeOff) => date >= timeOff.startDate && date <= timeOff.endDate);
+}
+
+/**
+ * Plans a series and flags conflicting occurrences
+ *
+ * The first occurrence is the slot the family already picked and is never
+ * flagged. Later occurrences conflict when they fall on a time-off day or
+ * their start isn't an open slot. Alternates are open slots within
+ * ALTERNATE_SEARCH_DAYS of the planned time, closest first, that don't
+ * clash with another occurrence.
+ *
+ * @param params - First session, pattern, timezone and therapist availability
+ * @returns Planned occurrences with conflicts and alternates
+ *
+ * @example
+ * const plan = planSeries({
+ *   startTime: slot.startTime,
+ *   endTime: slot.endTime,
+ *   recurrence: { frequency: "weekly", count: 8 },
+ *   timezone: "America/New_York",
+ *   slots: availableSlots,
+ *   timeOffs,
+ * });
+ * plan.conflictCount; // 1
+ */
+export function planSeries({
+  startTime,
+  endTime,
+  recurrence,
+  timezone,
+  slots,
+  timeOffs = [],
+}: {
+  startTime: string;
+  endTime: string;
+  recurrence: SeriesRecurrence;
+  timezone: string;
+  slots: TimeSlot[];
+  timeOffs?: TimeOffPeriod[];
+}): SeriesPlan {
+  const openSlots = slots.filter(
+    (slot) => slot.isAvailable && !isDuringTimeOff(new Date(slot.startTime).getTime(), timeOffs, timezone)
+  );
+  const openStarts = new Set(openSlots.map((slot) => new Date(slot.startTime).getTime()));
+  const times = getOccurrenceTimes(startTime, endTime, recurrence, timezone);
+  const plannedStarts = new Set(times.map((time) => new Date(time.startTime).getTime()));
+
+  const occurrences = times.map((time, index): SeriesOccurrence => {
+    const start = new Date(time.startTime).getTime();
+    let conflict: OccurrenceConflict | null = null;
+    if (index > 0) {
+      if (isDuringTimeOff(start, timeOffs, timezone)) conflict = "time_off";
+      else if (!openStarts.has(start)) conflict = "unavailable";
+    }
+
+    const alternates = conflict
+      ? openSlots
+          .filter((slot) => {
+            const slotStart = new Date(slot.startTime).getTime();
+            return (
+              Math.abs(slotStart - start) <= ALTERNATE_SEARCH_DAYS * DAY_MS &&
+              !plannedStarts.has(slotStart)
+            );
+          })
+          .sort(
+            (a, b) =>
+              Math.abs(new Date(a.startTime).getTime() - start) -
+              Math.abs(new Date(b.startTime).getTime() - start)
+          )
+          .slice(0, MAX_ALTERNATES)
+      : [];
+
+    return { index, ...time, conflict, alternates };
+  });
+
+  return {
+    recurrence,
+    timezone,
+    occurrences,
+    conflictCount: occurrences.filter((occurrence) => occurrence.conflict).length,
+  };
+}
+
+/**
+ * Sessions to book once the family has handled conflicts
+ *
+ * Conflicting occurrences are booked at the chosen alternate, or skipped
+ * when no alternate was chosen.
+ *
+ * @param plan - Planned series
+ * @param choices - Alternate slot ID per conflicting occurrence index
+ * @returns Sessions to book, in order
+ */
+export function resolveSeriesBookings(plan: SeriesPlan, choices: AlternateChoices = {}): SeriesBooking[] {
+  return plan.occurrences.flatMap((occurrence): SeriesBooking[] => {
+    if (!occurrence.conflict) {
+      return [{ index: occurrence.index, startTime: occurrence.startTime, endTime: occurrence.endTime, originalStartTime: occurrence.startTime }];
+    }
+    const alternate = occurrence.alternates.find((slot) => slot.id === choices[occurrence.index]);
+    return alternate
+      ? [{ index: occurrence.index, startTime: alternate.startTime, endTime: alternate.endTime, originalStartTime: occurrence.startTime }]
+      : [];
+  });
+}
+
+/**
+ * RRULE value for a series pattern
+ *
+ * @example
+ * toRecurrenceRule({ frequency: "biweekly", count: 6 }) // "FREQ=WEEKLY;INTERVAL=2;COUNT=6"
+ */
+export function toRecurrenceRule(recurrence: SeriesRecurrence): string {
+  const interval = getIntervalWeeks(recurrence.frequency);
+  return interval === 1
+    ? `FREQ=WEEKLY;COUNT=${recurrence.count}`
+    : `FREQ=WEEKLY;INTERVAL=${interval};COUNT=${recurrence.count}`;
+}
+
+/**
+ * Calendar recurrence for a booked series: the pattern, minus weeks that
+ * weren't booked at the planned time, plus weeks moved to an alternate
+ *
+ * @param series - Booked series
+ * @returns RRULE, EXDATE and RDATE values
+ */
+export function toSeriesCalendarRecurrence(series: BookedSeries): SeriesCalendarRecurrence {
+  return {
+    rrule: toRecurrenceRule(series.recurrence),
+    exdates: series.occurrences
+      .filter((occurrence) => occurrence.status !== "booked")
+      .map((occurrence) => occurrence.originalStartTime),
+    rdates: series.occurrences
+      .filter((occurrence) => occurrence.status === "rescheduled")
+      .map((occurrence) => occurrence.startTime),
+  };
+}
+
+/**
+ * Describes a series pattern, e.g. "Every Tuesday at 4:00 PM, 8 sessions"
+ *
+ * @param recurrence - Series pattern
+ * @param startTime - First session start (ISO string)
+ * @param timezone - Family's timezone
+ */
+export function describeRecurrence(
+  recurrence: SeriesRecurrence,
+  startTime: string,
+  timezone: string
+): string {
+  const date = new Date(startTime);
+  const weekday = date.toLocaleDateString("en-US", { weekday: "long", timeZone: timezone });
+  const time = date.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone: timezone,
+  });
+  const cadence = recurrence.frequency === "biweekly" ? `Every other ${weekday}` : `Every ${weekday}`;
+  return `${cadence} at ${time}, ${recurrence.count} sessions`;
+}
@@ -1,13 +1,20 @@
 /**
- * Slot scoring utility for ranking time slots by user preference
+ * Slot scoring engine for ranking time slots by user preference
  *
  * Scores available time slots based on how well they match the user's
  * stated availability preferences. Used to show recommended appointment
  * times that are most convenient for the user.
  *
- * Scoring weights:
+ * Preferred TimeBlocks are treated as real intervals in the user's
+ * timezone: a Tuesday 15:00 block of 180 minutes covers 3-6 PM local time
+ * (wrapping past midnight if needed), resolved to instants so DST
+ * transitions don't shift it. Each factor scores a match from 0 to 1 and
+ * is multiplied by its weight; the result carries a per-factor
+ * explanation rather than a single reason string.
+ *
+ * Default weights (configurable):
  * - Day of week match: 40 points
- * - Time of day match: 35 points
+ * - Time window fit: 35 points (share of the slot inside a preferred window)
  * - Proximity to now: 15 points
  * - Convenience (mid-day): 10 points
  */
@@ -15,164 +22,375 @@
 import type { TimeSlot } from "../TimeSlotPicker";
 import type { TimeBlock } from "@/lib/validations/availability";
 import { getDayName } from "@/lib/validations/availability";
+import { addCalendarDays, getZonedParts, zonedTimeToInstant } from "@/lib/utils/zoned-time";
+
+/**
+ * Scoring factor identifiers
+ */
+export type SlotScoreFactorKey = "day" | "time" | "proximity" | "convenience";
+
+/**
+ * Points available per factor
+ */
+export type SlotScoringWeights = Record<SlotScoreFactorKey, number>;
+
+/**
+ * Default weights (sum to 100)
+ */
+export const DEFAULT_SLOT_SCORING_WEIGHTS: Readonly<SlotScoringWeights> = {
+  day: 40,
+  time: 35,
+  proximity: 15,
+  convenience: 10,
+};
+
+/**
+ * Slots ending within this many minutes of a preferred window get partial
+ * time credit, decreasing linearly with distance
+ */
+export const NEAR_WINDOW_MINUTES = 60;
+
+/**
+ * Share of the time weight given to a slot right next to a window
+ */
+const NEAR_WINDOW_CREDIT = 0.5;
+
+/**
+ * Score contribution of a single factor
+ * @param factor - Factor identifier
+ * @param label - Short factor name for display
+ * @param weight - Points available for the factor
+ * @param match - How well the slot satisfies the factor (0-1)
+ * @param points - Weighted contribution (weight × match)
+ * @param reason - Parent-friendly explanation
+ */
+export interface SlotScoreFactor {
+  factor: SlotScoreFactorKey;
+  label: string;
+  weight: number;
+  match: number;
+  points: number;
+  reason: string;
+}
+
+/**
+ * Structured explanation of a slot's score
+ * @param summary - Headline reason for display on the slot card
+ * @param factors - Every factor that was scored, in weight order
+ */
+export interface SlotScoreExplanation {
+  summary: string;
+  factors: SlotScoreFactor[];
+}
 
 /**
  * Extended TimeSlot with preference scoring information
  */
 export interface ScoredSlot extends TimeSlot {
-  /** Preference score 0-100 (higher = better match) */
+  /** Preference score, 0 to the sum of weights (0-100 with defaults) */
   preferenceScore: number;
-  /** Human-readable reason why this slot was recommended */
-  matchReason: string;
+  /** Per-factor breakdown of the score */
+  explanation: SlotScoreExplanation;
 }
 
 /**
- * Score slots by how well they match user's availability preferences
+ * Options for scoreSlotsByPreference
+ * @param weights - Overrides for the default factor weights
+ * @param now - Reference time for proximity (defaults to current time)
+ */
+export interface SlotScoringOptions {
+  weights?: Partial<SlotScoringWeights>;
+  now?: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Interval in epoch milliseconds, end exclusive
+ */
+interface Interval {
+  start: number;
+  end: number;
+  block: TimeBlock;
+}
+
+/**
+ * Parses "HH:MM" into minutes since midnight
+ */
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Formats minutes since midnight as "3 PM" / "3:30 PM" (wrapping past midnight)
+ */
+function formatMinutes(totalMinutes: number): string {
+  const minutesOfDay = ((totalMinutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(minutesOfDay / 60);
+  const minutes = minutesOfDay % 60;
+  const period = hours < 12 ? "AM" : "PM";
+  const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+  return minutes === 0
+    ? `${displayHour} ${period}`
+    : `${displayHour}:${String(minutes).padStart(2, "0")} ${period}`;
+}
+
+/**
+ * Describes a preferred window, e.g. "Tuesday 3 PM – 6 PM"
+ */
+function describeBlock(block: TimeBlock): string {
+  const start = parseMinutes(block.startTime);
+  return `${getDayName(block.dayOfWeek)} ${formatMinutes(start)} – ${formatMinutes(start + block.durationMinutes)}`;
+}
+
+/**
+ * Resolves the preferred windows that could touch a slot to instants
  *
- * @param slots - Available time slots from therapist
- * @param userAvailability - User's preferred availability times
- * @param timezone - User's timezone for date calculations
- * @returns Sorted array of slots with preference scores (highest first)
+ * Windows are anchored on the local dates around the slot's start (the
+ * day before, for windows running past midnight, through the day after,
+ * for slots running past midnight).
  */
-export function scoreSlotsByPreference(
-  slots: TimeSlot[],
-  userAvailability: TimeBlock[] | undefined,
+function resolveWindows(
+  blocks: TimeBlock[],
+  slotStart: number,
   timezone: string
-): ScoredSlot[] {
-  // Filter to only available slots
-  const availableSlots = slots.filter((slot) => slot.isAvailable);
-
-  // If no user availability preferences, use fallback scoring
-  if (!userAvailability || userAvailability.length === 0) {
-    return availableSlots
-      .map((slot) => {
-        const proximityScore = calculateProximityScore(slot.startTime);
-        const convenienceScore = calculateConvenienceScore(
-          slot.startTime,
-          timezone
-        );
-
-        return {
-          ...slot,
-          preferenceScore: proximityScore + convenienceScore,
-          matchReason: "Available soon",
-        };
-      })
-      .sort((a, b) => b.preferenceScore - a.preferenceScore);
+): Interval[] {
+  const local = getZonedParts(slotStart, timezone);
+  const windows: Interval[] = [];
+
+  for (const offset of [-1, 0, 1]) {
+    const date = addCalendarDays(local, offset);
+    const dayOfWeek = (local.dayOfWeek + offset + 7) % 7;
+
+    for (const block of blocks) {
+      if (block.dayOfWeek !== dayOfWeek) continue;
+      const startMinutes = parseMinutes(block.startTime);
+      windows.push({
+        start: zonedTimeToInstant(date, startMinutes, timezone),
+        end: zonedTimeToInstant(date, startMinutes + block.durationMinutes, timezone),
+        block,
+      });
+    }
   }
 
-  // Build lookup sets for O(1) preference matching
-  const preferredDays = new Set(userAvailability.map((a) => a.dayOfWeek));
-  const preferredHours = new Set(
-    userAvailability.map((a) => parseInt(a.startTime.split(":")[0], 10))
-  );
+  return windows;
+}
+
+/**
+ * Milliseconds of [start, end) covered by the union of windows
+ */
+function coveredMs(start: number, end: number, windows: Interval[]): number {
+  const clipped = windows
+    .map((window) => ({ start: Math.max(start, window.start), end: Math.min(end, window.end) }))
+    .filter((window) => window.end > window.start)
+    .sort((a, b) => a.start - b.start);
 
-  return availableSlots
-    .map((slot) => {
-      const slotDate = new Date(slot.startTime);
-
-      // Convert to user's timezone for day/hour extraction
-      const localDate = new Date(
-        slotDate.toLocaleString("en-US", { timeZone: timezone })
-      );
-      const slotDay = localDate.getDay();
-      const slotHour = localDate.getHours();
-
-      let score = 0;
-      const reasons: string[] = [];
-
-      // Day of week match (40 points max)
-      if (preferredDays.has(slotDay)) {
-        score += 40;
-        reasons.push(`Matches your ${getDayName(slotDay)} preference`);
-      }
-
-      // Time of day match (35 points max)
-      if (preferredHours.has(slotHour)) {
-        score += 35;
-        reasons.push("At your preferred time");
-      } else if (
-        preferredHours.has(slotHour - 1) ||
-        preferredHours.has(slotHour + 1)
-      ) {
-        // Close to preferred time (partial points)
-        score += 20;
-        reasons.push("Close to your preferred time");
-      }
-
-      // Proximity score (15 points max)
-      score += calculateProximityScore(slot.startTime);
-
-      // Convenience score (10 points max)
-      score += calculateConvenienceScore(slot.startTime, timezone);
-
-      // Build match reason
-      const matchReason =
-        reasons.length > 0
-          ? reasons[0]
-          : score > 15
-            ? "Good availability"
-            : "Available";
-
-      return {
-        ...slot,
-        preferenceScore: score,
-        matchReason,
-      };
-    })
-    .sort((a, b) => b.preferenceScore - a.preferenceScore);
-}
-
-/**
- * Calculate proximity score based on how soon the slot is
+  let covered = 0;
+  let cursor = start;
+  for (const window of clipped) {
+    const from = Math.max(cursor, window.start);
+    if (window.end > from) {
+      covered += window.end - from;
+      cursor = window.end;
+    }
+  }
+  return covered;
+}
+
+/**
+ * Scores how much of the slot falls inside a preferred window
+ */
+function scoreTimeWindow(
+  slotStart: number,
+  slotEnd: number,
+  windows: Interval[]
+): { match: number; reason: string } {
+  const duration = Math.max(slotEnd - slotStart, MINUTE_MS);
+  const coverage = coveredMs(slotStart, slotStart + duration, windows) / duration;
+
+  if (coverage > 0) {
+    const window = windows.find((w) => w.start < slotStart + duration && w.end > slotStart);
+    const description = window ? describeBlock(window.block) : "preferred";
+    return {
+      match: coverage,
+      reason:
+        coverage >= 1
+          ? `Within your ${description} window`
+          : `Partly within your ${description} window`,
+    };
+  }
+
+  const gapMinutes = Math.min(
+    ...windows.map((window) =>
+      window.end <= slotStart ? slotStart - window.end : window.start - (slotStart + duration)
+    ),
+    Infinity
+  ) / MINUTE_MS;
+
+  if (gapMinutes < NEAR_WINDOW_MINUTES) {
+    return {
+      match: NEAR_WINDOW_CREDIT * (1 - gapMinutes / NEAR_WINDOW_MINUTES),
+      reason: "Close to your preferred time",
+    };
+  }
+
+  return { match: 0, reason: "Outside your preferred times" };
+}
+
+/**
+ * Scores how soon the slot is
  *
  * Slots 1-3 days out score highest, as they're soon but give
  * enough time to prepare. Very immediate slots score lower.
- *
- * @param startTime - ISO 8601 datetime string
- * @returns Score 0-15
  */
-function calculateProximityScore(startTime: string): number {
-  const slotDate = new Date(startTime);
-  const now = new Date();
-  const daysFromNow = Math.floor(
-    (slotDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-  );
+function scoreProximity(slotStart: number, now: Date): { match: number; reason: string } {
+  const daysFromNow = Math.floor((slotStart - now.getTime()) / DAY_MS);
 
   // Ideal: 1-3 days out
-  if (daysFromNow >= 1 && daysFromNow <= 3) return 15;
+  if (daysFromNow >= 1 && daysFromNow <= 3) return { match: 1, reason: "Available in the next few days" };
   // Good: 4-7 days out
-  if (daysFromNow >= 4 && daysFromNow <= 7) return 12;
+  if (daysFromNow >= 4 && daysFromNow <= 7) return { match: 0.8, reason: "Available this week" };
   // Okay: 1-2 weeks out
-  if (daysFromNow >= 8 && daysFromNow <= 14) return 8;
+  if (daysFromNow >= 8 && daysFromNow <= 14) return { match: 8 / 15, reason: "Available within two weeks" };
   // Less ideal: today (rushed) or far out
-  if (daysFromNow === 0) return 5;
-  return 4;
+  if (daysFromNow === 0) return { match: 1 / 3, reason: "Available today" };
+  return { match: 4 / 15, reason: "Further out" };
 }
 
 /**
- * Calculate convenience score based on time of day
+ * Scores the local time of day
  *
  * Mid-day slots (10am-4pm) are generally most convenient
  * for therapy sessions.
- *
- * @param startTime - ISO 8601 datetime string
- * @param timezone - User's timezone
- * @returns Score 0-10
  */
-function calculateConvenienceScore(startTime: string, timezone: string): number {
-  const slotDate = new Date(startTime);
-  const localDate = new Date(
-    slotDate.toLocaleString("en-US", { timeZone: timezone })
-  );
-  const hour = localDate.getHours();
-
+function scoreConvenience(hour: number): { match: number; reason: string } {
   // Prime time: 10am-4pm
-  if (hour >= 10 && hour <= 16) return 10;
+  if (hour >= 10 && hour <= 16) return { match: 1, reason: "Mid-day time" };
   // Good: 8-10am or 4-6pm
-  if ((hour >= 8 && hour < 10) || (hour > 16 && hour <= 18)) return 6;
+  if ((hour >= 8 && hour < 10) || (hour > 16 && hour <= 18)) return { match: 0.6, reason: "Morning or late afternoon" };
   // Less ideal: early morning or evening
-  return 2;
+  return { match: 0.2, reason: "Early or late in the day" };
+}
+
+/**
+ * Builds a factor entry with its weighted points
+ */
+function toFactor(
+  factor: SlotScoreFactorKey,
+  label: string,
+  weight: number,
+  { match, reason }: { match: number; reason: string }
+): SlotScoreFactor {
+  const clamped = Math.min(Math.max(match, 0), 1);
+  return { factor, label, weight, match: clamped, points: weight * clamped, reason };
+}
+
+/**
+ * Picks the headline reason for the slot card
+ *
+ * Prefers the most specific matched preference (time window, then day)
+ * and falls back to how soon the slot is.
+ */
+function summarize(factors: SlotScoreFactor[]): string {
+  const time = factors.find((f) => f.factor === "time");
+  const day = factors.find((f) => f.factor === "day");
+  if (time && time.match > 0) return time.reason;
+  if (day && day.match > 0) return day.reason;
+  const proximity = factors.find((f) => f.factor === "proximity");
+  return proximity && proximity.match >= 0.8 ? "Available soon" : "Available";
+}
+
+/**
+ * Scores a single slot against the preferences
+ *
+ * Day and time factors are only scored when preferences exist; without
+ * them slots are ranked on proximity and convenience alone.
+ *
+ * @param slot - Time slot to score
+ * @param userAvailability - Preferred time blocks (may be empty)
+ * @param timezone - User's timezone for wall-clock calculations
+ * @param options - Weights and reference time
+ * @returns Score and explanation
+ */
+export function scoreSlot(
+  slot: TimeSlot,
+  userAvailability: TimeBlock[],
+  timezone: string,
+  options: SlotScoringOptions = {}
+): { preferenceScore: number; explanation: SlotScoreExplanation } {
+  const weights = { ...DEFAULT_SLOT_SCORING_WEIGHTS, ...options.weights };
+  const now = options.now ?? new Date();
+  const slotStart = new Date(slot.startTime).getTime();
+  const slotEnd = new Date(slot.endTime).getTime();
+  const local = getZonedParts(slotStart, timezone);
+
+  const factors: SlotScoreFactor[] = [];
+
+  if (userAvailability.length > 0) {
+    const preferredDays = new Set(userAvailability.map((block) => block.dayOfWeek));
+    factors.push(
+      toFactor("day", "Day", weights.day, {
+        match: preferredDays.has(local.dayOfWeek) ? 1 : 0,
+        reason: preferredDays.has(local.dayOfWeek)
+          ? `Matches your ${getDayName(local.dayOfWeek)} preference`
+          : `${getDayName(local.dayOfWeek)} isn't one of your preferred days`,
+      }),
+      toFactor(
+        "time",
+        "Time",
+        weights.time,
+        scoreTimeWindow(slotStart, slotEnd, resolveWindows(userAvailability, slotStart, timezone))
+      )
+    );
+  }
+
+  factors.push(
+    toFactor("proximity", "How soon", weights.proximity, scoreProximity(slotStart, now)),
+    toFactor("convenience", "Time of day", weights.convenience, scoreConvenience(local.hour))
+  );
+
+  return {
+    preferenceScore: factors.reduce((total, factor) => total + factor.points, 0),
+    explanation: { summary: summarize(factors), factors },
+  };
+}
+
+/**
+ * Score slots by how well they match user's availability preferences
+ *
+ * @param slots - Available time slots from therapist
+ * @param userAvailability - User's preferred availability times
+ * @param timezone - User's timezone for date calculations
+ * @param options - Weights and reference time
+ * @returns Available slots with scores, highest first (earliest first on ties)
+ *
+ * @example
+ * const ranked = scoreSlotsByPreference(slots, availability, "America/New_York", {
+ *   weights: { proximity: 30 },
+ * });
+ * ranked[0].explanation.summary; // "Within your Tuesday 3 PM – 6 PM window"
+ */
+export function scoreSlotsByPreference(
+  slots: TimeSlot[],
+  userAvailability: TimeBlock[] | undefined,
+  timezone: string,
+  options: SlotScoringOptions = {}
+): ScoredSlot[] {
+  const now = options.now ?? new Date();
+
+  return slots
+    .filter((slot) => slot.isAvailable)
+    .map((slot) => ({
+      ...slot,
+      ...scoreSlot(slot, userAvailability ?? [], timezone, { ...options, now }),
+    }))
+    .sort(
+      (a, b) =>
+        b.preferenceScore - a.preferenceScore ||
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    );
 }
 
 /**
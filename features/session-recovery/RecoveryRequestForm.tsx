@@ -0,0 +1,135 @@
+/**
+ * RecoveryRequestForm Component
+ *
+ * Lets a parent whose magic link has expired or was already used ask for
+ * a new one. The session is identified from the link they saved when
+ * they chose Save & Exit, or from the last session on this device.
+ *
+ * Visual Design:
+ * - Single field for the saved link, pre-filled when the device knows the session
+ * - Full-width send button with loading state
+ * - Confirmation message replaces the form once the email is sent
+ *
+ * Accessibility:
+ * - Labelled input with helper text linked via aria-describedby
+ * - Errors announced with role="alert", confirmation with role="status"
+ *
+ * @module features/session-recovery/RecoveryRequestForm
+ */
+
+"use client";
+
+import * as React from "react";
+import { Mail } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { useRecoveryRequest } from "./useRecoveryRequest";
+import { parseSessionReference } from "./utils/sessionRecovery";
+
+/**
+ * Props for RecoveryRequestForm component
+ */
+export interface RecoveryRequestFormProps {
+  /** Session ID to pre-fill, if known on this device */
+  defaultSessionId?: string | null;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Renders the form for requesting a new recovery link
+ *
+ * @example
+ * <RecoveryRequestForm defaultSessionId="sess_abc123" />
+ */
+export function RecoveryRequestForm({
+  defaultSessionId,
+  className,
+}: RecoveryRequestFormProps) {
+  const [reference, setReference] = React.useState(defaultSessionId ?? "");
+  const [inputError, setInputError] = React.useState<string | null>(null);
+  const { requestLink, isRequesting, message, error } = useRecoveryRequest();
+
+  /**
+   * The device's session is read after mount, so pick it up if the
+   * parent hasn't typed anything yet
+   */
+  React.useEffect(() => {
+    if (defaultSessionId) {
+      setReference((current) => current || defaultSessionId);
+    }
+  }, [defaultSessionId]);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const sessionId = parseSessionReference(reference);
+    if (!sessionId) {
+      setInputError("Paste the link you saved when you left, or your session code.");
+      return;
+    }
+
+    setInputError(null);
+    await requestLink(sessionId);
+  };
+
+  if (message) {
+    return (
+      <p
+        role="status"
+        className={cn("rounded-md bg-teal-50 p-4 text-sm text-teal-900", className)}
+      >
+        {message}
+      </p>
+    );
+  }
+
+  const errorMessage = inputError ?? error;
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("space-y-3 text-left", className)} noValidate>
+      <div className="space-y-1.5">
+        <Label htmlFor="recovery-reference" className="text-sm font-semibold text-deep-text">
+          Your saved link
+        </Label>
+        <p id="recovery-reference-help" className="text-sm text-muted-foreground">
+          We&apos;ll email a new link to the address you gave us.
+        </p>
+      </div>
+
+      <Input
+        id="recovery-reference"
+        value={reference}
+        onChange={(event) => {
+          setReference(event.target.value);
+          setInputError(null);
+        }}
+        placeholder="https://.../onboarding/..."
+        aria-describedby="recovery-reference-help"
+        aria-invalid={Boolean(errorMessage)}
+        disabled={isRequesting}
+        className="h-11"
+      />
+
+      {errorMessage && (
+        <p role="alert" className="text-sm text-red-600">
+          {errorMessage}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full h-11 bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+        disabled={isRequesting || !reference.trim()}
+      >
+        <Mail className="mr-2 h-4 w-4" aria-hidden="true" />
+        {isRequesting ? "Sending..." : "Email me a new link"}
+      </Button>
+    </form>
+  );
+}
+
+RecoveryRequestForm.displayName = "RecoveryRequestForm";
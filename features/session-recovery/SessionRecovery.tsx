@@ -0,0 +1,133 @@
+/**
+ * SessionRecovery Component
+ *
+ * Handles a magic link visit: restores the parent's onboarding session
+ * and sends them to the furthest step they haven't finished. Expired or
+ * already-used links show a form for requesting a new one.
+ *
+ * Visual Design:
+ * - Centered card with a spinner while the session is restored
+ * - Retry button for connection problems
+ * - Friendly explanation plus re-request form for expired links
+ *
+ * Accessibility:
+ * - Progress announced with role="status"
+ * - Failures announced with role="alert"
+ *
+ * @module features/session-recovery/SessionRecovery
+ */
+
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { RecoveryRequestForm } from "./RecoveryRequestForm";
+import { useSessionRecovery } from "./useSessionRecovery";
+import { CURRENT_SESSION_KEY } from "./utils/sessionRecovery";
+
+/**
+ * Props for SessionRecovery component
+ */
+export interface SessionRecoveryProps {
+  /** Recovery token from the magic link */
+  token: string;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Renders the magic link recovery flow
+ *
+ * @example
+ * <SessionRecovery token={token} />
+ */
+export function SessionRecovery({ token, className }: SessionRecoveryProps) {
+  const router = useRouter();
+  const { status, resumePath, retry } = useSessionRecovery(token);
+  const [deviceSessionId, setDeviceSessionId] = React.useState<string | null>(null);
+
+  /**
+   * Replace the magic link in history so Back doesn't reuse the token
+   */
+  React.useEffect(() => {
+    if (resumePath) router.replace(resumePath);
+  }, [resumePath, router]);
+
+  /**
+   * Look up the last session on this device to pre-fill the re-request form
+   */
+  React.useEffect(() => {
+    if (status !== "invalid") return;
+    try {
+      setDeviceSessionId(localStorage.getItem(CURRENT_SESSION_KEY));
+    } catch {
+      setDeviceSessionId(null);
+    }
+  }, [status]);
+
+  return (
+    <div
+      className={cn(
+        "w-full max-w-md rounded-3xl bg-white p-8 text-center shadow-lg space-y-6",
+        className
+      )}
+    >
+      {(status === "recovering" || status === "recovered") && (
+        <div role="status" className="flex flex-col items-center gap-4">
+          <Loader2 className="h-8 w-8 animate-spin text-daybreak-teal" aria-hidden="true" />
+          <p className="text-base text-deep-text">
+            {status === "recovered"
+              ? "Welcome back! Taking you to where you left off..."
+              : "Restoring your progress..."}
+          </p>
+        </div>
+      )}
+
+      {status === "error" && (
+        <div className="space-y-4">
+          <p role="alert" className="text-base text-deep-text">
+            We couldn&apos;t reach Daybreak to restore your progress. Check your
+            connection and try again.
+          </p>
+          <Button
+            onClick={retry}
+            className="bg-daybreak-teal hover:bg-daybreak-teal/90 text-white rounded-full px-6"
+          >
+            Try again
+          </Button>
+        </div>
+      )}
+
+      {status === "invalid" && (
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h1 className="font-serif text-2xl font-semibold text-deep-text">
+              This link has expired
+            </h1>
+            <p role="alert" className="text-sm text-muted-foreground">
+              For your security, each link works once and only for a limited
+              time. Your answers are still saved. Request a new link to pick
+              up where you left off.
+            </p>
+          </div>
+
+          <RecoveryRequestForm defaultSessionId={deviceSessionId} />
+
+          <p className="text-sm text-muted-foreground">
+            Prefer to begin again?{" "}
+            <Link href="/" className="font-medium text-daybreak-teal underline">
+              Start over
+            </Link>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+SessionRecovery.displayName = "SessionRecovery";
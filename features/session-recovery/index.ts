@@ -0,0 +1,27 @@
+/**
+ * Session Recovery Feature Module
+ *
+ * Exports components and hooks for resuming an onboarding session from
+ * an emailed magic link, including re-requesting a link when one has
+ * expired or was already used.
+ */
+
+export { SessionRecovery, type SessionRecoveryProps } from './SessionRecovery';
+export { RecoveryRequestForm, type RecoveryRequestFormProps } from './RecoveryRequestForm';
+export {
+  useSessionRecovery,
+  type SessionRecoveryStatus,
+  type UseSessionRecoveryResult,
+} from './useSessionRecovery';
+export { useRecoveryRequest, type UseRecoveryRequestResult } from './useRecoveryRequest';
+export {
+  CURRENT_SESSION_KEY,
+  getResumePath,
+  getResumeSegment,
+  hydrateLocalSession,
+  parseSessionReference,
+  toLocalSessionData,
+  type RecoveredLocalData,
+  type RecoveredSession,
+  type ResumeSegment,
+} from './utils/sessionRecovery';
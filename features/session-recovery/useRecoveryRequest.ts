@@ -0,0 +1,83 @@
+/**
+ * useRecoveryRequest Hook
+ *
+ * Requests a new magic link for an onboarding session. The backend emails
+ * the link to the parent email already on file for the session.
+ *
+ * @module features/session-recovery/useRecoveryRequest
+ */
+
+"use client";
+
+import * as React from "react";
+import { useRequestSessionRecoveryMutation } from "@/types/graphql";
+import { classifyError } from "@/lib/apollo/client";
+
+/**
+ * Hook return type
+ */
+export interface UseRecoveryRequestResult {
+  /** Requests a new link; resolves true when the email was sent */
+  requestLink: (sessionId: string) => Promise<boolean>;
+  /** Whether the request is in flight */
+  isRequesting: boolean;
+  /** Confirmation message from the backend after a successful request */
+  message: string | null;
+  /** Parent-facing error from the most recent request */
+  error: string | null;
+}
+
+/**
+ * Custom hook for requesting a new recovery link
+ *
+ * @returns Request action and its state
+ *
+ * @example
+ * const { requestLink, message, error } = useRecoveryRequest();
+ *
+ * await requestLink("sess_abc123");
+ */
+export function useRecoveryRequest(): UseRecoveryRequestResult {
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [requestMutation, { loading: isRequesting }] =
+    useRequestSessionRecoveryMutation();
+
+  const requestLink = React.useCallback(
+    async (sessionId: string): Promise<boolean> => {
+      setMessage(null);
+      setError(null);
+
+      try {
+        const result = await requestMutation({
+          variables: { input: { sessionId } },
+        });
+        // The client's errorPolicy returns errors instead of throwing
+        if (result.error) throw result.error;
+
+        const payload = result.data?.requestSessionRecovery;
+
+        if (!payload?.success) {
+          setError(payload?.message || "We couldn't send a new link. Please try again.");
+          return false;
+        }
+
+        setMessage(payload.message);
+        return true;
+      } catch (err) {
+        const appError = classifyError(err);
+        setError(
+          appError.kind === "rate_limited"
+            ? "You've asked for several links. Please wait a few minutes and try again."
+            : appError.kind === "not_found"
+              ? "We couldn't find that session. Check the link you saved and try again."
+              : "We couldn't send a new link. Please try again."
+        );
+        return false;
+      }
+    },
+    [requestMutation]
+  );
+
+  return { requestLink, isRequesting, message, error };
+}
@@ -0,0 +1,128 @@
+/**
+ * useSessionRecovery Hook
+ *
+ * Exchanges a magic link recovery token for the parent's onboarding
+ * session. On success it stores the new JWT and refresh token, restores
+ * local onboarding data from the server copy and works out where the
+ * parent should pick up.
+ *
+ * Features:
+ * - Token exchange via sessionByRecoveryToken (never cached, tokens are single-use)
+ * - Auth tokens stored with setAuthToken / setRefreshToken
+ * - localStorage hydrated so the onboarding pages show saved answers
+ * - Expired or used tokens reported separately from connection problems
+ *
+ * @module features/session-recovery/useSessionRecovery
+ */
+
+"use client";
+
+import * as React from "react";
+import { useSessionByRecoveryTokenQuery } from "@/types/graphql";
+import {
+  classifyError,
+  setAuthToken,
+  setRefreshToken,
+  type AppError,
+} from "@/lib/apollo/client";
+import { getResumePath, hydrateLocalSession } from "./utils/sessionRecovery";
+
+/**
+ * Recovery progress
+ * - recovering: exchanging the token
+ * - recovered: session restored, ready to navigate to resumePath
+ * - invalid: token expired, already used or not recognized
+ * - error: temporary failure, retrying may succeed
+ */
+export type SessionRecoveryStatus = "recovering" | "recovered" | "invalid" | "error";
+
+/**
+ * Hook return type
+ */
+export interface UseSessionRecoveryResult {
+  /** Recovery progress */
+  status: SessionRecoveryStatus;
+  /** Recovered session ID */
+  sessionId: string | null;
+  /** Onboarding path to resume at, once recovered */
+  resumePath: string | null;
+  /** Classified error when the exchange failed */
+  error: AppError | null;
+  /** Retries the token exchange after a temporary failure */
+  retry: () => void;
+}
+
+/**
+ * Custom hook for recovering a session from a magic link
+ *
+ * @param recoveryToken - Token from the magic link URL
+ * @returns Recovery status and where to resume
+ *
+ * @example
+ * const { status, resumePath } = useSessionRecovery(token);
+ *
+ * React.useEffect(() => {
+ *   if (resumePath) router.replace(resumePath);
+ * }, [resumePath, router]);
+ */
+export function useSessionRecovery(recoveryToken: string): UseSessionRecoveryResult {
+  const [recovered, setRecovered] = React.useState<{
+    sessionId: string;
+    resumePath: string;
+  } | null>(null);
+
+  const { data, error, refetch } = useSessionByRecoveryTokenQuery({
+    variables: { recoveryToken },
+    fetchPolicy: "no-cache",
+    skip: !recoveryToken,
+  });
+
+  const payload = data?.sessionByRecoveryToken;
+
+  /**
+   * Stores credentials and local data once per recovered session
+   */
+  React.useEffect(() => {
+    if (!payload || recovered?.sessionId === payload.session.id) return;
+
+    let cancelled = false;
+
+    setAuthToken(payload.token);
+    setRefreshToken(payload.refreshToken);
+    hydrateLocalSession(payload.session).then(() => {
+      if (cancelled) return;
+      setRecovered({
+        sessionId: payload.session.id,
+        resumePath: getResumePath(payload.session),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [payload, recovered]);
+
+  const appError = React.useMemo(() => (error ? classifyError(error) : null), [error]);
+
+  const retry = React.useCallback(() => {
+    // Failures surface through the hook's error state
+    refetch().catch(() => undefined);
+  }, [refetch]);
+
+  let status: SessionRecoveryStatus = "recovering";
+  if (recovered) {
+    status = "recovered";
+  } else if (appError) {
+    status = appError.retryable ? "error" : "invalid";
+  } else if (!recoveryToken) {
+    status = "invalid";
+  }
+
+  return {
+    status,
+    sessionId: recovered?.sessionId ?? null,
+    resumePath: recovered?.resumePath ?? null,
+    error: appError,
+    retry,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Session Recovery Utilities
+ *
+ * Pure helpers for resuming an onboarding session from a magic link:
+ * mapping the recovered server session into the localStorage shape the
+ * onboarding pages read, working out the furthest incomplete step, and
+ * reading a session reference from a link the parent saved.
+ *
+ * @module features/session-recovery/utils/sessionRecovery
+ */
+
+import { notifyCompletionUpdate } from "@/lib/completion";
+import { findCarrierByName } from "@/lib/data/insurance-carriers";
+import { RELATIONSHIP_OPTIONS } from "@/lib/validations/demographics";
+import { loadSessionData } from "@/lib/storage";
+import { saveOnboardingData, type OnboardingPatch } from "@/lib/onboarding-store";
+import type { SessionByRecoveryTokenQuery } from "@/types/graphql";
+
+/**
+ * Session returned by the sessionByRecoveryToken query
+ */
+export type RecoveredSession =
+  SessionByRecoveryTokenQuery["sessionByRecoveryToken"]["session"];
+
+/**
+ * localStorage key holding the most recent session ID on this device
+ * (written by useOnboardingSession when a session starts)
+ */
+export const CURRENT_SESSION_KEY = "current_onboarding_session";
+
+/**
+ * Onboarding data restored from the server, in the localStorage shape
+ * used by the onboarding pages and useCompletionStatus
+ */
+export interface RecoveredLocalData {
+  parent?: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+    relationshipToChild?: string;
+  };
+  child?: {
+    firstName: string;
+    lastName: string;
+    dateOfBirth: string;
+    gender?: string;
+    grade?: string;
+  };
+  insurance?: {
+    carrier?: string;
+    payerName?: string;
+    memberId?: string;
+    groupNumber?: string;
+    subscriberName?: string;
+    verificationStatus: string;
+    isSelfPay: boolean;
+  };
+}
+
+/**
+ * Route segments for each resume point, in onboarding order
+ */
+export type ResumeSegment =
+  | "assessment"
+  | "demographics"
+  | "insurance"
+  | "matching"
+  | "appointment";
+
+/**
+ * Maps the recovered session into the localStorage data shape
+ *
+ * Only sections the server has a record for are included, so existing
+ * local data for other sections is left alone when merged.
+ *
+ * @param session - Recovered session
+ * @returns Local onboarding data
+ */
+export function toLocalSessionData(session: RecoveredSession): RecoveredLocalData {
+  const data: RecoveredLocalData = {};
+  const { parent, child, insurance } = session;
+
+  if (parent) {
+    const relationship = parent.relationship.toLowerCase();
+    data.parent = {
+      firstName: parent.firstName,
+      lastName: parent.lastName,
+      email: parent.email,
+      phone: parent.phone,
+      relationshipToChild: (RELATIONSHIP_OPTIONS as readonly string[]).includes(relationship)
+        ? relationship
+        : undefined,
+    };
+  }
+
+  if (child) {
+    data.child = {
+      firstName: child.first_name,
+      lastName: child.last_name,
+      dateOfBirth: child.date_of_birth,
+      gender: child.gender ?? undefined,
+      grade: child.grade ?? undefined,
+    };
+  }
+
+  if (insurance) {
+    const isSelfPay = insurance.verificationStatus === "self_pay";
+    const payerName = insurance.payerName ?? undefined;
+    data.insurance = {
+      // The carrier dropdown stores carrier IDs, the backend stores names
+      carrier: payerName ? (findCarrierByName(payerName)?.id ?? "other") : undefined,
+      payerName,
+      memberId: insurance.memberId ?? undefined,
+      groupNumber: insurance.groupNumber ?? undefined,
+      subscriberName: insurance.subscriberName ?? undefined,
+      verificationStatus: insurance.verificationStatus,
+      isSelfPay,
+    };
+  }
+
+  return data;
+}
+
+/**
+ * Writes the recovered session into local storage and notifies listeners
+ *
+ * Server values win for the sections the server has; anything else
+ * already stored for this session on the device (e.g. form drafts) is
+ * kept. Waits for the encrypted local copy to load so it can be merged.
+ *
+ * @param session - Recovered session
+ */
+export async function hydrateLocalSession(session: RecoveredSession): Promise<void> {
+  if (typeof window === "undefined") return;
+
+  try {
+    await loadSessionData(session.id);
+    // Server values are checked against the slice schemas on save
+    saveOnboardingData(session.id, toLocalSessionData(session) as OnboardingPatch);
+    localStorage.setItem(CURRENT_SESSION_KEY, session.id);
+  } catch (storageError) {
+    console.warn("[sessionRecovery] Failed to restore local session data:", storageError);
+  }
+
+  notifyCompletionUpdate();
+}
+
+/**
+ * Finds the furthest step the parent can resume from
+ *
+ * Steps are checked in onboarding order against the server records, the
+ * same checks useBackendCompletionStatus uses, so the parent lands on
+ * the first step that still needs something from them.
+ *
+ * @param session - Recovered session
+ * @returns Route segment to resume at
+ */
+export function getResumeSegment(session: RecoveredSession): ResumeSegment {
+  if (session.appointment) return "appointment";
+  if (session.assessment?.status !== "complete") return "assessment";
+
+  const hasParent = Boolean(session.parent?.firstName && session.parent?.email);
+  const hasChild = Boolean(session.child?.first_name && session.child?.date_of_birth);
+  if (!hasParent || !hasChild) return "demographics";
+
+  const insurance = session.insurance;
+  const hasInsurance =
+    insurance?.verificationStatus === "self_pay" ||
+    Boolean(insurance?.memberId && insurance?.payerName);
+  if (!hasInsurance) return "insurance";
+
+  return "matching";
+}
+
+/**
+ * Builds the onboarding path to resume the recovered session at
+ *
+ * @param session - Recovered session
+ * @returns Path such as `/onboarding/sess_abc123/insurance`
+ */
+export function getResumePath(session: RecoveredSession): string {
+  return `/onboarding/${session.id}/${getResumeSegment(session)}`;
+}
+
+/**
+ * Reads a session ID from a saved onboarding link or a bare session ID
+ *
+ * @param value - Link or session ID entered by the parent
+ * @returns Session ID, or null if none could be found
+ *
+ * @example
+ * parseSessionReference("https://app.daybreakhealth.com/onboarding/sess_abc/assessment");
+ * // "sess_abc"
+ */
+export function parseSessionReference(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const fromLink = trimmed.match(/\/onboarding\/([^/?#\s]+)/);
+  if (fromLink) return decodeURIComponent(fromLink[1]);
+
+  return /^[\w-]+$/.test(trimmed) ? trimmed : null;
+}
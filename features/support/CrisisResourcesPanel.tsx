@@ -0,0 +1,120 @@
+/**
+ * CrisisResourcesPanel component for crisis safety interstitial
+ *
+ * Shown as soon as crisis language is detected in what a parent typed, or
+ * when the backend flags risk on the assessment. The panel cannot be
+ * dismissed by Escape or clicking outside; the parent must acknowledge it
+ * before continuing.
+ *
+ * @module features/support/CrisisResourcesPanel
+ */
+"use client";
+
+import * as React from "react";
+import { MessageSquare, Phone, Siren } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CRISIS_RESOURCES, type CrisisResource } from "@/lib/data/support-resources";
+
+/**
+ * Props for CrisisResourcesPanel component
+ */
+export interface CrisisResourcesPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Callback when the parent acknowledges the resources */
+  onAcknowledge: () => void;
+  /** Additional className */
+  className?: string;
+}
+
+/**
+ * Picks an icon for a crisis resource based on its link type
+ */
+function getResourceIcon(resource: CrisisResource) {
+  if (resource.href.startsWith("sms:")) return MessageSquare;
+  if (resource.href === "tel:911") return Siren;
+  return Phone;
+}
+
+/**
+ * Renders the crisis safety interstitial
+ *
+ * Accessibility:
+ * - role="alertdialog" with title and description
+ * - Focus is trapped until acknowledged
+ * - Escape and outside clicks are ignored
+ *
+ * @example
+ * <CrisisResourcesPanel
+ *   isOpen={isPanelOpen}
+ *   onAcknowledge={acknowledge}
+ * />
+ */
+export function CrisisResourcesPanel({
+  isOpen,
+  onAcknowledge,
+  className,
+}: CrisisResourcesPanelProps) {
+  return (
+    <AlertDialog open={isOpen}>
+      <AlertDialogContent
+        className={cn("sm:max-w-md", className)}
+        onEscapeKeyDown={(event) => event.preventDefault()}
+      >
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-xl font-serif text-deep-text">
+            Your child&apos;s safety comes first
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            It sounds like your child may be going through something serious.
+            If anyone is in danger or needs support right now, please reach
+            out to one of these free, confidential services.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className="space-y-3" aria-label="Crisis resources">
+          {CRISIS_RESOURCES.map((resource) => {
+            const Icon = getResourceIcon(resource);
+            return (
+              <li
+                key={resource.id}
+                className="rounded-lg border border-red-200 bg-red-50 p-3"
+              >
+                <p className="text-sm font-semibold text-red-900">{resource.name}</p>
+                <p className="text-sm text-red-800">{resource.description}</p>
+                <a
+                  href={resource.href}
+                  className="mt-2 inline-flex items-center gap-2 text-sm font-semibold text-red-700 hover:text-red-900"
+                >
+                  <Icon className="h-4 w-4" aria-hidden="true" />
+                  {resource.actionLabel}
+                </a>
+              </li>
+            );
+          })}
+        </ul>
+
+        <AlertDialogFooter>
+          <AlertDialogAction
+            onClick={onAcknowledge}
+            className="w-full bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+          >
+            I&apos;ve seen these resources
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+CrisisResourcesPanel.displayName = "CrisisResourcesPanel";
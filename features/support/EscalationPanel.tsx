@@ -0,0 +1,272 @@
+/**
+ * EscalationPanel component for "Talk to a person" requests
+ *
+ * A sheet-based panel where a parent can reach the Daybreak team directly.
+ * Shows phone, email and hours from the backend, lets the parent request a
+ * follow-up with a preset reason, and opens live chat when Intercom is
+ * available. When Intercom is blocked or not configured, phone and email
+ * are offered as the contact path instead.
+ *
+ * @module features/support/EscalationPanel
+ */
+"use client";
+
+import * as React from "react";
+import { CheckCircle2, Clock, Mail, MessageCircle, Phone, UserRound } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { useHumanEscalation } from "./useHumanEscalation";
+import {
+  ESCALATION_REASONS,
+  type EscalationReasonValue,
+  type EscalationSource,
+} from "./utils/escalation";
+
+/**
+ * Props for EscalationPanel component
+ */
+export interface EscalationPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Onboarding session ID */
+  sessionId: string;
+  /** UI entry point that opened the panel */
+  source: EscalationSource;
+  /** Additional className */
+  className?: string;
+}
+
+/**
+ * Formats the escalation request time for display
+ *
+ * @param isoDate - ISO date string
+ * @returns Localized date and time, e.g. "Jan 5, 2:30 PM"
+ */
+function formatRequestedAt(isoDate: string): string {
+  return new Date(isoDate).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * EscalationPanel component
+ *
+ * Accessibility:
+ * - Reasons are a native radio group with a legend
+ * - Request confirmation announced via role="status"
+ * - Errors and chat fallback announced via role="alert"
+ *
+ * @example
+ * ```tsx
+ * <EscalationPanel
+ *   isOpen={isEscalationOpen}
+ *   onOpenChange={setIsEscalationOpen}
+ *   sessionId={sessionId}
+ *   source="header"
+ * />
+ * ```
+ */
+export function EscalationPanel({
+  isOpen,
+  onOpenChange,
+  sessionId,
+  source,
+  className,
+}: EscalationPanelProps) {
+  const [reason, setReason] = React.useState<EscalationReasonValue | null>(null);
+  const [chatBlocked, setChatBlocked] = React.useState(false);
+
+  const {
+    contact,
+    isEscalated,
+    escalationRequestedAt,
+    requestHumanContact,
+    isRequesting,
+    requestError,
+    isChatAvailable,
+    openChat,
+  } = useHumanEscalation(sessionId, source);
+
+  /**
+   * Reset selection whenever the panel is reopened
+   */
+  React.useEffect(() => {
+    if (isOpen) {
+      setReason(null);
+      setChatBlocked(false);
+    }
+  }, [isOpen]);
+
+  /**
+   * Submits the follow-up request
+   */
+  async function handleRequest() {
+    if (!reason) return;
+    try {
+      await requestHumanContact(reason);
+    } catch {
+      // Error surfaced via requestError
+    }
+  }
+
+  /**
+   * Opens live chat, falling back to phone/email if Intercom is blocked
+   */
+  function handleOpenChat() {
+    if (openChat()) {
+      onOpenChange(false);
+    } else {
+      setChatBlocked(true);
+    }
+  }
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className={cn("p-0", className)}>
+        <SheetHeader className="border-b">
+          <div className="flex items-center gap-2">
+            <div className="p-2 rounded-lg bg-daybreak-teal/10">
+              <UserRound className="h-5 w-5 text-daybreak-teal" />
+            </div>
+            <div>
+              <SheetTitle className="text-lg">Talk to a Person</SheetTitle>
+              <SheetDescription>
+                Our care team is here to help
+              </SheetDescription>
+            </div>
+          </div>
+        </SheetHeader>
+
+        <div className="p-4 space-y-6 overflow-y-auto">
+          {/* Contact details */}
+          <section aria-labelledby="escalation-contact-heading" className="space-y-3">
+            <h3
+              id="escalation-contact-heading"
+              className="text-sm font-medium text-deep-text"
+            >
+              Reach us directly
+            </h3>
+            <a
+              href={`tel:${contact.phone}`}
+              className="flex items-center gap-3 rounded-lg border border-gray-200 p-3 text-sm hover:bg-gray-50"
+            >
+              <Phone className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+              <span>{contact.phone}</span>
+            </a>
+            <a
+              href={`mailto:${contact.email}`}
+              className="flex items-center gap-3 rounded-lg border border-gray-200 p-3 text-sm hover:bg-gray-50"
+            >
+              <Mail className="h-4 w-4 text-daybreak-teal" aria-hidden="true" />
+              <span>{contact.email}</span>
+            </a>
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Clock className="h-3 w-3" aria-hidden="true" />
+              {contact.hours}
+            </p>
+          </section>
+
+          {/* Live chat (Intercom) with fallback */}
+          {isChatAvailable && !chatBlocked ? (
+            <Button
+              variant="outline"
+              onClick={handleOpenChat}
+              className="w-full"
+            >
+              <MessageCircle className="h-4 w-4" aria-hidden="true" />
+              Chat with us now
+            </Button>
+          ) : (
+            <p className="text-xs text-muted-foreground" role={chatBlocked ? "alert" : undefined}>
+              Live chat isn&apos;t available right now. Call or email us, or
+              ask us to reach out below.
+            </p>
+          )}
+
+          {/* Escalation status or request form */}
+          {isEscalated ? (
+            <div
+              className="flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4"
+              role="status"
+            >
+              <CheckCircle2 className="h-5 w-5 shrink-0 text-green-600" aria-hidden="true" />
+              <div className="text-sm text-green-800">
+                <p className="font-medium">A team member will reach out soon</p>
+                {escalationRequestedAt && (
+                  <p className="mt-1 text-xs">
+                    Requested {formatRequestedAt(escalationRequestedAt)}
+                  </p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-deep-text mb-2">
+                  Ask us to reach out
+                </legend>
+                {ESCALATION_REASONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className={cn(
+                      "flex items-center gap-3 rounded-md border px-3 py-2 text-sm cursor-pointer transition-colors",
+                      reason === option.value
+                        ? "border-daybreak-teal bg-daybreak-teal/5"
+                        : "border-gray-200 hover:bg-gray-50"
+                    )}
+                  >
+                    <input
+                      type="radio"
+                      name="escalation-reason"
+                      value={option.value}
+                      checked={reason === option.value}
+                      onChange={() => setReason(option.value)}
+                      className="accent-daybreak-teal"
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </fieldset>
+              <p className="text-xs text-muted-foreground">
+                Please share personal or medical details only when you speak
+                with our team.
+              </p>
+
+              {requestError && (
+                <div
+                  className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800"
+                  role="alert"
+                >
+                  {requestError.message}. Please call or email us instead.
+                </div>
+              )}
+
+              <Button
+                onClick={handleRequest}
+                disabled={!reason || isRequesting}
+                className="w-full bg-daybreak-teal hover:bg-daybreak-teal/90 text-white"
+              >
+                {isRequesting ? "Sending..." : "Request a Call Back"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+EscalationPanel.displayName = "EscalationPanel";
@@ -8,7 +8,7 @@
 "use client";
 
 import * as React from "react";
-import { Search, BookOpen, Heart } from "lucide-react";
+import { Search, BookOpen, Heart, UserRound } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 import {
@@ -40,6 +40,8 @@ export interface ResourcePanelProps {
   filterTopics?: ResourceTopic[];
   /** Source context (affects display) */
   source?: "chat" | "form";
+  /** Callback to open the "Talk to a person" panel (link hidden when omitted) */
+  onTalkToHuman?: () => void;
   /** Additional className */
   className?: string;
 }
@@ -81,6 +83,7 @@ export function ResourcePanel({
   onOpenChange,
   filterTopics,
   source = "form",
+  onTalkToHuman,
   className,
 }: ResourcePanelProps) {
   const [searchQuery, setSearchQuery] = React.useState("");
@@ -212,6 +215,17 @@ export function ResourcePanel({
             {filteredResources.length} resource
             {filteredResources.length !== 1 ? "s" : ""} available
           </p>
+          {onTalkToHuman && (
+            <Button
+              variant="link"
+              size="sm"
+              onClick={onTalkToHuman}
+              className="mt-1 h-auto p-0 text-daybreak-teal"
+            >
+              <UserRound className="h-3 w-3" aria-hidden="true" />
+              Need more help? Talk to a person
+            </Button>
+          )}
         </div>
       </SheetContent>
     </Sheet>
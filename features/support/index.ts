@@ -2,16 +2,43 @@
  * Support Feature Module
  *
  * Exports components and hooks for customer support integration.
- * Includes Intercom widget, contextual help, and self-help resources.
+ * Includes Intercom widget, contextual help, self-help resources,
+ * "Talk to a person" escalation, and crisis safety screening.
  *
  * Epic 7: Support/Intercom Integration
  * Epic X: Emotional Support Content & Self-Help Resources
  */
 
 export { useIntercom } from './useIntercom';
+export {
+  useHumanEscalation,
+  DEFAULT_CONTACT_DETAILS,
+  type ContactDetails,
+  type UseHumanEscalationResult,
+} from './useHumanEscalation';
 
 // Resource Components
 export { ResourceCard, type ResourceCardProps } from './ResourceCard';
 export { ResourceAccordion, type ResourceAccordionProps } from './ResourceAccordion';
 export { ResourcePanel, type ResourcePanelProps } from './ResourcePanel';
 export { ChatResourceBubble, type ChatResourceBubbleProps } from './ChatResourceBubble';
+
+// Escalation Components
+export { EscalationPanel, type EscalationPanelProps } from './EscalationPanel';
+export {
+  ESCALATION_REASONS,
+  isIntercomAvailable,
+  type EscalationReasonValue,
+  type EscalationSource,
+} from './utils/escalation';
+
+// Crisis Safety
+export {
+  CrisisResourcesPanel,
+  type CrisisResourcesPanelProps,
+} from './CrisisResourcesPanel';
+export {
+  useRiskScreening,
+  type UseRiskScreeningOptions,
+  type UseRiskScreeningResult,
+} from './useRiskScreening';
@@ -0,0 +1,193 @@
+/**
+ * useHumanEscalation Hook
+ *
+ * Manages "Talk to a person" escalation for an onboarding session.
+ * Wraps the contactOptions query, the session's escalation status and
+ * the requestHumanContact mutation, and opens Intercom when it is
+ * available.
+ *
+ * Features:
+ * - Support phone, email and hours from the backend
+ * - Current escalation status (needsHumanContact / escalationRequestedAt)
+ * - PHI-safe reason submission using preset reasons only
+ * - Chat fallback detection when Intercom is blocked or not configured
+ *
+ * @module features/support/useHumanEscalation
+ */
+
+"use client";
+
+import * as React from "react";
+import type { ErrorLike } from "@apollo/client";
+import {
+  useGetContactOptionsQuery,
+  useGetEscalationStatusQuery,
+  useRequestHumanContactMutation,
+} from "@/types/graphql";
+import {
+  formatEscalationReason,
+  isIntercomAvailable,
+  type EscalationReasonValue,
+  type EscalationSource,
+} from "./utils/escalation";
+
+/**
+ * Support contact details shown in the escalation panel
+ */
+export interface ContactDetails {
+  /** Support phone number */
+  phone: string;
+  /** Support email address */
+  email: string;
+  /** Hours when the team is available */
+  hours: string;
+}
+
+/**
+ * Fallback contact details used while contactOptions is loading or
+ * if the query fails, so the parent always has a way to reach us
+ */
+export const DEFAULT_CONTACT_DETAILS: ContactDetails = {
+  phone: "1-800-555-0100",
+  email: "support@daybreakhealth.com",
+  hours: "Monday-Friday, 9am-5pm PT",
+};
+
+/**
+ * Hook return type
+ */
+export interface UseHumanEscalationResult {
+  /** Support contact details */
+  contact: ContactDetails;
+  /** Whether contact details are still loading */
+  contactLoading: boolean;
+  /** Whether the session is already flagged for human contact */
+  isEscalated: boolean;
+  /** When the escalation was requested (ISO string) */
+  escalationRequestedAt: string | null;
+  /** Requests human contact with a preset reason */
+  requestHumanContact: (reason: EscalationReasonValue) => Promise<void>;
+  /** Whether the request is in flight */
+  isRequesting: boolean;
+  /** Error from the most recent request */
+  requestError: Error | null;
+  /** Status query error */
+  statusError: ErrorLike | undefined;
+  /** Whether Intercom live chat can be opened */
+  isChatAvailable: boolean;
+  /** Opens Intercom live chat; returns false if chat is unavailable */
+  openChat: () => boolean;
+}
+
+/**
+ * Custom hook for human escalation
+ *
+ * @param sessionId - Onboarding session ID
+ * @param source - UI entry point, included with the submitted reason
+ * @returns Contact details, escalation status and actions
+ *
+ * @example
+ * const { contact, isEscalated, requestHumanContact } =
+ *   useHumanEscalation(sessionId, "header");
+ *
+ * await requestHumanContact("scheduling_help");
+ */
+export function useHumanEscalation(
+  sessionId: string,
+  source: EscalationSource
+): UseHumanEscalationResult {
+  const [requestError, setRequestError] = React.useState<Error | null>(null);
+  const [isChatAvailable, setIsChatAvailable] = React.useState(false);
+
+  const { data: contactData, loading: contactLoading } =
+    useGetContactOptionsQuery({
+      fetchPolicy: "cache-first",
+    });
+
+  const { data: statusData, error: statusError } = useGetEscalationStatusQuery(
+    {
+      variables: { sessionId },
+      skip: !sessionId,
+    }
+  );
+
+  const [requestMutation, { loading: isRequesting }] =
+    useRequestHumanContactMutation();
+
+  /**
+   * Intercom loads asynchronously after mount, so availability is
+   * checked on mount rather than during render
+   */
+  React.useEffect(() => {
+    setIsChatAvailable(isIntercomAvailable());
+  }, []);
+
+  const options = contactData?.contactOptions;
+  const contact = React.useMemo<ContactDetails>(
+    () =>
+      options
+        ? { phone: options.phone, email: options.email, hours: options.chatHours }
+        : DEFAULT_CONTACT_DETAILS,
+    [options]
+  );
+
+  const session = statusData?.session;
+
+  /**
+   * Flags the session for follow-up by the support team
+   *
+   * @param reason - Preset escalation reason
+   * @throws Error if the backend rejects the request
+   */
+  const requestHumanContact = React.useCallback(
+    async (reason: EscalationReasonValue): Promise<void> => {
+      setRequestError(null);
+
+      try {
+        const result = await requestMutation({
+          variables: {
+            input: {
+              sessionId,
+              reason: formatEscalationReason(reason, source),
+            },
+          },
+        });
+
+        if (!result.data?.requestHumanContact?.success) {
+          throw new Error("Unable to send your request");
+        }
+      } catch (err) {
+        const error =
+          err instanceof Error ? err : new Error("Unable to send your request");
+        setRequestError(error);
+        throw error;
+      }
+    },
+    [requestMutation, sessionId, source]
+  );
+
+  /**
+   * Opens the Intercom messenger when it has loaded
+   */
+  const openChat = React.useCallback((): boolean => {
+    if (!isIntercomAvailable()) {
+      setIsChatAvailable(false);
+      return false;
+    }
+    window.Intercom?.("show");
+    return true;
+  }, []);
+
+  return {
+    contact,
+    contactLoading,
+    isEscalated: session?.needsHumanContact ?? false,
+    escalationRequestedAt: session?.escalationRequestedAt ?? null,
+    requestHumanContact,
+    isRequesting,
+    requestError,
+    statusError,
+    isChatAvailable,
+    openChat,
+  };
+}
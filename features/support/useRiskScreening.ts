@@ -0,0 +1,125 @@
+/**
+ * useRiskScreening hook for crisis language screening
+ *
+ * Screens text before it is submitted and watches backend riskFlags.
+ * On a hit the crisis resources panel opens and the pending action
+ * (sending the message, moving to the next page) is held until the parent
+ * acknowledges the panel, then it continues.
+ *
+ * @module features/support/useRiskScreening
+ */
+"use client";
+
+import * as React from "react";
+import {
+  detectRiskInTexts,
+  logRiskEscalation,
+  type RiskEscalationTrigger,
+  type RiskScreeningSource,
+} from "@/lib/utils/risk-detection";
+
+/**
+ * Hook options
+ * @param sessionId - Onboarding session ID (used for escalation logging)
+ * @param source - Screen doing the screening
+ * @param riskFlags - Backend risk flags on the assessment, if loaded
+ */
+export interface UseRiskScreeningOptions {
+  sessionId: string;
+  source: RiskScreeningSource;
+  riskFlags?: string[] | null;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseRiskScreeningResult {
+  /** Whether the crisis panel is showing */
+  isPanelOpen: boolean;
+  /** Whether the parent has acknowledged the panel this visit */
+  hasAcknowledged: boolean;
+  /**
+   * Screens text and runs proceed when clear; on a hit, holds proceed
+   * until acknowledged. Returns true if crisis language was found.
+   */
+  screen: (text: string | Array<string | null | undefined>, proceed: () => void) => boolean;
+  /** Closes the panel and runs the held action, if any */
+  acknowledge: () => void;
+}
+
+/**
+ * Hook for screening input and showing crisis resources
+ *
+ * @param options - Session, source and backend risk flags
+ * @returns Panel state, screen function and acknowledge handler
+ *
+ * @example
+ * const { isPanelOpen, screen, acknowledge } = useRiskScreening({
+ *   sessionId,
+ *   source: "chat",
+ *   riskFlags: assessment?.riskFlags,
+ * });
+ *
+ * const handleSend = (content: string) => {
+ *   screen(content, () => sendMessage(content));
+ * };
+ */
+export function useRiskScreening({
+  sessionId,
+  source,
+  riskFlags,
+}: UseRiskScreeningOptions): UseRiskScreeningResult {
+  const [isPanelOpen, setIsPanelOpen] = React.useState(false);
+  const [hasAcknowledged, setHasAcknowledged] = React.useState(false);
+  const pendingActionRef = React.useRef<(() => void) | null>(null);
+  const shownFlagsKeyRef = React.useRef<string | null>(null);
+
+  /**
+   * Opens the panel and records the escalation
+   */
+  const openPanel = React.useCallback(
+    (trigger: RiskEscalationTrigger) => {
+      setIsPanelOpen(true);
+      logRiskEscalation({ sessionId, source, trigger });
+    },
+    [sessionId, source]
+  );
+
+  /**
+   * Show the panel once for each new set of backend risk flags
+   */
+  const flagsKey = riskFlags && riskFlags.length > 0 ? [...riskFlags].sort().join("|") : null;
+
+  React.useEffect(() => {
+    if (!flagsKey || shownFlagsKeyRef.current === flagsKey) return;
+    shownFlagsKeyRef.current = flagsKey;
+    openPanel("risk_flags");
+  }, [flagsKey, openPanel]);
+
+  const screen = React.useCallback(
+    (text: string | Array<string | null | undefined>, proceed: () => void): boolean => {
+      const result = detectRiskInTexts(Array.isArray(text) ? text : [text]);
+
+      if (!result.isRisk) {
+        proceed();
+        return false;
+      }
+
+      pendingActionRef.current = proceed;
+      openPanel("language");
+      return true;
+    },
+    [openPanel]
+  );
+
+  const acknowledge = React.useCallback(() => {
+    setIsPanelOpen(false);
+    setHasAcknowledged(true);
+
+    const pendingAction = pendingActionRef.current;
+    pendingActionRef.current = null;
+    pendingAction?.();
+  }, []);
+
+  return { isPanelOpen, hasAcknowledged, screen, acknowledge };
+}
@@ -0,0 +1,64 @@
+/**
+ * Human escalation helpers
+ *
+ * Preset reasons for "Talk to a person" requests and Intercom availability
+ * detection used to decide between live chat and the phone/email fallback.
+ *
+ * Reasons are a fixed list rather than free text so nothing clinical can
+ * reach the support queue through the requestHumanContact mutation.
+ *
+ * @module features/support/utils/escalation
+ */
+
+/**
+ * Preset escalation reasons (PHI-safe by construction)
+ */
+export const ESCALATION_REASONS = [
+  { value: "prefer_person", label: "I'd rather talk to a person" },
+  { value: "insurance_question", label: "I have a question about insurance or cost" },
+  { value: "scheduling_help", label: "I need help with scheduling" },
+  { value: "technical_issue", label: "Something isn't working" },
+  { value: "other", label: "Something else" },
+] as const;
+
+export type EscalationReasonValue = (typeof ESCALATION_REASONS)[number]["value"];
+
+/**
+ * Where the escalation panel was opened from, sent with the reason
+ * so support can see which part of onboarding needed help
+ */
+export type EscalationSource = "header" | "resources" | "chat";
+
+/**
+ * Builds the reason string sent to the backend
+ *
+ * @param reason - Selected preset reason
+ * @param source - UI entry point that opened the panel
+ * @returns Reason string in the form "<reason> (via <source>)"
+ *
+ * @example
+ * formatEscalationReason("scheduling_help", "chat");
+ * // "scheduling_help (via chat)"
+ */
+export function formatEscalationReason(
+  reason: EscalationReasonValue,
+  source: EscalationSource
+): string {
+  return `${reason} (via ${source})`;
+}
+
+/**
+ * Whether the Intercom messenger has actually loaded
+ *
+ * IntercomProvider installs a queueing stub (with a `q` array) before the
+ * widget script loads. If the script is blocked (ad blockers, privacy
+ * extensions, network policy) the stub is never replaced, so a stub that
+ * still has its queue means chat is unavailable.
+ *
+ * @returns true when the real Intercom API is present
+ */
+export function isIntercomAvailable(): boolean {
+  if (typeof window === "undefined") return false;
+  const intercom = window.Intercom;
+  return typeof intercom === "function" && !Array.isArray(intercom.q);
+}
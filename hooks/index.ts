@@ -9,3 +9,4 @@ export { useOnboardingSession, type UseOnboardingSessionReturn, type OnboardingS
 export { useDevAutofill, type UseDevAutofillReturn, type UseDevAutofillOptions } from "./useDevAutofill";
 export { useStorageSync, type UseStorageSyncOptions, type UseStorageSyncReturn, type SyncFormType } from "./useStorageSync";
 export { useDataSync, type UseDataSyncOptions, type UseDataSyncReturn } from "./useDataSync";
+export { useAbandonSession, type UseAbandonSessionReturn } from "./useAbandonSession";
@@ -0,0 +1,59 @@
+/**
+ * Abandon Session Hook
+ *
+ * Ends an onboarding session on the server and wipes its encrypted local
+ * copy, including the session's encryption key. The server keeps its
+ * records per the data retention policy; the device keeps nothing.
+ *
+ * @example
+ * ```tsx
+ * const { abandonSession, isAbandoning } = useAbandonSession(sessionId);
+ *
+ * <Button onClick={() => abandonSession().then(() => router.push("/"))}>
+ *   Start over
+ * </Button>
+ * ```
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import { useAbandonSessionMutation } from "@/types/graphql";
+import { wipeSessionData } from "@/lib/storage";
+
+/**
+ * Hook return type
+ */
+export interface UseAbandonSessionReturn {
+  /** Abandons the session and wipes local data */
+  abandonSession: () => Promise<void>;
+  /** Whether the abandon request is in flight */
+  isAbandoning: boolean;
+}
+
+/**
+ * Hook to abandon an onboarding session
+ *
+ * Local data is wiped even if the server request fails, so a parent who
+ * chooses to leave doesn't leave PHI behind on a shared device.
+ *
+ * @param sessionId - Session to abandon
+ * @returns Abandon action and loading state
+ * @throws The server error after local data is wiped
+ */
+export function useAbandonSession(sessionId: string): UseAbandonSessionReturn {
+  const [abandonSessionMutation, { loading }] = useAbandonSessionMutation();
+
+  const abandonSession = useCallback(async () => {
+    try {
+      const result = await abandonSessionMutation({
+        variables: { input: { sessionId } },
+      });
+      if (result.error) throw result.error;
+    } finally {
+      await wipeSessionData(sessionId);
+    }
+  }, [abandonSessionMutation, sessionId]);
+
+  return { abandonSession, isAbandoning: loading };
+}
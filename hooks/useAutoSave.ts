@@ -8,7 +8,11 @@
 "use client";
 
 import * as React from "react";
-import { parentInfoDefaults } from "@/lib/validations/demographics";
+import {
+  flushOnboardingData,
+  saveOnboardingData,
+  type OnboardingPatch,
+} from "@/lib/onboarding-store";
 
 /**
  * Save status states
@@ -88,45 +92,14 @@ export function useAutoSave({
         // Simulate network delay
         await new Promise((resolve) => setTimeout(resolve, 300));
 
-        // Store in localStorage as backup, merging with existing data
+        // Store on the device as backup; the onboarding store merges
+        // sections atomically and applies slice defaults
         try {
-          // Retrieve existing data to merge
-          const existingRaw = localStorage.getItem(`onboarding_session_${sessionId}`);
-          const existing = existingRaw ? JSON.parse(existingRaw) : {};
-          const existingData = existing.data || {};
-
-          // Prepare data with defaults applied
-          let dataToMerge = data && typeof data === "object" ? { ...data } as Record<string, unknown> : {};
-
-          // Apply parent defaults when parent data is being saved
-          // This ensures relationshipToChild defaults to "parent" when not explicitly set
-          if (dataToMerge.parent && typeof dataToMerge.parent === "object") {
-            const parentData = dataToMerge.parent as Record<string, unknown>;
-            // Only apply default if relationshipToChild is not set
-            if (!parentData.relationshipToChild) {
-              dataToMerge = {
-                ...dataToMerge,
-                parent: {
-                  ...parentData,
-                  relationshipToChild: parentInfoDefaults.relationshipToChild,
-                },
-              };
-            }
-          }
-
-          // Deep merge new data into existing data
-          const mergedData = {
-            ...existingData,
-            ...dataToMerge,
-          };
-
-          localStorage.setItem(
-            `onboarding_session_${sessionId}`,
-            JSON.stringify({
-              data: mergedData,
-              savedAt: new Date().toISOString(),
-            })
-          );
+          const patch: OnboardingPatch =
+            data && typeof data === "object" ? (data as OnboardingPatch) : {};
+          saveOnboardingData(sessionId, patch);
+          // Surface storage failures (e.g. quota) from the encrypted write
+          await flushOnboardingData(sessionId);
         } catch (storageError) {
           // Handle quota exceeded errors specifically
           if (
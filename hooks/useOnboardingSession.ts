@@ -8,6 +8,7 @@
 "use client";
 
 import * as React from "react";
+import { readSessionData, wipeSessionData } from "@/lib/storage";
 
 /**
  * Onboarding session data structure
@@ -91,18 +92,16 @@ export function useOnboardingSession(
       let parsed: { data?: { messages?: unknown[]; assessment?: unknown }; savedAt?: string } | null = null;
 
       try {
-        stored = localStorage.getItem(`onboarding_session_${sessionId}`);
+        stored = readSessionData(sessionId);
         if (stored) {
           parsed = JSON.parse(stored);
         }
       } catch (parseError) {
         console.warn("Failed to parse localStorage data, clearing corrupted session:", parseError);
         // Clear corrupted data
-        try {
-          localStorage.removeItem(`onboarding_session_${sessionId}`);
-        } catch (clearError) {
+        wipeSessionData(sessionId).catch((clearError) => {
           console.warn("Failed to clear corrupted localStorage:", clearError);
-        }
+        });
         parsed = null;
       }
 
@@ -1,13 +1,14 @@
 /**
- * useStorageSync hook for reactive localStorage watching
+ * useStorageSync hook for reactive saved-data watching
  *
- * Provides real-time sync between localStorage and form components.
- * Polls for changes since storage events don't fire in same tab.
+ * Provides real-time sync between the onboarding store and form
+ * components. Store subscriptions cover same-tab and cross-tab changes.
  * Used to sync AI chat extracted data to form fields.
  */
 "use client";
 
 import * as React from "react";
+import { useOnboardingData, type OnboardingState } from "@/lib/onboarding-store";
 
 /**
  * Form types that can be synced
@@ -22,7 +23,9 @@ export interface UseStorageSyncOptions {
   sessionId: string;
   /** Type of form to sync */
   formType: SyncFormType;
-  /** Polling interval in milliseconds (default 500) */
+  /**
+   * @deprecated Ignored; the onboarding store notifies on every change
+   */
   pollingIntervalMs?: number;
   /** Whether to enable sync (default true) */
   enabled?: boolean;
@@ -38,40 +41,29 @@ export interface UseStorageSyncReturn {
   lastUpdated: Date | null;
   /** Whether initial load is in progress */
   isLoading: boolean;
-  /** Manually trigger a refresh */
+  /**
+   * @deprecated No-op; data is always current
+   */
   refresh: () => void;
 }
 
 /**
- * Storage data structure
+ * Selects the whole saved state; extraction depends on several sections
  */
-interface StoredSessionData {
-  data?: {
-    parent?: Record<string, unknown>;
-    child?: Record<string, unknown>;
-    insurance?: Record<string, unknown>;
-    assessment?: Record<string, unknown>;
-    extractedData?: Record<string, unknown>;
-    formAssessment?: Record<string, unknown>;
-    firstName?: string;
-    lastName?: string;
-  };
-  savedAt?: string;
-}
+const selectState = (state: OnboardingState) => state;
 
 /**
  * Extracts form-specific data from storage based on form type
  *
- * @param stored - Parsed storage data
+ * @param state - Saved onboarding state
  * @param formType - Type of form to extract data for
  * @returns Extracted data for the form type
  */
 function extractFormData(
-  stored: StoredSessionData,
+  state: OnboardingState,
   formType: SyncFormType
 ): Record<string, unknown> | null {
-  const data = stored?.data;
-  if (!data) return null;
+  const data = state.data;
 
   switch (formType) {
     case "parent": {
@@ -123,9 +115,14 @@ function extractFormData(
 }
 
 /**
- * Hook for reactive localStorage sync
+ * No-op kept for callers of the old polling API
+ */
+const noop = () => {};
+
+/**
+ * Hook for reactive saved-data sync
  *
- * Polls localStorage for changes and returns form-specific data.
+ * Subscribes to the onboarding store and returns form-specific data.
  * Used to sync AI chat extracted data to form fields in real-time.
  *
  * @param options - Configuration options
@@ -147,115 +144,29 @@ function extractFormData(
 export function useStorageSync({
   sessionId,
   formType,
-  pollingIntervalMs = 500,
   enabled = true,
 }: UseStorageSyncOptions): UseStorageSyncReturn {
-  const [extractedData, setExtractedData] = React.useState<Record<string, unknown> | null>(null);
-  const [lastUpdated, setLastUpdated] = React.useState<Date | null>(null);
-  const [isLoading, setIsLoading] = React.useState(true);
-
-  // Track last savedAt timestamp to detect changes
-  const lastSavedAtRef = React.useRef<string | null>(null);
-
-  /**
-   * Load data from localStorage
-   */
-  const loadData = React.useCallback(() => {
-    if (!sessionId) {
-      setIsLoading(false);
-      return;
-    }
+  const state = useOnboardingData(sessionId, selectState);
 
+  const extractedData = React.useMemo(() => {
+    if (!enabled || !sessionId) return null;
     try {
-      const storageKey = `onboarding_session_${sessionId}`;
-      const storedRaw = localStorage.getItem(storageKey);
-
-      if (!storedRaw) {
-        setIsLoading(false);
-        return;
-      }
-
-      const stored: StoredSessionData = JSON.parse(storedRaw);
-
-      // Check if data has changed
-      if (stored.savedAt === lastSavedAtRef.current) {
-        // No change, skip update
-        setIsLoading(false);
-        return;
-      }
-
-      // Update reference
-      lastSavedAtRef.current = stored.savedAt || null;
-
-      // Extract form-specific data
-      const formData = extractFormData(stored, formType);
-
-      if (formData && Object.keys(formData).length > 0) {
-        setExtractedData(formData);
-        setLastUpdated(stored.savedAt ? new Date(stored.savedAt) : new Date());
-      }
-
-      setIsLoading(false);
+      return extractFormData(state, formType);
     } catch (error) {
       console.warn(`[useStorageSync] Failed to load ${formType} data:`, error);
-      setIsLoading(false);
-    }
-  }, [sessionId, formType]);
-
-  /**
-   * Manual refresh function
-   */
-  const refresh = React.useCallback(() => {
-    lastSavedAtRef.current = null; // Force reload
-    loadData();
-  }, [loadData]);
-
-  /**
-   * Initial load
-   */
-  React.useEffect(() => {
-    if (enabled) {
-      loadData();
-    }
-  }, [enabled, loadData]);
-
-  /**
-   * Set up polling interval for same-tab updates
-   * (storage events only fire for cross-tab changes)
-   */
-  React.useEffect(() => {
-    if (!enabled) return;
-
-    const intervalId = setInterval(loadData, pollingIntervalMs);
-
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, [enabled, loadData, pollingIntervalMs]);
-
-  /**
-   * Listen for cross-tab storage events
-   */
-  React.useEffect(() => {
-    if (!enabled) return;
-
-    function handleStorageChange(event: StorageEvent): void {
-      if (event.key === `onboarding_session_${sessionId}`) {
-        loadData();
-      }
+      return null;
     }
+  }, [enabled, sessionId, state, formType]);
 
-    window.addEventListener("storage", handleStorageChange);
-
-    return () => {
-      window.removeEventListener("storage", handleStorageChange);
-    };
-  }, [enabled, sessionId, loadData]);
+  const lastUpdated = React.useMemo(
+    () => (extractedData && state.savedAt ? new Date(state.savedAt) : null),
+    [extractedData, state.savedAt]
+  );
 
   return {
     extractedData,
     lastUpdated,
-    isLoading,
-    refresh,
+    isLoading: !enabled,
+    refresh: noop,
   };
 }
@@ -5,13 +5,23 @@
  * Includes InMemoryCache with type policies for OnboardingSession,
  * Message, and TherapistMatch types.
  */
-import { ApolloClient, InMemoryCache, type NormalizedCacheObject } from "@apollo/client";
+import {
+  ApolloClient,
+  ApolloLink,
+  InMemoryCache,
+  gql,
+  type NormalizedCacheObject,
+} from "@apollo/client";
 import {
   createHttpLink,
   createAuthLink,
   createWsLink,
   createSplitLink,
+  createErrorLink,
+  createTokenRefreshLink,
+  createRetryLink,
 } from "./links";
+import { createOfflineLink } from "./offline-queue";
 
 /**
  * Cache type policies for normalized data management.
@@ -42,6 +52,8 @@ const typePolicies = {
  *
  * Features:
  * - HTTP link for queries and mutations
+ * - Offline queue for mutations, flushed on reconnect
+ * - Typed error classification, token refresh and query retries
  * - WebSocket link for subscriptions (graphql-ws)
  * - Split link to route operations appropriately
  * - Authorization header middleware
@@ -50,13 +62,35 @@ const typePolicies = {
  * @returns Configured ApolloClient instance
  */
 export function makeClient() {
-  // Create HTTP link with auth middleware
-  const httpLink = createAuthLink().concat(createHttpLink());
-
   // Create WebSocket link for subscriptions
   // Only create in browser environment
   const isBrowser = typeof window !== "undefined";
 
+  // Mutations restored from a previous page load are replayed through the client
+  let client: ApolloClient | null = null;
+  const offlineLink = isBrowser
+    ? createOfflineLink({
+        replay: async (entry) => {
+          if (!client) return;
+          await client.mutate({
+            mutation: gql(entry.query),
+            variables: entry.variables,
+            errorPolicy: "none",
+          });
+        },
+      })
+    : null;
+
+  // Create HTTP link chain: offline queue -> errors -> token refresh -> retry -> auth -> HTTP
+  const httpLink = ApolloLink.from([
+    ...(offlineLink ? [offlineLink] : []),
+    createErrorLink(),
+    createTokenRefreshLink(),
+    createRetryLink(),
+    createAuthLink(),
+    createHttpLink(),
+  ]);
+
   // Build final link
   let link = httpLink;
 
@@ -70,7 +104,7 @@ export function makeClient() {
     typePolicies,
   });
 
-  return new ApolloClient({
+  client = new ApolloClient({
     link,
     cache,
     defaultOptions: {
@@ -86,12 +120,22 @@ export function makeClient() {
       },
     },
   });
+
+  // Send anything left in the queue from a previous visit
+  if (offlineLink) {
+    void offlineLink.flush();
+  }
+
+  return client;
 }
 
 // Re-export link utilities for external use
 export {
   setAuthToken,
   getAuthToken,
+  setRefreshToken,
+  getRefreshToken,
+  onAppError,
   onConnectionStateChange,
   getConnectionState,
   reconnectWebSocket,
@@ -99,4 +143,12 @@ export {
   getWebSocketEndpoint,
   getApiInfo,
 } from "./links";
-export type { ConnectionState, ConnectionStateCallback, ApiTarget, ApiInfo } from "./links";
+export type {
+  ConnectionState,
+  ConnectionStateCallback,
+  AppErrorCallback,
+  ApiTarget,
+  ApiInfo,
+} from "./links";
+export { classifyError } from "./errors";
+export type { AppError, AppErrorKind } from "./errors";
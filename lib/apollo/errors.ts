@@ -0,0 +1,157 @@
+/**
+ * Apollo Error Classification
+ *
+ * Maps Apollo errors (GraphQL errors, HTTP errors, network failures) to a
+ * small set of typed app errors so links and UI code can react to the kind
+ * of failure instead of inspecting Apollo error classes directly.
+ *
+ * GraphQL error codes come from `extensions.code` on the backend errors:
+ * UNAUTHENTICATED, FORBIDDEN, NOT_FOUND, VALIDATION_ERROR, SESSION_EXPIRED,
+ * RATE_LIMITED, INTERNAL_ERROR.
+ */
+import { CombinedGraphQLErrors, ServerError, ServerParseError } from "@apollo/client/errors";
+
+/**
+ * Kinds of app error
+ */
+export type AppErrorKind =
+  | "unauthenticated"
+  | "session_expired"
+  | "forbidden"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "offline"
+  | "network"
+  | "server"
+  | "unknown";
+
+/**
+ * Classified app error
+ * @param kind - Kind of failure
+ * @param message - Human-readable message from the original error
+ * @param code - GraphQL error code, if any
+ * @param statusCode - HTTP status code, if any
+ * @param retryable - Whether retrying the same request may succeed
+ * @param cause - Original error
+ */
+export interface AppError {
+  kind: AppErrorKind;
+  message: string;
+  code: string | null;
+  statusCode: number | null;
+  retryable: boolean;
+  cause: unknown;
+}
+
+/**
+ * App error kinds by GraphQL error code
+ */
+const KIND_BY_CODE: Record<string, AppErrorKind> = {
+  UNAUTHENTICATED: "unauthenticated",
+  SESSION_EXPIRED: "session_expired",
+  FORBIDDEN: "forbidden",
+  NOT_FOUND: "not_found",
+  VALIDATION_ERROR: "validation",
+  RATE_LIMITED: "rate_limited",
+  INTERNAL_ERROR: "server",
+};
+
+/**
+ * Kinds where retrying the same request may succeed
+ */
+const RETRYABLE_KINDS: ReadonlySet<AppErrorKind> = new Set<AppErrorKind>([
+  "rate_limited",
+  "offline",
+  "network",
+  "server",
+]);
+
+/**
+ * Maps an HTTP status code to an app error kind
+ */
+function kindFromStatus(statusCode: number): AppErrorKind {
+  if (statusCode === 401) return "unauthenticated";
+  if (statusCode === 403) return "forbidden";
+  if (statusCode === 404) return "not_found";
+  if (statusCode === 400 || statusCode === 422) return "validation";
+  if (statusCode === 429) return "rate_limited";
+  if (statusCode >= 500) return "server";
+  return "unknown";
+}
+
+/**
+ * Checks whether the browser reports being offline
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+/**
+ * Builds an AppError with the retryable flag derived from its kind
+ */
+function toAppError(
+  kind: AppErrorKind,
+  cause: unknown,
+  details: { message?: string; code?: string | null; statusCode?: number | null } = {}
+): AppError {
+  const message =
+    details.message ?? (cause instanceof Error ? cause.message : "An unexpected error occurred");
+
+  return {
+    kind,
+    message,
+    code: details.code ?? null,
+    statusCode: details.statusCode ?? null,
+    retryable: RETRYABLE_KINDS.has(kind),
+    cause,
+  };
+}
+
+/**
+ * Classifies an error from an Apollo operation into a typed app error
+ *
+ * For GraphQL errors the first error with a known code wins, so an
+ * UNAUTHENTICATED error is not hidden behind a generic one.
+ *
+ * @param error - Error from a link, mutation or query result
+ * @returns Classified app error
+ *
+ * @example
+ * const appError = classifyError(error);
+ * if (appError.kind === "unauthenticated") router.push("/");
+ */
+export function classifyError(error: unknown): AppError {
+  if (CombinedGraphQLErrors.is(error)) {
+    const known = error.errors.find((graphQLError) => {
+      const code = graphQLError.extensions?.code;
+      return typeof code === "string" && code in KIND_BY_CODE;
+    });
+    const target = known ?? error.errors[0];
+    const code = typeof target?.extensions?.code === "string" ? target.extensions.code : null;
+
+    return toAppError(known ? KIND_BY_CODE[code as string] : "unknown", error, {
+      message: target?.message,
+      code,
+    });
+  }
+
+  if (ServerError.is(error) || ServerParseError.is(error)) {
+    return toAppError(kindFromStatus(error.statusCode), error, { statusCode: error.statusCode });
+  }
+
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError) {
+    return toAppError(isOffline() ? "offline" : "network", error);
+  }
+
+  return toAppError("unknown", error);
+}
+
+/**
+ * Checks whether an error means the auth token was rejected
+ * @param error - Error from a link or operation result
+ */
+export function isAuthenticationError(error: unknown): boolean {
+  return classifyError(error).kind === "unauthenticated";
+}
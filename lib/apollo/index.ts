@@ -11,7 +11,10 @@ export { makeClient } from "./client";
 export { ApolloWrapper } from "./provider";
 
 // Auth token management
-export { setAuthToken, getAuthToken } from "./client";
+export { setAuthToken, getAuthToken, setRefreshToken, getRefreshToken } from "./client";
+
+// Error classification
+export { classifyError, onAppError } from "./client";
 
 // WebSocket connection management
 export {
@@ -28,4 +31,12 @@ export {
 } from "./client";
 
 // Types
-export type { ConnectionState, ConnectionStateCallback, ApiTarget, ApiInfo } from "./client";
+export type {
+  ConnectionState,
+  ConnectionStateCallback,
+  AppError,
+  AppErrorKind,
+  AppErrorCallback,
+  ApiTarget,
+  ApiInfo,
+} from "./client";
@@ -6,14 +6,22 @@
  * file upload support via apollo-upload-client, and exponential backoff
  * reconnection for WebSocket connections.
  *
+ * The HTTP chain also classifies errors into typed app errors, refreshes
+ * the JWT on UNAUTHENTICATED and replays the request, and retries failed
+ * queries with jittered backoff. Each link can be tested on its own
+ * against a mock terminating link.
+ *
  * Environment Configuration:
  * - NEXT_PUBLIC_API_TARGET: 'local' | 'aptible' (defaults to 'aptible' in production)
  * - Local: localhost:3000 (Rails backend)
  * - Aptible: app-98507.on-aptible.com (production backend)
  */
-import { HttpLink, ApolloLink, split } from "@apollo/client";
+import { HttpLink, ApolloLink, Observable, split } from "@apollo/client";
 import { setContext } from "@apollo/client/link/context";
+import { ErrorLink } from "@apollo/client/link/error";
+import { RetryLink } from "@apollo/client/link/retry";
 import { getMainDefinition } from "@apollo/client/utilities";
+import { OperationTypeNode, print } from "graphql";
 // apollo-upload-client v19 exports default
 import UploadHttpLink from "apollo-upload-client/UploadHttpLink.mjs";
 
@@ -25,6 +33,8 @@ import {
   reconnectActionCable,
   type ActionCableConnectionState,
 } from "./action-cable-link";
+import { classifyError, isAuthenticationError, type AppError } from "./errors";
+import { RefreshTokenDocument, type RefreshTokenMutation } from "@/types/graphql";
 
 /**
  * Determines the GraphQL HTTP endpoint based on environment configuration.
@@ -142,6 +152,124 @@ export function getAuthToken(): string | null {
   return null;
 }
 
+/**
+ * In-memory refresh token cache, persisted like the auth token
+ */
+let refreshToken: string | null = null;
+
+/**
+ * localStorage key for persisting the refresh token
+ */
+const REFRESH_TOKEN_KEY = "daybreak_refresh_token";
+
+/**
+ * Sets the refresh token used to renew the auth token.
+ * Stores in both memory and localStorage.
+ * @param token - Refresh token or null to clear
+ */
+export function setRefreshToken(token: string | null): void {
+  refreshToken = token;
+
+  if (typeof window !== "undefined") {
+    try {
+      if (token) {
+        localStorage.setItem(REFRESH_TOKEN_KEY, token);
+      } else {
+        localStorage.removeItem(REFRESH_TOKEN_KEY);
+      }
+    } catch (err) {
+      console.warn("Failed to persist refresh token to localStorage:", err);
+    }
+  }
+}
+
+/**
+ * Gets the current refresh token.
+ * First checks in-memory cache, then falls back to localStorage.
+ * @returns Refresh token or null
+ */
+export function getRefreshToken(): string | null {
+  if (refreshToken) {
+    return refreshToken;
+  }
+
+  if (typeof window !== "undefined") {
+    try {
+      const storedToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (storedToken) {
+        refreshToken = storedToken;
+        return storedToken;
+      }
+    } catch (err) {
+      console.warn("Failed to retrieve refresh token from localStorage:", err);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Refresh request in flight, shared by concurrent UNAUTHENTICATED errors
+ */
+let pendingRefresh: Promise<string | null> | null = null;
+
+/**
+ * Sends the RefreshToken mutation outside the link chain.
+ * Stores the rotated tokens on success.
+ */
+async function requestTokenRefresh(): Promise<string | null> {
+  const currentRefreshToken = getRefreshToken();
+  if (!currentRefreshToken) return null;
+
+  const response = await fetch(getGraphQLEndpoint(), {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      "Apollo-Require-Preflight": "true",
+    },
+    body: JSON.stringify({
+      operationName: "RefreshToken",
+      query: print(RefreshTokenDocument),
+      variables: { refreshToken: currentRefreshToken },
+    }),
+  });
+  if (!response.ok) return null;
+
+  const { data } = (await response.json()) as { data?: RefreshTokenMutation };
+  const payload = data?.refreshToken;
+
+  if (!payload?.success || !payload.token) {
+    // Refresh token was rejected; it won't work on a later attempt either
+    setRefreshToken(null);
+    return null;
+  }
+
+  setAuthToken(payload.token);
+  if (payload.refreshToken) setRefreshToken(payload.refreshToken);
+  return payload.token;
+}
+
+/**
+ * Refreshes the auth token using the stored refresh token.
+ * Concurrent callers share a single refresh request.
+ *
+ * @returns New auth token, or null if it couldn't be refreshed
+ */
+export function refreshAuthToken(): Promise<string | null> {
+  if (!pendingRefresh) {
+    pendingRefresh = requestTokenRefresh()
+      .catch((err) => {
+        console.warn("[Apollo] Token refresh failed:", err instanceof Error ? err.message : err);
+        return null;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
 /**
  * Creates an HTTP link for GraphQL queries and mutations.
  * Uses UploadHttpLink from apollo-upload-client to support file uploads.
@@ -182,6 +310,121 @@ export function createAuthLink(): ApolloLink {
   });
 }
 
+/**
+ * App error callback type
+ */
+export type AppErrorCallback = (error: AppError, operationName: string | undefined) => void;
+
+/**
+ * Registered app error listeners
+ */
+const appErrorListeners = new Set<AppErrorCallback>();
+
+/**
+ * Registers a callback for classified operation errors
+ * @param callback - Function to call when an operation fails
+ * @returns Cleanup function to unregister the callback
+ */
+export function onAppError(callback: AppErrorCallback): () => void {
+  appErrorListeners.add(callback);
+  return () => {
+    appErrorListeners.delete(callback);
+  };
+}
+
+/**
+ * Creates an error link that classifies operation errors.
+ * Classified errors are logged (operation name and kind only, no PHI) and
+ * passed to onAppError listeners; the original error still reaches the
+ * caller unchanged.
+ *
+ * @returns ApolloLink that reports typed app errors
+ */
+export function createErrorLink(): ApolloLink {
+  return new ErrorLink(({ error, operation }) => {
+    const appError = classifyError(error);
+
+    console.warn(
+      `[Apollo] ${operation.operationName ?? "Operation"} failed: ${appError.kind}` +
+        (appError.code ? ` (${appError.code})` : "")
+    );
+    appErrorListeners.forEach((listener) => listener(appError, operation.operationName));
+  });
+}
+
+/**
+ * Options for the token refresh link
+ */
+export interface TokenRefreshLinkOptions {
+  /** Refreshes the auth token (defaults to the RefreshToken mutation) */
+  refresh?: () => Promise<string | null>;
+}
+
+/**
+ * Creates a link that refreshes the JWT on UNAUTHENTICATED and replays
+ * the request once with the new token.
+ * Must sit before the auth link so the replay picks up the new token.
+ *
+ * @param options - Refresh function override (for tests)
+ * @returns ApolloLink with transparent token refresh
+ */
+export function createTokenRefreshLink(options: TokenRefreshLinkOptions = {}): ApolloLink {
+  const { refresh = refreshAuthToken } = options;
+
+  return new ErrorLink(({ error, operation, forward }) => {
+    if (!isAuthenticationError(error) || operation.getContext().tokenRefreshed) {
+      return;
+    }
+
+    return new Observable((observer) => {
+      let subscription: { unsubscribe: () => void } | null = null;
+      let cancelled = false;
+
+      refresh()
+        .then((token) => {
+          if (cancelled) return;
+          if (!token) {
+            observer.error(error);
+            return;
+          }
+          operation.setContext({ tokenRefreshed: true });
+          subscription = forward(operation).subscribe(observer);
+        })
+        .catch(() => observer.error(error));
+
+      return () => {
+        cancelled = true;
+        subscription?.unsubscribe();
+      };
+    });
+  });
+}
+
+/**
+ * Retry policy for failed queries
+ */
+const RETRY_DELAY = { initial: 300, max: 5000, jitter: true };
+const RETRY_MAX_ATTEMPTS = 4;
+
+/**
+ * Creates a retry link for idempotent operations.
+ * Queries that fail with a retryable error (network, 5xx, rate limited)
+ * are retried with jittered exponential backoff. Mutations are never
+ * retried here since they may not be safe to repeat.
+ *
+ * @returns ApolloLink with retry policy
+ */
+export function createRetryLink(): ApolloLink {
+  return new RetryLink({
+    delay: RETRY_DELAY,
+    attempts: {
+      max: RETRY_MAX_ATTEMPTS,
+      retryIf: (error, operation) =>
+        operation.operationType === OperationTypeNode.QUERY && classifyError(error).retryable,
+    },
+  });
+}
+
 /**
  * Connection state for WebSocket monitoring
  * Re-exported from ActionCable link for backwards compatibility
@@ -0,0 +1,339 @@
+/**
+ * Offline Mutation Queue
+ *
+ * Apollo link that holds mutations issued while the browser is offline and
+ * sends them, in order, when the connection comes back. Mutations whose
+ * variables hold no PHI (see PERSISTED_OFFLINE_MUTATIONS) are persisted to
+ * localStorage so they survive a page refresh; mutations restored after a
+ * refresh have no caller waiting on them and are replayed through the
+ * `replay` option instead. All other mutations are queued in memory only
+ * and are lost if the page is closed before the connection comes back.
+ *
+ * Mutations with file variables (insurance card uploads) can't be persisted
+ * and are never queued.
+ */
+import { ApolloLink, Operation, FetchResult, Observable } from "@apollo/client";
+import { OperationTypeNode, print } from "graphql";
+
+import { isOffline } from "./errors";
+
+/**
+ * localStorage key for persisted offline mutations
+ */
+export const OFFLINE_QUEUE_KEY = "daybreak_offline_mutations";
+
+/**
+ * Mutations that may be persisted while queued
+ *
+ * localStorage isn't encrypted, so only mutations whose variables are IDs
+ * and plan choices are listed. Names, dates of birth, insurance details
+ * and assessment answers stay in memory.
+ */
+export const PERSISTED_OFFLINE_MUTATIONS: ReadonlySet<string> = new Set([
+  "SelectTherapist",
+  "SelectSelfPay",
+  "SavePaymentPlanSelection",
+  "VerifyEligibility",
+]);
+
+/**
+ * Queued mutations older than this are dropped (24 hours)
+ */
+const MAX_QUEUE_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Mutation waiting to be sent
+ * @param id - Unique queue entry ID
+ * @param operationName - GraphQL operation name
+ * @param query - Printed mutation document
+ * @param variables - Mutation variables
+ * @param queuedAt - Time the mutation was queued (ms since epoch)
+ */
+export interface QueuedMutation {
+  id: string;
+  operationName: string | null;
+  query: string;
+  variables: Record<string, unknown>;
+  queuedAt: number;
+}
+
+/**
+ * Storage used to persist the queue (localStorage in the browser)
+ */
+export type QueueStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/**
+ * Durable queue of offline mutations
+ */
+export interface OfflineMutationQueue {
+  /** Queued mutations, oldest first (expired entries are dropped) */
+  list: () => QueuedMutation[];
+  /** Adds a mutation to the end of the queue */
+  enqueue: (entry: QueuedMutation) => void;
+  /** Removes a mutation from the queue */
+  remove: (id: string) => void;
+  /** Removes all queued mutations */
+  clear: () => void;
+}
+
+/**
+ * Options for the offline link
+ */
+export interface OfflineLinkOptions {
+  /** Queue to persist mutations in (defaults to a localStorage-backed queue) */
+  queue?: OfflineMutationQueue;
+  /** Sends a mutation restored from a previous page load */
+  replay?: (entry: QueuedMutation) => Promise<unknown>;
+  /** Whether the browser is online (defaults to navigator.onLine) */
+  isOnline?: () => boolean;
+  /** Registers a listener for reconnects (defaults to the window online event) */
+  onReconnect?: (listener: () => void) => () => void;
+}
+
+/**
+ * Offline link with manual queue control
+ */
+export interface OfflineLink extends ApolloLink {
+  /** Sends queued mutations now, stopping at the first network failure */
+  flush: () => Promise<void>;
+  /** Stops listening for reconnects */
+  dispose: () => void;
+}
+
+/**
+ * Caller waiting on a mutation queued during this page load
+ */
+interface QueuedMutationWaiter {
+  operation: Operation;
+  forward: (operation: Operation) => Observable<FetchResult>;
+  observer: {
+    next: (value: FetchResult) => void;
+    error: (error: unknown) => void;
+    complete: () => void;
+  };
+}
+
+/**
+ * Gets browser localStorage if it's available
+ */
+function getBrowserStorage(): QueueStorage | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a queued mutation may be written to storage
+ */
+function isPersistedMutation(entry: QueuedMutation): boolean {
+  return entry.operationName !== null && PERSISTED_OFFLINE_MUTATIONS.has(entry.operationName);
+}
+
+/**
+ * Creates a durable queue for offline mutations
+ *
+ * @param storage - Storage to persist to (defaults to localStorage)
+ * @param storageKey - Storage key for the queue
+ * @param canPersist - Whether an entry may be written to storage
+ * @returns Offline mutation queue
+ */
+export function createOfflineMutationQueue(
+  storage: QueueStorage | null = getBrowserStorage(),
+  storageKey: string = OFFLINE_QUEUE_KEY,
+  canPersist: (entry: QueuedMutation) => boolean = isPersistedMutation
+): OfflineMutationQueue {
+  // Entries kept for this page load only: ones that can't be persisted,
+  // or all of them when storage is unavailable (SSR, private mode)
+  let memory: QueuedMutation[] = [];
+
+  const readStored = (): QueuedMutation[] => {
+    if (!storage) return [];
+    try {
+      const raw = storage.getItem(storageKey);
+      return raw ? (JSON.parse(raw) as QueuedMutation[]) : [];
+    } catch (err) {
+      console.warn("[OfflineQueue] Failed to read queued mutations:", err);
+      return [];
+    }
+  };
+
+  const read = (): QueuedMutation[] =>
+    [...readStored(), ...memory].sort((a, b) => a.queuedAt - b.queuedAt);
+
+  const write = (entries: QueuedMutation[]): void => {
+    const persisted = storage ? entries.filter(canPersist) : [];
+    memory = entries.filter((entry) => !persisted.includes(entry));
+    if (!storage) return;
+
+    try {
+      if (persisted.length > 0) {
+        storage.setItem(storageKey, JSON.stringify(persisted));
+      } else {
+        storage.removeItem(storageKey);
+      }
+    } catch (err) {
+      console.warn("[OfflineQueue] Failed to persist queued mutations:", err);
+    }
+  };
+
+  return {
+    list: () => {
+      const entries = read();
+      const fresh = entries.filter((entry) => Date.now() - entry.queuedAt < MAX_QUEUE_AGE_MS);
+      // Also rewrites entries stored before they were kept in memory
+      if (fresh.length !== entries.length || !readStored().every(canPersist)) write(fresh);
+      return fresh;
+    },
+    enqueue: (entry) => write([...read(), entry]),
+    remove: (id) => write(read().filter((entry) => entry.id !== id)),
+    clear: () => write([]),
+  };
+}
+
+/**
+ * Checks whether variables contain files, which can't be persisted
+ */
+function containsFile(value: unknown): boolean {
+  if (typeof Blob !== "undefined" && value instanceof Blob) return true;
+  if (Array.isArray(value)) return value.some(containsFile);
+  if (value && typeof value === "object") return Object.values(value).some(containsFile);
+  return false;
+}
+
+/**
+ * Checks whether a mutation failed because the request never got through
+ */
+function isNetworkFailure(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+/**
+ * Default reconnect listener using the window online event
+ */
+function onWindowOnline(listener: () => void): () => void {
+  if (typeof window === "undefined") return () => {};
+  window.addEventListener("online", listener);
+  return () => window.removeEventListener("online", listener);
+}
+
+let entryCounter = 0;
+
+/**
+ * Creates a link that queues mutations while offline
+ *
+ * Online mutations, queries and subscriptions pass straight through. A
+ * mutation issued offline is queued and its caller keeps waiting until
+ * the queue is flushed on reconnect, then receives the real result.
+ *
+ * @param options - Queue, replay and connectivity configuration
+ * @returns Offline link with flush/dispose controls
+ *
+ * @example
+ * let client: ApolloClient;
+ * const offlineLink = createOfflineLink({
+ *   replay: (entry) => client.mutate({ mutation: gql(entry.query), variables: entry.variables }),
+ * });
+ */
+export function createOfflineLink(options: OfflineLinkOptions = {}): OfflineLink {
+  const {
+    queue = createOfflineMutationQueue(),
+    replay,
+    isOnline = () => !isOffline(),
+    onReconnect = onWindowOnline,
+  } = options;
+
+  // Callers still waiting on a queued mutation from this page load
+  const waiting = new Map<string, QueuedMutationWaiter>();
+  let flushing: Promise<void> | null = null;
+
+  /**
+   * Sends one queued mutation, resolving false if the network failed
+   */
+  const send = (entry: QueuedMutation): Promise<boolean> => {
+    const waiter = waiting.get(entry.id);
+
+    if (!waiter) {
+      if (!replay) return Promise.resolve(false);
+      return replay(entry).then(
+        () => true,
+        (error: unknown) => !isNetworkFailure(error)
+      );
+    }
+
+    return new Promise<boolean>((resolve) => {
+      waiter.forward(waiter.operation).subscribe({
+        next: (value) => waiter.observer.next(value),
+        error: (error: unknown) => {
+          if (isNetworkFailure(error)) {
+            resolve(false);
+            return;
+          }
+          waiter.observer.error(error);
+          resolve(true);
+        },
+        complete: () => {
+          waiter.observer.complete();
+          resolve(true);
+        },
+      });
+    });
+  };
+
+  const flush = (): Promise<void> => {
+    if (!flushing) {
+      flushing = (async () => {
+        for (const entry of queue.list()) {
+          if (!isOnline()) break;
+          // Without a replay function, restored mutations wait for one
+          if (!replay && !waiting.has(entry.id)) continue;
+          const sent = await send(entry);
+          if (!sent) break;
+          queue.remove(entry.id);
+          waiting.delete(entry.id);
+        }
+      })().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  const link = new ApolloLink((operation, forward) => {
+    const isMutation = operation.operationType === OperationTypeNode.MUTATION;
+    if (!isMutation || isOnline() || containsFile(operation.variables)) {
+      return forward(operation);
+    }
+
+    return new Observable<FetchResult>((observer) => {
+      entryCounter += 1;
+      const entry: QueuedMutation = {
+        id: `${Date.now()}-${entryCounter}`,
+        operationName: operation.operationName ?? null,
+        query: print(operation.query),
+        variables: operation.variables,
+        queuedAt: Date.now(),
+      };
+
+      queue.enqueue(entry);
+      waiting.set(entry.id, { operation, forward, observer });
+      console.info(`[OfflineQueue] Queued ${entry.operationName ?? "mutation"} until reconnect`);
+
+      return () => {
+        // Caller stopped waiting; the mutation stays queued and is replayed
+        waiting.delete(entry.id);
+      };
+    });
+  }) as OfflineLink;
+
+  const removeListener = onReconnect(() => {
+    void flush();
+  });
+
+  link.flush = flush;
+  link.dispose = removeListener;
+
+  return link;
+}
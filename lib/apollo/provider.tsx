@@ -2,19 +2,14 @@
  * Apollo Provider Component
  *
  * Wraps the application with ApolloProvider for GraphQL access.
- * Uses standard Apollo Client setup for Next.js App Router.
+ * Uses the client from ./client so the app gets its full link chain
+ * (offline queue, error handling, token refresh and retries).
  */
 "use client";
 
-import { ApolloClient, InMemoryCache } from "@apollo/client";
 import { ApolloProvider } from "@apollo/client/react";
 import { useMemo } from "react";
-import {
-  createHttpLink,
-  createAuthLink,
-  createWsLink,
-  createSplitLink,
-} from "./links";
+import { makeClient } from "./client";
 
 /**
  * Props for the ApolloWrapper component
@@ -23,62 +18,6 @@ interface ApolloWrapperProps {
   children: React.ReactNode;
 }
 
-/**
- * Cache type policies for normalized data management.
- */
-const typePolicies = {
-  OnboardingSession: {
-    keyFields: ["id"],
-    fields: {
-      assessment: {
-        merge: true,
-      },
-    },
-  },
-  Message: {
-    keyFields: ["id"],
-  },
-  TherapistMatch: {
-    keyFields: ["therapistId"],
-  },
-};
-
-/**
- * Creates a configured Apollo Client instance for Next.js App Router.
- */
-function makeClient() {
-  const httpLink = createAuthLink().concat(createHttpLink());
-  const isBrowser = typeof window !== "undefined";
-
-  let link = httpLink;
-
-  if (isBrowser) {
-    const wsLink = createWsLink();
-    link = createSplitLink(httpLink, wsLink);
-  }
-
-  const cache = new InMemoryCache({
-    typePolicies,
-  });
-
-  return new ApolloClient({
-    link,
-    cache,
-    defaultOptions: {
-      watchQuery: {
-        fetchPolicy: "cache-and-network",
-      },
-      query: {
-        fetchPolicy: "cache-first",
-        errorPolicy: "all",
-      },
-      mutate: {
-        errorPolicy: "all",
-      },
-    },
-  });
-}
-
 /**
  * Apollo Provider wrapper for Next.js App Router.
  *
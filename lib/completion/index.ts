@@ -21,9 +21,13 @@
 
 export * from "./types";
 export * from "./field-config";
-export {
-  useCompletionStatus,
-  notifyCompletionUpdate,
-  ONBOARDING_DATA_UPDATED_EVENT,
-} from "./useCompletionStatus";
+export { useCompletionStatus, notifyCompletionUpdate } from "./useCompletionStatus";
+export { ONBOARDING_DATA_UPDATED_EVENT } from "@/lib/onboarding-store";
 export { useBackendCompletionStatus } from "./useBackendCompletionStatus";
+export {
+  useLiveSessionProgress,
+  LIVE_PROGRESS_POLL_INTERVAL_MS,
+  type LiveSessionProgress,
+  type LiveAssessmentProgress,
+  type UseLiveSessionProgressResult,
+} from "./useLiveSessionProgress";
@@ -117,6 +117,8 @@ export interface BackendCompletionStatus {
   canProceedToMatching: boolean;
   /** Human-readable list of what's missing from backend */
   missingBackendData: string[];
+  /** Whether progress is arriving over subscriptions (false while polling) */
+  isLive: boolean;
   /** Function to refetch backend status */
   refetch: () => void;
 }
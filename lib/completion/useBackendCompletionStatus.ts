@@ -7,6 +7,8 @@
  *
  * Unlike useCompletionStatus which reads localStorage, this hook queries
  * the GraphQL API to determine what data actually exists in the database.
+ * Progress and assessment status stay current through the live progress
+ * subscriptions (or polling while the socket is down).
  *
  * @example
  * ```tsx
@@ -23,6 +25,7 @@
 import { useMemo } from "react";
 import { useGetSessionQuery } from "@/types/graphql";
 import type { BackendCompletionStatus } from "./types";
+import { useLiveSessionProgress } from "./useLiveSessionProgress";
 
 /**
  * Hook options
@@ -49,10 +52,12 @@ export function useBackendCompletionStatus({
     fetchPolicy: "network-only", // Always fetch fresh data for validation
     skip: !sessionId,
   });
+  const live = useLiveSessionProgress(sessionId);
 
   return useMemo((): BackendCompletionStatus => {
     const session = data?.session;
-    const progress = session?.progress;
+    // Prefer live updates over the initial snapshot
+    const progress = live.progress ?? session?.progress;
 
     // Check actual backend data presence
     const hasParent = Boolean(
@@ -66,7 +71,8 @@ export function useBackendCompletionStatus({
     );
 
     // Assessment is complete when status is "complete"
-    const hasAssessment = session?.assessment?.status === "complete";
+    const assessmentStatus = live.assessment?.status ?? session?.assessment?.status;
+    const hasAssessment = assessmentStatus === "complete";
 
     // Insurance is complete if has memberId/payerName OR self-pay status
     const insuranceStatus = session?.insurance?.verificationStatus;
@@ -97,7 +103,8 @@ export function useBackendCompletionStatus({
       error: error as Error | undefined,
       canProceedToMatching,
       missingBackendData,
+      isLive: live.isLive,
       refetch: () => { refetch(); },
     };
-  }, [data, loading, error, refetch]);
+  }, [data, loading, error, refetch, live]);
 }
@@ -1,20 +1,20 @@
 /**
  * Centralized hook for computing onboarding completion status
  *
- * Reads session data from localStorage and computes real-time completion
- * percentages for each section. Updates automatically when data changes.
+ * Reads session data from the onboarding store and computes real-time
+ * completion percentages for each section. Updates automatically when
+ * data changes.
  *
  * Features:
  * - Real-time completion percentage per section
  * - Field-level completion tracking
  * - Human-readable missing field lists
- * - Cross-tab synchronization via storage events
- * - Same-tab updates via custom event
+ * - Same-tab and cross-tab updates via onboarding store subscriptions
  */
 
 "use client";
 
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useMemo } from "react";
 import type {
   StepId,
   OnboardingCompletionState,
@@ -22,13 +22,16 @@ import type {
   FieldCompletionStatus,
 } from "./types";
 import { FIELD_CONFIG } from "./field-config";
-import { parentInfoDefaults } from "@/lib/validations/demographics";
+import {
+  ONBOARDING_DATA_UPDATED_EVENT,
+  useOnboardingData,
+  type OnboardingState,
+} from "@/lib/onboarding-store";
 
 /**
- * Custom event name for same-tab data updates
- * Fired by auto-save hooks when localStorage is updated
+ * Selects the saved data from the onboarding store
  */
-export const ONBOARDING_DATA_UPDATED_EVENT = "onboarding_data_updated";
+const selectData = (state: OnboardingState) => state.data;
 
 /**
  * Helper to safely get a nested value from an object using dot notation
@@ -165,72 +168,7 @@ interface UseCompletionStatusOptions {
 export function useCompletionStatus({
   sessionId,
 }: UseCompletionStatusOptions): OnboardingCompletionState {
-  const [localData, setLocalData] = useState<Record<string, unknown>>({});
-
-  /**
-   * Load data from localStorage and apply defaults for required fields
-   */
-  const loadData = useCallback(() => {
-    if (typeof window === "undefined") return;
-
-    try {
-      const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        let data = parsed.data || parsed || {};
-
-        // Apply parent defaults if parent data exists but relationshipToChild is missing
-        // This ensures the default "parent" relationship is used when not explicitly set
-        if (data.parent && typeof data.parent === "object" && !data.parent.relationshipToChild) {
-          data = {
-            ...data,
-            parent: {
-              ...data.parent,
-              relationshipToChild: parentInfoDefaults.relationshipToChild,
-            },
-          };
-        }
-
-        setLocalData(data);
-      } else {
-        setLocalData({});
-      }
-    } catch (error) {
-      console.error("[useCompletionStatus] Failed to load data:", error);
-      setLocalData({});
-    }
-  }, [sessionId]);
-
-  /**
-   * Set up data loading and event listeners
-   */
-  useEffect(() => {
-    // Initial load
-    loadData();
-
-    // Listen for cross-tab storage changes
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === `onboarding_session_${sessionId}`) {
-        loadData();
-      }
-    };
-
-    // Listen for same-tab updates (custom event)
-    const handleCustomEvent = () => {
-      loadData();
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-    window.addEventListener(ONBOARDING_DATA_UPDATED_EVENT, handleCustomEvent);
-
-    return () => {
-      window.removeEventListener("storage", handleStorageChange);
-      window.removeEventListener(
-        ONBOARDING_DATA_UPDATED_EVENT,
-        handleCustomEvent
-      );
-    };
-  }, [sessionId, loadData]);
+  const localData: Record<string, unknown> = useOnboardingData(sessionId, selectData);
 
   /**
    * Compute completion state from loaded data
@@ -372,7 +310,9 @@ export function useCompletionStatus({
 
 /**
  * Dispatch event to notify completion status listeners of data update
- * Call this after saving data to localStorage
+ *
+ * Saves through the onboarding store or `lib/storage` notify listeners
+ * already; this is only needed after writing storage some other way.
  */
 export function notifyCompletionUpdate(): void {
   if (typeof window !== "undefined") {
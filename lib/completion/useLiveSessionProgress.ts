@@ -0,0 +1,222 @@
+/**
+ * Live Session Progress Hook
+ *
+ * Keeps onboarding and assessment progress current without manual refetches.
+ * Subscribes to assessmentUpdated, progressUpdated and messageReceived over
+ * the ActionCable link and writes each update into the Apollo cache, so every
+ * query that reads the session (GetSession, GetSessionProgress) re-renders.
+ *
+ * When the socket is not connected the GetSessionProgress query polls
+ * instead, and polling stops again as soon as the socket reconnects.
+ *
+ * @example
+ * ```tsx
+ * const { progress, assessment, isLive } = useLiveSessionProgress(sessionId);
+ *
+ * <Progress value={assessment?.progressPercentage ?? 0} />
+ * ```
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { gql, type ApolloCache, type Reference } from "@apollo/client";
+import {
+  GetSessionProgressDocument,
+  useAssessmentUpdatedSubscription,
+  useGetSessionProgressQuery,
+  useMessageReceivedSubscription,
+  useProgressUpdatedSubscription,
+  type GetSessionProgressQuery,
+  type GetSessionProgressQueryVariables,
+  type MessageReceivedSubscription,
+} from "@/types/graphql";
+import {
+  getConnectionState,
+  onConnectionStateChange,
+  type ConnectionState,
+} from "@/lib/apollo/links";
+
+/**
+ * Poll interval used while the subscription socket is down
+ */
+export const LIVE_PROGRESS_POLL_INTERVAL_MS = 15000;
+
+/**
+ * Fragment used to add received messages to the normalized cache
+ */
+const LIVE_MESSAGE_FRAGMENT = gql`
+  fragment LiveMessage on Message {
+    id
+    role
+    content
+    createdAt
+  }
+`;
+
+type SessionProgressData = NonNullable<GetSessionProgressQuery["session"]>;
+
+/**
+ * Onboarding progress from the backend
+ */
+export type LiveSessionProgress = SessionProgressData["progress"];
+
+/**
+ * Assessment progress from the backend
+ */
+export type LiveAssessmentProgress = NonNullable<SessionProgressData["assessment"]>;
+
+/**
+ * Hook return type
+ */
+export interface UseLiveSessionProgressResult {
+  /** Latest onboarding progress (null until loaded) */
+  progress: LiveSessionProgress | null;
+  /** Latest assessment progress (null if no assessment yet) */
+  assessment: LiveAssessmentProgress | null;
+  /** Most recent message received over the socket */
+  lastMessage: MessageReceivedSubscription["messageReceived"] | null;
+  /** Whether updates are arriving over the socket */
+  isLive: boolean;
+  /** Whether the polling fallback is active */
+  isPolling: boolean;
+  /** Initial load state */
+  loading: boolean;
+}
+
+/**
+ * Subscription update for the cached snapshot. assessmentUpdated doesn't
+ * carry riskFlags, so those are kept from the last query result.
+ */
+interface SessionProgressPatch {
+  progress?: LiveSessionProgress;
+  assessment?: Omit<LiveAssessmentProgress, "riskFlags">;
+}
+
+/**
+ * Merges a subscription update into the cached progress snapshot.
+ * Skipped when the snapshot hasn't loaded yet; the initial query
+ * will return the same data.
+ */
+function patchSessionProgress(
+  cache: ApolloCache,
+  sessionId: string,
+  patch: SessionProgressPatch
+): void {
+  cache.updateQuery<GetSessionProgressQuery, GetSessionProgressQueryVariables>(
+    { query: GetSessionProgressDocument, variables: { sessionId } },
+    (existing) => {
+      if (!existing?.session) return existing;
+      const { session } = existing;
+
+      return {
+        ...existing,
+        session: {
+          ...session,
+          progress: patch.progress ?? session.progress,
+          assessment: patch.assessment
+            ? { riskFlags: session.assessment?.riskFlags ?? [], ...patch.assessment }
+            : session.assessment,
+        },
+      };
+    }
+  );
+}
+
+/**
+ * Hook to keep session and assessment progress current
+ *
+ * @param sessionId - Session to follow (hook is inert when empty)
+ * @returns Latest progress and connection mode
+ */
+export function useLiveSessionProgress(
+  sessionId: string
+): UseLiveSessionProgressResult {
+  const [connectionState, setConnectionState] = useState<ConnectionState>(
+    () => getConnectionState()
+  );
+  const [lastMessage, setLastMessage] =
+    useState<UseLiveSessionProgressResult["lastMessage"]>(null);
+
+  useEffect(() => onConnectionStateChange(setConnectionState), []);
+
+  const isLive = connectionState === "connected";
+  const isPolling = Boolean(sessionId) && !isLive;
+  const variables = { sessionId };
+
+  const { data, loading } = useGetSessionProgressQuery({
+    variables,
+    skip: !sessionId,
+    pollInterval: isPolling ? LIVE_PROGRESS_POLL_INTERVAL_MS : 0,
+  });
+
+  useProgressUpdatedSubscription({
+    variables,
+    skip: !sessionId,
+    onData: ({ client, data: result }) => {
+      const progress = result.data?.progressUpdated;
+      if (!progress) return;
+
+      patchSessionProgress(client.cache, sessionId, {
+        progress: { ...progress, __typename: "Progress" },
+      });
+    },
+  });
+
+  useAssessmentUpdatedSubscription({
+    variables,
+    skip: !sessionId,
+    onData: ({ client, data: result }) => {
+      const assessment = result.data?.assessmentUpdated;
+      if (!assessment) return;
+
+      patchSessionProgress(client.cache, sessionId, {
+        assessment: { ...assessment, __typename: "Assessment" },
+      });
+    },
+  });
+
+  useMessageReceivedSubscription({
+    variables,
+    skip: !sessionId,
+    onData: ({ client, data: result }) => {
+      const message = result.data?.messageReceived;
+      if (!message) return;
+
+      setLastMessage(message);
+
+      const { cache } = client;
+      const messageRef = cache.writeFragment({
+        fragment: LIVE_MESSAGE_FRAGMENT,
+        data: { ...message, __typename: "Message" },
+      });
+
+      cache.modify({
+        id: cache.identify({ __typename: "OnboardingSession", id: sessionId }),
+        fields: {
+          messages(existing, { readField }) {
+            const list: Reference[] = Array.isArray(existing) ? existing : [];
+            const alreadyPresent = list.some(
+              (ref) => readField("id", ref) === message.id
+            );
+            return alreadyPresent || !messageRef ? list : [...list, messageRef];
+          },
+        },
+      });
+    },
+  });
+
+  const session = data?.session;
+
+  return useMemo(
+    () => ({
+      progress: session?.progress ?? null,
+      assessment: session?.assessment ?? null,
+      lastMessage,
+      isLive,
+      isPolling,
+      loading,
+    }),
+    [session, lastMessage, isLive, isPolling, loading]
+  );
+}
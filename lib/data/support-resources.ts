@@ -52,6 +52,17 @@ export interface SupportResource {
   featured?: boolean;
 }
 
+/**
+ * Crisis line or emergency contact shown when crisis language is detected
+ */
+export interface CrisisResource {
+  id: string;
+  name: string;
+  description: string;
+  actionLabel: string;
+  href: string;
+}
+
 /**
  * Contextual tips for form fields
  */
@@ -215,6 +226,35 @@ export const SUPPORT_RESOURCES: SupportResource[] = [
   },
 ];
 
+/**
+ * Crisis resources, in the order they should be offered
+ *
+ * Shown by the crisis safety panel; all are free and available 24/7.
+ */
+export const CRISIS_RESOURCES: CrisisResource[] = [
+  {
+    id: "988-lifeline",
+    name: "988 Suicide & Crisis Lifeline",
+    description: "Call or text 988 to talk with a trained counselor, 24/7",
+    actionLabel: "Call 988",
+    href: "tel:988",
+  },
+  {
+    id: "crisis-text-line",
+    name: "Crisis Text Line",
+    description: "Text HELLO to 741741 to reach a crisis counselor by text",
+    actionLabel: "Text HELLO to 741741",
+    href: "sms:741741?&body=HELLO",
+  },
+  {
+    id: "emergency-911",
+    name: "Emergency services",
+    description: "If your child is in immediate danger, call 911",
+    actionLabel: "Call 911",
+    href: "tel:911",
+  },
+];
+
 /**
  * Contextual help tips organized by form field/section
  *
@@ -0,0 +1,57 @@
+/**
+ * Onboarding Store Module
+ *
+ * One typed, versioned store for the onboarding data saved on the device.
+ * Sections are validated against the form schemas, old formats are
+ * migrated on read, saves merge atomically, and components subscribe to
+ * just the part they render. Data is kept encrypted by `lib/storage`.
+ *
+ * @example
+ * ```tsx
+ * import { saveOnboardingData, useOnboardingData } from "@/lib/onboarding-store";
+ *
+ * saveOnboardingData(sessionId, { insurance: { carrier: "aetna" } });
+ *
+ * const insurance = useOnboardingData(sessionId, selectInsurance);
+ * ```
+ */
+
+export {
+  ONBOARDING_STORE_VERSION,
+  ONBOARDING_SLICES,
+  isOnboardingSlice,
+  validateOnboardingData,
+  type OnboardingData,
+  type OnboardingSliceName,
+  type ParentDraft,
+  type ChildDraft,
+  type ClinicalDraft,
+  type InsuranceDraft,
+  type FormAssessmentDraft,
+  type AvailabilityDraft,
+} from "./schema";
+export {
+  ONBOARDING_MIGRATIONS,
+  migrateOnboardingBlob,
+  type OnboardingMigration,
+  type VersionedBlob,
+} from "./migrations";
+export {
+  ONBOARDING_DATA_UPDATED_EVENT,
+  EMPTY_ONBOARDING_STATE,
+  createOnboardingStore,
+  getOnboardingStore,
+  getOnboardingState,
+  saveOnboardingData,
+  updateOnboardingData,
+  flushOnboardingData,
+  subscribeOnboardingData,
+  mergeOnboardingData,
+  parseOnboardingState,
+  type OnboardingState,
+  type OnboardingPatch,
+  type OnboardingStore,
+  type OnboardingStoreOptions,
+  type OnboardingSessionStorage,
+} from "./store";
+export { useOnboardingData, shallowEqual, type EqualityFn } from "./useOnboardingData";
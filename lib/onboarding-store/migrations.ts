@@ -0,0 +1,67 @@
+/**
+ * Onboarding Store Migrations
+ *
+ * Saved data carries the version it was written with. On read, each
+ * migration from that version up to ONBOARDING_STORE_VERSION runs in
+ * order, so a parent returning to an old session keeps their progress
+ * after the format changes.
+ *
+ * @module lib/onboarding-store/migrations
+ */
+
+import { ONBOARDING_STORE_VERSION } from "./schema";
+
+/**
+ * Saved blob as found in storage
+ * @param version - Format version (missing before versioning was added)
+ * @param data - Onboarding data
+ * @param savedAt - ISO timestamp of the last save
+ */
+export interface VersionedBlob {
+  version?: number;
+  data?: unknown;
+  savedAt?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Upgrades a blob from the previous version
+ */
+export type OnboardingMigration = (blob: VersionedBlob) => VersionedBlob;
+
+/**
+ * Migrations keyed by the version they upgrade to
+ */
+export const ONBOARDING_MIGRATIONS: Record<number, OnboardingMigration> = {
+  /**
+   * v0 -> v1: some early writers saved the data object without the
+   * `{ data, savedAt }` wrapper
+   */
+  1: (blob) => {
+    if ("data" in blob) return blob;
+    const { savedAt, ...data } = blob;
+    return { data, savedAt };
+  },
+};
+
+/**
+ * Migrates a saved blob to the current version
+ *
+ * Blobs written by a newer version of the app are left as they are; the
+ * lenient slice schemas still read the fields this version knows about.
+ *
+ * @param blob - Parsed blob from storage
+ * @returns Migrated blob at the current version (or newer)
+ */
+export function migrateOnboardingBlob(blob: unknown): VersionedBlob & { version: number } {
+  const start: VersionedBlob =
+    blob && typeof blob === "object" && !Array.isArray(blob) ? (blob as VersionedBlob) : {};
+  const fromVersion = typeof start.version === "number" ? start.version : 0;
+
+  let migrated = start;
+  for (let version = fromVersion + 1; version <= ONBOARDING_STORE_VERSION; version++) {
+    migrated = ONBOARDING_MIGRATIONS[version]?.(migrated) ?? migrated;
+  }
+
+  return { ...migrated, version: Math.max(fromVersion, ONBOARDING_STORE_VERSION) };
+}
@@ -0,0 +1,184 @@
+/**
+ * Onboarding Store Schema
+ *
+ * Typed section slices for the saved onboarding data. Each slice is
+ * derived from the form's zod schema in `lib/validations`: stored values
+ * keep the field types (strings, numbers, enum options, arrays) but not
+ * the form rules (min lengths, formats), because the store holds drafts
+ * saved as the parent types. A field with the wrong type is dropped
+ * rather than discarding the whole slice.
+ *
+ * Keys that aren't slices (chat messages, selected slot, therapist) are
+ * kept as they are.
+ *
+ * @module lib/onboarding-store/schema
+ */
+
+import { z } from "zod";
+import {
+  childInfoSchema,
+  clinicalIntakeSchema,
+  parentInfoDefaults,
+  parentInfoSchema,
+  type ChildInfoInput,
+  type ClinicalIntakeInput,
+  type ParentInfoInput,
+} from "@/lib/validations/demographics";
+import { insuranceSchema, type InsuranceFormData } from "@/lib/validations/insurance";
+import { formAssessmentSchema, type FormAssessmentInput } from "@/lib/validations/assessment";
+import {
+  patientAvailabilitySchema,
+  type PatientAvailabilityInput,
+} from "@/lib/validations/availability";
+
+/**
+ * Current version of the stored data format
+ * Bump it and add a migration in migrations.ts when the shape changes
+ */
+export const ONBOARDING_STORE_VERSION = 1;
+
+/**
+ * Saved draft of a form: every field optional, dates as ISO strings
+ */
+type Draft<T> = { [K in keyof T]?: T[K] extends Date ? string : T[K] } & Record<string, unknown>;
+
+/** Parent information (demographics step) */
+export type ParentDraft = Draft<ParentInfoInput>;
+
+/** Child information (demographics step) */
+export type ChildDraft = Draft<ChildInfoInput> & {
+  lastName?: string;
+  gender?: string;
+};
+
+/** Clinical intake (demographics step) */
+export type ClinicalDraft = Draft<ClinicalIntakeInput>;
+
+/** Insurance details, or the self-pay choice */
+export type InsuranceDraft = Draft<InsuranceFormData> & {
+  payerName?: string;
+  subscriberDob?: string;
+  verificationStatus?: string;
+  isSelfPay?: boolean;
+};
+
+/** Form-mode assessment answers */
+export type FormAssessmentDraft = Draft<FormAssessmentInput>;
+
+/** Weekly availability */
+export type AvailabilityDraft = Draft<PatientAvailabilityInput>;
+
+/**
+ * Saved onboarding data for a session
+ */
+export interface OnboardingData {
+  parent?: ParentDraft;
+  child?: ChildDraft;
+  clinical?: ClinicalDraft;
+  insurance?: InsuranceDraft;
+  formAssessment?: FormAssessmentDraft;
+  availability?: AvailabilityDraft;
+  [key: string]: unknown;
+}
+
+/**
+ * Converts a form field schema to its stored draft type
+ */
+function toDraftField(field: z.ZodTypeAny): z.ZodTypeAny {
+  if (field instanceof z.ZodOptional || field instanceof z.ZodNullable) {
+    return toDraftField(field.unwrap());
+  }
+  if (field instanceof z.ZodDefault) return toDraftField(field.removeDefault());
+  if (field instanceof z.ZodEffects) return toDraftField(field.innerType());
+  if (field instanceof z.ZodString) return z.string();
+  if (field instanceof z.ZodNumber) return z.number();
+  // Dates are stored as ISO strings
+  if (field instanceof z.ZodDate) {
+    return z.union([z.string(), z.date().transform((date) => date.toISOString())]);
+  }
+  if (field instanceof z.ZodUnion) {
+    const options = (field.options as z.ZodTypeAny[]).map(toDraftField);
+    return z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+  if (field instanceof z.ZodArray) return z.array(toDraftField(field.element));
+  if (field instanceof z.ZodObject) return toDraftSchema(field);
+  // Enums, literals and booleans keep their exact type
+  return field;
+}
+
+/**
+ * Builds the stored draft schema for a form schema
+ *
+ * @param schema - Form validation schema
+ * @param defaults - Values used when a field is missing or invalid
+ * @returns Lenient object schema that keeps unknown keys
+ */
+function toDraftSchema(
+  schema: z.AnyZodObject,
+  defaults: Record<string, unknown> = {}
+): z.ZodTypeAny {
+  const shape: z.ZodRawShape = {};
+  for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+    const draft = toDraftField(field);
+    shape[key] =
+      key in defaults
+        ? draft.default(defaults[key]).catch(defaults[key])
+        : draft.optional().catch(undefined);
+  }
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Schemas for each slice of the saved data
+ */
+export const ONBOARDING_SLICES = {
+  parent: toDraftSchema(parentInfoSchema, {
+    relationshipToChild: parentInfoDefaults.relationshipToChild,
+  }),
+  child: toDraftSchema(childInfoSchema),
+  clinical: toDraftSchema(clinicalIntakeSchema),
+  insurance: toDraftSchema(insuranceSchema.innerType()),
+  formAssessment: toDraftSchema(formAssessmentSchema),
+  availability: toDraftSchema(patientAvailabilitySchema),
+} satisfies Record<string, z.ZodTypeAny>;
+
+/**
+ * Name of a typed slice
+ */
+export type OnboardingSliceName = keyof typeof ONBOARDING_SLICES;
+
+/**
+ * Checks whether a key is a typed slice
+ */
+export function isOnboardingSlice(key: string): key is OnboardingSliceName {
+  return Object.prototype.hasOwnProperty.call(ONBOARDING_SLICES, key);
+}
+
+/**
+ * Schema for the whole saved data object
+ */
+const onboardingDataSchema = z
+  .object(
+    Object.fromEntries(
+      Object.entries(ONBOARDING_SLICES).map(([key, slice]) => [
+        key,
+        slice.optional().catch(undefined),
+      ])
+    )
+  )
+  .passthrough();
+
+/**
+ * Validates saved data against the slice schemas
+ *
+ * @param data - Data to validate
+ * @returns Data with invalid slice fields dropped (empty if not an object)
+ *
+ * @example
+ * validateOnboardingData({ parent: { firstName: "Jane", phone: 5551234567 } });
+ * // { parent: { firstName: "Jane", phone: undefined, relationshipToChild: "parent" } }
+ */
+export function validateOnboardingData(data: unknown): OnboardingData {
+  const result = onboardingDataSchema.safeParse(data);
+  return result.success ? (result.data as OnboardingData) : {};
+}
@@ -0,0 +1,282 @@
+/**
+ * Onboarding Store
+ *
+ * Single owner of the saved onboarding data for a session. Reads parse,
+ * migrate and validate the stored blob once per change and return the
+ * same snapshot until it changes again. Writes are read-modify-write in
+ * one synchronous step, so two saves in the same tick can't drop each
+ * other's sections. Storage is the encrypted session store from
+ * `lib/storage`, which also reports changes from other tabs.
+ *
+ * @module lib/onboarding-store/store
+ */
+
+import {
+  flushSessionData,
+  readSessionData,
+  subscribeSessionData,
+  writeSessionData,
+} from "@/lib/storage";
+import { migrateOnboardingBlob } from "./migrations";
+import {
+  ONBOARDING_STORE_VERSION,
+  isOnboardingSlice,
+  validateOnboardingData,
+  type OnboardingData,
+} from "./schema";
+
+/**
+ * Window event for code that writes session storage directly
+ * Subscribers re-read the session when it fires
+ */
+export const ONBOARDING_DATA_UPDATED_EVENT = "onboarding_data_updated";
+
+/**
+ * Saved onboarding state for a session
+ * @param version - Format version of the data
+ * @param data - Validated onboarding data
+ * @param savedAt - ISO timestamp of the last save, or null if nothing is saved
+ */
+export interface OnboardingState {
+  version: number;
+  data: OnboardingData;
+  savedAt: string | null;
+}
+
+/**
+ * Changes to merge into the saved data
+ * Slices are merged field by field; other keys are replaced
+ */
+export type OnboardingPatch = {
+  [K in keyof OnboardingData]?: Partial<NonNullable<OnboardingData[K]>>;
+};
+
+/**
+ * Session storage the store reads and writes (the encrypted store by default)
+ */
+export interface OnboardingSessionStorage {
+  read: (sessionId: string) => string | null;
+  write: (sessionId: string, value: string) => void;
+  flush: (sessionId: string) => Promise<void>;
+  subscribe: (listener: (sessionId: string) => void) => () => void;
+}
+
+/**
+ * Onboarding store
+ */
+export interface OnboardingStore {
+  /** Gets the current state; the same object until the data changes */
+  getState: (sessionId: string) => OnboardingState;
+  /** Replaces the data with the updater's result in one step */
+  update: (sessionId: string, updater: (data: OnboardingData) => OnboardingData) => OnboardingState;
+  /** Merges changes into the data in one step */
+  merge: (sessionId: string, patch: OnboardingPatch) => OnboardingState;
+  /** Waits for writes to be stored; rejects on storage errors (e.g. quota) */
+  flush: (sessionId: string) => Promise<void>;
+  /** Subscribes to a session's changes, including other tabs; returns unsubscribe */
+  subscribe: (sessionId: string, listener: () => void) => () => void;
+}
+
+/**
+ * Options for createOnboardingStore
+ */
+export interface OnboardingStoreOptions {
+  /** Session storage (defaults to the encrypted session store) */
+  storage?: OnboardingSessionStorage;
+  /** Window to receive ONBOARDING_DATA_UPDATED_EVENT on (defaults to window) */
+  target?: Pick<Window, "addEventListener" | "removeEventListener"> | null;
+  /** Clock for savedAt (defaults to the current time) */
+  now?: () => Date;
+}
+
+/**
+ * State for a session with nothing saved
+ */
+export const EMPTY_ONBOARDING_STATE: OnboardingState = {
+  version: ONBOARDING_STORE_VERSION,
+  data: {},
+  savedAt: null,
+};
+
+const defaultStorage: OnboardingSessionStorage = {
+  read: readSessionData,
+  write: writeSessionData,
+  flush: flushSessionData,
+  subscribe: subscribeSessionData,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Parses a stored blob into onboarding state
+ *
+ * @param raw - Stored JSON string
+ * @returns Migrated, validated state (empty if missing or unreadable)
+ */
+export function parseOnboardingState(raw: string | null): OnboardingState {
+  if (!raw) return EMPTY_ONBOARDING_STATE;
+
+  let blob: unknown;
+  try {
+    blob = JSON.parse(raw);
+  } catch (error) {
+    console.warn("[OnboardingStore] Failed to parse saved data:", error);
+    return EMPTY_ONBOARDING_STATE;
+  }
+
+  const migrated = migrateOnboardingBlob(blob);
+  return {
+    version: migrated.version,
+    data: validateOnboardingData(migrated.data),
+    savedAt: typeof migrated.savedAt === "string" ? migrated.savedAt : null,
+  };
+}
+
+/**
+ * Merges changes into onboarding data
+ *
+ * @param data - Current data
+ * @param patch - Changes; undefined values are ignored
+ * @returns New data object
+ */
+export function mergeOnboardingData(data: OnboardingData, patch: OnboardingPatch): OnboardingData {
+  const next: OnboardingData = { ...data };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    const current = next[key];
+    next[key] =
+      isOnboardingSlice(key) && isPlainObject(current) && isPlainObject(value)
+        ? { ...current, ...value }
+        : value;
+  }
+  return next;
+}
+
+/**
+ * Creates an onboarding store
+ *
+ * @param options - Storage and clock overrides
+ * @returns Onboarding store
+ *
+ * @example
+ * const store = createOnboardingStore();
+ * store.merge(sessionId, { parent: { firstName: "Jane" } });
+ * store.getState(sessionId).data.parent?.firstName; // "Jane"
+ */
+export function createOnboardingStore(options: OnboardingStoreOptions = {}): OnboardingStore {
+  const {
+    storage = defaultStorage,
+    target = typeof window !== "undefined" ? window : null,
+    now = () => new Date(),
+  } = options;
+
+  // Last parsed snapshot per session, keyed by the raw blob it came from
+  const snapshots = new Map<string, { raw: string | null; state: OnboardingState }>();
+
+  const getState = (sessionId: string): OnboardingState => {
+    const raw = storage.read(sessionId);
+    const cached = snapshots.get(sessionId);
+    if (cached && cached.raw === raw) return cached.state;
+
+    const state = parseOnboardingState(raw);
+    snapshots.set(sessionId, { raw, state });
+    return state;
+  };
+
+  const update: OnboardingStore["update"] = (sessionId, updater) => {
+    const current = getState(sessionId);
+    const state: OnboardingState = {
+      version: ONBOARDING_STORE_VERSION,
+      data: validateOnboardingData(updater(current.data)),
+      savedAt: now().toISOString(),
+    };
+
+    const raw = JSON.stringify(state);
+    snapshots.set(sessionId, { raw, state });
+    storage.write(sessionId, raw);
+    return state;
+  };
+
+  return {
+    getState,
+    update,
+    merge: (sessionId, patch) => update(sessionId, (data) => mergeOnboardingData(data, patch)),
+    flush: (sessionId) => storage.flush(sessionId),
+    subscribe: (sessionId, listener) => {
+      const unsubscribe = storage.subscribe((changedSessionId) => {
+        if (changedSessionId === sessionId) listener();
+      });
+      target?.addEventListener(ONBOARDING_DATA_UPDATED_EVENT, listener);
+
+      return () => {
+        unsubscribe();
+        target?.removeEventListener(ONBOARDING_DATA_UPDATED_EVENT, listener);
+      };
+    },
+  };
+}
+
+/**
+ * Shared store used by the app
+ */
+let defaultStore: OnboardingStore | null = null;
+
+/**
+ * Gets the app's shared onboarding store
+ */
+export function getOnboardingStore(): OnboardingStore {
+  if (!defaultStore) {
+    defaultStore = createOnboardingStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets a session's saved onboarding state
+ * @param sessionId - Onboarding session ID
+ */
+export function getOnboardingState(sessionId: string): OnboardingState {
+  return getOnboardingStore().getState(sessionId);
+}
+
+/**
+ * Merges changes into a session's saved onboarding data
+ * @param sessionId - Onboarding session ID
+ * @param patch - Changes; slices are merged field by field
+ */
+export function saveOnboardingData(sessionId: string, patch: OnboardingPatch): OnboardingState {
+  return getOnboardingStore().merge(sessionId, patch);
+}
+
+/**
+ * Replaces a session's saved onboarding data in one step
+ * @param sessionId - Onboarding session ID
+ * @param updater - Returns the new data from the current data
+ */
+export function updateOnboardingData(
+  sessionId: string,
+  updater: (data: OnboardingData) => OnboardingData
+): OnboardingState {
+  return getOnboardingStore().update(sessionId, updater);
+}
+
+/**
+ * Waits for a session's saved data to be stored
+ * @param sessionId - Onboarding session ID
+ * @throws The storage error if the last write failed (e.g. quota exceeded)
+ */
+export function flushOnboardingData(sessionId: string): Promise<void> {
+  return getOnboardingStore().flush(sessionId);
+}
+
+/**
+ * Subscribes to a session's saved data changes, including other tabs
+ * @param sessionId - Onboarding session ID
+ * @param listener - Called after each change
+ * @returns Unsubscribe function
+ */
+export function subscribeOnboardingData(sessionId: string, listener: () => void): () => void {
+  return getOnboardingStore().subscribe(sessionId, listener);
+}
@@ -0,0 +1,101 @@
+/**
+ * useOnboardingData Hook
+ *
+ * Subscribes a component to part of a session's saved onboarding data.
+ * The component re-renders only when the selected value changes, so a
+ * chat message save doesn't re-render the insurance form.
+ *
+ * @module lib/onboarding-store/useOnboardingData
+ */
+
+"use client";
+
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import {
+  EMPTY_ONBOARDING_STATE,
+  getOnboardingStore,
+  type OnboardingState,
+} from "./store";
+
+/**
+ * Compares two selected values
+ */
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Compares objects by their own top-level values
+ *
+ * @example
+ * useOnboardingData(sessionId, (s) => ({ parent: s.data.parent, child: s.data.child }), shallowEqual);
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Wraps a selector so unchanged data returns the same selection
+ */
+function createMemoizedSelector<T>(
+  selector: (state: OnboardingState) => T,
+  isEqual: EqualityFn<T>
+): (state: OnboardingState) => T {
+  let last: { state: OnboardingState; selection: T } | null = null;
+
+  return (state) => {
+    if (last && last.state === state) return last.selection;
+    const selection = selector(state);
+    if (last && isEqual(last.selection, selection)) {
+      last = { state, selection: last.selection };
+    } else {
+      last = { state, selection };
+    }
+    return last.selection;
+  };
+}
+
+/**
+ * Hook to read part of a session's saved onboarding data
+ *
+ * Selectors should be stable (defined outside the component or memoized)
+ * so the selection is only recomputed when the data changes.
+ *
+ * @param sessionId - Onboarding session ID
+ * @param selector - Picks the value the component needs
+ * @param isEqual - Skips re-renders when this returns true (default Object.is)
+ * @returns Selected value
+ *
+ * @example
+ * const selectParent = (state: OnboardingState) => state.data.parent;
+ * const parent = useOnboardingData(sessionId, selectParent);
+ */
+export function useOnboardingData<T>(
+  sessionId: string,
+  selector: (state: OnboardingState) => T,
+  isEqual: EqualityFn<T> = Object.is
+): T {
+  const store = getOnboardingStore();
+
+  const subscribe = useCallback(
+    (onChange: () => void) => store.subscribe(sessionId, onChange),
+    [store, sessionId]
+  );
+
+  const select = useMemo(() => createMemoizedSelector(selector, isEqual), [selector, isEqual]);
+
+  return useSyncExternalStore(
+    subscribe,
+    () => select(sessionId ? store.getState(sessionId) : EMPTY_ONBOARDING_STATE),
+    () => select(EMPTY_ONBOARDING_STATE)
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * WebCrypto helpers for encrypting onboarding data at rest
+ *
+ * AES-GCM with a 256-bit key and a fresh 96-bit IV per write. Keys are
+ * generated non-extractable, so page scripts can use them but never read
+ * the raw key material. The additional data binds each ciphertext to its
+ * storage key, so a blob copied under another session's key won't decrypt.
+ *
+ * @module lib/storage/crypto
+ */
+
+/**
+ * Encrypted value with its IV, both base64 encoded
+ * @param iv - Initialization vector
+ * @param ciphertext - AES-GCM ciphertext including the auth tag
+ */
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+const IV_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Checks whether WebCrypto is usable (it requires a secure context)
+ */
+export function isWebCryptoAvailable(): boolean {
+  return typeof globalThis.crypto !== "undefined" && Boolean(globalThis.crypto.subtle);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Generates a non-extractable AES-GCM key
+ */
+export function generateEncryptionKey(): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/**
+ * Encrypts text with AES-GCM
+ *
+ * @param key - AES-GCM key
+ * @param plaintext - Text to encrypt
+ * @param context - Additional authenticated data (e.g. the storage key)
+ * @returns Encrypted payload
+ */
+export async function encryptText(
+  key: CryptoKey,
+  plaintext: string,
+  context: string
+): Promise<EncryptedPayload> {
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(plaintext)
+  );
+
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypts an AES-GCM payload
+ *
+ * @param key - AES-GCM key used to encrypt
+ * @param payload - Encrypted payload
+ * @param context - Additional authenticated data used to encrypt
+ * @returns Decrypted text
+ * @throws Error if the key, context or ciphertext don't match
+ */
+export async function decryptText(
+  key: CryptoKey,
+  payload: EncryptedPayload,
+  context: string
+): Promise<string> {
+  const plaintext = await globalThis.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(payload.iv), additionalData: encoder.encode(context) },
+    key,
+    fromBase64(payload.ciphertext)
+  );
+
+  return decoder.decode(plaintext);
+}
@@ -0,0 +1,51 @@
+/**
+ * Secure Browser Storage Module
+ *
+ * Encrypted-at-rest storage for onboarding session data and smaller
+ * per-session records, which hold PHI. Data is encrypted with AES-GCM
+ * under per-session keys kept in IndexedDB, expires after inactivity and
+ * is wiped when a session is abandoned or booked.
+ *
+ * @example
+ * ```tsx
+ * import { readSessionData, writeSessionData, useSessionDataReady } from "@/lib/storage";
+ *
+ * const isReady = useSessionDataReady(sessionId);
+ *
+ * const stored = readSessionData(sessionId);
+ * const parsed = stored ? JSON.parse(stored) : { data: {} };
+ * writeSessionData(sessionId, JSON.stringify({ ...parsed, savedAt: new Date().toISOString() }));
+ * ```
+ */
+
+export {
+  SESSION_DATA_KEY_PREFIX,
+  SESSION_DATA_INACTIVITY_MS,
+  SESSION_RECORD_KEY_PREFIXES,
+  createSecureSessionStore,
+  getSecureSessionStore,
+  getSessionRecordStore,
+  getSessionDataKey,
+  loadSessionData,
+  isSessionDataLoaded,
+  readSessionData,
+  writeSessionData,
+  flushSessionData,
+  wipeSessionData,
+  subscribeSessionData,
+  readSessionRecord,
+  writeSessionRecord,
+  clearSessionRecord,
+  type SecureSessionStore,
+  type SecureSessionStoreOptions,
+  type SessionDataListener,
+  type SessionDataStorage,
+  type SessionRecordName,
+} from "./session-data";
+export {
+  createDefaultKeyStore,
+  createIndexedDbKeyStore,
+  createMemoryKeyStore,
+  type SessionKeyStore,
+} from "./key-store";
+export { useSessionDataReady } from "./useSessionDataReady";
@@ -0,0 +1,112 @@
+/**
+ * Per-session encryption key storage
+ *
+ * Keys live in IndexedDB, away from the encrypted data in localStorage.
+ * IndexedDB stores CryptoKey objects directly, so non-extractable keys
+ * never exist as raw bytes. When IndexedDB isn't available (private
+ * browsing in some browsers, tests) keys are kept in memory, which makes
+ * saved data unreadable after a reload rather than storing a key next to it.
+ *
+ * @module lib/storage/key-store
+ */
+
+/**
+ * IndexedDB database and object store holding session keys
+ */
+const KEY_DB_NAME = "daybreak_secure_storage";
+const KEY_STORE_NAME = "session_keys";
+
+/**
+ * Storage for per-session encryption keys
+ */
+export interface SessionKeyStore {
+  /** Gets the key for a session, or null if there isn't one */
+  get: (sessionId: string) => Promise<CryptoKey | null>;
+  /** Saves the key for a session */
+  set: (sessionId: string, key: CryptoKey) => Promise<void>;
+  /** Deletes the key for a session */
+  delete: (sessionId: string) => Promise<void>;
+}
+
+/**
+ * Creates a key store that only lives for this page load
+ */
+export function createMemoryKeyStore(): SessionKeyStore {
+  const keys = new Map<string, CryptoKey>();
+
+  return {
+    get: async (sessionId) => keys.get(sessionId) ?? null,
+    set: async (sessionId, key) => {
+      keys.set(sessionId, key);
+    },
+    delete: async (sessionId) => {
+      keys.delete(sessionId);
+    },
+  };
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Creates a key store backed by IndexedDB
+ *
+ * @param factory - IndexedDB factory (defaults to the browser's)
+ * @returns Key store, or null if IndexedDB isn't available
+ */
+export function createIndexedDbKeyStore(
+  factory: IDBFactory | undefined = typeof indexedDB !== "undefined" ? indexedDB : undefined
+): SessionKeyStore | null {
+  if (!factory) return null;
+
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = factory.open(KEY_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(KEY_STORE_NAME);
+      };
+      database = requestToPromise(request).catch((err) => {
+        // Allow a later call to retry opening
+        database = null;
+        throw err;
+      });
+    }
+    return database;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    return requestToPromise(run(db.transaction(KEY_STORE_NAME, mode).objectStore(KEY_STORE_NAME)));
+  };
+
+  return {
+    get: async (sessionId) =>
+      ((await withStore("readonly", (store) => store.get(sessionId))) as CryptoKey | undefined) ??
+      null,
+    set: async (sessionId, key) => {
+      await withStore("readwrite", (store) => store.put(key, sessionId));
+    },
+    delete: async (sessionId) => {
+      await withStore("readwrite", (store) => store.delete(sessionId));
+    },
+  };
+}
+
+/**
+ * Creates the default key store: IndexedDB when available, memory otherwise
+ */
+export function createDefaultKeyStore(): SessionKeyStore {
+  return createIndexedDbKeyStore() ?? createMemoryKeyStore();
+}
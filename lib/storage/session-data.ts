@@ -0,0 +1,679 @@
+/**
+ * Encrypted Onboarding Session Storage
+ *
+ * The `onboarding_session_${sessionId}` blob holds PHI (child DOB,
+ * concerns, intake answers, insurance member IDs). This module keeps it
+ * encrypted at rest with AES-GCM under a per-session key held in
+ * IndexedDB (see key-store.ts), never next to the data.
+ *
+ * WebCrypto is async but the onboarding pages read the blob during
+ * render and in effects, so decrypted data is held in memory:
+ * - `load()` decrypts a session once per page load (the onboarding
+ *   layout waits for it before rendering pages)
+ * - `read()` / `write()` are synchronous against the decrypted copy
+ * - writes are encrypted and persisted in order in the background;
+ *   `flush()` waits for them and reports storage failures
+ *
+ * Data is wiped after 24 hours without activity, on `wipe()` (abandoned
+ * sessions, completed bookings), and when decryption fails. Plaintext
+ * blobs written before encryption was added are migrated the first time
+ * they're read.
+ *
+ * Smaller per-session records that don't belong in the onboarding blob
+ * (see SESSION_RECORD_KEY_PREFIXES) get their own encrypted store and key,
+ * and are loaded, expired and wiped together with the session's data.
+ *
+ * @module lib/storage/session-data
+ */
+
+import {
+  decryptText,
+  encryptText,
+  generateEncryptionKey,
+  isWebCryptoAvailable,
+  type EncryptedPayload,
+} from "./crypto";
+import { createDefaultKeyStore, type SessionKeyStore } from "./key-store";
+
+/**
+ * localStorage key prefix for onboarding session data
+ */
+export const SESSION_DATA_KEY_PREFIX = "onboarding_session_";
+
+/**
+ * localStorage key prefixes for encrypted per-session records
+ * - assistantPartial: assistant reply that was streaming when the tab closed
+ */
+export const SESSION_RECORD_KEY_PREFIXES = {
+  assistantPartial: "assistant_partial_",
+} as const;
+
+/**
+ * Name of an encrypted per-session record
+ */
+export type SessionRecordName = keyof typeof SESSION_RECORD_KEY_PREFIXES;
+
+/**
+ * Plaintext form assessment answers written by older versions
+ * (`{ data, currentPage }`), migrated into the session's data on load
+ */
+const LEGACY_FORM_ASSESSMENT_KEY_PREFIX = "form_assessment_";
+
+/**
+ * Plaintext per-session keys written by older versions, removed on load and wipe
+ * - assessment_summary_: form assessment answers and summary
+ * - form_assessment_: form assessment answers (migrated first)
+ */
+const LEGACY_PLAINTEXT_KEY_PREFIXES = ["assessment_summary_", LEGACY_FORM_ASSESSMENT_KEY_PREFIX];
+
+/**
+ * Session data is wiped after this long without activity (24 hours)
+ */
+export const SESSION_DATA_INACTIVITY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Version of the encrypted envelope format
+ */
+const ENVELOPE_VERSION = 1;
+
+/**
+ * Encrypted blob as stored in localStorage
+ * @param v - Envelope format version
+ * @param updatedAt - Last activity (ms since epoch), readable without the key
+ */
+interface EncryptedEnvelope extends EncryptedPayload {
+  v: typeof ENVELOPE_VERSION;
+  updatedAt: number;
+}
+
+/**
+ * Storage holding the encrypted blobs (localStorage in the browser)
+ */
+export type SessionDataStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/**
+ * Called with the session ID whenever a session's data changes
+ */
+export type SessionDataListener = (sessionId: string) => void;
+
+/**
+ * Encrypted session data store
+ */
+export interface SecureSessionStore {
+  /** Decrypts a session's saved data; resolves once it can be read */
+  load: (sessionId: string) => Promise<void>;
+  /** Whether a session's data has been loaded on this page */
+  isLoaded: (sessionId: string) => boolean;
+  /** Reads a session's data (JSON string), or null if there is none */
+  read: (sessionId: string) => string | null;
+  /** Replaces a session's data; persisted encrypted in the background */
+  write: (sessionId: string, value: string) => void;
+  /** Waits for pending writes; rejects if the last one couldn't be stored */
+  flush: (sessionId: string) => Promise<void>;
+  /** Deletes a session's data and its encryption key */
+  wipe: (sessionId: string) => Promise<void>;
+  /** Subscribes to data changes, including other tabs; returns unsubscribe */
+  subscribe: (listener: SessionDataListener) => () => void;
+  /** Stops listening for changes from other tabs */
+  dispose: () => void;
+}
+
+/**
+ * Options for createSecureSessionStore
+ */
+export interface SecureSessionStoreOptions {
+  /** Storage for encrypted blobs (defaults to localStorage) */
+  storage?: SessionDataStorage | null;
+  /** Storage for per-session keys (defaults to IndexedDB) */
+  keyStore?: SessionKeyStore;
+  /**
+   * localStorage key prefix (defaults to SESSION_DATA_KEY_PREFIX). Stores
+   * with another prefix keep their keys under the full storage key so they
+   * never share a key with the session's onboarding data.
+   */
+  keyPrefix?: string;
+  /** Inactivity period before data is wiped */
+  inactivityMs?: number;
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+  /** Window to receive cross-tab storage events on (defaults to window) */
+  target?: Pick<Window, "addEventListener" | "removeEventListener"> | null;
+}
+
+/**
+ * Decrypted session data held for this page load
+ * @param value - Decrypted JSON string, or null once wiped
+ * @param raw - Stored blob as last read or written, to spot outside changes
+ * @param activeAt - Last load or write (ms since epoch)
+ */
+interface CacheEntry {
+  value: string | null;
+  raw: string | null;
+  activeAt: number;
+}
+
+/**
+ * Stored blob, classified
+ */
+type StoredBlob =
+  | { kind: "encrypted"; envelope: EncryptedEnvelope }
+  | { kind: "plaintext"; savedAt: number | null };
+
+/**
+ * Builds the localStorage key for a session
+ */
+export function getSessionDataKey(sessionId: string): string {
+  return `${SESSION_DATA_KEY_PREFIX}${sessionId}`;
+}
+
+/**
+ * Gets browser localStorage if it's available
+ */
+function getBrowserStorage(): SessionDataStorage | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classifies a stored blob as an encrypted envelope or legacy plaintext
+ * (anything that isn't an envelope, including corrupted JSON, is treated
+ * as plaintext so callers keep their existing parse-error handling)
+ */
+function classifyBlob(raw: string): StoredBlob {
+  try {
+    const parsed = JSON.parse(raw);
+    if (
+      parsed &&
+      parsed.v === ENVELOPE_VERSION &&
+      typeof parsed.iv === "string" &&
+      typeof parsed.ciphertext === "string" &&
+      typeof parsed.updatedAt === "number"
+    ) {
+      return { kind: "encrypted", envelope: parsed as EncryptedEnvelope };
+    }
+    const savedAt = typeof parsed?.savedAt === "string" ? Date.parse(parsed.savedAt) : NaN;
+    return { kind: "plaintext", savedAt: Number.isNaN(savedAt) ? null : savedAt };
+  } catch {
+    return { kind: "plaintext", savedAt: null };
+  }
+}
+
+/**
+ * Creates an encrypted session data store
+ *
+ * @param options - Storage, key store and clock overrides
+ * @returns Secure session store
+ *
+ * @example
+ * const store = createSecureSessionStore();
+ * await store.load("sess_abc123");
+ * store.write("sess_abc123", JSON.stringify({ data, savedAt }));
+ */
+export function createSecureSessionStore(
+  options: SecureSessionStoreOptions = {}
+): SecureSessionStore {
+  const {
+    keyStore = createDefaultKeyStore(),
+    keyPrefix = SESSION_DATA_KEY_PREFIX,
+    inactivityMs = SESSION_DATA_INACTIVITY_MS,
+    now = Date.now,
+    target = typeof window !== "undefined" ? window : null,
+  } = options;
+
+  // Resolved per call so a replaced window.localStorage is picked up
+  const getStorage = (): SessionDataStorage | null =>
+    options.storage !== undefined ? options.storage : getBrowserStorage();
+
+  const entries = new Map<string, CacheEntry>();
+  const loads = new Map<string, Promise<void>>();
+  const writes = new Map<string, Promise<void>>();
+  const writeErrors = new Map<string, unknown>();
+  const remoteVersions = new Map<string, number>();
+  const listeners = new Set<SessionDataListener>();
+
+  const notify = (sessionId: string): void => {
+    listeners.forEach((listener) => listener(sessionId));
+  };
+
+  const isExpired = (timestamp: number): boolean => now() - timestamp > inactivityMs;
+
+  const getStorageKey = (sessionId: string): string => `${keyPrefix}${sessionId}`;
+
+  const getKeyId = (sessionId: string): string =>
+    keyPrefix === SESSION_DATA_KEY_PREFIX ? sessionId : getStorageKey(sessionId);
+
+  const getKey = async (sessionId: string): Promise<CryptoKey> => {
+    const existing = await keyStore.get(getKeyId(sessionId));
+    if (existing) return existing;
+
+    const key = await generateEncryptionKey();
+    await keyStore.set(getKeyId(sessionId), key);
+    return key;
+  };
+
+  /**
+   * Encrypts and stores the current value of a session
+   */
+  const persist = async (sessionId: string): Promise<void> => {
+    const storage = getStorage();
+    const entry = entries.get(sessionId);
+    if (!storage || !entry) return;
+
+    const storageKey = getStorageKey(sessionId);
+    const { value } = entry;
+
+    // Never fall back to storing PHI in plaintext
+    if (value === null || !isWebCryptoAvailable()) {
+      storage.removeItem(storageKey);
+      entry.raw = null;
+      return;
+    }
+
+    const payload = await encryptText(await getKey(sessionId), value, storageKey);
+
+    // Skip if the data was replaced or wiped while encrypting
+    if (entries.get(sessionId)?.value !== value) return;
+
+    const envelope: EncryptedEnvelope = { v: ENVELOPE_VERSION, ...payload, updatedAt: now() };
+    const raw = JSON.stringify(envelope);
+    storage.setItem(storageKey, raw);
+    const latest = entries.get(sessionId);
+    if (latest) latest.raw = raw;
+  };
+
+  const schedulePersist = (sessionId: string): void => {
+    const previous = writes.get(sessionId) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      try {
+        await persist(sessionId);
+        writeErrors.delete(sessionId);
+      } catch (err) {
+        console.warn("[SecureStorage] Failed to save session data:", err);
+        writeErrors.set(sessionId, err);
+      }
+    });
+    writes.set(sessionId, next);
+  };
+
+  /**
+   * Adopts a legacy plaintext blob, encrypting it in place
+   * @returns The adopted value, or null if it had expired
+   */
+  const adoptPlaintext = (sessionId: string, raw: string, savedAt: number | null): string | null => {
+    if (savedAt !== null && isExpired(savedAt)) {
+      void wipe(sessionId);
+      return null;
+    }
+    entries.set(sessionId, { value: raw, raw, activeAt: now() });
+    schedulePersist(sessionId);
+    return raw;
+  };
+
+  const wipe = async (sessionId: string): Promise<void> => {
+    entries.set(sessionId, { value: null, raw: null, activeAt: now() });
+    writeErrors.delete(sessionId);
+    getStorage()?.removeItem(getStorageKey(sessionId));
+    notify(sessionId);
+
+    // Let in-flight writes settle (they skip wiped data) before dropping the key
+    await writes.get(sessionId);
+    try {
+      await keyStore.delete(getKeyId(sessionId));
+    } catch (err) {
+      console.warn("[SecureStorage] Failed to delete session key:", err);
+    }
+  };
+
+  const load = (sessionId: string): Promise<void> => {
+    if (entries.has(sessionId)) return Promise.resolve();
+
+    const inFlight = loads.get(sessionId);
+    if (inFlight) return inFlight;
+
+    const run = async (): Promise<void> => {
+      const storage = getStorage();
+      const storageKey = getStorageKey(sessionId);
+      const raw = storage?.getItem(storageKey) ?? null;
+
+      if (raw === null) return;
+
+      const blob = classifyBlob(raw);
+      if (blob.kind === "plaintext") {
+        if (!entries.has(sessionId)) adoptPlaintext(sessionId, raw, blob.savedAt);
+        notify(sessionId);
+        return;
+      }
+
+      const { envelope } = blob;
+      if (isExpired(envelope.updatedAt)) {
+        await wipe(sessionId);
+        return;
+      }
+
+      let value: string;
+      try {
+        const key = await keyStore.get(getKeyId(sessionId));
+        if (!key) throw new Error("No encryption key for this session");
+        value = await decryptText(key, envelope, storageKey);
+      } catch (err) {
+        // Without the key the data can never be read again
+        console.warn("[SecureStorage] Failed to decrypt session data, clearing it:", err);
+        await wipe(sessionId);
+        return;
+      }
+
+      // A write made while decrypting wins over the stored copy
+      if (entries.has(sessionId)) return;
+
+      // Record the visit so active sessions don't expire
+      let stored = raw;
+      try {
+        const touched = JSON.stringify({ ...envelope, updatedAt: now() });
+        storage?.setItem(storageKey, touched);
+        stored = touched;
+      } catch (err) {
+        console.warn("[SecureStorage] Failed to record session activity:", err);
+      }
+      entries.set(sessionId, { value, raw: stored, activeAt: now() });
+      notify(sessionId);
+    };
+
+    const promise = run()
+      .catch((err) => {
+        console.warn("[SecureStorage] Failed to load session data:", err);
+      })
+      .finally(() => {
+        loads.delete(sessionId);
+        if (!entries.has(sessionId)) {
+          entries.set(sessionId, { value: null, raw: null, activeAt: now() });
+        }
+      });
+    loads.set(sessionId, promise);
+    return promise;
+  };
+
+  const read = (sessionId: string): string | null => {
+    const storage = getStorage();
+    const current = storage?.getItem(getStorageKey(sessionId)) ?? null;
+    const entry = entries.get(sessionId);
+
+    if (entry && current === entry.raw) {
+      if (entry.value !== null && isExpired(entry.activeAt)) {
+        void wipe(sessionId);
+        return null;
+      }
+      return entry.value;
+    }
+
+    // Stored blob changed outside this store (cleared, or written by older code)
+    if (current === null) {
+      if (entry) entries.set(sessionId, { value: null, raw: null, activeAt: now() });
+      return null;
+    }
+
+    const blob = classifyBlob(current);
+    if (blob.kind === "plaintext") {
+      return adoptPlaintext(sessionId, current, blob.savedAt);
+    }
+
+    // Encrypted data can't be read synchronously; another tab's write is
+    // picked up by the storage listener, otherwise load() is needed first
+    return entry?.value ?? null;
+  };
+
+  const write = (sessionId: string, value: string): void => {
+    const raw = entries.get(sessionId)?.raw ?? getStorage()?.getItem(getStorageKey(sessionId)) ?? null;
+    entries.set(sessionId, { value, raw, activeAt: now() });
+    schedulePersist(sessionId);
+    notify(sessionId);
+  };
+
+  const flush = async (sessionId: string): Promise<void> => {
+    await writes.get(sessionId);
+    const error = writeErrors.get(sessionId);
+    if (error) {
+      writeErrors.delete(sessionId);
+      throw error;
+    }
+  };
+
+  /**
+   * Picks up changes made in other tabs
+   */
+  const handleStorage = (event: StorageEvent): void => {
+    if (!event.key?.startsWith(keyPrefix)) return;
+    const sessionId = event.key.slice(keyPrefix.length);
+    const version = (remoteVersions.get(sessionId) ?? 0) + 1;
+    remoteVersions.set(sessionId, version);
+
+    if (event.newValue === null) {
+      entries.set(sessionId, { value: null, raw: null, activeAt: now() });
+      notify(sessionId);
+      return;
+    }
+
+    const blob = classifyBlob(event.newValue);
+    if (blob.kind !== "encrypted") return;
+
+    const raw = event.newValue;
+    void (async () => {
+      try {
+        const key = await keyStore.get(getKeyId(sessionId));
+        if (!key) return;
+        const value = await decryptText(key, blob.envelope, event.key as string);
+        // Ignore stale results if a newer change arrived while decrypting
+        if (remoteVersions.get(sessionId) !== version) return;
+        entries.set(sessionId, { value, raw, activeAt: now() });
+        notify(sessionId);
+      } catch (err) {
+        console.warn("[SecureStorage] Failed to read session data from another tab:", err);
+      }
+    })();
+  };
+
+  target?.addEventListener("storage", handleStorage as EventListener);
+
+  return {
+    load,
+    isLoaded: (sessionId) => entries.has(sessionId),
+    read,
+    write,
+    flush,
+    wipe,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      target?.removeEventListener("storage", handleStorage as EventListener);
+    },
+  };
+}
+
+/**
+ * Shared store used by the app
+ */
+let defaultStore: SecureSessionStore | null = null;
+
+/**
+ * Gets the app's shared secure session store
+ */
+export function getSecureSessionStore(): SecureSessionStore {
+  if (!defaultStore) {
+    defaultStore = createSecureSessionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Shared stores for per-session records, created on first use
+ */
+const recordStores = new Map<SessionRecordName, SecureSessionStore>();
+
+/**
+ * Gets the app's shared store for a per-session record
+ */
+export function getSessionRecordStore(name: SessionRecordName): SecureSessionStore {
+  let store = recordStores.get(name);
+  if (!store) {
+    store = createSecureSessionStore({ keyPrefix: SESSION_RECORD_KEY_PREFIXES[name] });
+    recordStores.set(name, store);
+  }
+  return store;
+}
+
+/**
+ * Stores for every per-session record
+ */
+function getAllRecordStores(): SecureSessionStore[] {
+  return (Object.keys(SESSION_RECORD_KEY_PREFIXES) as SessionRecordName[]).map(
+    getSessionRecordStore
+  );
+}
+
+/**
+ * Removes plaintext copies of a session's PHI left by older versions
+ */
+function removeLegacyPlaintext(sessionId: string): void {
+  const storage = getBrowserStorage();
+  for (const prefix of LEGACY_PLAINTEXT_KEY_PREFIXES) {
+    storage?.removeItem(`${prefix}${sessionId}`);
+  }
+}
+
+/**
+ * Moves legacy plaintext form answers into a session's encrypted data
+ * Answers are only kept for sessions that still have saved data (not
+ * expired or wiped) and no newer form answers of their own.
+ */
+function migrateLegacyFormAssessment(sessionId: string): void {
+  const raw = getBrowserStorage()?.getItem(`${LEGACY_FORM_ASSESSMENT_KEY_PREFIX}${sessionId}`);
+  if (!raw) return;
+
+  try {
+    const legacy = JSON.parse(raw);
+    const store = getSecureSessionStore();
+    const existing = store.read(sessionId);
+    if (!existing || !legacy?.data) return;
+
+    const unified = JSON.parse(existing);
+    if (unified?.data?.formAssessment) return;
+
+    store.write(
+      sessionId,
+      JSON.stringify({
+        ...unified,
+        data: { ...unified?.data, formAssessment: legacy.data },
+        savedAt: new Date().toISOString(),
+      })
+    );
+  } catch (err) {
+    console.warn("[SecureStorage] Failed to migrate legacy form answers:", err);
+  }
+}
+
+/**
+ * Decrypts a session's saved data and records so they can be read synchronously
+ * @param sessionId - Onboarding session ID
+ */
+export async function loadSessionData(sessionId: string): Promise<void> {
+  await Promise.all(
+    [getSecureSessionStore(), ...getAllRecordStores()].map((store) => store.load(sessionId))
+  );
+  migrateLegacyFormAssessment(sessionId);
+  removeLegacyPlaintext(sessionId);
+}
+
+/**
+ * Whether a session's data and records have been loaded on this page
+ * @param sessionId - Onboarding session ID
+ */
+export function isSessionDataLoaded(sessionId: string): boolean {
+  return [getSecureSessionStore(), ...getAllRecordStores()].every((store) =>
+    store.isLoaded(sessionId)
+  );
+}
+
+/**
+ * Reads a session's data as a JSON string (like localStorage.getItem)
+ * @param sessionId - Onboarding session ID
+ */
+export function readSessionData(sessionId: string): string | null {
+  return getSecureSessionStore().read(sessionId);
+}
+
+/**
+ * Replaces a session's data with a JSON string (like localStorage.setItem)
+ * @param sessionId - Onboarding session ID
+ * @param value - JSON string to store
+ */
+export function writeSessionData(sessionId: string, value: string): void {
+  getSecureSessionStore().write(sessionId, value);
+}
+
+/**
+ * Waits for a session's pending writes to be stored
+ * @param sessionId - Onboarding session ID
+ * @throws The storage error if the last write failed (e.g. quota exceeded)
+ */
+export function flushSessionData(sessionId: string): Promise<void> {
+  return getSecureSessionStore().flush(sessionId);
+}
+
+/**
+ * Deletes a session's data, records and encryption keys from this device
+ * @param sessionId - Onboarding session ID
+ */
+export async function wipeSessionData(sessionId: string): Promise<void> {
+  removeLegacyPlaintext(sessionId);
+  await Promise.all(
+    [getSecureSessionStore(), ...getAllRecordStores()].map((store) => store.wipe(sessionId))
+  );
+}
+
+/**
+ * Reads a per-session record as a JSON string (needs loadSessionData first)
+ * @param name - Record name
+ * @param sessionId - Onboarding session ID
+ */
+export function readSessionRecord(name: SessionRecordName, sessionId: string): string | null {
+  return getSessionRecordStore(name).read(sessionId);
+}
+
+/**
+ * Replaces a per-session record with a JSON string
+ * @param name - Record name
+ * @param sessionId - Onboarding session ID
+ * @param value - JSON string to store
+ */
+export function writeSessionRecord(
+  name: SessionRecordName,
+  sessionId: string,
+  value: string
+): void {
+  getSessionRecordStore(name).write(sessionId, value);
+}
+
+/**
+ * Deletes a per-session record and its encryption key
+ * @param name - Record name
+ * @param sessionId - Onboarding session ID
+ */
+export function clearSessionRecord(name: SessionRecordName, sessionId: string): Promise<void> {
+  return getSessionRecordStore(name).wipe(sessionId);
+}
+
+/**
+ * Subscribes to session data changes, including changes from other tabs
+ * @param listener - Called with the changed session's ID
+ * @returns Unsubscribe function
+ */
+export function subscribeSessionData(listener: SessionDataListener): () => void {
+  return getSecureSessionStore().subscribe(listener);
+}
@@ -0,0 +1,45 @@
+/**
+ * useSessionDataReady Hook
+ *
+ * Decrypts a session's saved onboarding data on mount and reports when
+ * it can be read. Pages read session data synchronously, so the
+ * onboarding layout waits for this before rendering them.
+ *
+ * @module lib/storage/useSessionDataReady
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { isSessionDataLoaded, loadSessionData } from "./session-data";
+
+/**
+ * Hook to load encrypted session data
+ *
+ * @param sessionId - Onboarding session ID
+ * @returns Whether the session's data can be read
+ *
+ * @example
+ * const isReady = useSessionDataReady(sessionId);
+ * if (!isReady) return <Spinner />;
+ */
+export function useSessionDataReady(sessionId: string): boolean {
+  const [readySessionId, setReadySessionId] = useState<string | null>(() =>
+    sessionId && isSessionDataLoaded(sessionId) ? sessionId : null
+  );
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let active = true;
+    void loadSessionData(sessionId).then(() => {
+      if (active) setReadySessionId(sessionId);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [sessionId]);
+
+  return readySessionId === sessionId;
+}
@@ -2,11 +2,28 @@
  * Calendar Links Utilities
  *
  * Generates calendar links and ICS file downloads for appointments.
- * Supports Google Calendar, Apple Calendar (iCal), and Outlook.
+ * Supports Google Calendar, Apple Calendar (iCal), and Outlook. Every
+ * platform is generated from the same event details; ICS files are built
+ * with the RFC 5545 module in `lib/utils/icalendar`.
+ *
+ * Appointment events use a UID derived from the appointment ID and a
+ * SEQUENCE that increases with each change, so downloading the file again
+ * after a reschedule updates the existing calendar entry and a
+ * cancellation marks it cancelled (STATUS:CANCELLED). Files are always
+ * published (METHOD:PUBLISH): REQUEST and CANCEL are invitations that need
+ * an ATTENDEE, and these files are added by the family themselves.
  *
  * @module lib/utils/calendar-links
  */
 
+import {
+  formatRecurrenceProperties,
+  formatUtcDateTime,
+  serializeICalendar,
+  type ICalendar,
+  type ICalendarRecurrence,
+} from "./icalendar";
+
 /**
  * Calendar event details for generating links
  */
@@ -21,23 +38,117 @@ export interface CalendarEventDetails {
   startTime: string;
   /** End date/time as ISO string */
   endTime: string;
+  /** Recurrence for a repeating event (e.g., a weekly appointment series) */
+  recurrence?: CalendarRecurrence;
+  /** Stable event UID (see getAppointmentUid); derived from the event when omitted */
+  uid?: string;
+  /** Event revision; increases with every reschedule or cancellation */
+  sequence?: number;
+  /** Whether the event was cancelled (exports a cancellation) */
+  cancelled?: boolean;
+  /** IANA timezone; recurring events keep their local time across DST */
+  timezone?: string;
+}
+
+/**
+ * Recurrence rules for a repeating calendar event
+ */
+export type CalendarRecurrence = ICalendarRecurrence;
+
+/**
+ * PRODID for calendar files generated by the app
+ */
+export const CALENDAR_PRODUCT_ID = "-//Daybreak Health//Appointment Booking//EN";
+
+/**
+ * Organizer on appointment events
+ */
+const CALENDAR_ORGANIZER = { name: "Daybreak Health", email: "support@daybreakhealth.com" };
+
+/**
+ * Minutes before the appointment for the calendar reminder
+ */
+const REMINDER_MINUTES = 15;
+
+/**
+ * Stable calendar UID for an appointment
+ *
+ * @example
+ * getAppointmentUid("appt_123") // "appointment-appt_123@daybreakhealth.com"
+ */
+export function getAppointmentUid(appointmentId: string): string {
+  return `appointment-${appointmentId}@daybreakhealth.com`;
+}
+
+/**
+ * Stable calendar UID for a recurring series, keyed by its first appointment
+ * (distinct from that appointment's own UID)
+ */
+export function getAppointmentSeriesUid(firstAppointmentId: string): string {
+  return `series-${firstAppointmentId}@daybreakhealth.com`;
+}
+
+/**
+ * Calendar SEQUENCE for an appointment revision
+ *
+ * Seconds between creation and the last update: 0 for a new booking and
+ * strictly increasing with every later change, without storing a counter.
+ *
+ * @param createdAt - When the appointment was created (ISO string)
+ * @param updatedAt - When the appointment was last updated (ISO string)
+ */
+export function getAppointmentSequence(createdAt?: string, updatedAt?: string): number {
+  if (!createdAt || !updatedAt) return 0;
+  const seconds = Math.floor((new Date(updatedAt).getTime() - new Date(createdAt).getTime()) / 1000);
+  return Number.isFinite(seconds) ? Math.max(0, seconds) : 0;
+}
+
+/**
+ * Deterministic UID for events without an appointment ID, so downloading
+ * the same event twice doesn't create a duplicate
+ */
+function getFallbackUid(event: CalendarEventDetails): string {
+  let hash = 5381;
+  for (const char of `${event.title}|${event.startTime}`) {
+    hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  }
+  return `event-${hash.toString(36)}@daybreakhealth.com`;
 }
 
 /**
- * Formats a date for calendar formats (YYYYMMDDTHHmmssZ)
- * Uses UTC methods to prevent timezone conversion issues
- * @param dateString - ISO date string
- * @returns Formatted date string for calendar APIs
+ * Builds the iCalendar model for an event
+ *
+ * Always PUBLISH (RFC 5546); calendars replace an earlier copy with the
+ * same UID and a lower SEQUENCE. Cancelled events carry STATUS:CANCELLED
+ * and no reminder.
+ *
+ * @param event - Event details
+ * @param now - Timestamp for DTSTAMP (defaults to now)
+ * @returns Calendar object with one event
  */
-function formatCalendarDate(dateString: string): string {
-  const date = new Date(dateString);
-  const year = date.getUTCFullYear();
-  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(date.getUTCDate()).padStart(2, '0');
-  const hours = String(date.getUTCHours()).padStart(2, '0');
-  const minutes = String(date.getUTCMinutes()).padStart(2, '0');
-  const seconds = String(date.getUTCSeconds()).padStart(2, '0');
-  return `${year}${month}${day}T${hours}${minutes}${seconds}Z`;
+export function toICalendar(event: CalendarEventDetails, now: Date = new Date()): ICalendar {
+  const sequence = event.sequence ?? 0;
+  return {
+    prodId: CALENDAR_PRODUCT_ID,
+    method: "PUBLISH",
+    events: [
+      {
+        uid: event.uid ?? getFallbackUid(event),
+        sequence,
+        status: event.cancelled ? "CANCELLED" : "CONFIRMED",
+        summary: event.title,
+        description: event.description,
+        location: event.location || undefined,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        timezone: event.timezone,
+        recurrence: event.recurrence,
+        organizer: CALENDAR_ORGANIZER,
+        reminderMinutes: event.cancelled ? undefined : REMINDER_MINUTES,
+        dtstamp: now.toISOString(),
+      },
+    ],
+  };
 }
 
 /**
@@ -62,20 +173,36 @@ export function generateGoogleCalendarUrl(event: CalendarEventDetails): string {
     text: event.title,
     details: event.description,
     location: event.location,
-    dates: `${formatCalendarDate(event.startTime)}/${formatCalendarDate(event.endTime)}`,
+    dates: `${formatUtcDateTime(event.startTime)}/${formatUtcDateTime(event.endTime)}`,
   });
 
+  if (event.timezone) {
+    params.set("ctz", event.timezone);
+  }
+  if (event.recurrence) {
+    params.set("recur", formatRecurrenceProperties(event.recurrence, event.timezone).join("\n"));
+  }
+
   return `https://calendar.google.com/calendar/render?${params.toString()}`;
 }
 
 /**
- * Generates ICS file content for Apple Calendar and Outlook
- * Returns a data URI that can be downloaded as a .ics file
+ * Generates ICS file content (RFC 5545) for Apple Calendar and Outlook
  *
- * ICS Format Reference: RFC 5545 (iCalendar)
+ * @param event - Event details
+ * @param now - Timestamp for DTSTAMP (defaults to now)
+ * @returns .ics file content
+ */
+export function generateICSContent(event: CalendarEventDetails, now?: Date): string {
+  return serializeICalendar(toICalendar(event, now));
+}
+
+/**
+ * Generates an ICS file for Apple Calendar and Outlook
+ * Returns an object URL that can be downloaded as a .ics file
  *
  * @param event - Event details
- * @returns Data URI for .ics file download
+ * @returns Object URL for .ics file download
  *
  * @example
  * const icsUri = generateICSFile({
@@ -83,43 +210,13 @@ export function generateGoogleCalendarUrl(event: CalendarEventDetails): string {
  *   description: "Video call with therapist",
  *   location: "https://daybreak.health/meet/abc123",
  *   startTime: "2024-01-15T14:00:00Z",
- *   endTime: "2024-01-15T14:50:00Z"
+ *   endTime: "2024-01-15T14:50:00Z",
+ *   uid: getAppointmentUid("appt_123"),
  * });
  * // Use in anchor: <a href={icsUri} download="appointment.ics">Download</a>
  */
 export function generateICSFile(event: CalendarEventDetails): string {
-  const startDate = formatCalendarDate(event.startTime);
-  const endDate = formatCalendarDate(event.endTime);
-  const now = formatCalendarDate(new Date().toISOString());
-
-  // ICS file format (RFC 5545)
-  const icsContent = [
-    "BEGIN:VCALENDAR",
-    "VERSION:2.0",
-    "PRODID:-//Daybreak Health//Appointment Booking//EN",
-    "CALSCALE:GREGORIAN",
-    "METHOD:PUBLISH",
-    "BEGIN:VEVENT",
-    `DTSTART:${startDate}`,
-    `DTEND:${endDate}`,
-    `DTSTAMP:${now}`,
-    `UID:${now}@daybreakhealth.com`,
-    `SUMMARY:${event.title}`,
-    `DESCRIPTION:${event.description.replace(/\n/g, "\\n")}`,
-    `LOCATION:${event.location}`,
-    "STATUS:CONFIRMED",
-    "SEQUENCE:0",
-    "BEGIN:VALARM",
-    "TRIGGER:-PT15M",
-    "ACTION:DISPLAY",
-    "DESCRIPTION:Reminder: Appointment in 15 minutes",
-    "END:VALARM",
-    "END:VEVENT",
-    "END:VCALENDAR",
-  ].join("\r\n");
-
-  // Create data URI for download
-  const blob = new Blob([icsContent], { type: "text/calendar;charset=utf-8" });
+  const blob = new Blob([generateICSContent(event)], { type: "text/calendar;charset=utf-8" });
   return URL.createObjectURL(blob);
 }
 
@@ -3,42 +3,37 @@
  *
  * Provides functions for formatting monetary values in USD format,
  * handling cents-to-dollars conversion, and percentage formatting
- * for insurance coverage displays.
+ * for insurance coverage displays. Amounts are formatted through the
+ * Money type; new code should pass Money rather than raw cents.
  */
 
+import { formatMoney, moneyFromCents, roundHalfEven, type Money } from "./money";
+
 /**
- * Formats a monetary amount in cents to USD currency format
+ * Formats a monetary amount to USD currency format
  *
- * Converts cents to dollars and formats with appropriate currency symbol,
- * thousands separators, and decimal places. Handles negative values and
- * edge cases like null/undefined inputs.
+ * Accepts Money or an integer amount in cents, and formats with the
+ * currency symbol, thousands separators, and decimal places. Handles
+ * negative values and edge cases like null/undefined inputs.
  *
- * @param amountInCents - The amount in cents (e.g., 2500 for $25.00)
+ * @param amount - Money, or the amount in cents (e.g., 2500 for $25.00)
  * @returns Formatted currency string (e.g., "$25.00")
  *
  * @example
+ * formatCurrency(moneyFromCents(2500)) // "$25.00"
  * formatCurrency(2500)      // "$25.00"
  * formatCurrency(150000)    // "$1,500.00"
  * formatCurrency(0)         // "$0.00"
  * formatCurrency(null)      // "$0.00"
  * formatCurrency(undefined) // "$0.00"
  */
-export function formatCurrency(amountInCents: number | null | undefined): string {
+export function formatCurrency(amount: Money | number | null | undefined): string {
   // Handle null/undefined by returning $0.00
-  if (amountInCents == null) {
+  if (amount == null) {
     return "$0.00";
   }
 
-  // Convert cents to dollars
-  const amountInDollars = amountInCents / 100;
-
-  // Use Intl.NumberFormat for proper currency formatting
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amountInDollars);
+  return formatMoney(typeof amount === "number" ? moneyFromCents(roundHalfEven(amount)) : amount);
 }
 
 /**
@@ -73,16 +68,17 @@ export function formatPercentage(percentage: number | null | undefined): string
 /**
  * Formats a monetary amount as "per session" rate
  *
- * Convenience function that formats a cents amount and appends
+ * Convenience function that formats an amount and appends
  * "per session" text for cost estimation displays.
  *
- * @param amountInCents - The per-session amount in cents
+ * @param amount - The per-session amount (Money or cents)
  * @returns Formatted per-session rate (e.g., "$25.00 per session")
  *
  * @example
+ * formatPerSessionRate(moneyFromCents(2500)) // "$25.00 per session"
  * formatPerSessionRate(2500)  // "$25.00 per session"
  * formatPerSessionRate(0)     // "$0.00 per session"
  */
-export function formatPerSessionRate(amountInCents: number | null | undefined): string {
-  return `${formatCurrency(amountInCents)} per session`;
+export function formatPerSessionRate(amount: Money | number | null | undefined): string {
+  return `${formatCurrency(amount)} per session`;
 }
@@ -22,6 +22,7 @@
 import { gql } from "@apollo/client";
 import { DEV_TEST_DATA } from "./dev-autofill";
 import { INSURANCE_CARRIERS, findCarrierByName } from "@/lib/data/insurance-carriers";
+import { getOnboardingState, type OnboardingData } from "@/lib/onboarding-store";
 
 /**
  * GraphQL Error type
@@ -53,37 +54,9 @@ interface BackendSession {
 }
 
 /**
- * LocalStorage data structure for onboarding session
+ * Saved onboarding data for a session
  */
-interface LocalStorageData {
-  parent?: {
-    firstName?: string;
-    lastName?: string;
-    email?: string;
-    phone?: string;
-    relationshipToChild?: string;
-  };
-  child?: {
-    firstName?: string;
-    lastName?: string;
-    dateOfBirth?: string;
-    pronouns?: string;
-    gender?: string;
-    grade?: string;
-    primaryConcerns?: string;
-  };
-  insurance?: {
-    carrier?: string;
-    payerName?: string;
-    memberId?: string;
-    groupNumber?: string;
-    subscriberName?: string;
-    subscriberDob?: string;
-    verificationStatus?: string;
-    isSelfPay?: boolean;
-  };
-  formAssessment?: Record<string, unknown>;
-}
+type LocalStorageData = OnboardingData;
 
 /**
  * Sync status result
@@ -267,23 +240,16 @@ interface CompleteAssessmentResult {
 }
 
 /**
- * Reads localStorage data for a session
+ * Reads the saved onboarding data for a session
  *
  * @param sessionId - The session ID
- * @returns Parsed localStorage data or null if not found
+ * @returns Saved data or null if nothing is saved
  */
 function getLocalStorageData(sessionId: string): LocalStorageData | null {
   if (typeof window === "undefined") return null;
 
-  try {
-    const stored = localStorage.getItem(`onboarding_session_${sessionId}`);
-    if (!stored) return null;
-
-    const parsed = JSON.parse(stored);
-    return parsed.data || parsed || null;
-  } catch {
-    return null;
-  }
+  const { data } = getOnboardingState(sessionId);
+  return Object.keys(data).length > 0 ? data : null;
 }
 
 /**
@@ -13,6 +13,7 @@
  */
 
 import { gql } from "@apollo/client";
+import { readSessionData, writeSessionData } from "@/lib/storage";
 
 /**
  * GraphQL Error type
@@ -308,8 +309,7 @@ function saveToLocalStorage(
   sectionData: Record<string, unknown>
 ): void {
   try {
-    const storageKey = `onboarding_session_${sessionId}`;
-    const existing = localStorage.getItem(storageKey);
+    const existing = readSessionData(sessionId);
     const parsed: OnboardingStorageData = existing
       ? JSON.parse(existing)
       : { data: {}, savedAt: "" };
@@ -317,45 +317,13 @@ function saveToLocalStorage(
     parsed.data[section] = sectionData;
     parsed.savedAt = new Date().toISOString();
 
-    localStorage.setItem(storageKey, JSON.stringify(parsed));
+    writeSessionData(sessionId, JSON.stringify(parsed));
   } catch {
     // Silently fail - localStorage may not be available in some environments
     console.warn(`[dev-autofill] Failed to save ${section} to localStorage`);
   }
 }
 
-/**
- * Saves assessment summary to localStorage
- * Uses a separate key for assessment summary (matches manual form behavior)
- *
- * @param sessionId - The session ID
- * @param responses - The assessment responses that were submitted
- */
-function saveAssessmentSummary(
-  sessionId: string,
-  responses: typeof DEV_TEST_DATA.assessmentResponses
-): void {
-  try {
-    const summaryKey = `assessment_summary_${sessionId}`;
-    const summary = {
-      summary: "Development autofill assessment - PHQ-A and GAD-7 screening completed with moderate scores",
-      formData: {
-        phqaScore: responses.slice(0, 9).reduce((sum, r) => sum + r.responseValue, 0),
-        gad7Score: responses.slice(9).reduce((sum, r) => sum + r.responseValue, 0),
-        responses: responses.reduce((acc, r) => ({
-          ...acc,
-          [r.questionId]: { text: r.responseText, value: r.responseValue }
-        }), {})
-      },
-      generatedAt: new Date().toISOString()
-    };
-
-    localStorage.setItem(summaryKey, JSON.stringify(summary));
-  } catch {
-    console.warn("[dev-autofill] Failed to save assessment summary to localStorage");
-  }
-}
-
 /**
  * Autofill an entire onboarding session with test data
  *
@@ -588,11 +556,6 @@ export async function devAutofillSession(
       await sleep(delayMs / 2);
     }
 
-    // Save assessment summary to localStorage if all assessments succeeded
-    if (!errors.some((e) => e.includes("Assessment"))) {
-      saveAssessmentSummary(sessionId, data.assessmentResponses);
-    }
-
     await sleep(delayMs);
 
     // Step 5: Complete assessment - transition session to assessment_complete status
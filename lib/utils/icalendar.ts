@@ -0,0 +1,631 @@
+/**
+ * iCalendar (RFC 5545) model, serializer and parser
+ *
+ * Builds calendar files from a small event model and reads them back.
+ * Covers the parts calendar apps are strict about: TEXT escaping,
+ * 75-octet line folding, TZID-qualified local times with a matching
+ * VTIMEZONE, recurrence (RRULE/EXDATE/RDATE), and iTIP methods
+ * (RFC 5546) so an updated or cancelled event replaces the original
+ * instead of creating a duplicate.
+ *
+ * @module lib/utils/icalendar
+ */
+
+import { getTimezoneOffsetMs, getZonedParts, zonedTimeToInstant } from "./zoned-time";
+
+/**
+ * iTIP method for the calendar object
+ * - PUBLISH: informational copy of the event
+ * - REQUEST: new version of an event (higher SEQUENCE replaces the old one)
+ * - CANCEL: removes the event with the same UID
+ */
+export type ICalendarMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+/**
+ * Event status
+ */
+export type ICalendarEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+/**
+ * Recurrence for a repeating event
+ * @param rrule - RRULE value without the property name (e.g., "FREQ=WEEKLY;COUNT=8")
+ * @param exdates - Instances removed from the pattern (ISO strings)
+ * @param rdates - Extra instances added to the pattern (ISO strings)
+ */
+export interface ICalendarRecurrence {
+  rrule: string;
+  exdates?: string[];
+  rdates?: string[];
+}
+
+/**
+ * Event organizer
+ */
+export interface ICalendarOrganizer {
+  name: string;
+  email: string;
+}
+
+/**
+ * Single VEVENT
+ *
+ * Times are ISO instants. With a timezone they are written as local times
+ * with a TZID so recurring events keep their local time across DST;
+ * without one they are written in UTC. Times are written to the second.
+ */
+export interface ICalendarEvent {
+  /** Globally unique, stable identifier; reused for updates and cancellation */
+  uid: string;
+  /** Revision number; must increase with every change to the event */
+  sequence: number;
+  status: ICalendarEventStatus;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  /** Start (ISO string) */
+  startTime: string;
+  /** End (ISO string) */
+  endTime: string;
+  /** IANA timezone used for local times (e.g., "America/New_York") */
+  timezone?: string;
+  recurrence?: ICalendarRecurrence;
+  organizer?: ICalendarOrganizer;
+  /** Display reminder this many minutes before the start */
+  reminderMinutes?: number;
+  /** When this version of the event was created (ISO string) */
+  dtstamp: string;
+}
+
+/**
+ * VCALENDAR object
+ */
+export interface ICalendar {
+  /** PRODID, e.g. "-//Daybreak Health//Appointment Booking//EN" */
+  prodId: string;
+  method: ICalendarMethod;
+  events: ICalendarEvent[];
+}
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Approximate days per RRULE frequency, for sizing the VTIMEZONE */
+const FREQUENCY_DAYS: Record<string, number> = {
+  DAILY: 1,
+  WEEKLY: 7,
+  MONTHLY: 31,
+  YEARLY: 366,
+};
+
+const encoder = new TextEncoder();
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Escapes a TEXT value (RFC 5545 §3.3.11)
+ *
+ * @example
+ * escapeText("Notes; see link, then\ncall") // "Notes\\; see link\\, then\\ncall"
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Reverses escapeText
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * Folds a content line to at most 75 octets per physical line
+ * (RFC 5545 §3.1), never splitting a multi-byte character
+ */
+export function foldLine(line: string): string {
+  const segments: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      segments.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  segments.push(current);
+
+  return segments.join(`${CRLF} `);
+}
+
+/**
+ * Unfolds calendar content into logical content lines
+ */
+export function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Formats an instant as a UTC DATE-TIME (YYYYMMDDTHHmmssZ)
+ */
+export function formatUtcDateTime(isoString: string): string {
+  const date = new Date(isoString);
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Formats epoch milliseconds already shifted to local time (YYYYMMDDTHHmmss)
+ */
+function formatWallClock(shifted: number): string {
+  return formatUtcDateTime(new Date(shifted).toISOString()).slice(0, -1);
+}
+
+/**
+ * Formats an instant as a local DATE-TIME in a timezone (YYYYMMDDTHHmmss)
+ */
+function formatLocalDateTime(isoString: string, timezone: string): string {
+  const date = new Date(isoString);
+  const { year, month, day, hour, minute } = getZonedParts(date, timezone);
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * Whether a timezone should be written as UTC rather than with a TZID
+ */
+function isUtc(timezone?: string): timezone is undefined {
+  return !timezone || timezone === "UTC" || timezone === "Etc/UTC";
+}
+
+/**
+ * Builds a DATE-TIME property, with a TZID when a timezone is given
+ */
+function formatDateTimeProperty(name: string, instants: string[], timezone?: string): string {
+  if (isUtc(timezone)) {
+    return `${name}:${instants.map(formatUtcDateTime).join(",")}`;
+  }
+  return `${name};TZID=${timezone}:${instants
+    .map((instant) => formatLocalDateTime(instant, timezone))
+    .join(",")}`;
+}
+
+/**
+ * Quotes a parameter value when it contains separators
+ */
+function formatParamValue(value: string): string {
+  return /[":;,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+}
+
+/**
+ * Builds RRULE/EXDATE/RDATE content lines for a recurrence
+ *
+ * @param recurrence - Event recurrence
+ * @param timezone - IANA timezone for EXDATE/RDATE local times
+ * @returns Unfolded content lines (empty when not recurring)
+ */
+export function formatRecurrenceProperties(
+  recurrence?: ICalendarRecurrence,
+  timezone?: string
+): string[] {
+  if (!recurrence) return [];
+  const lines = [`RRULE:${recurrence.rrule}`];
+  if (recurrence.exdates?.length) {
+    lines.push(formatDateTimeProperty("EXDATE", recurrence.exdates, timezone));
+  }
+  if (recurrence.rdates?.length) {
+    lines.push(formatDateTimeProperty("RDATE", recurrence.rdates, timezone));
+  }
+  return lines;
+}
+
+/**
+ * Formats a UTC offset as ±HHMM
+ */
+function formatOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / MINUTE_MS);
+  return `${offsetMs < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+/**
+ * Finds UTC offset changes in a timezone between two instants
+ */
+function findOffsetTransitions(
+  timezone: string,
+  from: number,
+  to: number
+): Array<{ at: number; offsetFrom: number; offsetTo: number }> {
+  const transitions: Array<{ at: number; offsetFrom: number; offsetTo: number }> = [];
+  let previous = getTimezoneOffsetMs(from, timezone);
+
+  for (let day = from + DAY_MS; day <= to; day += DAY_MS) {
+    const offset = getTimezoneOffsetMs(day, timezone);
+    if (offset === previous) continue;
+
+    // Narrow the change down to the minute
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS;
+      if (getTimezoneOffsetMs(mid, timezone) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: high, offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Builds a VTIMEZONE component describing a timezone's offsets between
+ * two instants, from the runtime's timezone data
+ *
+ * @param timezone - IANA timezone
+ * @param from - Range start (epoch milliseconds)
+ * @param to - Range end (epoch milliseconds)
+ * @returns Unfolded content lines
+ */
+export function buildTimezoneComponent(timezone: string, from: number, to: number): string[] {
+  const initialOffset = getTimezoneOffsetMs(from, timezone);
+  const transitions = findOffsetTransitions(timezone, from, to);
+  const standardOffset = Math.min(initialOffset, ...transitions.map((t) => t.offsetTo));
+
+  const observance = (start: string, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${start}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timezone}`,
+    // Offset in effect at the start of the range
+    ...observance("19700101T000000", initialOffset, initialOffset),
+    // Onsets are local times in the offset before the change
+    ...transitions.flatMap((t) =>
+      observance(formatWallClock(t.at + t.offsetFrom), t.offsetFrom, t.offsetTo)
+    ),
+    "END:VTIMEZONE",
+  ];
+}
+
+/**
+ * Instants an event can occur between, in whole calendar years, so the
+ * VTIMEZONE covers every occurrence
+ */
+function getEventYears(event: ICalendarEvent): { from: number; to: number } {
+  const start = new Date(event.startTime).getTime();
+  const instants = [
+    new Date(event.endTime).getTime(),
+    ...(event.recurrence?.exdates ?? []).map((date) => new Date(date).getTime()),
+    ...(event.recurrence?.rdates ?? []).map((date) => new Date(date).getTime()),
+  ];
+
+  if (event.recurrence) {
+    const rule = Object.fromEntries(
+      event.recurrence.rrule.split(";").map((part) => part.split("=") as [string, string])
+    );
+    const until = rule.UNTIL ? parseDateTimeValue(rule.UNTIL) : null;
+    const span = rule.COUNT
+      ? Number(rule.COUNT) * Number(rule.INTERVAL ?? 1) * (FREQUENCY_DAYS[rule.FREQ] ?? 366) * DAY_MS
+      : 366 * DAY_MS;
+    instants.push(until ? new Date(until).getTime() : start + span);
+  }
+
+  const end = Math.max(start, ...instants);
+  return {
+    from: Date.UTC(new Date(start).getUTCFullYear(), 0, 1),
+    to: Date.UTC(new Date(end).getUTCFullYear() + 1, 0, 1),
+  };
+}
+
+/**
+ * Content lines for one VEVENT
+ */
+function formatEvent(event: ICalendarEvent, method: ICalendarMethod): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${escapeText(event.uid)}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtcDateTime(event.dtstamp)}`,
+    formatDateTimeProperty("DTSTART", [event.startTime], event.timezone),
+    formatDateTimeProperty("DTEND", [event.endTime], event.timezone),
+    ...formatRecurrenceProperties(event.recurrence, event.timezone),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) {
+    lines.push(
+      `ORGANIZER;CN=${formatParamValue(event.organizer.name)}:mailto:${event.organizer.email}`
+    );
+  }
+  lines.push(`STATUS:${event.status}`);
+
+  // Cancelled events don't need reminders
+  if (event.reminderMinutes != null && method !== "CANCEL") {
+    lines.push(
+      "BEGIN:VALARM",
+      `TRIGGER:-PT${event.reminderMinutes}M`,
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(`Reminder: Appointment in ${event.reminderMinutes} minutes`)}`,
+      "END:VALARM"
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Serializes a calendar to iCalendar text
+ *
+ * Adds one VTIMEZONE per timezone used, folds long lines and ends every
+ * line with CRLF.
+ *
+ * @param calendar - Calendar object
+ * @returns .ics file content
+ *
+ * @example
+ * serializeICalendar({
+ *   prodId: "-//Daybreak Health//Appointment Booking//EN",
+ *   method: "REQUEST",
+ *   events: [{ uid: "appointment-123@daybreakhealth.com", sequence: 1, ... }],
+ * });
+ */
+export function serializeICalendar(calendar: ICalendar): string {
+  const timezoneRanges = new Map<string, { from: number; to: number }>();
+  for (const event of calendar.events) {
+    if (isUtc(event.timezone)) continue;
+    const years = getEventYears(event);
+    const existing = timezoneRanges.get(event.timezone);
+    timezoneRanges.set(event.timezone, {
+      from: Math.min(years.from, existing?.from ?? Infinity),
+      to: Math.max(years.to, existing?.to ?? -Infinity),
+    });
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${calendar.prodId}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${calendar.method}`,
+    ...Array.from(timezoneRanges).flatMap(([timezone, range]) =>
+      buildTimezoneComponent(timezone, range.from, range.to)
+    ),
+    ...calendar.events.flatMap((event) => formatEvent(event, calendar.method)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Parsed content line
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Splits a content line into name, parameters and value, honouring
+ * quoted parameter values
+ */
+function parseContentLine(line: string): ContentLine {
+  const segments: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === ";" || char === ":")) {
+      segments.push(current);
+      current = "";
+      if (char === ":") {
+        const [name, ...params] = segments;
+        return {
+          name: name.toUpperCase(),
+          params: Object.fromEntries(
+            params.map((param) => {
+              const separator = param.indexOf("=");
+              return [param.slice(0, separator).toUpperCase(), param.slice(separator + 1)];
+            })
+          ),
+          value: line.slice(i + 1),
+        };
+      }
+      continue;
+    }
+    current += char;
+  }
+
+  throw new Error(`Invalid iCalendar content line: ${line}`);
+}
+
+/**
+ * Parses a single DATE-TIME value to an ISO string
+ *
+ * @param value - YYYYMMDDTHHmmss with optional Z
+ * @param timezone - TZID for local times (treated as UTC when absent)
+ */
+function parseDateTimeValue(value: string, timezone?: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!match) {
+    throw new Error(`Unsupported iCalendar date-time: ${value}`);
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  if (match[7] || isUtc(timezone)) {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second)).toISOString();
+  }
+  const instant = zonedTimeToInstant({ year, month, day }, hour * 60 + minute, timezone);
+  return new Date(instant + second * 1000).toISOString();
+}
+
+/**
+ * Parses a (possibly multi-valued) DATE-TIME property
+ */
+function parseDateTimes(line: ContentLine): string[] {
+  return line.value.split(",").map((value) => parseDateTimeValue(value, line.params.TZID));
+}
+
+/**
+ * Parses a negative TRIGGER duration (e.g., -PT15M, -P1D) to minutes
+ */
+function parseTriggerMinutes(value: string): number | undefined {
+  const match = /^-P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/.exec(value);
+  if (!match) return undefined;
+  const [days, hours, minutes] = match.slice(1).map((part) => Number(part ?? 0));
+  return days * 24 * 60 + hours * 60 + minutes;
+}
+
+/**
+ * Parses iCalendar text produced by serializeICalendar (or a compatible
+ * calendar app) back into the calendar model
+ *
+ * Supports the properties this module writes; other properties and
+ * components (including VTIMEZONE, resolved by TZID instead) are ignored.
+ *
+ * @param content - .ics file content
+ * @returns Calendar object
+ * @throws Error when a line or required event property is invalid
+ */
+export function parseICalendar(content: string): ICalendar {
+  const calendar: ICalendar = { prodId: "", method: "PUBLISH", events: [] };
+  const stack: string[] = [];
+  let draft: Partial<ICalendarEvent> | null = null;
+  let recurrence: Required<ICalendarRecurrence> | null = null;
+
+  for (const raw of unfoldLines(content)) {
+    const line = parseContentLine(raw);
+    const component = stack[stack.length - 1];
+
+    if (line.name === "BEGIN") {
+      stack.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === "VEVENT") {
+        draft = {};
+        recurrence = { rrule: "", exdates: [], rdates: [] };
+      }
+      continue;
+    }
+
+    if (line.name === "END") {
+      stack.pop();
+      if (line.value.toUpperCase() === "VEVENT" && draft && recurrence) {
+        if (!draft.uid || !draft.startTime) {
+          throw new Error("Invalid iCalendar event: missing UID or DTSTART");
+        }
+        calendar.events.push({
+          sequence: 0,
+          status: "CONFIRMED",
+          summary: "",
+          dtstamp: draft.startTime,
+          endTime: draft.startTime,
+          ...draft,
+          ...(recurrence.rrule ? { recurrence } : {}),
+        } as ICalendarEvent);
+        draft = null;
+      }
+      continue;
+    }
+
+    if (component === "VCALENDAR") {
+      if (line.name === "PRODID") calendar.prodId = line.value;
+      if (line.name === "METHOD") calendar.method = line.value.toUpperCase() as ICalendarMethod;
+      continue;
+    }
+
+    if (component === "VALARM" && draft && line.name === "TRIGGER") {
+      const minutes = parseTriggerMinutes(line.value);
+      if (minutes !== undefined) draft.reminderMinutes = minutes;
+      continue;
+    }
+
+    if (component !== "VEVENT" || !draft || !recurrence) continue;
+
+    switch (line.name) {
+      case "UID":
+        draft.uid = unescapeText(line.value);
+        break;
+      case "SEQUENCE":
+        draft.sequence = Number(line.value);
+        break;
+      case "STATUS":
+        draft.status = line.value.toUpperCase() as ICalendarEventStatus;
+        break;
+      case "DTSTAMP":
+        draft.dtstamp = parseDateTimeValue(line.value);
+        break;
+      case "DTSTART":
+        draft.startTime = parseDateTimes(line)[0];
+        if (!isUtc(line.params.TZID)) draft.timezone = line.params.TZID;
+        break;
+      case "DTEND":
+        draft.endTime = parseDateTimes(line)[0];
+        break;
+      case "RRULE":
+        recurrence.rrule = line.value;
+        break;
+      case "EXDATE":
+        recurrence.exdates.push(...parseDateTimes(line));
+        break;
+      case "RDATE":
+        recurrence.rdates.push(...parseDateTimes(line));
+        break;
+      case "SUMMARY":
+        draft.summary = unescapeText(line.value);
+        break;
+      case "DESCRIPTION":
+        draft.description = unescapeText(line.value);
+        break;
+      case "LOCATION":
+        draft.location = unescapeText(line.value);
+        break;
+      case "URL":
+        draft.url = line.value;
+        break;
+      case "ORGANIZER":
+        draft.organizer = {
+          name: (line.params.CN ?? "").replace(/^"|"$/g, ""),
+          email: line.value.replace(/^mailto:/i, ""),
+        };
+        break;
+    }
+  }
+
+  return calendar;
+}
@@ -0,0 +1,328 @@
+/**
+ * Money value type for cost display and calculation
+ *
+ * Amounts are held as integer cents so arithmetic is exact. The backend
+ * sends money in several shapes (USD floats like `patientPays`, display
+ * strings like `PackageOption.totalPrice`, and integer cents in our own
+ * schemas), so each shape has its own constructor and nothing converts
+ * implicitly. Rounding from fractional amounts uses banker's rounding
+ * (half to even) so repeated rounding doesn't drift upward.
+ */
+
+/**
+ * Supported currency codes
+ */
+export type CurrencyCode = "USD";
+
+/**
+ * Exact monetary amount
+ * @param cents - Amount in the currency's minor unit (always an integer)
+ * @param currency - ISO 4217 currency code
+ */
+export interface Money {
+  readonly cents: number;
+  readonly currency: CurrencyCode;
+}
+
+/**
+ * Options for formatMoney
+ * @param locale - BCP 47 locale (default "en-US")
+ * @param hideZeroCents - Drops ".00" from whole amounts (e.g., "$150")
+ * @param signDisplay - When to show the sign (e.g., "always" for "+$15.00")
+ */
+export interface FormatMoneyOptions {
+  locale?: string;
+  hideZeroCents?: boolean;
+  signDisplay?: "auto" | "always" | "exceptZero" | "never";
+}
+
+const DEFAULT_CURRENCY: CurrencyCode = "USD";
+const DEFAULT_LOCALE = "en-US";
+
+/**
+ * Rounds to the nearest integer, with ties going to the even neighbour
+ *
+ * Values within floating-point noise of .5 count as ties, so
+ * 1.005 * 100 (100.49999999999999) rounds like 100.5.
+ *
+ * @param value - Number to round
+ * @returns Rounded integer
+ *
+ * @example
+ * roundHalfEven(2.5)  // 2
+ * roundHalfEven(3.5)  // 4
+ * roundHalfEven(-2.5) // -2
+ */
+export function roundHalfEven(value: number): number {
+  const floor = Math.floor(value);
+  const fraction = value - floor;
+  const epsilon = 1e-9 * Math.max(1, Math.abs(value));
+
+  if (Math.abs(fraction - 0.5) < epsilon) {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  return Math.round(value);
+}
+
+/**
+ * Creates money from integer cents
+ *
+ * @param cents - Amount in cents (e.g., 2500 for $25.00)
+ * @param currency - Currency code (default USD)
+ * @throws Error if cents isn't an integer
+ *
+ * @example
+ * moneyFromCents(2500) // $25.00
+ */
+export function moneyFromCents(cents: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(cents)) {
+    throw new Error(`Money must be a whole number of cents, got ${cents}`);
+  }
+  // Normalize -0 so equal amounts compare and format the same
+  return { cents: cents === 0 ? 0 : cents, currency };
+}
+
+/**
+ * Creates money from a dollar amount, e.g. a GraphQL Float
+ *
+ * @param dollars - Amount in dollars (e.g., 25.5)
+ * @param currency - Currency code (default USD)
+ *
+ * @example
+ * moneyFromDollars(25.5)  // $25.50
+ * moneyFromDollars(1.005) // $1.00 (half to even)
+ */
+export function moneyFromDollars(dollars: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  return moneyFromCents(roundHalfEven(dollars * 100), currency);
+}
+
+/**
+ * Reads money from a display string, e.g. PackageOption.totalPrice
+ *
+ * Takes the first amount in the string, so ranges and trailing text
+ * ("$1,800 - $2,400", "$150 per session") read as their first amount.
+ *
+ * @param value - Display string
+ * @param currency - Currency code (default USD)
+ * @returns Money, or null if the string has no amount
+ *
+ * @example
+ * parseMoney("$1,800.50") // $1,800.50
+ * parseMoney("-$30")      // -$30.00
+ * parseMoney("Varies")    // null
+ */
+export function parseMoney(
+  value: string | null | undefined,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): Money | null {
+  const match = value?.replace(/,/g, "").match(/(-)?\$?\s*(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+
+  const dollars = Number(match[2]);
+  return moneyFromDollars(match[1] ? -dollars : dollars, currency);
+}
+
+/**
+ * Zero in the given currency
+ */
+export function zeroMoney(currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  return moneyFromCents(0, currency);
+}
+
+/**
+ * Converts money to dollars for APIs that take a Float
+ *
+ * @example
+ * toDollars(moneyFromCents(2550)) // 25.5
+ */
+export function toDollars(money: Money): number {
+  return money.cents / 100;
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+/**
+ * Adds two amounts
+ * @throws Error if the currencies differ
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return moneyFromCents(a.cents + b.cents, a.currency);
+}
+
+/**
+ * Subtracts b from a
+ * @throws Error if the currencies differ
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return moneyFromCents(a.cents - b.cents, a.currency);
+}
+
+/**
+ * Adds up a list of amounts
+ *
+ * @param amounts - Amounts to add
+ * @param currency - Currency of the result when the list is empty
+ */
+export function sumMoney(amounts: Money[], currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  return amounts.reduce(addMoney, zeroMoney(amounts[0]?.currency ?? currency));
+}
+
+/**
+ * Multiplies an amount, rounding half to even
+ *
+ * @example
+ * multiplyMoney(moneyFromCents(15000), 0.8) // $120.00
+ */
+export function multiplyMoney(money: Money, factor: number): Money {
+  return moneyFromCents(roundHalfEven(money.cents * factor), money.currency);
+}
+
+/**
+ * Takes a percentage of an amount, rounding half to even
+ *
+ * @example
+ * percentOfMoney(moneyFromCents(15000), 20) // $30.00
+ */
+export function percentOfMoney(money: Money, percent: number): Money {
+  return multiplyMoney(money, percent / 100);
+}
+
+/**
+ * Flips the sign of an amount
+ */
+export function negateMoney(money: Money): Money {
+  return moneyFromCents(-money.cents, money.currency);
+}
+
+/**
+ * Absolute value of an amount
+ */
+export function absMoney(money: Money): Money {
+  return moneyFromCents(Math.abs(money.cents), money.currency);
+}
+
+/**
+ * Compares two amounts
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ * @throws Error if the currencies differ
+ */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.cents - b.cents;
+}
+
+/**
+ * Whether two amounts are equal (same currency and cents)
+ */
+export function moneyEquals(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.cents === b.cents;
+}
+
+/**
+ * Whether an amount is zero
+ */
+export function isZeroMoney(money: Money): boolean {
+  return money.cents === 0;
+}
+
+/**
+ * Whether an amount is below zero
+ */
+export function isNegativeMoney(money: Money): boolean {
+  return money.cents < 0;
+}
+
+/**
+ * Splits an amount into parts that add up to exactly the total
+ *
+ * Leftover cents go one at a time to the parts that lost the most to
+ * rounding (earlier parts first on ties), so a $100.00 total split three
+ * ways is $33.34, $33.33, $33.33.
+ *
+ * @param total - Amount to split
+ * @param parts - Number of equal parts, or a ratio per part
+ * @returns One amount per part
+ * @throws Error if there are no parts or the ratios don't add up to more than zero
+ *
+ * @example
+ * allocateMoney(moneyFromCents(10000), 3)      // [$33.34, $33.33, $33.33]
+ * allocateMoney(moneyFromCents(10000), [1, 3]) // [$25.00, $75.00]
+ */
+export function allocateMoney(total: Money, parts: number | number[]): Money[] {
+  const ratios = typeof parts === "number" ? Array.from({ length: parts }, () => 1) : parts;
+  const ratioTotal = ratios.reduce((sum, ratio) => sum + ratio, 0);
+
+  if (ratios.length === 0 || !(ratioTotal > 0) || ratios.some((ratio) => ratio < 0)) {
+    throw new Error("Money can only be split into one or more non-negative parts");
+  }
+
+  // Split the absolute amount so leftover cents always move away from zero
+  const sign = total.cents < 0 ? -1 : 1;
+  const absolute = Math.abs(total.cents);
+  const exact = ratios.map((ratio) => (absolute * ratio) / ratioTotal);
+  const shares = exact.map((share) => Math.floor(share));
+
+  let leftover = absolute - shares.reduce((sum, share) => sum + share, 0);
+  const byRemainder = exact
+    .map((share, index) => ({ index, remainder: share - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    shares[index] += 1;
+    leftover -= 1;
+  }
+
+  return shares.map((share) => moneyFromCents(sign * share, total.currency));
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(
+  locale: string,
+  currency: CurrencyCode,
+  fractionDigits: number,
+  signDisplay: NonNullable<FormatMoneyOptions["signDisplay"]>
+): Intl.NumberFormat {
+  const key = `${locale}|${currency}|${fractionDigits}|${signDisplay}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+      signDisplay,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Formats money for display
+ *
+ * @param money - Amount to format
+ * @param options - Locale, whole-dollar and sign options
+ * @returns Formatted amount (e.g., "$1,500.00")
+ *
+ * @example
+ * formatMoney(moneyFromCents(150000))                          // "$1,500.00"
+ * formatMoney(moneyFromCents(15000), { hideZeroCents: true })  // "$150"
+ * formatMoney(moneyFromCents(1500), { signDisplay: "always" }) // "+$15.00"
+ * formatMoney(moneyFromCents(150000), { locale: "es-US" })     // "US$1,500.00" (locale-dependent)
+ */
+export function formatMoney(money: Money, options: FormatMoneyOptions = {}): string {
+  const { locale = DEFAULT_LOCALE, hideZeroCents = false, signDisplay = "auto" } = options;
+  const fractionDigits = hideZeroCents && money.cents % 100 === 0 ? 0 : 2;
+
+  return getFormatter(locale, money.currency, fractionDigits, signDisplay).format(
+    toDollars(money)
+  );
+}
@@ -6,11 +6,17 @@
  *
  * CRITICAL: Always use this utility before sending any user data to external services.
  *
+ * These functions are thin wrappers over the recursive redaction engine in
+ * ./phi-redactor, which handles nested objects, arrays and PHI patterns in
+ * free-text values. Use redactPHI() directly for custom field policies or
+ * a redaction report.
+ *
  * PHI includes:
  * - Assessment conversation history and clinical details
  * - Date of birth and specific age information
  * - Detailed medical/mental health concerns
  * - Specific treatment history or diagnoses
+ * - Phone numbers, SSNs, member IDs and email addresses inside free text
  *
  * Safe to share:
  * - First names (non-unique identifiers)
@@ -20,36 +26,32 @@
  * - Step names (non-clinical process tracking)
  */
 
-/**
- * List of field names that contain PHI and should be filtered
- * These fields will be removed from any object before external transmission
- */
-const PHI_FIELDS = [
-  'conversationHistory',
-  'assessment',
-  'dateOfBirth',
-  'age',
-  'concerns',
-  'symptoms',
-  'diagnosis',
-  'medications',
-  'treatmentHistory',
-  'clinicalNotes',
-  'therapistNotes',
-  'assessmentDetails',
-  'currentQuestion',
-  'demographics', // May contain sensitive data
-  'insurance', // May contain policy details
-] as const;
+import { redactPHI, type RedactionFinding } from './phi-redactor';
+
+export {
+  redactPHI,
+  DEFAULT_FIELD_POLICIES,
+  DEFAULT_VALUE_DETECTORS,
+} from './phi-redactor';
+export type {
+  FieldAction,
+  FieldPolicies,
+  ValueDetector,
+  RedactionFinding,
+  RedactionReport,
+  RedactionResult,
+  RedactionOptions,
+} from './phi-redactor';
 
 /**
- * Filters out PHI fields from an object
+ * Filters out PHI from an object
  *
- * Creates a shallow copy of the input object with PHI fields removed.
- * Nested objects are handled by removing top-level PHI keys only.
+ * Returns a redacted copy using the default policies: PHI fields are
+ * removed at any depth, and PHI patterns in string values are replaced
+ * with a [REDACTED:<type>] token.
  *
- * @param data - Object potentially containing PHI fields
- * @returns New object with PHI fields removed
+ * @param data - Object potentially containing PHI
+ * @returns New object with PHI removed
  *
  * @example
  * ```ts
@@ -57,37 +59,34 @@ const PHI_FIELDS = [
  *   firstName: 'Jane',
  *   email: 'jane@example.com',
  *   conversationHistory: [...], // PHI - will be removed
- *   dateOfBirth: '2010-05-15', // PHI - will be removed
+ *   child: { dateOfBirth: '2010-05-15' }, // PHI - will be removed
+ *   note: 'Call me at 555-123-4567', // becomes 'Call me at [REDACTED:phone]'
  * };
  *
  * const safe = filterPHI(userData);
- * // { firstName: 'Jane', email: 'jane@example.com' }
+ * // { firstName: 'Jane', email: 'jane@example.com', child: {}, note: '...' }
  * ```
  */
 export function filterPHI<T extends Record<string, unknown>>(data: T): Partial<T> {
-  const filtered: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(data)) {
-    // Skip PHI fields
-    if (PHI_FIELDS.includes(key as typeof PHI_FIELDS[number])) {
-      continue;
-    }
-
-    // Include non-PHI fields
-    filtered[key] = value;
-  }
+  return redactPHI(data).value;
+}
 
-  return filtered as Partial<T>;
+/**
+ * Lists where PHI was found in an object
+ */
+function findPHI(data: Record<string, unknown>): RedactionFinding[] {
+  return redactPHI(data).report.findings;
 }
 
 /**
- * Checks if an object contains any PHI fields
+ * Checks if an object contains any PHI
  *
  * Useful for validation before external transmission.
- * Returns true if any PHI field is present, even if empty.
+ * Returns true if any PHI field is present (even if empty) or any string
+ * value contains a PHI pattern.
  *
  * @param data - Object to check for PHI
- * @returns True if object contains PHI fields
+ * @returns True if object contains PHI
  *
  * @example
  * ```ts
@@ -99,15 +98,14 @@ export function filterPHI<T extends Record<string, unknown>>(data: T): Partial<T
  * ```
  */
 export function containsPHI(data: Record<string, unknown>): boolean {
-  return Object.keys(data).some((key) =>
-    PHI_FIELDS.includes(key as typeof PHI_FIELDS[number])
-  );
+  return findPHI(data).length > 0;
 }
 
 /**
  * Validates that an object is safe for external transmission
  *
- * Throws an error if PHI is detected in the object.
+ * Throws an error if PHI is detected in the object. The error lists the
+ * paths where PHI was found, never the values.
  * Use this as a guard before sending data to third-party services.
  *
  * @param data - Object to validate
@@ -127,12 +125,11 @@ export function validateNoPHI(
   data: Record<string, unknown>,
   context: string
 ): void {
-  if (containsPHI(data)) {
-    const phiKeys = Object.keys(data).filter((key) =>
-      PHI_FIELDS.includes(key as typeof PHI_FIELDS[number])
-    );
+  const findings = findPHI(data);
+  if (findings.length > 0) {
+    const phiPaths = [...new Set(findings.map((finding) => finding.path))];
     throw new Error(
-      `PHI detected in ${context}: Found restricted fields [${phiKeys.join(', ')}]. ` +
+      `PHI detected in ${context}: Found restricted fields [${phiPaths.join(', ')}]. ` +
       'Use filterPHI() before external transmission.'
     );
   }
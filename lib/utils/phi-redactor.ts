@@ -0,0 +1,438 @@
+/**
+ * PHI Redaction Engine
+ *
+ * Recursively redacts protected health information from data before it
+ * leaves the app (Intercom, logs, analytics). Walks nested objects and
+ * arrays, applies a policy to fields by name, and scans remaining string
+ * values for PHI patterns such as dates of birth, phone numbers, member IDs
+ * and email addresses.
+ *
+ * Field policies (matched on key name at any depth, ignoring case,
+ * underscores and dashes):
+ * - allow: keep as-is and skip value detectors (e.g. email, session_id)
+ * - drop: remove the field
+ * - hash: replace with a stable pseudonymous token (needs a secret hashSalt;
+ *   without one the field is dropped)
+ * - mask: keep only the last 4 characters
+ * - generalize_age: replace an age or date of birth with an age bucket
+ *
+ * Every run produces a redaction report listing what was redacted and
+ * where. The report contains paths and rule names only, never the values.
+ *
+ * Redaction is idempotent: running already-redacted data through the
+ * engine again produces no findings.
+ */
+
+import { calculateAge } from "./age-validation";
+
+/**
+ * Action applied to a field by name
+ */
+export type FieldAction = "allow" | "drop" | "hash" | "mask" | "generalize_age";
+
+/**
+ * Field policies keyed by field name
+ */
+export type FieldPolicies = Record<string, FieldAction>;
+
+/**
+ * Pattern that identifies PHI inside string values
+ * @param name - Detector name, used in the redaction token and report
+ * @param pattern - Regular expression matching the PHI (made global if needed)
+ */
+export interface ValueDetector {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Single entry in the redaction report
+ * @param path - Location in the input, e.g. "child.dateOfBirth" or "notes[2]"
+ * @param action - What was done (replace = matched text substituted in a string)
+ * @param rule - Field name or detector name that triggered the redaction
+ * @param source - Whether a field policy, value detector or safety limit applied
+ * @param count - Number of matches replaced (pattern findings only)
+ */
+export interface RedactionFinding {
+  path: string;
+  action: Exclude<FieldAction, "allow"> | "replace";
+  rule: string;
+  source: "field" | "pattern" | "limit";
+  count?: number;
+}
+
+/**
+ * Summary of a redaction run
+ */
+export interface RedactionReport {
+  findings: RedactionFinding[];
+}
+
+/**
+ * Redacted data and its report
+ */
+export interface RedactionResult<T> {
+  value: T;
+  report: RedactionReport;
+}
+
+/**
+ * Redaction configuration
+ * @param fieldPolicies - Policies merged over DEFAULT_FIELD_POLICIES
+ * @param detectors - Value detectors (replaces DEFAULT_VALUE_DETECTORS)
+ * @param hashSalt - Secret salt mixed into hashed values; hash policies drop
+ *   the field when it's missing
+ * @param maxDepth - Nesting depth beyond which values are dropped
+ */
+export interface RedactionOptions {
+  fieldPolicies?: FieldPolicies;
+  detectors?: ValueDetector[];
+  hashSalt?: string;
+  maxDepth?: number;
+}
+
+/**
+ * Default field policies
+ *
+ * Clinical content, dates of birth and exact ages are dropped. Identifiers
+ * needed by support staff (email, session ID) are allowed. Member and
+ * subscriber IDs are masked; callers with a secret salt can opt into hash.
+ */
+export const DEFAULT_FIELD_POLICIES: FieldPolicies = {
+  // Clinical content
+  conversationHistory: "drop",
+  assessment: "drop",
+  assessmentDetails: "drop",
+  currentQuestion: "drop",
+  concerns: "drop",
+  symptoms: "drop",
+  diagnosis: "drop",
+  medications: "drop",
+  treatmentHistory: "drop",
+  clinicalNotes: "drop",
+  therapistNotes: "drop",
+
+  // Personal details
+  dateOfBirth: "drop",
+  dob: "drop",
+  age: "drop",
+  ssn: "drop",
+  socialSecurityNumber: "drop",
+  demographics: "drop", // May contain sensitive data
+  insurance: "drop", // May contain policy details
+
+  // Identifiers that can be partially shared
+  memberId: "mask",
+  subscriberId: "mask",
+  policyNumber: "mask",
+  groupNumber: "mask",
+  phone: "mask",
+  phoneNumber: "mask",
+  childAge: "generalize_age",
+
+  // Safe identifiers
+  email: "allow",
+  sessionId: "allow",
+};
+
+/**
+ * Default value detectors, applied in order
+ */
+export const DEFAULT_VALUE_DETECTORS: ValueDetector[] = [
+  {
+    name: "email",
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    name: "ssn",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  {
+    name: "date_of_birth",
+    pattern:
+      /\b(?:(?:0?[1-9]|1[0-2])[/.-](?:0?[1-9]|[12]\d|3[01])[/.-](?:19|20)\d{2}|(?:19|20)\d{2}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01]))\b/g,
+  },
+  {
+    name: "phone",
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-]?)\d{3}[\s.-]?\d{4}\b/g,
+  },
+  {
+    name: "member_id",
+    pattern: /\b[A-Z]{0,4}\d{6,}[A-Z0-9]*\b/gi,
+  },
+];
+
+/**
+ * Age buckets used by generalize_age, youngest first
+ */
+const AGE_BUCKETS: Array<{ max: number; label: string }> = [
+  { max: 9, label: "under 10" },
+  { max: 12, label: "10-12" },
+  { max: 15, label: "13-15" },
+  { max: 19, label: "16-19" },
+  { max: Infinity, label: "20+" },
+];
+
+const DEFAULT_MAX_DEPTH = 20;
+const HASH_PREFIX = "hash_";
+const MASK_CHAR = "*";
+
+/**
+ * Normalizes a key so camelCase, snake_case and kebab-case match
+ */
+function normalizeKey(key: string): string {
+  return key.replace(/[^a-z0-9]/gi, "").toLowerCase();
+}
+
+/**
+ * Builds the token that replaces a detected value
+ */
+function redactionToken(detectorName: string): string {
+  return `[REDACTED:${detectorName}]`;
+}
+
+/**
+ * FNV-1a 32-bit hash as an 8-character hex string
+ *
+ * Not cryptographic: provides a stable pseudonym for correlation only.
+ * Only safe with a secret salt, which prevents lookups against known values.
+ */
+function fnv1a(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Hashes a primitive value
+ *
+ * @param value - Value to hash
+ * @param salt - Secret salt mixed into the hash
+ */
+export function hashValue(value: string | number | boolean, salt: string): string {
+  return `${HASH_PREFIX}${fnv1a(`${salt}${String(value)}`)}`;
+}
+
+/**
+ * Masks all but the last 4 characters
+ *
+ * @example
+ * maskValue("555-123-4567") // "********4567"
+ */
+export function maskValue(value: string | number): string {
+  const text = String(value);
+  if (text.length <= 4) return MASK_CHAR.repeat(text.length);
+  return MASK_CHAR.repeat(text.length - 4) + text.slice(-4);
+}
+
+/**
+ * Converts an age or date of birth to an age bucket
+ *
+ * @param value - Age in years, numeric string, or date of birth
+ * @returns Bucket label (e.g. "13-15"), or null if the value isn't an age
+ */
+export function toAgeBucket(value: unknown): string | null {
+  let age: number | null = null;
+
+  if (typeof value === "number") {
+    age = value;
+  } else if (value instanceof Date) {
+    age = Number.isNaN(value.getTime()) ? null : calculateAge(value);
+  } else if (typeof value === "string" && value.trim()) {
+    if (/^\d{1,3}$/.test(value.trim())) {
+      age = Number(value.trim());
+    } else {
+      const date = new Date(value);
+      age = Number.isNaN(date.getTime()) ? null : calculateAge(date);
+    }
+  }
+
+  if (age === null || !Number.isFinite(age) || age < 0) return null;
+  return AGE_BUCKETS.find((bucket) => age <= bucket.max)?.label ?? null;
+}
+
+/**
+ * Whether a value already has the given field action applied
+ */
+function isAlreadyRedacted(action: FieldAction, value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  switch (action) {
+    case "hash":
+      return /^hash_[0-9a-f]{8}$/.test(value);
+    case "mask":
+      return value.length > 0 && /^\*+[^*]{0,4}$/.test(value);
+    case "generalize_age":
+      return AGE_BUCKETS.some((bucket) => bucket.label === value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Ensures detector patterns are global so every match is replaced
+ */
+function toGlobalDetectors(detectors: ValueDetector[]): ValueDetector[] {
+  return detectors.map(({ name, pattern }) => ({
+    name,
+    pattern: pattern.flags.includes("g")
+      ? pattern
+      : new RegExp(pattern.source, `${pattern.flags}g`),
+  }));
+}
+
+/**
+ * Marker for values removed from their parent
+ */
+const DROPPED = Symbol("dropped");
+
+/**
+ * Recursively redacts PHI from data
+ *
+ * @param data - Object to redact (not modified)
+ * @param options - Field policies, detectors and limits
+ * @returns Redacted copy and a report of what was redacted
+ *
+ * @example
+ * ```ts
+ * const { value, report } = redactPHI({
+ *   email: "jane@example.com",
+ *   child: { firstName: "Alex", dateOfBirth: "2012-05-15" },
+ *   note: "Call me at 555-123-4567",
+ * });
+ * // value: { email: "jane@example.com", child: { firstName: "Alex" },
+ * //          note: "Call me at [REDACTED:phone]" }
+ * // report.findings: [
+ * //   { path: "child.dateOfBirth", action: "drop", rule: "dateOfBirth", source: "field" },
+ * //   { path: "note", action: "replace", rule: "phone", source: "pattern", count: 1 },
+ * // ]
+ * ```
+ */
+export function redactPHI<T extends Record<string, unknown>>(
+  data: T,
+  options: RedactionOptions = {}
+): RedactionResult<Partial<T>> {
+  const policies = new Map<string, FieldAction>();
+  for (const [key, action] of Object.entries({
+    ...DEFAULT_FIELD_POLICIES,
+    ...options.fieldPolicies,
+  })) {
+    policies.set(normalizeKey(key), action);
+  }
+
+  const detectors = toGlobalDetectors(options.detectors ?? DEFAULT_VALUE_DETECTORS);
+  const hashSalt = options.hashSalt;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const findings: RedactionFinding[] = [];
+  const ancestors = new Set<object>();
+
+  /**
+   * Replaces detected PHI inside a string
+   */
+  const redactString = (text: string, path: string): string => {
+    let result = text;
+    for (const detector of detectors) {
+      let count = 0;
+      result = result.replace(detector.pattern, () => {
+        count++;
+        return redactionToken(detector.name);
+      });
+      if (count > 0) {
+        findings.push({ path, action: "replace", rule: detector.name, source: "pattern", count });
+      }
+    }
+    return result;
+  };
+
+  /**
+   * Applies a hash, mask or generalize policy to a field value
+   */
+  const applyFieldAction = (
+    action: Exclude<FieldAction, "allow" | "drop">,
+    value: unknown,
+    path: string,
+    rule: string
+  ): unknown => {
+    if (value === null || value === undefined || isAlreadyRedacted(action, value)) {
+      return value;
+    }
+
+    let redacted: string | null = null;
+    const isPrimitive = typeof value === "string" || typeof value === "number";
+    if (action === "generalize_age") {
+      redacted = toAgeBucket(value);
+    } else if (action === "hash") {
+      // Unsalted hashes of short IDs can be reversed by brute force
+      redacted = isPrimitive && hashSalt ? hashValue(value, hashSalt) : null;
+    } else if (isPrimitive) {
+      redacted = maskValue(value);
+    }
+
+    // Values that can't be transformed are dropped rather than leaked
+    if (redacted === null) {
+      findings.push({ path, action: "drop", rule, source: "field" });
+      return DROPPED;
+    }
+
+    findings.push({ path, action, rule, source: "field" });
+    return redacted;
+  };
+
+  const visit = (value: unknown, path: string, depth: number): unknown => {
+    if (typeof value === "string") return redactString(value, path);
+    if (value === null || typeof value !== "object" || value instanceof Date) {
+      return value;
+    }
+
+    if (ancestors.has(value)) {
+      findings.push({ path, action: "drop", rule: "circular_reference", source: "limit" });
+      return DROPPED;
+    }
+    if (depth >= maxDepth) {
+      findings.push({ path, action: "drop", rule: "max_depth", source: "limit" });
+      return DROPPED;
+    }
+
+    ancestors.add(value);
+    let output: unknown;
+
+    if (Array.isArray(value)) {
+      output = value
+        .map((item, index) => visit(item, `${path}[${index}]`, depth + 1))
+        .filter((item) => item !== DROPPED);
+    } else {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${key}` : key;
+        const action = policies.get(normalizeKey(key));
+        let redacted: unknown;
+
+        if (action === "allow") {
+          redacted = child;
+        } else if (action === "drop") {
+          findings.push({ path: childPath, action: "drop", rule: key, source: "field" });
+          redacted = DROPPED;
+        } else if (action) {
+          redacted = applyFieldAction(action, child, childPath, key);
+        } else {
+          redacted = visit(child, childPath, depth + 1);
+        }
+
+        if (redacted !== DROPPED) result[key] = redacted;
+      }
+      output = result;
+    }
+
+    ancestors.delete(value);
+    return output;
+  };
+
+  const value = visit(data, "", 0);
+
+  return {
+    value: (value === DROPPED ? {} : value) as Partial<T>,
+    report: { findings },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Risk Language Detection Utility
+ *
+ * Screens free text typed by parents for crisis language (suicidal
+ * ideation, self-harm, harm to others) before it is submitted, so crisis
+ * resources can be shown immediately instead of waiting on the AI.
+ *
+ * Matching is deliberately conservative: negations ("no thoughts of
+ * suicide") are not parsed, so a mention is treated as a hit. Showing
+ * resources unnecessarily is preferable to missing a crisis.
+ *
+ * Escalation logging never includes the screened text or the matched
+ * categories - only where and how the panel was triggered.
+ */
+
+import { validateNoPHI } from "./phi-filter";
+
+/**
+ * Categories of crisis language
+ */
+export type RiskCategory = "suicidal_ideation" | "self_harm" | "harm_to_others";
+
+/**
+ * Result of screening text
+ */
+export interface RiskDetectionResult {
+  isRisk: boolean;
+  categories: RiskCategory[];
+}
+
+/**
+ * Where screening happened
+ */
+export type RiskScreeningSource = "chat" | "form" | "questionnaire";
+
+/**
+ * What triggered the crisis panel
+ * - language: local detector matched typed text
+ * - risk_flags: backend reported riskFlags on the assessment
+ */
+export type RiskEscalationTrigger = "language" | "risk_flags";
+
+/**
+ * Reflexive pronouns used in self-directed phrases
+ */
+const REFLEXIVE = "(?:himself|herself|themselves|themself|myself)";
+
+/**
+ * Patterns per category (case-insensitive, word-bounded)
+ */
+const RISK_PATTERNS: Record<RiskCategory, RegExp[]> = {
+  suicidal_ideation: [
+    /\bsuicid/i,
+    new RegExp(`\\b(?:kill|killing|killed)\\s+${REFLEXIVE}\\b`, "i"),
+    new RegExp(`\\bhang(?:ing|ed)?\\s+${REFLEXIVE}\\b`, "i"),
+    /\bwant(?:s|ed|ing)?\s+to\s+die\b/i,
+    /\bend(?:ing)?\s+(?:his|her|their|my)\s+(?:own\s+)?life\b/i,
+    /\b(?:doesn'?t|does\s+not|don'?t|do\s+not)\s+want\s+to\s+(?:live|be\s+alive)\b/i,
+    /\bwish(?:es|ed)?\s+(?:he|she|they|i)\s+(?:was|were)\s+dead\b/i,
+    /\bbetter\s+off\s+dead\b/i,
+  ],
+  self_harm: [
+    /\bself[-\s]?harm/i,
+    new RegExp(
+      `\\b(?:cut|cuts|cutting|burn|burns|burning|hurt|hurts|hurting|harm|harms|harming)\\s+${REFLEXIVE}\\b`,
+      "i"
+    ),
+    /\b(?:been|is|was|started|keeps)\s+cutting\b/i,
+    /\boverdos(?:e|ed|ing)\b/i,
+  ],
+  harm_to_others: [
+    /\bthreat(?:en|ens|ened|ening)\s+to\s+(?:kill|shoot|stab|hurt)\b/i,
+    /\bwant(?:s|ed)?\s+to\s+(?:kill|shoot|stab)\s+(?:someone|somebody|people|kids|classmates)\b/i,
+    /\b(?:bring|brings|brought|bringing)\s+a\s+(?:gun|knife|weapon)\s+to\s+school\b/i,
+  ],
+};
+
+/**
+ * Screens text for crisis language
+ *
+ * @param text - Free text entered by the parent
+ * @returns Whether crisis language was found and which categories matched
+ *
+ * @example
+ * ```ts
+ * detectRiskLanguage("She said she wants to die");
+ * // { isRisk: true, categories: ["suicidal_ideation"] }
+ * ```
+ */
+export function detectRiskLanguage(text: string | null | undefined): RiskDetectionResult {
+  if (!text || !text.trim()) {
+    return { isRisk: false, categories: [] };
+  }
+
+  const categories = (Object.keys(RISK_PATTERNS) as RiskCategory[]).filter((category) =>
+    RISK_PATTERNS[category].some((pattern) => pattern.test(text))
+  );
+
+  return { isRisk: categories.length > 0, categories };
+}
+
+/**
+ * Screens several free-text values at once (e.g. form fields)
+ *
+ * @param texts - Values to screen; empty values are skipped
+ * @returns Combined result across all values
+ */
+export function detectRiskInTexts(
+  texts: Array<string | null | undefined>
+): RiskDetectionResult {
+  const categories = new Set<RiskCategory>();
+
+  for (const text of texts) {
+    detectRiskLanguage(text).categories.forEach((category) => categories.add(category));
+  }
+
+  return { isRisk: categories.size > 0, categories: Array.from(categories) };
+}
+
+/**
+ * Escalation event recorded when the crisis panel is shown
+ */
+export interface RiskEscalationEvent {
+  sessionId: string;
+  source: RiskScreeningSource;
+  trigger: RiskEscalationTrigger;
+}
+
+/**
+ * Logs that crisis resources were shown
+ *
+ * Only the session ID (a non-PHI lookup token), the screen and the trigger
+ * are recorded. The text, matched categories and backend flag values are
+ * never included.
+ *
+ * @param event - Escalation details
+ */
+export function logRiskEscalation({ sessionId, source, trigger }: RiskEscalationEvent): void {
+  const payload = {
+    event: "crisis_resources_shown",
+    session_id: sessionId,
+    source,
+    trigger,
+    occurred_at: new Date().toISOString(),
+  };
+
+  try {
+    validateNoPHI(payload, "Risk escalation log");
+    console.warn("[Safety] Crisis resources shown:", payload);
+  } catch (error) {
+    console.error("[Safety] Escalation log blocked:", error);
+  }
+}
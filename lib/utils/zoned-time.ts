@@ -0,0 +1,145 @@
+/**
+ * Time zone utilities
+ *
+ * Converts between instants and wall-clock times in an IANA time zone using
+ * Intl.DateTimeFormat, so day/hour calculations stay correct across DST
+ * transitions. Avoids the `new Date(date.toLocaleString(...))` pattern,
+ * which re-parses a formatted string in the *runtime's* zone and drifts by
+ * an hour around transitions.
+ *
+ * @module lib/utils/zoned-time
+ */
+
+/**
+ * Wall-clock date and time in a time zone
+ */
+export interface ZonedDateParts {
+  year: number;
+  /** Month 1-12 */
+  month: number;
+  /** Day of month 1-31 */
+  day: number;
+  /** Day of week 0-6 (0 = Sunday) */
+  dayOfWeek: number;
+  /** Hour 0-23 */
+  hour: number;
+  minute: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Formatter cache; constructing Intl.DateTimeFormat is comparatively slow
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Reads the wall-clock date and time of an instant in a time zone
+ *
+ * @param instant - Date or epoch milliseconds
+ * @param timezone - IANA time zone (e.g., "America/New_York")
+ * @returns Wall-clock parts
+ *
+ * @example
+ * getZonedParts(new Date("2025-03-09T07:30:00Z"), "America/New_York")
+ * // { year: 2025, month: 3, day: 9, dayOfWeek: 0, hour: 3, minute: 30 }
+ */
+export function getZonedParts(instant: Date | number, timezone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ * (positive east of UTC, e.g. +1h for Europe/Paris in winter)
+ */
+export function getTimezoneOffsetMs(instant: Date | number, timezone: string): number {
+  const time = typeof instant === "number" ? instant : instant.getTime();
+  const parts = getZonedParts(time, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  // Drop seconds so the offset is whole minutes
+  return asUtc - Math.floor(time / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Converts a wall-clock time in a time zone to an instant
+ *
+ * Minutes past the end of the day roll over into the next day, so a
+ * window starting at 22:00 for 180 minutes can be resolved with
+ * `minutesOfDay = 22 * 60 + 180`. Wall-clock times skipped by a DST
+ * transition resolve to the instant one offset later (02:30 on a
+ * spring-forward day becomes 03:30); repeated times resolve to the
+ * first occurrence.
+ *
+ * @param date - Calendar date (year, 1-based month, day)
+ * @param minutesOfDay - Minutes since local midnight (may exceed 1440)
+ * @param timezone - IANA time zone
+ * @returns Epoch milliseconds
+ */
+export function zonedTimeToInstant(
+  date: { year: number; month: number; day: number },
+  minutesOfDay: number,
+  timezone: string
+): number {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, minutesOfDay);
+
+  // Offsets a day either side; they differ only when a transition is near
+  const offsetBefore = getTimezoneOffsetMs(wallClock - DAY_MS, timezone);
+  const offsetAfter = getTimezoneOffsetMs(wallClock + DAY_MS, timezone);
+  const isValid = (instant: number) => getTimezoneOffsetMs(instant, timezone) === wallClock - instant;
+
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter].filter(isValid);
+  if (candidates.length > 0) {
+    // Repeated wall-clock time: take the first occurrence
+    return Math.min(...candidates);
+  }
+  // Skipped wall-clock time: shift forward by the transition
+  return wallClock - Math.min(offsetBefore, offsetAfter);
+}
+
+/**
+ * Adds calendar days to a date, independent of time zone
+ */
+export function addCalendarDays(
+  date: { year: number; month: number; day: number },
+  days: number
+): { year: number; month: number; day: number } {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
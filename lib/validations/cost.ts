@@ -3,10 +3,38 @@
  *
  * Provides runtime validation for cost estimate responses from the API,
  * ensuring data integrity and type safety throughout the cost display flow.
+ * Monetary fields are Money values (integer cents with a currency); build
+ * them from API data with the constructors in `lib/utils/money`.
  */
 
 import { z } from "zod";
 
+/**
+ * Schema for a Money value
+ *
+ * @example
+ * moneySchema.safeParse(moneyFromCents(2500)); // success
+ * moneySchema.safeParse({ cents: 25.5, currency: "USD" }); // fails: not whole cents
+ */
+export const moneySchema = z.object({
+  cents: z.number().int("Amounts must be in whole cents"),
+  currency: z.literal("USD"),
+});
+
+/**
+ * Money that can't be negative
+ */
+function nonNegativeMoney(message: string) {
+  return moneySchema.refine((money) => money.cents >= 0, message);
+}
+
+/**
+ * Money that must be above zero
+ */
+function positiveMoney(message: string) {
+  return moneySchema.refine((money) => money.cents > 0, message);
+}
+
 /**
  * Schema for coverage information
  *
@@ -15,7 +43,7 @@ import { z } from "zod";
  */
 export const coverageSchema = z.object({
   percentage: z.number().min(0).max(100).nullable().optional(),
-  amount: z.number().int().nonnegative().nullable().optional(),
+  amount: nonNegativeMoney("Coverage amount cannot be negative").nullable().optional(),
   description: z.string().nullable().optional(),
 });
 
@@ -23,24 +51,24 @@ export const coverageSchema = z.object({
  * Schema for deductible information
  *
  * Validates annual deductible tracking data including total amount,
- * how much has been met, and remaining balance (all in cents).
+ * how much has been met, and remaining balance (all Money).
  */
 export const deductibleInfoSchema = z.object({
-  total: z.number().int().nonnegative(),
-  met: z.number().int().nonnegative(),
-  remaining: z.number().int().nonnegative(),
+  total: nonNegativeMoney("Deductible cannot be negative"),
+  met: nonNegativeMoney("Deductible met cannot be negative"),
+  remaining: nonNegativeMoney("Deductible remaining cannot be negative"),
 });
 
 /**
  * Schema for out-of-pocket maximum information
  *
  * Validates annual out-of-pocket maximum tracking data including
- * total maximum amount and how much has been applied toward it (all in cents).
+ * total maximum amount and how much has been applied toward it (all Money).
  */
 export const outOfPocketInfoSchema = z.object({
-  max: z.number().int().nonnegative(),
-  met: z.number().int().nonnegative(),
-  remaining: z.number().int().nonnegative(),
+  max: nonNegativeMoney("Out-of-pocket maximum cannot be negative"),
+  met: nonNegativeMoney("Out-of-pocket met cannot be negative"),
+  remaining: nonNegativeMoney("Out-of-pocket remaining cannot be negative"),
 });
 
 /**
@@ -48,9 +76,9 @@ export const outOfPocketInfoSchema = z.object({
  *
  * Validates the complete cost estimation response including:
  * - Session ID for tracking
- * - Per-session cost in cents
+ * - Per-session cost
  * - Insurance coverage information
- * - Copay/coinsurance amounts in cents
+ * - Copay amount and coinsurance percentage
  * - Deductible information (optional)
  * - Insurance carrier name for display
  * - Disclaimer text from backend
@@ -59,9 +87,9 @@ export const outOfPocketInfoSchema = z.object({
  * @example
  * const result = costEstimateSchema.safeParse({
  *   sessionId: "session_123",
- *   perSessionCost: 2500, // $25.00
+ *   perSessionCost: moneyFromCents(2500), // $25.00
  *   insuranceCoverage: { percentage: 80, description: "PPO coverage" },
- *   copay: 2500,
+ *   copay: moneyFromDollars(25),
  *   insuranceCarrier: "Blue Cross Blue Shield",
  *   disclaimer: "Final cost may vary based on your specific plan",
  *   calculatedAt: "2025-11-30T12:00:00Z"
@@ -70,19 +98,11 @@ export const outOfPocketInfoSchema = z.object({
 export const costEstimateSchema = z.object({
   sessionId: z.string().min(1, "Session ID is required"),
 
-  perSessionCost: z
-    .number()
-    .int("Per-session cost must be in cents (integer)")
-    .nonnegative("Per-session cost cannot be negative"),
+  perSessionCost: nonNegativeMoney("Per-session cost cannot be negative"),
 
   insuranceCoverage: coverageSchema.nullable().optional(),
 
-  copay: z
-    .number()
-    .int("Copay must be in cents (integer)")
-    .nonnegative("Copay cannot be negative")
-    .nullable()
-    .optional(),
+  copay: nonNegativeMoney("Copay cannot be negative").nullable().optional(),
 
   coinsurance: z
     .number()
@@ -133,14 +153,8 @@ export const selfPayPackageSchema = z.object({
   id: z.string().min(1, "Package ID is required"),
   name: z.string().min(1, "Package name is required"),
   sessionCount: z.number().int().positive("Session count must be positive"),
-  totalPrice: z
-    .number()
-    .int("Total price must be in cents (integer)")
-    .positive("Total price must be positive"),
-  pricePerSession: z
-    .number()
-    .int("Per-session price must be in cents (integer)")
-    .positive("Per-session price must be positive"),
+  totalPrice: positiveMoney("Total price must be positive"),
+  pricePerSession: positiveMoney("Per-session price must be positive"),
   savingsPercentage: z
     .number()
     .min(0, "Savings percentage cannot be negative")
@@ -151,20 +165,20 @@ export const selfPayPackageSchema = z.object({
  * Schema for self-pay rate data from API
  *
  * Validates self-pay pricing information including:
- * - Base per-session rate in cents
+ * - Base per-session rate
  * - Package discount options (if available)
  * - Financial assistance availability flag
  *
  * @example
  * const result = selfPayRateSchema.safeParse({
- *   perSessionRate: 15000, // $150.00
+ *   perSessionRate: moneyFromCents(15000), // $150.00
  *   packages: [
  *     {
  *       id: "pkg_4",
  *       name: "4-Session Package",
  *       sessionCount: 4,
- *       totalPrice: 54000, // $540.00
- *       pricePerSession: 13500, // $135.00
+ *       totalPrice: moneyFromCents(54000), // $540.00
+ *       pricePerSession: moneyFromCents(13500), // $135.00
  *       savingsPercentage: 10
  *     }
  *   ],
@@ -172,10 +186,7 @@ export const selfPayPackageSchema = z.object({
  * });
  */
 export const selfPayRateSchema = z.object({
-  perSessionRate: z
-    .number()
-    .int("Per-session rate must be in cents (integer)")
-    .positive("Per-session rate must be positive"),
+  perSessionRate: positiveMoney("Per-session rate must be positive"),
 
   packages: z.array(selfPayPackageSchema).default([]),
 
@@ -226,7 +237,7 @@ export const paymentFrequencySchema = z.enum(["per_session", "monthly", "prepaid
  * Validates payment plan information including:
  * - Plan ID and name
  * - Description and frequency
- * - Installment and total amounts in cents
+ * - Installment and total amounts
  * - Terms and conditions text
  *
  * @example
@@ -235,7 +246,7 @@ export const paymentFrequencySchema = z.enum(["per_session", "monthly", "prepaid
  *   name: "Monthly Billing",
  *   description: "Pay monthly instead of per session",
  *   frequency: "monthly",
- *   installmentAmount: 60000, // $600.00 per month
+ *   installmentAmount: moneyFromCents(60000), // $600.00 per month
  *   totalAmount: null,
  *   terms: "Cancel anytime with 30 days notice"
  * });
@@ -245,18 +256,10 @@ export const paymentPlanSchema = z.object({
   name: z.string().min(1, "Plan name is required"),
   description: z.string().nullable().optional(),
   frequency: paymentFrequencySchema,
-  installmentAmount: z
-    .number()
-    .int("Installment amount must be in cents (integer)")
-    .nonnegative("Installment amount cannot be negative")
-    .nullable()
-    .optional(),
-  totalAmount: z
-    .number()
-    .int("Total amount must be in cents (integer)")
-    .nonnegative("Total amount cannot be negative")
+  installmentAmount: nonNegativeMoney("Installment amount cannot be negative")
     .nullable()
     .optional(),
+  totalAmount: nonNegativeMoney("Total amount cannot be negative").nullable().optional(),
   terms: z.string().nullable().optional(),
 });
 
@@ -6,6 +6,7 @@
  */
 
 import { z } from "zod";
+import { validateMemberId } from "./member-id";
 
 /**
  * Relationship to subscriber options
@@ -35,7 +36,8 @@ export const RELATIONSHIP_TO_SUBSCRIBER_LABELS: Record<
  *
  * Validates:
  * - carrier: Required selection from carrier list (AC-4.1.1)
- * - memberId: 5-30 alphanumeric chars with hyphens (AC-4.1.2)
+ * - memberId: 5-30 alphanumeric chars with hyphens (AC-4.1.2), and the
+ *   selected carrier's member ID format (see member-id.ts)
  * - groupNumber: Optional, max 30 alphanumeric with hyphens (AC-4.1.3)
  * - subscriberName: 2-100 characters (AC-4.1.4)
  * - relationshipToSubscriber: Required enum selection (AC-4.1.4)
@@ -79,6 +81,19 @@ export const insuranceSchema = z.object({
       message: "Please select your relationship to the subscriber",
     }),
   }),
+}).superRefine((data, ctx) => {
+  // Carrier format is checked on the normalized ID, so spacing and case
+  // differences are fixed by normalizeMemberId() rather than reported
+  if (!data.carrier || !data.memberId) return;
+
+  const { error } = validateMemberId(data.memberId, data.carrier);
+  if (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["memberId"],
+      message: error,
+    });
+  }
 });
 
 /**
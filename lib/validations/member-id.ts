@@ -0,0 +1,298 @@
+/**
+ * Carrier-specific member ID validation and normalization
+ *
+ * Each carrier in INSURANCE_CARRIERS can have a member ID rule describing
+ * the exact format printed on its cards. Values are normalized (spaces and
+ * hyphens removed, uppercased, common OCR misreads fixed) before they are
+ * checked, so typed and OCR-extracted IDs are compared the same way.
+ *
+ * Carriers without a rule (Medicaid, Other) fall back to the generic
+ * 5-30 alphanumeric check used by insuranceSchema.
+ */
+
+import { getCarrierById } from "@/lib/data/insurance-carriers";
+
+/**
+ * Member ID format rule for a carrier
+ * @param pattern - Full match for the normalized member ID
+ * @param description - Format description used in error messages
+ * @param example - Example ID in the carrier's format
+ * @param letterPrefixLength - For IDs of letters then digits only, how many
+ *   leading letters there are (lets OCR misreads be fixed by position)
+ * @param diagnose - Returns a more specific error for common mistakes
+ */
+export interface MemberIdRule {
+  pattern: RegExp;
+  description: string;
+  example: string;
+  letterPrefixLength?: number;
+  diagnose?: (normalized: string) => string | null;
+}
+
+/**
+ * Result of validating a member ID
+ * @param normalized - Member ID after normalization
+ * @param isValid - Whether the normalized ID matches the carrier format
+ * @param error - Format error message, or null when valid or empty
+ */
+export interface MemberIdValidation {
+  normalized: string;
+  isValid: boolean;
+  error: string | null;
+}
+
+/**
+ * Generic member ID format for carriers without a rule
+ */
+const GENERIC_MEMBER_ID_PATTERN = /^[A-Z0-9-]{5,30}$/;
+
+/**
+ * Letters used in Medicare Beneficiary Identifiers (excludes S, L, O, I, B, Z)
+ */
+const MBI_LETTER = "[AC-HJKMNP-RT-Y]";
+
+/**
+ * Medicare Beneficiary Identifier (MBI) pattern
+ *
+ * Position 1: 1-9, 2/5/8/9: letter, 4/7/10/11: digit, 3/6: letter or digit
+ */
+const MBI_PATTERN = new RegExp(
+  `^[1-9]${MBI_LETTER}(?:${MBI_LETTER}|\\d)\\d${MBI_LETTER}(?:${MBI_LETTER}|\\d)\\d${MBI_LETTER}{2}\\d{2}$`
+);
+
+/**
+ * OCR misreads of digits as letters
+ */
+const LETTER_TO_DIGIT: Record<string, string> = { O: "0", Q: "0", I: "1", L: "1", Z: "2", S: "5", B: "8" };
+
+/**
+ * OCR misreads of letters as digits
+ */
+const DIGIT_TO_LETTER: Record<string, string> = { "0": "O", "1": "I", "2": "Z", "5": "S", "8": "B" };
+
+/**
+ * Rule for IDs made only of digits
+ */
+function digitsRule(min: number, max: number): MemberIdRule {
+  const length = min === max ? `${min}` : `${min}-${max}`;
+  return {
+    pattern: new RegExp(`^\\d{${min},${max}}$`),
+    description: `${length} digits`,
+    example: "1234567890".repeat(2).slice(0, max),
+    letterPrefixLength: 0,
+  };
+}
+
+/**
+ * Rule for IDs of letters and digits
+ */
+function alphanumericRule(min: number, max: number): MemberIdRule {
+  return {
+    pattern: new RegExp(`^[A-Z0-9]{${min},${max}}$`),
+    description: `${min}-${max} letters and numbers`,
+    example: "A1B2C3D4E5F6".slice(0, max),
+  };
+}
+
+/**
+ * Rule for IDs that start with a fixed letter (Aetna W, Cigna U, Humana H)
+ */
+function letterPrefixRule(prefix: string, digits: number): MemberIdRule {
+  return {
+    pattern: new RegExp(`^${prefix}\\d{${digits}}$`),
+    description: `${prefix} followed by ${digits} digits`,
+    example: `${prefix}${"123456789".repeat(2).slice(0, digits)}`,
+    letterPrefixLength: 1,
+    diagnose: (normalized) =>
+      new RegExp(`^\\d{${digits}}$`).test(normalized)
+        ? `Add the letter ${prefix} at the start of your member ID`
+        : null,
+  };
+}
+
+/**
+ * Rule for Blue Cross Blue Shield plans: 3-letter alpha prefix + digits
+ *
+ * The alpha prefix routes claims to the member's home plan, so an ID
+ * without it can't be verified.
+ */
+function bluePlanRule(minDigits: number, maxDigits: number): MemberIdRule {
+  const digits = minDigits === maxDigits ? `${minDigits}` : `${minDigits}-${maxDigits}`;
+  return {
+    pattern: new RegExp(`^[A-Z]{3}\\d{${minDigits},${maxDigits}}$`),
+    description: `3 letters + ${digits} digits`,
+    example: "XYZ123456789",
+    letterPrefixLength: 3,
+    diagnose: (normalized) => {
+      if (new RegExp(`^\\d{${minDigits},${maxDigits}}$`).test(normalized)) {
+        return "Include the 3-letter prefix shown before your member ID on your card";
+      }
+      if (/^[A-Z]{1,2}\d+$/.test(normalized) || /^[A-Z]{4,}\d+$/.test(normalized)) {
+        return "The prefix on Blue Cross Blue Shield IDs is exactly 3 letters";
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Medicare Beneficiary Identifier (MBI) rule
+ */
+const MEDICARE_RULE: MemberIdRule = {
+  pattern: MBI_PATTERN,
+  description: "an 11-character Medicare Beneficiary Identifier",
+  example: "1EG4TE5MK73",
+  diagnose: (normalized) => {
+    if (normalized.length !== 11) {
+      return "Medicare Beneficiary Identifiers are 11 characters";
+    }
+    if (/[SLOIBZ]/.test(normalized)) {
+      return "Medicare Beneficiary Identifiers never use the letters S, L, O, I, B or Z";
+    }
+    if (!/^[1-9]/.test(normalized)) {
+      return "Medicare Beneficiary Identifiers start with a number from 1 to 9";
+    }
+    return null;
+  },
+};
+
+/**
+ * TRICARE DoD Benefits Number (DBN) rule
+ */
+const TRICARE_RULE: MemberIdRule = {
+  pattern: /^\d{11}$/,
+  description: "an 11-digit DoD Benefits Number",
+  example: "12345678901",
+  letterPrefixLength: 0,
+  diagnose: (normalized) =>
+    /^\d{10}$/.test(normalized)
+      ? "That looks like a 10-digit DoD ID. Enter the 11-digit DoD Benefits Number from your card"
+      : null,
+};
+
+/**
+ * Member ID rules keyed by carrier ID
+ *
+ * Formats match the idFormat hints in INSURANCE_CARRIERS.
+ */
+export const MEMBER_ID_RULES: Record<string, MemberIdRule> = {
+  aetna: letterPrefixRule("W", 9),
+  amerihealth: alphanumericRule(9, 12),
+  anthem: bluePlanRule(9, 9),
+  bcbs: bluePlanRule(9, 12),
+  carefirst: alphanumericRule(9, 12),
+  cencal: alphanumericRule(9, 12),
+  centene: alphanumericRule(10, 12),
+  cigna: letterPrefixRule("U", 8),
+  coventry: alphanumericRule(9, 12),
+  emblem: alphanumericRule(9, 11),
+  geisinger: digitsRule(9, 12),
+  hap: digitsRule(9, 10),
+  healthnet: alphanumericRule(9, 12),
+  highmark: bluePlanRule(9, 9),
+  humana: letterPrefixRule("H", 8),
+  independence: bluePlanRule(9, 9),
+  kaiser: digitsRule(8, 10),
+  medicare: MEDICARE_RULE,
+  molina: alphanumericRule(9, 12),
+  oscar: alphanumericRule(9, 12),
+  premera: bluePlanRule(9, 9),
+  regence: bluePlanRule(9, 9),
+  tricare: TRICARE_RULE,
+  united: alphanumericRule(9, 11),
+  wellcare: alphanumericRule(9, 12),
+};
+
+/**
+ * Gets the member ID rule for a carrier
+ *
+ * @param carrierId - Carrier ID from INSURANCE_CARRIERS
+ * @returns Rule, or undefined for carriers without a fixed format
+ */
+export function getMemberIdRule(carrierId?: string): MemberIdRule | undefined {
+  return carrierId ? MEMBER_ID_RULES[carrierId] : undefined;
+}
+
+/**
+ * Fixes OCR misreads where the carrier format says letters or digits
+ */
+function fixOcrMisreads(value: string, rule: MemberIdRule): string {
+  const prefixLength = rule.letterPrefixLength;
+  if (prefixLength === undefined || rule.pattern.test(value)) return value;
+
+  const prefix = value
+    .slice(0, prefixLength)
+    .replace(/\d/g, (char) => DIGIT_TO_LETTER[char] ?? char);
+  const rest = value
+    .slice(prefixLength)
+    .replace(/[A-Z]/g, (char) => LETTER_TO_DIGIT[char] ?? char);
+  const fixed = prefix + rest;
+
+  return rule.pattern.test(fixed) ? fixed : value;
+}
+
+/**
+ * Normalizes a member ID for a carrier
+ *
+ * Always trims, removes whitespace and uppercases. For carriers with a
+ * fixed format, hyphens are removed and OCR misreads (O for 0, I for 1)
+ * are fixed when that makes the ID match the format.
+ *
+ * @param memberId - Member ID as typed or extracted by OCR
+ * @param carrierId - Carrier ID from INSURANCE_CARRIERS
+ * @returns Normalized member ID
+ *
+ * @example
+ * normalizeMemberId("xyz 1234 5678 9", "bcbs")  // "XYZ123456789"
+ * normalizeMemberId("1EG4-TE5-MK73", "medicare") // "1EG4TE5MK73"
+ * normalizeMemberId("W12345678O", "aetna")      // "W123456780"
+ */
+export function normalizeMemberId(memberId: string, carrierId?: string): string {
+  const compact = memberId.replace(/\s+/g, "").toUpperCase();
+  const rule = getMemberIdRule(carrierId);
+  if (!rule) return compact;
+
+  return fixOcrMisreads(compact.replace(/-/g, ""), rule);
+}
+
+/**
+ * Validates a member ID against the carrier's format
+ *
+ * @param memberId - Member ID as typed or extracted by OCR
+ * @param carrierId - Carrier ID from INSURANCE_CARRIERS
+ * @returns Normalized ID, validity and a specific error message
+ *
+ * @example
+ * validateMemberId("12345678", "aetna")
+ * // { normalized: "12345678", isValid: false,
+ * //   error: "Aetna member IDs are W followed by 9 digits (e.g. W123456789)" }
+ */
+export function validateMemberId(memberId: string, carrierId?: string): MemberIdValidation {
+  const normalized = normalizeMemberId(memberId, carrierId);
+  if (!normalized) {
+    return { normalized, isValid: false, error: null };
+  }
+
+  const rule = getMemberIdRule(carrierId);
+  if (!rule) {
+    const isValid = GENERIC_MEMBER_ID_PATTERN.test(normalized);
+    return {
+      normalized,
+      isValid,
+      error: isValid ? null : "Member ID must be 5-30 letters, numbers, or hyphens",
+    };
+  }
+
+  if (rule.pattern.test(normalized)) {
+    return { normalized, isValid: true, error: null };
+  }
+
+  const carrierName = getCarrierById(carrierId ?? "")?.name ?? "Your carrier's";
+  return {
+    normalized,
+    isValid: false,
+    error:
+      rule.diagnose?.(normalized) ??
+      `${carrierName} member IDs are ${rule.description} (e.g. ${rule.example})`,
+  };
+}
@@ -10,6 +10,7 @@
  * - Accessibility attributes (role="log", aria-live="polite")
  * - Empty state handling
  * - Integration with MessageInput and QuickReplyChips
+ * - Streaming replies (stop button, interrupted reply retry)
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, waitFor, fireEvent } from "@testing-library/react";
@@ -301,6 +302,41 @@ describe("ChatWindow", () => {
 
       expect(screen.queryByLabelText(/AI is typing/i)).not.toBeInTheDocument();
     });
+
+    it("hides typing indicator once reply text is streaming", () => {
+      render(<ChatWindow {...defaultProps} isAiResponding={true} isStreaming={true} />);
+
+      expect(screen.queryByLabelText(/AI is typing/i)).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Streaming Replies", () => {
+    it("shows a stop button while the AI is responding", () => {
+      const onCancel = vi.fn();
+      render(<ChatWindow {...defaultProps} isAiResponding={true} onCancel={onCancel} />);
+
+      fireEvent.click(screen.getByRole("button", { name: /stop responding/i }));
+      expect(onCancel).toHaveBeenCalledTimes(1);
+    });
+
+    it("offers a retry on an interrupted last reply", () => {
+      const onRetry = vi.fn();
+      const messages: Message[] = [
+        ...mockMessages,
+        {
+          id: "4",
+          sender: "AI",
+          content: "That sounds",
+          timestamp: new Date().toISOString(),
+          status: "interrupted",
+        },
+      ];
+      render(<ChatWindow {...defaultProps} messages={messages} onRetry={onRetry} />);
+
+      expect(screen.getByText(/reply interrupted/i)).toBeInTheDocument();
+      fireEvent.click(screen.getByRole("button", { name: /try again/i }));
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("Quick Reply Chips", () => {
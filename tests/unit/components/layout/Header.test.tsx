@@ -5,6 +5,7 @@
  * - Logo renders at correct height
  * - Save & Exit button renders and callback fires
  * - Button can be hidden via prop
+ * - Talk to a person button renders only with a callback
  */
 import { describe, it, expect, vi } from "vitest";
 import { render, screen, fireEvent } from "@testing-library/react";
@@ -51,6 +52,23 @@ describe("Header", () => {
     expect(button).not.toBeInTheDocument();
   });
 
+  it("renders Talk to a person button when onTalkToHuman is provided", () => {
+    const handleTalkToHuman = vi.fn();
+    render(<Header onTalkToHuman={handleTalkToHuman} />);
+
+    const button = screen.getByRole("button", { name: /talk to a person/i });
+    fireEvent.click(button);
+
+    expect(handleTalkToHuman).toHaveBeenCalledTimes(1);
+  });
+
+  it("hides Talk to a person button without a callback", () => {
+    render(<Header />);
+
+    const button = screen.queryByRole("button", { name: /talk to a person/i });
+    expect(button).not.toBeInTheDocument();
+  });
+
   it("applies custom className to header element", () => {
     render(<Header className="custom-class" />);
 
@@ -6,9 +6,10 @@
  * - Session URL display and copy functionality
  * - Email reminder input and validation
  * - Send reminder mutation integration
+ * - Start over confirmation
  * - Accessibility and keyboard navigation
  */
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { SaveExitModal } from "@/components/layout/SaveExitModal";
@@ -35,6 +36,10 @@ describe("SaveExitModal", () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   describe("Rendering", () => {
     it("renders modal when isOpen is true", () => {
       render(<SaveExitModal {...defaultProps} />);
@@ -230,6 +235,41 @@ describe("SaveExitModal", () => {
     });
   });
 
+  describe("Start Over", () => {
+    it("is hidden without an onStartOver handler", () => {
+      render(<SaveExitModal {...defaultProps} />);
+
+      expect(screen.queryByRole("button", { name: /start over/i })).not.toBeInTheDocument();
+    });
+
+    it("asks for confirmation before starting over", async () => {
+      const user = userEvent.setup();
+      const onStartOver = vi.fn();
+      render(<SaveExitModal {...defaultProps} onStartOver={onStartOver} />);
+
+      await user.click(screen.getByRole("button", { name: /start over and clear this device/i }));
+      expect(onStartOver).not.toHaveBeenCalled();
+      expect(screen.getByText(/removes your answers from this device/i)).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: /clear and start over/i }));
+      expect(onStartOver).toHaveBeenCalledTimes(1);
+    });
+
+    it("can keep progress instead", async () => {
+      const user = userEvent.setup();
+      const onStartOver = vi.fn();
+      render(<SaveExitModal {...defaultProps} onStartOver={onStartOver} />);
+
+      await user.click(screen.getByRole("button", { name: /start over and clear this device/i }));
+      await user.click(screen.getByRole("button", { name: /keep my progress/i }));
+
+      expect(onStartOver).not.toHaveBeenCalled();
+      expect(
+        screen.getByRole("button", { name: /start over and clear this device/i })
+      ).toBeInTheDocument();
+    });
+  });
+
   describe("Accessibility", () => {
     it("has correct ARIA attributes", () => {
       render(<SaveExitModal {...defaultProps} />);
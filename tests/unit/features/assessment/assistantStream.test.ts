@@ -0,0 +1,166 @@
+/**
+ * Unit tests for assistant reply streaming
+ *
+ * Tests cover:
+ * - Mock stream delivers cumulative chunks and the final message
+ * - Cancel and mid-reply drops reject the stream
+ * - Subscription transport forwards assistant messages only
+ * - Partial reply persistence round trip
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ApolloClient } from "@apollo/client";
+import {
+  createMockStreamTransport,
+  createSubscriptionStreamTransport,
+  savePartialReply,
+  loadPartialReply,
+  clearPartialReply,
+  type AssistantStreamChunk,
+} from "@/features/assessment/assistantStream";
+
+describe("createMockStreamTransport", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("streams cumulative chunks and resolves with the full reply", async () => {
+    const transport = createMockStreamTransport({
+      reply: "Thanks for sharing that.",
+      messageId: "msg_a",
+      assessmentComplete: true,
+    });
+    const chunks: AssistantStreamChunk[] = [];
+
+    const promise = transport({
+      sessionId: "sess_1",
+      content: "Hi",
+      signal: new AbortController().signal,
+      onChunk: (chunk) => chunks.push(chunk),
+    });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(chunks.map((c) => c.content)).toEqual([
+      "Thanks ",
+      "Thanks for ",
+      "Thanks for sharing ",
+      "Thanks for sharing that.",
+    ]);
+    expect(chunks.every((c) => c.messageId === "msg_a")).toBe(true);
+    expect(result.message?.content).toBe("Thanks for sharing that.");
+    expect(result.assessmentComplete).toBe(true);
+  });
+
+  it("rejects with an AbortError when cancelled", async () => {
+    const transport = createMockStreamTransport({ reply: "One two three" });
+    const controller = new AbortController();
+    const onChunk = vi.fn();
+
+    const promise = transport({
+      sessionId: "sess_1",
+      content: "Hi",
+      signal: controller.signal,
+      onChunk,
+    });
+    const assertion = expect(promise).rejects.toMatchObject({ name: "AbortError" });
+
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await assertion;
+
+    await vi.runAllTimersAsync();
+    expect(onChunk).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects after the configured number of chunks when the stream drops", async () => {
+    const transport = createMockStreamTransport({
+      reply: "One two three four",
+      dropAfterChunks: 2,
+    });
+    const onChunk = vi.fn();
+
+    const promise = transport({
+      sessionId: "sess_1",
+      content: "Hi",
+      signal: new AbortController().signal,
+      onChunk,
+    });
+    const assertion = expect(promise).rejects.toThrow("reply stream dropped");
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(onChunk).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createSubscriptionStreamTransport", () => {
+  it("forwards assistant messages and resolves with the mutation result", async () => {
+    const unsubscribe = vi.fn();
+    let next: ((value: { data: unknown }) => void) | undefined;
+
+    const client = {
+      subscribe: () => ({
+        subscribe: (observer: { next: (value: { data: unknown }) => void }) => {
+          next = observer.next;
+          return { unsubscribe };
+        },
+      }),
+      mutate: vi.fn(async () => {
+        next?.({
+          data: { messageReceived: { id: "msg_u", role: "user", content: "Hi", createdAt: "" } },
+        });
+        next?.({
+          data: { messageReceived: { id: "msg_b", role: "assistant", content: "Hel", createdAt: "" } },
+        });
+        return {
+          data: {
+            sendMessage: {
+              userMessage: null,
+              assistantMessage: { id: "msg_b", role: "assistant", content: "Hello", createdAt: "" },
+              assessmentComplete: false,
+              errors: [],
+            },
+          },
+        };
+      }),
+    } as unknown as ApolloClient;
+
+    const onChunk = vi.fn();
+    const result = await createSubscriptionStreamTransport(client)({
+      sessionId: "sess_1",
+      content: "Hi",
+      signal: new AbortController().signal,
+      onChunk,
+    });
+
+    expect(onChunk).toHaveBeenCalledTimes(1);
+    expect(onChunk).toHaveBeenCalledWith({ messageId: "msg_b", content: "Hel" });
+    expect(result.message?.content).toBe("Hello");
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
+
+describe("partial reply persistence", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("saves, loads and clears the partial reply", () => {
+    const reply = { id: "msg_c", content: "Partial", timestamp: "2026-01-05T10:00:00Z" };
+
+    savePartialReply("sess_1", reply);
+    expect(loadPartialReply("sess_1")).toEqual(reply);
+
+    clearPartialReply("sess_1");
+    expect(loadPartialReply("sess_1")).toBeNull();
+  });
+
+  it("ignores malformed stored data", () => {
+    localStorage.setItem("assistant_partial_sess_1", JSON.stringify({ id: 1 }));
+    expect(loadPartialReply("sess_1")).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the ScreeningQuestionnaire component.
+ *
+ * Tests:
+ * - Age prompt when the session has no child age
+ * - Renders the resume item with the 0-3 Likert scale
+ * - Submits the selected value
+ * - Per-instrument progress and completion state
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { ScreeningQuestionnaire } from "@/features/assessment/questionnaire/components/ScreeningQuestionnaire";
+import type { UseScreeningQuestionnaireResult } from "@/features/assessment/questionnaire/hooks/useScreeningQuestionnaire";
+
+const mockSubmitAnswer = vi.fn();
+const mockUseScreeningQuestionnaire = vi.fn();
+
+vi.mock(
+  "@/features/assessment/questionnaire/hooks/useScreeningQuestionnaire",
+  () => ({
+    useScreeningQuestionnaire: (sessionId: string, age?: number | null) =>
+      mockUseScreeningQuestionnaire(sessionId, age),
+  })
+);
+
+const questions = [
+  { __typename: "AssessmentQuestion" as const, id: "phq_a_1", instrument: "PHQ-A", item: 1, domain: "anhedonia", text: "Little interest or pleasure in doing things" },
+  { __typename: "AssessmentQuestion" as const, id: "phq_a_2", instrument: "PHQ-A", item: 2, domain: "depressed", text: "Feeling down, depressed, or hopeless" },
+  { __typename: "AssessmentQuestion" as const, id: "gad_7_1", instrument: "GAD-7", item: 1, domain: "anxious", text: "Feeling nervous, anxious, or on edge" },
+];
+
+function buildResult(
+  overrides: Partial<UseScreeningQuestionnaireResult> = {}
+): UseScreeningQuestionnaireResult {
+  return {
+    childAge: 14,
+    questions,
+    currentQuestion: questions[1],
+    instruments: [
+      { key: "phq_a", label: "PHQ-A", description: "Mood", answered: 1, total: 2, complete: false, active: true },
+      { key: "gad_7", label: "GAD-7", description: "Worry & anxiety", answered: 0, total: 1, complete: false, active: false },
+    ],
+    percentage: 33,
+    isComplete: false,
+    riskFlags: [],
+    loading: false,
+    error: undefined,
+    submitAnswer: mockSubmitAnswer,
+    isSubmitting: false,
+    submitError: null,
+    ...overrides,
+  };
+}
+
+describe("ScreeningQuestionnaire", () => {
+  beforeEach(() => {
+    mockSubmitAnswer.mockReset().mockResolvedValue(undefined);
+    mockUseScreeningQuestionnaire.mockReset().mockReturnValue(buildResult());
+  });
+
+  it("asks for the child's age when the session has none", () => {
+    mockUseScreeningQuestionnaire.mockReturnValue(
+      buildResult({ childAge: null, questions: [], currentQuestion: null })
+    );
+    render(<ScreeningQuestionnaire sessionId="sess_1" onComplete={vi.fn()} />);
+
+    expect(screen.getByText(/how old is your child/i)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "12" }));
+
+    expect(mockUseScreeningQuestionnaire).toHaveBeenLastCalledWith("sess_1", 12);
+  });
+
+  it("renders the resume item with the standard Likert scale", () => {
+    render(<ScreeningQuestionnaire sessionId="sess_1" onComplete={vi.fn()} />);
+
+    expect(screen.getByText("Feeling down, depressed, or hopeless")).toBeInTheDocument();
+    expect(screen.getByText(/PHQ-A · Question 2 of 2/)).toBeInTheDocument();
+    expect(screen.getAllByRole("radio")).toHaveLength(4);
+    expect(screen.getByRole("radio", { name: /nearly every day/i })).toBeInTheDocument();
+  });
+
+  it("submits the selected Likert value", async () => {
+    render(<ScreeningQuestionnaire sessionId="sess_1" onComplete={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole("radio", { name: /more than half the days/i }));
+
+    await waitFor(() => expect(mockSubmitAnswer).toHaveBeenCalledWith(2));
+  });
+
+  it("shows per-instrument progress", () => {
+    render(<ScreeningQuestionnaire sessionId="sess_1" onComplete={vi.fn()} />);
+
+    expect(screen.getByLabelText("PHQ-A progress")).toHaveAttribute("aria-valuenow", "50");
+    expect(screen.getByLabelText("GAD-7 progress")).toHaveAttribute("aria-valuenow", "0");
+  });
+
+  it("shows save errors", () => {
+    mockUseScreeningQuestionnaire.mockReturnValue(
+      buildResult({ submitError: new Error("Unable to save your answer") })
+    );
+    render(<ScreeningQuestionnaire sessionId="sess_1" onComplete={vi.fn()} />);
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/unable to save your answer/i);
+  });
+
+  it("shows completion and continues", () => {
+    const onComplete = vi.fn();
+    mockUseScreeningQuestionnaire.mockReturnValue(
+      buildResult({ isComplete: true, currentQuestion: null })
+    );
+    render(<ScreeningQuestionnaire sessionId="sess_1" onComplete={onComplete} />);
+
+    expect(screen.getByRole("status")).toHaveTextContent(/questionnaire complete/i);
+    fireEvent.click(screen.getByRole("button", { name: /continue/i }));
+    expect(onComplete).toHaveBeenCalled();
+  });
+});
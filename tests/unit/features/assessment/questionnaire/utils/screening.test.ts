@@ -0,0 +1,85 @@
+/**
+ * Unit tests for standardized screening helpers.
+ *
+ * Tests:
+ * - Instrument name normalization
+ * - Likert labels
+ * - Per-instrument progress from the resume point
+ */
+import { describe, it, expect } from "vitest";
+import {
+  getInstrumentProgress,
+  getLikertLabel,
+  toInstrumentKey,
+} from "@/features/assessment/questionnaire/utils/screening";
+
+const questions = [
+  ...Array.from({ length: 9 }, (_, i) => ({
+    id: `phq_a_${i + 1}`,
+    instrument: "PHQ-A",
+  })),
+  ...Array.from({ length: 7 }, (_, i) => ({
+    id: `gad_7_${i + 1}`,
+    instrument: "GAD-7",
+  })),
+];
+
+describe("toInstrumentKey", () => {
+  it("normalizes display names and keys", () => {
+    expect(toInstrumentKey("PHQ-A")).toBe("phq_a");
+    expect(toInstrumentKey("gad_7")).toBe("gad_7");
+    expect(toInstrumentKey("GAD-7")).toBe("gad_7");
+  });
+
+  it("returns null for unknown or missing instruments", () => {
+    expect(toInstrumentKey("pcl_5")).toBeNull();
+    expect(toInstrumentKey(null)).toBeNull();
+  });
+});
+
+describe("getLikertLabel", () => {
+  it("maps 0-3 to the standard response labels", () => {
+    expect(getLikertLabel(0)).toBe("Not at all");
+    expect(getLikertLabel(1)).toBe("Several days");
+    expect(getLikertLabel(2)).toBe("More than half the days");
+    expect(getLikertLabel(3)).toBe("Nearly every day");
+  });
+});
+
+describe("getInstrumentProgress", () => {
+  const incomplete = { phqAComplete: false, gad7Complete: false };
+
+  it("starts both instruments at zero", () => {
+    const [phq, gad] = getInstrumentProgress(questions, "phq_a_1", incomplete);
+
+    expect(phq).toMatchObject({ key: "phq_a", answered: 0, total: 9, active: true });
+    expect(gad).toMatchObject({ key: "gad_7", answered: 0, total: 7, active: false });
+  });
+
+  it("counts items before the resume point within each instrument", () => {
+    const [phq, gad] = getInstrumentProgress(questions, "gad_7_3", {
+      phqAComplete: true,
+      gad7Complete: false,
+    });
+
+    expect(phq).toMatchObject({ answered: 9, complete: true, active: false });
+    expect(gad).toMatchObject({ answered: 2, complete: false, active: true });
+  });
+
+  it("trusts backend completion flags over the resume point", () => {
+    const [phq, gad] = getInstrumentProgress(questions, null, {
+      phqAComplete: true,
+      gad7Complete: true,
+    });
+
+    expect(phq.answered).toBe(9);
+    expect(gad.answered).toBe(7);
+  });
+
+  it("falls back to standard item counts before items load", () => {
+    const [phq, gad] = getInstrumentProgress([], null, incomplete);
+
+    expect(phq.total).toBe(9);
+    expect(gad.total).toBe(7);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for useAssessmentChat reply streaming
+ *
+ * Tests cover:
+ * - Streamed text appears before the reply completes
+ * - Cancel keeps the partial reply marked as stopped
+ * - Mid-reply drops keep the partial reply marked as interrupted
+ * - Leaving the chat mid-reply keeps the partial reply for restoring
+ * - Partial replies left by a closed tab are restored as interrupted
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useAssessmentChat } from "@/features/assessment/useAssessmentChat";
+import {
+  createMockStreamTransport,
+  loadPartialReply,
+} from "@/features/assessment/assistantStream";
+
+vi.mock("@apollo/client/react", () => ({
+  useApolloClient: () => ({}),
+}));
+
+vi.mock("@/types/graphql", () => ({
+  useCompleteAssessmentMutation: () => [vi.fn()],
+}));
+
+vi.mock("@/hooks/useAutoSave", () => ({
+  useAutoSave: () => ({ save: vi.fn(), saveStatus: "idle", retry: vi.fn() }),
+}));
+
+vi.mock("@/hooks/useOnboardingSession", () => ({
+  useOnboardingSession: () => ({
+    session: { id: "sess_1", status: "in-progress", child: { firstName: "Sam" } },
+    isReturningUser: false,
+  }),
+}));
+
+vi.mock("@/features/assessment/useSuggestedReplies", () => ({
+  useSuggestedReplies: () => ({
+    suggestions: [],
+    isLoading: false,
+    fetchSuggestions: vi.fn(),
+    clearSuggestions: vi.fn(),
+    setSuggestions: vi.fn(),
+  }),
+}));
+
+const REPLY = "That sounds really hard for your family.";
+
+describe("useAssessmentChat streaming", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("shows streamed text before the reply completes", async () => {
+    const transport = createMockStreamTransport({ reply: REPLY, messageId: "msg_ai" });
+    const { result } = renderHook(() => useAssessmentChat("sess_1", { transport }));
+
+    let sending: Promise<void> = Promise.resolve();
+    act(() => {
+      sending = result.current.sendMessage("She won't go to school");
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+
+    const streaming = result.current.messages.find((m) => m.id === "msg_ai");
+    expect(streaming?.status).toBe("streaming");
+    expect(streaming?.content).toBe("That sounds ");
+    expect(result.current.isStreaming).toBe(true);
+    expect(result.current.isAiResponding).toBe(true);
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+      await sending;
+    });
+
+    const final = result.current.messages.filter((m) => m.id === "msg_ai");
+    expect(final).toHaveLength(1);
+    expect(final[0].content).toBe(REPLY);
+    expect(final[0].status).toBeUndefined();
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.isAiResponding).toBe(false);
+    expect(localStorage.getItem("assistant_partial_sess_1")).toBeNull();
+  });
+
+  it("keeps the partial reply as stopped when cancelled", async () => {
+    const transport = createMockStreamTransport({ reply: REPLY, messageId: "msg_ai" });
+    const { result } = renderHook(() => useAssessmentChat("sess_1", { transport }));
+
+    act(() => {
+      void result.current.sendMessage("Hello");
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    act(() => {
+      result.current.cancelResponse();
+    });
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    const stopped = result.current.messages.find((m) => m.id === "msg_ai");
+    expect(stopped?.status).toBe("stopped");
+    expect(stopped?.content).toBe("That sounds ");
+    expect(result.current.isAiResponding).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("marks the partial reply as interrupted when the stream drops", async () => {
+    const transport = createMockStreamTransport({
+      reply: REPLY,
+      messageId: "msg_ai",
+      dropAfterChunks: 3,
+    });
+    const { result } = renderHook(() => useAssessmentChat("sess_1", { transport }));
+
+    await act(async () => {
+      const sending = result.current.sendMessage("Hello");
+      await vi.runAllTimersAsync();
+      await sending;
+    });
+
+    const interrupted = result.current.messages.find((m) => m.id === "msg_ai");
+    expect(interrupted?.status).toBe("interrupted");
+    expect(interrupted?.content).toBe("That sounds really ");
+    expect(result.current.error?.message).toContain("reply stream dropped");
+    expect(result.current.isAiResponding).toBe(false);
+  });
+
+  it("keeps the partial reply when the chat unmounts mid-reply", async () => {
+    const transport = createMockStreamTransport({ reply: REPLY, messageId: "msg_ai" });
+    const { result, unmount } = renderHook(() => useAssessmentChat("sess_1", { transport }));
+
+    act(() => {
+      void result.current.sendMessage("Hello");
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+
+    unmount();
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(loadPartialReply("sess_1")).toMatchObject({ id: "msg_ai", content: "That sounds " });
+  });
+
+  it("restores a reply left mid-stream as interrupted", () => {
+    localStorage.setItem(
+      "onboarding_session_sess_1",
+      JSON.stringify({
+        data: {
+          messages: [
+            { id: "msg_user", sender: "USER", content: "Hello", timestamp: "2026-01-05T10:00:00Z" },
+          ],
+        },
+      })
+    );
+    localStorage.setItem(
+      "assistant_partial_sess_1",
+      JSON.stringify({ id: "msg_ai", content: "That sounds", timestamp: "2026-01-05T10:00:01Z" })
+    );
+
+    const { result } = renderHook(() =>
+      useAssessmentChat("sess_1", {
+        transport: createMockStreamTransport({ reply: REPLY }),
+      })
+    );
+
+    const restored = result.current.messages.find((m) => m.id === "msg_ai");
+    expect(restored).toMatchObject({ sender: "AI", content: "That sounds", status: "interrupted" });
+    expect(localStorage.getItem("assistant_partial_sess_1")).toBeNull();
+  });
+});
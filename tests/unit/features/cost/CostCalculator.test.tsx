@@ -0,0 +1,171 @@
+/**
+ * CostCalculator Component Tests
+ *
+ * Test Coverage:
+ * - Itemized gross → adjustments → net breakdown
+ * - Recalculating when options change
+ * - Applying, rejecting and removing discount codes
+ * - Loading and error states
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { CostCalculator } from "@/features/cost/CostCalculator";
+import type { CalculateCostQueryVariables } from "@/types/graphql";
+
+const { mockUseCalculateCostQuery } = vi.hoisted(() => ({
+  mockUseCalculateCostQuery: vi.fn(),
+}));
+
+vi.mock("@/types/graphql", () => ({
+  useCalculateCostQuery: mockUseCalculateCostQuery,
+}));
+
+/**
+ * Fake calculateCost: $150 base, +$25 translation, PERCENTAGE_20 takes 20% off
+ */
+function calculate(variables: CalculateCostQueryVariables) {
+  const adjustments: { type: string; description: string; amount: number; percentage: number | null }[] = [];
+  let net = 150;
+
+  if (variables.specialServices?.includes("translation")) {
+    adjustments.push({ type: "special_service", description: "Translation", amount: 25, percentage: null });
+    net += 25;
+  }
+  const validCode = variables.discountCode === "PERCENTAGE_20";
+  if (validCode) {
+    adjustments.push({ type: "discount", description: "Discount", amount: -net * 0.2, percentage: 20 });
+    net *= 0.8;
+  }
+
+  return {
+    calculateCost: {
+      grossCost: 150,
+      netCost: net,
+      currency: "USD",
+      calculatedAt: "2025-03-01T12:00:00Z",
+      discountCodeInvalid: Boolean(variables.discountCode) && !validCode,
+      adjustments,
+    },
+  };
+}
+
+function respond() {
+  mockUseCalculateCostQuery.mockImplementation(({ variables }) => ({
+    data: calculate(variables),
+    previousData: undefined,
+    loading: false,
+    error: undefined,
+  }));
+}
+
+function lastVariables(): CalculateCostQueryVariables {
+  return mockUseCalculateCostQuery.mock.lastCall?.[0].variables;
+}
+
+function applyCode(code: string) {
+  fireEvent.change(screen.getByLabelText("Discount or hardship code"), { target: { value: code } });
+  fireEvent.click(screen.getByRole("button", { name: "Apply" }));
+}
+
+describe("CostCalculator", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    respond();
+  });
+
+  it("prices a 50-minute individual session by default", () => {
+    render(<CostCalculator sessionId="sess_123" />);
+
+    expect(lastVariables()).toMatchObject({
+      sessionId: "sess_123",
+      serviceType: "individual_therapy",
+      duration: 50,
+      specialServices: [],
+      discountCode: null,
+    });
+    expect(screen.getByRole("button", { name: "Individual" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByText("Base cost").nextSibling).toHaveTextContent("$150.00");
+    expect(screen.getByText("Estimated cost per session").nextSibling).toHaveTextContent("$150.00");
+  });
+
+  it("recalculates when the service type, length or add-ons change", () => {
+    render(<CostCalculator sessionId="sess_123" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Family" }));
+    fireEvent.click(screen.getByRole("button", { name: "60 min" }));
+    fireEvent.click(screen.getByRole("checkbox", { name: "Translation services" }));
+
+    expect(lastVariables()).toMatchObject({
+      serviceType: "family_therapy",
+      duration: 60,
+      specialServices: ["translation"],
+    });
+    expect(screen.getByText("Translation").nextSibling).toHaveTextContent("+$25.00");
+    expect(screen.getByText("Estimated cost per session").nextSibling).toHaveTextContent("$175.00");
+  });
+
+  it("applies a valid discount code", () => {
+    render(<CostCalculator sessionId="sess_123" />);
+
+    applyCode(" percentage_20 ");
+
+    expect(lastVariables().discountCode).toBe("PERCENTAGE_20");
+    expect(screen.getByText("Code PERCENTAGE_20 applied")).toBeInTheDocument();
+    expect(screen.getByText("Discount (20%)").nextSibling).toHaveTextContent("-$30.00");
+    expect(screen.getByText("Estimated cost per session").nextSibling).toHaveTextContent("$120.00");
+  });
+
+  it("flags an invalid code inline", () => {
+    render(<CostCalculator sessionId="sess_123" />);
+
+    applyCode("NOT_A_CODE");
+
+    const input = screen.getByLabelText("Discount or hardship code");
+    expect(input).toHaveAttribute("aria-invalid", "true");
+    expect(input).toHaveAccessibleDescription("That code isn't valid. Check it and try again.");
+    expect(screen.getByText("Estimated cost per session").nextSibling).toHaveTextContent("$150.00");
+  });
+
+  it("removes an applied code", () => {
+    render(<CostCalculator sessionId="sess_123" />);
+
+    applyCode("PERCENTAGE_20");
+    fireEvent.click(screen.getByRole("button", { name: "Remove" }));
+
+    expect(lastVariables().discountCode).toBeNull();
+    expect(screen.getByLabelText("Discount or hardship code")).toHaveValue("");
+    expect(screen.queryByText(/applied/)).not.toBeInTheDocument();
+  });
+
+  it("keeps the previous breakdown while recalculating", () => {
+    mockUseCalculateCostQuery.mockReturnValue({
+      data: undefined,
+      previousData: calculate({ sessionId: "sess_123", serviceType: "intake" }),
+      loading: true,
+      error: undefined,
+    });
+    render(<CostCalculator sessionId="sess_123" />);
+
+    expect(screen.getByLabelText("Updating estimate")).toBeInTheDocument();
+    expect(screen.getByText("Estimated cost per session").nextSibling).toHaveTextContent("$150.00");
+  });
+
+  it("shows a loading message before the first estimate", () => {
+    mockUseCalculateCostQuery.mockReturnValue({ data: undefined, loading: true, error: undefined });
+    render(<CostCalculator sessionId="sess_123" />);
+
+    expect(screen.getByRole("status")).toHaveTextContent("Calculating your estimate...");
+  });
+
+  it("shows an error when the estimate can't be calculated", () => {
+    mockUseCalculateCostQuery.mockReturnValue({
+      data: undefined,
+      loading: false,
+      error: new Error("Network error"),
+    });
+    render(<CostCalculator sessionId="sess_123" />);
+
+    expect(screen.getByRole("alert")).toHaveTextContent("We couldn't calculate this estimate");
+  });
+});
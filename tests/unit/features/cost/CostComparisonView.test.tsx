@@ -10,17 +10,18 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { CostComparisonView } from "@/features/cost/CostComparisonView";
 import type { CostEstimate, SelfPayRate } from "@/lib/validations/cost";
+import { moneyFromCents } from "@/lib/utils/money";
 
 describe("CostComparisonView", () => {
   const mockCostEstimate: CostEstimate = {
     sessionId: "session_123",
-    perSessionCost: 2500, // $25.00
+    perSessionCost: moneyFromCents(2500), // $25.00
     insuranceCoverage: {
       percentage: 80,
       amount: null,
       description: "PPO coverage",
     },
-    copay: 2500,
+    copay: moneyFromCents(2500),
     coinsurance: null,
     deductible: null,
     insuranceCarrier: "Blue Cross Blue Shield",
@@ -29,14 +30,14 @@ describe("CostComparisonView", () => {
   };
 
   const mockSelfPayRates: SelfPayRate = {
-    perSessionRate: 15000, // $150.00
+    perSessionRate: moneyFromCents(15000), // $150.00
     packages: [
       {
         id: "pkg_4",
         name: "4-Session Package",
         sessionCount: 4,
-        totalPrice: 54000,
-        pricePerSession: 13500,
+        totalPrice: moneyFromCents(54000),
+        pricePerSession: moneyFromCents(13500),
         savingsPercentage: 10,
       },
     ],
@@ -154,7 +155,7 @@ describe("CostComparisonView", () => {
     it("should highlight self-pay when it is cheaper", () => {
       const cheaperSelfPay: SelfPayRate = {
         ...mockSelfPayRates,
-        perSessionRate: 2000, // $20.00 - cheaper than $25 insurance
+        perSessionRate: moneyFromCents(2000), // $20.00 - cheaper than $25 insurance
       };
 
       render(
@@ -179,7 +180,7 @@ describe("CostComparisonView", () => {
     it("should not highlight when costs are equal", () => {
       const equalCostSelfPay: SelfPayRate = {
         ...mockSelfPayRates,
-        perSessionRate: 2500, // $25.00 - same as insurance
+        perSessionRate: moneyFromCents(2500), // $25.00 - same as insurance
       };
 
       render(
@@ -9,22 +9,23 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { CostEstimationCard } from "@/features/cost/CostEstimationCard";
 import type { CostEstimate } from "@/lib/validations/cost";
+import { moneyFromCents } from "@/lib/utils/money";
 
 describe("CostEstimationCard", () => {
   const mockCostEstimate: CostEstimate = {
     sessionId: "session_123",
-    perSessionCost: 2500, // $25.00
+    perSessionCost: moneyFromCents(2500), // $25.00
     insuranceCoverage: {
       percentage: 80,
       amount: null,
       description: "PPO coverage at 80%",
     },
-    copay: 2500,
+    copay: moneyFromCents(2500),
     coinsurance: 20,
     deductible: {
-      total: 150000, // $1,500.00
-      met: 50000, // $500.00
-      remaining: 100000, // $1,000.00
+      total: moneyFromCents(150000), // $1,500.00
+      met: moneyFromCents(50000), // $500.00
+      remaining: moneyFromCents(100000), // $1,000.00
     },
     insuranceCarrier: "Blue Cross Blue Shield",
     disclaimer: "Final cost may vary based on your specific plan",
@@ -307,7 +308,7 @@ describe("CostEstimationCard", () => {
             ...mockCostEstimate,
             insuranceCoverage: {
               percentage: null,
-              amount: 12000, // $120.00
+              amount: moneyFromCents(12000), // $120.00
               description: "Fixed coverage amount",
             },
           }}
@@ -326,7 +327,7 @@ describe("CostEstimationCard", () => {
             ...mockCostEstimate,
             insuranceCoverage: {
               percentage: 80,
-              amount: 12000,
+              amount: moneyFromCents(12000),
               description: "Coverage details",
             },
           }}
@@ -360,7 +361,7 @@ describe("CostEstimationCard", () => {
           {...defaultProps}
           costEstimate={{
             ...mockCostEstimate,
-            perSessionCost: 0,
+            perSessionCost: moneyFromCents(0),
           }}
         />
       );
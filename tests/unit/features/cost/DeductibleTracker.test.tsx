@@ -16,14 +16,15 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { DeductibleTracker } from "@/features/cost/DeductibleTracker";
 import type { DeductibleInfo } from "@/lib/validations/cost";
+import { moneyFromCents } from "@/lib/utils/money";
 
 describe("DeductibleTracker", () => {
   describe("with available data", () => {
     it("renders deductible information with partial progress", () => {
       const deductibleInfo: DeductibleInfo = {
-        total: 150000, // $1,500
-        met: 50000, // $500
-        remaining: 100000, // $1,000
+        total: moneyFromCents(150000), // $1,500
+        met: moneyFromCents(50000), // $500
+        remaining: moneyFromCents(100000), // $1,000
       };
 
       render(
@@ -54,9 +55,9 @@ describe("DeductibleTracker", () => {
 
     it("renders completed deductible state (100%)", () => {
       const deductibleInfo: DeductibleInfo = {
-        total: 150000, // $1,500
-        met: 150000, // $1,500
-        remaining: 0, // $0
+        total: moneyFromCents(150000), // $1,500
+        met: moneyFromCents(150000), // $1,500
+        remaining: moneyFromCents(0), // $0
       };
 
       render(
@@ -81,7 +82,7 @@ describe("DeductibleTracker", () => {
       // 0% progress
       const { rerender } = render(
         <DeductibleTracker
-          deductibleInfo={{ total: 100000, met: 0, remaining: 100000 }}
+          deductibleInfo={{ total: moneyFromCents(100000), met: moneyFromCents(0), remaining: moneyFromCents(100000) }}
           isAvailable={true}
         />
       );
@@ -90,7 +91,7 @@ describe("DeductibleTracker", () => {
       // 50% progress
       rerender(
         <DeductibleTracker
-          deductibleInfo={{ total: 100000, met: 50000, remaining: 50000 }}
+          deductibleInfo={{ total: moneyFromCents(100000), met: moneyFromCents(50000), remaining: moneyFromCents(50000) }}
           isAvailable={true}
         />
       );
@@ -99,7 +100,7 @@ describe("DeductibleTracker", () => {
       // 75% progress
       rerender(
         <DeductibleTracker
-          deductibleInfo={{ total: 100000, met: 75000, remaining: 25000 }}
+          deductibleInfo={{ total: moneyFromCents(100000), met: moneyFromCents(75000), remaining: moneyFromCents(25000) }}
           isAvailable={true}
         />
       );
@@ -108,7 +109,7 @@ describe("DeductibleTracker", () => {
       // 100% progress
       rerender(
         <DeductibleTracker
-          deductibleInfo={{ total: 100000, met: 100000, remaining: 0 }}
+          deductibleInfo={{ total: moneyFromCents(100000), met: moneyFromCents(100000), remaining: moneyFromCents(0) }}
           isAvailable={true}
         />
       );
@@ -117,9 +118,9 @@ describe("DeductibleTracker", () => {
 
     it("displays progress bar with correct ARIA attributes", () => {
       const deductibleInfo: DeductibleInfo = {
-        total: 150000,
-        met: 50000,
-        remaining: 100000,
+        total: moneyFromCents(150000),
+        met: moneyFromCents(50000),
+        remaining: moneyFromCents(100000),
       };
 
       render(
@@ -216,9 +217,9 @@ describe("DeductibleTracker", () => {
   describe("edge cases", () => {
     it("handles zero deductible total", () => {
       const deductibleInfo: DeductibleInfo = {
-        total: 0,
-        met: 0,
-        remaining: 0,
+        total: moneyFromCents(0),
+        met: moneyFromCents(0),
+        remaining: moneyFromCents(0),
       };
 
       render(
@@ -236,9 +237,9 @@ describe("DeductibleTracker", () => {
 
     it("handles met exceeding total (edge case)", () => {
       const deductibleInfo: DeductibleInfo = {
-        total: 100000,
-        met: 120000, // Met exceeds total
-        remaining: 0,
+        total: moneyFromCents(100000),
+        met: moneyFromCents(120000), // Met exceeds total
+        remaining: moneyFromCents(0),
       };
 
       render(
@@ -254,9 +255,9 @@ describe("DeductibleTracker", () => {
 
     it("applies custom className", () => {
       const deductibleInfo: DeductibleInfo = {
-        total: 150000,
-        met: 50000,
-        remaining: 100000,
+        total: moneyFromCents(150000),
+        met: moneyFromCents(50000),
+        remaining: moneyFromCents(100000),
       };
 
       const { container } = render(
@@ -275,9 +276,9 @@ describe("DeductibleTracker", () => {
   describe("accessibility", () => {
     it("has proper semantic structure", () => {
       const deductibleInfo: DeductibleInfo = {
-        total: 150000,
-        met: 50000,
-        remaining: 100000,
+        total: moneyFromCents(150000),
+        met: moneyFromCents(50000),
+        remaining: moneyFromCents(100000),
       };
 
       const { container } = render(
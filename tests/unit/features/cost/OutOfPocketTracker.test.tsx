@@ -17,14 +17,15 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { OutOfPocketTracker } from "@/features/cost/OutOfPocketTracker";
 import type { OutOfPocketInfo } from "@/lib/validations/cost";
+import { moneyFromCents } from "@/lib/utils/money";
 
 describe("OutOfPocketTracker", () => {
   describe("with available data", () => {
     it("renders out-of-pocket information with partial progress", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000, // $5,000
-        met: 200000, // $2,000
-        remaining: 300000, // $3,000
+        max: moneyFromCents(500000), // $5,000
+        met: moneyFromCents(200000), // $2,000
+        remaining: moneyFromCents(300000), // $3,000
       };
 
       render(
@@ -57,9 +58,9 @@ describe("OutOfPocketTracker", () => {
 
     it("renders max reached state with indicator - AC-6.3.5", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000, // $5,000
-        met: 500000, // $5,000
-        remaining: 0, // $0
+        max: moneyFromCents(500000), // $5,000
+        met: moneyFromCents(500000), // $5,000
+        remaining: moneyFromCents(0), // $0
       };
 
       render(
@@ -87,7 +88,7 @@ describe("OutOfPocketTracker", () => {
       // 0% progress
       const { rerender } = render(
         <OutOfPocketTracker
-          outOfPocketInfo={{ max: 500000, met: 0, remaining: 500000 }}
+          outOfPocketInfo={{ max: moneyFromCents(500000), met: moneyFromCents(0), remaining: moneyFromCents(500000) }}
           isAvailable={true}
         />
       );
@@ -96,7 +97,7 @@ describe("OutOfPocketTracker", () => {
       // 25% progress
       rerender(
         <OutOfPocketTracker
-          outOfPocketInfo={{ max: 500000, met: 125000, remaining: 375000 }}
+          outOfPocketInfo={{ max: moneyFromCents(500000), met: moneyFromCents(125000), remaining: moneyFromCents(375000) }}
           isAvailable={true}
         />
       );
@@ -105,7 +106,7 @@ describe("OutOfPocketTracker", () => {
       // 50% progress
       rerender(
         <OutOfPocketTracker
-          outOfPocketInfo={{ max: 500000, met: 250000, remaining: 250000 }}
+          outOfPocketInfo={{ max: moneyFromCents(500000), met: moneyFromCents(250000), remaining: moneyFromCents(250000) }}
           isAvailable={true}
         />
       );
@@ -114,7 +115,7 @@ describe("OutOfPocketTracker", () => {
       // 100% progress
       rerender(
         <OutOfPocketTracker
-          outOfPocketInfo={{ max: 500000, met: 500000, remaining: 0 }}
+          outOfPocketInfo={{ max: moneyFromCents(500000), met: moneyFromCents(500000), remaining: moneyFromCents(0) }}
           isAvailable={true}
         />
       );
@@ -123,9 +124,9 @@ describe("OutOfPocketTracker", () => {
 
     it("displays progress bar with correct ARIA attributes", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 200000,
-        remaining: 300000,
+        max: moneyFromCents(500000),
+        met: moneyFromCents(200000),
+        remaining: moneyFromCents(300000),
       };
 
       render(
@@ -146,9 +147,9 @@ describe("OutOfPocketTracker", () => {
 
     it("applies green styling when max is reached", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 500000,
-        remaining: 0,
+        max: moneyFromCents(500000),
+        met: moneyFromCents(500000),
+        remaining: moneyFromCents(0),
       };
 
       const { container } = render(
@@ -252,9 +253,9 @@ describe("OutOfPocketTracker", () => {
   describe("edge cases", () => {
     it("handles zero max value", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 0,
-        met: 0,
-        remaining: 0,
+        max: moneyFromCents(0),
+        met: moneyFromCents(0),
+        remaining: moneyFromCents(0),
       };
 
       render(
@@ -274,9 +275,9 @@ describe("OutOfPocketTracker", () => {
 
     it("handles met exceeding max (edge case)", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 600000, // Met exceeds max
-        remaining: 0,
+        max: moneyFromCents(500000),
+        met: moneyFromCents(600000), // Met exceeds max
+        remaining: moneyFromCents(0),
       };
 
       render(
@@ -293,9 +294,9 @@ describe("OutOfPocketTracker", () => {
 
     it("treats remaining as 0 as max reached", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 490000,
-        remaining: 0, // Remaining is 0 even though met < max
+        max: moneyFromCents(500000),
+        met: moneyFromCents(490000),
+        remaining: moneyFromCents(0), // Remaining is 0 even though met < max
       };
 
       render(
@@ -312,9 +313,9 @@ describe("OutOfPocketTracker", () => {
 
     it("applies custom className", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 200000,
-        remaining: 300000,
+        max: moneyFromCents(500000),
+        met: moneyFromCents(200000),
+        remaining: moneyFromCents(300000),
       };
 
       const { container } = render(
@@ -333,9 +334,9 @@ describe("OutOfPocketTracker", () => {
   describe("accessibility", () => {
     it("has proper semantic structure", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 200000,
-        remaining: 300000,
+        max: moneyFromCents(500000),
+        met: moneyFromCents(200000),
+        remaining: moneyFromCents(300000),
       };
 
       render(
@@ -373,9 +374,9 @@ describe("OutOfPocketTracker", () => {
 
     it("provides accessible success message for max reached", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 500000,
-        remaining: 0,
+        max: moneyFromCents(500000),
+        met: moneyFromCents(500000),
+        remaining: moneyFromCents(0),
       };
 
       render(
@@ -399,9 +400,9 @@ describe("OutOfPocketTracker", () => {
   describe("visual consistency with DeductibleTracker", () => {
     it("uses consistent structure and styling", () => {
       const outOfPocketInfo: OutOfPocketInfo = {
-        max: 500000,
-        met: 200000,
-        remaining: 300000,
+        max: moneyFromCents(500000),
+        met: moneyFromCents(200000),
+        remaining: moneyFromCents(300000),
       };
 
       const { container } = render(
@@ -6,10 +6,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, waitFor } from "@testing-library/react";
+import { render, screen, waitFor, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { PaymentPlanModal } from "@/features/cost/PaymentPlanModal";
 import type { PaymentPlan } from "@/lib/validations/cost";
+import { moneyFromCents, moneyFromDollars } from "@/lib/utils/money";
+import type { PaymentPlanTerms } from "@/features/cost/utils/amortization";
 
 // Mock the usePaymentPlans hook
 vi.mock("@/features/cost/hooks/usePaymentPlans", () => ({
@@ -38,7 +40,7 @@ describe("PaymentPlanModal", () => {
       name: "Pay Per Session",
       description: "Pay for each session individually",
       frequency: "per_session",
-      installmentAmount: 15000, // $150.00
+      installmentAmount: moneyFromCents(15000), // $150.00
       totalAmount: null,
       terms: "No commitment required. Pay as you go.",
     },
@@ -47,7 +49,7 @@ describe("PaymentPlanModal", () => {
       name: "Monthly Billing",
       description: "Fixed monthly payment for up to 4 sessions",
       frequency: "monthly",
-      installmentAmount: 54000, // $540.00
+      installmentAmount: moneyFromCents(54000), // $540.00
       totalAmount: null,
       terms: "Billed monthly. Cancel anytime with 30 days notice.",
     },
@@ -56,8 +58,8 @@ describe("PaymentPlanModal", () => {
       name: "Prepaid Package",
       description: "Save 10% with a prepaid 10-session package",
       frequency: "prepaid",
-      installmentAmount: 135000, // $1,350.00
-      totalAmount: 135000,
+      installmentAmount: moneyFromCents(135000), // $1,350.00
+      totalAmount: moneyFromCents(135000),
       terms: "Valid for 6 months from purchase date. Non-refundable.",
     },
   ];
@@ -68,6 +70,8 @@ describe("PaymentPlanModal", () => {
     // Default mock implementation
     vi.mocked(usePaymentPlans).mockReturnValue({
       paymentPlans: mockPaymentPlans,
+      planTerms: {},
+      financialAssistance: null,
       loading: false,
       error: null,
       refetch: vi.fn(),
@@ -244,7 +248,7 @@ describe("PaymentPlanModal", () => {
       await user.click(selectButtons[0]);
 
       await waitFor(() => {
-        expect(mockSelectPlan).toHaveBeenCalledWith("plan_per_session");
+        expect(mockSelectPlan).toHaveBeenCalledWith("plan_per_session", "CARD");
       });
     });
 
@@ -286,6 +290,8 @@ describe("PaymentPlanModal", () => {
       // Mock the selecting state
       vi.mocked(usePaymentPlans).mockReturnValue({
         paymentPlans: mockPaymentPlans,
+        planTerms: {},
+        financialAssistance: null,
         loading: false,
         error: null,
         refetch: vi.fn(),
@@ -368,6 +374,84 @@ describe("PaymentPlanModal", () => {
     });
   });
 
+  describe("Payment method and saving", () => {
+    it("saves the plan with the chosen payment method", async () => {
+      const user = userEvent.setup();
+      mockSelectPlan.mockResolvedValue(undefined);
+
+      render(
+        <PaymentPlanModal
+          sessionId={mockSessionId}
+          estimatedCost={moneyFromDollars(1800)}
+          open={true}
+          onOpenChange={mockOnOpenChange}
+        />
+      );
+
+      expect(vi.mocked(usePaymentPlans)).toHaveBeenCalledWith(mockSessionId, moneyFromDollars(1800));
+      expect(screen.getByRole("radio", { name: "Card" })).toHaveAttribute("aria-checked", "true");
+
+      await user.click(screen.getByRole("radio", { name: "HSA/FSA" }));
+      await user.click(screen.getAllByText("Select This Plan")[1]);
+
+      await waitFor(() => {
+        expect(mockSelectPlan).toHaveBeenCalledWith("plan_monthly", "HSA_FSA");
+      });
+    });
+
+    it("shows an error when the selection can't be saved", () => {
+      vi.mocked(usePaymentPlans).mockReturnValue({
+        paymentPlans: mockPaymentPlans,
+        planTerms: {},
+        financialAssistance: null,
+        loading: false,
+        error: null,
+        refetch: vi.fn(),
+        selectPlan: mockSelectPlan,
+        selecting: false,
+        selectError: new Error("Network error"),
+      });
+
+      render(
+        <PaymentPlanModal sessionId={mockSessionId} open={true} onOpenChange={mockOnOpenChange} />
+      );
+
+      expect(screen.getByRole("alert")).toHaveTextContent("We couldn't save your payment plan");
+    });
+
+    it("shows financial assistance details from the backend", () => {
+      vi.mocked(usePaymentPlans).mockReturnValue({
+        paymentPlans: mockPaymentPlans,
+        planTerms: {},
+        financialAssistance: {
+          available: true,
+          eligibilityCriteria: [],
+          applicationUrl: "https://example.com/assistance",
+          description: "Sliding scale rates from $60 per session.",
+          slidingScaleAvailable: true,
+          discountRange: "20-50%",
+          additionalInfo: null,
+        },
+        loading: false,
+        error: null,
+        refetch: vi.fn(),
+        selectPlan: mockSelectPlan,
+        selecting: false,
+        selectError: null,
+      });
+
+      render(
+        <PaymentPlanModal sessionId={mockSessionId} open={true} onOpenChange={mockOnOpenChange} />
+      );
+
+      expect(screen.getByText("Sliding scale rates from $60 per session.")).toBeInTheDocument();
+      expect(screen.getByRole("link", { name: /apply for financial assistance/i })).toHaveAttribute(
+        "href",
+        "https://example.com/assistance"
+      );
+    });
+  });
+
   describe("AC-6.4.6: Modal is keyboard navigable and screen reader accessible", () => {
     it("should trap focus within modal when open", async () => {
       const user = userEvent.setup();
@@ -441,6 +525,8 @@ describe("PaymentPlanModal", () => {
     it("should show loading state when loading is true", () => {
       vi.mocked(usePaymentPlans).mockReturnValue({
         paymentPlans: null,
+        planTerms: {},
+        financialAssistance: null,
         loading: true,
         error: null,
         refetch: vi.fn(),
@@ -468,6 +554,8 @@ describe("PaymentPlanModal", () => {
 
       vi.mocked(usePaymentPlans).mockReturnValue({
         paymentPlans: null,
+        planTerms: {},
+        financialAssistance: null,
         loading: false,
         error: mockError,
         refetch: vi.fn(),
@@ -493,6 +581,8 @@ describe("PaymentPlanModal", () => {
     it("should show empty state when no payment plans available", () => {
       vi.mocked(usePaymentPlans).mockReturnValue({
         paymentPlans: [],
+        planTerms: {},
+        financialAssistance: null,
         loading: false,
         error: null,
         refetch: vi.fn(),
@@ -513,4 +603,137 @@ describe("PaymentPlanModal", () => {
         .toBeInTheDocument();
     });
   });
+
+  describe("Schedules and plan comparison", () => {
+    const quotedPlans: PaymentPlan[] = [
+      {
+        id: "plan_1_months",
+        name: "Pay in Full",
+        frequency: "prepaid",
+        installmentAmount: moneyFromDollars(1710),
+        totalAmount: moneyFromDollars(1710),
+      },
+      {
+        id: "plan_6_months",
+        name: "6-Month Plan",
+        frequency: "monthly",
+        installmentAmount: moneyFromDollars(305),
+        totalAmount: moneyFromDollars(1830),
+      },
+    ];
+
+    const quotedTerms: Record<string, PaymentPlanTerms> = {
+      plan_1_months: {
+        durationMonths: 1,
+        interestRate: 0,
+        feeAmount: moneyFromDollars(0),
+        upfrontDiscount: 5,
+        monthlyAmount: moneyFromDollars(1710),
+        totalAmount: moneyFromDollars(1710),
+      },
+      plan_6_months: {
+        durationMonths: 6,
+        interestRate: 0,
+        feeAmount: moneyFromDollars(30),
+        upfrontDiscount: null,
+        monthlyAmount: moneyFromDollars(305),
+        totalAmount: moneyFromDollars(1830),
+      },
+    };
+
+    function renderWithTerms(planTerms: Record<string, PaymentPlanTerms> = quotedTerms) {
+      vi.mocked(usePaymentPlans).mockReturnValue({
+        paymentPlans: quotedPlans,
+        planTerms,
+        financialAssistance: null,
+        loading: false,
+        error: null,
+        refetch: vi.fn(),
+        selectPlan: mockSelectPlan,
+        selecting: false,
+        selectError: null,
+      });
+
+      render(
+        <PaymentPlanModal
+          sessionId={mockSessionId}
+          estimatedCost={moneyFromDollars(1800)}
+          perSessionCost={moneyFromDollars(150)}
+          open={true}
+          onOpenChange={mockOnOpenChange}
+        />
+      );
+    }
+
+    function comparisonRow(label: string) {
+      const table = screen.getByRole("table", { name: "Payment plans compared" });
+      return within(table).getByRole("row", { name: new RegExp(`^${label}`) });
+    }
+
+    it("compares plans side by side and marks the lowest total", () => {
+      renderWithTerms();
+
+      expect(comparisonRow("Each payment")).toHaveTextContent("$1,710.00$305.00");
+      expect(comparisonRow("Payments")).toHaveTextContent("16");
+      expect(comparisonRow("Interest & fees")).toHaveTextContent("$0.00$30.00");
+      expect(comparisonRow("Upfront discount")).toHaveTextContent("-$90.00—");
+      expect(comparisonRow("Total cost")).toHaveTextContent("$1,710.00Lowest total$1,830.00");
+    });
+
+    it("recalculates every plan for a what-if session count", async () => {
+      const user = userEvent.setup();
+      renderWithTerms();
+
+      expect(screen.getByLabelText("Number of sessions")).toHaveValue(12);
+
+      await user.click(screen.getByRole("button", { name: "More sessions" }));
+
+      expect(screen.getByLabelText("Number of sessions")).toHaveValue(13);
+      expect(screen.getByText(/13 sessions at \$150\.00 each comes to about \$1,950\.00/)).toBeInTheDocument();
+      // Fees keep their share of the cost: $30 on $1,800 becomes $32.50 on $1,950
+      expect(comparisonRow("Each payment")).toHaveTextContent("$1,852.50$330.42");
+      expect(comparisonRow("Total cost")).toHaveTextContent("$1,852.50Lowest total$1,982.50");
+
+      await user.click(screen.getByRole("button", { name: "Reset" }));
+
+      expect(screen.getByLabelText("Number of sessions")).toHaveValue(12);
+      expect(comparisonRow("Total cost")).toHaveTextContent("$1,710.00Lowest total$1,830.00");
+    });
+
+    it("shows a month-by-month schedule for a plan", async () => {
+      const user = userEvent.setup();
+      renderWithTerms();
+
+      const toggles = screen.getAllByRole("button", { name: "View payment schedule" });
+      await user.click(toggles[1]);
+
+      expect(toggles[1]).toHaveAttribute("aria-expanded", "true");
+      const schedule = screen.getByRole("table", { name: "Payment schedule for 6-Month Plan" });
+      const rows = within(schedule).getAllByRole("row");
+      // Header, six payments, total
+      expect(rows).toHaveLength(8);
+      expect(rows[1]).toHaveTextContent("1$305.00$300.00$5.00$1,500.00");
+      expect(rows[6]).toHaveTextContent("6$305.00$300.00$5.00$0.00");
+      expect(rows[7]).toHaveTextContent("Total$1,830.00$1,800.00$30.00");
+      expect(screen.queryByText(/doesn't match the plan's quote/)).not.toBeInTheDocument();
+    });
+
+    it("flags a schedule that doesn't match the plan's quote", async () => {
+      const user = userEvent.setup();
+      renderWithTerms({
+        ...quotedTerms,
+        plan_6_months: {
+          ...quotedTerms.plan_6_months,
+          monthlyAmount: moneyFromDollars(310),
+          totalAmount: moneyFromDollars(1860),
+        },
+      });
+
+      await user.click(screen.getAllByRole("button", { name: "View payment schedule" })[1]);
+
+      expect(
+        screen.getByText(/doesn't match the plan's quote of \$310\.00 a month \(\$1,860\.00 total\)/)
+      ).toBeInTheDocument();
+    });
+  });
 });
@@ -10,25 +10,26 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { SelfPayRateCard } from "@/features/cost/SelfPayRateCard";
 import type { SelfPayRate } from "@/lib/validations/cost";
+import { moneyFromCents } from "@/lib/utils/money";
 
 describe("SelfPayRateCard", () => {
   const mockSelfPayRates: SelfPayRate = {
-    perSessionRate: 15000, // $150.00
+    perSessionRate: moneyFromCents(15000), // $150.00
     packages: [
       {
         id: "pkg_4",
         name: "4-Session Package",
         sessionCount: 4,
-        totalPrice: 54000, // $540.00
-        pricePerSession: 13500, // $135.00
+        totalPrice: moneyFromCents(54000), // $540.00
+        pricePerSession: moneyFromCents(13500), // $135.00
         savingsPercentage: 10,
       },
       {
         id: "pkg_8",
         name: "8-Session Package",
         sessionCount: 8,
-        totalPrice: 96000, // $960.00
-        pricePerSession: 12000, // $120.00
+        totalPrice: moneyFromCents(96000), // $960.00
+        pricePerSession: moneyFromCents(12000), // $120.00
         savingsPercentage: 20,
       },
     ],
@@ -84,7 +85,7 @@ describe("SelfPayRateCard", () => {
     it("should display rate with proper formatting", () => {
       const ratesWithDifferentAmount: SelfPayRate = {
         ...mockSelfPayRates,
-        perSessionRate: 12500, // $125.00
+        perSessionRate: moneyFromCents(12500), // $125.00
       };
 
       render(<SelfPayRateCard selfPayRates={ratesWithDifferentAmount} />);
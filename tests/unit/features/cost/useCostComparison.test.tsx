@@ -0,0 +1,210 @@
+/**
+ * Unit tests for useCostComparison hook
+ *
+ * Tests the cost comparison against a mocked GraphQL operation
+ * (MockedProvider):
+ * - Loading, data and error states
+ * - Mapping comparison rows, package options and savings for the views
+ * - Estimated total and per-session cost for payment plans
+ */
+
+import * as React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { MockedProvider } from "@apollo/client/testing/react";
+import type { MockLink } from "@apollo/client/testing";
+import { useCostComparison } from "@/features/cost/hooks/useCostComparison";
+import { moneyFromCents, moneyFromDollars } from "@/lib/utils/money";
+import {
+  GetEnhancedCostComparisonDocument,
+  type GetEnhancedCostComparisonQuery,
+} from "@/types/graphql";
+
+const SESSION_ID = "session_123";
+
+const insuranceEstimate: NonNullable<
+  GetEnhancedCostComparisonQuery["costComparison"]["insuranceEstimate"]
+> = {
+  __typename: "InsuranceEstimate",
+  perSessionCost: "$40",
+  totalEstimatedCost: "$1,200",
+  explanation: "After your deductible",
+  assumptionNotes: ["Assumes 30 sessions"],
+};
+
+function comparisonData(
+  overrides: Partial<GetEnhancedCostComparisonQuery["costComparison"]> = {}
+): GetEnhancedCostComparisonQuery {
+  return {
+    costComparison: {
+      __typename: "CostComparison",
+      recommendation: "Self-pay saves you money",
+      savingsIfSelfPay: 12.5,
+      highlightSelfPay: true,
+      insuranceEstimate,
+      selfPayEstimate: {
+        __typename: "SelfPayEstimate",
+        baseRate: "$150",
+        totalForTypicalTreatment: "$1,800 for 12 sessions",
+        slidingScaleInfo: null,
+        transparentPricingMessage: "No surprise bills",
+        whatIsIncluded: ["Weekly sessions"],
+        whatIsNotIncluded: ["Medication management"],
+        packageOptions: [
+          {
+            __typename: "PackageOption",
+            sessions: 4,
+            totalPrice: "$540",
+            perSessionCost: "$135",
+            savings: "$60",
+            description: "Four-session package",
+          },
+        ],
+      },
+      comparisonTable: [
+        {
+          __typename: "ComparisonRow",
+          label: "Per session",
+          insuranceValue: "$40",
+          selfPayValue: "$150",
+          highlightSelfPay: false,
+        },
+        {
+          __typename: "ComparisonRow",
+          label: "Surprise bills",
+          insuranceValue: null,
+          selfPayValue: "None",
+          highlightSelfPay: true,
+        },
+      ],
+      ...overrides,
+    },
+    deductibleStatus: {
+      __typename: "DeductibleStatus",
+      amount: 1500,
+      met: 500,
+      remaining: 1000,
+      progressPercentage: null,
+      isMet: false,
+      oopMaxAmount: null,
+      oopMet: null,
+      oopRemaining: null,
+      oopProgressPercentage: null,
+    },
+    session: {
+      __typename: "OnboardingSession",
+      insurance: null,
+    },
+  };
+}
+
+const comparisonMock = (
+  data: GetEnhancedCostComparisonQuery
+): MockLink.MockedResponse<GetEnhancedCostComparisonQuery> => ({
+  request: { query: GetEnhancedCostComparisonDocument, variables: { sessionId: SESSION_ID } },
+  result: { data },
+});
+
+function renderCostComparison(mocks: ReadonlyArray<MockLink.MockedResponse>) {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <MockedProvider mocks={mocks}>{children}</MockedProvider>
+  );
+  return renderHook(() => useCostComparison(SESSION_ID), { wrapper });
+}
+
+describe("useCostComparison", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("starts in the loading state", () => {
+    const { result } = renderCostComparison([comparisonMock(comparisonData())]);
+
+    expect(result.current.loading).toBe(true);
+    expect(result.current.selfPayEstimate).toBeNull();
+    expect(result.current.comparisonTable).toEqual([]);
+  });
+
+  it("maps the comparison for the views", async () => {
+    const { result } = renderCostComparison([comparisonMock(comparisonData())]);
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.insuranceEstimate).toEqual({
+      perSessionCost: "$40",
+      totalEstimatedCost: "$1,200",
+      explanation: "After your deductible",
+      assumptionNotes: ["Assumes 30 sessions"],
+    });
+    expect(result.current.selfPayEstimate?.packageOptions).toEqual([
+      {
+        sessions: 4,
+        totalPrice: "$540",
+        perSessionCost: "$135",
+        savings: "$60",
+        description: "Four-session package",
+      },
+    ]);
+    expect(result.current.comparisonTable).toEqual([
+      { label: "Per session", insuranceValue: "$40", selfPayValue: "$150", highlightSelfPay: false },
+      { label: "Surprise bills", insuranceValue: null, selfPayValue: "None", highlightSelfPay: true },
+    ]);
+    expect(result.current.recommendation).toBe("Self-pay saves you money");
+    expect(result.current.highlightSelfPay).toBe(true);
+    expect(result.current.deductibleStatus).toMatchObject({
+      amount: moneyFromDollars(1500),
+      progressPercentage: 0,
+    });
+    expect(result.current.insuranceDetails).toBeNull();
+  });
+
+  it("returns self-pay savings as money", async () => {
+    const { result } = renderCostComparison([comparisonMock(comparisonData())]);
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.savingsIfSelfPay).toEqual(moneyFromCents(1250));
+  });
+
+  it("estimates the total from the recommended option", async () => {
+    const { result } = renderCostComparison([
+      comparisonMock(comparisonData({ highlightSelfPay: false })),
+    ]);
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.estimatedCost).toEqual(moneyFromDollars(1200));
+    expect(result.current.perSessionCost).toEqual(moneyFromDollars(40));
+  });
+
+  it("estimates from self-pay when insurance isn't verified", async () => {
+    const { result } = renderCostComparison([
+      comparisonMock(
+        comparisonData({ insuranceEstimate: null, highlightSelfPay: false, savingsIfSelfPay: null })
+      ),
+    ]);
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.insuranceEstimate).toBeNull();
+    expect(result.current.savingsIfSelfPay).toBeNull();
+    expect(result.current.estimatedCost).toEqual(moneyFromDollars(1800));
+    expect(result.current.perSessionCost).toEqual(moneyFromDollars(150));
+  });
+
+  it("returns the error when the query fails", async () => {
+    const { result } = renderCostComparison([
+      {
+        request: { query: GetEnhancedCostComparisonDocument, variables: { sessionId: SESSION_ID } },
+        error: new Error("Failed to load costs"),
+      },
+    ]);
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error?.message).toBe("Failed to load costs");
+    expect(result.current.selfPayEstimate).toBeNull();
+    expect(result.current.estimatedCost).toBeNull();
+  });
+});
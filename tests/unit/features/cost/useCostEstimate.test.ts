@@ -9,6 +9,7 @@ import { renderHook, waitFor } from "@testing-library/react";
 import { useQuery } from "@apollo/client/react";
 import { useCostEstimate } from "@/features/cost/useCostEstimate";
 import type { CostEstimate } from "@/lib/validations/cost";
+import { moneyFromCents } from "@/lib/utils/money";
 
 // Mock Apollo Client
 vi.mock("@apollo/client/react", () => ({
@@ -18,18 +19,18 @@ vi.mock("@apollo/client/react", () => ({
 describe("useCostEstimate", () => {
   const mockCostEstimate: CostEstimate = {
     sessionId: "session_123",
-    perSessionCost: 2500,
+    perSessionCost: moneyFromCents(2500),
     insuranceCoverage: {
       percentage: 80,
       amount: null,
       description: "PPO coverage",
     },
-    copay: 2500,
+    copay: moneyFromCents(2500),
     coinsurance: 20,
     deductible: {
-      total: 150000,
-      met: 50000,
-      remaining: 100000,
+      total: moneyFromCents(150000),
+      met: moneyFromCents(50000),
+      remaining: moneyFromCents(100000),
     },
     insuranceCarrier: "Blue Cross Blue Shield",
     disclaimer: "Final cost may vary",
@@ -258,7 +259,7 @@ describe("useCostEstimate", () => {
 
       expect(result.current.costEstimate).toMatchObject({
         sessionId: "session_123",
-        perSessionCost: 2500,
+        perSessionCost: moneyFromCents(2500),
         insuranceCarrier: "Blue Cross Blue Shield",
       });
     });
@@ -266,7 +267,7 @@ describe("useCostEstimate", () => {
     it("should handle partial cost estimate data", () => {
       const partialEstimate = {
         sessionId: "session_123",
-        perSessionCost: 2500,
+        perSessionCost: moneyFromCents(2500),
         insuranceCoverage: null,
         copay: null,
         coinsurance: null,
@@ -0,0 +1,295 @@
+/**
+ * Unit tests for usePaymentPlans hook
+ *
+ * Tests payment plan options and selection against mocked GraphQL
+ * operations (MockedProvider):
+ * - Loading, data, empty and error states
+ * - Skipping the query until the estimated cost is known
+ * - Saving a selection with the chosen payment method
+ */
+
+import * as React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { MockedProvider } from "@apollo/client/testing/react";
+import type { MockLink } from "@apollo/client/testing";
+import {
+  usePaymentPlans,
+  toPaymentPlan,
+  toPaymentPlanTerms,
+} from "@/features/cost/hooks/usePaymentPlans";
+import {
+  GetPaymentPlansDocument,
+  SavePaymentPlanSelectionDocument,
+  type GetPaymentPlansQuery,
+} from "@/types/graphql";
+import { moneyFromCents, moneyFromDollars, type Money } from "@/lib/utils/money";
+
+const SESSION_ID = "session_123";
+const ESTIMATED_COST = 1800;
+
+const planOptions: GetPaymentPlansQuery["paymentPlanOptions"] = [
+  {
+    __typename: "PaymentPlanOption",
+    durationMonths: 1,
+    monthlyAmount: 1710,
+    totalAmount: 1710,
+    interestRate: 0,
+    hasFees: false,
+    feeAmount: 0,
+    upfrontDiscount: 5,
+    description: "Pay the full amount now and save 5%",
+  },
+  {
+    __typename: "PaymentPlanOption",
+    durationMonths: 6,
+    monthlyAmount: 305,
+    totalAmount: 1830,
+    interestRate: 0,
+    hasFees: true,
+    feeAmount: 30,
+    upfrontDiscount: null,
+    description: "Six monthly payments",
+  },
+];
+
+const financialAssistanceInfo: GetPaymentPlansQuery["financialAssistanceInfo"] = {
+  __typename: "FinancialAssistance",
+  available: true,
+  eligibilityCriteria: ["Household income below 300% FPL"],
+  applicationUrl: "https://example.com/assistance",
+  description: "Sliding scale rates are available.",
+  slidingScaleAvailable: true,
+  discountRange: "20-50%",
+  additionalInfo: null,
+};
+
+const plansMock = (
+  paymentPlanOptions = planOptions
+): MockLink.MockedResponse<GetPaymentPlansQuery> => ({
+  request: {
+    query: GetPaymentPlansDocument,
+    variables: { sessionId: SESSION_ID, estimatedCost: ESTIMATED_COST },
+  },
+  result: { data: { paymentPlanOptions, financialAssistanceInfo } },
+});
+
+const saveMock = (success = true): MockLink.MockedResponse => ({
+  request: {
+    query: SavePaymentPlanSelectionDocument,
+    variables: {
+      input: {
+        sessionId: SESSION_ID,
+        planDurationMonths: 6,
+        monthlyAmount: 305,
+        totalAmount: 1830,
+        discountApplied: 0,
+        paymentMethodPreference: "HSA_FSA",
+      },
+    },
+  },
+  result: {
+    data: {
+      savePaymentPlanSelection: {
+        __typename: "SavePaymentPlanSelectionPayload",
+        success,
+        paymentPlan: {
+          __typename: "PaymentPlan",
+          id: "pp_1",
+          planDurationMonths: 6,
+          monthlyAmount: 305,
+          totalAmount: 1830,
+          discountApplied: 0,
+          paymentMethodPreference: "HSA_FSA",
+          status: "pending",
+          description: "Six monthly payments",
+        },
+      },
+    },
+  },
+});
+
+function renderPaymentPlans(
+  mocks: ReadonlyArray<MockLink.MockedResponse>,
+  estimatedCost: Money | null = moneyFromDollars(ESTIMATED_COST)
+) {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <MockedProvider mocks={mocks}>{children}</MockedProvider>
+  );
+  return renderHook(() => usePaymentPlans(SESSION_ID, estimatedCost), { wrapper });
+}
+
+describe("usePaymentPlans", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  describe("Query states", () => {
+    it("starts loading, then returns plans in cents", async () => {
+      const { result } = renderPaymentPlans([plansMock()]);
+
+      expect(result.current.loading).toBe(true);
+      expect(result.current.paymentPlans).toBeNull();
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current.error).toBeNull();
+      expect(result.current.paymentPlans).toEqual([
+        {
+          id: "plan_1_months",
+          name: "Pay in Full",
+          description: "Pay the full amount now and save 5%",
+          frequency: "prepaid",
+          installmentAmount: moneyFromCents(171000),
+          totalAmount: moneyFromCents(171000),
+          terms: "No interest, no fees, 5% off when paid upfront.",
+        },
+        {
+          id: "plan_6_months",
+          name: "6-Month Plan",
+          description: "Six monthly payments",
+          frequency: "monthly",
+          installmentAmount: moneyFromCents(30500),
+          totalAmount: moneyFromCents(183000),
+          terms: "No interest, $30.00 in fees.",
+        },
+      ]);
+      expect(result.current.financialAssistance?.applicationUrl).toBe(
+        "https://example.com/assistance"
+      );
+    });
+
+    it("returns an empty list when no plans are offered", async () => {
+      const { result } = renderPaymentPlans([plansMock([])]);
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current.paymentPlans).toEqual([]);
+    });
+
+    it("returns the error when the query fails", async () => {
+      const { result } = renderPaymentPlans([
+        {
+          request: {
+            query: GetPaymentPlansDocument,
+            variables: { sessionId: SESSION_ID, estimatedCost: ESTIMATED_COST },
+          },
+          error: new Error("Failed to fetch payment plans"),
+        },
+      ]);
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current.error?.message).toBe("Failed to fetch payment plans");
+      expect(result.current.paymentPlans).toBeNull();
+    });
+
+    it("waits for the estimated cost before loading plans", () => {
+      const { result } = renderPaymentPlans([], null);
+
+      expect(result.current.loading).toBe(false);
+      expect(result.current.paymentPlans).toBeNull();
+      expect(result.current.error).toBeNull();
+    });
+  });
+
+  describe("Selecting a plan", () => {
+    it("saves the plan amounts with the chosen payment method", async () => {
+      const { result } = renderPaymentPlans([plansMock(), saveMock()]);
+      await waitFor(() => expect(result.current.paymentPlans).not.toBeNull());
+
+      await act(() => result.current.selectPlan("plan_6_months", "HSA_FSA"));
+
+      expect(result.current.selectError).toBeNull();
+      expect(result.current.selecting).toBe(false);
+    });
+
+    it("records the upfront discount in dollars when paying in full", async () => {
+      const payInFullSave: MockLink.MockedResponse = {
+        ...saveMock(),
+        request: {
+          query: SavePaymentPlanSelectionDocument,
+          variables: {
+            input: {
+              sessionId: SESSION_ID,
+              planDurationMonths: 1,
+              monthlyAmount: 1710,
+              totalAmount: 1710,
+              discountApplied: 90,
+              paymentMethodPreference: "CARD",
+            },
+          },
+        },
+      };
+      const { result } = renderPaymentPlans([plansMock(), payInFullSave]);
+      await waitFor(() => expect(result.current.paymentPlans).not.toBeNull());
+
+      await act(() => result.current.selectPlan("plan_1_months"));
+
+      expect(result.current.selectError).toBeNull();
+    });
+
+    it("rejects when the backend doesn't save the selection", async () => {
+      const { result } = renderPaymentPlans([plansMock(), saveMock(false)]);
+      await waitFor(() => expect(result.current.paymentPlans).not.toBeNull());
+
+      let selectError: unknown;
+      await act(async () => {
+        await result.current.selectPlan("plan_6_months", "HSA_FSA").catch((err) => {
+          selectError = err;
+        });
+      });
+
+      expect(selectError).toEqual(new Error("We couldn't save your payment plan. Please try again."));
+    });
+
+    it("exposes the mutation error when saving fails", async () => {
+      const failingSave: MockLink.MockedResponse = {
+        request: saveMock().request,
+        error: new Error("Network error"),
+      };
+      const { result } = renderPaymentPlans([plansMock(), failingSave]);
+      await waitFor(() => expect(result.current.paymentPlans).not.toBeNull());
+
+      let selectError: unknown;
+      await act(async () => {
+        await result.current.selectPlan("plan_6_months", "HSA_FSA").catch((err) => {
+          selectError = err;
+        });
+      });
+
+      expect(selectError).toBeInstanceOf(Error);
+      expect(result.current.selectError?.message).toBe("Network error");
+    });
+
+    it("rejects plans that aren't offered", async () => {
+      const { result } = renderPaymentPlans([plansMock()]);
+      await waitFor(() => expect(result.current.paymentPlans).not.toBeNull());
+
+      await expect(result.current.selectPlan("plan_99_months")).rejects.toThrow(
+        "no longer available"
+      );
+    });
+  });
+});
+
+describe("toPaymentPlanTerms", () => {
+  it("maps a plan option onto Money terms", () => {
+    expect(toPaymentPlanTerms(planOptions[1])).toEqual({
+      durationMonths: 6,
+      interestRate: 0,
+      feeAmount: moneyFromDollars(30),
+      upfrontDiscount: null,
+      monthlyAmount: moneyFromDollars(305),
+      totalAmount: moneyFromDollars(1830),
+    });
+  });
+});
+
+describe("toPaymentPlan", () => {
+  it("describes interest when the plan charges it", () => {
+    expect(
+      toPaymentPlan({ ...planOptions[1], interestRate: 4.5, hasFees: false }).terms
+    ).toBe("4.5% interest, no fees.");
+  });
+});
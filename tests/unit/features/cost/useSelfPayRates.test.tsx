@@ -11,6 +11,7 @@
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import type { SelfPayRate } from "@/lib/validations/cost";
+import { moneyFromCents } from "@/lib/utils/money";
 
 // Mock Apollo Client since GraphQL schema is not yet available
 vi.mock("@apollo/client", () => ({
@@ -24,14 +25,14 @@ vi.mock("@apollo/client", () => ({
 
 describe("useSelfPayRates", () => {
   const mockSelfPayRates: SelfPayRate = {
-    perSessionRate: 15000,
+    perSessionRate: moneyFromCents(15000),
     packages: [
       {
         id: "pkg_4",
         name: "4-Session Package",
         sessionCount: 4,
-        totalPrice: 54000,
-        pricePerSession: 13500,
+        totalPrice: moneyFromCents(54000),
+        pricePerSession: moneyFromCents(13500),
         savingsPercentage: 10,
       },
     ],
@@ -84,8 +85,8 @@ describe("useSelfPayRates", () => {
       const pkg = mockSelfPayRates.packages[0];
 
       // Verify savings calculation makes sense
-      const standardTotal = mockSelfPayRates.perSessionRate * pkg.sessionCount;
-      const savings = ((standardTotal - pkg.totalPrice) / standardTotal) * 100;
+      const standardTotal = mockSelfPayRates.perSessionRate.cents * pkg.sessionCount;
+      const savings = ((standardTotal - pkg.totalPrice.cents) / standardTotal) * 100;
 
       expect(savings).toBeCloseTo(pkg.savingsPercentage, 0);
     });
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for payment plan amortization
+ *
+ * Tests cover:
+ * - Even splits for no-interest plans, with service fees spread out
+ * - Upfront discounts
+ * - Interest on the declining balance (rows sum exactly, balance ends at zero)
+ * - Checking schedules against the backend quote
+ * - Session what-ifs (rescaled terms, cost per session count)
+ * - Picking the lowest total
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildAmortizationSchedule,
+  checkScheduleAgainstQuote,
+  estimateCostForSessions,
+  findLowestTotal,
+  getFinanceCharges,
+  getPaymentCount,
+  scaleTermsToCost,
+  type AmortizationSchedule,
+  type PaymentPlanTerms,
+} from "@/features/cost/utils/amortization";
+import { moneyFromCents, moneyFromDollars, sumMoney, type Money } from "@/lib/utils/money";
+
+const cost = moneyFromDollars(1800);
+
+const sixMonthTerms: PaymentPlanTerms = {
+  durationMonths: 6,
+  interestRate: 0,
+  feeAmount: moneyFromDollars(30),
+  upfrontDiscount: null,
+  monthlyAmount: moneyFromDollars(305),
+  totalAmount: moneyFromDollars(1830),
+};
+
+const payInFullTerms: PaymentPlanTerms = {
+  durationMonths: 1,
+  interestRate: 0,
+  feeAmount: moneyFromCents(0),
+  upfrontDiscount: 5,
+  monthlyAmount: moneyFromDollars(1710),
+  totalAmount: moneyFromDollars(1710),
+};
+
+const cents = (amounts: Money[]) => amounts.map((amount) => amount.cents);
+
+describe("getPaymentCount", () => {
+  it("treats upfront plans as a single payment", () => {
+    expect(getPaymentCount({ durationMonths: 0 })).toBe(1);
+    expect(getPaymentCount({ durationMonths: 1 })).toBe(1);
+    expect(getPaymentCount({ durationMonths: 6 })).toBe(6);
+  });
+});
+
+describe("buildAmortizationSchedule", () => {
+  it("splits a no-interest plan evenly with fees spread across payments", () => {
+    const schedule = buildAmortizationSchedule(cost, sixMonthTerms);
+
+    expect(schedule.rows).toHaveLength(6);
+    expect(cents(schedule.rows.map((row) => row.principal))).toEqual(Array(6).fill(30000));
+    expect(cents(schedule.rows.map((row) => row.fees))).toEqual(Array(6).fill(500));
+    expect(schedule.monthlyPayment).toEqual(moneyFromDollars(305));
+    expect(schedule.totalPaid).toEqual(moneyFromDollars(1830));
+    expect(schedule.totalInterest).toEqual(moneyFromCents(0));
+    expect(schedule.totalFees).toEqual(moneyFromDollars(30));
+    expect(cents(schedule.rows.map((row) => row.remainingBalance))).toEqual([
+      150000, 120000, 90000, 60000, 30000, 0,
+    ]);
+  });
+
+  it("keeps uneven splits exact", () => {
+    const schedule = buildAmortizationSchedule(moneyFromCents(100000), {
+      ...sixMonthTerms,
+      durationMonths: 3,
+      feeAmount: moneyFromCents(100),
+    });
+
+    expect(cents(schedule.rows.map((row) => row.payment))).toEqual([33368, 33366, 33366]);
+    expect(schedule.totalPaid).toEqual(moneyFromCents(100100));
+  });
+
+  it("takes the upfront discount off the cost", () => {
+    const schedule = buildAmortizationSchedule(cost, payInFullTerms);
+
+    expect(schedule.rows).toHaveLength(1);
+    expect(schedule.discount).toEqual(moneyFromDollars(90));
+    expect(schedule.amountFinanced).toEqual(moneyFromDollars(1710));
+    expect(schedule.totalPaid).toEqual(moneyFromDollars(1710));
+    expect(schedule.rows[0].remainingBalance).toEqual(moneyFromCents(0));
+  });
+
+  it("amortizes interest on the declining balance", () => {
+    const schedule = buildAmortizationSchedule(cost, {
+      durationMonths: 6,
+      interestRate: 12,
+      feeAmount: moneyFromCents(6351),
+      upfrontDiscount: null,
+    });
+
+    expect(cents(schedule.rows.map((row) => row.interest))).toEqual([
+      1800, 1507, 1212, 913, 612, 307,
+    ]);
+    expect(cents(schedule.rows.map((row) => row.payment))).toEqual([
+      31059, 31059, 31059, 31059, 31059, 31056,
+    ]);
+    expect(schedule.totalInterest).toEqual(moneyFromCents(6351));
+    expect(schedule.totalFees).toEqual(moneyFromCents(0));
+    expect(sumMoney(schedule.rows.map((row) => row.principal))).toEqual(cost);
+    expect(schedule.rows[5].remainingBalance).toEqual(moneyFromCents(0));
+  });
+
+  it("treats fees beyond the interest as service fees", () => {
+    const schedule = buildAmortizationSchedule(cost, {
+      durationMonths: 6,
+      interestRate: 12,
+      feeAmount: moneyFromCents(6351 + 600),
+      upfrontDiscount: null,
+    });
+
+    expect(schedule.totalFees).toEqual(moneyFromDollars(6));
+    expect(cents(schedule.rows.map((row) => row.fees))).toEqual(Array(6).fill(100));
+    expect(getFinanceCharges(schedule)).toEqual(moneyFromCents(6951));
+    expect(schedule.totalPaid).toEqual(moneyFromCents(180000 + 6951));
+  });
+});
+
+describe("checkScheduleAgainstQuote", () => {
+  it("matches a quote within rounding", () => {
+    const schedule = buildAmortizationSchedule(cost, sixMonthTerms);
+
+    expect(
+      checkScheduleAgainstQuote(schedule, {
+        ...sixMonthTerms,
+        totalAmount: moneyFromCents(183003),
+      })
+    ).toEqual({
+      matchesQuote: true,
+      monthlyDifference: moneyFromCents(0),
+      totalDifference: moneyFromCents(-3),
+    });
+  });
+
+  it("flags a quote the schedule doesn't reproduce", () => {
+    const schedule = buildAmortizationSchedule(cost, sixMonthTerms);
+    const check = checkScheduleAgainstQuote(schedule, {
+      ...sixMonthTerms,
+      monthlyAmount: moneyFromDollars(310),
+      totalAmount: moneyFromDollars(1860),
+    });
+
+    expect(check.matchesQuote).toBe(false);
+    expect(check.monthlyDifference).toEqual(moneyFromDollars(-5));
+    expect(check.totalDifference).toEqual(moneyFromDollars(-30));
+  });
+});
+
+describe("session what-ifs", () => {
+  it("estimates the cost for a number of sessions", () => {
+    expect(estimateCostForSessions(moneyFromDollars(150), 12)).toEqual(moneyFromDollars(1800));
+    expect(estimateCostForSessions(moneyFromDollars(150), -1)).toEqual(moneyFromCents(0));
+  });
+
+  it("scales fees with the cost and keeps the other terms", () => {
+    const scaled = scaleTermsToCost(sixMonthTerms, cost, moneyFromDollars(2700));
+
+    expect(scaled).toEqual({
+      durationMonths: 6,
+      interestRate: 0,
+      feeAmount: moneyFromDollars(45),
+      upfrontDiscount: null,
+    });
+    expect(buildAmortizationSchedule(moneyFromDollars(2700), scaled).monthlyPayment).toEqual(
+      moneyFromDollars(457.5)
+    );
+  });
+});
+
+describe("findLowestTotal", () => {
+  it("picks the schedule with the lowest total", () => {
+    const schedules: Record<string, AmortizationSchedule> = {
+      plan_6_months: buildAmortizationSchedule(cost, sixMonthTerms),
+      plan_1_months: buildAmortizationSchedule(cost, payInFullTerms),
+    };
+
+    expect(findLowestTotal(schedules)).toBe("plan_1_months");
+  });
+
+  it("keeps the earliest plan on ties and handles no plans", () => {
+    const schedule = buildAmortizationSchedule(cost, sixMonthTerms);
+
+    expect(findLowestTotal({ a: schedule, b: schedule })).toBe("a");
+    expect(findLowestTotal({})).toBeNull();
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Unit tests for the coverage verification step
+ *
+ * Tests cover:
+ * - "Verify my coverage" starts verifyEligibility for the saved record
+ * - Progress streamed over insuranceStatusChanged, and the final result
+ * - Cached results
+ * - Failure details (why, next steps, support contact)
+ * - Bounded retries with backoff, and the timeout
+ * - The confirmation status badge following the result
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import type { VerifyEligibilityMutation } from "@/types/graphql";
+
+interface SubscriptionOptions {
+  skip?: boolean;
+  onData: (options: { data: { data: Record<string, unknown> } }) => void;
+}
+
+const mockVerifyEligibility = vi.fn();
+let subscription: SubscriptionOptions | null = null;
+
+vi.mock("@/types/graphql", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/types/graphql")>();
+  return {
+    ...actual,
+    useVerifyEligibilityMutation: () => [mockVerifyEligibility],
+    useEligibilityStatusChangedSubscription: (options: SubscriptionOptions) => {
+      subscription = options;
+    },
+  };
+});
+
+const mockSaveOnboardingData = vi.fn();
+vi.mock("@/lib/onboarding-store", () => ({
+  saveOnboardingData: (...args: unknown[]) => mockSaveOnboardingData(...args),
+}));
+
+vi.mock("@/lib/data/insurance-carriers", () => ({
+  getCarrierById: vi.fn(() => null),
+}));
+
+import { CoverageVerification } from "@/features/insurance/CoverageVerification";
+import { InsuranceConfirmation } from "@/features/insurance/InsuranceConfirmation";
+import {
+  getVerificationRetryDelay,
+  VERIFICATION_TIMEOUT_MS,
+} from "@/features/insurance/useEligibilityVerification";
+
+type VerifiedInsurance = NonNullable<
+  NonNullable<VerifyEligibilityMutation["verifyEligibility"]>["insurance"]
+>;
+
+const SESSION_ID = "sess_123";
+const INSURANCE_ID = "ins_123";
+
+function insurance(overrides: Partial<VerifiedInsurance> = {}): VerifiedInsurance {
+  return {
+    __typename: "Insurance",
+    id: INSURANCE_ID,
+    verificationStatus: "in_progress",
+    verificationStatusDisplay: null,
+    verificationMessage: null,
+    whyExplanation: null,
+    nextSteps: [],
+    canRetryVerification: true,
+    retryAttempts: 0,
+    supportContact: null,
+    ...overrides,
+  };
+}
+
+const verified = insurance({
+  verificationStatus: "verified",
+  verificationStatusDisplay: "Verified",
+  verificationMessage: "Your plan covers therapy sessions.",
+});
+
+const failed = insurance({
+  verificationStatus: "failed",
+  verificationStatusDisplay: "Unable to Verify",
+  verificationMessage: "We couldn't find your plan.",
+  whyExplanation: "The member ID didn't match the payer's records.",
+  nextSteps: ["Check the member ID on your card", "Call the number on the back of your card"],
+  supportContact: {
+    __typename: "SupportContact",
+    type: "specialist",
+    phone: "1-800-555-0100",
+    email: "insurance@daybreakhealth.com",
+    hours: "Mon-Fri 9am-5pm PT",
+  },
+});
+
+function mutationResult(record: VerifiedInsurance | null, cached = false) {
+  return {
+    data: {
+      verifyEligibility: {
+        __typename: "VerifyEligibilityPayload",
+        insurance: record,
+        cached,
+        errors: [],
+      },
+    },
+  };
+}
+
+function streamUpdate(record: VerifiedInsurance, progress?: { percentage: number; message: string }) {
+  act(() => {
+    subscription?.onData({
+      data: {
+        data: {
+          insuranceStatusChanged: { insurance: record, progress: progress ?? null },
+        },
+      },
+    });
+  });
+}
+
+async function clickVerify() {
+  await act(async () => {
+    fireEvent.click(screen.getByRole("button", { name: /verify my coverage/i }));
+  });
+}
+
+function renderVerification(onComplete = vi.fn()) {
+  render(
+    <CoverageVerification
+      sessionId={SESSION_ID}
+      insuranceId={INSURANCE_ID}
+      carrierName="Aetna"
+      onComplete={onComplete}
+    />
+  );
+  return onComplete;
+}
+
+describe("CoverageVerification", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    subscription = null;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("asks to verify before calling the backend", () => {
+    renderVerification();
+
+    expect(screen.getByText(/check your plan with Aetna/i)).toBeInTheDocument();
+    expect(mockVerifyEligibility).not.toHaveBeenCalled();
+    expect(subscription?.skip).toBe(true);
+  });
+
+  it("streams progress until coverage is verified", async () => {
+    mockVerifyEligibility.mockResolvedValue(mutationResult(insurance()));
+    const onComplete = renderVerification();
+
+    await clickVerify();
+
+    expect(mockVerifyEligibility).toHaveBeenCalledWith({
+      variables: { insuranceId: INSURANCE_ID },
+    });
+    expect(subscription?.skip).toBe(false);
+    expect(screen.getByText("Starting verification...")).toBeInTheDocument();
+
+    streamUpdate(insurance(), { percentage: 33, message: "Contacting your insurance company..." });
+
+    expect(screen.getByText("Contacting your insurance company...")).toBeInTheDocument();
+    expect(screen.getByRole("progressbar")).toHaveAttribute("aria-valuenow", "33");
+
+    streamUpdate(verified, { percentage: 100, message: "Done" });
+
+    expect(screen.getByText("Verified")).toBeInTheDocument();
+    expect(screen.getByText("Your plan covers therapy sessions.")).toBeInTheDocument();
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ status: "verified" }));
+    expect(mockSaveOnboardingData).toHaveBeenCalledWith(SESSION_ID, {
+      insurance: { verificationStatus: "verified" },
+    });
+  });
+
+  it("ignores updates for other insurance records", async () => {
+    mockVerifyEligibility.mockResolvedValue(mutationResult(insurance()));
+    renderVerification();
+
+    await clickVerify();
+    streamUpdate({ ...verified, id: "ins_other" }, { percentage: 66, message: "Almost done" });
+
+    expect(screen.getByText("Starting verification...")).toBeInTheDocument();
+  });
+
+  it("shows a cached result straight away", async () => {
+    mockVerifyEligibility.mockResolvedValue(mutationResult(verified, true));
+    renderVerification();
+
+    await clickVerify();
+
+    expect(screen.getByText("Verified")).toBeInTheDocument();
+    expect(screen.getByText(/check from the last 24 hours/i)).toBeInTheDocument();
+  });
+
+  it("explains a failure with next steps and support contact", async () => {
+    mockVerifyEligibility.mockResolvedValue(mutationResult(failed));
+    renderVerification();
+
+    await clickVerify();
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Unable to Verify");
+    expect(screen.getByText("We couldn't find your plan.")).toBeInTheDocument();
+    expect(
+      screen.getByText("The member ID didn't match the payer's records.")
+    ).toBeInTheDocument();
+    expect(screen.getByText("Check the member ID on your card")).toBeInTheDocument();
+    expect(screen.getByText("Talk to an insurance specialist")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "1-800-555-0100" })).toHaveAttribute(
+      "href",
+      "tel:1-800-555-0100"
+    );
+    expect(screen.getByRole("link", { name: "insurance@daybreakhealth.com" })).toHaveAttribute(
+      "href",
+      "mailto:insurance@daybreakhealth.com"
+    );
+  });
+
+  it("waits longer before each retry", async () => {
+    vi.useFakeTimers();
+    mockVerifyEligibility.mockResolvedValue(mutationResult(failed));
+    renderVerification();
+
+    await clickVerify();
+
+    const firstWait = screen.getByRole("button", { name: "Try again in 5s" });
+    expect(firstWait).toBeDisabled();
+    expect(screen.getByText("3 tries left")).toBeInTheDocument();
+
+    for (let second = 0; second < 5; second++) {
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+    }
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Try again" }));
+    });
+
+    expect(mockVerifyEligibility).toHaveBeenCalledTimes(2);
+    expect(screen.getByRole("button", { name: "Try again in 10s" })).toBeDisabled();
+    expect(screen.getByText("2 tries left")).toBeInTheDocument();
+  });
+
+  it("stops offering retries when the backend won't allow another check", async () => {
+    mockVerifyEligibility.mockResolvedValue(
+      mutationResult({ ...failed, canRetryVerification: false, retryAttempts: 3 })
+    );
+    renderVerification();
+
+    await clickVerify();
+
+    expect(screen.queryByRole("button", { name: /try again/i })).not.toBeInTheDocument();
+    expect(screen.getByText(/can't check again right now/i)).toBeInTheDocument();
+  });
+
+  it("shows the error when verification can't start", async () => {
+    mockVerifyEligibility.mockResolvedValue({
+      data: {
+        verifyEligibility: {
+          insurance: null,
+          cached: false,
+          errors: [{ field: "insuranceId", message: "Insurance record not found" }],
+        },
+      },
+    });
+    renderVerification();
+
+    await clickVerify();
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Insurance record not found");
+    expect(screen.getByRole("button", { name: /try again in 5s/i })).toBeInTheDocument();
+  });
+
+  it("gives up when no result arrives in time", async () => {
+    vi.useFakeTimers();
+    mockVerifyEligibility.mockResolvedValue(mutationResult(insurance()));
+    renderVerification();
+
+    await clickVerify();
+    act(() => {
+      vi.advanceTimersByTime(VERIFICATION_TIMEOUT_MS);
+    });
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/taking longer than expected/i);
+    expect(subscription?.skip).toBe(true);
+  });
+});
+
+describe("getVerificationRetryDelay", () => {
+  it("doubles the wait up to the cap", () => {
+    expect(getVerificationRetryDelay(0)).toBe(5000);
+    expect(getVerificationRetryDelay(1)).toBe(10000);
+    expect(getVerificationRetryDelay(2)).toBe(20000);
+    expect(getVerificationRetryDelay(3)).toBe(30000);
+  });
+});
+
+describe("InsuranceConfirmation verification step", () => {
+  const insuranceInfo = {
+    id: INSURANCE_ID,
+    payerName: "Aetna",
+    subscriberName: "Jane Doe",
+    memberId: "W123456789",
+    groupNumber: null,
+    verificationStatus: "pending" as const,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("only offers verification when it has a session", () => {
+    const { rerender } = render(<InsuranceConfirmation insuranceInfo={insuranceInfo} />);
+
+    expect(screen.queryByRole("button", { name: /verify my coverage/i })).not.toBeInTheDocument();
+
+    rerender(<InsuranceConfirmation insuranceInfo={insuranceInfo} sessionId={SESSION_ID} />);
+
+    expect(screen.getByRole("button", { name: /verify my coverage/i })).toBeInTheDocument();
+  });
+
+  it("updates the status badge with the result", async () => {
+    mockVerifyEligibility.mockResolvedValue(mutationResult(failed));
+    render(<InsuranceConfirmation insuranceInfo={insuranceInfo} sessionId={SESSION_ID} />);
+
+    expect(screen.getByText("Verification Pending")).toBeInTheDocument();
+
+    await clickVerify();
+
+    expect(screen.getByText("Verification Failed")).toBeInTheDocument();
+  });
+});
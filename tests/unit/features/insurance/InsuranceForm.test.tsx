@@ -428,4 +428,52 @@ describe("InsuranceForm", () => {
       expect(screen.getByLabelText(/name on insurance card/i)).toHaveValue("Jane Doe");
     });
   });
+
+  describe("Carrier Member ID Format", () => {
+    const carrierData = {
+      carrier: "aetna",
+      groupNumber: "",
+      subscriberName: "Jane Doe",
+      relationshipToSubscriber: "Self" as const,
+    };
+
+    it("should show a looks-right indicator for an ID in the carrier's format", () => {
+      render(
+        <InsuranceForm
+          {...defaultProps}
+          initialData={{ ...carrierData, memberId: "W123456789" }}
+        />
+      );
+
+      expect(screen.getByRole("status")).toHaveTextContent("Looks right for Aetna");
+    });
+
+    it("should show the carrier's format error and normalize on blur", async () => {
+      const user = userEvent.setup();
+      render(
+        <InsuranceForm
+          {...defaultProps}
+          initialData={{ ...carrierData, memberId: "W1" }}
+        />
+      );
+
+      const input = screen.getByLabelText(/member id/i);
+      await user.clear(input);
+      await user.type(input, "123456789");
+      await waitFor(() => {
+        expect(
+          screen.getByText("Add the letter W at the start of your member ID")
+        ).toBeInTheDocument();
+      });
+
+      await user.clear(input);
+      await user.type(input, "w12345678o");
+      await user.tab();
+
+      await waitFor(() => {
+        expect(input).toHaveValue("W123456780");
+        expect(screen.getByText("Looks right for Aetna")).toBeInTheDocument();
+      });
+    });
+  });
 });
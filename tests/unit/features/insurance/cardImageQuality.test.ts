@@ -0,0 +1,268 @@
+/**
+ * Unit tests for the insurance card image quality pipeline
+ *
+ * Tests cover:
+ * - Sharpness, exposure and glare measurements
+ * - Card edge detection on synthetic photos
+ * - Issue reporting and thresholds
+ * - Perspective transform and crop
+ * - Size helpers
+ */
+import { describe, it, expect } from "vitest";
+import {
+  assessCardImage,
+  computePerspectiveTransform,
+  detectCardEdges,
+  fitWithin,
+  measureExposure,
+  measureSharpness,
+  quadArea,
+  scaleQuad,
+  toGrayscale,
+  warpPerspective,
+  type CardQuad,
+  type ImageDataLike,
+} from "@/features/insurance/cardImageQuality";
+
+const WIDTH = 320;
+const HEIGHT = 240;
+
+/**
+ * Card placed in the synthetic frame (aspect ~1.586)
+ */
+const CARD = { left: 60, top: 57, right: 260, bottom: 183 };
+
+/**
+ * Builds a grayscale RGBA image from a luminance function
+ */
+function makeImage(
+  luminance: (x: number, y: number) => number,
+  width = WIDTH,
+  height = HEIGHT
+): ImageDataLike {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const value = luminance(x, y);
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function isOnCard(x: number, y: number): boolean {
+  return x >= CARD.left && x <= CARD.right && y >= CARD.top && y <= CARD.bottom;
+}
+
+/**
+ * Light card with printed lines on a dark table
+ */
+function cardPhoto(options: { scale?: number; glare?: boolean } = {}): ImageDataLike {
+  const { scale = 1, glare = false } = options;
+  return makeImage((x, y) => {
+    if (!isOnCard(x, y)) return 40 * scale;
+    if (glare && x > 100 && x < 180 && y > 80 && y < 140) return 255;
+    const isText = y > CARD.top + 20 && y < CARD.bottom - 20 && x > CARD.left + 15 && x < CARD.right - 15;
+    return (isText && y % 4 < 2 && x % 6 < 4 ? 60 : 200) * scale;
+  });
+}
+
+/**
+ * Box blur applied repeatedly to simulate an out-of-focus photo
+ */
+function blur(image: ImageDataLike, passes = 4): ImageDataLike {
+  let gray = toGrayscale(image);
+  const { width, height } = image;
+  for (let pass = 0; pass < passes; pass++) {
+    const next = new Float32Array(gray.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        let count = 0;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+              sum += gray[ny * width + nx];
+              count++;
+            }
+          }
+        }
+        next[y * width + x] = sum / count;
+      }
+    }
+    gray = next;
+  }
+  return makeImage((x, y) => gray[y * width + x], width, height);
+}
+
+describe("measurements", () => {
+  it("toGrayscale uses luminance weights", () => {
+    const image: ImageDataLike = {
+      width: 1,
+      height: 1,
+      data: new Uint8ClampedArray([255, 0, 0, 255]),
+    };
+    expect(toGrayscale(image)[0]).toBeCloseTo(76.245, 2);
+  });
+
+  it("measureSharpness is zero for a flat image and drops with blur", () => {
+    const flat = toGrayscale(makeImage(() => 128));
+    expect(measureSharpness(flat, WIDTH, HEIGHT)).toBe(0);
+
+    const sharp = measureSharpness(toGrayscale(cardPhoto()), WIDTH, HEIGHT);
+    const blurred = measureSharpness(toGrayscale(blur(cardPhoto())), WIDTH, HEIGHT);
+    expect(blurred).toBeLessThan(sharp / 10);
+  });
+
+  it("measureExposure reports mean brightness and glare share", () => {
+    const gray = toGrayscale(makeImage((x) => (x < WIDTH / 2 ? 255 : 0)));
+    const { brightness, glareRatio } = measureExposure(gray, WIDTH, HEIGHT);
+    expect(brightness).toBeCloseTo(127.5, 0);
+    expect(glareRatio).toBeCloseTo(0.5, 2);
+  });
+});
+
+describe("detectCardEdges", () => {
+  it("finds the corners of a card on a contrasting background", () => {
+    const quad = detectCardEdges(toGrayscale(cardPhoto()), WIDTH, HEIGHT);
+
+    expect(quad).not.toBeNull();
+    const tolerance = 4;
+    expect(Math.abs(quad!.topLeft.x - CARD.left)).toBeLessThanOrEqual(tolerance);
+    expect(Math.abs(quad!.topLeft.y - CARD.top)).toBeLessThanOrEqual(tolerance);
+    expect(Math.abs(quad!.bottomRight.x - CARD.right)).toBeLessThanOrEqual(tolerance);
+    expect(Math.abs(quad!.bottomRight.y - CARD.bottom)).toBeLessThanOrEqual(tolerance);
+  });
+
+  it("returns null when there is no card", () => {
+    expect(detectCardEdges(toGrayscale(makeImage(() => 128)), WIDTH, HEIGHT)).toBeNull();
+  });
+
+  it("returns null when the card is too small in the frame", () => {
+    const tiny = makeImage((x, y) => (x > 150 && x < 182 && y > 110 && y < 130 ? 220 : 40));
+    expect(detectCardEdges(toGrayscale(tiny), WIDTH, HEIGHT)).toBeNull();
+  });
+
+  it("returns null for shapes that aren't card-shaped", () => {
+    const square = makeImage((x, y) => (x > 60 && x < 230 && y > 35 && y < 205 ? 220 : 40));
+    expect(detectCardEdges(toGrayscale(square), WIDTH, HEIGHT)).toBeNull();
+  });
+});
+
+describe("assessCardImage", () => {
+  it("accepts a sharp, well-lit card", () => {
+    const report = assessCardImage(cardPhoto());
+
+    expect(report.issues).toEqual([]);
+    expect(report.isAcceptable).toBe(true);
+    expect(report.corners).not.toBeNull();
+  });
+
+  it("flags a blurry photo", () => {
+    expect(assessCardImage(blur(cardPhoto())).issues).toContain("blurry");
+  });
+
+  it("flags a dark photo", () => {
+    expect(assessCardImage(cardPhoto({ scale: 0.25 })).issues).toContain("too_dark");
+  });
+
+  it("flags an overexposed photo", () => {
+    const washedOut = makeImage((x, y) => (isOnCard(x, y) ? 245 : 120));
+    expect(assessCardImage(washedOut).issues).toContain("too_bright");
+  });
+
+  it("flags glare on the card", () => {
+    expect(assessCardImage(cardPhoto({ glare: true })).issues).toContain("glare");
+  });
+
+  it("flags a missing card and lists issues in priority order", () => {
+    const report = assessCardImage(makeImage(() => 20));
+    expect(report.issues).toEqual(["card_not_found", "too_dark", "blurry"]);
+    expect(report.isAcceptable).toBe(false);
+  });
+
+  it("skips the card check when requireCard is false", () => {
+    expect(assessCardImage(makeImage(() => 128), { requireCard: false }).issues).not.toContain(
+      "card_not_found"
+    );
+  });
+
+  it("applies threshold overrides", () => {
+    const report = assessCardImage(cardPhoto(), { thresholds: { minSharpness: 1e9 } });
+    expect(report.issues).toEqual(["blurry"]);
+  });
+});
+
+describe("perspective crop", () => {
+  const quad: CardQuad = {
+    topLeft: { x: 10, y: 20 },
+    topRight: { x: 110, y: 25 },
+    bottomRight: { x: 105, y: 90 },
+    bottomLeft: { x: 5, y: 85 },
+  };
+
+  it("computePerspectiveTransform maps the output corners to the quad", () => {
+    const h = computePerspectiveTransform(quad, 200, 126)!;
+    const apply = (x: number, y: number) => {
+      const w = h[6] * x + h[7] * y + h[8];
+      return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+    };
+
+    expect(apply(0, 0).x).toBeCloseTo(10);
+    expect(apply(0, 0).y).toBeCloseTo(20);
+    expect(apply(200, 0).x).toBeCloseTo(110);
+    expect(apply(200, 126).y).toBeCloseTo(90);
+    expect(apply(0, 126).x).toBeCloseTo(5);
+  });
+
+  it("returns null for a degenerate quad", () => {
+    const point = { x: 5, y: 5 };
+    const collapsed: CardQuad = { topLeft: point, topRight: point, bottomRight: point, bottomLeft: point };
+    expect(computePerspectiveTransform(collapsed, 10, 10)).toBeNull();
+  });
+
+  it("warpPerspective crops the card region", () => {
+    const photo = cardPhoto();
+    const cropped = warpPerspective(
+      photo,
+      {
+        topLeft: { x: CARD.left, y: CARD.top },
+        topRight: { x: CARD.right, y: CARD.top },
+        bottomRight: { x: CARD.right, y: CARD.bottom },
+        bottomLeft: { x: CARD.left, y: CARD.bottom },
+      },
+      100,
+      63
+    )!;
+
+    expect(cropped.width).toBe(100);
+    expect(cropped.height).toBe(63);
+    expect(cropped.data).toHaveLength(100 * 63 * 4);
+
+    // No dark table left in the crop
+    const { brightness } = measureExposure(toGrayscale(cropped), 100, 63);
+    expect(brightness).toBeGreaterThan(150);
+  });
+});
+
+describe("size helpers", () => {
+  it("fitWithin downscales to the max dimension without upscaling", () => {
+    expect(fitWithin(1920, 1080, 480)).toEqual({ width: 480, height: 270 });
+    expect(fitWithin(300, 200, 480)).toEqual({ width: 300, height: 200 });
+  });
+
+  it("quadArea and scaleQuad", () => {
+    const square: CardQuad = {
+      topLeft: { x: 0, y: 0 },
+      topRight: { x: 10, y: 0 },
+      bottomRight: { x: 10, y: 10 },
+      bottomLeft: { x: 0, y: 10 },
+    };
+    expect(quadArea(square)).toBe(100);
+    expect(quadArea(scaleQuad(square, 2))).toBe(400);
+  });
+});
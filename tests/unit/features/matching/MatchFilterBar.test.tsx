@@ -0,0 +1,106 @@
+/**
+ * Unit tests for MatchFilterBar component
+ *
+ * Tests cover:
+ * - Facet chips reflect the current filters
+ * - Toggling chips reports updated filters
+ * - Language facet hidden with a single language
+ * - Result count and Clear filters
+ */
+
+import * as React from "react";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { MatchFilterBar } from "@/features/matching/MatchFilterBar";
+import { DEFAULT_MATCH_FILTERS } from "@/features/matching/matchFilters";
+
+describe("MatchFilterBar", () => {
+  function renderBar(props: Partial<React.ComponentProps<typeof MatchFilterBar>> = {}) {
+    const onFiltersChange = vi.fn();
+    const onClearFilters = vi.fn();
+    render(
+      <MatchFilterBar
+        filters={DEFAULT_MATCH_FILTERS}
+        onFiltersChange={onFiltersChange}
+        onClearFilters={onClearFilters}
+        specialtyOptions={["Anxiety", "ADHD"]}
+        languageOptions={["English", "Spanish"]}
+        resultCount={3}
+        totalCount={3}
+        {...props}
+      />
+    );
+    return { onFiltersChange, onClearFilters };
+  }
+
+  it("renders a labelled region with a group per facet", () => {
+    renderBar();
+
+    const region = screen.getByRole("region", { name: "Filter and sort matches" });
+    ["Specialty", "Language", "Availability", "Experience", "Sort by"].forEach((label) => {
+      expect(within(region).getByRole("group", { name: label })).toBeInTheDocument();
+    });
+  });
+
+  it("reflects current filters with aria-pressed", () => {
+    renderBar({
+      filters: { ...DEFAULT_MATCH_FILTERS, specialties: ["ADHD"], minYears: 10, sort: "experience" },
+    });
+
+    expect(screen.getByRole("button", { name: "ADHD" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByRole("button", { name: "Anxiety" })).toHaveAttribute("aria-pressed", "false");
+    expect(screen.getByRole("button", { name: "10+ years" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByRole("button", { name: "Most experienced" })).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("adds and removes specialties", () => {
+    const { onFiltersChange } = renderBar({
+      filters: { ...DEFAULT_MATCH_FILTERS, specialties: ["ADHD"] },
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Anxiety" }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({
+      ...DEFAULT_MATCH_FILTERS,
+      specialties: ["ADHD", "Anxiety"],
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "ADHD" }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_MATCH_FILTERS, specialties: [] });
+  });
+
+  it("updates availability, experience and sort", () => {
+    const { onFiltersChange } = renderBar();
+
+    fireEvent.click(screen.getByRole("button", { name: "Available this week" }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_MATCH_FILTERS, availableThisWeek: true });
+
+    fireEvent.click(screen.getByRole("button", { name: "5+ years" }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_MATCH_FILTERS, minYears: 5 });
+
+    fireEvent.click(screen.getByRole("button", { name: "Soonest available" }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_MATCH_FILTERS, sort: "availability" });
+  });
+
+  it("hides the language facet when everyone speaks one language", () => {
+    renderBar({ languageOptions: ["English"] });
+
+    expect(screen.queryByRole("group", { name: "Language" })).not.toBeInTheDocument();
+  });
+
+  it("shows the result count and Clear filters once filtered", () => {
+    const { onClearFilters } = renderBar({
+      filters: { ...DEFAULT_MATCH_FILTERS, availableThisWeek: true },
+      resultCount: 2,
+    });
+
+    expect(screen.getByText("Showing 2 of 3 matches")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Clear filters" }));
+    expect(onClearFilters).toHaveBeenCalledTimes(1);
+  });
+
+  it("hides Clear filters when only the sort order changed", () => {
+    renderBar({ filters: { ...DEFAULT_MATCH_FILTERS, sort: "availability" } });
+
+    expect(screen.queryByRole("button", { name: "Clear filters" })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for SelectTherapistDialog component
+ *
+ * Tests cover:
+ * - Confirmation title and actions
+ * - Match reasons ticked by default, general reasons unticked
+ * - Ticked reasons passed on confirm
+ * - Loading and error states
+ */
+
+import * as React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { SelectTherapistDialog } from "@/features/matching/SelectTherapistDialog";
+
+describe("SelectTherapistDialog", () => {
+  const therapist = {
+    id: "therapist-1",
+    name: "Dr. Sarah Chen",
+    matchReasons: [
+      { id: "reason-1", text: "Specializes in teen anxiety" },
+      { id: "reason-2", text: "Available within 3 days" },
+    ],
+  };
+
+  function renderDialog(props: Partial<React.ComponentProps<typeof SelectTherapistDialog>> = {}) {
+    const onConfirm = vi.fn();
+    const onOpenChange = vi.fn();
+    render(
+      <SelectTherapistDialog
+        open={true}
+        onOpenChange={onOpenChange}
+        therapist={therapist}
+        onConfirm={onConfirm}
+        {...props}
+      />
+    );
+    return { onConfirm, onOpenChange };
+  }
+
+  it("asks to confirm the therapist", () => {
+    renderDialog();
+
+    expect(screen.getByRole("dialog", { name: "Choose Dr. Sarah Chen?" })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Choose Dr." })).toBeInTheDocument();
+  });
+
+  it("ticks the therapist's match reasons by default", () => {
+    renderDialog();
+
+    expect(screen.getByRole("checkbox", { name: "Specializes in teen anxiety" })).toBeChecked();
+    expect(screen.getByRole("checkbox", { name: "Available within 3 days" })).toBeChecked();
+    expect(screen.getByRole("checkbox", { name: "Their availability works for our schedule" })).not.toBeChecked();
+  });
+
+  it("confirms with the ticked reasons in display order", () => {
+    const { onConfirm } = renderDialog();
+
+    fireEvent.click(screen.getByRole("checkbox", { name: "Available within 3 days" }));
+    fireEvent.click(screen.getByRole("checkbox", { name: "Their availability works for our schedule" }));
+    fireEvent.click(screen.getByRole("button", { name: "Choose Dr." }));
+
+    expect(onConfirm).toHaveBeenCalledWith([
+      "Specializes in teen anxiety",
+      "Their availability works for our schedule",
+    ]);
+  });
+
+  it("closes when Keep looking is clicked", () => {
+    const { onOpenChange } = renderDialog();
+
+    fireEvent.click(screen.getByRole("button", { name: "Keep looking" }));
+
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it("disables actions while saving", () => {
+    renderDialog({ isLoading: true });
+
+    expect(screen.getByRole("button", { name: "Saving..." })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Keep looking" })).toBeDisabled();
+  });
+
+  it("shows save errors", () => {
+    renderDialog({ error: "We couldn't save your choice. Please try again." });
+
+    expect(screen.getByRole("alert")).toHaveTextContent("We couldn't save your choice.");
+  });
+
+  it("renders nothing without a therapist", () => {
+    renderDialog({ therapist: null });
+
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+});
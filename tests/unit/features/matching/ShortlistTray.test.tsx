@@ -0,0 +1,66 @@
+/**
+ * Unit tests for ShortlistTray component
+ *
+ * Tests cover:
+ * - Hidden when the shortlist is empty
+ * - Saved therapists and count
+ * - Remove, clear and compare actions
+ * - Compare disabled until two therapists are saved
+ */
+
+import * as React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { ShortlistTray } from "@/features/matching/ShortlistTray";
+
+describe("ShortlistTray", () => {
+  const therapists = [
+    { id: "therapist-1", name: "Dr. Sarah Chen" },
+    { id: "therapist-2", name: "Michael Torres" },
+  ];
+
+  function renderTray(props: Partial<React.ComponentProps<typeof ShortlistTray>> = {}) {
+    const handlers = { onRemove: vi.fn(), onCompare: vi.fn(), onClear: vi.fn() };
+    render(<ShortlistTray therapists={therapists} maxSize={3} {...handlers} {...props} />);
+    return handlers;
+  }
+
+  it("renders nothing when the shortlist is empty", () => {
+    renderTray({ therapists: [] });
+
+    expect(screen.queryByRole("region", { name: "Therapist shortlist" })).not.toBeInTheDocument();
+  });
+
+  it("lists saved therapists with the count", () => {
+    renderTray();
+
+    expect(screen.getByText("Your shortlist (2 of 3)")).toBeInTheDocument();
+    expect(screen.getByText("Dr. Sarah Chen")).toBeInTheDocument();
+    expect(screen.getByText("Michael Torres")).toBeInTheDocument();
+  });
+
+  it("removes a therapist", () => {
+    const { onRemove } = renderTray();
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove Michael Torres from shortlist" }));
+
+    expect(onRemove).toHaveBeenCalledWith("therapist-2");
+  });
+
+  it("opens the comparison and clears the shortlist", () => {
+    const { onCompare, onClear } = renderTray();
+
+    fireEvent.click(screen.getByRole("button", { name: "Compare" }));
+    fireEvent.click(screen.getByRole("button", { name: "Clear" }));
+
+    expect(onCompare).toHaveBeenCalledTimes(1);
+    expect(onClear).toHaveBeenCalledTimes(1);
+  });
+
+  it("disables Compare until two therapists are saved", () => {
+    renderTray({ therapists: [therapists[0]] });
+
+    expect(screen.getByRole("button", { name: "Compare" })).toBeDisabled();
+    expect(screen.getByText("Save one more therapist to compare them side by side.")).toBeInTheDocument();
+  });
+});
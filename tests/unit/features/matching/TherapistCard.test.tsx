@@ -356,6 +356,101 @@ describe("TherapistCard", () => {
     });
   });
 
+  describe("Profile Prefetch", () => {
+    it("should call onPrefetchProfile on hover and focus", () => {
+      const mockOnPrefetchProfile = vi.fn();
+      const { container } = render(
+        <TherapistCard
+          therapist={mockTherapist}
+          onBookNow={mockOnBookNow}
+          onViewProfile={mockOnViewProfile}
+          onPrefetchProfile={mockOnPrefetchProfile}
+        />
+      );
+
+      const card = container.firstChild as HTMLElement;
+      fireEvent.mouseEnter(card);
+      fireEvent.focus(screen.getByRole("button", { name: "Book appointment with Dr. Sarah Chen" }));
+
+      expect(mockOnPrefetchProfile).toHaveBeenCalledTimes(2);
+      expect(mockOnPrefetchProfile).toHaveBeenCalledWith("therapist-1");
+    });
+  });
+
+  describe("Match Score Breakdown", () => {
+    const scoreBreakdown = {
+      specializationScore: 100,
+      ageRangeScore: 95,
+      availabilityScore: 90,
+      modalityScore: 90,
+    };
+
+    it("should not render the breakdown toggle without a breakdown", () => {
+      render(<TherapistCard therapist={mockTherapist} />);
+
+      expect(screen.queryByRole("button", { name: /how this match was scored/i })).not.toBeInTheDocument();
+    });
+
+    it("should expand the weighted breakdown", () => {
+      render(<TherapistCard therapist={mockTherapist} scoreBreakdown={scoreBreakdown} />);
+
+      const toggle = screen.getByRole("button", { name: /how this match was scored/i });
+      expect(toggle).toHaveAttribute("aria-expanded", "false");
+
+      fireEvent.click(toggle);
+
+      expect(toggle).toHaveAttribute("aria-expanded", "true");
+      expect(screen.getByText("+40 pts")).toBeInTheDocument();
+      expect(screen.getByText("+28.5 pts")).toBeInTheDocument();
+      expect(screen.getByRole("img", { name: /match score of 95/i })).toBeInTheDocument();
+    });
+  });
+
+  describe("Shortlist", () => {
+    it("should not render Save without a shortlist handler", () => {
+      render(<TherapistCard therapist={mockTherapist} />);
+
+      expect(screen.queryByRole("button", { name: /shortlist/i })).not.toBeInTheDocument();
+    });
+
+    it("should toggle the shortlist when Save is clicked", () => {
+      const mockOnToggleShortlist = vi.fn();
+      render(<TherapistCard therapist={mockTherapist} onToggleShortlist={mockOnToggleShortlist} />);
+
+      const saveButton = screen.getByRole("button", { name: "Save Dr. Sarah Chen to shortlist" });
+      expect(saveButton).toHaveAttribute("aria-pressed", "false");
+
+      fireEvent.click(saveButton);
+      expect(mockOnToggleShortlist).toHaveBeenCalledWith("therapist-1");
+    });
+
+    it("should disable Save when the shortlist is full", () => {
+      render(
+        <TherapistCard therapist={mockTherapist} onToggleShortlist={vi.fn()} isShortlistFull={true} />
+      );
+
+      const saveButton = screen.getByRole("button", { name: "Save Dr. Sarah Chen to shortlist" });
+      expect(saveButton).toBeDisabled();
+      expect(saveButton).toHaveTextContent("Shortlist full");
+    });
+
+    it("should keep removal enabled for shortlisted therapists when full", () => {
+      render(
+        <TherapistCard
+          therapist={mockTherapist}
+          onToggleShortlist={vi.fn()}
+          isShortlisted={true}
+          isShortlistFull={true}
+        />
+      );
+
+      const removeButton = screen.getByRole("button", { name: "Remove Dr. Sarah Chen from shortlist" });
+      expect(removeButton).toBeEnabled();
+      expect(removeButton).toHaveAttribute("aria-pressed", "true");
+      expect(removeButton).toHaveTextContent("Saved");
+    });
+  });
+
   describe("Accessibility", () => {
     it("should have proper ARIA labels on action buttons", () => {
       render(
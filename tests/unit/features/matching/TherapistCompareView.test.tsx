@@ -0,0 +1,152 @@
+/**
+ * Unit tests for TherapistCompareView component
+ *
+ * Tests cover:
+ * - Side-by-side columns per therapist
+ * - Specialties, languages, experience and availability
+ * - Overall and per-component points
+ * - Highlighting of differing components and leaders
+ * - Summary of the biggest difference
+ * - Choose action per therapist
+ */
+
+import * as React from "react";
+import { render, screen, within, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import {
+  TherapistCompareView,
+  type CompareTherapist,
+} from "@/features/matching/TherapistCompareView";
+
+describe("TherapistCompareView", () => {
+  const therapists: CompareTherapist[] = [
+    {
+      id: "therapist-1",
+      name: "Dr. Sarah Chen",
+      credentials: "LMFT, PhD",
+      matchScore: 80,
+      specialties: ["Anxiety", "Teen Issues"],
+      languages: ["English", "Mandarin"],
+      yearsOfExperience: 12,
+      availabilityText: "Available this week",
+      breakdown: { specializationScore: 90, ageRangeScore: 80, availabilityScore: 50, modalityScore: 100 },
+    },
+    {
+      id: "therapist-2",
+      name: "Michael Torres",
+      credentials: "LCSW",
+      matchScore: 78,
+      specialties: ["Anxiety", "ADHD"],
+      languages: ["English"],
+      yearsOfExperience: 1,
+      availabilityText: "Available next week",
+      breakdown: { specializationScore: 60, ageRangeScore: 80, availabilityScore: 95, modalityScore: 90 },
+    },
+  ];
+
+  function renderView(props: Partial<React.ComponentProps<typeof TherapistCompareView>> = {}) {
+    return render(
+      <TherapistCompareView open={true} onOpenChange={vi.fn()} therapists={therapists} {...props} />
+    );
+  }
+
+  it("renders a column per therapist", () => {
+    renderView();
+
+    const headers = screen.getAllByRole("columnheader");
+    expect(headers).toHaveLength(3);
+    expect(headers[1]).toHaveTextContent("Dr. Sarah Chen");
+    expect(headers[2]).toHaveTextContent("Michael Torres");
+  });
+
+  it("compares specialties, languages, experience and availability", () => {
+    renderView();
+
+    const specialties = screen.getByRole("row", { name: /specialties/i });
+    expect(within(specialties).getAllByText("Anxiety")).toHaveLength(2);
+    expect(within(specialties).getByText("Teen Issues")).toHaveTextContent("(not shared by all)");
+    expect(within(specialties).getAllByText("Anxiety")[0]).not.toHaveTextContent("(not shared by all)");
+
+    const languages = screen.getByRole("row", { name: /languages/i });
+    expect(within(languages).getByText("Mandarin")).toHaveTextContent("(not shared by all)");
+
+    const experience = screen.getByRole("row", { name: /experience/i });
+    expect(within(experience).getByText("12 years")).toBeInTheDocument();
+    expect(within(experience).getByText("1 year")).toBeInTheDocument();
+
+    const availability = screen.getByRole("row", { name: /available this week/i });
+    expect(within(availability).getByText("Available next week")).toBeInTheDocument();
+  });
+
+  it("hides the score breakdown unless every therapist has one", () => {
+    renderView({ therapists: [therapists[0], { ...therapists[1], breakdown: null, languages: null }] });
+
+    expect(screen.queryByText("Score breakdown")).not.toBeInTheDocument();
+    expect(screen.queryByRole("row", { name: /specialization/i })).not.toBeInTheDocument();
+    expect(screen.getByText("See how your shortlisted therapists compare.")).toBeInTheDocument();
+  });
+
+  it("calls onChooseTherapist for the chosen column", () => {
+    const onChooseTherapist = vi.fn();
+    renderView({ onChooseTherapist });
+
+    fireEvent.click(screen.getByRole("button", { name: "Choose Michael Torres" }));
+
+    expect(onChooseTherapist).toHaveBeenCalledWith("therapist-2");
+  });
+
+  it("shows overall scores and component contributions", () => {
+    renderView();
+
+    const overall = screen.getByRole("row", { name: /overall match/i });
+    expect(within(overall).getByText("80")).toBeInTheDocument();
+    expect(within(overall).getByText("78")).toBeInTheDocument();
+
+    const specialization = screen.getByRole("row", { name: /specialization/i });
+    expect(within(specialization).getByText("36")).toBeInTheDocument();
+    expect(within(specialization).getByText("24")).toBeInTheDocument();
+  });
+
+  it("highlights components that differ and marks the leader", () => {
+    renderView();
+
+    const specialization = screen.getByRole("row", { name: /specialization/i });
+    expect(within(specialization).getByText("Differs by 12 pts")).toBeInTheDocument();
+    expect(within(specialization).getByText("(leads)").closest("td")).toHaveTextContent("36");
+
+    const ageRange = screen.getByRole("row", { name: /age range/i });
+    expect(within(ageRange).queryByText(/differs by/i)).not.toBeInTheDocument();
+    expect(within(ageRange).queryByText("(leads)")).not.toBeInTheDocument();
+  });
+
+  it("summarizes the biggest difference", () => {
+    renderView();
+
+    expect(
+      screen.getByText("The biggest difference is specialization, where Dr. Sarah Chen scored higher.")
+    ).toBeInTheDocument();
+  });
+
+  it("explains when therapists scored similarly", () => {
+    renderView({
+      therapists: [therapists[0], { ...therapists[1], breakdown: therapists[0].breakdown }],
+    });
+
+    expect(
+      screen.getByText("These therapists scored similarly on every part of the match.")
+    ).toBeInTheDocument();
+  });
+
+  it("shows at most three therapists", () => {
+    renderView({
+      therapists: [
+        ...therapists,
+        { ...therapists[0], id: "therapist-3", name: "Jordan Lee" },
+        { ...therapists[0], id: "therapist-4", name: "Priya Patel" },
+      ],
+    });
+
+    expect(screen.getAllByRole("columnheader")).toHaveLength(4);
+    expect(screen.queryByText("Priya Patel")).not.toBeInTheDocument();
+  });
+});
@@ -616,6 +616,63 @@ describe("TherapistProfileSheet", () => {
     });
   });
 
+  describe("Profile Loading", () => {
+    it("should show a skeleton and hide profile details while loading", () => {
+      render(
+        <TherapistProfileSheet
+          open={true}
+          onOpenChange={mockOnOpenChange}
+          therapist={mockTherapistProfile}
+          isLoadingProfile={true}
+        />
+      );
+
+      expect(screen.getByLabelText("Loading profile details")).toBeInTheDocument();
+      expect(screen.queryByText("Education")).not.toBeInTheDocument();
+      expect(screen.getByText("Dr. Sarah Chen")).toBeInTheDocument();
+    });
+
+    it("should show the profile error with a retry action", () => {
+      const mockOnRetry = vi.fn();
+      render(
+        <TherapistProfileSheet
+          open={true}
+          onOpenChange={mockOnOpenChange}
+          therapist={mockTherapistProfile}
+          profileError="We couldn't load the full profile right now."
+          onRetryProfile={mockOnRetry}
+        />
+      );
+
+      const alert = screen.getByRole("alert");
+      expect(alert).toHaveTextContent("We couldn't load the full profile right now.");
+
+      fireEvent.click(within(alert).getByRole("button", { name: /try again/i }));
+      expect(mockOnRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it("should call onSelectSlot when an available slot is chosen", () => {
+      const mockOnSelectSlot = vi.fn();
+      render(
+        <TherapistProfileSheet
+          open={true}
+          onOpenChange={mockOnOpenChange}
+          therapist={mockTherapistProfile}
+          onSelectSlot={mockOnSelectSlot}
+        />
+      );
+
+      const slotButtons = screen.getAllByRole("button", { name: /^Book .* at .* with Dr\. Sarah Chen$/ });
+      expect(slotButtons).toHaveLength(3);
+
+      fireEvent.click(slotButtons[0]);
+      expect(mockOnSelectSlot).toHaveBeenCalledWith("therapist-1", {
+        id: "slot-1",
+        datetime: "2024-12-05T14:00:00Z",
+      });
+    });
+  });
+
   describe("Booking Button", () => {
     it("should render sticky Book with [therapist] button", () => {
       render(
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for match filtering and re-ranking
+ *
+ * Tests cover:
+ * - Reading and writing filter state in the URL
+ * - Filtering by specialty, language, availability and experience
+ * - Sort orders with backend ranking as tie-breaker
+ * - Hidden best match and empty-filter fallback
+ * - Filter option collection
+ */
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MATCH_FILTERS,
+  applyMatchFilters,
+  collectFilterOptions,
+  hasActiveFilters,
+  parseMatchFilters,
+  sortMatches,
+  toMatchFilterParams,
+  type MatchFilters,
+} from "@/features/matching/matchFilters";
+
+const therapists = [
+  {
+    id: "chen",
+    name: "Dr. Sarah Chen",
+    specialties: ["Anxiety", "Teen Issues"],
+    availabilityStatus: "limited",
+    yearsOfExperience: 12,
+    matchScore: 92,
+    isBestMatch: true,
+  },
+  {
+    id: "torres",
+    name: "Michael Torres",
+    specialties: ["Anxiety", "ADHD"],
+    availabilityStatus: "available",
+    yearsOfExperience: 4,
+    matchScore: 85,
+    isBestMatch: false,
+  },
+  {
+    id: "patel",
+    name: "Priya Patel",
+    specialties: ["Depression"],
+    availabilityStatus: "available",
+    yearsOfExperience: null,
+    matchScore: 88,
+    isBestMatch: false,
+  },
+];
+
+const languages = {
+  chen: ["English", "Mandarin"],
+  torres: ["English", "Spanish"],
+  patel: ["English"],
+};
+
+function withFilters(filters: Partial<MatchFilters>): MatchFilters {
+  return { ...DEFAULT_MATCH_FILTERS, ...filters };
+}
+
+function ids(list: Array<{ id: string }>): string[] {
+  return list.map((therapist) => therapist.id);
+}
+
+describe("parseMatchFilters / toMatchFilterParams", () => {
+  it("round-trips filters through the URL", () => {
+    const filters = withFilters({
+      specialties: ["Anxiety", "Teen Issues"],
+      languages: ["Spanish"],
+      availableThisWeek: true,
+      minYears: 5,
+      sort: "experience",
+    });
+
+    const params = toMatchFilterParams(filters);
+
+    expect(params.toString()).toBe(
+      "specialty=Anxiety%2CTeen+Issues&language=Spanish&available=week&minYears=5&sort=experience"
+    );
+    expect(parseMatchFilters(params)).toEqual(filters);
+  });
+
+  it("omits defaults and keeps unrelated params", () => {
+    const base = new URLSearchParams("sort=experience&specialty=ADHD&ref=email");
+
+    expect(toMatchFilterParams(DEFAULT_MATCH_FILTERS, base).toString()).toBe("ref=email");
+  });
+
+  it("ignores invalid values", () => {
+    const filters = parseMatchFilters(
+      new URLSearchParams("sort=cheapest&minYears=abc&available=yes&specialty=,Anxiety,Anxiety")
+    );
+
+    expect(filters).toEqual(withFilters({ specialties: ["Anxiety"] }));
+  });
+
+  it("treats sort order as not filtering", () => {
+    expect(hasActiveFilters(withFilters({ sort: "availability" }))).toBe(false);
+    expect(hasActiveFilters(withFilters({ minYears: 10 }))).toBe(true);
+  });
+});
+
+describe("applyMatchFilters", () => {
+  it("keeps backend ranking with no filters", () => {
+    const result = applyMatchFilters(therapists, DEFAULT_MATCH_FILTERS, languages);
+
+    expect(ids(result.therapists)).toEqual(["chen", "patel", "torres"]);
+    expect(result.hiddenBestMatch).toBeNull();
+    expect(result.isEmpty).toBe(false);
+  });
+
+  it("matches any selected specialty", () => {
+    const result = applyMatchFilters(therapists, withFilters({ specialties: ["ADHD", "Depression"] }));
+
+    expect(ids(result.therapists)).toEqual(["patel", "torres"]);
+  });
+
+  it("requires every active facet to match", () => {
+    const result = applyMatchFilters(
+      therapists,
+      withFilters({ specialties: ["Anxiety"], languages: ["Spanish"], availableThisWeek: true }),
+      languages
+    );
+
+    expect(ids(result.therapists)).toEqual(["torres"]);
+  });
+
+  it("treats unknown experience as not meeting a minimum", () => {
+    const result = applyMatchFilters(therapists, withFilters({ minYears: 5 }));
+
+    expect(ids(result.therapists)).toEqual(["chen"]);
+  });
+
+  it("reports the best match when filters hide it", () => {
+    const result = applyMatchFilters(therapists, withFilters({ availableThisWeek: true }));
+
+    expect(ids(result.therapists)).toEqual(["patel", "torres"]);
+    expect(result.hiddenBestMatch?.id).toBe("chen");
+  });
+
+  it("falls back to every match when filters match nobody", () => {
+    const result = applyMatchFilters(
+      therapists,
+      withFilters({ languages: ["French"], sort: "experience" }),
+      languages
+    );
+
+    expect(result.isEmpty).toBe(true);
+    expect(result.hiddenBestMatch).toBeNull();
+    expect(ids(result.therapists)).toEqual(["chen", "torres", "patel"]);
+  });
+});
+
+describe("sortMatches", () => {
+  it("sorts by soonest availability, then backend ranking", () => {
+    expect(ids(sortMatches(therapists, "availability"))).toEqual(["patel", "torres", "chen"]);
+  });
+
+  it("sorts by experience with unknown experience last", () => {
+    expect(ids(sortMatches(therapists, "experience"))).toEqual(["chen", "torres", "patel"]);
+  });
+
+  it("doesn't mutate the input", () => {
+    const input = [...therapists];
+    sortMatches(input, "availability");
+
+    expect(input).toEqual(therapists);
+  });
+});
+
+describe("collectFilterOptions", () => {
+  it("orders options by how many therapists share them", () => {
+    expect(collectFilterOptions(therapists.map((t) => t.specialties))).toEqual([
+      "Anxiety",
+      "ADHD",
+      "Depression",
+      "Teen Issues",
+    ]);
+    expect(collectFilterOptions([["English"], null, ["English", "English"]])).toEqual(["English"]);
+  });
+});
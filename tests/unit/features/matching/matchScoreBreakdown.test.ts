@@ -0,0 +1,103 @@
+/**
+ * Unit tests for match score breakdown helpers
+ *
+ * Tests cover:
+ * - Weighted contributions per component
+ * - Weighted total
+ * - Component comparison, spread and leaders
+ * - Difference threshold
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DIFFERENCE_THRESHOLD_POINTS,
+  compareBreakdowns,
+  getWeightedContributions,
+  getWeightedTotal,
+  type ScoreBreakdown,
+} from "@/features/matching/matchScoreBreakdown";
+
+const breakdownA: ScoreBreakdown = {
+  specializationScore: 90,
+  ageRangeScore: 80,
+  availabilityScore: 50,
+  modalityScore: 100,
+};
+
+const breakdownB: ScoreBreakdown = {
+  specializationScore: 70,
+  ageRangeScore: 80,
+  availabilityScore: 95,
+  modalityScore: 90,
+};
+
+describe("getWeightedContributions", () => {
+  it("weights each component in order of weight", () => {
+    const contributions = getWeightedContributions(breakdownA);
+
+    expect(contributions.map((item) => [item.key, item.contribution, item.maxContribution])).toEqual([
+      ["specializationScore", 36, 40],
+      ["ageRangeScore", 24, 30],
+      ["availabilityScore", 10, 20],
+      ["modalityScore", 10, 10],
+    ]);
+  });
+
+  it("clamps out-of-range scores", () => {
+    const contributions = getWeightedContributions({
+      ...breakdownA,
+      specializationScore: 120,
+      modalityScore: -5,
+    });
+
+    expect(contributions[0]).toMatchObject({ score: 100, contribution: 40 });
+    expect(contributions[3]).toMatchObject({ score: 0, contribution: 0 });
+  });
+});
+
+describe("getWeightedTotal", () => {
+  it("sums the weighted contributions", () => {
+    expect(getWeightedTotal(breakdownA)).toBe(80);
+    expect(getWeightedTotal(breakdownB)).toBe(80);
+  });
+});
+
+describe("compareBreakdowns", () => {
+  const comparisons = compareBreakdowns([
+    { therapistId: "a", breakdown: breakdownA },
+    { therapistId: "b", breakdown: breakdownB },
+  ]);
+
+  it("reports the spread and leader for each component", () => {
+    const specialization = comparisons.find((item) => item.key === "specializationScore");
+    const availability = comparisons.find((item) => item.key === "availabilityScore");
+
+    expect(specialization).toMatchObject({ spread: 8, leaderIds: ["a"], differs: true });
+    expect(availability).toMatchObject({ spread: 9, leaderIds: ["b"], differs: true });
+  });
+
+  it("does not highlight tied or near-tied components", () => {
+    const ageRange = comparisons.find((item) => item.key === "ageRangeScore");
+    const modality = comparisons.find((item) => item.key === "modalityScore");
+
+    expect(ageRange).toMatchObject({ spread: 0, leaderIds: [], differs: false });
+    expect(modality?.spread).toBeLessThan(DIFFERENCE_THRESHOLD_POINTS);
+    expect(modality?.differs).toBe(false);
+  });
+
+  it("lists every therapist tied for the lead", () => {
+    const [specialization] = compareBreakdowns([
+      { therapistId: "a", breakdown: breakdownA },
+      { therapistId: "b", breakdown: breakdownB },
+      { therapistId: "c", breakdown: { ...breakdownB, specializationScore: 90 } },
+    ]);
+
+    expect(specialization.leaderIds).toEqual(["a", "c"]);
+  });
+
+  it("never marks differences for a single therapist", () => {
+    const result = compareBreakdowns([{ therapistId: "a", breakdown: breakdownA }]);
+
+    expect(result.every((item) => !item.differs)).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for useMatchFilters hook
+ *
+ * Tests cover:
+ * - Reading filters from the URL
+ * - Writing filters with router.replace, keeping other params
+ * - Clearing filters while keeping the sort order
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useMatchFilters } from "@/features/matching/useMatchFilters";
+import { DEFAULT_MATCH_FILTERS } from "@/features/matching/matchFilters";
+
+const mockReplace = vi.fn();
+let mockSearch = "";
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ replace: mockReplace }),
+  usePathname: () => "/onboarding/sess_1/matching",
+  useSearchParams: () => new URLSearchParams(mockSearch),
+}));
+
+describe("useMatchFilters", () => {
+  beforeEach(() => {
+    mockReplace.mockReset();
+    mockSearch = "";
+  });
+
+  it("reads filters from the URL", () => {
+    mockSearch = "specialty=Anxiety&available=week&sort=availability";
+    const { result } = renderHook(() => useMatchFilters());
+
+    expect(result.current.filters).toEqual({
+      ...DEFAULT_MATCH_FILTERS,
+      specialties: ["Anxiety"],
+      availableThisWeek: true,
+      sort: "availability",
+    });
+  });
+
+  it("writes filters to the URL without scrolling", () => {
+    mockSearch = "ref=email";
+    const { result } = renderHook(() => useMatchFilters());
+
+    act(() => result.current.setFilters({ ...DEFAULT_MATCH_FILTERS, minYears: 10 }));
+
+    expect(mockReplace).toHaveBeenCalledWith("/onboarding/sess_1/matching?ref=email&minYears=10", {
+      scroll: false,
+    });
+  });
+
+  it("clears filters but keeps the sort order", () => {
+    mockSearch = "language=Spanish&sort=experience";
+    const { result } = renderHook(() => useMatchFilters());
+
+    act(() => result.current.clearFilters());
+
+    expect(mockReplace).toHaveBeenCalledWith("/onboarding/sess_1/matching?sort=experience", {
+      scroll: false,
+    });
+  });
+
+  it("drops the query string when nothing is left", () => {
+    mockSearch = "specialty=ADHD";
+    const { result } = renderHook(() => useMatchFilters());
+
+    act(() => result.current.clearFilters());
+
+    expect(mockReplace).toHaveBeenCalledWith("/onboarding/sess_1/matching", { scroll: false });
+  });
+});
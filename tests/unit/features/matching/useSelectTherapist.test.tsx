@@ -0,0 +1,206 @@
+/**
+ * Unit tests for committing and reading the therapist selection
+ *
+ * Tests cover:
+ * - selectTherapist mutation is called for the session
+ * - Rationale is merged into session progress
+ * - Backend rejections surface as errors
+ * - Failed selection saves (network or GraphQL errors) are retried, then surface as errors
+ * - Reading the selection, waiting on the server when the cache has none
+ * - Parsing the selection from session progress data
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook } from "@testing-library/react";
+import {
+  THERAPIST_SELECTION_KEY,
+  parseTherapistSelection,
+  useSelectTherapist,
+  useTherapistSelection,
+} from "@/features/matching/useSelectTherapist";
+
+const selectMutation = vi.fn();
+const updateProgress = vi.fn();
+const selectionQuery = vi.fn();
+
+vi.mock("@/types/graphql", () => ({
+  useSelectTherapistMutation: () => [selectMutation, { loading: false, error: undefined }],
+  useUpdateSessionProgressMutation: () => [updateProgress, { loading: false }],
+  useGetTherapistSelectionQuery: () => selectionQuery(),
+}));
+
+const input = {
+  therapistId: "therapist-1",
+  therapistName: "Dr. Sarah Chen",
+  reasons: ["Specializes in teen anxiety"],
+  matchScore: 92,
+  comparedTherapistIds: ["therapist-1", "therapist-2"],
+};
+
+describe("useSelectTherapist", () => {
+  beforeEach(() => {
+    selectMutation.mockReset();
+    updateProgress.mockReset();
+    selectMutation.mockResolvedValue({
+      data: {
+        selectTherapist: {
+          success: true,
+          errors: [],
+          therapistMatch: { id: "match-1", selectedTherapistId: "therapist-1" },
+        },
+      },
+    });
+    updateProgress.mockResolvedValue({
+      data: { updateSessionProgress: { session: { id: "sess_1" } } },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("records the selection with the backend", async () => {
+    const { result } = renderHook(() => useSelectTherapist("sess_1"));
+
+    await result.current.selectTherapist(input);
+
+    expect(selectMutation).toHaveBeenCalledWith({
+      variables: { input: { sessionId: "sess_1", therapistId: "therapist-1" } },
+    });
+  });
+
+  it("saves the rationale to session progress", async () => {
+    const { result } = renderHook(() => useSelectTherapist("sess_1"));
+
+    const selection = await result.current.selectTherapist(input);
+
+    expect(selection).toMatchObject({
+      therapistId: "therapist-1",
+      reasons: ["Specializes in teen anxiety"],
+      matchScore: 92,
+      comparedTherapistIds: ["therapist-2"],
+    });
+    expect(updateProgress).toHaveBeenCalledWith({
+      variables: {
+        input: { sessionId: "sess_1", progress: { [THERAPIST_SELECTION_KEY]: selection } },
+      },
+    });
+  });
+
+  it("rejects when the backend doesn't accept the selection", async () => {
+    selectMutation.mockResolvedValue({
+      data: { selectTherapist: { success: false, errors: ["Therapist is not a match"], therapistMatch: null } },
+    });
+    const { result } = renderHook(() => useSelectTherapist("sess_1"));
+
+    await expect(result.current.selectTherapist(input)).rejects.toThrow("Therapist is not a match");
+    expect(updateProgress).not.toHaveBeenCalled();
+  });
+
+  it("retries a failed selection save", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    updateProgress.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    const { result } = renderHook(() => useSelectTherapist("sess_1"));
+
+    await expect(result.current.selectTherapist(input)).resolves.toMatchObject({
+      therapistId: "therapist-1",
+    });
+    expect(updateProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects when the selection can't be saved", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    updateProgress.mockRejectedValue(new TypeError("Failed to fetch"));
+    const { result } = renderHook(() => useSelectTherapist("sess_1"));
+
+    await expect(result.current.selectTherapist(input)).rejects.toThrow(
+      "We couldn't save your choice. Please try again."
+    );
+    expect(updateProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries and rejects when the selection save returns GraphQL errors", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    updateProgress.mockResolvedValue({
+      data: { updateSessionProgress: null },
+      error: new Error("Session not found"),
+    });
+    const { result } = renderHook(() => useSelectTherapist("sess_1"));
+
+    await expect(result.current.selectTherapist(input)).rejects.toThrow(
+      "We couldn't save your choice. Please try again."
+    );
+    expect(updateProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects when the selection save returns no session", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    updateProgress.mockResolvedValue({ data: { updateSessionProgress: null } });
+    const { result } = renderHook(() => useSelectTherapist("sess_1"));
+
+    await expect(result.current.selectTherapist(input)).rejects.toThrow(
+      "We couldn't save your choice. Please try again."
+    );
+  });
+});
+
+describe("useTherapistSelection", () => {
+  const progressData = {
+    [THERAPIST_SELECTION_KEY]: { therapistId: "therapist-1", therapistName: "Dr. Sarah Chen" },
+  };
+
+  it("keeps loading while a cached session has no selection", () => {
+    selectionQuery.mockReturnValue({
+      data: { session: { id: "sess_1", progressData: {} } },
+      loading: true,
+      error: undefined,
+      refetch: vi.fn(),
+    });
+    const { result } = renderHook(() => useTherapistSelection("sess_1"));
+
+    expect(result.current.loading).toBe(true);
+    expect(result.current.selection).toBeNull();
+  });
+
+  it("returns the recorded selection", () => {
+    selectionQuery.mockReturnValue({
+      data: { session: { id: "sess_1", progressData } },
+      loading: false,
+      error: undefined,
+      refetch: vi.fn(),
+    });
+    const { result } = renderHook(() => useTherapistSelection("sess_1"));
+
+    expect(result.current.loading).toBe(false);
+    expect(result.current.selection?.therapistId).toBe("therapist-1");
+  });
+});
+
+describe("parseTherapistSelection", () => {
+  it("reads the selection from progress data", () => {
+    const selection = parseTherapistSelection({
+      [THERAPIST_SELECTION_KEY]: {
+        therapistId: "therapist-1",
+        therapistName: "Dr. Sarah Chen",
+        reasons: ["Specializes in teen anxiety", 42],
+        matchScore: 92,
+        comparedTherapistIds: ["therapist-2"],
+        selectedAt: "2025-01-06T12:00:00.000Z",
+      },
+    });
+
+    expect(selection).toEqual({
+      therapistId: "therapist-1",
+      therapistName: "Dr. Sarah Chen",
+      reasons: ["Specializes in teen anxiety"],
+      matchScore: 92,
+      comparedTherapistIds: ["therapist-2"],
+      selectedAt: "2025-01-06T12:00:00.000Z",
+    });
+  });
+
+  it("returns null without a valid selection", () => {
+    expect(parseTherapistSelection(undefined)).toBeNull();
+    expect(parseTherapistSelection({})).toBeNull();
+    expect(parseTherapistSelection({ [THERAPIST_SELECTION_KEY]: { therapistName: "Dr. Chen" } })).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for therapist profile loading
+ *
+ * Tests cover:
+ * - Mapping GetTherapistProfile results to profile sheet data
+ * - Education formatting
+ * - Past slot filtering and slot IDs
+ */
+
+import { describe, it, expect } from "vitest";
+import { toTherapistProfileData } from "@/features/matching/useTherapistProfile";
+import type { GetTherapistProfileQuery } from "@/types/graphql";
+
+type TherapistProfile = NonNullable<GetTherapistProfileQuery["therapistProfile"]>;
+
+describe("toTherapistProfileData", () => {
+  const now = new Date("2025-01-06T12:00:00Z");
+
+  const profile: TherapistProfile = {
+    id: "therapist-1",
+    name: "Dr. Sarah Chen",
+    credentials: "LMFT, PhD",
+    photoUrl: null,
+    bio: "Warm and collaborative.",
+    specialties: ["Anxiety"],
+    yearsOfExperience: 12,
+    approach: "CBT-focused",
+    languages: ["English", "Spanish"],
+    certifications: ["EMDR Level II Certified"],
+    availabilityStatus: "AVAILABLE_THIS_WEEK",
+    availabilityText: "Available this week",
+    education: [
+      { degree: "Ph.D. in Clinical Psychology", institution: "Stanford", year: 2015 },
+      { degree: "B.A. in Psychology", institution: "UC Davis", year: null },
+    ],
+    matchReasons: [{ id: "reason-1", text: "Specializes in teen anxiety", icon: "specialty" }],
+    availableSlots: [
+      {
+        startTime: "2025-01-05T15:00:00Z",
+        endTime: "2025-01-05T16:00:00Z",
+        therapistId: "therapist-1",
+        durationMinutes: 60,
+      },
+      {
+        startTime: "2025-01-07T15:00:00Z",
+        endTime: "2025-01-07T16:00:00Z",
+        therapistId: "therapist-1",
+        durationMinutes: 60,
+      },
+    ],
+  };
+
+  it("maps profile details", () => {
+    const data = toTherapistProfileData(profile, now);
+
+    expect(data).toMatchObject({
+      id: "therapist-1",
+      name: "Dr. Sarah Chen",
+      bio: "Warm and collaborative.",
+      approach: "CBT-focused",
+      languages: ["English", "Spanish"],
+      certifications: ["EMDR Level II Certified"],
+      matchReasons: profile.matchReasons,
+    });
+  });
+
+  it("formats education with the year when known", () => {
+    const data = toTherapistProfileData(profile, now);
+
+    expect(data.education).toEqual([
+      "Ph.D. in Clinical Psychology, Stanford (2015)",
+      "B.A. in Psychology, UC Davis",
+    ]);
+  });
+
+  it("drops slots that have already started", () => {
+    const data = toTherapistProfileData(profile, now);
+
+    expect(data.availableSlots).toEqual([
+      { id: "therapist-1-2025-01-07T15:00:00Z", datetime: "2025-01-07T15:00:00Z" },
+    ]);
+  });
+
+  it("returns no slots when none are upcoming", () => {
+    const data = toTherapistProfileData(profile, new Date("2025-02-01T00:00:00Z"));
+
+    expect(data.availableSlots).toEqual([]);
+  });
+});
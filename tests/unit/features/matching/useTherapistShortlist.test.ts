@@ -0,0 +1,80 @@
+/**
+ * Unit tests for the therapist shortlist
+ *
+ * Tests cover:
+ * - Adding and removing therapists
+ * - Three-therapist limit
+ * - Persistence per session
+ * - Dropping therapists no longer in the results
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import {
+  MAX_SHORTLIST_SIZE,
+  getShortlistStorageKey,
+  useTherapistShortlist,
+} from "@/features/matching/useTherapistShortlist";
+
+describe("useTherapistShortlist", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("toggles therapists on and off the shortlist", () => {
+    const { result } = renderHook(() => useTherapistShortlist("sess_1"));
+
+    act(() => result.current.toggle("a"));
+    act(() => result.current.toggle("b"));
+    expect(result.current.shortlist).toEqual(["a", "b"]);
+    expect(result.current.isShortlisted("a")).toBe(true);
+
+    act(() => result.current.toggle("a"));
+    expect(result.current.shortlist).toEqual(["b"]);
+  });
+
+  it("holds at most three therapists", () => {
+    const { result } = renderHook(() => useTherapistShortlist("sess_1"));
+
+    ["a", "b", "c", "d"].forEach((id) => act(() => result.current.toggle(id)));
+
+    expect(result.current.shortlist).toEqual(["a", "b", "c"]);
+    expect(result.current.shortlist).toHaveLength(MAX_SHORTLIST_SIZE);
+    expect(result.current.isFull).toBe(true);
+  });
+
+  it("persists the shortlist per session", () => {
+    const { result, unmount } = renderHook(() => useTherapistShortlist("sess_1"));
+    act(() => result.current.toggle("a"));
+    unmount();
+
+    expect(JSON.parse(localStorage.getItem(getShortlistStorageKey("sess_1")) ?? "[]")).toEqual(["a"]);
+    expect(renderHook(() => useTherapistShortlist("sess_1")).result.current.shortlist).toEqual(["a"]);
+    expect(renderHook(() => useTherapistShortlist("sess_2")).result.current.shortlist).toEqual([]);
+  });
+
+  it("clears storage when emptied", () => {
+    const { result } = renderHook(() => useTherapistShortlist("sess_1"));
+    act(() => result.current.toggle("a"));
+    act(() => result.current.clear());
+
+    expect(result.current.shortlist).toEqual([]);
+    expect(localStorage.getItem(getShortlistStorageKey("sess_1"))).toBeNull();
+  });
+
+  it("ignores saved therapists no longer in the results", () => {
+    localStorage.setItem(getShortlistStorageKey("sess_1"), JSON.stringify(["gone", "a", "b"]));
+    const availableIds = ["a", "b", "c", "d"];
+    const { result } = renderHook(() => useTherapistShortlist("sess_1", availableIds));
+
+    expect(result.current.shortlist).toEqual(["a", "b"]);
+
+    act(() => result.current.toggle("c"));
+    expect(result.current.shortlist).toEqual(["a", "b", "c"]);
+  });
+
+  it("ignores malformed stored data", () => {
+    localStorage.setItem(getShortlistStorageKey("sess_1"), "{not json");
+
+    expect(renderHook(() => useTherapistShortlist("sess_1")).result.current.shortlist).toEqual([]);
+  });
+});
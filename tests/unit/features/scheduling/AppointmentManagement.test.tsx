@@ -0,0 +1,312 @@
+/**
+ * Unit tests for AppointmentManagement component
+ *
+ * Tests cover:
+ * - Loading, empty and cancelled states
+ * - Appointment details and calendar links for a booked appointment
+ * - Reschedule flow (panel → mutation → success banner)
+ * - Cancel flow (policy dialog → reason → mutation)
+ * - Calendar files keyed by appointment UID and revision
+ * - Disabled actions when backend disallows changes
+ * - Cancellation policy helpers
+ */
+
+import * as React from "react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AppointmentManagement } from "@/features/scheduling/AppointmentManagement";
+import type {
+  ManagedAppointment,
+  UseAppointmentManagementResult,
+} from "@/features/scheduling/useAppointmentManagement";
+import {
+  formatCancellationReason,
+  getHoursUntilAppointment,
+  isLateCancellation,
+} from "@/features/scheduling/utils/cancellationPolicy";
+import type { TimeSlot } from "@/features/scheduling/TimeSlotPicker";
+
+const mockCancel = vi.fn();
+const mockReschedule = vi.fn();
+let mockHookResult: UseAppointmentManagementResult;
+
+vi.mock("@/features/scheduling/useAppointmentManagement", () => ({
+  useAppointmentManagement: () => mockHookResult,
+}));
+
+vi.mock("@/features/scheduling/TimezoneSelector", () => ({
+  useDetectedTimezone: () => "America/New_York",
+}));
+
+vi.mock("@/features/scheduling/RescheduleAppointmentPanel", () => ({
+  RescheduleAppointmentPanel: ({
+    onConfirm,
+    onCancel,
+  }: {
+    onConfirm: (slot: TimeSlot) => void;
+    onCancel: () => void;
+  }) => (
+    <div data-testid="reschedule-panel">
+      <button
+        onClick={() =>
+          onConfirm({
+            id: "slot-2",
+            startTime: "2099-02-01T15:00:00Z",
+            endTime: "2099-02-01T15:50:00Z",
+            isAvailable: true,
+            timezone: "America/New_York",
+          })
+        }
+      >
+        Pick Slot
+      </button>
+      <button onClick={onCancel}>Back Out</button>
+    </div>
+  ),
+}));
+
+vi.mock("@/features/scheduling/CalendarLinks", () => ({
+  CalendarLinks: ({
+    startTime,
+    uid,
+    sequence,
+    cancelled,
+  }: {
+    startTime: string;
+    uid?: string;
+    sequence?: number;
+    cancelled?: boolean;
+  }) => (
+    <div
+      data-testid="calendar-links"
+      data-uid={uid}
+      data-sequence={sequence}
+      data-cancelled={String(!!cancelled)}
+    >
+      {startTime}
+    </div>
+  ),
+}));
+
+describe("AppointmentManagement", () => {
+  const appointment: ManagedAppointment = {
+    id: "appt-123",
+    therapist: {
+      id: "therapist-456",
+      name: "Dr. Sarah Johnson",
+      credentials: "PhD, LMFT",
+      photoUrl: null,
+    },
+    startTime: "2099-01-15T14:00:00Z",
+    endTime: "2099-01-15T14:50:00Z",
+    duration: 50,
+    status: "confirmed",
+    confirmationNumber: "DBH-1001",
+    cancellable: true,
+    reschedulable: true,
+    calendarSequence: 0,
+  };
+
+  function setHook(overrides: Partial<UseAppointmentManagementResult> = {}) {
+    mockHookResult = {
+      appointment,
+      loading: false,
+      error: undefined,
+      cancelAppointment: mockCancel,
+      rescheduleAppointment: mockReschedule,
+      isCancelling: false,
+      isRescheduling: false,
+      mutationError: null,
+      refetch: vi.fn(),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCancel.mockResolvedValue(undefined);
+    mockReschedule.mockResolvedValue(undefined);
+    setHook();
+  });
+
+  describe("States", () => {
+    it("should show loading state", () => {
+      setHook({ appointment: null, loading: true });
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      expect(screen.getByText("Loading your appointment...")).toBeInTheDocument();
+    });
+
+    it("should offer to book when no appointment exists", () => {
+      const onBookNew = vi.fn();
+      setHook({ appointment: null });
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={onBookNew} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Schedule an Appointment" }));
+      expect(onBookNew).toHaveBeenCalled();
+    });
+
+    it("should show details, confirmation number and calendar links", () => {
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      expect(screen.getByText("Dr. Sarah Johnson")).toBeInTheDocument();
+      expect(screen.getByText("Confirmation #DBH-1001")).toBeInTheDocument();
+      expect(screen.getByTestId("calendar-links")).toHaveTextContent(
+        appointment.startTime
+      );
+    });
+
+    it("should key calendar files to the appointment and its revision", () => {
+      setHook({ appointment: { ...appointment, calendarSequence: 3600 } });
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      const links = screen.getByTestId("calendar-links");
+      expect(links).toHaveAttribute("data-uid", "appointment-appt-123@daybreakhealth.com");
+      expect(links).toHaveAttribute("data-sequence", "3600");
+      expect(links).toHaveAttribute("data-cancelled", "false");
+    });
+
+    it("should show cancelled state with rebook action", () => {
+      setHook({ appointment: { ...appointment, status: "cancelled" } });
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      expect(screen.getByText("This appointment was cancelled.")).toBeInTheDocument();
+      expect(
+        screen.getByRole("button", { name: "Book a New Appointment" })
+      ).toBeInTheDocument();
+      expect(screen.queryByTestId("calendar-links")).not.toBeInTheDocument();
+    });
+
+    it("should disable actions the backend does not allow", () => {
+      setHook({
+        appointment: { ...appointment, cancellable: false, reschedulable: false },
+      });
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      expect(screen.getByRole("button", { name: "Reschedule" })).toBeDisabled();
+      expect(screen.getByRole("button", { name: "Cancel Appointment" })).toBeDisabled();
+    });
+  });
+
+  describe("Reschedule Flow", () => {
+    it("should reschedule to the picked slot and confirm", async () => {
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Reschedule" }));
+      expect(screen.getByTestId("reschedule-panel")).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("Pick Slot"));
+
+      await waitFor(() => {
+        expect(mockReschedule).toHaveBeenCalledWith("2099-02-01T15:00:00Z");
+      });
+      expect(
+        await screen.findByText(/Your appointment has been moved/)
+      ).toBeInTheDocument();
+    });
+
+    it("should return to details when backing out", () => {
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Reschedule" }));
+      fireEvent.click(screen.getByText("Back Out"));
+
+      expect(screen.queryByTestId("reschedule-panel")).not.toBeInTheDocument();
+    });
+
+    it("should surface mutation errors", () => {
+      setHook({ mutationError: new Error("Slot no longer available") });
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      expect(screen.getByRole("alert")).toHaveTextContent("Slot no longer available");
+    });
+  });
+
+  describe("Cancel Flow", () => {
+    it("should require a reason before cancelling", async () => {
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Cancel Appointment" }));
+      const dialog = await screen.findByRole("alertdialog");
+      const confirm = Array.from(dialog.querySelectorAll("button")).find(
+        (b) => b.textContent === "Cancel Appointment"
+      )!;
+
+      expect(confirm).toBeDisabled();
+
+      fireEvent.click(screen.getByLabelText("Schedule conflict"));
+      expect(confirm).not.toBeDisabled();
+
+      fireEvent.click(confirm);
+      await waitFor(() => {
+        expect(mockCancel).toHaveBeenCalledWith("Schedule conflict");
+      });
+    });
+
+    it("should offer a calendar cancellation after cancelling", async () => {
+      mockCancel.mockImplementation(async () => {
+        setHook({
+          appointment: { ...appointment, status: "cancelled", calendarSequence: 120 },
+        });
+      });
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Cancel Appointment" }));
+      const dialog = await screen.findByRole("alertdialog");
+      fireEvent.click(screen.getByLabelText("Schedule conflict"));
+      fireEvent.click(
+        Array.from(dialog.querySelectorAll("button")).find(
+          (b) => b.textContent === "Cancel Appointment"
+        )!
+      );
+
+      expect(
+        await screen.findByText(/Your appointment has been cancelled/)
+      ).toBeInTheDocument();
+      const links = screen.getByTestId("calendar-links");
+      expect(links).toHaveAttribute("data-cancelled", "true");
+      expect(links).toHaveAttribute("data-sequence", "120");
+    });
+
+    it("should require free text for other reason", async () => {
+      render(<AppointmentManagement sessionId="sess_1" onBookNew={vi.fn()} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Cancel Appointment" }));
+      const dialog = await screen.findByRole("alertdialog");
+      const confirm = Array.from(dialog.querySelectorAll("button")).find(
+        (b) => b.textContent === "Cancel Appointment"
+      )!;
+
+      fireEvent.click(screen.getByLabelText("Other"));
+      expect(confirm).toBeDisabled();
+
+      fireEvent.change(screen.getByLabelText("Tell us more"), {
+        target: { value: "Moving out of state" },
+      });
+      fireEvent.click(confirm);
+
+      await waitFor(() => {
+        expect(mockCancel).toHaveBeenCalledWith("Moving out of state");
+      });
+    });
+  });
+});
+
+describe("cancellationPolicy", () => {
+  const start = "2024-01-15T14:00:00Z";
+
+  it("should compute hours until appointment", () => {
+    expect(getHoursUntilAppointment(start, new Date("2024-01-14T14:00:00Z"))).toBe(24);
+  });
+
+  it("should flag changes inside the 24-hour window as late", () => {
+    expect(isLateCancellation(start, new Date("2024-01-15T08:00:00Z"))).toBe(true);
+    expect(isLateCancellation(start, new Date("2024-01-13T08:00:00Z"))).toBe(false);
+  });
+
+  it("should format preset and free-text reasons", () => {
+    expect(formatCancellationReason("cost_concerns")).toBe("Cost concerns");
+    expect(formatCancellationReason("other", "  Moving  ")).toBe("Moving");
+    expect(formatCancellationReason("other", "   ")).toBe("Other");
+  });
+});
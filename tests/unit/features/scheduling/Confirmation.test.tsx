@@ -9,6 +9,8 @@
  * - Retry functionality
  * - Done button functionality
  * - Cancel/Go back functionality
+ * - Recurring series booking
+ * - Saved data kept until the page is left (refreshing the success screen)
  *
  * Acceptance Criteria Tested:
  * - AC-5.4.1: Loading state shows "Booking your appointment..."
@@ -17,12 +19,13 @@
  */
 
 import * as React from "react";
-import { render, screen, waitFor } from "@testing-library/react";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Confirmation } from "@/features/scheduling/Confirmation";
 import type { BookingRequest } from "@/features/scheduling/Confirmation";
 import * as useBookingModule from "@/features/scheduling/useBooking";
 import type { AppointmentData } from "@/features/scheduling/BookingSuccess";
+import type { SeriesPlan } from "@/features/scheduling/utils/seriesPlanner";
 
 // Mock Next.js router
 const mockPush = vi.fn();
@@ -40,6 +43,22 @@ vi.mock("@/features/scheduling/useBooking", () => ({
   useBooking: vi.fn(),
 }));
 
+// Mock series hooks
+const mockSeriesPlan = vi.fn();
+const mockBookSeries = vi.fn();
+vi.mock("@/features/scheduling/useSeriesPlan", () => ({
+  useSeriesPlan: (options: unknown) => mockSeriesPlan(options),
+}));
+vi.mock("@/features/scheduling/useBookingSeries", () => ({
+  useBookingSeries: () => ({ bookSeries: mockBookSeries, loading: false, bookedCount: 0 }),
+}));
+
+// Mock secure storage
+const mockWipeSessionData = vi.fn();
+vi.mock("@/lib/storage", () => ({
+  wipeSessionData: (sessionId: string) => mockWipeSessionData(sessionId),
+}));
+
 // Mock confetti utilities
 vi.mock("@/lib/utils/confetti", () => ({
   celebrateBooking: vi.fn(),
@@ -72,6 +91,7 @@ describe("Confirmation", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockSeriesPlan.mockReturnValue({ plan: null, loading: false, error: undefined });
   });
 
   describe("Loading State (AC-5.4.1)", () => {
@@ -430,4 +450,118 @@ describe("Confirmation", () => {
       });
     });
   });
+
+  describe("Saved Data", () => {
+    it("keeps saved booking data after confirming so a refresh still finds it", async () => {
+      render(<Confirmation bookingRequest={mockBookingRequest} />);
+
+      fireEvent.click(screen.getByRole("button", { name: /confirm booking/i }));
+
+      expect(await screen.findByRole("button", { name: /done/i })).toBeInTheDocument();
+      expect(mockWipeSessionData).not.toHaveBeenCalled();
+    });
+
+    it("wipes saved data when the page is left after booking", async () => {
+      const { unmount } = render(<Confirmation bookingRequest={mockBookingRequest} />);
+
+      fireEvent.click(screen.getByRole("button", { name: /confirm booking/i }));
+      await screen.findByRole("button", { name: /done/i });
+      unmount();
+
+      expect(mockWipeSessionData).toHaveBeenCalledWith("session-123");
+    });
+
+    it("keeps saved data when the page is left without booking", () => {
+      const { unmount } = render(<Confirmation bookingRequest={mockBookingRequest} />);
+
+      unmount();
+
+      expect(mockWipeSessionData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Recurring Series", () => {
+    const plan: SeriesPlan = {
+      recurrence: { frequency: "weekly", count: 2 },
+      timezone: "America/New_York",
+      conflictCount: 0,
+      occurrences: [
+        {
+          index: 0,
+          startTime: "2024-01-15T14:00:00Z",
+          endTime: "2024-01-15T14:50:00Z",
+          conflict: null,
+          alternates: [],
+        },
+        {
+          index: 1,
+          startTime: "2024-01-22T14:00:00Z",
+          endTime: "2024-01-22T14:50:00Z",
+          conflict: null,
+          alternates: [],
+        },
+      ],
+    };
+
+    it("should book every planned session when a series is chosen", async () => {
+      mockSeriesPlan.mockImplementation(({ recurrence }) => ({
+        plan: recurrence ? plan : null,
+        loading: false,
+        error: undefined,
+      }));
+      mockBookSeries.mockResolvedValue({
+        series: {
+          recurrence: plan.recurrence,
+          timezone: plan.timezone,
+          occurrences: plan.occurrences.map((occurrence) => ({
+            index: occurrence.index,
+            startTime: occurrence.startTime,
+            endTime: occurrence.endTime,
+            originalStartTime: occurrence.startTime,
+            status: "booked",
+          })),
+        },
+        appointments: [],
+      });
+
+      render(<Confirmation bookingRequest={mockBookingRequest} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Every week" }));
+      fireEvent.click(screen.getByRole("button", { name: "Book 2 sessions" }));
+
+      await waitFor(() => {
+        expect(screen.getByText("2 of 2 sessions booked")).toBeInTheDocument();
+      });
+      expect(mockBookSeries).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: "session-123",
+          therapistId: "therapist-456",
+          plan,
+          bookings: [
+            expect.objectContaining({ index: 0 }),
+            expect.objectContaining({ index: 1 }),
+          ],
+        })
+      );
+    });
+
+    it("should show an error when the series can't be booked", async () => {
+      mockSeriesPlan.mockImplementation(({ recurrence }) => ({
+        plan: recurrence ? plan : null,
+        loading: false,
+        error: undefined,
+      }));
+      mockBookSeries.mockRejectedValue(new Error("Slot taken"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      render(<Confirmation bookingRequest={mockBookingRequest} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Every week" }));
+      fireEvent.click(screen.getByRole("button", { name: "Book 2 sessions" }));
+
+      expect(
+        await screen.findByText("We couldn't book your sessions. Please try again.")
+      ).toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,112 @@
+/**
+ * SeriesPlanner Component Tests
+ *
+ * Test Coverage:
+ * - Frequency and length selection
+ * - Planned session list with conflicts
+ * - Choosing an alternate or skipping a week
+ * - Loading state
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { SeriesPlanner } from "@/features/scheduling/SeriesPlanner";
+import type { SeriesPlan } from "@/features/scheduling/utils/seriesPlanner";
+
+const TZ = "America/New_York";
+const START = "2025-03-04T21:00:00.000Z";
+
+const plan: SeriesPlan = {
+  recurrence: { frequency: "weekly", count: 4 },
+  timezone: TZ,
+  conflictCount: 1,
+  occurrences: [
+    { index: 0, startTime: START, endTime: "2025-03-04T21:50:00.000Z", conflict: null, alternates: [] },
+    {
+      index: 1,
+      startTime: "2025-03-11T20:00:00.000Z",
+      endTime: "2025-03-11T20:50:00.000Z",
+      conflict: "time_off",
+      alternates: [
+        {
+          id: "alt-1",
+          startTime: "2025-03-13T20:00:00.000Z",
+          endTime: "2025-03-13T20:50:00.000Z",
+          isAvailable: true,
+          timezone: TZ,
+        },
+      ],
+    },
+  ],
+};
+
+function renderPlanner(props: Partial<React.ComponentProps<typeof SeriesPlanner>> = {}) {
+  const handlers = { onRecurrenceChange: vi.fn(), onChoiceChange: vi.fn() };
+  render(
+    <SeriesPlanner
+      recurrence={null}
+      startTime={START}
+      timezone={TZ}
+      plan={null}
+      choices={{}}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+}
+
+describe("SeriesPlanner", () => {
+  it("defaults to a single session", () => {
+    renderPlanner();
+
+    expect(screen.getByRole("button", { name: "Just this session" })).toHaveAttribute(
+      "aria-pressed",
+      "true"
+    );
+    expect(screen.queryByText("Number of sessions")).not.toBeInTheDocument();
+  });
+
+  it("starts a weekly series with the default length", () => {
+    const { onRecurrenceChange } = renderPlanner();
+
+    fireEvent.click(screen.getByRole("button", { name: "Every other week" }));
+
+    expect(onRecurrenceChange).toHaveBeenCalledWith({ frequency: "biweekly", count: 8 });
+  });
+
+  it("changes the number of sessions", () => {
+    const { onRecurrenceChange } = renderPlanner({ recurrence: { frequency: "weekly", count: 8 } });
+
+    fireEvent.click(screen.getByRole("button", { name: "12 sessions" }));
+
+    expect(onRecurrenceChange).toHaveBeenCalledWith({ frequency: "weekly", count: 12 });
+  });
+
+  it("shows a loading message while availability loads", () => {
+    renderPlanner({ recurrence: plan.recurrence, isLoading: true });
+
+    expect(screen.getByRole("status")).toHaveTextContent(/checking your therapist/i);
+  });
+
+  it("lists sessions and flags conflicts with a reason", () => {
+    renderPlanner({ recurrence: plan.recurrence, plan });
+
+    expect(screen.getByText("Every Tuesday at 4:00 PM, 4 sessions")).toBeInTheDocument();
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+    expect(screen.getByText("1 week needs a different time. Pick one below or skip the week.")).toBeInTheDocument();
+    expect(screen.getByText("Your therapist is away this week")).toBeInTheDocument();
+  });
+
+  it("skips conflicting weeks by default and lets families choose an alternate", () => {
+    const { onChoiceChange } = renderPlanner({ recurrence: plan.recurrence, plan });
+    const options = screen.getByRole("group", { name: "Options for session 2" });
+
+    expect(screen.getByRole("button", { name: "Skip this week" })).toHaveAttribute("aria-pressed", "true");
+
+    const [alternate] = Array.from(options.querySelectorAll("button"));
+    fireEvent.click(alternate);
+
+    expect(onChoiceChange).toHaveBeenCalledWith(1, "alt-1");
+  });
+});
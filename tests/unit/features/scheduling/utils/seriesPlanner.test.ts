@@ -0,0 +1,224 @@
+/**
+ * Unit tests for the recurring series planner
+ *
+ * Tests cover:
+ * - Occurrence times keep the local wall-clock time across DST
+ * - Weekly and every-other-week spacing
+ * - Time-off and availability conflicts with nearby alternates
+ * - Resolving conflicts into bookings (alternate or skip)
+ * - RRULE/EXDATE/RDATE for calendar export
+ * - Pattern descriptions
+ */
+import { describe, it, expect } from "vitest";
+import {
+  MAX_ALTERNATES,
+  describeRecurrence,
+  getOccurrenceTimes,
+  getSeriesRange,
+  planSeries,
+  resolveSeriesBookings,
+  toRecurrenceRule,
+  toSeriesCalendarRecurrence,
+  type BookedSeries,
+} from "@/features/scheduling/utils/seriesPlanner";
+import type { TimeSlot } from "@/features/scheduling/TimeSlotPicker";
+
+const TZ = "America/New_York";
+
+// Tuesday 4 PM Eastern, the week before DST starts (March 9, 2025)
+const START = "2025-03-04T21:00:00.000Z";
+const END = "2025-03-04T21:50:00.000Z";
+
+function slot(startTime: string, isAvailable = true): TimeSlot {
+  const start = new Date(startTime).getTime();
+  return {
+    id: `slot-${startTime}`,
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(start + 50 * 60 * 1000).toISOString(),
+    isAvailable,
+    timezone: TZ,
+  };
+}
+
+describe("getOccurrenceTimes", () => {
+  it("keeps the local start time across a DST change", () => {
+    const times = getOccurrenceTimes(START, END, { frequency: "weekly", count: 3 }, TZ);
+
+    expect(times.map((time) => time.startTime)).toEqual([
+      "2025-03-04T21:00:00.000Z",
+      "2025-03-11T20:00:00.000Z",
+      "2025-03-18T20:00:00.000Z",
+    ]);
+    expect(times[1].endTime).toBe("2025-03-11T20:50:00.000Z");
+  });
+
+  it("spaces every-other-week occurrences two weeks apart", () => {
+    const times = getOccurrenceTimes(START, END, { frequency: "biweekly", count: 3 }, TZ);
+
+    expect(times.map((time) => time.startTime)).toEqual([
+      "2025-03-04T21:00:00.000Z",
+      "2025-03-18T20:00:00.000Z",
+      "2025-04-01T20:00:00.000Z",
+    ]);
+  });
+});
+
+describe("getSeriesRange", () => {
+  it("covers every occurrence plus the alternate search window", () => {
+    const range = getSeriesRange(START, END, { frequency: "weekly", count: 3 }, TZ);
+
+    expect(range.startDate).toBe("2025-03-01T21:00:00.000Z");
+    expect(range.endDate).toBe("2025-03-21T20:50:00.000Z");
+  });
+});
+
+describe("planSeries", () => {
+  const recurrence = { frequency: "weekly", count: 3 } as const;
+
+  it("has no conflicts when every occurrence is open", () => {
+    const plan = planSeries({
+      startTime: START,
+      endTime: END,
+      recurrence,
+      timezone: TZ,
+      slots: [slot("2025-03-11T20:00:00Z"), slot("2025-03-18T20:00:00Z")],
+    });
+
+    expect(plan.conflictCount).toBe(0);
+    expect(plan.occurrences.every((occurrence) => occurrence.alternates.length === 0)).toBe(true);
+  });
+
+  it("never flags the first occurrence", () => {
+    const plan = planSeries({ startTime: START, endTime: END, recurrence, timezone: TZ, slots: [] });
+
+    expect(plan.occurrences[0].conflict).toBeNull();
+    expect(plan.conflictCount).toBe(2);
+  });
+
+  it("flags time off ahead of availability, using the family's local date", () => {
+    const plan = planSeries({
+      startTime: START,
+      endTime: END,
+      recurrence,
+      timezone: TZ,
+      slots: [slot("2025-03-11T20:00:00Z"), slot("2025-03-18T20:00:00Z")],
+      timeOffs: [{ startDate: "2025-03-10", endDate: "2025-03-12" }],
+    });
+
+    expect(plan.occurrences[1].conflict).toBe("time_off");
+    expect(plan.occurrences[2].conflict).toBeNull();
+  });
+
+  it("flags unavailable times and unavailable slots", () => {
+    const plan = planSeries({
+      startTime: START,
+      endTime: END,
+      recurrence,
+      timezone: TZ,
+      slots: [slot("2025-03-11T20:00:00Z", false), slot("2025-03-18T20:00:00Z")],
+    });
+
+    expect(plan.occurrences[1].conflict).toBe("unavailable");
+  });
+
+  it("offers the closest open alternates, excluding time off and other occurrences", () => {
+    const plan = planSeries({
+      startTime: START,
+      endTime: END,
+      recurrence,
+      timezone: TZ,
+      slots: [
+        slot("2025-03-11T21:00:00Z"), // +1h
+        slot("2025-03-12T20:00:00Z"), // +1d, time off
+        slot("2025-03-10T20:00:00Z"), // -1d
+        slot("2025-03-13T20:00:00Z"), // +2d
+        slot("2025-03-14T20:00:00Z"), // +3d
+        slot("2025-03-15T21:00:00Z"), // beyond the search window
+        slot("2025-03-18T20:00:00Z"), // next occurrence
+      ],
+      timeOffs: [{ startDate: "2025-03-12", endDate: "2025-03-12" }],
+    });
+
+    const alternates = plan.occurrences[1].alternates.map((alternate) => alternate.startTime);
+    expect(alternates).toHaveLength(MAX_ALTERNATES);
+    expect(alternates).toEqual([
+      "2025-03-11T21:00:00.000Z",
+      "2025-03-10T20:00:00.000Z",
+      "2025-03-13T20:00:00.000Z",
+    ]);
+  });
+});
+
+describe("resolveSeriesBookings", () => {
+  const plan = planSeries({
+    startTime: START,
+    endTime: END,
+    recurrence: { frequency: "weekly", count: 3 },
+    timezone: TZ,
+    slots: [slot("2025-03-11T21:00:00Z")],
+  });
+
+  it("books chosen alternates and skips unresolved conflicts", () => {
+    const bookings = resolveSeriesBookings(plan, { 1: "slot-2025-03-11T21:00:00Z" });
+
+    expect(bookings).toEqual([
+      {
+        index: 0,
+        startTime: START,
+        endTime: END,
+        originalStartTime: START,
+      },
+      {
+        index: 1,
+        startTime: "2025-03-11T21:00:00.000Z",
+        endTime: "2025-03-11T21:50:00.000Z",
+        originalStartTime: "2025-03-11T20:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("ignores choices that aren't offered alternates", () => {
+    const bookings = resolveSeriesBookings(plan, { 1: "unknown", 2: null });
+
+    expect(bookings.map((booking) => booking.index)).toEqual([0]);
+  });
+});
+
+describe("calendar recurrence", () => {
+  it("builds RRULE values for each frequency", () => {
+    expect(toRecurrenceRule({ frequency: "weekly", count: 8 })).toBe("FREQ=WEEKLY;COUNT=8");
+    expect(toRecurrenceRule({ frequency: "biweekly", count: 6 })).toBe(
+      "FREQ=WEEKLY;INTERVAL=2;COUNT=6"
+    );
+  });
+
+  it("excludes weeks not booked as planned and adds moved weeks", () => {
+    const series: BookedSeries = {
+      recurrence: { frequency: "weekly", count: 4 },
+      timezone: TZ,
+      occurrences: [
+        { index: 0, startTime: "a", endTime: "a-end", originalStartTime: "a", status: "booked" },
+        { index: 1, startTime: "b2", endTime: "b2-end", originalStartTime: "b", status: "rescheduled" },
+        { index: 2, startTime: "c", endTime: "c-end", originalStartTime: "c", status: "skipped" },
+        { index: 3, startTime: "d", endTime: "d-end", originalStartTime: "d", status: "failed" },
+      ],
+    };
+
+    expect(toSeriesCalendarRecurrence(series)).toEqual({
+      rrule: "FREQ=WEEKLY;COUNT=4",
+      exdates: ["b", "c", "d"],
+      rdates: ["b2"],
+    });
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("describes the pattern in the family's timezone", () => {
+    expect(describeRecurrence({ frequency: "weekly", count: 8 }, START, TZ)).toBe(
+      "Every Tuesday at 4:00 PM, 8 sessions"
+    );
+    expect(describeRecurrence({ frequency: "biweekly", count: 4 }, START, TZ)).toBe(
+      "Every other Tuesday at 4:00 PM, 4 sessions"
+    );
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Unit and property-based tests for the slot scoring engine
+ *
+ * Tests cover:
+ * - Preferred TimeBlocks scored as intervals (whole window, partial, near)
+ * - Windows wrapping past midnight
+ * - DST transitions in the chosen timezone
+ * - Configurable weights
+ * - Structured per-factor explanation and summary
+ * - Score bounds, ordering and weight scaling across timezones (fast-check)
+ */
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import {
+  DEFAULT_SLOT_SCORING_WEIGHTS,
+  scoreSlot,
+  scoreSlotsByPreference,
+  type ScoredSlot,
+} from "@/features/scheduling/utils/slotScoring";
+import { getZonedParts, zonedTimeToInstant } from "@/lib/utils/zoned-time";
+import type { TimeSlot } from "@/features/scheduling/TimeSlotPicker";
+import type { TimeBlock } from "@/lib/validations/availability";
+
+const NOW = new Date("2025-01-06T12:00:00Z"); // Monday
+
+const TIMEZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Los_Angeles",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Asia/Kolkata",
+  "Australia/Sydney",
+  "Australia/Lord_Howe",
+  "Pacific/Auckland",
+];
+
+/** Instants at or next to DST transitions in the zones above */
+const DST_INSTANTS = [
+  "2025-03-09T07:00:00Z", // US spring forward
+  "2025-11-02T06:00:00Z", // US fall back
+  "2025-03-30T01:00:00Z", // EU spring forward
+  "2025-10-26T01:00:00Z", // EU fall back
+  "2025-04-06T03:00:00Z", // Sydney/Lord Howe fall back
+  "2025-10-05T02:00:00Z", // Sydney spring forward
+  "2025-09-27T14:00:00Z", // Auckland spring forward
+].map((iso) => new Date(iso));
+
+function makeSlot(start: number, end: number, id = String(start)): TimeSlot {
+  return {
+    id,
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(end).toISOString(),
+    isAvailable: true,
+    timezone: "UTC",
+  };
+}
+
+function slotAt(iso: string, minutes = 60): TimeSlot {
+  const start = new Date(iso).getTime();
+  return makeSlot(start, start + minutes * 60 * 1000, iso);
+}
+
+function factor(slot: Pick<ScoredSlot, "explanation">, key: string) {
+  return slot.explanation.factors.find((f) => f.factor === key);
+}
+
+const tuesdayAfternoon: TimeBlock[] = [{ dayOfWeek: 2, startTime: "15:00", durationMinutes: 180 }];
+
+describe("scoreSlot", () => {
+  it("gives full time credit anywhere inside a multi-hour window", () => {
+    // Tuesday 5 PM Eastern, inside a 3-6 PM window
+    const { explanation } = scoreSlot(slotAt("2025-01-07T22:00:00Z"), tuesdayAfternoon, "America/New_York", { now: NOW });
+
+    expect(factor({ explanation }, "time")).toMatchObject({ match: 1, points: 35 });
+    expect(factor({ explanation }, "day")).toMatchObject({ match: 1, points: 40 });
+    expect(explanation.summary).toBe("Within your Tuesday 3 PM – 6 PM window");
+  });
+
+  it("gives partial credit for the share of the slot inside the window", () => {
+    // 5:30-6:30 PM Eastern: half inside
+    const { explanation } = scoreSlot(slotAt("2025-01-07T22:30:00Z"), tuesdayAfternoon, "America/New_York", { now: NOW });
+
+    expect(factor({ explanation }, "time")).toMatchObject({ match: 0.5, points: 17.5 });
+    expect(explanation.summary).toBe("Partly within your Tuesday 3 PM – 6 PM window");
+  });
+
+  it("gives decreasing credit to slots just outside the window", () => {
+    const score = (iso: string) =>
+      factor(scoreSlot(slotAt(iso), tuesdayAfternoon, "America/New_York", { now: NOW }), "time");
+
+    expect(score("2025-01-07T23:30:00Z")).toMatchObject({ match: 0.25, reason: "Close to your preferred time" });
+    expect(score("2025-01-08T00:00:00Z")).toMatchObject({ match: 0, reason: "Outside your preferred times" });
+  });
+
+  it("follows windows past midnight into the next day", () => {
+    const lateFriday: TimeBlock[] = [{ dayOfWeek: 5, startTime: "22:00", durationMinutes: 180 }];
+    // Saturday midnight Pacific
+    const { explanation } = scoreSlot(slotAt("2025-01-11T08:00:00Z"), lateFriday, "America/Los_Angeles", { now: NOW });
+
+    expect(factor({ explanation }, "time")?.match).toBe(1);
+    expect(factor({ explanation }, "day")?.match).toBe(0);
+    expect(explanation.summary).toBe("Within your Friday 10 PM – 1 AM window");
+  });
+
+  it("keeps windows on wall-clock time across a spring-forward transition", () => {
+    const earlySunday: TimeBlock[] = [{ dayOfWeek: 0, startTime: "01:00", durationMinutes: 240 }];
+    // 3:30-4:30 AM EDT on 2025-03-09, after clocks jumped from 2 to 3 AM
+    const { explanation } = scoreSlot(slotAt("2025-03-09T07:30:00Z"), earlySunday, "America/New_York", { now: NOW });
+
+    expect(factor({ explanation }, "time")?.match).toBe(1);
+    expect(factor({ explanation }, "convenience")?.reason).toBe("Early or late in the day");
+  });
+
+  it("keeps windows on wall-clock time across a fall-back transition", () => {
+    const sundayMorning: TimeBlock[] = [{ dayOfWeek: 0, startTime: "09:00", durationMinutes: 60 }];
+    // 9 AM GMT on 2025-10-26, the morning clocks went back in London
+    const inside = scoreSlot(slotAt("2025-10-26T09:00:00Z"), sundayMorning, "Europe/London", { now: NOW });
+    // Same UTC time a day earlier is 10 AM BST
+    const dayBefore = scoreSlot(slotAt("2025-10-25T09:00:00Z"), [{ ...sundayMorning[0], dayOfWeek: 6 }], "Europe/London", { now: NOW });
+
+    expect(factor(inside, "time")?.match).toBe(1);
+    expect(factor(dayBefore, "time")).toMatchObject({ match: 0.5, reason: "Close to your preferred time" });
+  });
+
+  it("scores only proximity and convenience without preferences", () => {
+    const { preferenceScore, explanation } = scoreSlot(slotAt("2025-01-08T16:00:00Z"), [], "UTC", { now: NOW });
+
+    expect(explanation.factors.map((f) => f.factor)).toEqual(["proximity", "convenience"]);
+    expect(preferenceScore).toBe(25);
+    expect(explanation.summary).toBe("Available soon");
+  });
+
+  it("applies custom weights", () => {
+    const { preferenceScore, explanation } = scoreSlot(slotAt("2025-01-07T22:00:00Z"), tuesdayAfternoon, "America/New_York", {
+      now: NOW,
+      weights: { day: 0, time: 60 },
+    });
+
+    expect(factor({ explanation }, "day")?.points).toBe(0);
+    expect(factor({ explanation }, "time")?.points).toBe(60);
+    expect(preferenceScore).toBeCloseTo(60 + 15 + 6);
+  });
+});
+
+describe("scoreSlotsByPreference", () => {
+  it("drops unavailable slots and ranks best first", () => {
+    const slots = [
+      slotAt("2025-01-08T22:00:00Z"), // Wednesday 5 PM
+      { ...slotAt("2025-01-07T21:00:00Z"), isAvailable: false },
+      slotAt("2025-01-07T22:00:00Z"), // Tuesday 5 PM
+    ];
+
+    const ranked = scoreSlotsByPreference(slots, tuesdayAfternoon, "America/New_York", { now: NOW });
+
+    expect(ranked.map((slot) => slot.id)).toEqual(["2025-01-07T22:00:00Z", "2025-01-08T22:00:00Z"]);
+  });
+
+  it("breaks ties by start time", () => {
+    const slots = [slotAt("2025-01-09T15:00:00Z"), slotAt("2025-01-08T15:00:00Z")];
+
+    const ranked = scoreSlotsByPreference(slots, undefined, "UTC", { now: new Date("2025-01-06T00:00:00Z") });
+
+    expect(ranked.map((slot) => slot.id)).toEqual(["2025-01-08T15:00:00Z", "2025-01-09T15:00:00Z"]);
+  });
+});
+
+describe("slot scoring properties", () => {
+  const timezone = fc.constantFrom(...TIMEZONES);
+  const instant = fc.oneof(
+    fc.date({ min: new Date("2024-01-01T00:00:00Z"), max: new Date("2026-12-31T00:00:00Z"), noInvalidDate: true }),
+    fc
+      .tuple(fc.constantFrom(...DST_INSTANTS), fc.integer({ min: -36, max: 36 }))
+      .map(([date, hours]) => new Date(date.getTime() + hours * 60 * 60 * 1000))
+  );
+  const block = fc.record({
+    dayOfWeek: fc.integer({ min: 0, max: 6 }),
+    startTime: fc
+      .tuple(fc.integer({ min: 0, max: 23 }), fc.constantFrom(0, 30))
+      .map(([h, m]) => `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`),
+    durationMinutes: fc.integer({ min: 1, max: 16 }).map((n) => n * 30),
+  });
+  const weights = fc.record({
+    day: fc.integer({ min: 0, max: 100 }),
+    time: fc.integer({ min: 0, max: 100 }),
+    proximity: fc.integer({ min: 0, max: 100 }),
+    convenience: fc.integer({ min: 0, max: 100 }),
+  });
+
+  it("keeps scores between zero and the sum of the weights", () => {
+    fc.assert(
+      fc.property(instant, timezone, fc.array(block, { maxLength: 5 }), weights, (start, tz, blocks, w) => {
+        const slot = makeSlot(start.getTime(), start.getTime() + 60 * 60 * 1000);
+        const { preferenceScore, explanation } = scoreSlot(slot, blocks, tz, { now: NOW, weights: w });
+        const total = w.day + w.time + w.proximity + w.convenience;
+
+        expect(preferenceScore).toBeGreaterThanOrEqual(0);
+        expect(preferenceScore).toBeLessThanOrEqual(total + 1e-9);
+        for (const f of explanation.factors) {
+          expect(f.match).toBeGreaterThanOrEqual(0);
+          expect(f.match).toBeLessThanOrEqual(1);
+          expect(f.points).toBeCloseTo(f.weight * f.match);
+        }
+        expect(preferenceScore).toBeCloseTo(explanation.factors.reduce((sum, f) => sum + f.points, 0));
+      })
+    );
+  });
+
+  it("gives full time credit to any slot inside a window, in any timezone", () => {
+    fc.assert(
+      fc.property(
+        instant,
+        timezone,
+        block,
+        fc.integer({ min: 0, max: 480 }),
+        fc.integer({ min: 15, max: 120 }),
+        (anchor, tz, b, offset, length) => {
+          fc.pre(offset + length <= b.durationMinutes);
+          const local = getZonedParts(anchor, tz);
+          const windowBlock = { ...b, dayOfWeek: local.dayOfWeek };
+          const [hours, minutes] = b.startTime.split(":").map(Number);
+          const startMinutes = hours * 60 + minutes + offset;
+          // Slot endpoints as wall-clock times in the window's timezone
+          const start = zonedTimeToInstant(local, startMinutes, tz);
+          const end = zonedTimeToInstant(local, startMinutes + length, tz);
+          fc.pre(end > start);
+
+          const { explanation } = scoreSlot(makeSlot(start, end), [windowBlock], tz, { now: NOW });
+
+          expect(explanation.factors.find((f) => f.factor === "time")?.match).toBeCloseTo(1);
+        }
+      )
+    );
+  });
+
+  it("matches the day in the chosen timezone, not the runtime's", () => {
+    fc.assert(
+      fc.property(instant, timezone, (start, tz) => {
+        const weekday = start.toLocaleDateString("en-US", { weekday: "long", timeZone: tz });
+        const dayOfWeek = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"].indexOf(weekday);
+        const slot = makeSlot(start.getTime(), start.getTime() + 60 * 60 * 1000);
+
+        const preferred = scoreSlot(slot, [{ dayOfWeek, startTime: "00:00", durationMinutes: 30 }], tz, { now: NOW });
+        const other = scoreSlot(slot, [{ dayOfWeek: (dayOfWeek + 3) % 7, startTime: "00:00", durationMinutes: 30 }], tz, { now: NOW });
+
+        expect(preferred.explanation.factors.find((f) => f.factor === "day")?.match).toBe(1);
+        expect(other.explanation.factors.find((f) => f.factor === "day")?.match).toBe(0);
+        expect(other.explanation.factors.find((f) => f.factor === "time")?.match).toBe(0);
+      })
+    );
+  });
+
+  it("never lowers time credit when a window is lengthened", () => {
+    fc.assert(
+      fc.property(instant, timezone, block, fc.integer({ min: 1, max: 8 }), (start, tz, b, extra) => {
+        const slot = makeSlot(start.getTime(), start.getTime() + 60 * 60 * 1000);
+        const longer = { ...b, durationMinutes: b.durationMinutes + extra * 30 };
+        const time = (blocks: TimeBlock[]) =>
+          scoreSlot(slot, blocks, tz, { now: NOW }).explanation.factors.find((f) => f.factor === "time")!.match;
+
+        expect(time([longer])).toBeGreaterThanOrEqual(time([b]) - 1e-9);
+      })
+    );
+  });
+
+  it("scales scores with the weights", () => {
+    fc.assert(
+      fc.property(instant, timezone, fc.array(block, { maxLength: 3 }), fc.integer({ min: 1, max: 5 }), (start, tz, blocks, k) => {
+        const slot = makeSlot(start.getTime(), start.getTime() + 60 * 60 * 1000);
+        const scaled = Object.fromEntries(
+          Object.entries(DEFAULT_SLOT_SCORING_WEIGHTS).map(([key, value]) => [key, value * k])
+        );
+
+        expect(scoreSlot(slot, blocks, tz, { now: NOW, weights: scaled }).preferenceScore).toBeCloseTo(
+          k * scoreSlot(slot, blocks, tz, { now: NOW }).preferenceScore
+        );
+      })
+    );
+  });
+
+  it("ranks the same regardless of input order", () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(instant, { maxLength: 8, selector: (date) => date.getTime() }),
+        timezone,
+        fc.array(block, { maxLength: 3 }),
+        (starts, tz, blocks) => {
+          const slots = starts.map((start) => makeSlot(start.getTime(), start.getTime() + 60 * 60 * 1000));
+          const shuffled = [...slots].reverse();
+
+          const ranked = scoreSlotsByPreference(slots, blocks, tz, { now: NOW });
+          const rankedShuffled = scoreSlotsByPreference(shuffled, blocks, tz, { now: NOW });
+
+          expect(rankedShuffled.map((slot) => slot.id)).toEqual(ranked.map((slot) => slot.id));
+          for (let i = 1; i < ranked.length; i++) {
+            expect(ranked[i - 1].preferenceScore).toBeGreaterThanOrEqual(ranked[i].preferenceScore);
+          }
+        }
+      )
+    );
+  });
+});
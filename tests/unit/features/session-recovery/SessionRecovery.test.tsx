@@ -0,0 +1,163 @@
+/**
+ * SessionRecovery Component Tests
+ *
+ * Test Coverage:
+ * - Token exchange stores auth tokens and resumes at the right step
+ * - Expired or used links show the re-request form
+ * - Requesting a new link
+ * - Retry after connection problems
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { CombinedGraphQLErrors } from "@apollo/client/errors";
+import { SessionRecovery } from "@/features/session-recovery";
+import { readSessionData } from "@/lib/storage";
+
+const mocks = vi.hoisted(() => ({
+  replace: vi.fn(),
+  refetch: vi.fn(),
+  requestRecovery: vi.fn(),
+  setAuthToken: vi.fn(),
+  setRefreshToken: vi.fn(),
+  queryResult: {} as { data?: unknown; error?: unknown },
+}));
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ replace: mocks.replace }),
+}));
+
+vi.mock("@/lib/apollo/client", async () => {
+  const { classifyError } = await import("@/lib/apollo/errors");
+  return {
+    classifyError,
+    setAuthToken: mocks.setAuthToken,
+    setRefreshToken: mocks.setRefreshToken,
+  };
+});
+
+vi.mock("@/types/graphql", () => ({
+  useSessionByRecoveryTokenQuery: () => ({ ...mocks.queryResult, refetch: mocks.refetch }),
+  useRequestSessionRecoveryMutation: () => [mocks.requestRecovery, { loading: false }],
+}));
+
+const recovered = {
+  sessionByRecoveryToken: {
+    token: "jwt-new",
+    refreshToken: "refresh-new",
+    session: {
+      id: "sess_abc",
+      status: "active",
+      expiresAt: "2025-04-01T00:00:00Z",
+      createdAt: "2025-03-01T00:00:00Z",
+      updatedAt: "2025-03-02T00:00:00Z",
+      progress: {
+        percentage: 40,
+        currentPhase: "demographics",
+        completedPhases: ["assessment"],
+        nextPhase: "insurance",
+        estimatedMinutesRemaining: 10,
+      },
+      parent: null,
+      child: null,
+      assessment: { id: "assessment-1", status: "complete" },
+      insurance: null,
+      appointment: null,
+    },
+  },
+};
+
+function graphQLError(code: string) {
+  return new CombinedGraphQLErrors({
+    data: null,
+    errors: [{ message: "Recovery failed", extensions: { code } }],
+  });
+}
+
+describe("SessionRecovery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    mocks.queryResult = {};
+    mocks.refetch.mockResolvedValue({});
+  });
+
+  it("shows progress while the token is exchanged", () => {
+    render(<SessionRecovery token="rt_123" />);
+
+    expect(screen.getByRole("status")).toHaveTextContent("Restoring your progress...");
+  });
+
+  it("stores the new tokens, restores local data and resumes at the next step", async () => {
+    mocks.queryResult = { data: recovered };
+
+    render(<SessionRecovery token="rt_123" />);
+
+    await waitFor(() =>
+      expect(mocks.replace).toHaveBeenCalledWith("/onboarding/sess_abc/demographics")
+    );
+    expect(mocks.setAuthToken).toHaveBeenCalledWith("jwt-new");
+    expect(mocks.setRefreshToken).toHaveBeenCalledWith("refresh-new");
+    expect(readSessionData("sess_abc")).not.toBeNull();
+    expect(localStorage.getItem("current_onboarding_session")).toBe("sess_abc");
+  });
+
+  it("offers a new link when the token has expired or was used", async () => {
+    localStorage.setItem("current_onboarding_session", "sess_device");
+    mocks.queryResult = { error: graphQLError("SESSION_EXPIRED") };
+
+    render(<SessionRecovery token="rt_used" />);
+
+    expect(screen.getByRole("heading", { name: "This link has expired" })).toBeInTheDocument();
+    expect(mocks.setAuthToken).not.toHaveBeenCalled();
+    await waitFor(() =>
+      expect(screen.getByLabelText("Your saved link")).toHaveValue("sess_device")
+    );
+  });
+
+  it("requests a new link for the session in the saved link", async () => {
+    mocks.queryResult = { error: graphQLError("NOT_FOUND") };
+    mocks.requestRecovery.mockResolvedValue({
+      data: {
+        requestSessionRecovery: { success: true, message: "Check your email for a new link." },
+      },
+    });
+
+    render(<SessionRecovery token="rt_used" />);
+
+    fireEvent.change(screen.getByLabelText("Your saved link"), {
+      target: { value: "https://app.daybreakhealth.com/onboarding/sess_xyz/assessment" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Email me a new link" }));
+
+    expect(await screen.findByText("Check your email for a new link.")).toBeInTheDocument();
+    expect(mocks.requestRecovery).toHaveBeenCalledWith({
+      variables: { input: { sessionId: "sess_xyz" } },
+    });
+  });
+
+  it("asks for a saved link it can read", async () => {
+    mocks.queryResult = { error: graphQLError("NOT_FOUND") };
+
+    render(<SessionRecovery token="rt_used" />);
+
+    fireEvent.change(screen.getByLabelText("Your saved link"), {
+      target: { value: "https://example.com/elsewhere" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Email me a new link" }));
+
+    expect(await screen.findByText(/paste the link you saved/i)).toBeInTheDocument();
+    expect(mocks.requestRecovery).not.toHaveBeenCalled();
+  });
+
+  it("lets the parent retry after a connection problem", () => {
+    mocks.queryResult = { error: new TypeError("Failed to fetch") };
+
+    render(<SessionRecovery token="rt_123" />);
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/couldn't reach daybreak/i);
+    fireEvent.click(screen.getByRole("button", { name: "Try again" }));
+
+    expect(mocks.refetch).toHaveBeenCalled();
+  });
+});
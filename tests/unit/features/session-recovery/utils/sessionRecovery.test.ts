@@ -0,0 +1,200 @@
+/**
+ * Unit tests for session recovery utilities
+ *
+ * Tests cover:
+ * - Mapping the recovered session into the local storage shape
+ * - Merging server data over local data and notifying listeners
+ * - Finding the furthest incomplete step
+ * - Reading a session ID from a saved link
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  CURRENT_SESSION_KEY,
+  getResumePath,
+  getResumeSegment,
+  hydrateLocalSession,
+  parseSessionReference,
+  toLocalSessionData,
+  type RecoveredSession,
+} from "@/features/session-recovery/utils/sessionRecovery";
+import { ONBOARDING_DATA_UPDATED_EVENT } from "@/lib/completion";
+import { flushSessionData, readSessionData } from "@/lib/storage";
+
+const emptySession: RecoveredSession = {
+  id: "sess_abc",
+  status: "active",
+  expiresAt: "2025-04-01T00:00:00Z",
+  createdAt: "2025-03-01T00:00:00Z",
+  updatedAt: "2025-03-02T00:00:00Z",
+  progress: {
+    percentage: 0,
+    currentPhase: "assessment",
+    completedPhases: [],
+    nextPhase: null,
+    estimatedMinutesRemaining: 20,
+  },
+  parent: null,
+  child: null,
+  assessment: null,
+  insurance: null,
+  appointment: null,
+};
+
+const fullSession: RecoveredSession = {
+  ...emptySession,
+  parent: {
+    id: "parent-1",
+    email: "jane@example.com",
+    phone: "+15555550100",
+    firstName: "Jane",
+    lastName: "Doe",
+    relationship: "Guardian",
+  },
+  child: {
+    id: "child-1",
+    first_name: "Sam",
+    last_name: "Doe",
+    date_of_birth: "2010-05-01",
+    gender: null,
+    grade: "9",
+  },
+  assessment: { id: "assessment-1", status: "complete" },
+  insurance: {
+    id: "insurance-1",
+    payerName: "Aetna",
+    subscriberName: "Jane Doe",
+    memberId: "W123456789",
+    groupNumber: null,
+    verificationStatus: "verified",
+  },
+};
+
+describe("toLocalSessionData", () => {
+  it("maps server records to the local field names", () => {
+    expect(toLocalSessionData(fullSession)).toEqual({
+      parent: {
+        firstName: "Jane",
+        lastName: "Doe",
+        email: "jane@example.com",
+        phone: "+15555550100",
+        relationshipToChild: "guardian",
+      },
+      child: {
+        firstName: "Sam",
+        lastName: "Doe",
+        dateOfBirth: "2010-05-01",
+        gender: undefined,
+        grade: "9",
+      },
+      insurance: {
+        carrier: "aetna",
+        payerName: "Aetna",
+        memberId: "W123456789",
+        groupNumber: undefined,
+        subscriberName: "Jane Doe",
+        verificationStatus: "verified",
+        isSelfPay: false,
+      },
+    });
+  });
+
+  it("only includes sections the server has", () => {
+    expect(toLocalSessionData(emptySession)).toEqual({});
+  });
+
+  it("marks self-pay sessions", () => {
+    const data = toLocalSessionData({
+      ...emptySession,
+      insurance: {
+        id: "insurance-1",
+        payerName: null,
+        subscriberName: null,
+        memberId: null,
+        groupNumber: null,
+        verificationStatus: "self_pay",
+      },
+    });
+
+    expect(data.insurance).toMatchObject({ isSelfPay: true, carrier: undefined });
+  });
+});
+
+describe("hydrateLocalSession", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("merges server data over local data and keeps local-only sections", async () => {
+    localStorage.setItem(
+      "onboarding_session_sess_abc",
+      JSON.stringify({
+        data: {
+          formAssessment: { primaryConcerns: "Anxiety" },
+          child: { firstName: "Sammy", pronouns: "they-them" },
+        },
+      })
+    );
+
+    await hydrateLocalSession(fullSession);
+
+    const stored = JSON.parse(readSessionData("sess_abc") ?? "{}");
+    expect(stored.data.formAssessment).toEqual({ primaryConcerns: "Anxiety" });
+    expect(stored.data.child).toMatchObject({ firstName: "Sam", pronouns: "they-them" });
+    expect(stored.data.parent.email).toBe("jane@example.com");
+    expect(stored.savedAt).toEqual(expect.any(String));
+    expect(localStorage.getItem(CURRENT_SESSION_KEY)).toBe("sess_abc");
+  });
+
+  it("stores the restored data encrypted", async () => {
+    await hydrateLocalSession(fullSession);
+    await flushSessionData("sess_abc");
+
+    expect(localStorage.getItem("onboarding_session_sess_abc")).not.toContain("jane@example.com");
+  });
+
+  it("notifies completion listeners", async () => {
+    const listener = vi.fn();
+    window.addEventListener(ONBOARDING_DATA_UPDATED_EVENT, listener);
+
+    await hydrateLocalSession(emptySession);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    window.removeEventListener(ONBOARDING_DATA_UPDATED_EVENT, listener);
+  });
+});
+
+describe("getResumeSegment", () => {
+  it.each([
+    ["a new session", emptySession, "assessment"],
+    ["an unfinished assessment", { ...fullSession, assessment: { id: "a", status: "in_progress" } }, "assessment"],
+    ["missing child info", { ...fullSession, child: null }, "demographics"],
+    ["missing insurance", { ...fullSession, insurance: null }, "insurance"],
+    ["everything collected", fullSession, "matching"],
+    ["a booked appointment", { ...fullSession, appointment: { id: "appt-1" } }, "appointment"],
+  ] as const)("resumes %s at %s", (_label, session, segment) => {
+    expect(getResumeSegment(session)).toBe(segment);
+  });
+
+  it("builds the onboarding path", () => {
+    expect(getResumePath({ ...fullSession, insurance: null })).toBe(
+      "/onboarding/sess_abc/insurance"
+    );
+  });
+});
+
+describe("parseSessionReference", () => {
+  it("reads the session ID from a saved link", () => {
+    expect(
+      parseSessionReference("https://app.daybreakhealth.com/onboarding/sess_abc/assessment?x=1")
+    ).toBe("sess_abc");
+  });
+
+  it("accepts a bare session ID", () => {
+    expect(parseSessionReference("  sess_abc  ")).toBe("sess_abc");
+  });
+
+  it("rejects anything else", () => {
+    expect(parseSessionReference("")).toBeNull();
+    expect(parseSessionReference("https://example.com/somewhere")).toBeNull();
+  });
+});
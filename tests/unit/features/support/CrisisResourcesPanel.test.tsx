@@ -0,0 +1,123 @@
+/**
+ * Unit tests for CrisisResourcesPanel and useRiskScreening
+ *
+ * Tests cover:
+ * - Crisis resources rendered from support resources data
+ * - Panel cannot be dismissed with Escape
+ * - Acknowledge callback
+ * - Screening holds the pending action until acknowledged
+ * - Backend riskFlags open the panel once per set of flags
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, renderHook, act } from "@testing-library/react";
+import { CrisisResourcesPanel } from "@/features/support/CrisisResourcesPanel";
+import { useRiskScreening } from "@/features/support/useRiskScreening";
+
+describe("CrisisResourcesPanel", () => {
+  it("shows 988, Crisis Text Line and 911", () => {
+    render(<CrisisResourcesPanel isOpen={true} onAcknowledge={vi.fn()} />);
+
+    expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: /call 988/i })).toHaveAttribute("href", "tel:988");
+    expect(screen.getByRole("link", { name: /text hello to 741741/i })).toHaveAttribute(
+      "href",
+      "sms:741741?&body=HELLO"
+    );
+    expect(screen.getByRole("link", { name: /call 911/i })).toHaveAttribute("href", "tel:911");
+  });
+
+  it("stays open when Escape is pressed", () => {
+    const onAcknowledge = vi.fn();
+    render(<CrisisResourcesPanel isOpen={true} onAcknowledge={onAcknowledge} />);
+
+    fireEvent.keyDown(screen.getByRole("alertdialog"), { key: "Escape" });
+
+    expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+    expect(onAcknowledge).not.toHaveBeenCalled();
+  });
+
+  it("calls onAcknowledge when the parent acknowledges", () => {
+    const onAcknowledge = vi.fn();
+    render(<CrisisResourcesPanel isOpen={true} onAcknowledge={onAcknowledge} />);
+
+    fireEvent.click(screen.getByRole("button", { name: /i've seen these resources/i }));
+
+    expect(onAcknowledge).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders nothing when closed", () => {
+    render(<CrisisResourcesPanel isOpen={false} onAcknowledge={vi.fn()} />);
+
+    expect(screen.queryByRole("alertdialog")).not.toBeInTheDocument();
+  });
+});
+
+describe("useRiskScreening", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("runs the action immediately when no risk is found", () => {
+    const proceed = vi.fn();
+    const { result } = renderHook(() =>
+      useRiskScreening({ sessionId: "sess_1", source: "chat" })
+    );
+
+    let held = true;
+    act(() => {
+      held = result.current.screen("He has trouble sleeping", proceed);
+    });
+
+    expect(held).toBe(false);
+    expect(proceed).toHaveBeenCalledTimes(1);
+    expect(result.current.isPanelOpen).toBe(false);
+  });
+
+  it("holds the action until crisis resources are acknowledged", () => {
+    const proceed = vi.fn();
+    const { result } = renderHook(() =>
+      useRiskScreening({ sessionId: "sess_1", source: "form" })
+    );
+
+    act(() => {
+      result.current.screen(["", "She said she wants to die"], proceed);
+    });
+
+    expect(result.current.isPanelOpen).toBe(true);
+    expect(proceed).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith(
+      "[Safety] Crisis resources shown:",
+      expect.objectContaining({ source: "form", trigger: "language" })
+    );
+
+    act(() => {
+      result.current.acknowledge();
+    });
+
+    expect(result.current.isPanelOpen).toBe(false);
+    expect(result.current.hasAcknowledged).toBe(true);
+    expect(proceed).toHaveBeenCalledTimes(1);
+  });
+
+  it("opens once for each new set of backend risk flags", () => {
+    const { result, rerender } = renderHook(
+      ({ riskFlags }: { riskFlags: string[] }) =>
+        useRiskScreening({ sessionId: "sess_1", source: "questionnaire", riskFlags }),
+      { initialProps: { riskFlags: [] as string[] } }
+    );
+
+    expect(result.current.isPanelOpen).toBe(false);
+
+    rerender({ riskFlags: ["phq_a_item_9"] });
+    expect(result.current.isPanelOpen).toBe(true);
+
+    act(() => {
+      result.current.acknowledge();
+    });
+    rerender({ riskFlags: ["phq_a_item_9"] });
+    expect(result.current.isPanelOpen).toBe(false);
+
+    rerender({ riskFlags: ["phq_a_item_9", "gad_7_severe"] });
+    expect(result.current.isPanelOpen).toBe(true);
+  });
+});
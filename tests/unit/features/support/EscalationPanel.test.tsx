@@ -0,0 +1,184 @@
+/**
+ * Unit tests for EscalationPanel and escalation helpers.
+ *
+ * Tests:
+ * - Contact details render as tel/mailto links
+ * - Request is only enabled once a preset reason is chosen
+ * - Escalated sessions show status instead of the form
+ * - Intercom fallback when live chat is blocked
+ * - isIntercomAvailable stub detection
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { EscalationPanel } from "@/features/support/EscalationPanel";
+import type { UseHumanEscalationResult } from "@/features/support/useHumanEscalation";
+import {
+  formatEscalationReason,
+  isIntercomAvailable,
+} from "@/features/support/utils/escalation";
+
+const mockRequestHumanContact = vi.fn();
+const mockOpenChat = vi.fn();
+let mockHookResult: UseHumanEscalationResult;
+
+vi.mock("@/features/support/useHumanEscalation", () => ({
+  useHumanEscalation: () => mockHookResult,
+}));
+
+function buildHookResult(
+  overrides: Partial<UseHumanEscalationResult> = {}
+): UseHumanEscalationResult {
+  return {
+    contact: {
+      phone: "1-800-555-0199",
+      email: "care@example.com",
+      hours: "Mon-Fri 8am-8pm ET",
+    },
+    contactLoading: false,
+    isEscalated: false,
+    escalationRequestedAt: null,
+    requestHumanContact: mockRequestHumanContact,
+    isRequesting: false,
+    requestError: null,
+    statusError: undefined,
+    isChatAvailable: true,
+    openChat: mockOpenChat,
+    ...overrides,
+  };
+}
+
+function renderPanel(onOpenChange = vi.fn()) {
+  render(
+    <EscalationPanel
+      isOpen
+      onOpenChange={onOpenChange}
+      sessionId="sess_123"
+      source="header"
+    />
+  );
+  return { onOpenChange };
+}
+
+describe("EscalationPanel", () => {
+  beforeEach(() => {
+    mockRequestHumanContact.mockReset().mockResolvedValue(undefined);
+    mockOpenChat.mockReset();
+    mockHookResult = buildHookResult();
+  });
+
+  it("renders phone, email and hours from contact options", () => {
+    renderPanel();
+
+    expect(screen.getByRole("link", { name: /1-800-555-0199/ })).toHaveAttribute(
+      "href",
+      "tel:1-800-555-0199"
+    );
+    expect(screen.getByRole("link", { name: /care@example.com/ })).toHaveAttribute(
+      "href",
+      "mailto:care@example.com"
+    );
+    expect(screen.getByText("Mon-Fri 8am-8pm ET")).toBeInTheDocument();
+  });
+
+  it("requires a reason before requesting a call back", async () => {
+    renderPanel();
+
+    const submit = screen.getByRole("button", { name: /request a call back/i });
+    expect(submit).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText(/help with scheduling/i));
+    expect(submit).toBeEnabled();
+
+    fireEvent.click(submit);
+    await waitFor(() =>
+      expect(mockRequestHumanContact).toHaveBeenCalledWith("scheduling_help")
+    );
+  });
+
+  it("shows escalation status instead of the form when already escalated", () => {
+    mockHookResult = buildHookResult({
+      isEscalated: true,
+      escalationRequestedAt: "2026-01-05T22:30:00Z",
+    });
+    renderPanel();
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      /team member will reach out soon/i
+    );
+    expect(
+      screen.queryByRole("button", { name: /request a call back/i })
+    ).not.toBeInTheDocument();
+  });
+
+  it("shows request errors with a phone/email fallback", () => {
+    mockHookResult = buildHookResult({
+      requestError: new Error("Unable to send your request"),
+    });
+    renderPanel();
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      /call or email us instead/i
+    );
+  });
+
+  it("opens live chat and closes the panel when Intercom is available", () => {
+    mockOpenChat.mockReturnValue(true);
+    const { onOpenChange } = renderPanel();
+
+    fireEvent.click(screen.getByRole("button", { name: /chat with us now/i }));
+
+    expect(mockOpenChat).toHaveBeenCalled();
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it("falls back to phone and email when Intercom is blocked", () => {
+    mockOpenChat.mockReturnValue(false);
+    const { onOpenChange } = renderPanel();
+
+    fireEvent.click(screen.getByRole("button", { name: /chat with us now/i }));
+
+    expect(onOpenChange).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      /live chat isn't available/i
+    );
+  });
+
+  it("hides the chat button when Intercom never loaded", () => {
+    mockHookResult = buildHookResult({ isChatAvailable: false });
+    renderPanel();
+
+    expect(
+      screen.queryByRole("button", { name: /chat with us now/i })
+    ).not.toBeInTheDocument();
+    expect(screen.getByText(/live chat isn't available/i)).toBeInTheDocument();
+  });
+});
+
+describe("escalation helpers", () => {
+  const originalIntercom = window.Intercom;
+
+  afterEach(() => {
+    window.Intercom = originalIntercom;
+  });
+
+  it("formats the reason with its entry point", () => {
+    expect(formatEscalationReason("technical_issue", "chat")).toBe(
+      "technical_issue (via chat)"
+    );
+  });
+
+  it("treats a missing Intercom as unavailable", () => {
+    window.Intercom = undefined;
+    expect(isIntercomAvailable()).toBe(false);
+  });
+
+  it("treats the queueing stub as unavailable (script blocked)", () => {
+    window.Intercom = Object.assign(vi.fn(), { q: [] as unknown[][] });
+    expect(isIntercomAvailable()).toBe(false);
+  });
+
+  it("treats the loaded Intercom API as available", () => {
+    window.Intercom = vi.fn<(...args: unknown[]) => void>();
+    expect(isIntercomAvailable()).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for useAbandonSession hook
+ *
+ * Validates:
+ * - The abandonSession mutation is sent for the session
+ * - Encrypted data, records and their keys are wiped afterwards
+ * - Local data is wiped even when the server request fails
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+
+const { keyStore } = vi.hoisted(() => {
+  const keys = new Map<string, CryptoKey>();
+  return {
+    keyStore: {
+      get: async (id: string) => keys.get(id) ?? null,
+      set: async (id: string, key: CryptoKey) => {
+        keys.set(id, key);
+      },
+      delete: async (id: string) => {
+        keys.delete(id);
+      },
+    },
+  };
+});
+
+// Stands in for IndexedDB, which jsdom doesn't provide
+vi.mock("@/lib/storage/key-store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/storage/key-store")>()),
+  createDefaultKeyStore: () => keyStore,
+}));
+
+const mockAbandonMutation = vi.fn();
+vi.mock("@/types/graphql", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/types/graphql")>()),
+  useAbandonSessionMutation: () => [mockAbandonMutation, { loading: false }],
+}));
+
+import { useAbandonSession } from "@/hooks/useAbandonSession";
+import {
+  flushSessionData,
+  getSessionRecordStore,
+  loadSessionData,
+  writeSessionData,
+  writeSessionRecord,
+} from "@/lib/storage";
+
+const SESSION_ID = "sess_abandon";
+
+/**
+ * Saves session data and a record, encrypted, as the onboarding pages do
+ */
+async function saveSession() {
+  await loadSessionData(SESSION_ID);
+  writeSessionData(SESSION_ID, JSON.stringify({ data: { child: { firstName: "Sam" } } }));
+  writeSessionRecord("assistantPartial", SESSION_ID, JSON.stringify({ content: "Sam is" }));
+  await flushSessionData(SESSION_ID);
+  await getSessionRecordStore("assistantPartial").flush(SESSION_ID);
+}
+
+describe("useAbandonSession", () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    vi.clearAllMocks();
+    await saveSession();
+  });
+
+  it("abandons the session and wipes its data and keys", async () => {
+    mockAbandonMutation.mockResolvedValue({ data: { abandonSession: { session: null } } });
+    expect(localStorage.getItem(`onboarding_session_${SESSION_ID}`)).not.toBeNull();
+    expect(await keyStore.get(SESSION_ID)).not.toBeNull();
+
+    const { result } = renderHook(() => useAbandonSession(SESSION_ID));
+    await act(() => result.current.abandonSession());
+
+    expect(mockAbandonMutation).toHaveBeenCalledWith({
+      variables: { input: { sessionId: SESSION_ID } },
+    });
+    expect(localStorage.getItem(`onboarding_session_${SESSION_ID}`)).toBeNull();
+    expect(localStorage.getItem(`assistant_partial_${SESSION_ID}`)).toBeNull();
+    expect(await keyStore.get(SESSION_ID)).toBeNull();
+    expect(await keyStore.get(`assistant_partial_${SESSION_ID}`)).toBeNull();
+  });
+
+  it("wipes local data when the server request fails", async () => {
+    mockAbandonMutation.mockRejectedValue(new TypeError("Failed to fetch"));
+
+    const { result } = renderHook(() => useAbandonSession(SESSION_ID));
+    await act(async () => {
+      await expect(result.current.abandonSession()).rejects.toThrow("Failed to fetch");
+    });
+
+    expect(localStorage.getItem(`onboarding_session_${SESSION_ID}`)).toBeNull();
+    expect(await keyStore.get(SESSION_ID)).toBeNull();
+  });
+});
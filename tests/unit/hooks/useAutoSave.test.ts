@@ -5,12 +5,13 @@
  * - Auto-save on message send
  * - Save status tracking (idle, saving, saved, error)
  * - Retry logic for failed saves
- * - localStorage backup integration
+ * - Encrypted local backup integration
  * - Error handling and recovery
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { renderHook, waitFor, act } from "@testing-library/react";
 import { useAutoSave } from "@/hooks/useAutoSave";
+import { readSessionData } from "@/lib/storage";
 
 describe("useAutoSave", () => {
   const mockSessionId = "test-session-123";
@@ -62,8 +63,11 @@ describe("useAutoSave", () => {
         await result.current.save(mockData);
       });
 
-      const stored = localStorage.getItem(`onboarding_session_${mockSessionId}`);
+      const stored = readSessionData(mockSessionId);
       expect(stored).toBeTruthy();
+      expect(localStorage.getItem(`onboarding_session_${mockSessionId}`)).not.toContain(
+        mockSessionId
+      );
 
       const parsed = JSON.parse(stored!);
       expect(parsed.data).toEqual(mockData);
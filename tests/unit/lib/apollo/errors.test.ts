@@ -0,0 +1,112 @@
+/**
+ * Unit tests for Apollo error classification.
+ *
+ * Tests:
+ * - GraphQL error codes
+ * - HTTP status codes
+ * - Network and offline failures
+ * - Retryable flag
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { CombinedGraphQLErrors, ServerError } from "@apollo/client/errors";
+import { classifyError, isAuthenticationError, isOffline } from "@/lib/apollo/errors";
+
+function graphQLErrors(...codes: Array<string | undefined>) {
+  return new CombinedGraphQLErrors({
+    data: null,
+    errors: codes.map((code, index) => ({
+      message: `Error ${index}`,
+      ...(code && { extensions: { code } }),
+    })),
+  });
+}
+
+function serverError(statusCode: number) {
+  return new ServerError("Request failed", {
+    response: new Response("", { status: statusCode }),
+    bodyText: "",
+  });
+}
+
+describe("classifyError", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ["UNAUTHENTICATED", "unauthenticated"],
+    ["SESSION_EXPIRED", "session_expired"],
+    ["FORBIDDEN", "forbidden"],
+    ["NOT_FOUND", "not_found"],
+    ["VALIDATION_ERROR", "validation"],
+    ["RATE_LIMITED", "rate_limited"],
+    ["INTERNAL_ERROR", "server"],
+  ])("maps GraphQL code %s to %s", (code, kind) => {
+    const appError = classifyError(graphQLErrors(code));
+
+    expect(appError.kind).toBe(kind);
+    expect(appError.code).toBe(code);
+  });
+
+  it("uses the first error with a known code", () => {
+    const appError = classifyError(graphQLErrors(undefined, "UNAUTHENTICATED"));
+
+    expect(appError.kind).toBe("unauthenticated");
+    expect(appError.message).toBe("Error 1");
+  });
+
+  it("classifies unknown GraphQL codes as unknown", () => {
+    const appError = classifyError(graphQLErrors("SOMETHING_ELSE"));
+
+    expect(appError.kind).toBe("unknown");
+    expect(appError.code).toBe("SOMETHING_ELSE");
+  });
+
+  it.each([
+    [401, "unauthenticated"],
+    [403, "forbidden"],
+    [404, "not_found"],
+    [422, "validation"],
+    [429, "rate_limited"],
+    [503, "server"],
+  ])("maps HTTP %i to %s", (statusCode, kind) => {
+    const appError = classifyError(serverError(statusCode));
+
+    expect(appError.kind).toBe(kind);
+    expect(appError.statusCode).toBe(statusCode);
+  });
+
+  it("classifies fetch failures as network errors", () => {
+    expect(classifyError(new TypeError("Failed to fetch")).kind).toBe("network");
+  });
+
+  it("classifies fetch failures while offline as offline", () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+    expect(isOffline()).toBe(true);
+    expect(classifyError(new TypeError("Failed to fetch")).kind).toBe("offline");
+  });
+
+  it("marks only transient failures as retryable", () => {
+    expect(classifyError(new TypeError("Failed to fetch")).retryable).toBe(true);
+    expect(classifyError(serverError(503)).retryable).toBe(true);
+    expect(classifyError(graphQLErrors("RATE_LIMITED")).retryable).toBe(true);
+    expect(classifyError(graphQLErrors("VALIDATION_ERROR")).retryable).toBe(false);
+    expect(classifyError(serverError(401)).retryable).toBe(false);
+  });
+
+  it("keeps the original error as the cause", () => {
+    const error = new Error("Boom");
+    const appError = classifyError(error);
+
+    expect(appError).toMatchObject({ kind: "unknown", message: "Boom", cause: error });
+  });
+});
+
+describe("isAuthenticationError", () => {
+  it("detects rejected tokens from GraphQL codes and HTTP 401", () => {
+    expect(isAuthenticationError(graphQLErrors("UNAUTHENTICATED"))).toBe(true);
+    expect(isAuthenticationError(serverError(401))).toBe(true);
+    expect(isAuthenticationError(graphQLErrors("FORBIDDEN"))).toBe(false);
+  });
+});
@@ -6,17 +6,76 @@
  * - Auth link creation
  * - Split link routing logic
  * - Connection state management
+ * - Error classification, token refresh and retry links (mock terminating link)
  */
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  ApolloClient,
+  ApolloLink,
+  InMemoryCache,
+  Observable,
+  gql,
+  type FetchResult,
+} from "@apollo/client";
+import { lastValueFrom } from "rxjs";
 import {
   createHttpLink,
   createAuthLink,
+  createErrorLink,
+  createTokenRefreshLink,
+  createRetryLink,
   setAuthToken,
   getAuthToken,
+  setRefreshToken,
+  getRefreshToken,
   getConnectionState,
   onConnectionStateChange,
+  onAppError,
 } from "@/lib/apollo/links";
 
+const TEST_QUERY = gql`
+  query TestQuery {
+    ping
+  }
+`;
+
+const TEST_MUTATION = gql`
+  mutation TestMutation {
+    ping
+  }
+`;
+
+const client = new ApolloClient({ cache: new InMemoryCache(), link: ApolloLink.empty() });
+
+/**
+ * Terminating link that replays scripted responses and records each request
+ */
+function createMockLink(responses: Array<FetchResult | Error>) {
+  const requests: Array<{ authorization?: string }> = [];
+  const link = new ApolloLink((operation) => {
+    requests.push({ authorization: operation.getContext().headers?.authorization });
+    const response = responses[Math.min(requests.length - 1, responses.length - 1)];
+
+    return new Observable<FetchResult>((observer) => {
+      if (response instanceof Error) {
+        observer.error(response);
+      } else {
+        observer.next(response);
+        observer.complete();
+      }
+    });
+  });
+  return { link, requests };
+}
+
+const UNAUTHENTICATED: FetchResult = {
+  errors: [{ message: "Token expired", extensions: { code: "UNAUTHENTICATED" } }],
+};
+
+function run(link: ApolloLink, query = TEST_QUERY) {
+  return lastValueFrom(ApolloLink.execute(link, { query }, { client }));
+}
+
 describe("Apollo Links", () => {
   beforeEach(() => {
     setAuthToken(null);
@@ -93,4 +152,121 @@ describe("Apollo Links", () => {
       expect(getAuthToken()).toBeNull();
     });
   });
+
+  describe("Refresh Token", () => {
+    it("setRefreshToken persists and clears the token", () => {
+      setRefreshToken("refresh-1");
+      expect(getRefreshToken()).toBe("refresh-1");
+      expect(localStorage.getItem("daybreak_refresh_token")).toBe("refresh-1");
+
+      setRefreshToken(null);
+      expect(getRefreshToken()).toBeNull();
+    });
+  });
+
+  describe("createErrorLink", () => {
+    it("reports classified errors without changing the result", async () => {
+      const listener = vi.fn();
+      const unsubscribe = onAppError(listener);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { link } = createMockLink([UNAUTHENTICATED]);
+
+      const result = await run(ApolloLink.from([createErrorLink(), link]));
+
+      expect(result.errors?.[0].message).toBe("Token expired");
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: "unauthenticated", code: "UNAUTHENTICATED" }),
+        "TestQuery"
+      );
+
+      unsubscribe();
+      warn.mockRestore();
+    });
+  });
+
+  describe("createTokenRefreshLink", () => {
+    it("refreshes the token and replays the request with it", async () => {
+      setAuthToken("expired-token");
+      const refresh = vi.fn(async () => {
+        setAuthToken("fresh-token");
+        return "fresh-token";
+      });
+      const { link, requests } = createMockLink([UNAUTHENTICATED, { data: { ping: "pong" } }]);
+
+      const result = await run(
+        ApolloLink.from([createTokenRefreshLink({ refresh }), createAuthLink(), link])
+      );
+
+      expect(result.data).toEqual({ ping: "pong" });
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(requests.map((request) => request.authorization)).toEqual([
+        "Bearer expired-token",
+        "Bearer fresh-token",
+      ]);
+    });
+
+    it("only replays once if the new token is also rejected", async () => {
+      const refresh = vi.fn(async () => "fresh-token");
+      const { link, requests } = createMockLink([UNAUTHENTICATED]);
+
+      const result = await run(ApolloLink.from([createTokenRefreshLink({ refresh }), link]));
+
+      expect(result.errors?.[0].extensions?.code).toBe("UNAUTHENTICATED");
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("returns the original error when the token can't be refreshed", async () => {
+      const refresh = vi.fn(async () => null);
+      const { link, requests } = createMockLink([UNAUTHENTICATED]);
+
+      await expect(run(ApolloLink.from([createTokenRefreshLink({ refresh }), link]))).rejects.toThrow(
+        "Token expired"
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("ignores other errors", async () => {
+      const refresh = vi.fn(async () => "fresh-token");
+      const { link } = createMockLink([
+        { errors: [{ message: "Invalid", extensions: { code: "VALIDATION_ERROR" } }] },
+      ]);
+
+      await run(ApolloLink.from([createTokenRefreshLink({ refresh }), link]));
+
+      expect(refresh).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createRetryLink", () => {
+    it("retries queries after network failures", async () => {
+      const { link, requests } = createMockLink([
+        new TypeError("Failed to fetch"),
+        { data: { ping: "pong" } },
+      ]);
+
+      const result = await run(ApolloLink.from([createRetryLink(), link]));
+
+      expect(result.data).toEqual({ ping: "pong" });
+      expect(requests).toHaveLength(2);
+    });
+
+    it("does not retry mutations", async () => {
+      const { link, requests } = createMockLink([new TypeError("Failed to fetch")]);
+
+      await expect(run(ApolloLink.from([createRetryLink(), link]), TEST_MUTATION)).rejects.toThrow(
+        "Failed to fetch"
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("does not retry errors that won't succeed on retry", async () => {
+      const { link, requests } = createMockLink([new Error("Something else")]);
+
+      await expect(run(ApolloLink.from([createRetryLink(), link]))).rejects.toThrow(
+        "Something else"
+      );
+      expect(requests).toHaveLength(1);
+    });
+  });
 });
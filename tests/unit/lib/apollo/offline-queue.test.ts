@@ -0,0 +1,305 @@
+/**
+ * Unit tests for the offline mutation queue.
+ *
+ * Tests:
+ * - Durable queue persistence and expiry
+ * - PHI-bearing mutations kept out of storage
+ * - Queries and online mutations pass through
+ * - Offline mutations are queued and flushed on reconnect
+ * - Restored mutations are replayed
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  ApolloClient,
+  ApolloLink,
+  InMemoryCache,
+  Observable,
+  gql,
+  type FetchResult,
+} from "@apollo/client";
+import { lastValueFrom } from "rxjs";
+import {
+  OFFLINE_QUEUE_KEY,
+  createOfflineLink,
+  createOfflineMutationQueue,
+  type QueuedMutation,
+} from "@/lib/apollo/offline-queue";
+
+const SAVE_MUTATION = gql`
+  mutation SaveProgress($sessionId: ID!) {
+    saveProgress(sessionId: $sessionId)
+  }
+`;
+
+const TEST_QUERY = gql`
+  query TestQuery {
+    ping
+  }
+`;
+
+const client = new ApolloClient({ cache: new InMemoryCache(), link: ApolloLink.empty() });
+
+/**
+ * Terminating link that records operation names and succeeds (or fails)
+ */
+function createMockLink(fail: () => Error | null = () => null) {
+  const sent: string[] = [];
+  const link = new ApolloLink((operation) => {
+    sent.push(operation.operationName ?? "");
+    return new Observable<FetchResult>((observer) => {
+      const error = fail();
+      if (error) {
+        observer.error(error);
+        return;
+      }
+      observer.next({ data: { result: operation.operationName } });
+      observer.complete();
+    });
+  });
+  return { link, sent };
+}
+
+/**
+ * Controllable connectivity for the offline link
+ */
+function createConnectivity(initiallyOnline: boolean) {
+  let online = initiallyOnline;
+  let listener: (() => void) | null = null;
+  return {
+    isOnline: () => online,
+    onReconnect: (callback: () => void) => {
+      listener = callback;
+      return () => {
+        listener = null;
+      };
+    },
+    reconnect: () => {
+      online = true;
+      listener?.();
+    },
+  };
+}
+
+function queuedEntry(overrides: Partial<QueuedMutation> = {}): QueuedMutation {
+  return {
+    id: "entry-1",
+    operationName: "SelectTherapist",
+    query: "mutation SelectTherapist { selectTherapist }",
+    variables: {},
+    queuedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe("createOfflineMutationQueue", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("persists entries in order", () => {
+    const queue = createOfflineMutationQueue();
+    queue.enqueue(queuedEntry({ id: "a" }));
+    queue.enqueue(queuedEntry({ id: "b" }));
+
+    expect(createOfflineMutationQueue().list().map((entry) => entry.id)).toEqual(["a", "b"]);
+    expect(localStorage.getItem(OFFLINE_QUEUE_KEY)).not.toBeNull();
+  });
+
+  it("removes entries and clears storage when empty", () => {
+    const queue = createOfflineMutationQueue();
+    queue.enqueue(queuedEntry({ id: "a" }));
+    queue.remove("a");
+
+    expect(queue.list()).toEqual([]);
+    expect(localStorage.getItem(OFFLINE_QUEUE_KEY)).toBeNull();
+  });
+
+  it("drops entries older than 24 hours", () => {
+    const queue = createOfflineMutationQueue();
+    queue.enqueue(queuedEntry({ id: "old", queuedAt: Date.now() - 25 * 60 * 60 * 1000 }));
+    queue.enqueue(queuedEntry({ id: "new" }));
+
+    expect(queue.list().map((entry) => entry.id)).toEqual(["new"]);
+  });
+
+  it("keeps PHI-bearing mutations in memory only", () => {
+    const queue = createOfflineMutationQueue();
+    queue.enqueue(queuedEntry({ id: "a", queuedAt: 1_000 + Date.now() }));
+    queue.enqueue(
+      queuedEntry({
+        id: "phi",
+        operationName: "SubmitChildInfo",
+        query: "mutation SubmitChildInfo { submitChildInfo }",
+        variables: { firstName: "Alex", dateOfBirth: "2012-05-15" },
+      })
+    );
+
+    expect(queue.list().map((entry) => entry.id)).toEqual(["phi", "a"]);
+    expect(localStorage.getItem(OFFLINE_QUEUE_KEY)).not.toMatch(/Alex|2012-05-15|SubmitChildInfo/);
+    expect(createOfflineMutationQueue().list().map((entry) => entry.id)).toEqual(["a"]);
+  });
+
+  it("moves PHI-bearing mutations stored by older versions out of storage", () => {
+    localStorage.setItem(
+      OFFLINE_QUEUE_KEY,
+      JSON.stringify([queuedEntry({ id: "old", operationName: "SubmitParentInfo" })])
+    );
+    const queue = createOfflineMutationQueue();
+
+    expect(queue.list().map((entry) => entry.id)).toEqual(["old"]);
+    expect(localStorage.getItem(OFFLINE_QUEUE_KEY)).toBeNull();
+  });
+
+  it("falls back to memory without storage", () => {
+    const queue = createOfflineMutationQueue(null);
+    queue.enqueue(queuedEntry());
+
+    expect(queue.list()).toHaveLength(1);
+    expect(localStorage.getItem(OFFLINE_QUEUE_KEY)).toBeNull();
+  });
+});
+
+describe("createOfflineLink", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("passes mutations through while online", async () => {
+    const { link, sent } = createMockLink();
+    const connectivity = createConnectivity(true);
+    const offlineLink = createOfflineLink(connectivity);
+
+    const result = await lastValueFrom(
+      ApolloLink.execute(
+        offlineLink.concat(link),
+        { query: SAVE_MUTATION, variables: { sessionId: "s1" } },
+        { client }
+      )
+    );
+
+    expect(result.data).toEqual({ result: "SaveProgress" });
+    expect(sent).toEqual(["SaveProgress"]);
+  });
+
+  it("passes queries through while offline", async () => {
+    const { link, sent } = createMockLink();
+    const offlineLink = createOfflineLink(createConnectivity(false));
+
+    await lastValueFrom(ApolloLink.execute(offlineLink.concat(link), { query: TEST_QUERY }, { client }));
+
+    expect(sent).toEqual(["TestQuery"]);
+  });
+
+  it("queues offline mutations and resolves them after reconnect", async () => {
+    const { link, sent } = createMockLink();
+    const queue = createOfflineMutationQueue();
+    const connectivity = createConnectivity(false);
+    const offlineLink = createOfflineLink({ ...connectivity, queue });
+
+    const pending = lastValueFrom(
+      ApolloLink.execute(
+        offlineLink.concat(link),
+        { query: SAVE_MUTATION, variables: { sessionId: "s1" } },
+        { client }
+      )
+    );
+
+    expect(sent).toEqual([]);
+    expect(queue.list()).toHaveLength(1);
+    expect(queue.list()[0]).toMatchObject({
+      operationName: "SaveProgress",
+      variables: { sessionId: "s1" },
+    });
+
+    connectivity.reconnect();
+
+    await expect(pending).resolves.toEqual({ data: { result: "SaveProgress" } });
+    expect(sent).toEqual(["SaveProgress"]);
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("keeps mutations queued when the network fails during flush", async () => {
+    let failing = true;
+    const { link } = createMockLink(() => (failing ? new TypeError("Failed to fetch") : null));
+    const queue = createOfflineMutationQueue();
+    const connectivity = createConnectivity(false);
+    const offlineLink = createOfflineLink({ ...connectivity, queue });
+
+    const pending = lastValueFrom(
+      ApolloLink.execute(
+        offlineLink.concat(link),
+        { query: SAVE_MUTATION, variables: { sessionId: "s1" } },
+        { client }
+      )
+    );
+
+    connectivity.reconnect();
+    await offlineLink.flush();
+    expect(queue.list()).toHaveLength(1);
+
+    failing = false;
+    await offlineLink.flush();
+
+    await expect(pending).resolves.toEqual({ data: { result: "SaveProgress" } });
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("does not queue mutations with file variables", async () => {
+    const { link, sent } = createMockLink();
+    const queue = createOfflineMutationQueue();
+    const offlineLink = createOfflineLink({ ...createConnectivity(false), queue });
+
+    await lastValueFrom(
+      ApolloLink.execute(
+        offlineLink.concat(link),
+        { query: SAVE_MUTATION, variables: { sessionId: "s1", file: new Blob(["x"]) } },
+        { client }
+      )
+    );
+
+    expect(sent).toEqual(["SaveProgress"]);
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("replays mutations restored from a previous page load", async () => {
+    const queue = createOfflineMutationQueue();
+    queue.enqueue(queuedEntry({ id: "restored" }));
+    const replay = vi.fn(async () => undefined);
+    const offlineLink = createOfflineLink({ ...createConnectivity(true), queue, replay });
+
+    await offlineLink.flush();
+
+    expect(replay).toHaveBeenCalledWith(expect.objectContaining({ id: "restored" }));
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("keeps restored mutations when there is no replay function", async () => {
+    const queue = createOfflineMutationQueue();
+    queue.enqueue(queuedEntry({ id: "restored" }));
+    const offlineLink = createOfflineLink({ ...createConnectivity(true), queue });
+
+    await offlineLink.flush();
+
+    expect(queue.list()).toHaveLength(1);
+  });
+
+  it("stops listening for reconnects after dispose", async () => {
+    const queue = createOfflineMutationQueue();
+    queue.enqueue(queuedEntry({ id: "restored" }));
+    const replay = vi.fn(async () => undefined);
+    const connectivity = createConnectivity(false);
+    const offlineLink = createOfflineLink({ ...connectivity, queue, replay });
+
+    offlineLink.dispose();
+    connectivity.reconnect();
+    await Promise.resolve();
+
+    expect(replay).not.toHaveBeenCalled();
+    expect(queue.list()).toHaveLength(1);
+  });
+});
@@ -4,10 +4,25 @@
  * Tests:
  * - Provider renders children
  * - makeClient function works
+ * - The rendered client uses the full link chain (errors, retries, offline queue)
  */
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { render, screen } from "@testing-library/react";
+import { gql, type ApolloClient } from "@apollo/client";
+import { useApolloClient } from "@apollo/client/react";
 import { makeClient } from "@/lib/apollo";
+import { OFFLINE_QUEUE_KEY } from "@/lib/apollo/offline-queue";
+
+// Spy on the link factories while keeping their real behaviour
+vi.mock("@/lib/apollo/links", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/apollo/links")>();
+  return {
+    ...actual,
+    createErrorLink: vi.fn(actual.createErrorLink),
+    createTokenRefreshLink: vi.fn(actual.createTokenRefreshLink),
+    createRetryLink: vi.fn(actual.createRetryLink),
+  };
+});
 
 // Mock the Next.js Apollo integration
 vi.mock("@apollo/client-integration-nextjs", () => ({
@@ -18,6 +33,35 @@ vi.mock("@apollo/client-integration-nextjs", () => ({
 
 // Import after mock
 import { ApolloWrapper } from "@/lib/apollo";
+import { createErrorLink, createRetryLink, createTokenRefreshLink } from "@/lib/apollo/links";
+
+/**
+ * Hands the client from context to the test
+ */
+function CaptureClient({ onClient }: { onClient: (client: ApolloClient) => void }) {
+  onClient(useApolloClient());
+  return null;
+}
+
+/**
+ * Renders the wrapper and returns the client it provides
+ */
+function renderWrapperClient(): ApolloClient {
+  let client: ApolloClient | null = null;
+
+  render(
+    <ApolloWrapper>
+      <CaptureClient
+        onClient={(provided) => {
+          client = provided;
+        }}
+      />
+    </ApolloWrapper>
+  );
+
+  if (!client) throw new Error("ApolloWrapper did not provide a client");
+  return client;
+}
 
 describe("ApolloWrapper", () => {
   it("renders children", () => {
@@ -54,6 +98,46 @@ describe("ApolloWrapper", () => {
   });
 });
 
+describe("ApolloWrapper client", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it("builds the error, token refresh and retry links", () => {
+    vi.mocked(createErrorLink).mockClear();
+    vi.mocked(createTokenRefreshLink).mockClear();
+    vi.mocked(createRetryLink).mockClear();
+
+    renderWrapperClient();
+
+    expect(createErrorLink).toHaveBeenCalledTimes(1);
+    expect(createTokenRefreshLink).toHaveBeenCalledTimes(1);
+    expect(createRetryLink).toHaveBeenCalledTimes(1);
+  });
+
+  it("queues mutations made while offline", async () => {
+    const client = renderWrapperClient();
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    vi.spyOn(console, "info").mockImplementation(() => {});
+
+    void client.mutate({
+      mutation: gql`
+        mutation SelectTherapist($sessionId: ID!, $therapistId: ID!) {
+          selectTherapist(sessionId: $sessionId, therapistId: $therapistId) {
+            success
+          }
+        }
+      `,
+      variables: { sessionId: "sess_123", therapistId: "ther_1" },
+    });
+
+    await vi.waitFor(() => {
+      expect(localStorage.getItem(OFFLINE_QUEUE_KEY)).toContain("SelectTherapist");
+    });
+  });
+});
+
 describe("makeClient", () => {
   it("creates an Apollo Client instance", () => {
     const client = makeClient();
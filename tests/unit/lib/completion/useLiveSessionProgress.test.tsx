@@ -0,0 +1,241 @@
+/**
+ * Unit tests for useLiveSessionProgress hook.
+ *
+ * Tests:
+ * - Polling fallback while the socket is down
+ * - Polling stops once the socket connects
+ * - Subscription updates are written into the cached progress snapshot
+ * - Received messages are appended to the cached session once
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { InMemoryCache } from "@apollo/client";
+import {
+  GetSessionProgressDocument,
+  type GetSessionProgressQuery,
+} from "@/types/graphql";
+
+type ConnectionState = "connecting" | "connected" | "disconnected" | "error";
+
+let mockConnectionState: ConnectionState = "disconnected";
+const mockListeners = new Set<(state: ConnectionState) => void>();
+
+vi.mock("@/lib/apollo/links", () => ({
+  getConnectionState: () => mockConnectionState,
+  onConnectionStateChange: (callback: (state: ConnectionState) => void) => {
+    mockListeners.add(callback);
+    callback(mockConnectionState);
+    return () => {
+      mockListeners.delete(callback);
+    };
+  },
+}));
+
+interface SubscriptionOptions {
+  onData: (options: {
+    client: { cache: InMemoryCache };
+    data: { data: Record<string, unknown> };
+  }) => void;
+}
+
+const mockQueryOptions = vi.fn();
+const subscriptions: Record<string, SubscriptionOptions> = {};
+let mockQueryData: GetSessionProgressQuery | undefined;
+
+vi.mock("@/types/graphql", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/types/graphql")>();
+  return {
+    ...actual,
+    useGetSessionProgressQuery: (options: unknown) => {
+      mockQueryOptions(options);
+      return { data: mockQueryData, loading: false };
+    },
+    useProgressUpdatedSubscription: (options: SubscriptionOptions) => {
+      subscriptions.progress = options;
+    },
+    useAssessmentUpdatedSubscription: (options: SubscriptionOptions) => {
+      subscriptions.assessment = options;
+    },
+    useMessageReceivedSubscription: (options: SubscriptionOptions) => {
+      subscriptions.message = options;
+    },
+  };
+});
+
+import {
+  useLiveSessionProgress,
+  LIVE_PROGRESS_POLL_INTERVAL_MS,
+} from "@/lib/completion/useLiveSessionProgress";
+
+const snapshot: GetSessionProgressQuery = {
+  __typename: "Query",
+  session: {
+    __typename: "OnboardingSession",
+    id: "sess_1",
+    progress: {
+      __typename: "Progress",
+      percentage: 10,
+      currentPhase: "assessment",
+      completedPhases: [],
+      nextPhase: "parent_info",
+      estimatedMinutesRemaining: 20,
+    },
+    assessment: {
+      __typename: "Assessment",
+      id: "asmt_1",
+      status: "in_progress",
+      progressPercentage: 25,
+      completedQuestionsCount: 4,
+      totalQuestionsCount: 16,
+      currentInstrument: "phq_a",
+      nextQuestionId: "phq_a_5",
+      phqAComplete: false,
+      gad7Complete: false,
+      riskFlags: ["phq_a_item_9"],
+    },
+  },
+};
+
+function readSnapshot(cache: InMemoryCache) {
+  return cache.readQuery<GetSessionProgressQuery>({
+    query: GetSessionProgressDocument,
+    variables: { sessionId: "sess_1" },
+  });
+}
+
+describe("useLiveSessionProgress", () => {
+  beforeEach(() => {
+    mockConnectionState = "disconnected";
+    mockListeners.clear();
+    mockQueryOptions.mockClear();
+    mockQueryData = snapshot;
+  });
+
+  it("polls while the socket is down", () => {
+    const { result } = renderHook(() => useLiveSessionProgress("sess_1"));
+
+    expect(result.current.isPolling).toBe(true);
+    expect(result.current.isLive).toBe(false);
+    expect(mockQueryOptions).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pollInterval: LIVE_PROGRESS_POLL_INTERVAL_MS })
+    );
+  });
+
+  it("stops polling once the socket connects", () => {
+    const { result } = renderHook(() => useLiveSessionProgress("sess_1"));
+
+    act(() => {
+      mockListeners.forEach((listener) => listener("connected"));
+    });
+
+    expect(result.current.isLive).toBe(true);
+    expect(result.current.isPolling).toBe(false);
+    expect(mockQueryOptions).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pollInterval: 0 })
+    );
+  });
+
+  it("returns progress and assessment from the snapshot", () => {
+    const { result } = renderHook(() => useLiveSessionProgress("sess_1"));
+
+    expect(result.current.progress?.percentage).toBe(10);
+    expect(result.current.assessment?.progressPercentage).toBe(25);
+  });
+
+  it("writes progressUpdated and assessmentUpdated into the cache", () => {
+    const cache = new InMemoryCache();
+    cache.writeQuery({
+      query: GetSessionProgressDocument,
+      variables: { sessionId: "sess_1" },
+      data: snapshot,
+    });
+    renderHook(() => useLiveSessionProgress("sess_1"));
+
+    subscriptions.progress.onData({
+      client: { cache },
+      data: {
+        data: {
+          progressUpdated: {
+            percentage: 40,
+            currentPhase: "insurance",
+            completedPhases: ["assessment"],
+            nextPhase: "matching",
+            estimatedMinutesRemaining: 8,
+          },
+        },
+      },
+    });
+    subscriptions.assessment.onData({
+      client: { cache },
+      data: {
+        data: {
+          assessmentUpdated: {
+            ...snapshot.session.assessment,
+            riskFlags: undefined,
+            status: "complete",
+            progressPercentage: 100,
+          },
+        },
+      },
+    });
+
+    const updated = readSnapshot(cache);
+    expect(updated?.session.progress.percentage).toBe(40);
+    expect(updated?.session.progress.completedPhases).toEqual(["assessment"]);
+    expect(updated?.session.assessment?.status).toBe("complete");
+    expect(updated?.session.assessment?.progressPercentage).toBe(100);
+    expect(updated?.session.assessment?.riskFlags).toEqual(["phq_a_item_9"]);
+  });
+
+  it("ignores subscription updates before the snapshot has loaded", () => {
+    const cache = new InMemoryCache();
+    renderHook(() => useLiveSessionProgress("sess_1"));
+
+    subscriptions.progress.onData({
+      client: { cache },
+      data: { data: { progressUpdated: snapshot.session.progress } },
+    });
+
+    expect(readSnapshot(cache)).toBeNull();
+  });
+
+  it("appends received messages to the cached session once", () => {
+    const cache = new InMemoryCache({
+      typePolicies: { OnboardingSession: { keyFields: ["id"] } },
+    });
+    const sessionCacheId = cache.identify({
+      __typename: "OnboardingSession",
+      id: "sess_1",
+    }) as string;
+    cache.restore({
+      [sessionCacheId]: {
+        __typename: "OnboardingSession",
+        id: "sess_1",
+        messages: [],
+      },
+    });
+    const { result } = renderHook(() => useLiveSessionProgress("sess_1"));
+
+    const message = {
+      id: "msg_1",
+      role: "assistant",
+      content: "Thanks for sharing.",
+      createdAt: "2026-01-05T10:00:00Z",
+    };
+
+    act(() => {
+      subscriptions.message.onData({
+        client: { cache },
+        data: { data: { messageReceived: message } },
+      });
+      subscriptions.message.onData({
+        client: { cache },
+        data: { data: { messageReceived: message } },
+      });
+    });
+
+    expect(result.current.lastMessage?.id).toBe("msg_1");
+    const messages = cache.extract()[sessionCacheId]?.messages;
+    expect(messages).toEqual([{ __ref: "Message:msg_1" }]);
+  });
+});
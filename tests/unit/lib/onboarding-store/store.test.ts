@@ -0,0 +1,241 @@
+/**
+ * Unit tests for the onboarding store.
+ *
+ * Tests:
+ * - Slice validation against the form schemas
+ * - Migrating unversioned data
+ * - Atomic merges and cached snapshots
+ * - Subscriptions, including changes from other tabs
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  ONBOARDING_DATA_UPDATED_EVENT,
+  ONBOARDING_STORE_VERSION,
+  createOnboardingStore,
+  migrateOnboardingBlob,
+  validateOnboardingData,
+  type OnboardingSessionStorage,
+} from "@/lib/onboarding-store";
+
+const SESSION_ID = "sess_abc";
+
+function createStorage() {
+  const items = new Map<string, string>();
+  const listeners = new Set<(sessionId: string) => void>();
+  const notify = (sessionId: string) => listeners.forEach((listener) => listener(sessionId));
+
+  const storage: OnboardingSessionStorage = {
+    read: (sessionId) => items.get(sessionId) ?? null,
+    write: (sessionId, value) => {
+      items.set(sessionId, value);
+      notify(sessionId);
+    },
+    flush: async () => {},
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+
+  return { storage, items, notify };
+}
+
+describe("validateOnboardingData", () => {
+  it("keeps drafts that don't pass the form rules yet", () => {
+    const data = validateOnboardingData({
+      parent: { firstName: "J", phone: "+15555550100", relationshipToChild: "guardian" },
+    });
+
+    expect(data.parent).toEqual({
+      firstName: "J",
+      phone: "+15555550100",
+      relationshipToChild: "guardian",
+    });
+  });
+
+  it("drops fields with the wrong type and keeps the rest of the slice", () => {
+    const data = validateOnboardingData({
+      child: { firstName: "Sam", pronouns: "unknown", grade: 9 },
+      formAssessment: { concernSeverity: "high", primaryConcerns: "Trouble sleeping" },
+    });
+
+    expect(data.child).toMatchObject({ firstName: "Sam" });
+    expect(data.child?.pronouns).toBeUndefined();
+    expect(data.child?.grade).toBeUndefined();
+    expect(data.formAssessment?.concernSeverity).toBeUndefined();
+    expect(data.formAssessment?.primaryConcerns).toBe("Trouble sleeping");
+  });
+
+  it("defaults the parent's relationship to the child", () => {
+    expect(validateOnboardingData({ parent: { firstName: "Jane" } }).parent).toMatchObject({
+      relationshipToChild: "parent",
+    });
+    expect(validateOnboardingData({ parent: { relationshipToChild: "" } }).parent).toMatchObject({
+      relationshipToChild: "parent",
+    });
+  });
+
+  it("stores dates as ISO strings", () => {
+    const data = validateOnboardingData({
+      child: { dateOfBirth: new Date("2012-05-15T00:00:00.000Z") },
+    });
+
+    expect(data.child?.dateOfBirth).toBe("2012-05-15T00:00:00.000Z");
+  });
+
+  it("keeps keys that aren't slices and extra slice fields", () => {
+    const data = validateOnboardingData({
+      messages: [{ id: "1" }],
+      insurance: { isSelfPay: true, verificationStatus: "self_pay" },
+    });
+
+    expect(data.messages).toEqual([{ id: "1" }]);
+    expect(data.insurance).toEqual({ isSelfPay: true, verificationStatus: "self_pay" });
+  });
+
+  it("drops slices that aren't objects", () => {
+    expect(validateOnboardingData({ parent: "Jane" }).parent).toBeUndefined();
+    expect(validateOnboardingData(null)).toEqual({});
+  });
+});
+
+describe("migrateOnboardingBlob", () => {
+  it("wraps unversioned data saved without a data key", () => {
+    expect(
+      migrateOnboardingBlob({ parent: { firstName: "Jane" }, savedAt: "2025-03-01T00:00:00Z" })
+    ).toEqual({
+      version: ONBOARDING_STORE_VERSION,
+      data: { parent: { firstName: "Jane" } },
+      savedAt: "2025-03-01T00:00:00Z",
+    });
+  });
+
+  it("leaves current data alone", () => {
+    const blob = { version: ONBOARDING_STORE_VERSION, data: { child: {} }, savedAt: "x" };
+    expect(migrateOnboardingBlob(blob)).toEqual(blob);
+  });
+
+  it("keeps the version of data from a newer app", () => {
+    expect(migrateOnboardingBlob({ version: 99, data: {} }).version).toBe(99);
+  });
+});
+
+describe("createOnboardingStore", () => {
+  let storage: ReturnType<typeof createStorage>;
+  let target: EventTarget;
+
+  const createStore = () =>
+    createOnboardingStore({
+      storage: storage.storage,
+      target,
+      now: () => new Date("2025-03-01T12:00:00.000Z"),
+    });
+
+  beforeEach(() => {
+    storage = createStorage();
+    target = new EventTarget();
+  });
+
+  it("returns the same snapshot until the data changes", () => {
+    storage.items.set(SESSION_ID, JSON.stringify({ data: { parent: { firstName: "Jane" } } }));
+    const store = createStore();
+
+    const first = store.getState(SESSION_ID);
+    expect(store.getState(SESSION_ID)).toBe(first);
+    expect(first.data.parent?.firstName).toBe("Jane");
+
+    store.merge(SESSION_ID, { child: { firstName: "Sam" } });
+    expect(store.getState(SESSION_ID)).not.toBe(first);
+  });
+
+  it("returns empty state for missing or unreadable data", () => {
+    const store = createStore();
+    expect(store.getState(SESSION_ID)).toEqual({
+      version: ONBOARDING_STORE_VERSION,
+      data: {},
+      savedAt: null,
+    });
+
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    storage.items.set(SESSION_ID, "{not json");
+    expect(store.getState(SESSION_ID).data).toEqual({});
+  });
+
+  it("merges slices field by field and replaces other keys", () => {
+    const store = createStore();
+    store.merge(SESSION_ID, {
+      parent: { firstName: "Jane", email: "jane@example.com" },
+      messages: [{ id: "1" }],
+    });
+    store.merge(SESSION_ID, { parent: { firstName: "Janet" }, messages: [{ id: "2" }] });
+
+    const { data } = store.getState(SESSION_ID);
+    expect(data.parent).toMatchObject({ firstName: "Janet", email: "jane@example.com" });
+    expect(data.messages).toEqual([{ id: "2" }]);
+  });
+
+  it("doesn't lose sections saved in the same tick", () => {
+    const store = createStore();
+    store.merge(SESSION_ID, { parent: { firstName: "Jane" } });
+    store.merge(SESSION_ID, { insurance: { carrier: "aetna" } });
+
+    const saved = JSON.parse(storage.items.get(SESSION_ID) ?? "{}");
+    expect(saved).toMatchObject({
+      version: ONBOARDING_STORE_VERSION,
+      savedAt: "2025-03-01T12:00:00.000Z",
+      data: { parent: { firstName: "Jane" }, insurance: { carrier: "aetna" } },
+    });
+  });
+
+  it("migrates data saved before versioning on write", () => {
+    storage.items.set(SESSION_ID, JSON.stringify({ child: { firstName: "Sam" } }));
+    const store = createStore();
+
+    store.update(SESSION_ID, (data) => ({ ...data, selectedTherapistId: "t-1" }));
+
+    expect(JSON.parse(storage.items.get(SESSION_ID) ?? "{}")).toMatchObject({
+      version: ONBOARDING_STORE_VERSION,
+      data: { child: { firstName: "Sam" }, selectedTherapistId: "t-1" },
+    });
+  });
+
+  it("notifies subscribers of the session only", () => {
+    const store = createStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(SESSION_ID, listener);
+
+    store.merge("sess_other", { child: { firstName: "Ana" } });
+    expect(listener).not.toHaveBeenCalled();
+
+    store.merge(SESSION_ID, { child: { firstName: "Sam" } });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    store.merge(SESSION_ID, { child: { firstName: "Sammy" } });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("picks up changes from other tabs", () => {
+    const store = createStore();
+    const listener = vi.fn();
+    store.subscribe(SESSION_ID, listener);
+    store.getState(SESSION_ID);
+
+    // The session storage reports another tab's write
+    storage.items.set(SESSION_ID, JSON.stringify({ version: 1, data: { child: { firstName: "Sam" } } }));
+    storage.notify(SESSION_ID);
+
+    expect(listener).toHaveBeenCalled();
+    expect(store.getState(SESSION_ID).data.child?.firstName).toBe("Sam");
+  });
+
+  it("notifies subscribers when storage is updated directly", () => {
+    const store = createStore();
+    const listener = vi.fn();
+    store.subscribe(SESSION_ID, listener);
+
+    target.dispatchEvent(new CustomEvent(ONBOARDING_DATA_UPDATED_EVENT));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
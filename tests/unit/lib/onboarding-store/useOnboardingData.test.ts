@@ -0,0 +1,71 @@
+/**
+ * Unit tests for useOnboardingData.
+ *
+ * Tests:
+ * - Reading a selection of the saved data
+ * - Re-rendering only when the selection changes
+ * - Custom equality
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import {
+  saveOnboardingData,
+  shallowEqual,
+  useOnboardingData,
+  type OnboardingState,
+} from "@/lib/onboarding-store";
+
+const SESSION_ID = "sess_hook";
+
+const selectParent = (state: OnboardingState) => state.data.parent;
+const selectNames = (state: OnboardingState) => ({
+  parent: state.data.parent?.firstName,
+  child: state.data.child?.firstName,
+});
+
+describe("useOnboardingData", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("returns the selected data and updates on save", () => {
+    const { result } = renderHook(() => useOnboardingData(SESSION_ID, selectParent));
+    expect(result.current).toBeUndefined();
+
+    act(() => {
+      saveOnboardingData(SESSION_ID, { parent: { firstName: "Jane" } });
+    });
+
+    expect(result.current).toMatchObject({ firstName: "Jane", relationshipToChild: "parent" });
+  });
+
+  it("doesn't re-render when the selection is unchanged", () => {
+    let renders = 0;
+    renderHook(() => {
+      renders++;
+      return useOnboardingData(SESSION_ID, (state) => state.data.child?.firstName);
+    });
+    const initialRenders = renders;
+
+    act(() => {
+      saveOnboardingData(SESSION_ID, { messages: [{ id: "1" }] });
+    });
+    expect(renders).toBe(initialRenders);
+
+    act(() => {
+      saveOnboardingData(SESSION_ID, { child: { firstName: "Sam" } });
+    });
+    expect(renders).toBe(initialRenders + 1);
+  });
+
+  it("uses the equality function to keep the previous selection", () => {
+    const { result } = renderHook(() => useOnboardingData(SESSION_ID, selectNames, shallowEqual));
+    const first = result.current;
+
+    act(() => {
+      saveOnboardingData(SESSION_ID, { insurance: { carrier: "aetna" } });
+    });
+
+    expect(result.current).toBe(first);
+  });
+});
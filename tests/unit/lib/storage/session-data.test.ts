@@ -0,0 +1,314 @@
+/**
+ * Unit tests for encrypted onboarding session storage.
+ *
+ * Tests:
+ * - Data is encrypted at rest and readable after a reload
+ * - Legacy plaintext blobs are migrated
+ * - Expiry after inactivity and unreadable data
+ * - Wiping data and keys
+ * - Per-session records under their own prefix and key
+ * - Legacy plaintext form answers migrated on load and removed on wipe
+ * - Storage failures and changes from other tabs
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const { defaultKeyStore } = vi.hoisted(() => {
+  const keys = new Map<string, CryptoKey>();
+  return {
+    defaultKeyStore: {
+      get: async (id: string) => keys.get(id) ?? null,
+      set: async (id: string, key: CryptoKey) => {
+        keys.set(id, key);
+      },
+      delete: async (id: string) => {
+        keys.delete(id);
+      },
+    },
+  };
+});
+
+// Stands in for IndexedDB (used by the app's shared stores), which jsdom doesn't provide
+vi.mock("@/lib/storage/key-store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/storage/key-store")>()),
+  createDefaultKeyStore: () => defaultKeyStore,
+}));
+
+import {
+  SESSION_DATA_INACTIVITY_MS,
+  createMemoryKeyStore,
+  createSecureSessionStore,
+  flushSessionData,
+  loadSessionData,
+  readSessionData,
+  wipeSessionData,
+  type SessionDataStorage,
+  type SessionKeyStore,
+} from "@/lib/storage";
+
+const SESSION_ID = "sess_abc";
+const STORAGE_KEY = "onboarding_session_sess_abc";
+const DATA = JSON.stringify({
+  data: { child: { firstName: "Sam", dateOfBirth: "2010-05-01" } },
+  savedAt: "2025-03-01T12:00:00.000Z",
+});
+
+function createStorage(): SessionDataStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+describe("createSecureSessionStore", () => {
+  let storage: ReturnType<typeof createStorage>;
+  let keyStore: SessionKeyStore;
+  let clock: number;
+  let target: EventTarget;
+
+  const createStore = () =>
+    createSecureSessionStore({ storage, keyStore, now: () => clock, target });
+
+  beforeEach(() => {
+    storage = createStorage();
+    keyStore = createMemoryKeyStore();
+    clock = Date.parse("2025-03-01T12:00:00.000Z");
+    target = new EventTarget();
+  });
+
+  it("stores data encrypted and reads it back after a reload", async () => {
+    const store = createStore();
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+    await store.flush(SESSION_ID);
+
+    const raw = storage.getItem(STORAGE_KEY) ?? "";
+    expect(raw).not.toContain("Sam");
+    expect(JSON.parse(raw)).toMatchObject({ v: 1, iv: expect.any(String), ciphertext: expect.any(String) });
+
+    const reloaded = createStore();
+    expect(reloaded.isLoaded(SESSION_ID)).toBe(false);
+    await reloaded.load(SESSION_ID);
+    expect(reloaded.read(SESSION_ID)).toBe(DATA);
+  });
+
+  it("migrates plaintext data on first load", async () => {
+    storage.setItem(STORAGE_KEY, DATA);
+
+    const store = createStore();
+    await store.load(SESSION_ID);
+    await store.flush(SESSION_ID);
+
+    expect(store.read(SESSION_ID)).toBe(DATA);
+    expect(storage.getItem(STORAGE_KEY)).not.toContain("Sam");
+  });
+
+  it("adopts plaintext written by older code without a load", async () => {
+    const store = createStore();
+    await store.load(SESSION_ID);
+    storage.setItem(STORAGE_KEY, DATA);
+
+    expect(store.read(SESSION_ID)).toBe(DATA);
+    await store.flush(SESSION_ID);
+    expect(storage.getItem(STORAGE_KEY)).not.toContain("Sam");
+  });
+
+  it("wipes data after a period of inactivity", async () => {
+    const store = createStore();
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+    await store.flush(SESSION_ID);
+
+    clock += SESSION_DATA_INACTIVITY_MS + 1;
+    const reloaded = createStore();
+    await reloaded.load(SESSION_ID);
+
+    expect(reloaded.read(SESSION_ID)).toBeNull();
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+    expect(await keyStore.get(SESSION_ID)).toBeNull();
+  });
+
+  it("keeps data for sessions that are still active", async () => {
+    const store = createStore();
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+    await store.flush(SESSION_ID);
+
+    clock += SESSION_DATA_INACTIVITY_MS / 2;
+    await createStore().load(SESSION_ID);
+    clock += SESSION_DATA_INACTIVITY_MS / 2 + 1;
+
+    const reloaded = createStore();
+    await reloaded.load(SESSION_ID);
+    expect(reloaded.read(SESSION_ID)).toBe(DATA);
+  });
+
+  it("discards expired plaintext instead of migrating it", async () => {
+    storage.setItem(STORAGE_KEY, DATA);
+    clock += SESSION_DATA_INACTIVITY_MS + 1;
+
+    const store = createStore();
+    await store.load(SESSION_ID);
+
+    expect(store.read(SESSION_ID)).toBeNull();
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it("clears data it can no longer decrypt", async () => {
+    const store = createStore();
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+    await store.flush(SESSION_ID);
+
+    keyStore = createMemoryKeyStore();
+    const reloaded = createStore();
+    await reloaded.load(SESSION_ID);
+
+    expect(reloaded.read(SESSION_ID)).toBeNull();
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it("won't decrypt a blob copied to another session", async () => {
+    const store = createStore();
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+    await store.flush(SESSION_ID);
+
+    storage.setItem("onboarding_session_sess_other", storage.getItem(STORAGE_KEY) ?? "");
+    await keyStore.set("sess_other", (await keyStore.get(SESSION_ID)) as CryptoKey);
+    const reloaded = createStore();
+    await reloaded.load("sess_other");
+
+    expect(reloaded.read("sess_other")).toBeNull();
+  });
+
+  it("wipes data and the session key and notifies subscribers", async () => {
+    const store = createStore();
+    const listener = vi.fn();
+    store.subscribe(listener);
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+
+    await store.wipe(SESSION_ID);
+
+    expect(store.read(SESSION_ID)).toBeNull();
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+    expect(await keyStore.get(SESSION_ID)).toBeNull();
+    expect(listener).toHaveBeenLastCalledWith(SESSION_ID);
+  });
+
+  it("keeps records under their own prefix and key", async () => {
+    const records = createSecureSessionStore({
+      storage,
+      keyStore,
+      keyPrefix: "assistant_partial_",
+      now: () => clock,
+      target: null,
+    });
+    const store = createStore();
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+    records.write(SESSION_ID, JSON.stringify({ content: "Sam has been anxious" }));
+    await Promise.all([store.flush(SESSION_ID), records.flush(SESSION_ID)]);
+
+    expect(storage.getItem("assistant_partial_sess_abc")).not.toContain("Sam");
+    expect(await keyStore.get("assistant_partial_sess_abc")).not.toBeNull();
+
+    await records.wipe(SESSION_ID);
+
+    expect(storage.getItem("assistant_partial_sess_abc")).toBeNull();
+    expect(await keyStore.get("assistant_partial_sess_abc")).toBeNull();
+    expect(await keyStore.get(SESSION_ID)).not.toBeNull();
+    expect(store.read(SESSION_ID)).toBe(DATA);
+  });
+
+  it("reports storage failures from flush", async () => {
+    const quotaError = new DOMException("Quota exceeded", "QuotaExceededError");
+    storage.setItem = () => {
+      throw quotaError;
+    };
+    const store = createStore();
+    await store.load(SESSION_ID);
+    store.write(SESSION_ID, DATA);
+
+    await expect(store.flush(SESSION_ID)).rejects.toBe(quotaError);
+    expect(store.read(SESSION_ID)).toBe(DATA);
+  });
+
+  it("picks up changes from other tabs", async () => {
+    const store = createStore();
+    const listener = vi.fn();
+    store.subscribe(listener);
+    await store.load(SESSION_ID);
+
+    const otherTab = createSecureSessionStore({ storage, keyStore, now: () => clock, target: null });
+    otherTab.write(SESSION_ID, DATA);
+    await otherTab.flush(SESSION_ID);
+
+    target.dispatchEvent(
+      new StorageEvent("storage", { key: STORAGE_KEY, newValue: storage.getItem(STORAGE_KEY) })
+    );
+
+    await vi.waitFor(() => expect(store.read(SESSION_ID)).toBe(DATA));
+    expect(listener).toHaveBeenCalledWith(SESSION_ID);
+  });
+});
+
+describe("legacy plaintext form answers", () => {
+  const ANSWERS = { phq9: [1, 2, 0], gad7: [0, 1] };
+
+  /**
+   * Leaves data behind as an older version of the app did
+   */
+  function saveLegacyAnswers(sessionId: string, unified: unknown) {
+    localStorage.setItem(`onboarding_session_${sessionId}`, JSON.stringify(unified));
+    localStorage.setItem(
+      `form_assessment_${sessionId}`,
+      JSON.stringify({ data: ANSWERS, currentPage: 2 })
+    );
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("moves the answers into the encrypted session data on load", async () => {
+    saveLegacyAnswers("sess_legacy_1", { data: { child: { firstName: "Sam" } } });
+
+    await loadSessionData("sess_legacy_1");
+    await flushSessionData("sess_legacy_1");
+
+    expect(localStorage.getItem("form_assessment_sess_legacy_1")).toBeNull();
+    expect(localStorage.getItem("onboarding_session_sess_legacy_1")).not.toContain("phq9");
+    expect(JSON.parse(readSessionData("sess_legacy_1") ?? "{}").data).toEqual({
+      child: { firstName: "Sam" },
+      formAssessment: ANSWERS,
+    });
+  });
+
+  it("keeps newer answers and drops the legacy copy", async () => {
+    saveLegacyAnswers("sess_legacy_2", { data: { formAssessment: { phq9: [3] } } });
+
+    await loadSessionData("sess_legacy_2");
+
+    expect(localStorage.getItem("form_assessment_sess_legacy_2")).toBeNull();
+    expect(JSON.parse(readSessionData("sess_legacy_2") ?? "{}").data.formAssessment).toEqual({
+      phq9: [3],
+    });
+  });
+
+  it("removes the answers on wipe", async () => {
+    saveLegacyAnswers("sess_legacy_3", { data: {} });
+
+    await wipeSessionData("sess_legacy_3");
+
+    expect(localStorage.getItem("form_assessment_sess_legacy_3")).toBeNull();
+    expect(localStorage.getItem("onboarding_session_sess_legacy_3")).toBeNull();
+  });
+});
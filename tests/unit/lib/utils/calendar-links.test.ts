@@ -7,6 +7,8 @@
  * - ICS file download functionality
  * - Date formatting for calendar formats
  * - Event details encoding
+ * - Recurrence (RRULE/EXDATE/RDATE) for appointment series
+ * - Stable UIDs and SEQUENCE for published updates and cancellations
  *
  * Acceptance Criteria Tested:
  * - AC-5.4.3: ICS calendar file is downloaded for selected platform
@@ -15,10 +17,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
   generateGoogleCalendarUrl,
+  generateICSContent,
   generateICSFile,
   downloadICSFile,
+  getAppointmentSequence,
+  getAppointmentUid,
+  toICalendar,
   type CalendarEventDetails,
 } from "@/lib/utils/calendar-links";
+import { parseICalendar } from "@/lib/utils/icalendar";
 
 describe("calendar-links utilities", () => {
   const mockEventDetails: CalendarEventDetails = {
@@ -85,6 +92,21 @@ describe("calendar-links utilities", () => {
     });
   });
 
+  describe("generateGoogleCalendarUrl recurrence", () => {
+    it("should pass recurrence lines in the recur parameter", () => {
+      const url = new URL(
+        generateGoogleCalendarUrl({
+          ...mockEventDetails,
+          recurrence: { rrule: "FREQ=WEEKLY;COUNT=8", exdates: ["2024-01-22T14:00:00Z"] },
+        })
+      );
+
+      expect(url.searchParams.get("recur")).toBe(
+        "RRULE:FREQ=WEEKLY;COUNT=8\nEXDATE:20240122T140000Z"
+      );
+    });
+  });
+
   describe("generateICSFile", () => {
     it("should generate valid ICS file data URI", () => {
       const icsUri = generateICSFile(mockEventDetails);
@@ -154,6 +176,106 @@ describe("calendar-links utilities", () => {
 
       expect(content).toContain("STATUS:CONFIRMED");
     });
+
+    it("should omit recurrence lines for a single appointment", async () => {
+      const icsUri = generateICSFile(mockEventDetails);
+      const response = await fetch(icsUri);
+      const content = await response.text();
+
+      expect(content).not.toContain("RRULE");
+    });
+
+    it("should include RRULE, EXDATE and RDATE for a series", async () => {
+      const icsUri = generateICSFile({
+        ...mockEventDetails,
+        recurrence: {
+          rrule: "FREQ=WEEKLY;INTERVAL=2;COUNT=6",
+          exdates: ["2024-01-29T14:00:00Z", "2024-02-12T14:00:00Z"],
+          rdates: ["2024-01-30T15:00:00Z"],
+        },
+      });
+      const response = await fetch(icsUri);
+      const content = await response.text();
+
+      expect(content).toContain("RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=6");
+      expect(content).toContain("EXDATE:20240129T140000Z,20240212T140000Z");
+      expect(content).toContain("RDATE:20240130T150000Z");
+    });
+  });
+
+  describe("appointment updates and cancellations", () => {
+    const appointmentEvent: CalendarEventDetails = {
+      ...mockEventDetails,
+      uid: getAppointmentUid("appt_123"),
+    };
+
+    it("should use the appointment UID in every version of the event", () => {
+      const original = parseICalendar(generateICSContent(appointmentEvent));
+      const moved = parseICalendar(
+        generateICSContent({
+          ...appointmentEvent,
+          startTime: "2024-01-16T14:00:00Z",
+          endTime: "2024-01-16T14:50:00Z",
+          sequence: 86400,
+        })
+      );
+
+      expect(original.events[0].uid).toBe("appointment-appt_123@daybreakhealth.com");
+      expect(moved.events[0].uid).toBe(original.events[0].uid);
+      expect(moved.events[0].sequence).toBeGreaterThan(original.events[0].sequence);
+    });
+
+    it("should derive a stable UID when none is given", () => {
+      const first = toICalendar(mockEventDetails).events[0].uid;
+      const second = toICalendar({ ...mockEventDetails }).events[0].uid;
+
+      expect(first).toBe(second);
+      expect(first).toMatch(/@daybreakhealth\.com$/);
+    });
+
+    it("should publish new events and updates without invitation methods", () => {
+      const updated = generateICSContent({ ...appointmentEvent, sequence: 2 });
+
+      expect(toICalendar(appointmentEvent).method).toBe("PUBLISH");
+      expect(parseICalendar(updated)).toMatchObject({
+        method: "PUBLISH",
+        events: [{ uid: "appointment-appt_123@daybreakhealth.com", sequence: 2 }],
+      });
+      expect(updated).not.toContain("METHOD:REQUEST");
+    });
+
+    it("should publish cancellations without reminders", () => {
+      const content = generateICSContent({ ...appointmentEvent, sequence: 5, cancelled: true });
+      const calendar = parseICalendar(content);
+
+      expect(calendar.method).toBe("PUBLISH");
+      expect(calendar.events[0]).toMatchObject({ status: "CANCELLED", sequence: 5 });
+      expect(calendar.events[0].reminderMinutes).toBeUndefined();
+      expect(content).not.toContain("METHOD:CANCEL");
+    });
+
+    it("should escape commas and semicolons in event text", () => {
+      const content = generateICSContent({
+        ...appointmentEvent,
+        title: "Appointment, Dr. Smith; intake",
+      });
+
+      expect(content).toContain("SUMMARY:Appointment\\, Dr. Smith\\; intake");
+    });
+
+    it("should compute SEQUENCE from appointment timestamps", () => {
+      expect(getAppointmentSequence()).toBe(0);
+      expect(getAppointmentSequence("2024-01-01T00:00:00Z", "2024-01-01T00:00:00Z")).toBe(0);
+      expect(getAppointmentSequence("2024-01-01T00:00:00Z", "2024-01-01T01:00:00Z")).toBe(3600);
+    });
+
+    it("should set the Google Calendar timezone when known", () => {
+      const url = new URL(
+        generateGoogleCalendarUrl({ ...mockEventDetails, timezone: "America/New_York" })
+      );
+
+      expect(url.searchParams.get("ctz")).toBe("America/New_York");
+    });
   });
 
   describe("downloadICSFile", () => {
@@ -0,0 +1,270 @@
+/**
+ * Unit and property-based tests for the iCalendar module
+ *
+ * Tests cover:
+ * - TEXT escaping and line folding (RFC 5545 §3.3.11, §3.1)
+ * - TZID-qualified local times and generated VTIMEZONE
+ * - Recurrence (RRULE/EXDATE/RDATE) across DST
+ * - METHOD/SEQUENCE/STATUS for updates and cancellations
+ * - Round-tripping serialized calendars through the parser (fast-check)
+ */
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import {
+  escapeText,
+  foldLine,
+  parseICalendar,
+  serializeICalendar,
+  unescapeText,
+  unfoldLines,
+  type ICalendar,
+  type ICalendarEvent,
+} from "@/lib/utils/icalendar";
+import { getZonedParts, zonedTimeToInstant } from "@/lib/utils/zoned-time";
+
+const encoder = new TextEncoder();
+
+const baseEvent: ICalendarEvent = {
+  uid: "appointment-appt_123@daybreakhealth.com",
+  sequence: 0,
+  status: "CONFIRMED",
+  summary: "Therapy Appointment with Dr. Sarah Johnson",
+  description: "Your scheduled therapy appointment.\nJoin using the link below.",
+  location: "https://daybreak.health/meet/abc123",
+  startTime: "2025-03-04T21:00:00.000Z",
+  endTime: "2025-03-04T21:50:00.000Z",
+  organizer: { name: "Daybreak Health", email: "support@daybreakhealth.com" },
+  reminderMinutes: 15,
+  dtstamp: "2025-02-01T12:00:00.000Z",
+};
+
+function calendarOf(event: ICalendarEvent, method: ICalendar["method"] = "PUBLISH"): ICalendar {
+  return { prodId: "-//Daybreak Health//Appointment Booking//EN", method, events: [event] };
+}
+
+/** Text without carriage returns (CRLF and LF both unescape to LF) */
+const textArb = fc
+  .string({ unit: "binary", minLength: 1, maxLength: 200 })
+  .map((value) => value.replace(/\r/g, ""))
+  .filter((value) => value.length > 0);
+
+describe("escapeText", () => {
+  it("escapes backslashes, semicolons, commas and newlines", () => {
+    expect(escapeText("a\\b;c,d\ne")).toBe("a\\\\b\\;c\\,d\\ne");
+  });
+
+  it("round-trips through unescapeText", () => {
+    fc.assert(
+      fc.property(textArb, (value) => {
+        expect(unescapeText(escapeText(value))).toBe(value);
+      })
+    );
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:Short")).toBe("SUMMARY:Short");
+  });
+
+  it("folds to at most 75 octets without splitting characters", () => {
+    fc.assert(
+      fc.property(fc.string({ unit: "binary", maxLength: 400 }), (value) => {
+        const line = `DESCRIPTION:${value.replace(/[\r\n]/g, "")}`;
+        const physical = foldLine(line).split("\r\n");
+
+        physical.forEach((segment, index) => {
+          expect(encoder.encode(segment).length).toBeLessThanOrEqual(75);
+          if (index > 0) expect(segment.startsWith(" ")).toBe(true);
+        });
+        expect(unfoldLines(foldLine(line))).toEqual([line]);
+      })
+    );
+  });
+});
+
+describe("serializeICalendar", () => {
+  it("writes a UTC event with CRLF line endings", () => {
+    const content = serializeICalendar(calendarOf(baseEvent));
+
+    expect(content.endsWith("\r\n")).toBe(true);
+    expect(content.split("\r\n").filter(Boolean)).toEqual(
+      expect.arrayContaining([
+        "METHOD:PUBLISH",
+        "UID:appointment-appt_123@daybreakhealth.com",
+        "SEQUENCE:0",
+        "DTSTAMP:20250201T120000Z",
+        "DTSTART:20250304T210000Z",
+        "DTEND:20250304T215000Z",
+        "ORGANIZER;CN=Daybreak Health:mailto:support@daybreakhealth.com",
+        "STATUS:CONFIRMED",
+        "TRIGGER:-PT15M",
+      ])
+    );
+    expect(content).not.toContain("VTIMEZONE");
+  });
+
+  it("escapes TEXT values", () => {
+    const content = serializeICalendar(
+      calendarOf({ ...baseEvent, summary: "Session; parent, child" })
+    );
+
+    expect(content).toContain("SUMMARY:Session\\; parent\\, child");
+  });
+
+  it("writes local times with a TZID and a matching VTIMEZONE", () => {
+    const content = serializeICalendar(
+      calendarOf({ ...baseEvent, timezone: "America/New_York" })
+    );
+    const lines = content.split("\r\n");
+
+    expect(lines).toContain("DTSTART;TZID=America/New_York:20250304T160000");
+    expect(lines).toContain("TZID:America/New_York");
+
+    const daylight = lines.indexOf("BEGIN:DAYLIGHT", lines.indexOf("DTSTART:19700101T000000"));
+    expect(lines.slice(daylight, daylight + 5)).toEqual([
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20250309T020000",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "END:DAYLIGHT",
+    ]);
+    expect(lines).toContain("DTSTART:20251102T020000");
+  });
+
+  it("writes a single STANDARD observance for zones without DST", () => {
+    const content = serializeICalendar(calendarOf({ ...baseEvent, timezone: "Asia/Kolkata" }));
+
+    expect(content).toContain("TZOFFSETTO:+0530");
+    expect(content).not.toContain("BEGIN:DAYLIGHT");
+  });
+
+  it("keeps the local time of recurring events and exceptions across DST", () => {
+    const content = serializeICalendar(
+      calendarOf({
+        ...baseEvent,
+        timezone: "America/New_York",
+        recurrence: {
+          rrule: "FREQ=WEEKLY;COUNT=4",
+          exdates: ["2025-03-11T20:00:00.000Z"],
+          rdates: ["2025-03-13T20:00:00.000Z"],
+        },
+      })
+    );
+
+    expect(content).toContain("RRULE:FREQ=WEEKLY;COUNT=4");
+    expect(content).toContain("EXDATE;TZID=America/New_York:20250311T160000");
+    expect(content).toContain("RDATE;TZID=America/New_York:20250313T160000");
+  });
+
+  it("omits reminders from cancellations", () => {
+    const content = serializeICalendar(
+      calendarOf({ ...baseEvent, sequence: 2, status: "CANCELLED" }, "CANCEL")
+    );
+
+    expect(content).toContain("METHOD:CANCEL");
+    expect(content).toContain("STATUS:CANCELLED");
+    expect(content).toContain("SEQUENCE:2");
+    expect(content).not.toContain("VALARM");
+  });
+});
+
+describe("parseICalendar", () => {
+  it("round-trips a recurring event in a timezone", () => {
+    const calendar = calendarOf(
+      {
+        ...baseEvent,
+        sequence: 3,
+        timezone: "America/New_York",
+        recurrence: {
+          rrule: "FREQ=WEEKLY;INTERVAL=2;COUNT=6",
+          exdates: ["2025-03-18T20:00:00.000Z"],
+          rdates: ["2025-03-19T20:00:00.000Z"],
+        },
+      },
+      "REQUEST"
+    );
+
+    expect(parseICalendar(serializeICalendar(calendar))).toEqual(calendar);
+  });
+
+  it("reads folded lines, quoted parameters and uppercase escapes", () => {
+    const content = [
+      "BEGIN:VCALENDAR",
+      "PRODID:-//Other//EN",
+      "METHOD:REQUEST",
+      "BEGIN:VEVENT",
+      "UID:abc",
+      "DTSTAMP:20250101T000000Z",
+      "DTSTART:20250101T150000Z",
+      "DTEND:20250101T155000Z",
+      "SUMMARY:Line one\\NLine",
+      "\t two",
+      'ORGANIZER;CN="Clinic: Main":mailto:clinic@example.com',
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\n");
+
+    const [event] = parseICalendar(content).events;
+    expect(event.summary).toBe("Line one\nLine two");
+    expect(event.organizer).toEqual({ name: "Clinic: Main", email: "clinic@example.com" });
+    expect(event.sequence).toBe(0);
+  });
+
+  it("rejects malformed lines and events without a UID", () => {
+    expect(() => parseICalendar("BEGIN:VCALENDAR\r\nnot a property\r\n")).toThrow(
+      /Invalid iCalendar content line/
+    );
+    expect(() =>
+      parseICalendar(
+        "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART:20250101T150000Z\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n"
+      )
+    ).toThrow(/missing UID/);
+  });
+
+  it("round-trips arbitrary events", () => {
+    const timezones = [undefined, "America/New_York", "Europe/London", "Australia/Sydney", "Asia/Kolkata"];
+    const minute = 60 * 1000;
+
+    const eventArb = fc
+      .record({
+        uid: textArb,
+        sequence: fc.nat({ max: 100000 }),
+        status: fc.constantFrom<ICalendarEvent["status"]>("CONFIRMED", "TENTATIVE", "CANCELLED"),
+        summary: textArb,
+        description: textArb,
+        location: textArb,
+        timezone: fc.constantFrom(...timezones),
+        // Minute-aligned instants between 2024 and 2030
+        start: fc.integer({ min: 28401120, max: 31556160 }).map((m) => m * minute),
+        duration: fc.integer({ min: 15, max: 180 }),
+        count: fc.integer({ min: 2, max: 12 }),
+      })
+      .filter(({ start, timezone }) => {
+        // Repeated local times (DST fall-back) resolve to the first occurrence
+        if (!timezone) return true;
+        const parts = getZonedParts(start, timezone);
+        return zonedTimeToInstant(parts, parts.hour * 60 + parts.minute, timezone) === start;
+      })
+      .map(
+        ({ start, duration, count, ...rest }): ICalendarEvent => ({
+          ...baseEvent,
+          ...rest,
+          startTime: new Date(start).toISOString(),
+          endTime: new Date(start + duration * minute).toISOString(),
+          recurrence: { rrule: `FREQ=WEEKLY;COUNT=${count}`, exdates: [], rdates: [] },
+        })
+      );
+
+    fc.assert(
+      fc.property(eventArb, fc.constantFrom<ICalendar["method"]>("PUBLISH", "REQUEST", "CANCEL"), (event, method) => {
+        const calendar = calendarOf(
+          method === "CANCEL" ? { ...event, reminderMinutes: undefined } : event,
+          method
+        );
+        expect(parseICalendar(serializeICalendar(calendar))).toEqual(calendar);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the Money value type
+ *
+ * Tests construction from each backend shape, banker's rounding,
+ * arithmetic, allocation and formatting.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  absMoney,
+  addMoney,
+  allocateMoney,
+  compareMoney,
+  formatMoney,
+  isNegativeMoney,
+  isZeroMoney,
+  moneyEquals,
+  moneyFromCents,
+  moneyFromDollars,
+  multiplyMoney,
+  negateMoney,
+  parseMoney,
+  percentOfMoney,
+  roundHalfEven,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  type Money,
+} from "@/lib/utils/money";
+import { formatCurrency } from "@/lib/utils/currency";
+import { moneySchema } from "@/lib/validations/cost";
+
+const cents = (amounts: Money[]) => amounts.map((amount) => amount.cents);
+
+describe("roundHalfEven", () => {
+  it("should round ties to the even neighbour", () => {
+    expect(roundHalfEven(0.5)).toBe(0);
+    expect(roundHalfEven(1.5)).toBe(2);
+    expect(roundHalfEven(2.5)).toBe(2);
+    expect(roundHalfEven(3.5)).toBe(4);
+    expect(roundHalfEven(-2.5)).toBe(-2);
+    expect(roundHalfEven(-3.5)).toBe(-4);
+  });
+
+  it("should round non-ties to the nearest integer", () => {
+    expect(roundHalfEven(2.4)).toBe(2);
+    expect(roundHalfEven(2.6)).toBe(3);
+    expect(roundHalfEven(-2.6)).toBe(-3);
+  });
+
+  it("should treat floating-point noise around .5 as a tie", () => {
+    expect(roundHalfEven(1.005 * 100)).toBe(100);
+    expect(roundHalfEven(1.015 * 100)).toBe(102);
+  });
+});
+
+describe("constructors", () => {
+  it("should create money from integer cents", () => {
+    expect(moneyFromCents(2500)).toEqual({ cents: 2500, currency: "USD" });
+  });
+
+  it("should reject fractional cents", () => {
+    expect(() => moneyFromCents(25.5)).toThrow("whole number of cents");
+  });
+
+  it("should normalize negative zero", () => {
+    expect(Object.is(moneyFromCents(-0).cents, 0)).toBe(true);
+  });
+
+  it("should create money from dollar floats with banker's rounding", () => {
+    expect(moneyFromDollars(25.5).cents).toBe(2550);
+    expect(moneyFromDollars(0.1 + 0.2).cents).toBe(30);
+    expect(moneyFromDollars(1.005).cents).toBe(100);
+    expect(moneyFromDollars(1.015).cents).toBe(102);
+  });
+
+  it("should convert back to dollars", () => {
+    expect(toDollars(moneyFromCents(2550))).toBe(25.5);
+  });
+});
+
+describe("parseMoney", () => {
+  it("should read the first amount from a display string", () => {
+    expect(parseMoney("$1,800 - $2,400")?.cents).toBe(180000);
+    expect(parseMoney("$135.50 per session")?.cents).toBe(13550);
+    expect(parseMoney("150")?.cents).toBe(15000);
+  });
+
+  it("should read negative amounts", () => {
+    expect(parseMoney("-$30.00")?.cents).toBe(-3000);
+  });
+
+  it("should return null when there is no amount", () => {
+    expect(parseMoney("Varies")).toBeNull();
+    expect(parseMoney(null)).toBeNull();
+    expect(parseMoney(undefined)).toBeNull();
+  });
+});
+
+describe("arithmetic", () => {
+  it("should add and subtract exactly", () => {
+    const tenCents = moneyFromDollars(0.1);
+    const twentyCents = moneyFromDollars(0.2);
+
+    expect(addMoney(tenCents, twentyCents)).toEqual(moneyFromCents(30));
+    expect(subtractMoney(tenCents, twentyCents)).toEqual(moneyFromCents(-10));
+  });
+
+  it("should sum a list of amounts", () => {
+    expect(sumMoney([moneyFromCents(100), moneyFromCents(250), moneyFromCents(5)]).cents).toBe(355);
+    expect(sumMoney([])).toEqual(moneyFromCents(0));
+  });
+
+  it("should multiply and take percentages with banker's rounding", () => {
+    expect(multiplyMoney(moneyFromCents(15000), 0.8).cents).toBe(12000);
+    expect(multiplyMoney(moneyFromCents(5), 0.5).cents).toBe(2);
+    expect(multiplyMoney(moneyFromCents(7), 0.5).cents).toBe(4);
+    expect(percentOfMoney(moneyFromCents(15000), 20).cents).toBe(3000);
+  });
+
+  it("should negate and take absolute values", () => {
+    expect(negateMoney(moneyFromCents(300)).cents).toBe(-300);
+    expect(absMoney(moneyFromCents(-300)).cents).toBe(300);
+  });
+
+  it("should compare amounts", () => {
+    expect(compareMoney(moneyFromCents(100), moneyFromCents(200))).toBeLessThan(0);
+    expect(compareMoney(moneyFromCents(200), moneyFromCents(100))).toBeGreaterThan(0);
+    expect(moneyEquals(moneyFromCents(100), moneyFromDollars(1))).toBe(true);
+    expect(isZeroMoney(moneyFromCents(0))).toBe(true);
+    expect(isNegativeMoney(moneyFromCents(-1))).toBe(true);
+  });
+
+  it("should refuse to combine different currencies", () => {
+    const other = { cents: 100, currency: "CAD" } as unknown as Money;
+
+    expect(() => addMoney(moneyFromCents(100), other)).toThrow("Cannot combine USD and CAD");
+  });
+});
+
+describe("allocateMoney", () => {
+  it("should split a total into parts that sum exactly", () => {
+    const parts = allocateMoney(moneyFromCents(10000), 3);
+
+    expect(cents(parts)).toEqual([3334, 3333, 3333]);
+    expect(sumMoney(parts).cents).toBe(10000);
+  });
+
+  it("should split a total into monthly payments", () => {
+    const payments = allocateMoney(moneyFromDollars(1830), 7);
+
+    expect(cents(payments)).toEqual([26143, 26143, 26143, 26143, 26143, 26143, 26142]);
+    expect(sumMoney(payments)).toEqual(moneyFromDollars(1830));
+  });
+
+  it("should split by ratio", () => {
+    expect(cents(allocateMoney(moneyFromCents(10000), [1, 3]))).toEqual([2500, 7500]);
+    expect(cents(allocateMoney(moneyFromCents(100), [1, 1, 1]))).toEqual([34, 33, 33]);
+  });
+
+  it("should split negative totals", () => {
+    expect(cents(allocateMoney(moneyFromCents(-100), 3))).toEqual([-34, -33, -33]);
+  });
+
+  it("should reject splits with no parts", () => {
+    expect(() => allocateMoney(moneyFromCents(100), 0)).toThrow();
+    expect(() => allocateMoney(moneyFromCents(100), [0, 0])).toThrow();
+  });
+});
+
+describe("formatMoney", () => {
+  it("should format with cents and thousands separators", () => {
+    expect(formatMoney(moneyFromCents(150000))).toBe("$1,500.00");
+    expect(formatMoney(moneyFromCents(-3000))).toBe("-$30.00");
+  });
+
+  it("should drop zero cents when asked", () => {
+    expect(formatMoney(moneyFromCents(15000), { hideZeroCents: true })).toBe("$150");
+    expect(formatMoney(moneyFromCents(15050), { hideZeroCents: true })).toBe("$150.50");
+  });
+
+  it("should show the sign when asked", () => {
+    expect(formatMoney(moneyFromCents(1500), { signDisplay: "always" })).toBe("+$15.00");
+    expect(formatMoney(moneyFromCents(-1500), { signDisplay: "always" })).toBe("-$15.00");
+  });
+
+  it("should format for other locales", () => {
+    expect(formatMoney(moneyFromCents(150000), { locale: "de-DE" })).toMatch(/^1\.500,00\s\$$/);
+  });
+
+  it("should format the same through formatCurrency", () => {
+    expect(formatCurrency(moneyFromCents(2500))).toBe("$25.00");
+  });
+});
+
+describe("moneySchema", () => {
+  it("should accept Money values", () => {
+    expect(moneySchema.safeParse(moneyFromCents(2500)).success).toBe(true);
+  });
+
+  it("should reject fractional cents and raw numbers", () => {
+    expect(moneySchema.safeParse({ cents: 25.5, currency: "USD" }).success).toBe(false);
+    expect(moneySchema.safeParse(2500).success).toBe(false);
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Unit tests for the PHI redaction engine
+ *
+ * Tests cover:
+ * - Field policies at any depth (drop, hash, mask, generalize_age, allow)
+ * - Key matching across camelCase, snake_case and kebab-case
+ * - Value detectors for emails, SSNs, dates of birth, phones and member IDs
+ * - Redaction report paths and idempotency
+ * - Custom policies and detectors
+ * - Circular references and depth limits
+ * - filterPHI/containsPHI/validateNoPHI wrappers on nested data
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  redactPHI,
+  hashValue,
+  maskValue,
+  toAgeBucket,
+} from '@/lib/utils/phi-redactor';
+import { filterPHI, containsPHI, validateNoPHI } from '@/lib/utils/phi-filter';
+
+describe('redactPHI', () => {
+  describe('field policies', () => {
+    it('drops PHI fields inside nested objects and arrays', () => {
+      const { value, report } = redactPHI({
+        child: { firstName: 'Alex', dateOfBirth: '2012-05-15' },
+        siblings: [{ firstName: 'Sam', diagnosis: 'ADHD' }],
+      });
+
+      expect(value).toEqual({
+        child: { firstName: 'Alex' },
+        siblings: [{ firstName: 'Sam' }],
+      });
+      expect(report.findings).toEqual([
+        { path: 'child.dateOfBirth', action: 'drop', rule: 'dateOfBirth', source: 'field' },
+        { path: 'siblings[0].diagnosis', action: 'drop', rule: 'diagnosis', source: 'field' },
+      ]);
+    });
+
+    it('matches keys regardless of case, underscores and dashes', () => {
+      const { value } = redactPHI({
+        date_of_birth: '2012-05-15',
+        'Date-Of-Birth': '2012-05-15',
+        CLINICAL_NOTES: 'notes',
+        first_name: 'Alex',
+      });
+
+      expect(value).toEqual({ first_name: 'Alex' });
+    });
+
+    it('does not treat keys that merely contain a PHI name as PHI', () => {
+      const { value, report } = redactPHI({
+        assessment_complete: true,
+        insurance_submitted: false,
+      });
+
+      expect(value).toEqual({ assessment_complete: true, insurance_submitted: false });
+      expect(report.findings).toEqual([]);
+    });
+
+    it('masks member IDs by default', () => {
+      const { value, report } = redactPHI({ memberId: 'ABC123456789', subscriber_id: 'SUB98765' });
+
+      expect(value).toEqual({ memberId: '********6789', subscriber_id: '****8765' });
+      expect(report.findings).toEqual([
+        { path: 'memberId', action: 'mask', rule: 'memberId', source: 'field' },
+        { path: 'subscriber_id', action: 'mask', rule: 'subscriber_id', source: 'field' },
+      ]);
+    });
+
+    it('hashes to a stable token with a salt', () => {
+      const options = { fieldPolicies: { memberId: 'hash' as const }, hashSalt: 'pepper' };
+      const first = redactPHI({ memberId: 'ABC123456789' }, options);
+      const second = redactPHI({ member_id: 'ABC123456789' }, options);
+      const otherSalt = redactPHI({ memberId: 'ABC123456789' }, { ...options, hashSalt: 'salt' });
+
+      expect(first.value.memberId).toMatch(/^hash_[0-9a-f]{8}$/);
+      expect(first.value.memberId).toBe((second.value as Record<string, unknown>).member_id);
+      expect(otherSalt.value.memberId).not.toBe(first.value.memberId);
+      expect(first.report.findings).toEqual([
+        { path: 'memberId', action: 'hash', rule: 'memberId', source: 'field' },
+      ]);
+    });
+
+    it('drops hash fields when no salt is given', () => {
+      const { value, report } = redactPHI(
+        { memberId: 'ABC123456789' },
+        { fieldPolicies: { memberId: 'hash' } }
+      );
+
+      expect(value).toEqual({});
+      expect(report.findings).toEqual([
+        { path: 'memberId', action: 'drop', rule: 'memberId', source: 'field' },
+      ]);
+    });
+
+    it('masks phone numbers down to the last 4 characters', () => {
+      const { value, report } = redactPHI({ parent: { phone: '555-123-4567' } });
+
+      expect(value).toEqual({ parent: { phone: '********4567' } });
+      expect(report.findings[0]).toMatchObject({ path: 'parent.phone', action: 'mask' });
+    });
+
+    it('generalizes childAge to an age bucket', () => {
+      const { value, report } = redactPHI({ childAge: 14 });
+
+      expect(value).toEqual({ childAge: '13-15' });
+      expect(report.findings[0]).toMatchObject({ path: 'childAge', action: 'generalize_age' });
+    });
+
+    it('drops values that cannot be generalized', () => {
+      const { value, report } = redactPHI({ childAge: 'unknown' });
+
+      expect(value).toEqual({});
+      expect(report.findings[0]).toMatchObject({ path: 'childAge', action: 'drop' });
+    });
+
+    it('drops objects under mask and hash policies instead of leaking them', () => {
+      const { value } = redactPHI(
+        { phone: { home: '555-123-4567' }, memberId: ['A1'] },
+        { fieldPolicies: { memberId: 'hash' }, hashSalt: 'pepper' }
+      );
+
+      expect(value).toEqual({});
+    });
+
+    it('keeps null values under transform policies without reporting them', () => {
+      const { value, report } = redactPHI({ phone: null });
+
+      expect(value).toEqual({ phone: null });
+      expect(report.findings).toEqual([]);
+    });
+
+    it('allows email and session IDs without running detectors', () => {
+      const data = { email: 'jane@example.com', session_id: 'sess_1234567890' };
+      const { value, report } = redactPHI(data);
+
+      expect(value).toEqual(data);
+      expect(report.findings).toEqual([]);
+    });
+  });
+
+  describe('value detectors', () => {
+    it.each([
+      ['email', 'Reach me at jane.doe+test@example.org please', 'Reach me at [REDACTED:email] please'],
+      ['ssn', 'SSN 123-45-6789 on file', 'SSN [REDACTED:ssn] on file'],
+      ['date_of_birth', 'Born 05/15/2012', 'Born [REDACTED:date_of_birth]'],
+      ['date_of_birth', 'DOB is 2012-05-15.', 'DOB is [REDACTED:date_of_birth].'],
+      ['phone', 'Call (555) 123-4567', 'Call [REDACTED:phone]'],
+      ['phone', 'Call +1 555.123.4567 today', 'Call [REDACTED:phone] today'],
+      ['phone', 'Text 5551234567', 'Text [REDACTED:phone]'],
+      ['member_id', 'Member ID XYZ987654321', 'Member ID [REDACTED:member_id]'],
+    ])('replaces %s in free text', (rule, input, expected) => {
+      const { value, report } = redactPHI({ note: input });
+
+      expect(value.note).toBe(expected);
+      expect(report.findings).toEqual([
+        { path: 'note', action: 'replace', rule, source: 'pattern', count: 1 },
+      ]);
+    });
+
+    it('counts multiple matches in one value', () => {
+      const { report } = redactPHI({ note: 'Home 555-123-4567, cell 555-987-6543' });
+
+      expect(report.findings).toEqual([
+        { path: 'note', action: 'replace', rule: 'phone', source: 'pattern', count: 2 },
+      ]);
+    });
+
+    it('scans strings inside arrays and reports their index', () => {
+      const { value, report } = redactPHI({
+        messages: [
+          { content: 'Hello' },
+          { content: 'Hi' },
+          { content: 'Email me at jane@example.com' },
+        ],
+        tags: ['ok', 'born 01/02/2011'],
+      });
+
+      expect(value.messages?.[2]).toEqual({ content: 'Email me at [REDACTED:email]' });
+      expect(value.tags).toEqual(['ok', 'born [REDACTED:date_of_birth]']);
+      expect(report.findings.map((finding) => finding.path)).toEqual([
+        'messages[2].content',
+        'tags[1]',
+      ]);
+    });
+
+    it.each([
+      'sess_1',
+      'abc123',
+      '2026-10-18T14:30:00.000Z',
+      'Booked for 3pm on Tuesday',
+      'Zip 94107',
+    ])('leaves non-PHI text alone: %s', (text) => {
+      expect(redactPHI({ note: text }).report.findings).toEqual([]);
+    });
+
+    it('does not scan numbers or booleans', () => {
+      const data = { count: 5551234567, complete: true };
+      expect(redactPHI(data).value).toEqual(data);
+    });
+
+    it('accepts custom detectors and makes them global', () => {
+      const { value } = redactPHI(
+        { note: 'MRN-1 and MRN-2' },
+        { detectors: [{ name: 'mrn', pattern: /MRN-\d/ }] }
+      );
+
+      expect(value.note).toBe('[REDACTED:mrn] and [REDACTED:mrn]');
+    });
+  });
+
+  describe('options', () => {
+    it('merges custom field policies over the defaults', () => {
+      const { value } = redactPHI(
+        { age: 14, nickname: 'Lex', email: 'jane@example.com' },
+        { fieldPolicies: { age: 'generalize_age', nickname: 'drop', email: 'mask' } }
+      );
+
+      expect(value).toEqual({ age: '13-15', email: '************.com' });
+    });
+
+    it('drops values nested deeper than maxDepth', () => {
+      const { value, report } = redactPHI({ a: { b: { c: 'deep' } } }, { maxDepth: 2 });
+
+      expect(value).toEqual({ a: {} });
+      expect(report.findings).toEqual([
+        { path: 'a.b', action: 'drop', rule: 'max_depth', source: 'limit' },
+      ]);
+    });
+  });
+
+  describe('structure', () => {
+    it('does not modify the input', () => {
+      const data = { child: { dateOfBirth: '2012-05-15' }, note: 'call 555-123-4567' };
+      const copy = structuredClone(data);
+
+      redactPHI(data);
+
+      expect(data).toEqual(copy);
+    });
+
+    it('drops circular references', () => {
+      const data: Record<string, unknown> = { name: 'Jane' };
+      data.self = data;
+
+      const { value, report } = redactPHI(data);
+
+      expect(value).toEqual({ name: 'Jane' });
+      expect(report.findings).toEqual([
+        { path: 'self', action: 'drop', rule: 'circular_reference', source: 'limit' },
+      ]);
+    });
+
+    it('keeps objects shared by siblings', () => {
+      const shared = { firstName: 'Alex' };
+      const { value } = redactPHI({ a: shared, b: shared });
+
+      expect(value).toEqual({ a: { firstName: 'Alex' }, b: { firstName: 'Alex' } });
+    });
+
+    it('keeps Date instances unchanged', () => {
+      const createdAt = new Date('2026-01-01T00:00:00Z');
+      expect(redactPHI({ createdAt }).value.createdAt).toBe(createdAt);
+    });
+
+    it('is idempotent', () => {
+      const data = {
+        memberId: 'ABC123456789',
+        phone: '555-123-4567',
+        childAge: 12,
+        note: 'Born 05/15/2012',
+        dateOfBirth: '2012-05-15',
+      };
+
+      const once = redactPHI(data).value;
+      const twice = redactPHI(once);
+
+      expect(twice.value).toEqual(once);
+      expect(twice.report.findings).toEqual([]);
+    });
+
+    it('never includes original values in the report', () => {
+      const { report } = redactPHI({ phone: '555-123-4567', note: 'SSN 123-45-6789' });
+
+      expect(JSON.stringify(report)).not.toMatch(/4567|6789/);
+    });
+  });
+});
+
+describe('redaction helpers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('hashValue is deterministic', () => {
+    expect(hashValue('abc', 'pepper')).toBe(hashValue('abc', 'pepper'));
+    expect(hashValue('abc', 'pepper')).not.toBe(hashValue('abd', 'pepper'));
+  });
+
+  it('maskValue masks short values completely', () => {
+    expect(maskValue('1234')).toBe('****');
+    expect(maskValue(123456)).toBe('**3456');
+  });
+
+  it.each([
+    [8, 'under 10'],
+    [10, '10-12'],
+    [13, '13-15'],
+    [19, '16-19'],
+    [42, '20+'],
+    ['14', '13-15'],
+  ])('toAgeBucket(%s) is %s', (age, bucket) => {
+    expect(toAgeBucket(age)).toBe(bucket);
+  });
+
+  it('toAgeBucket accepts a date of birth', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+
+    expect(toAgeBucket('2012-05-15')).toBe('13-15');
+    expect(toAgeBucket(new Date('2016-01-01T12:00:00Z'))).toBe('10-12');
+  });
+
+  it('toAgeBucket returns null for non-ages', () => {
+    expect(toAgeBucket(-1)).toBeNull();
+    expect(toAgeBucket('not a date')).toBeNull();
+    expect(toAgeBucket(undefined)).toBeNull();
+  });
+});
+
+describe('phi-filter wrappers on nested data', () => {
+  it('filterPHI removes nested PHI and redacts free text', () => {
+    const filtered = filterPHI({
+      firstName: 'Jane',
+      child: { firstName: 'Alex', dateOfBirth: '2012-05-15' },
+      note: 'Call 555-123-4567',
+    });
+
+    expect(filtered).toEqual({
+      firstName: 'Jane',
+      child: { firstName: 'Alex' },
+      note: 'Call [REDACTED:phone]',
+    });
+  });
+
+  it('containsPHI detects nested fields and patterns', () => {
+    expect(containsPHI({ child: { dateOfBirth: '2012-05-15' } })).toBe(true);
+    expect(containsPHI({ note: 'SSN 123-45-6789' })).toBe(true);
+    expect(containsPHI({ note: 'Doing well' })).toBe(false);
+  });
+
+  it('validateNoPHI lists the paths where PHI was found', () => {
+    expect(() =>
+      validateNoPHI(
+        { child: { dateOfBirth: '2012-05-15' }, notes: ['call 555-123-4567'] },
+        'Intercom update'
+      )
+    ).toThrow('PHI detected in Intercom update: Found restricted fields [child.dateOfBirth, notes[0]]');
+  });
+
+  it('validateNoPHI passes on filtered data', () => {
+    const filtered = filterPHI({ phone: '555-123-4567', memberId: 'ABC123456789', note: 'DOB 2012-05-15' });
+
+    expect(() => validateNoPHI(filtered, 'Intercom update')).not.toThrow();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for risk language detection
+ *
+ * Tests cover:
+ * - Detection per category
+ * - Everyday phrasing that must not trigger
+ * - Screening several fields at once
+ * - Escalation logging without PHI
+ */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  detectRiskLanguage,
+  detectRiskInTexts,
+  logRiskEscalation,
+} from "@/lib/utils/risk-detection";
+
+describe("detectRiskLanguage", () => {
+  it.each([
+    "He told me he wants to kill himself",
+    "She has talked about suicide",
+    "My son said he wants to die",
+    "She doesn't want to live anymore",
+    "He said he would be better off dead",
+  ])("flags suicidal ideation: %s", (text) => {
+    const result = detectRiskLanguage(text);
+    expect(result.isRisk).toBe(true);
+    expect(result.categories).toContain("suicidal_ideation");
+  });
+
+  it.each([
+    "I found out she has been cutting",
+    "He keeps hurting himself when he's upset",
+    "We're worried about self-harm",
+    "She overdosed last year",
+  ])("flags self-harm: %s", (text) => {
+    expect(detectRiskLanguage(text).categories).toContain("self_harm");
+  });
+
+  it.each([
+    "He threatened to kill a classmate",
+    "She said she would bring a knife to school",
+  ])("flags harm to others: %s", (text) => {
+    expect(detectRiskLanguage(text).categories).toContain("harm_to_others");
+  });
+
+  it.each([
+    "She's been killing it at soccer this season",
+    "He's dying to get a new phone",
+    "He cut his hair really short",
+    "Homework is killing me",
+    "",
+  ])("does not flag everyday phrasing: %s", (text) => {
+    expect(detectRiskLanguage(text)).toEqual({ isRisk: false, categories: [] });
+  });
+
+  it("handles missing text", () => {
+    expect(detectRiskLanguage(undefined).isRisk).toBe(false);
+    expect(detectRiskLanguage(null).isRisk).toBe(false);
+  });
+});
+
+describe("detectRiskInTexts", () => {
+  it("combines categories across fields and skips empty values", () => {
+    const result = detectRiskInTexts([
+      "",
+      undefined,
+      "She has been cutting",
+      "He talked about suicide",
+    ]);
+
+    expect(result.isRisk).toBe(true);
+    expect(result.categories.sort()).toEqual(["self_harm", "suicidal_ideation"]);
+  });
+
+  it("returns no risk when all fields are clear", () => {
+    expect(detectRiskInTexts(["Trouble sleeping", "Better focus at school"]).isRisk).toBe(false);
+  });
+});
+
+describe("logRiskEscalation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("logs only the session, source and trigger", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    logRiskEscalation({ sessionId: "sess_1", source: "chat", trigger: "language" });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    const payload = warn.mock.calls[0][1] as Record<string, unknown>;
+    expect(Object.keys(payload).sort()).toEqual([
+      "event",
+      "occurred_at",
+      "session_id",
+      "source",
+      "trigger",
+    ]);
+    expect(payload).toMatchObject({
+      event: "crisis_resources_shown",
+      session_id: "sess_1",
+      source: "chat",
+      trigger: "language",
+    });
+  });
+});
@@ -46,6 +46,7 @@ describe("insuranceSchema", () => {
   });
 
   describe("Member ID Validation (AC-4.1.2)", () => {
+    // Generic bounds apply to carriers without a fixed format ("other")
     it("should accept valid member ID (5-30 alphanumeric with hyphens)", () => {
       const result = insuranceSchema.safeParse(validData);
       expect(result.success).toBe(true);
@@ -54,6 +55,7 @@ describe("insuranceSchema", () => {
     it("should accept member ID at minimum length (5 chars)", () => {
       const result = insuranceSchema.safeParse({
         ...validData,
+        carrier: "other",
         memberId: "ABC12",
       });
       expect(result.success).toBe(true);
@@ -62,6 +64,7 @@ describe("insuranceSchema", () => {
     it("should accept member ID at maximum length (30 chars)", () => {
       const result = insuranceSchema.safeParse({
         ...validData,
+        carrier: "other",
         memberId: "ABCDEFGHIJ1234567890ABCDEFGHIJ",
       });
       expect(result.success).toBe(true);
@@ -70,6 +73,7 @@ describe("insuranceSchema", () => {
     it("should accept member ID with hyphens", () => {
       const result = insuranceSchema.safeParse({
         ...validData,
+        carrier: "other",
         memberId: "ABC-123-456",
       });
       expect(result.success).toBe(true);
@@ -131,6 +135,53 @@ describe("insuranceSchema", () => {
     });
   });
 
+  describe("Carrier Member ID Format", () => {
+    it("should accept a member ID in the carrier's format", () => {
+      const result = insuranceSchema.safeParse({
+        ...validData,
+        carrier: "aetna",
+        memberId: "W123456789",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a member ID that only differs by spacing and case", () => {
+      const result = insuranceSchema.safeParse({
+        ...validData,
+        memberId: "xyz123456789",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a member ID that doesn't match the carrier's format", () => {
+      const result = insuranceSchema.safeParse({
+        ...validData,
+        carrier: "cigna",
+        memberId: "W123456789",
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(["memberId"]);
+        expect(result.error.issues[0].message).toBe(
+          "Cigna member IDs are U followed by 8 digits (e.g. U12345678)"
+        );
+      }
+    });
+
+    it("should report a missing BCBS alpha prefix", () => {
+      const result = insuranceSchema.safeParse({
+        ...validData,
+        memberId: "123456789",
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe(
+          "Include the 3-letter prefix shown before your member ID on your card"
+        );
+      }
+    });
+  });
+
   describe("Group Number Validation (AC-4.1.3)", () => {
     it("should accept valid group number", () => {
       const result = insuranceSchema.safeParse(validData);
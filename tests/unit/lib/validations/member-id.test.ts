@@ -0,0 +1,188 @@
+/**
+ * Unit tests for carrier-specific member ID validation
+ *
+ * Tests normalization (spacing, case, hyphens, OCR misreads), per-carrier
+ * formats, BCBS alpha prefixes, Medicare MBI rules, TRICARE DoD Benefits
+ * Numbers, and the generic fallback for carriers without a format.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  MEMBER_ID_RULES,
+  getMemberIdRule,
+  normalizeMemberId,
+  validateMemberId,
+} from "@/lib/validations/member-id";
+import { INSURANCE_CARRIERS } from "@/lib/data/insurance-carriers";
+
+describe("MEMBER_ID_RULES", () => {
+  it("should have a rule for every carrier except Medicaid and Other", () => {
+    const withoutRule = INSURANCE_CARRIERS.filter((carrier) => !MEMBER_ID_RULES[carrier.id]).map(
+      (carrier) => carrier.id
+    );
+    expect(withoutRule).toEqual(["medicaid", "other"]);
+  });
+
+  it("should accept each rule's own example", () => {
+    Object.entries(MEMBER_ID_RULES).forEach(([carrierId, rule]) => {
+      expect(validateMemberId(rule.example, carrierId).isValid).toBe(true);
+    });
+  });
+
+  it("should return undefined for unknown carriers", () => {
+    expect(getMemberIdRule("unknown")).toBeUndefined();
+    expect(getMemberIdRule(undefined)).toBeUndefined();
+  });
+});
+
+describe("normalizeMemberId", () => {
+  it("should strip spaces and uppercase", () => {
+    expect(normalizeMemberId(" xyz 1234 5678 9 ", "bcbs")).toBe("XYZ123456789");
+  });
+
+  it("should remove hyphens for carriers with a fixed format", () => {
+    expect(normalizeMemberId("1EG4-TE5-MK73", "medicare")).toBe("1EG4TE5MK73");
+  });
+
+  it("should keep hyphens for carriers without a fixed format", () => {
+    expect(normalizeMemberId("abc-123 456", "other")).toBe("ABC-123456");
+    expect(normalizeMemberId("abc-123", undefined)).toBe("ABC-123");
+  });
+
+  it("should fix OCR misreads in digit positions", () => {
+    expect(normalizeMemberId("W12345678O", "aetna")).toBe("W123456780");
+    expect(normalizeMemberId("H1234567I", "humana")).toBe("H12345671");
+    expect(normalizeMemberId("12345678S0l", "tricare")).toBe("12345678501");
+  });
+
+  it("should fix OCR misreads in a BCBS alpha prefix", () => {
+    expect(normalizeMemberId("X0Z123456789", "bcbs")).toBe("XOZ123456789");
+  });
+
+  it("should leave IDs alone when a fix wouldn't make them valid", () => {
+    expect(normalizeMemberId("W12345", "aetna")).toBe("W12345");
+  });
+
+  it("should not change letters in alphanumeric formats", () => {
+    expect(normalizeMemberId("ABO123456", "united")).toBe("ABO123456");
+  });
+
+  it("should be idempotent", () => {
+    const once = normalizeMemberId("xyz 1234-5678 9", "bcbs");
+    expect(normalizeMemberId(once, "bcbs")).toBe(once);
+  });
+});
+
+describe("validateMemberId", () => {
+  it("should report empty IDs as invalid without an error", () => {
+    expect(validateMemberId("", "aetna")).toEqual({ normalized: "", isValid: false, error: null });
+  });
+
+  it.each([
+    ["aetna", "W123456789"],
+    ["cigna", "U12345678"],
+    ["humana", "H12345678"],
+    ["kaiser", "12345678"],
+    ["hap", "1234567890"],
+    ["united", "ABC123456"],
+    ["centene", "AB12345678"],
+    ["anthem", "ABC123456789"],
+    ["bcbs", "ABC123456789012"],
+    ["medicare", "1EG4TE5MK73"],
+    ["tricare", "12345678901"],
+  ])("should accept a valid %s ID (%s)", (carrierId, memberId) => {
+    const result = validateMemberId(memberId, carrierId);
+    expect(result.isValid).toBe(true);
+    expect(result.error).toBeNull();
+  });
+
+  it("should give the carrier's format in the error", () => {
+    expect(validateMemberId("W1234", "aetna").error).toBe(
+      "Aetna member IDs are W followed by 9 digits (e.g. W123456789)"
+    );
+    expect(validateMemberId("12345", "kaiser").error).toBe(
+      "Kaiser Permanente member IDs are 8-10 digits (e.g. 1234567890)"
+    );
+  });
+
+  it("should tell the user to add a missing fixed letter", () => {
+    expect(validateMemberId("123456789", "aetna").error).toBe(
+      "Add the letter W at the start of your member ID"
+    );
+  });
+
+  describe("BCBS alpha prefix", () => {
+    it("should ask for the prefix when only digits are entered", () => {
+      expect(validateMemberId("123456789", "bcbs").error).toBe(
+        "Include the 3-letter prefix shown before your member ID on your card"
+      );
+    });
+
+    it("should reject prefixes that aren't 3 letters", () => {
+      expect(validateMemberId("AB123456789", "bcbs").error).toBe(
+        "The prefix on Blue Cross Blue Shield IDs is exactly 3 letters"
+      );
+      expect(validateMemberId("ABCD123456789", "highmark").error).toBe(
+        "The prefix on Blue Cross Blue Shield IDs is exactly 3 letters"
+      );
+    });
+
+    it("should limit Anthem to 9 digits after the prefix", () => {
+      expect(validateMemberId("ABC1234567890", "anthem").isValid).toBe(false);
+      expect(validateMemberId("ABC1234567890", "bcbs").isValid).toBe(true);
+    });
+  });
+
+  describe("Medicare MBI", () => {
+    it("should require 11 characters", () => {
+      expect(validateMemberId("1EG4TE5MK7", "medicare").error).toBe(
+        "Medicare Beneficiary Identifiers are 11 characters"
+      );
+    });
+
+    it("should reject excluded letters", () => {
+      expect(validateMemberId("1SG4TE5MK73", "medicare").error).toBe(
+        "Medicare Beneficiary Identifiers never use the letters S, L, O, I, B or Z"
+      );
+    });
+
+    it("should require a leading digit from 1 to 9", () => {
+      expect(validateMemberId("0EG4TE5MK73", "medicare").error).toBe(
+        "Medicare Beneficiary Identifiers start with a number from 1 to 9"
+      );
+    });
+
+    it("should check each character position", () => {
+      const result = validateMemberId("1E34TE5MK73", "medicare");
+      expect(result.isValid).toBe(true);
+
+      const wrong = validateMemberId("1EGATE5MK73", "medicare");
+      expect(wrong.isValid).toBe(false);
+      expect(wrong.error).toBe(
+        "Medicare member IDs are an 11-character Medicare Beneficiary Identifier (e.g. 1EG4TE5MK73)"
+      );
+    });
+  });
+
+  describe("TRICARE DoD Benefits Number", () => {
+    it("should explain a 10-digit DoD ID", () => {
+      expect(validateMemberId("1234567890", "tricare").error).toBe(
+        "That looks like a 10-digit DoD ID. Enter the 11-digit DoD Benefits Number from your card"
+      );
+    });
+  });
+
+  describe("generic fallback", () => {
+    it("should accept 5-30 letters, numbers and hyphens", () => {
+      expect(validateMemberId("abc-12", "medicaid").isValid).toBe(true);
+      expect(validateMemberId("ABC12", undefined).isValid).toBe(true);
+    });
+
+    it("should reject IDs outside the generic format", () => {
+      expect(validateMemberId("AB1", "other")).toEqual({
+        normalized: "AB1",
+        isValid: false,
+        error: "Member ID must be 5-30 letters, numbers, or hyphens",
+      });
+    });
+  });
+});
@@ -2344,6 +2344,21 @@ export type VerifyEligibilityPayload = {
   insurance: Maybe<Insurance>;
 };
 
+export type GetScreeningQuestionsQueryVariables = Exact<{
+  childAge: Scalars['Int']['input'];
+  instrument?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetScreeningQuestionsQuery = { __typename?: 'Query', assessmentQuestions: Array<{ __typename?: 'AssessmentQuestion', id: string, instrument: string, item: number, domain: string, text: string }> };
+
+export type GetScreeningStateQueryVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type GetScreeningStateQuery = { __typename?: 'Query', session: { __typename?: 'OnboardingSession', id: string, child: { __typename?: 'Child', id: string, age: number | null } | null, assessment: { __typename?: 'Assessment', id: string, status: string, currentInstrument: string | null, nextQuestionId: string | null, completedQuestionsCount: number, totalQuestionsCount: number, progressPercentage: number, phqAComplete: boolean, gad7Complete: boolean, phqAScore: number | null, gad7Score: number | null, riskFlags: Array<string> } | null } };
+
 export type GetCostEstimateQueryVariables = Exact<{
   sessionId: Scalars['ID']['input'];
 }>;
@@ -2351,6 +2366,18 @@ export type GetCostEstimateQueryVariables = Exact<{
 
 export type GetCostEstimateQuery = { __typename?: 'Query', costComparison: { __typename?: 'CostComparison', recommendation: string | null, savingsIfSelfPay: number | null, highlightSelfPay: boolean, insuranceEstimate: { __typename?: 'InsuranceEstimate', perSessionCost: string, totalEstimatedCost: string, explanation: string, assumptionNotes: Array<string> } | null, selfPayEstimate: { __typename?: 'SelfPayEstimate', baseRate: string, totalForTypicalTreatment: string, slidingScaleInfo: string | null, transparentPricingMessage: string, whatIsIncluded: Array<string>, whatIsNotIncluded: Array<string>, packageOptions: Array<{ __typename?: 'PackageOption', sessions: number, totalPrice: string, perSessionCost: string, savings: string, description: string }> }, comparisonTable: Array<{ __typename?: 'ComparisonRow', label: string, insuranceValue: string | null, selfPayValue: string, highlightSelfPay: boolean }> } };
 
+export type CalculateCostQueryVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+  serviceType: Scalars['String']['input'];
+  duration?: InputMaybe<Scalars['Int']['input']>;
+  therapistTier?: InputMaybe<Scalars['String']['input']>;
+  specialServices?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+  discountCode?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type CalculateCostQuery = { __typename?: 'Query', calculateCost: { __typename?: 'CostBreakdown', grossCost: number, netCost: number, currency: string, calculatedAt: any, discountCodeInvalid: boolean | null, adjustments: Array<{ __typename?: 'CostAdjustment', type: string, description: string, amount: number, percentage: number | null }> } };
+
 export type GetEnhancedCostComparisonQueryVariables = Exact<{
   sessionId: Scalars['ID']['input'];
 }>;
@@ -2373,6 +2400,13 @@ export type SavePaymentPlanSelectionMutationVariables = Exact<{
 
 export type SavePaymentPlanSelectionMutation = { __typename?: 'Mutation', savePaymentPlanSelection: { __typename?: 'SavePaymentPlanSelectionPayload', success: boolean, paymentPlan: { __typename?: 'PaymentPlan', id: string, planDurationMonths: number, monthlyAmount: number, totalAmount: number, discountApplied: number, paymentMethodPreference: PaymentMethodEnum, status: string, description: string } } | null };
 
+export type GetMatchScoreBreakdownsQueryVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type GetMatchScoreBreakdownsQuery = { __typename?: 'Query', therapistMatches: Array<{ __typename?: 'TherapistMatchResult', score: number, therapist: { __typename?: 'Therapist', id: string, languages: Array<string> }, scoreBreakdown: { __typename?: 'MatchScoreBreakdown', specializationScore: number, ageRangeScore: number, availabilityScore: number, modalityScore: number } }> };
+
 export type GetMatchedTherapistsQueryVariables = Exact<{
   sessionId: Scalars['ID']['input'];
 }>;
@@ -2388,6 +2422,20 @@ export type GetTherapistProfileQueryVariables = Exact<{
 
 export type GetTherapistProfileQuery = { __typename?: 'Query', therapistProfile: { __typename?: 'TherapistProfile', id: string, name: string, credentials: string, photoUrl: string | null, bio: string | null, specialties: Array<string>, yearsOfExperience: number | null, approach: string | null, languages: Array<string>, certifications: Array<string>, availabilityStatus: string, availabilityText: string, education: Array<{ __typename?: 'Education', degree: string, institution: string, year: number | null }>, matchReasons: Array<{ __typename?: 'MatchReason', id: string, text: string, icon: string | null }>, availableSlots: Array<{ __typename?: 'TimeSlot', startTime: any, endTime: any, therapistId: string, durationMinutes: number }> } | null };
 
+export type GetTherapistSelectionQueryVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type GetTherapistSelectionQuery = { __typename?: 'Query', session: { __typename?: 'OnboardingSession', id: string, progressData: Record<string, unknown> } };
+
+export type SelectTherapistMutationVariables = Exact<{
+  input: SelectTherapistInput;
+}>;
+
+
+export type SelectTherapistMutation = { __typename?: 'Mutation', selectTherapist: { __typename?: 'SelectTherapistPayload', success: boolean, errors: Array<string>, therapistMatch: { __typename?: 'TherapistMatch', id: string, selectedTherapistId: string | null } | null } | null };
+
 export type BookAppointmentMutationVariables = Exact<{
   input: BookAppointmentInput;
 }>;
@@ -2395,6 +2443,20 @@ export type BookAppointmentMutationVariables = Exact<{
 
 export type BookAppointmentMutation = { __typename?: 'Mutation', bookAppointment: { __typename?: 'BookAppointmentPayload', success: boolean, errors: Array<string>, appointment: { __typename?: 'Appointment', id: string, onboardingSessionId: string, scheduledAt: any, durationMinutes: number, status: string, virtualLink: string | null, confirmationNumber: string, therapist: { __typename?: 'Therapist', id: string, fullName: string, licenseType: string | null, photoUrl: string | null } } | null } | null };
 
+export type CancelAppointmentMutationVariables = Exact<{
+  input: CancelAppointmentInput;
+}>;
+
+
+export type CancelAppointmentMutation = { __typename?: 'Mutation', cancelAppointment: { __typename?: 'CancelAppointmentPayload', success: boolean, errors: Array<string>, appointment: { __typename?: 'Appointment', id: string, onboardingSessionId: string, scheduledAt: any, durationMinutes: number, status: string, virtualLink: string | null, confirmationNumber: string, cancellable: boolean, reschedulable: boolean, cancelledAt: any | null, cancellationReason: string | null, createdAt: any, updatedAt: any, therapist: { __typename?: 'Therapist', id: string, fullName: string, licenseType: string | null, photoUrl: string | null } } | null } | null };
+
+export type GetSessionAppointmentQueryVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type GetSessionAppointmentQuery = { __typename?: 'Query', session: { __typename?: 'OnboardingSession', id: string, appointment: { __typename?: 'Appointment', id: string, onboardingSessionId: string, scheduledAt: any, durationMinutes: number, status: string, virtualLink: string | null, confirmationNumber: string, cancellable: boolean, reschedulable: boolean, cancelledAt: any | null, cancellationReason: string | null, createdAt: any, updatedAt: any, therapist: { __typename?: 'Therapist', id: string, fullName: string, licenseType: string | null, photoUrl: string | null } } | null } };
+
 export type GetTherapistAvailabilityQueryVariables = Exact<{
   therapistId: Scalars['ID']['input'];
   startDate: Scalars['ISO8601DateTime']['input'];
@@ -2406,6 +2468,39 @@ export type GetTherapistAvailabilityQueryVariables = Exact<{
 
 export type GetTherapistAvailabilityQuery = { __typename?: 'Query', therapistAvailability: { __typename?: 'TherapistAvailabilityResult', therapistId: string, therapistName: string, therapistPhotoUrl: string | null, timezone: string, availableDates: Array<{ __typename?: 'AvailableDate', date: any, hasAvailability: boolean, slots: Array<{ __typename?: 'AvailableSlot', id: string, startTime: any, endTime: any, isAvailable: boolean, timezone: string }> }> } };
 
+export type GetTherapistTimeOffsQueryVariables = Exact<{
+  therapistId: Scalars['ID']['input'];
+}>;
+
+
+export type GetTherapistTimeOffsQuery = { __typename?: 'Query', therapist: { __typename?: 'Therapist', id: string, timeOffs: Array<{ __typename?: 'TherapistTimeOff', id: string, startDate: any, endDate: any }> } | null };
+
+export type RescheduleAppointmentMutationVariables = Exact<{
+  input: RescheduleAppointmentInput;
+}>;
+
+
+export type RescheduleAppointmentMutation = { __typename?: 'Mutation', rescheduleAppointment: { __typename?: 'RescheduleAppointmentPayload', success: boolean, errors: Array<string>, appointment: { __typename?: 'Appointment', id: string, onboardingSessionId: string, scheduledAt: any, durationMinutes: number, status: string, virtualLink: string | null, confirmationNumber: string, cancellable: boolean, reschedulable: boolean, cancelledAt: any | null, cancellationReason: string | null, createdAt: any, updatedAt: any, therapist: { __typename?: 'Therapist', id: string, fullName: string, licenseType: string | null, photoUrl: string | null } } | null } | null };
+
+export type GetContactOptionsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GetContactOptionsQuery = { __typename?: 'Query', contactOptions: { __typename?: 'ContactOptions', phone: string, email: string, chatHours: string } };
+
+export type GetEscalationStatusQueryVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type GetEscalationStatusQuery = { __typename?: 'Query', session: { __typename?: 'OnboardingSession', id: string, needsHumanContact: boolean, escalationRequestedAt: any | null } };
+
+export type RequestHumanContactMutationVariables = Exact<{
+  input: RequestHumanContactInput;
+}>;
+
+
+export type RequestHumanContactMutation = { __typename?: 'Mutation', requestHumanContact: { __typename?: 'RequestHumanContactPayload', success: boolean, session: { __typename?: 'OnboardingSession', id: string, needsHumanContact: boolean, escalationRequestedAt: any | null } } | null };
+
 export type AbandonSessionMutationVariables = Exact<{
   input: AbandonSessionInput;
 }>;
@@ -2466,7 +2561,7 @@ export type SubmitAssessmentResponseMutationVariables = Exact<{
 }>;
 
 
-export type SubmitAssessmentResponseMutation = { __typename?: 'Mutation', submitAssessmentResponse: { __typename?: 'SubmitResponsePayload', errors: Array<string>, assessment: { __typename?: 'Assessment', id: string, status: string, score: number | null } | null, nextQuestion: { __typename?: 'AssessmentQuestion', id: string, text: string, instrument: string } | null, progress: { __typename?: 'AssessmentProgress', status: string, completedQuestions: number, totalQuestions: number, percentage: number, phqAComplete: boolean, gad7Complete: boolean, currentPhase: string } | null } | null };
+export type SubmitAssessmentResponseMutation = { __typename?: 'Mutation', submitAssessmentResponse: { __typename?: 'SubmitResponsePayload', errors: Array<string>, assessment: { __typename?: 'Assessment', id: string, status: string, score: number | null, currentInstrument: string | null, nextQuestionId: string | null, completedQuestionsCount: number, totalQuestionsCount: number, progressPercentage: number, phqAComplete: boolean, gad7Complete: boolean, phqAScore: number | null, gad7Score: number | null, riskFlags: Array<string> } | null, nextQuestion: { __typename?: 'AssessmentQuestion', id: string, text: string, instrument: string, item: number, domain: string } | null, progress: { __typename?: 'AssessmentProgress', status: string, completedQuestions: number, totalQuestions: number, percentage: number, phqAComplete: boolean, gad7Complete: boolean, currentPhase: string } | null } | null };
 
 export type SubmitChildInfoMutationVariables = Exact<{
   session_id: Scalars['ID']['input'];
@@ -2512,6 +2607,13 @@ export type UploadInsuranceCardMutationVariables = Exact<{
 
 export type UploadInsuranceCardMutation = { __typename?: 'Mutation', uploadInsuranceCard: { __typename?: 'UploadCardPayload', errors: Array<string>, insurance: { __typename?: 'Insurance', id: string, payerName: string | null, subscriberName: string | null, memberId: string | null, groupNumber: string | null, verificationStatus: string, cardImageFrontUrl: string | null, cardImageBackUrl: string | null, ocrProcessed: boolean, ocrExtracted: Record<string, unknown> | null, ocrConfidence: Record<string, unknown> | null, ocrLowConfidenceFields: Array<string> | null, needsReview: boolean, ocrError: Record<string, unknown> | null } | null } | null };
 
+export type VerifyEligibilityMutationVariables = Exact<{
+  insuranceId: Scalars['ID']['input'];
+}>;
+
+
+export type VerifyEligibilityMutation = { __typename?: 'Mutation', verifyEligibility: { __typename?: 'VerifyEligibilityPayload', cached: boolean, insurance: { __typename?: 'Insurance', id: string, verificationStatus: string, verificationStatusDisplay: string | null, verificationMessage: string | null, whyExplanation: string | null, nextSteps: Array<string>, canRetryVerification: boolean, retryAttempts: number, supportContact: { __typename?: 'SupportContact', type: string, phone: string, email: string, hours: string } | null } | null, errors: Array<{ __typename?: 'FieldError', field: string, message: string }> } | null };
+
 export type GetInsuranceStatusQueryVariables = Exact<{
   sessionId: Scalars['ID']['input'];
 }>;
@@ -2547,6 +2649,13 @@ export type GetSelfPayRatesQueryVariables = Exact<{
 
 export type GetSelfPayRatesQuery = { __typename?: 'Query', costComparison: { __typename?: 'CostComparison', highlightSelfPay: boolean, selfPayEstimate: { __typename?: 'SelfPayEstimate', baseRate: string, totalForTypicalTreatment: string, slidingScaleInfo: string | null, transparentPricingMessage: string, whatIsIncluded: Array<string>, whatIsNotIncluded: Array<string>, packageOptions: Array<{ __typename?: 'PackageOption', sessions: number, totalPrice: string, perSessionCost: string, savings: string, description: string }> } }, financialAssistanceInfo: { __typename?: 'FinancialAssistance', available: boolean, eligibilityCriteria: Array<string>, applicationUrl: string, description: string, slidingScaleAvailable: boolean, discountRange: string } };
 
+export type GetSessionProgressQueryVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type GetSessionProgressQuery = { __typename?: 'Query', session: { __typename?: 'OnboardingSession', id: string, progress: { __typename?: 'Progress', percentage: number, currentPhase: string, completedPhases: Array<string>, nextPhase: string | null, estimatedMinutesRemaining: number }, assessment: { __typename?: 'Assessment', id: string, status: string, progressPercentage: number, completedQuestionsCount: number, totalQuestionsCount: number, currentInstrument: string | null, nextQuestionId: string | null, phqAComplete: boolean, gad7Complete: boolean, riskFlags: Array<string> } | null } };
+
 export type GetSuggestedRepliesQueryVariables = Exact<{
   sessionId: Scalars['ID']['input'];
   messageId?: InputMaybe<Scalars['ID']['input']>;
@@ -2560,7 +2669,21 @@ export type SessionByRecoveryTokenQueryVariables = Exact<{
 }>;
 
 
-export type SessionByRecoveryTokenQuery = { __typename?: 'Query', sessionByRecoveryToken: { __typename?: 'SessionRecoveryPayload', token: string, refreshToken: string, session: { __typename?: 'OnboardingSession', id: string, status: string, expiresAt: any, createdAt: any, updatedAt: any, progress: { __typename?: 'Progress', percentage: number, currentPhase: string, completedPhases: Array<string>, nextPhase: string | null, estimatedMinutesRemaining: number } } } };
+export type SessionByRecoveryTokenQuery = { __typename?: 'Query', sessionByRecoveryToken: { __typename?: 'SessionRecoveryPayload', token: string, refreshToken: string, session: { __typename?: 'OnboardingSession', id: string, status: string, expiresAt: any, createdAt: any, updatedAt: any, progress: { __typename?: 'Progress', percentage: number, currentPhase: string, completedPhases: Array<string>, nextPhase: string | null, estimatedMinutesRemaining: number }, parent: { __typename?: 'Parent', id: string, email: string, phone: string, firstName: string, lastName: string, relationship: string } | null, child: { __typename?: 'Child', id: string, first_name: string, last_name: string, date_of_birth: string, gender: string | null, grade: string | null } | null, assessment: { __typename?: 'Assessment', id: string, status: string } | null, insurance: { __typename?: 'Insurance', id: string, payerName: string | null, subscriberName: string | null, memberId: string | null, groupNumber: string | null, verificationStatus: string } | null, appointment: { __typename?: 'Appointment', id: string } | null } } };
+
+export type AssessmentUpdatedSubscriptionVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type AssessmentUpdatedSubscription = { __typename?: 'Subscription', assessmentUpdated: { __typename?: 'AssessmentUpdatedPayload', id: string, status: string, progressPercentage: number, completedQuestionsCount: number, totalQuestionsCount: number, currentInstrument: string | null, nextQuestionId: string | null, phqAComplete: boolean, gad7Complete: boolean } };
+
+export type EligibilityStatusChangedSubscriptionVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type EligibilityStatusChangedSubscription = { __typename?: 'Subscription', insuranceStatusChanged: { __typename?: 'InsuranceStatusChangedPayload', insurance: { __typename?: 'Insurance', id: string, verificationStatus: string, verificationStatusDisplay: string | null, verificationMessage: string | null, whyExplanation: string | null, nextSteps: Array<string>, canRetryVerification: boolean, retryAttempts: number, supportContact: { __typename?: 'SupportContact', type: string, phone: string, email: string, hours: string } | null }, progress: { __typename?: 'VerificationProgress', percentage: number, message: string } | null } };
 
 export type InsuranceStatusChangedSubscriptionVariables = Exact<{
   sessionId: Scalars['ID']['input'];
@@ -2569,6 +2692,20 @@ export type InsuranceStatusChangedSubscriptionVariables = Exact<{
 
 export type InsuranceStatusChangedSubscription = { __typename?: 'Subscription', insuranceStatusChanged: { __typename?: 'InsuranceStatusChangedPayload', insurance: { __typename?: 'Insurance', id: string, payerName: string | null, subscriberName: string | null, memberId: string | null, groupNumber: string | null, verificationStatus: string, ocrProcessed: boolean, ocrExtracted: Record<string, unknown> | null, ocrConfidence: Record<string, unknown> | null, ocrLowConfidenceFields: Array<string> | null, needsReview: boolean, ocrError: Record<string, unknown> | null, ocrDataAvailable: boolean }, progress: { __typename?: 'VerificationProgress', percentage: number, message: string } | null } };
 
+export type MessageReceivedSubscriptionVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type MessageReceivedSubscription = { __typename?: 'Subscription', messageReceived: { __typename?: 'MessageReceivedPayload', id: string, role: string, content: string, createdAt: any } };
+
+export type ProgressUpdatedSubscriptionVariables = Exact<{
+  sessionId: Scalars['ID']['input'];
+}>;
+
+
+export type ProgressUpdatedSubscription = { __typename?: 'Subscription', progressUpdated: { __typename?: 'ProgressUpdatedPayload', percentage: number, currentPhase: string, completedPhases: Array<string>, nextPhase: string | null, estimatedMinutesRemaining: number } };
+
 export type SessionUpdatedSubscriptionVariables = Exact<{
   sessionId: Scalars['ID']['input'];
 }>;
@@ -2577,6 +2714,62 @@ export type SessionUpdatedSubscriptionVariables = Exact<{
 export type SessionUpdatedSubscription = { __typename?: 'Subscription', sessionUpdated: { __typename?: 'SessionUpdatedPayload', session: { __typename?: 'OnboardingSession', id: string, status: string, expiresAt: any, updatedAt: any, progress: { __typename?: 'Progress', percentage: number, currentPhase: string, completedPhases: Array<string>, nextPhase: string | null, estimatedMinutesRemaining: number } } } };
 
 
+export const GetScreeningQuestionsDocument = gql`
+    query GetScreeningQuestions($childAge: Int!, $instrument: String) {
+  assessmentQuestions(childAge: $childAge, instrument: $instrument) {
+    id
+    instrument
+    item
+    domain
+    text
+  }
+}
+    `;
+export function useGetScreeningQuestionsQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetScreeningQuestionsQuery, GetScreeningQuestionsQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetScreeningQuestionsQuery, GetScreeningQuestionsQueryVariables>(GetScreeningQuestionsDocument, options);
+      }
+export function useGetScreeningQuestionsLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetScreeningQuestionsQuery, GetScreeningQuestionsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetScreeningQuestionsQuery, GetScreeningQuestionsQueryVariables>(GetScreeningQuestionsDocument, options);
+        }
+export type GetScreeningQuestionsQueryHookResult = ReturnType<typeof useGetScreeningQuestionsQuery>;
+export type GetScreeningQuestionsLazyQueryHookResult = ReturnType<typeof useGetScreeningQuestionsLazyQuery>;
+export const GetScreeningStateDocument = gql`
+    query GetScreeningState($sessionId: ID!) {
+  session(id: $sessionId) {
+    id
+    child {
+      id
+      age
+    }
+    assessment {
+      id
+      status
+      currentInstrument
+      nextQuestionId
+      completedQuestionsCount
+      totalQuestionsCount
+      progressPercentage
+      phqAComplete
+      gad7Complete
+      phqAScore
+      gad7Score
+      riskFlags
+    }
+  }
+}
+    `;
+export function useGetScreeningStateQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetScreeningStateQuery, GetScreeningStateQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetScreeningStateQuery, GetScreeningStateQueryVariables>(GetScreeningStateDocument, options);
+      }
+export function useGetScreeningStateLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetScreeningStateQuery, GetScreeningStateQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetScreeningStateQuery, GetScreeningStateQueryVariables>(GetScreeningStateDocument, options);
+        }
+export type GetScreeningStateQueryHookResult = ReturnType<typeof useGetScreeningStateQuery>;
+export type GetScreeningStateLazyQueryHookResult = ReturnType<typeof useGetScreeningStateLazyQuery>;
 export const GetCostEstimateDocument = gql`
     query GetCostEstimate($sessionId: ID!) {
   costComparison(sessionId: $sessionId) {
@@ -2623,6 +2816,40 @@ export function useGetCostEstimateLazyQuery(baseOptions?: ApolloReactHooks.LazyQ
         }
 export type GetCostEstimateQueryHookResult = ReturnType<typeof useGetCostEstimateQuery>;
 export type GetCostEstimateLazyQueryHookResult = ReturnType<typeof useGetCostEstimateLazyQuery>;
+export const CalculateCostDocument = gql`
+    query CalculateCost($sessionId: ID!, $serviceType: String!, $duration: Int, $therapistTier: String, $specialServices: [String!], $discountCode: String) {
+  calculateCost(
+    sessionId: $sessionId
+    serviceType: $serviceType
+    duration: $duration
+    therapistTier: $therapistTier
+    specialServices: $specialServices
+    discountCode: $discountCode
+  ) {
+    grossCost
+    netCost
+    currency
+    calculatedAt
+    discountCodeInvalid
+    adjustments {
+      type
+      description
+      amount
+      percentage
+    }
+  }
+}
+    `;
+export function useCalculateCostQuery(baseOptions: ApolloReactHooks.QueryHookOptions<CalculateCostQuery, CalculateCostQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<CalculateCostQuery, CalculateCostQueryVariables>(CalculateCostDocument, options);
+      }
+export function useCalculateCostLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<CalculateCostQuery, CalculateCostQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<CalculateCostQuery, CalculateCostQueryVariables>(CalculateCostDocument, options);
+        }
+export type CalculateCostQueryHookResult = ReturnType<typeof useCalculateCostQuery>;
+export type CalculateCostLazyQueryHookResult = ReturnType<typeof useCalculateCostLazyQuery>;
 export const GetEnhancedCostComparisonDocument = gql`
     query GetEnhancedCostComparison($sessionId: ID!) {
   costComparison(sessionId: $sessionId) {
@@ -2747,6 +2974,33 @@ export function useSavePaymentPlanSelectionMutation(baseOptions?: ApolloReactHoo
         return ApolloReactHooks.useMutation<SavePaymentPlanSelectionMutation, SavePaymentPlanSelectionMutationVariables>(SavePaymentPlanSelectionDocument, options);
       }
 export type SavePaymentPlanSelectionMutationHookResult = ReturnType<typeof useSavePaymentPlanSelectionMutation>;
+export const GetMatchScoreBreakdownsDocument = gql`
+    query GetMatchScoreBreakdowns($sessionId: ID!) {
+  therapistMatches(sessionId: $sessionId) {
+    therapist {
+      id
+      languages
+    }
+    score
+    scoreBreakdown {
+      specializationScore
+      ageRangeScore
+      availabilityScore
+      modalityScore
+    }
+  }
+}
+    `;
+export function useGetMatchScoreBreakdownsQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetMatchScoreBreakdownsQuery, GetMatchScoreBreakdownsQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetMatchScoreBreakdownsQuery, GetMatchScoreBreakdownsQueryVariables>(GetMatchScoreBreakdownsDocument, options);
+      }
+export function useGetMatchScoreBreakdownsLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetMatchScoreBreakdownsQuery, GetMatchScoreBreakdownsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetMatchScoreBreakdownsQuery, GetMatchScoreBreakdownsQueryVariables>(GetMatchScoreBreakdownsDocument, options);
+        }
+export type GetMatchScoreBreakdownsQueryHookResult = ReturnType<typeof useGetMatchScoreBreakdownsQuery>;
+export type GetMatchScoreBreakdownsLazyQueryHookResult = ReturnType<typeof useGetMatchScoreBreakdownsLazyQuery>;
 export const GetMatchedTherapistsDocument = gql`
     query GetMatchedTherapists($sessionId: ID!) {
   matchedTherapists(sessionId: $sessionId) {
@@ -2827,6 +3081,41 @@ export function useGetTherapistProfileLazyQuery(baseOptions?: ApolloReactHooks.L
         }
 export type GetTherapistProfileQueryHookResult = ReturnType<typeof useGetTherapistProfileQuery>;
 export type GetTherapistProfileLazyQueryHookResult = ReturnType<typeof useGetTherapistProfileLazyQuery>;
+export const GetTherapistSelectionDocument = gql`
+    query GetTherapistSelection($sessionId: ID!) {
+  session(id: $sessionId) {
+    id
+    progressData
+  }
+}
+    `;
+export function useGetTherapistSelectionQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetTherapistSelectionQuery, GetTherapistSelectionQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetTherapistSelectionQuery, GetTherapistSelectionQueryVariables>(GetTherapistSelectionDocument, options);
+      }
+export function useGetTherapistSelectionLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetTherapistSelectionQuery, GetTherapistSelectionQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetTherapistSelectionQuery, GetTherapistSelectionQueryVariables>(GetTherapistSelectionDocument, options);
+        }
+export type GetTherapistSelectionQueryHookResult = ReturnType<typeof useGetTherapistSelectionQuery>;
+export type GetTherapistSelectionLazyQueryHookResult = ReturnType<typeof useGetTherapistSelectionLazyQuery>;
+export const SelectTherapistDocument = gql`
+    mutation SelectTherapist($input: SelectTherapistInput!) {
+  selectTherapist(input: $input) {
+    success
+    errors
+    therapistMatch {
+      id
+      selectedTherapistId
+    }
+  }
+}
+    `;
+export function useSelectTherapistMutation(baseOptions?: ApolloReactHooks.MutationHookOptions<SelectTherapistMutation, SelectTherapistMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useMutation<SelectTherapistMutation, SelectTherapistMutationVariables>(SelectTherapistDocument, options);
+      }
+export type SelectTherapistMutationHookResult = ReturnType<typeof useSelectTherapistMutation>;
 export const BookAppointmentDocument = gql`
     mutation BookAppointment($input: BookAppointmentInput!) {
   bookAppointment(input: $input) {
@@ -2855,6 +3144,78 @@ export function useBookAppointmentMutation(baseOptions?: ApolloReactHooks.Mutati
         return ApolloReactHooks.useMutation<BookAppointmentMutation, BookAppointmentMutationVariables>(BookAppointmentDocument, options);
       }
 export type BookAppointmentMutationHookResult = ReturnType<typeof useBookAppointmentMutation>;
+export const CancelAppointmentDocument = gql`
+    mutation CancelAppointment($input: CancelAppointmentInput!) {
+  cancelAppointment(input: $input) {
+    appointment {
+      id
+      onboardingSessionId
+      scheduledAt
+      durationMinutes
+      status
+      virtualLink
+      confirmationNumber
+      cancellable
+      reschedulable
+      cancelledAt
+      cancellationReason
+      createdAt
+      updatedAt
+      therapist {
+        id
+        fullName
+        licenseType
+        photoUrl
+      }
+    }
+    success
+    errors
+  }
+}
+    `;
+export function useCancelAppointmentMutation(baseOptions?: ApolloReactHooks.MutationHookOptions<CancelAppointmentMutation, CancelAppointmentMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useMutation<CancelAppointmentMutation, CancelAppointmentMutationVariables>(CancelAppointmentDocument, options);
+      }
+export type CancelAppointmentMutationHookResult = ReturnType<typeof useCancelAppointmentMutation>;
+export const GetSessionAppointmentDocument = gql`
+    query GetSessionAppointment($sessionId: ID!) {
+  session(id: $sessionId) {
+    id
+    appointment {
+      id
+      onboardingSessionId
+      scheduledAt
+      durationMinutes
+      status
+      virtualLink
+      confirmationNumber
+      cancellable
+      reschedulable
+      cancelledAt
+      cancellationReason
+      createdAt
+      updatedAt
+      therapist {
+        id
+        fullName
+        licenseType
+        photoUrl
+      }
+    }
+  }
+}
+    `;
+export function useGetSessionAppointmentQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetSessionAppointmentQuery, GetSessionAppointmentQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetSessionAppointmentQuery, GetSessionAppointmentQueryVariables>(GetSessionAppointmentDocument, options);
+      }
+export function useGetSessionAppointmentLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetSessionAppointmentQuery, GetSessionAppointmentQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetSessionAppointmentQuery, GetSessionAppointmentQueryVariables>(GetSessionAppointmentDocument, options);
+        }
+export type GetSessionAppointmentQueryHookResult = ReturnType<typeof useGetSessionAppointmentQuery>;
+export type GetSessionAppointmentLazyQueryHookResult = ReturnType<typeof useGetSessionAppointmentLazyQuery>;
 export const GetTherapistAvailabilityDocument = gql`
     query GetTherapistAvailability($therapistId: ID!, $startDate: ISO8601DateTime!, $endDate: ISO8601DateTime!, $timezone: String, $sessionId: ID) {
   therapistAvailability(
@@ -2892,6 +3253,117 @@ export function useGetTherapistAvailabilityLazyQuery(baseOptions?: ApolloReactHo
         }
 export type GetTherapistAvailabilityQueryHookResult = ReturnType<typeof useGetTherapistAvailabilityQuery>;
 export type GetTherapistAvailabilityLazyQueryHookResult = ReturnType<typeof useGetTherapistAvailabilityLazyQuery>;
+export const GetTherapistTimeOffsDocument = gql`
+    query GetTherapistTimeOffs($therapistId: ID!) {
+  therapist(id: $therapistId) {
+    id
+    timeOffs {
+      id
+      startDate
+      endDate
+    }
+  }
+}
+    `;
+export function useGetTherapistTimeOffsQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetTherapistTimeOffsQuery, GetTherapistTimeOffsQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetTherapistTimeOffsQuery, GetTherapistTimeOffsQueryVariables>(GetTherapistTimeOffsDocument, options);
+      }
+export function useGetTherapistTimeOffsLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetTherapistTimeOffsQuery, GetTherapistTimeOffsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetTherapistTimeOffsQuery, GetTherapistTimeOffsQueryVariables>(GetTherapistTimeOffsDocument, options);
+        }
+export type GetTherapistTimeOffsQueryHookResult = ReturnType<typeof useGetTherapistTimeOffsQuery>;
+export type GetTherapistTimeOffsLazyQueryHookResult = ReturnType<typeof useGetTherapistTimeOffsLazyQuery>;
+export const RescheduleAppointmentDocument = gql`
+    mutation RescheduleAppointment($input: RescheduleAppointmentInput!) {
+  rescheduleAppointment(input: $input) {
+    appointment {
+      id
+      onboardingSessionId
+      scheduledAt
+      durationMinutes
+      status
+      virtualLink
+      confirmationNumber
+      cancellable
+      reschedulable
+      cancelledAt
+      cancellationReason
+      createdAt
+      updatedAt
+      therapist {
+        id
+        fullName
+        licenseType
+        photoUrl
+      }
+    }
+    success
+    errors
+  }
+}
+    `;
+export function useRescheduleAppointmentMutation(baseOptions?: ApolloReactHooks.MutationHookOptions<RescheduleAppointmentMutation, RescheduleAppointmentMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useMutation<RescheduleAppointmentMutation, RescheduleAppointmentMutationVariables>(RescheduleAppointmentDocument, options);
+      }
+export type RescheduleAppointmentMutationHookResult = ReturnType<typeof useRescheduleAppointmentMutation>;
+export const GetContactOptionsDocument = gql`
+    query GetContactOptions {
+  contactOptions {
+    phone
+    email
+    chatHours
+  }
+}
+    `;
+export function useGetContactOptionsQuery(baseOptions?: ApolloReactHooks.QueryHookOptions<GetContactOptionsQuery, GetContactOptionsQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetContactOptionsQuery, GetContactOptionsQueryVariables>(GetContactOptionsDocument, options);
+      }
+export function useGetContactOptionsLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetContactOptionsQuery, GetContactOptionsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetContactOptionsQuery, GetContactOptionsQueryVariables>(GetContactOptionsDocument, options);
+        }
+export type GetContactOptionsQueryHookResult = ReturnType<typeof useGetContactOptionsQuery>;
+export type GetContactOptionsLazyQueryHookResult = ReturnType<typeof useGetContactOptionsLazyQuery>;
+export const GetEscalationStatusDocument = gql`
+    query GetEscalationStatus($sessionId: ID!) {
+  session(id: $sessionId) {
+    id
+    needsHumanContact
+    escalationRequestedAt
+  }
+}
+    `;
+export function useGetEscalationStatusQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetEscalationStatusQuery, GetEscalationStatusQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetEscalationStatusQuery, GetEscalationStatusQueryVariables>(GetEscalationStatusDocument, options);
+      }
+export function useGetEscalationStatusLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetEscalationStatusQuery, GetEscalationStatusQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetEscalationStatusQuery, GetEscalationStatusQueryVariables>(GetEscalationStatusDocument, options);
+        }
+export type GetEscalationStatusQueryHookResult = ReturnType<typeof useGetEscalationStatusQuery>;
+export type GetEscalationStatusLazyQueryHookResult = ReturnType<typeof useGetEscalationStatusLazyQuery>;
+export const RequestHumanContactDocument = gql`
+    mutation RequestHumanContact($input: RequestHumanContactInput!) {
+  requestHumanContact(input: $input) {
+    session {
+      id
+      needsHumanContact
+      escalationRequestedAt
+    }
+    success
+  }
+}
+    `;
+export function useRequestHumanContactMutation(baseOptions?: ApolloReactHooks.MutationHookOptions<RequestHumanContactMutation, RequestHumanContactMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useMutation<RequestHumanContactMutation, RequestHumanContactMutationVariables>(RequestHumanContactDocument, options);
+      }
+export type RequestHumanContactMutationHookResult = ReturnType<typeof useRequestHumanContactMutation>;
 export const AbandonSessionDocument = gql`
     mutation AbandonSession($input: AbandonSessionInput!) {
   abandonSession(input: $input) {
@@ -3040,11 +3512,23 @@ export const SubmitAssessmentResponseDocument = gql`
       id
       status
       score
+      currentInstrument
+      nextQuestionId
+      completedQuestionsCount
+      totalQuestionsCount
+      progressPercentage
+      phqAComplete
+      gad7Complete
+      phqAScore
+      gad7Score
+      riskFlags
     }
     nextQuestion {
       id
       text
       instrument
+      item
+      domain
     }
     progress {
       status
@@ -3198,6 +3682,38 @@ export function useUploadInsuranceCardMutation(baseOptions?: ApolloReactHooks.Mu
         return ApolloReactHooks.useMutation<UploadInsuranceCardMutation, UploadInsuranceCardMutationVariables>(UploadInsuranceCardDocument, options);
       }
 export type UploadInsuranceCardMutationHookResult = ReturnType<typeof useUploadInsuranceCardMutation>;
+export const VerifyEligibilityDocument = gql`
+    mutation VerifyEligibility($insuranceId: ID!) {
+  verifyEligibility(insuranceId: $insuranceId) {
+    insurance {
+      id
+      verificationStatus
+      verificationStatusDisplay
+      verificationMessage
+      whyExplanation
+      nextSteps
+      canRetryVerification
+      retryAttempts
+      supportContact {
+        type
+        phone
+        email
+        hours
+      }
+    }
+    cached
+    errors {
+      field
+      message
+    }
+  }
+}
+    `;
+export function useVerifyEligibilityMutation(baseOptions?: ApolloReactHooks.MutationHookOptions<VerifyEligibilityMutation, VerifyEligibilityMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useMutation<VerifyEligibilityMutation, VerifyEligibilityMutationVariables>(VerifyEligibilityDocument, options);
+      }
+export type VerifyEligibilityMutationHookResult = ReturnType<typeof useVerifyEligibilityMutation>;
 export const GetInsuranceStatusDocument = gql`
     query GetInsuranceStatus($sessionId: ID!) {
   session(id: $sessionId) {
@@ -3384,6 +3900,42 @@ export function useGetSelfPayRatesLazyQuery(baseOptions?: ApolloReactHooks.LazyQ
         }
 export type GetSelfPayRatesQueryHookResult = ReturnType<typeof useGetSelfPayRatesQuery>;
 export type GetSelfPayRatesLazyQueryHookResult = ReturnType<typeof useGetSelfPayRatesLazyQuery>;
+export const GetSessionProgressDocument = gql`
+    query GetSessionProgress($sessionId: ID!) {
+  session(id: $sessionId) {
+    id
+    progress {
+      percentage
+      currentPhase
+      completedPhases
+      nextPhase
+      estimatedMinutesRemaining
+    }
+    assessment {
+      id
+      status
+      progressPercentage
+      completedQuestionsCount
+      totalQuestionsCount
+      currentInstrument
+      nextQuestionId
+      phqAComplete
+      gad7Complete
+      riskFlags
+    }
+  }
+}
+    `;
+export function useGetSessionProgressQuery(baseOptions: ApolloReactHooks.QueryHookOptions<GetSessionProgressQuery, GetSessionProgressQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useQuery<GetSessionProgressQuery, GetSessionProgressQueryVariables>(GetSessionProgressDocument, options);
+      }
+export function useGetSessionProgressLazyQuery(baseOptions?: ApolloReactHooks.LazyQueryHookOptions<GetSessionProgressQuery, GetSessionProgressQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return ApolloReactHooks.useLazyQuery<GetSessionProgressQuery, GetSessionProgressQueryVariables>(GetSessionProgressDocument, options);
+        }
+export type GetSessionProgressQueryHookResult = ReturnType<typeof useGetSessionProgressQuery>;
+export type GetSessionProgressLazyQueryHookResult = ReturnType<typeof useGetSessionProgressLazyQuery>;
 export const GetSuggestedRepliesDocument = gql`
     query GetSuggestedReplies($sessionId: ID!, $messageId: ID) {
   suggestedReplies(sessionId: $sessionId, messageId: $messageId) {
@@ -3419,6 +3971,37 @@ export const SessionByRecoveryTokenDocument = gql`
       expiresAt
       createdAt
       updatedAt
+      parent {
+        id
+        email
+        phone
+        firstName
+        lastName
+        relationship
+      }
+      child {
+        id
+        first_name
+        last_name
+        date_of_birth
+        gender
+        grade
+      }
+      assessment {
+        id
+        status
+      }
+      insurance {
+        id
+        payerName
+        subscriberName
+        memberId
+        groupNumber
+        verificationStatus
+      }
+      appointment {
+        id
+      }
     }
     token
     refreshToken
@@ -3435,6 +4018,57 @@ export function useSessionByRecoveryTokenLazyQuery(baseOptions?: ApolloReactHook
         }
 export type SessionByRecoveryTokenQueryHookResult = ReturnType<typeof useSessionByRecoveryTokenQuery>;
 export type SessionByRecoveryTokenLazyQueryHookResult = ReturnType<typeof useSessionByRecoveryTokenLazyQuery>;
+export const AssessmentUpdatedDocument = gql`
+    subscription AssessmentUpdated($sessionId: ID!) {
+  assessmentUpdated(sessionId: $sessionId) {
+    id
+    status
+    progressPercentage
+    completedQuestionsCount
+    totalQuestionsCount
+    currentInstrument
+    nextQuestionId
+    phqAComplete
+    gad7Complete
+  }
+}
+    `;
+export function useAssessmentUpdatedSubscription(baseOptions: ApolloReactHooks.SubscriptionHookOptions<AssessmentUpdatedSubscription, AssessmentUpdatedSubscriptionVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useSubscription<AssessmentUpdatedSubscription, AssessmentUpdatedSubscriptionVariables>(AssessmentUpdatedDocument, options);
+      }
+export type AssessmentUpdatedSubscriptionHookResult = ReturnType<typeof useAssessmentUpdatedSubscription>;
+export const EligibilityStatusChangedDocument = gql`
+    subscription EligibilityStatusChanged($sessionId: ID!) {
+  insuranceStatusChanged(sessionId: $sessionId) {
+    insurance {
+      id
+      verificationStatus
+      verificationStatusDisplay
+      verificationMessage
+      whyExplanation
+      nextSteps
+      canRetryVerification
+      retryAttempts
+      supportContact {
+        type
+        phone
+        email
+        hours
+      }
+    }
+    progress {
+      percentage
+      message
+    }
+  }
+}
+    `;
+export function useEligibilityStatusChangedSubscription(baseOptions: ApolloReactHooks.SubscriptionHookOptions<EligibilityStatusChangedSubscription, EligibilityStatusChangedSubscriptionVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useSubscription<EligibilityStatusChangedSubscription, EligibilityStatusChangedSubscriptionVariables>(EligibilityStatusChangedDocument, options);
+      }
+export type EligibilityStatusChangedSubscriptionHookResult = ReturnType<typeof useEligibilityStatusChangedSubscription>;
 export const InsuranceStatusChangedDocument = gql`
     subscription InsuranceStatusChanged($sessionId: ID!) {
   insuranceStatusChanged(sessionId: $sessionId) {
@@ -3465,6 +4099,37 @@ export function useInsuranceStatusChangedSubscription(baseOptions: ApolloReactHo
         return ApolloReactHooks.useSubscription<InsuranceStatusChangedSubscription, InsuranceStatusChangedSubscriptionVariables>(InsuranceStatusChangedDocument, options);
       }
 export type InsuranceStatusChangedSubscriptionHookResult = ReturnType<typeof useInsuranceStatusChangedSubscription>;
+export const MessageReceivedDocument = gql`
+    subscription MessageReceived($sessionId: ID!) {
+  messageReceived(sessionId: $sessionId) {
+    id
+    role
+    content
+    createdAt
+  }
+}
+    `;
+export function useMessageReceivedSubscription(baseOptions: ApolloReactHooks.SubscriptionHookOptions<MessageReceivedSubscription, MessageReceivedSubscriptionVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useSubscription<MessageReceivedSubscription, MessageReceivedSubscriptionVariables>(MessageReceivedDocument, options);
+      }
+export type MessageReceivedSubscriptionHookResult = ReturnType<typeof useMessageReceivedSubscription>;
+export const ProgressUpdatedDocument = gql`
+    subscription ProgressUpdated($sessionId: ID!) {
+  progressUpdated(sessionId: $sessionId) {
+    percentage
+    currentPhase
+    completedPhases
+    nextPhase
+    estimatedMinutesRemaining
+  }
+}
+    `;
+export function useProgressUpdatedSubscription(baseOptions: ApolloReactHooks.SubscriptionHookOptions<ProgressUpdatedSubscription, ProgressUpdatedSubscriptionVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return ApolloReactHooks.useSubscription<ProgressUpdatedSubscription, ProgressUpdatedSubscriptionVariables>(ProgressUpdatedDocument, options);
+      }
+export type ProgressUpdatedSubscriptionHookResult = ReturnType<typeof useProgressUpdatedSubscription>;
 export const SessionUpdatedDocument = gql`
     subscription SessionUpdated($sessionId: ID!) {
   sessionUpdated(sessionId: $sessionId) {